@@ -11,6 +11,7 @@ import cors from 'cors';
 import { spawn } from 'child_process';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { appendFile, mkdir, readFile, writeFile } from 'fs/promises';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -60,12 +61,43 @@ const OPENAI_API_KEY = process.env.OPENAI_API_KEY || '';
 const OPENAI_MODEL = process.env.OPENAI_MODEL || process.env.VITE_OPENAI_MODEL || 'gpt-4o-mini';
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
 const GEMINI_MODEL = process.env.GEMINI_MODEL || process.env.VITE_GEMINI_MODEL || 'gemini-2.0-flash';
+const LOCAL_AI_BASE_URL = process.env.LOCAL_AI_BASE_URL || 'http://127.0.0.1:11434/v1';
+const LOCAL_AI_API_KEY = process.env.LOCAL_AI_API_KEY || '';
+const LOCAL_AI_MODEL = process.env.LOCAL_AI_MODEL || process.env.VITE_LOCAL_AI_MODEL || '';
+
+// Device sync operation log (one JSON op per line)
+const SYNC_LOG_PATH = process.env.BRIDGE_SYNC_LOG
+    || join(dirname(fileURLToPath(import.meta.url)), '..', 'data', 'sync-oplog.jsonl');
+const SYNC_MAX_OPS_PER_REQUEST = 500;
+const SYNC_PAGE_SIZE = 1000;
+
+// Calendar subscription feed published by the app
+const CALENDAR_FILE_PATH = process.env.BRIDGE_CALENDAR_FILE
+    || join(dirname(fileURLToPath(import.meta.url)), '..', 'data', 'calendar.ics');
+
+// AI call log (one JSON record per proxied call)
+const AI_USAGE_LOG_PATH = process.env.BRIDGE_AI_USAGE_LOG
+    || join(dirname(fileURLToPath(import.meta.url)), '..', 'data', 'ai-usage.jsonl');
+const AI_USAGE_FEATURE_PATTERN = /^[a-z_]{1,40}$/;
+/** Only the end of a relayed stream is kept to find the final usage event */
+const AI_USAGE_STREAM_TAIL = 16 * 1024;
 
 // Store active MCP process
 let mcpProcess = null;
 let sseClients = [];
 let nextClientId = 1;
 
+// Sync state: the whole op log is kept in memory and mirrored to SYNC_LOG_PATH
+let syncOps = [];
+const syncOpIds = new Set();
+let syncClients = [];
+let syncWriteQueue = Promise.resolve();
+
+// Latest calendar published by the app (served at /calendar.ics)
+let calendarIcs = null;
+
+let aiUsageWriteQueue = Promise.resolve();
+
 function isLoopbackAddress(rawAddress) {
     if (typeof rawAddress !== 'string') return false;
     const address = rawAddress.trim();
@@ -118,6 +150,24 @@ function validateGeminiBody(body) {
     return null;
 }
 
+function validateSyncOpsBody(body) {
+    if (!isPlainObject(body)) return 'Body must be a JSON object.';
+    if (!Array.isArray(body.ops) || body.ops.length === 0) return 'ops must be a non-empty array.';
+    if (body.ops.length > SYNC_MAX_OPS_PER_REQUEST) return `ops must contain at most ${SYNC_MAX_OPS_PER_REQUEST} entries.`;
+    if (body.baseSeq !== undefined && (!Number.isInteger(body.baseSeq) || body.baseSeq < 0)) {
+        return 'baseSeq must be a non-negative integer.';
+    }
+    for (const op of body.ops) {
+        if (!isPlainObject(op)) return 'Each op must be an object.';
+        if (typeof op.id !== 'string' || !op.id) return 'op.id must be a non-empty string.';
+        if (typeof op.deviceId !== 'string' || !op.deviceId) return 'op.deviceId must be a non-empty string.';
+        if (typeof op.hlc !== 'string' || !op.hlc) return 'op.hlc must be a non-empty string.';
+        if (typeof op.action !== 'string') return 'op.action must be a string.';
+        if (!Array.isArray(op.changes)) return 'op.changes must be an array.';
+    }
+    return null;
+}
+
 async function relayJson(url, options = {}) {
     const response = await fetch(url, options);
     const raw = await response.text();
@@ -136,6 +186,168 @@ async function relayJson(url, options = {}) {
     return data;
 }
 
+/**
+ * Relay an upstream Server-Sent Events response chunk by chunk.
+ * Errors before the first byte are thrown (caller answers with JSON); errors
+ * mid-stream are sent as a final `data: {"error": ...}` event. Closing the
+ * client connection aborts the upstream request.
+ * Resolves with the last usage report seen in the stream (for the AI call log),
+ * any error it ended with and whether the client aborted.
+ */
+async function relayStream(url, options, res) {
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+
+    const response = await fetch(url, { ...options, signal: controller.signal });
+    if (!response.ok || !response.body) {
+        const raw = await response.text();
+        let data = {};
+        try {
+            data = raw ? JSON.parse(raw) : {};
+        } catch {
+            data = { error: raw || response.statusText };
+        }
+        const message = typeof data?.error?.message === 'string'
+            ? data.error.message
+            : (typeof data?.error === 'string' ? data.error : response.statusText);
+        throw new Error(message || `Upstream request failed: ${response.status}`);
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const decoder = new TextDecoder();
+    let tail = '';
+    let streamError = null;
+    try {
+        for await (const chunk of response.body) {
+            res.write(chunk);
+            tail = (tail + decoder.decode(chunk, { stream: true })).slice(-AI_USAGE_STREAM_TAIL);
+        }
+    } catch (error) {
+        if (!controller.signal.aborted) {
+            const message = error instanceof Error ? error.message : String(error);
+            res.write(`data: ${JSON.stringify({ error: message })}\n\n`);
+            streamError = message;
+        }
+    }
+    res.end();
+    const summary = scanStreamTail(tail);
+    return { usage: summary.usage, aborted: controller.signal.aborted, error: streamError || summary.error };
+}
+
+/**
+ * Token counts from an OpenAI (`usage`) or Gemini (`usageMetadata`) response body
+ */
+function extractUsage(data) {
+    if (isPlainObject(data?.usage)) {
+        return {
+            inputTokens: Number(data.usage.prompt_tokens) || 0,
+            outputTokens: Number(data.usage.completion_tokens) || 0,
+        };
+    }
+    if (isPlainObject(data?.usageMetadata)) {
+        return {
+            inputTokens: Number(data.usageMetadata.promptTokenCount) || 0,
+            outputTokens: (Number(data.usageMetadata.candidatesTokenCount) || 0)
+                + (Number(data.usageMetadata.thoughtsTokenCount) || 0),
+        };
+    }
+    return null;
+}
+
+/**
+ * Last usage report and any error event in the tail of an SSE stream (Gemini
+ * repeats running totals, OpenAI sends one final chunk when
+ * `stream_options.include_usage` is set)
+ */
+function scanStreamTail(tail) {
+    const result = { usage: null, error: null };
+    const events = tail.split(/\r?\n\r?\n/).reverse();
+    for (const event of events) {
+        const data = event
+            .split(/\r?\n/)
+            .filter((line) => line.startsWith('data:'))
+            .map((line) => line.slice(5).trim())
+            .join('\n');
+        if (!data || data === '[DONE]') continue;
+        let parsed;
+        try {
+            parsed = JSON.parse(data);
+        } catch {
+            continue; // Event cut off by the tail window
+        }
+        if (!result.usage) result.usage = extractUsage(parsed);
+        if (!result.error && parsed?.error) {
+            result.error = typeof parsed.error === 'string'
+                ? parsed.error
+                : (typeof parsed.error.message === 'string' ? parsed.error.message : 'Upstream stream error');
+        }
+        if (result.usage && result.error) break;
+    }
+    return result;
+}
+
+/**
+ * Append one proxied AI call to the usage log. The feature label comes from the
+ * app's `x-ai-feature` header; writes are queued so lines never interleave.
+ */
+function recordAIUsage(req, entry) {
+    const header = String(req.headers['x-ai-feature'] || '');
+    const record = {
+        at: new Date(entry.startedAt).toISOString(),
+        feature: AI_USAGE_FEATURE_PATTERN.test(header) ? header : 'unknown',
+        provider: entry.provider,
+        model: entry.model,
+        stream: entry.stream,
+        ...(entry.usage ? { inputTokens: entry.usage.inputTokens, outputTokens: entry.usage.outputTokens } : {}),
+        latencyMs: Date.now() - entry.startedAt,
+        outcome: entry.outcome,
+        ...(entry.error ? { error: String(entry.error).slice(0, 200) } : {}),
+    };
+    aiUsageWriteQueue = aiUsageWriteQueue
+        .then(async () => {
+            await mkdir(dirname(AI_USAGE_LOG_PATH), { recursive: true });
+            await appendFile(AI_USAGE_LOG_PATH, JSON.stringify(record) + '\n', 'utf8');
+        })
+        .catch((error) => {
+            console.error('[AI USAGE ERROR] Failed to append to usage log:', error);
+        });
+}
+
+/**
+ * Record the outcome of a relayed stream
+ */
+function recordStreamUsage(req, entry, result) {
+    recordAIUsage(req, {
+        ...entry,
+        usage: result.usage,
+        outcome: result.error ? 'error' : (result.aborted ? 'aborted' : 'success'),
+        error: result.error,
+    });
+}
+
+function buildGeminiRequestBody(body) {
+    const requestBody = (body?.body && typeof body.body === 'object')
+        ? body.body
+        : {
+            contents: Array.isArray(body?.contents) ? body.contents : [],
+            ...((body?.config && typeof body.config === 'object') ? body.config : {}),
+        };
+    if (typeof requestBody.systemInstruction === 'string') {
+        requestBody.systemInstruction = {
+            parts: [{ text: requestBody.systemInstruction }],
+        };
+    }
+    return requestBody;
+}
+
 /**
  * Start the MCP Process
  */
@@ -195,6 +407,73 @@ function broadcastSse(message) {
     });
 }
 
+/**
+ * Load the persisted sync op log into memory
+ */
+async function loadSyncLog() {
+    try {
+        const raw = await readFile(SYNC_LOG_PATH, 'utf8');
+        raw.split('\n').forEach((line) => {
+            if (!line.trim()) return;
+            try {
+                const op = JSON.parse(line);
+                if (syncOpIds.has(op.id)) return;
+                syncOpIds.add(op.id);
+                syncOps.push(op);
+            } catch {
+                console.warn('[SYNC WARN] Skipping corrupt op log line');
+            }
+        });
+        console.log(`[SYNC] Loaded ${syncOps.length} ops from ${SYNC_LOG_PATH}`);
+    } catch (error) {
+        if (error?.code !== 'ENOENT') {
+            console.error('[SYNC ERROR] Failed to read op log:', error);
+        }
+    }
+}
+
+/**
+ * Append ops to the log file; writes are queued so lines never interleave
+ */
+function persistSyncOps(ops) {
+    const lines = ops.map((op) => JSON.stringify(op)).join('\n') + '\n';
+    syncWriteQueue = syncWriteQueue
+        .then(async () => {
+            await mkdir(dirname(SYNC_LOG_PATH), { recursive: true });
+            await appendFile(SYNC_LOG_PATH, lines, 'utf8');
+        })
+        .catch((error) => {
+            console.error('[SYNC ERROR] Failed to append to op log:', error);
+        });
+    return syncWriteQueue;
+}
+
+/**
+ * Load the last published calendar so subscribers get data before the app reconnects
+ */
+async function loadCalendar() {
+    try {
+        calendarIcs = await readFile(CALENDAR_FILE_PATH, 'utf8');
+        console.log(`[CALENDAR] Loaded feed from ${CALENDAR_FILE_PATH}`);
+    } catch (error) {
+        if (error?.code !== 'ENOENT') {
+            console.error('[CALENDAR ERROR] Failed to read calendar file:', error);
+        }
+    }
+}
+
+function broadcastSyncOps(ops, originClientId) {
+    const payload = `data: ${JSON.stringify({ type: 'sync-ops', ops, lastSeq: syncOps.length })}\n\n`;
+    syncClients.forEach((client) => {
+        if (client.id === originClientId) return;
+        try {
+            client.res.write(payload);
+        } catch (e) {
+            console.error(`[SYNC ERROR] Failed to send to sync client ${client.id}:`, e);
+        }
+    });
+}
+
 /**
  * SSE Endpoint - Client connects here to receive events
  */
@@ -261,42 +540,181 @@ app.post('/message', (req, res) => {
 });
 
 /**
- * AI Proxy Endpoints
- * Keeps provider API keys on server side only.
+ * Sync Endpoints
+ * Devices push store mutation ops; the bridge assigns a global `seq`,
+ * persists them and fans them out to every other connected sync client.
  */
-app.post('/ai/openai/chat', async (req, res) => {
+app.get('/sync/events', (req, res) => {
+    if (!isAuthorized(req)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Connection': 'keep-alive',
+        'Cache-Control': 'no-cache'
+    });
+
+    const clientId = nextClientId++;
+    syncClients.push({ id: clientId, res });
+    console.log(`Sync client connected: ${clientId}`);
+    res.write(`data: ${JSON.stringify({ type: 'sync-connected', clientId, lastSeq: syncOps.length })}\n\n`);
+
+    req.on('close', () => {
+        console.log(`Sync client disconnected: ${clientId}`);
+        syncClients = syncClients.filter((c) => c.id !== clientId);
+    });
+});
+
+app.get('/sync/ops', (req, res) => {
+    if (!isAuthorized(req)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const since = Math.max(0, Number.parseInt(String(req.query?.since ?? '0'), 10) || 0);
+    const ops = syncOps.slice(since, since + SYNC_PAGE_SIZE);
+    return res.json({ ops, lastSeq: since + ops.length, hasMore: since + ops.length < syncOps.length });
+});
+
+app.post('/sync/ops', async (req, res) => {
     if (!isAuthorized(req)) {
         return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const validationError = validateOpenAIChatBody(req.body);
+    const validationError = validateSyncOpsBody(req.body);
     if (validationError) {
         return res.status(400).json({ error: validationError });
     }
 
-    if (!OPENAI_API_KEY) {
-        return res.status(503).json({ error: 'OPENAI_API_KEY is not configured on bridge server' });
+    // A client that has not seen the whole log must pull first, so each accepted
+    // push lands right after the ops its sender already has and cursors never skip ops.
+    if (req.body.baseSeq !== undefined && req.body.baseSeq !== syncOps.length) {
+        return res.status(409).json({ error: 'Stale baseSeq; pull before pushing.', lastSeq: syncOps.length });
     }
+
+    // Ops are retried until acknowledged, so duplicates are expected and dropped.
+    const accepted = [];
+    req.body.ops.forEach((op) => {
+        if (syncOpIds.has(op.id)) return;
+        syncOpIds.add(op.id);
+        const stored = { ...op, seq: syncOps.length + 1, receivedAt: new Date().toISOString() };
+        syncOps.push(stored);
+        accepted.push(stored);
+    });
+
+    if (accepted.length > 0) {
+        await persistSyncOps(accepted);
+        const originClientId = Number.parseInt(String(req.headers['x-sync-client-id'] ?? ''), 10);
+        broadcastSyncOps(accepted, originClientId);
+    }
+    return res.json({ accepted: accepted.length, lastSeq: syncOps.length });
+});
+
+/**
+ * Calendar Feed Endpoints
+ * The app publishes its iCalendar export; calendar apps subscribe to /calendar.ics
+ * (pass ?token= when BRIDGE_TOKEN is set, since subscribers cannot send headers).
+ */
+app.post('/calendar', async (req, res) => {
+    if (!isAuthorized(req)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const ics = req.body?.ics;
+    if (typeof ics !== 'string' || !ics.startsWith('BEGIN:VCALENDAR')) {
+        return res.status(400).json({ error: 'ics must be a VCALENDAR document' });
+    }
+
+    calendarIcs = ics;
     try {
-        const body = {
-            ...req.body,
-            model: req.body?.model || OPENAI_MODEL,
-        };
-        const data = await relayJson('https://api.openai.com/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${OPENAI_API_KEY}`,
-            },
-            body: JSON.stringify(body),
-        });
-        return res.json(data);
+        await mkdir(dirname(CALENDAR_FILE_PATH), { recursive: true });
+        await writeFile(CALENDAR_FILE_PATH, ics, 'utf8');
     } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        return res.status(500).json({ error: message });
+        console.error('[CALENDAR ERROR] Failed to write calendar file:', error);
     }
+    return res.json({ success: true, bytes: Buffer.byteLength(ics, 'utf8') });
 });
 
+app.get('/calendar.ics', (req, res) => {
+    if (!isAuthorized(req)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+    if (!calendarIcs) {
+        return res.status(404).json({ error: 'No calendar has been published yet' });
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="priaxis.ics"');
+    res.setHeader('Cache-Control', 'no-cache');
+    return res.send(calendarIcs);
+});
+
+/**
+ * AI Proxy Endpoints
+ * Keeps provider API keys on server side only.
+ *
+ * OpenAI-compatible chat endpoints (`/ai/<name>/chat` and `/ai/<name>/chat/stream`).
+ * `resolveTarget` returns the upstream URL, key and default model, or an error
+ * string when the backend is not configured.
+ */
+function registerOpenAICompatibleRoutes(name, resolveTarget) {
+    const handle = (stream) => async (req, res) => {
+        if (!isAuthorized(req)) {
+            return res.status(401).json({ error: 'Unauthorized' });
+        }
+
+        const validationError = validateOpenAIChatBody(req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const target = resolveTarget();
+        if (typeof target === 'string') {
+            return res.status(503).json({ error: target });
+        }
+        const usageEntry = { provider: name, model: req.body?.model || target.model || 'default', stream, startedAt: Date.now() };
+        try {
+            const body = {
+                ...req.body,
+                model: req.body?.model || target.model,
+                ...(stream ? { stream: true } : {}),
+            };
+            const options = {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(target.apiKey ? { 'Authorization': `Bearer ${target.apiKey}` } : {}),
+                },
+                body: JSON.stringify(body),
+            };
+            if (stream) {
+                recordStreamUsage(req, usageEntry, await relayStream(target.url, options, res));
+                return;
+            }
+            const data = await relayJson(target.url, options);
+            recordAIUsage(req, { ...usageEntry, usage: extractUsage(data), outcome: 'success' });
+            return res.json(data);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            recordAIUsage(req, { ...usageEntry, outcome: 'error', error: message });
+            if (res.headersSent) return res.end();
+            return res.status(500).json({ error: message });
+        }
+    };
+
+    app.post(`/ai/${name}/chat`, handle(false));
+    app.post(`/ai/${name}/chat/stream`, handle(true));
+}
+
+registerOpenAICompatibleRoutes('openai', () => (OPENAI_API_KEY
+    ? { url: 'https://api.openai.com/v1/chat/completions', apiKey: OPENAI_API_KEY, model: OPENAI_MODEL }
+    : 'OPENAI_API_KEY is not configured on bridge server'));
+
+// Local OpenAI-compatible server (llama.cpp, Ollama, LM Studio); requests never leave this machine
+registerOpenAICompatibleRoutes('local', () => (LOCAL_AI_BASE_URL
+    ? { url: `${LOCAL_AI_BASE_URL.replace(/\/+$/, '')}/chat/completions`, apiKey: LOCAL_AI_API_KEY, model: LOCAL_AI_MODEL }
+    : 'LOCAL_AI_BASE_URL is not configured on bridge server'));
+
 app.post('/ai/gemini/generate', async (req, res) => {
     if (!isAuthorized(req)) {
         return res.status(401).json({ error: 'Unauthorized' });
@@ -310,19 +728,10 @@ app.post('/ai/gemini/generate', async (req, res) => {
     if (!GEMINI_API_KEY) {
         return res.status(503).json({ error: 'GEMINI_API_KEY is not configured on bridge server' });
     }
+    const model = req.body?.model || GEMINI_MODEL;
+    const usageEntry = { provider: 'gemini', model, stream: false, startedAt: Date.now() };
     try {
-        const model = req.body?.model || GEMINI_MODEL;
-        const requestBody = (req.body?.body && typeof req.body.body === 'object')
-            ? req.body.body
-            : {
-                contents: Array.isArray(req.body?.contents) ? req.body.contents : [],
-                ...((req.body?.config && typeof req.body.config === 'object') ? req.body.config : {}),
-            };
-        if (typeof requestBody.systemInstruction === 'string') {
-            requestBody.systemInstruction = {
-                parts: [{ text: requestBody.systemInstruction }],
-            };
-        }
+        const requestBody = buildGeminiRequestBody(req.body);
         const data = await relayJson(
             `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent?key=${encodeURIComponent(GEMINI_API_KEY)}`,
             {
@@ -331,13 +740,101 @@ app.post('/ai/gemini/generate', async (req, res) => {
                 body: JSON.stringify(requestBody),
             }
         );
+        recordAIUsage(req, { ...usageEntry, usage: extractUsage(data), outcome: 'success' });
         return res.json(data);
     } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
+        recordAIUsage(req, { ...usageEntry, outcome: 'error', error: message });
         return res.status(500).json({ error: message });
     }
 });
 
+/**
+ * Streaming variant of the Gemini endpoint.
+ * Same request body as above; the response is the provider's SSE stream.
+ */
+app.post('/ai/gemini/stream', async (req, res) => {
+    if (!isAuthorized(req)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const validationError = validateGeminiBody(req.body);
+    if (validationError) {
+        return res.status(400).json({ error: validationError });
+    }
+
+    if (!GEMINI_API_KEY) {
+        return res.status(503).json({ error: 'GEMINI_API_KEY is not configured on bridge server' });
+    }
+    const model = req.body?.model || GEMINI_MODEL;
+    const usageEntry = { provider: 'gemini', model, stream: true, startedAt: Date.now() };
+    try {
+        const result = await relayStream(
+            `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse&key=${encodeURIComponent(GEMINI_API_KEY)}`,
+            {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(buildGeminiRequestBody(req.body)),
+            },
+            res
+        );
+        recordStreamUsage(req, usageEntry, result);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        recordAIUsage(req, { ...usageEntry, outcome: 'error', error: message });
+        if (res.headersSent) return res.end();
+        return res.status(500).json({ error: message });
+    }
+});
+
+/**
+ * AI usage summary from the bridge log.
+ * Per-feature totals for calls proxied in the last `?days=` days (1-30, default 1).
+ */
+app.get('/ai/usage', async (req, res) => {
+    if (!isAuthorized(req)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const days = Math.min(30, Math.max(1, Number.parseInt(String(req.query?.days ?? '1'), 10) || 1));
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    let raw = '';
+    try {
+        raw = await readFile(AI_USAGE_LOG_PATH, 'utf8');
+    } catch (error) {
+        if (error?.code !== 'ENOENT') {
+            return res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    const features = {};
+    raw.split('\n').forEach((line) => {
+        if (!line.trim()) return;
+        let record;
+        try {
+            record = JSON.parse(line);
+        } catch {
+            return;
+        }
+        if (typeof record.at !== 'string' || record.at < since) return;
+        const summary = features[record.feature] ??= {
+            calls: 0, errors: 0, aborted: 0, inputTokens: 0, outputTokens: 0, totalLatencyMs: 0,
+        };
+        summary.calls += 1;
+        if (record.outcome === 'error') summary.errors += 1;
+        if (record.outcome === 'aborted') summary.aborted += 1;
+        summary.inputTokens += record.inputTokens || 0;
+        summary.outputTokens += record.outputTokens || 0;
+        summary.totalLatencyMs += record.latencyMs || 0;
+    });
+
+    Object.values(features).forEach((summary) => {
+        summary.avgLatencyMs = Math.round(summary.totalLatencyMs / summary.calls);
+        delete summary.totalLatencyMs;
+    });
+    return res.json({ since, features });
+});
+
 // Final error handler: return JSON instead of HTML 500 pages.
 app.use((err, _req, res, _next) => {
     const message = err instanceof Error ? err.message : String(err);
@@ -347,10 +844,15 @@ app.use((err, _req, res, _next) => {
     }
 });
 
+await loadSyncLog();
+await loadCalendar();
+
 app.listen(PORT, HOST, () => {
     console.log(`
   🌉 MCP Bridge running at http://${HOST}:${PORT}
   📡 SSE Endpoint: http://${HOST}:${PORT}/sse
   📨 Message Endpoint: http://${HOST}:${PORT}/message
+  🔄 Sync Endpoint: http://${HOST}:${PORT}/sync/events
+  📅 Calendar Feed: http://${HOST}:${PORT}/calendar.ics
   `);
 });
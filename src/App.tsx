@@ -10,6 +10,10 @@ import { useTranslation } from './lib/i18n/useTranslation';
 import type { TranslationKey } from './lib/i18n/types';
 import { monitorEngine } from './services/monitor-engine';
 import { systemMonitor } from './services/system-monitor';
+import { startSnapshotSchedule } from './services/storage/snapshots';
+import { startSync } from './services/sync/sync-client';
+import { startCalendarFeed } from './services/calendar/calendar-feed';
+import { startMemorySchedule } from './services/memory-service';
 
 const importDailyFeature = () => import('./features/daily');
 const importQuestFeature = () => import('./features/quest');
@@ -339,11 +343,41 @@ function AppContent() {
     setLanguage(language === 'zh' ? 'en' : 'zh');
   };
 
-  // Check for daily reset on mount
+  // Check for daily reset once persisted data has loaded from IndexedDB
   useEffect(() => {
-    checkDailyReset();
+    if (useGameStore.persist.hasHydrated()) {
+      checkDailyReset();
+      return;
+    }
+    return useGameStore.persist.onFinishHydration(() => checkDailyReset());
   }, [checkDailyReset]);
 
+  // Rolling snapshots; started after hydration so defaults are never captured
+  useEffect(() => {
+    let stopSchedule: (() => void) | undefined;
+    const start = () => {
+      stopSchedule = startSnapshotSchedule(() => useGameStore.getState().exportData());
+    };
+    if (useGameStore.persist.hasHydrated()) {
+      start();
+      return () => stopSchedule?.();
+    }
+    const unsubscribe = useGameStore.persist.onFinishHydration(start);
+    return () => {
+      unsubscribe();
+      stopSchedule?.();
+    };
+  }, []);
+
+  // Device sync through the bridge (no-op until enabled in Data Management)
+  useEffect(() => startSync(), []);
+
+  // Calendar subscription feed through the bridge (no-op until enabled)
+  useEffect(() => startCalendarFeed(), []);
+
+  // Long-term AI memory: condense events and reflections when stale
+  useEffect(() => startMemorySchedule(), []);
+
   // Preload high-frequency tabs when browser is idle to reduce first-switch delay.
   useEffect(() => {
     const highFrequencyTabs = ['daily', 'quest', 'season'];
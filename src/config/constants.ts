@@ -67,11 +67,16 @@ export const TITLE_DATABASE = {
     { id: 'creator', name: '创造者', minLevel: 50, type: 'level' as const, description: '快乐自由的创造' },
   ],
   achievementTitles: [
-    { id: 'pomodoro_beginner', name: '🍅 专注新手', condition: 'totalPomodoro >= 10', description: '完成10个番茄钟' },
-    { id: 'pomodoro_master', name: '🍅 番茄钟达人', condition: 'totalPomodoro >= 100', description: '完成100个番茄钟' },
-    { id: 'task_hunter', name: '📋 任务猎人', condition: 'completedTasks >= 50', description: '完成50个任务' },
-    { id: 'knowledge_seeker', name: '📚 求知若渴', condition: 'anySkillLevel >= 5', description: '任意技能达到5级' },
-    { id: 'skill_master', name: '✨ 技能大师', condition: 'allSkillsLevel3', description: '所有技能达到3级' },
+    { id: 'pomodoro_beginner', name: '🍅 专注新手', condition: 'pomodoros >= 10', description: '完成10个番茄钟' },
+    { id: 'pomodoro_master', name: '🍅 番茄钟达人', condition: 'pomodoros >= 100', description: '完成100个番茄钟' },
+    { id: 'task_hunter', name: '📋 任务猎人', condition: 'tasks_completed >= 50', description: '完成50个任务' },
+    { id: 'knowledge_seeker', name: '📚 求知若渴', condition: 'max_skill_level >= 5', description: '任意技能达到5级' },
+    { id: 'skill_master', name: '✨ 技能大师', condition: 'min_skill_level >= 3', description: '所有技能达到3级' },
+    { id: 'habit_keeper', name: '🔥 习惯守护者', condition: 'habit_streak >= 21', description: '任一习惯连续打卡21天' },
+    { id: 'memory_palace', name: '🧠 记忆宫殿', condition: 'flashcards_reviewed >= 500', description: '累计复习500张闪卡' },
+    { id: 'creative_sprint', name: '🎨 创造冲刺', condition: 'tasks_completed(type: creative, within: 7d) >= 10', description: '7天内完成10个创造型任务' },
+    { id: 'gold_rush', name: '💰 淘金热', condition: 'gold_earned(within: 30d) >= 1000', description: '30天内赚取1000金币' },
+    { id: 'questline_runner', name: '🗺️ 主线推进者', condition: 'quests_completed(within: 90d) >= 3', description: '90天内完成3个主线任务' },
   ],
   specialTitles: [
     { id: 'phd_student', name: '📜 PhD Student', condition: 'manual', description: '博士研究生身份' },
@@ -36,11 +36,7 @@ export const DEFAULT_TRIGGERS: InterventionTrigger[] = [
     response: {
       level: 'coach',
       message: '我注意到这个任务的截止日期已经推迟了好几次。我们来聊聊是什么阻碍了进展？也许我能帮你找到突破口。',
-      coachPrompt: `用户有一个任务的 DDL 被推迟了多次。请帮助分析：
-1. 可能的阻碍因素是什么？
-2. 任务是否太大需要拆分？
-3. 是否有完美主义或拖延模式？
-4. 建议具体的下一步行动`,
+      coachPromptId: 'intervention.deadline_postponed',
     },
     cooldown: 180, // 3 小时冷却
     enabled: true,
@@ -59,11 +55,7 @@ export const DEFAULT_TRIGGERS: InterventionTrigger[] = [
     response: {
       level: 'coach',
       message: '今天的进度有点落后了 📊 我们来看看能不能调整一下计划？有些任务可能可以移到明天。',
-      coachPrompt: `用户今日完成率较低，时间已是晚间。请帮助：
-1. 评估剩余任务的优先级
-2. 建议哪些任务今天必须完成
-3. 哪些可以安全地移到明天
-4. 给出具体的行动建议`,
+      coachPromptId: 'intervention.low_daily_completion',
     },
     cooldown: 240, // 4 小时冷却（基本上今天不会再触发）
     enabled: true,
@@ -81,11 +73,7 @@ export const DEFAULT_TRIGGERS: InterventionTrigger[] = [
     response: {
       level: 'coach',
       message: '有些副本可能来不及按时完成了 ⚠️ 我们需要做一些取舍决定。你愿意和我讨论一下吗？',
-      coachPrompt: `有副本处于风险状态，可能无法按时完成。请帮助用户：
-1. 分析每个风险副本的情况
-2. 评估是否需要剪枝（放弃或降级）
-3. 如果要保留，需要什么调整
-4. 使用 MoSCoW 框架帮助决策`,
+      coachPromptId: 'intervention.quest_at_risk',
     },
     cooldown: 360, // 6 小时冷却
     enabled: true,
@@ -103,11 +91,7 @@ export const DEFAULT_TRIGGERS: InterventionTrigger[] = [
     response: {
       level: 'coach',
       message: '看起来有好几个任务逾期了 😟 我们来一起看看怎么处理？不要太担心，我们可以重新规划。',
-      coachPrompt: `用户有多个逾期任务。请帮助：
-1. 优先级排序 - 哪些最紧急
-2. 哪些可以取消或推迟
-3. 是否有系统性问题（任务太多？估时不准？）
-4. 制定一个短期恢复计划`,
+      coachPromptId: 'intervention.progress_behind',
     },
     cooldown: 240,
     enabled: true,
@@ -125,11 +109,7 @@ export const DEFAULT_TRIGGERS: InterventionTrigger[] = [
     response: {
       level: 'coach',
       message: '有副本已经逾期了 ⏰ 我们来看看是延期、调整范围还是归档？',
-      coachPrompt: `有副本已超过截止日期。请帮助用户：
-1. 分析逾期原因（低估工作量？优先级问题？）
-2. 评估是否值得继续投入
-3. 决定延期、缩减范围还是归档
-4. 如果继续，设定新的现实目标`,
+      coachPromptId: 'intervention.quest_overdue',
     },
     cooldown: 360,
     enabled: true,
@@ -147,11 +127,7 @@ export const DEFAULT_TRIGGERS: InterventionTrigger[] = [
     response: {
       level: 'coach',
       message: '有主线章节已逾期 📖 这可能影响整个主线的进度，我们需要重新规划。',
-      coachPrompt: `有主线章节已超过截止日期。请帮助用户：
-1. 分析章节逾期的影响
-2. 评估是否需要调整主线目标
-3. 重新安排章节内的副本优先级
-4. 必要时缩减章节范围`,
+      coachPromptId: 'intervention.chapter_overdue',
     },
     cooldown: 480, // 8小时
     enabled: true,
@@ -207,16 +183,7 @@ export const DEFAULT_TRIGGERS: InterventionTrigger[] = [
     response: {
       level: 'coach',
       message: '下午 4 点了，加权完成率还不到 80% ⚠️ 让我帮你看看接下来应该专注什么。',
-      coachPrompt: `用户使用"一二三方法"：
-- 1 个创造型任务（80% 权重）
-- 2 个税收型任务（15% 权重）
-- 3 个维护型任务（5% 权重）
-
-现在是下午 4 点，加权完成率不到 80%。请帮助：
-1. 确认创造型任务是否完成（最重要）
-2. 如果未完成，分析阻碍
-3. 评估剩余时间能完成多少
-4. 建议取舍优先级`,
+      coachPromptId: 'intervention.one_two_three',
     },
     cooldown: 1440, // 24 小时
     enabled: true,
@@ -0,0 +1,176 @@
+/**
+ * AI Action Panel
+ * Pending destructive tool calls with a diff preview, and undo for recent AI actions
+ */
+
+import { useState } from 'react';
+import styled from 'styled-components';
+import { useAIActionStore, type AIActionChange } from '../../stores/ai-action-store';
+import { confirmPendingAction, rejectPendingAction, undoRecentActions } from '../../lib/ai/tools';
+import { Button } from '../../components/ui';
+import { useTranslation } from '../../lib/i18n/useTranslation';
+
+// ==================== Styled Components ====================
+
+const Panel = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  padding: 8px 16px;
+  background: ${({ theme }) => theme.colors.bg.primary};
+  border-top: 1px solid ${({ theme }) => theme.colors.border.primary};
+  max-height: 220px;
+  overflow-y: auto;
+`;
+
+const PendingCard = styled.div`
+  padding: 10px 12px;
+  border-radius: 10px;
+  border: 1px solid ${({ theme }) => theme.colors.accent.primary};
+  background: ${({ theme }) => theme.colors.bg.secondary};
+  font-size: 0.85rem;
+`;
+
+const CardTitle = styled.div`
+  font-size: 0.75rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+  margin-bottom: 4px;
+`;
+
+const Summary = styled.div`
+  font-weight: 600;
+  color: ${({ theme }) => theme.colors.text.primary};
+`;
+
+const ChangeList = styled.ul`
+  margin: 6px 0;
+  padding-left: 16px;
+  color: ${({ theme }) => theme.colors.text.secondary};
+  word-break: break-word;
+`;
+
+const Before = styled.span`
+  text-decoration: line-through;
+  opacity: 0.7;
+`;
+
+const CardActions = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 8px;
+`;
+
+const HistoryToggle = styled.button`
+  align-self: flex-start;
+  padding: 0;
+  border: none;
+  background: none;
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+  cursor: pointer;
+
+  &:hover {
+    color: ${({ theme }) => theme.colors.text.primary};
+  }
+`;
+
+const HistoryRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+`;
+
+// ==================== Component ====================
+
+function ChangeItem({ change }: { change: AIActionChange }) {
+  return (
+    <li>
+      {change.label}:{' '}
+      {change.before !== undefined && <Before>{change.before}</Before>}
+      {change.before !== undefined && change.after !== undefined && ' → '}
+      {change.after}
+    </li>
+  );
+}
+
+interface AIActionPanelProps {
+  /** Report the outcome of a confirm / reject / undo back into the conversation */
+  onNotice: (message: string) => void;
+}
+
+export function AIActionPanel({ onNotice }: AIActionPanelProps) {
+  const { t } = useTranslation();
+  const pending = useAIActionStore((state) => state.pending);
+  const history = useAIActionStore((state) => state.history);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  if (pending.length === 0 && history.length === 0) return null;
+
+  const handleConfirm = async (id: string, summary: string) => {
+    setBusyId(id);
+    try {
+      const result = await confirmPendingAction(id) as { success?: boolean; message?: string; error?: string };
+      onNotice(result?.success
+        ? t('ai.actions.confirmed', { summary })
+        : `${t('ai.actions.failed', { summary })}${result?.message || result?.error ? ` (${result.message || result.error})` : ''}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = (id: string, summary: string) => {
+    rejectPendingAction(id);
+    onNotice(t('ai.actions.rejected', { summary }));
+  };
+
+  const handleUndo = (count: number) => {
+    const undone = undoRecentActions(count);
+    onNotice(t('ai.actions.undone', { count: undone }));
+  };
+
+  return (
+    <Panel>
+      {pending.map((action) => (
+        <PendingCard key={action.id}>
+          <CardTitle>{t('ai.actions.pending_title')}</CardTitle>
+          <Summary>{action.summary}</Summary>
+          {action.changes.length > 0 && (
+            <ChangeList>
+              {action.changes.map((change, index) => (
+                <ChangeItem key={`${change.label}-${index}`} change={change} />
+              ))}
+            </ChangeList>
+          )}
+          <CardActions>
+            <Button variant="ghost" size="sm" disabled={busyId === action.id} onClick={() => handleReject(action.id, action.summary)}>
+              {t('ai.actions.reject')}
+            </Button>
+            <Button size="sm" disabled={busyId === action.id} onClick={() => void handleConfirm(action.id, action.summary)}>
+              {t('ai.actions.confirm')}
+            </Button>
+          </CardActions>
+        </PendingCard>
+      ))}
+
+      {history.length > 0 && (
+        <>
+          <HistoryToggle onClick={() => setShowHistory(!showHistory)}>
+            {showHistory ? '▾' : '▸'} {t('ai.actions.history_title', { count: history.length })}
+          </HistoryToggle>
+          {showHistory && history.map((record, index) => (
+            <HistoryRow key={record.id}>
+              <span>{record.summary}</span>
+              <Button variant="ghost" size="sm" onClick={() => handleUndo(index + 1)}>
+                {t('ai.actions.undo_to_here')}
+              </Button>
+            </HistoryRow>
+          ))}
+        </>
+      )}
+    </Panel>
+  );
+}
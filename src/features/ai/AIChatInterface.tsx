@@ -12,7 +12,11 @@ import type { ChatMessage, Role } from '../../types/ai';
 import type { TranslationKey } from '../../lib/i18n/types';
 import { friendAI } from '../../services/friend-ai';
 import { coachAI } from '../../services/coach-ai';
+import type { StreamOptions } from '../../services/ai-base';
 import { Button, Input } from '../../components/ui';
+import { AIActionPanel } from './AIActionPanel';
+import { SlashCommandMenu } from './SlashCommandMenu';
+import { runSlashCommand } from '../../lib/slash-commands';
 import { useTranslation } from '../../lib/i18n/useTranslation';
 
 // ==================== Styled Components ====================
@@ -276,6 +280,8 @@ export function AIChatInterface({ isOpen, onClose }: AIChatInterfaceProps) {
   } = useChatStore();
 
   const [input, setInput] = useState('');
+  const [streamingText, setStreamingText] = useState('');
+  const [activeRequest, setActiveRequest] = useState<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -292,7 +298,10 @@ export function AIChatInterface({ isOpen, onClose }: AIChatInterfaceProps) {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages, loading]);
+  }, [messages, loading, streamingText]);
+
+  // Cancel an in-flight reply when the chat unmounts
+  useEffect(() => () => activeRequest?.abort(), [activeRequest]);
 
   // Handle Escape key
   useEffect(() => {
@@ -378,8 +387,28 @@ export function AIChatInterface({ isOpen, onClose }: AIChatInterfaceProps) {
 
     const userContent = input;
     setInput('');
+
+    // Slash commands run locally and never reach the model
+    const command = await runSlashCommand(userContent, language as 'zh' | 'en');
+    if (command) {
+      addStoreMessage({ role: 'user', content: userContent.trim() });
+      addStoreMessage({ role: 'model', content: command.message });
+      return;
+    }
+
     setLoading(true);
 
+    const controller = new AbortController();
+    let partialText = '';
+    const stream: StreamOptions = {
+      signal: controller.signal,
+      onText: (text) => {
+        partialText = text;
+        setStreamingText(text);
+      },
+    };
+    setActiveRequest(controller);
+
     // Add user message to store
     addStoreMessage({ role: 'user', content: userContent });
 
@@ -396,26 +425,37 @@ export function AIChatInterface({ isOpen, onClose }: AIChatInterfaceProps) {
       // Call appropriate AI service
       let response;
       if (activePersona === 'friend') {
-        response = await friendAI.chat(userContent, history);
+        response = await friendAI.chat(userContent, history, stream);
       } else {
-        response = await coachAI.chat(userContent, history);
+        response = await coachAI.chat(userContent, history, stream);
       }
 
-      // Add AI response to store
-      addStoreMessage({ role: 'model', content: response.message });
+      // Add AI response to store (keep whatever arrived if the user stopped it)
+      if (controller.signal.aborted) {
+        addStoreMessage({ role: 'model', content: partialText ? `${partialText}\n\n${t('ai.stream.stopped')}` : t('ai.stream.stopped') });
+      } else {
+        addStoreMessage({ role: 'model', content: response.message });
+      }
 
     } catch (error) {
       console.error('Chat error:', error);
       addStoreMessage({ role: 'model', content: t('ai.error.generic') });
     } finally {
+      setStreamingText('');
+      setActiveRequest(null);
       setLoading(false);
     }
   };
 
-  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+  const handleStop = () => {
+    activeRequest?.abort();
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, handleSlashKey: (e: React.KeyboardEvent<HTMLInputElement>) => boolean) => {
     const nativeEvent = e.nativeEvent as KeyboardEvent;
     const isComposing = nativeEvent.isComposing || nativeEvent.keyCode === 229;
     if (isComposing) return;
+    if (handleSlashKey(e)) return;
 
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -463,7 +503,10 @@ export function AIChatInterface({ isOpen, onClose }: AIChatInterfaceProps) {
             {typeof msg.content === 'string' ? msg.content : ''}
           </MessageBubble>
         ))}
-        {loading && (
+        {loading && streamingText && (
+          <MessageBubble $role="model">{streamingText}</MessageBubble>
+        )}
+        {loading && !streamingText && (
           <TypingIndicator>
             <span />
             <span />
@@ -473,16 +516,28 @@ export function AIChatInterface({ isOpen, onClose }: AIChatInterfaceProps) {
         <div ref={messagesEndRef} />
       </MessagesArea>
 
+      <AIActionPanel onNotice={(notice) => addStoreMessage({ role: 'model', content: notice })} />
+
       <InputArea>
-        <Input
-          value={input}
-          onChange={(e) => setInput(e.target.value)}
-          onKeyDown={handleInputKeyDown}
-          placeholder={activePersona === 'friend' ? t('ai.input.placeholder.friend') : t('ai.input.placeholder.coach')}
-        />
-        <SendButton onClick={handleSendMessage} disabled={!input.trim() || loading}>
-          {t('ai.action.send')}
-        </SendButton>
+        <SlashCommandMenu input={input} onInputChange={setInput}>
+          {(handleSlashKey) => (
+            <Input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => handleInputKeyDown(e, handleSlashKey)}
+              placeholder={activePersona === 'friend' ? t('ai.input.placeholder.friend') : t('ai.input.placeholder.coach')}
+            />
+          )}
+        </SlashCommandMenu>
+        {activeRequest ? (
+          <SendButton variant="secondary" onClick={handleStop}>
+            {t('ai.action.stop')}
+          </SendButton>
+        ) : (
+          <SendButton onClick={handleSendMessage} disabled={!input.trim() || loading}>
+            {t('ai.action.send')}
+          </SendButton>
+        )}
       </InputArea>
 
       {/* History Sidebar */}
@@ -0,0 +1,136 @@
+/**
+ * Slash Command Menu
+ * Autocomplete for `/` commands in the chat inputs (command names, tasks, habits, quests, dates)
+ */
+
+import { useState } from 'react';
+import styled from 'styled-components';
+import { getSlashSuggestions, type SlashSuggestion } from '../../lib/slash-commands';
+import { useTranslation } from '../../lib/i18n/useTranslation';
+
+// ==================== Styled Components ====================
+
+const Anchor = styled.div`
+  position: relative;
+  flex: 1;
+  display: flex;
+
+  > input {
+    flex: 1;
+  }
+`;
+
+const Menu = styled.ul`
+  position: absolute;
+  left: 0;
+  right: 0;
+  bottom: calc(100% + 6px);
+  margin: 0;
+  padding: 4px;
+  list-style: none;
+  background: ${({ theme }) => theme.colors.bg.primary};
+  border: 1px solid ${({ theme }) => theme.colors.border.primary};
+  border-radius: 10px;
+  box-shadow: 0 6px 20px rgba(0, 0, 0, 0.15);
+  z-index: 5;
+`;
+
+const Item = styled.li<{ $active: boolean }>`
+  display: flex;
+  justify-content: space-between;
+  gap: 12px;
+  padding: 6px 10px;
+  border-radius: 6px;
+  font-size: 0.85rem;
+  cursor: pointer;
+  color: ${({ theme }) => theme.colors.text.primary};
+  background: ${({ theme, $active }) => ($active ? theme.colors.bg.tertiary : 'transparent')};
+`;
+
+const Detail = styled.span`
+  color: ${({ theme }) => theme.colors.text.tertiary};
+  white-space: nowrap;
+`;
+
+const Hint = styled.li`
+  padding: 4px 10px 2px;
+  font-size: 0.7rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+`;
+
+// ==================== Component ====================
+
+interface SlashCommandMenuProps {
+  input: string;
+  onInputChange: (value: string) => void;
+  /**
+   * Renders the input; call `handleKeyDown` first in its key handler; it
+   * returns true when the menu consumed the key
+   */
+  children: (handleKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => boolean) => React.ReactNode;
+}
+
+export function SlashCommandMenu({ input, onInputChange, children }: SlashCommandMenuProps) {
+  const { t, language } = useTranslation();
+  const [selected, setSelected] = useState(0);
+  const [dismissedFor, setDismissedFor] = useState<string | null>(null);
+
+  // Suggestions read the store directly; the input re-renders the menu on every keystroke
+  const suggestions = dismissedFor === input ? [] : getSlashSuggestions(input, language as 'zh' | 'en');
+  const active = Math.min(selected, Math.max(0, suggestions.length - 1));
+
+  const pick = (suggestion: SlashSuggestion) => {
+    onInputChange(suggestion.value);
+    setSelected(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): boolean => {
+    if (suggestions.length === 0) return false;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelected((active + step + suggestions.length) % suggestions.length);
+      return true;
+    }
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      setDismissedFor(input);
+      return true;
+    }
+    // Tab always completes; Enter completes unless the input already is the suggestion
+    const suggestion = suggestions[active];
+    if (e.key === 'Tab' || (e.key === 'Enter' && suggestion.value.trim() !== input.trim())) {
+      e.preventDefault();
+      pick(suggestion);
+      return true;
+    }
+    return false;
+  };
+
+  return (
+    <Anchor>
+      {suggestions.length > 0 && (
+        <Menu role="listbox">
+          {suggestions.map((suggestion, index) => (
+            <Item
+              key={suggestion.value}
+              role="option"
+              aria-selected={index === active}
+              $active={index === active}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(suggestion);
+              }}
+            >
+              <span>{suggestion.label}</span>
+              {suggestion.detail && <Detail>{suggestion.detail}</Detail>}
+            </Item>
+          ))}
+          <Hint>{t('ai.slash.hint')}</Hint>
+        </Menu>
+      )}
+      {children(handleKeyDown)}
+    </Anchor>
+  );
+}
@@ -1 +1,2 @@
 export { AIChatInterface } from './AIChatInterface';
+export { AIActionPanel } from './AIActionPanel';
@@ -10,11 +10,13 @@ import { useTranslation } from '../../lib/i18n/useTranslation';
 import { useGameStore } from '../../stores';
 import { HierarchyTree } from './components/HierarchyTree';
 import { Breadcrumb, type BreadcrumbItem } from './components/Breadcrumb';
+import { ForecastPanel } from './components/ForecastPanel';
 import { QuestFormModal } from '../quest/components/QuestFormModal';
 import { ChapterFormModal } from '../season/components/ChapterFormModal';
 import { SeasonWizardModal } from '../season/components/SeasonWizardModal';
 import { TaskFormModal } from '../daily/components/TaskFormModal';
 import type { Season, MainQuest, CustomTask, Chapter, Category } from '../../types/task';
+import { forecastSchedule } from '../../services/schedule-forecast';
 
 // Types for selected items
 type SelectedItem =
@@ -206,7 +208,7 @@ const EmptyDetail = styled.div`
 
 const StatsGrid = styled.div`
   display: grid;
-  grid-template-columns: repeat(4, 1fr);
+  grid-template-columns: repeat(5, 1fr);
   gap: 12px;
   margin-bottom: 24px;
 `;
@@ -283,6 +285,9 @@ export function CommandCenterPage() {
   const activeSeasons = useGameStore((s) => s.activeSeasons);
   const mainQuests = useGameStore((s) => s.mainQuests);
   const customTasks = useGameStore((s) => s.customTasks);
+  const archivedTasks = useGameStore((s) => s.archivedTasks);
+  const taskLogs = useGameStore((s) => s.taskLogs);
+  const dailyCompletionSnapshots = useGameStore((s) => s.dailyCompletionSnapshots);
 
   // Store actions
   const updateQuest = useGameStore((s) => s.updateQuest);
@@ -305,6 +310,15 @@ export function CommandCenterPage() {
     };
   }, [activeSeasons, mainQuests, customTasks]);
 
+  // Predicted completion dates and critical paths
+  const forecast = useMemo(
+    () => forecastSchedule({ customTasks, archivedTasks, mainQuests, activeSeasons, taskLogs, dailyCompletionSnapshots }),
+    [customTasks, archivedTasks, mainQuests, activeSeasons, taskLogs, dailyCompletionSnapshots]
+  );
+  const forecastAtRiskCount = forecast.quests.filter(
+    (f) => f.riskLevel === 'high' || f.riskLevel === 'critical'
+  ).length;
+
   // Build breadcrumb items based on selection
   const breadcrumbItems = useMemo<BreadcrumbItem[]>(() => {
     const items: BreadcrumbItem[] = [
@@ -513,6 +527,9 @@ export function CommandCenterPage() {
         (q) =>
           q.linkedChapterId === chapter.id && q.seasonId === selectedItem.seasonId
       );
+      const chapterForecast = forecast.chapters.find(
+        (f) => f.chapterId === chapter.id && f.seasonId === selectedItem.seasonId
+      );
 
       return (
         <>
@@ -539,6 +556,16 @@ export function CommandCenterPage() {
 
           {chapter.description && <Description>{chapter.description}</Description>}
 
+          {chapterForecast && (
+            <ForecastPanel
+              forecast={chapterForecast}
+              throughput={forecast.throughput}
+              criticalPath={chapterForecast.criticalPath.map(
+                (id) => mainQuests.find((q) => q.id === id)?.title || id
+              )}
+            />
+          )}
+
           <LinkedItemsSection>
             <SectionTitle>📋 {t('cmd.linked_quests')} ({linkedQuests.length})</SectionTitle>
             <LinkedItemList>
@@ -553,6 +580,7 @@ export function CommandCenterPage() {
                   </LinkedItemName>
                   <LinkedItemMeta>
                     {t('cmd.progress')}: {quest.progress}% • {quest.status}
+                    {chapterForecast?.criticalPath.includes(quest.id) && ` • ⛓️ ${t('cmd.forecast.on_critical_path')}`}
                   </LinkedItemMeta>
                 </LinkedItemCard>
               ))}
@@ -570,6 +598,7 @@ export function CommandCenterPage() {
         (t) => t.linkedMainQuestId === quest.id
       );
       const completedTasks = linkedTasks.filter((t) => t.completed);
+      const questForecast = forecast.quests.find((f) => f.questId === quest.id);
 
       return (
         <>
@@ -603,6 +632,10 @@ export function CommandCenterPage() {
 
           {quest.description && <Description>{quest.description}</Description>}
 
+          {questForecast && (
+            <ForecastPanel forecast={questForecast} throughput={forecast.throughput} />
+          )}
+
           <LinkedItemsSection>
             <SectionTitle>✅ {t('cmd.linked_tasks')} ({linkedTasks.length})</SectionTitle>
             <LinkedItemList>
@@ -693,6 +726,10 @@ export function CommandCenterPage() {
           <StatValue>{stats.tasksCompleted}</StatValue>
           <StatLabel>{t('cmd.stat_completed_tasks')}</StatLabel>
         </StatCard>
+        <StatCard>
+          <StatValue>{forecastAtRiskCount}</StatValue>
+          <StatLabel>{t('cmd.stat_forecast_at_risk')}</StatLabel>
+        </StatCard>
       </StatsGrid>
 
       <Breadcrumb items={breadcrumbItems} onClick={handleBreadcrumbClick} />
@@ -742,6 +779,7 @@ export function CommandCenterPage() {
         onSubmit={handleQuestSubmit}
         quest={editingQuest}
         seasons={activeSeasons}
+        quests={mainQuests}
       />
 
       <TaskFormModal
@@ -753,6 +791,7 @@ export function CommandCenterPage() {
         onSubmit={handleTaskSubmit}
         task={editingTask}
         mainQuests={mainQuests}
+        tasks={customTasks}
         seasons={activeSeasons}
       />
     </PageContainer>
@@ -0,0 +1,141 @@
+/**
+ * ForecastPanel Component
+ * Predicted completion date, confidence range and critical path for a quest or chapter
+ */
+
+import styled from 'styled-components';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import type { ChapterForecast, ForecastRiskLevel, QuestForecast, Throughput } from '../../../services/schedule-forecast';
+
+interface ForecastPanelProps {
+  forecast: QuestForecast | ChapterForecast;
+  throughput: Throughput;
+  /** Titles of the quests on the critical path (chapters only) */
+  criticalPath?: string[];
+}
+
+const RISK_COLORS: Record<ForecastRiskLevel, string> = {
+  low: '#10b981',
+  medium: '#f59e0b',
+  high: '#f97316',
+  critical: '#ef4444',
+};
+
+const Panel = styled.div`
+  margin-bottom: 20px;
+  padding: 14px 16px;
+  border-radius: 10px;
+  background: ${({ theme }) => theme.colors.bg.tertiary};
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`;
+
+const PanelHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
+  font-size: 0.9rem;
+  font-weight: 600;
+  color: ${({ theme }) => theme.colors.text.primary};
+`;
+
+const RiskBadge = styled.span<{ $color: string }>`
+  padding: 2px 10px;
+  border-radius: 8px;
+  font-size: 0.75rem;
+  font-weight: 600;
+  color: ${({ $color }) => $color};
+  border: 1px solid ${({ $color }) => $color};
+`;
+
+const Row = styled.div`
+  display: flex;
+  justify-content: space-between;
+  gap: 12px;
+  font-size: 0.85rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+`;
+
+const Value = styled.span<{ $color?: string }>`
+  color: ${({ $color, theme }) => $color || theme.colors.text.primary};
+  font-weight: 500;
+`;
+
+const Footnote = styled.div`
+  font-size: 0.75rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+`;
+
+export function ForecastPanel({ forecast, throughput, criticalPath }: ForecastPanelProps) {
+  const { t } = useTranslation();
+  const color = RISK_COLORS[forecast.riskLevel];
+  const onCriticalPath = 'onCriticalPath' in forecast && forecast.onCriticalPath;
+
+  return (
+    <Panel>
+      <PanelHeader>
+        <span>🔮 {t('cmd.forecast.title')}</span>
+        <RiskBadge $color={color}>{t(`cmd.forecast.risk_${forecast.riskLevel}`)}</RiskBadge>
+      </PanelHeader>
+      <Row>
+        <span>{t('cmd.forecast.expected')}</span>
+        <Value>{forecast.expected}</Value>
+      </Row>
+      <Row>
+        <span>{t('cmd.forecast.range')}</span>
+        <Value>{forecast.optimistic} ~ {forecast.pessimistic}</Value>
+      </Row>
+      {forecast.deadline && (
+        <>
+          <Row>
+            <span>{t('cmd.forecast.deadline')}</span>
+            <Value>{forecast.deadline}</Value>
+          </Row>
+          <Row>
+            <span>{t('cmd.forecast.probability')}</span>
+            <Value $color={color}>{Math.round(forecast.probability * 100)}%</Value>
+          </Row>
+          {forecast.slackDays !== undefined && (
+            <Row>
+              <span>{t('cmd.forecast.slack')}</span>
+              <Value $color={forecast.slackDays < 0 ? RISK_COLORS.critical : undefined}>
+                {t('cmd.forecast.slack_days', { days: forecast.slackDays })}
+              </Value>
+            </Row>
+          )}
+        </>
+      )}
+      {'remainingMinutes' in forecast && (
+        <Row>
+          <span>{t('cmd.forecast.remaining')}</span>
+          <Value>
+            {t('cmd.forecast.remaining_value', {
+              tasks: forecast.remainingTasks,
+              hours: (forecast.remainingMinutes / 60).toFixed(1),
+            })}
+          </Value>
+        </Row>
+      )}
+      {onCriticalPath && (
+        <Row>
+          <Value $color={RISK_COLORS.high}>⛓️ {t('cmd.forecast.on_critical_path')}</Value>
+        </Row>
+      )}
+      {criticalPath && criticalPath.length > 0 && (
+        <Row>
+          <span>{t('cmd.forecast.critical_path')}</span>
+          <Value>{criticalPath.join(' → ')}</Value>
+        </Row>
+      )}
+      <Footnote>
+        {throughput.activeDays > 0
+          ? t('cmd.forecast.basis', { minutes: Math.round(throughput.minutesPerDay), days: throughput.activeDays })
+          : t('cmd.forecast.basis_default', { minutes: Math.round(throughput.minutesPerDay) })}
+      </Footnote>
+    </Panel>
+  );
+}
+
+export default ForecastPanel;
@@ -7,6 +7,7 @@ import { useState } from 'react';
 import styled from 'styled-components';
 import type { Season, MainQuest, CustomTask, Chapter } from '../../../types/task';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { getQuestBlockers, getTaskBlockers, isQuestDone } from '../../../lib/dependencies';
 
 // Helper functions
 function formatShortDate(dateStr: string): string {
@@ -203,6 +204,11 @@ export function HierarchyTree({
     return 'id' in selectedItem && selectedItem.id === id;
   };
 
+  const renderBlocked = (names: string[]) =>
+    names.length > 0 && (
+      <ItemMeta title={t('task.item.blocked_by', { names: names.join(', ') })}>🔒</ItemMeta>
+    );
+
   const renderTask = (task: CustomTask, level: number) => (
     <TreeItem
       key={task.id}
@@ -212,6 +218,7 @@ export function HierarchyTree({
     >
       <ItemIcon>{task.completed ? '✅' : '⬜'}</ItemIcon>
       <ItemLabel $completed={task.completed}>{task.name}</ItemLabel>
+      {!task.completed && renderBlocked(getTaskBlockers(task, tasks, quests).map((b) => b.name))}
     </TreeItem>
   );
 
@@ -243,6 +250,7 @@ export function HierarchyTree({
           <ItemLabel $completed={quest.status === 'completed'}>
             {quest.title}
           </ItemLabel>
+          {!isQuestDone(quest) && renderBlocked(getQuestBlockers(quest, quests).map((b) => b.name))}
           {quest.deadline && (
             <ItemMeta style={{ color: isOverdue(quest.deadline) ? '#ef4444' : undefined }}>
               📅 {formatShortDate(quest.deadline)}
@@ -20,6 +20,7 @@ import { DailySuccessModal } from './components/DailySuccessModal';
 import { TimeAllocationChart } from './components/TimeAllocationChart';
 import { ActivityWatchUsageChart } from './components/ActivityWatchUsageChart';
 import type { CustomTask, ChecklistItem, TaskType } from '../../types/task';
+import { getTaskBlockers } from '../../lib/dependencies';
 import {
   getChapterEffectiveDisplayStatus,
   getEffectiveQuestStatus,
@@ -363,6 +364,15 @@ export function DailyPage() {
     () => customTasks.filter((task) => !lockedTaskMetaById[task.id]),
     [customTasks, lockedTaskMetaById]
   );
+  const blockersByTaskId = useMemo<Record<string, string[]>>(() => {
+    const blockers: Record<string, string[]> = {};
+    customTasks.forEach((task) => {
+      if (task.completed) return;
+      const names = getTaskBlockers(task, customTasks, mainQuests).map((b) => b.name);
+      if (names.length > 0) blockers[task.id] = names;
+    });
+    return blockers;
+  }, [customTasks, mainQuests]);
 
   // Handlers
   const handleQuickAdd = () => {
@@ -676,6 +686,7 @@ export function DailyPage() {
               onConvertToQuest={handleConvertToQuest}
               onQuickUpdate={updateTask}
               onDoDComplete={handleDoDComplete}
+              blockersByTaskId={blockersByTaskId}
             />
             {/* Show completed tasks below matrix */}
             {visibleTasks.some(t => t.completed) && (
@@ -718,6 +729,7 @@ export function DailyPage() {
             onStartPomodoro={handleStartPomodoro}
             onConvertToQuest={handleConvertToQuest}
             onDoDComplete={handleDoDComplete}
+            blockersByTaskId={blockersByTaskId}
             emptyMessage={t('daily.empty_tasks')}
           />
         )}
@@ -820,6 +832,7 @@ export function DailyPage() {
         onSubmit={handleFormSubmit}
         task={editingTask}
         mainQuests={mainQuests}
+        tasks={customTasks}
         seasons={activeSeasons}
       />
 
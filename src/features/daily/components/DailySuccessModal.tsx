@@ -9,6 +9,8 @@ import { Button, Modal, ImeSafeTextareaBase } from '../../../components/ui';
 import { useJournalStore } from '../../../stores/journal-store';
 import type { DailySuccessEntry } from '../../../types/journal';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { getDayKey } from '../../../lib/calendar-day';
+import { toDateKey } from '../../../stores/game-store-helpers';
 
 // ==================== Styled Components ====================
 
@@ -165,9 +167,8 @@ export function DailySuccessModal({ isOpen, onClose, date }: DailySuccessModalPr
   const updateDailyEntry = useJournalStore((s) => s.updateDailyEntry);
   const getDailyEntryByDate = useJournalStore((s) => s.getDailyEntryByDate);
 
-  const targetDate = date || new Date();
-  const targetDateStr = targetDate.toISOString().split('T')[0];
-  const isToday = targetDateStr === new Date().toISOString().split('T')[0];
+  const targetDateStr = date ? toDateKey(date) : getDayKey();
+  const isToday = targetDateStr === getDayKey();
 
   const entry = getDailyEntryByDate(targetDateStr);
 
@@ -12,6 +12,7 @@ import styled from 'styled-components';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
 import type { CustomTask } from '../../../types/task';
 import { TaskItem } from './TaskItem';
+import { toDayDate } from '../../../lib/calendar-day';
 
 interface MatrixViewProps {
   tasks: CustomTask[];
@@ -25,6 +26,7 @@ interface MatrixViewProps {
   onConvertToQuest?: (id: string) => void;
   onQuickUpdate?: (id: string, updates: Partial<CustomTask>) => void;
   onDoDComplete?: (task: CustomTask) => void;
+  blockersByTaskId?: Record<string, string[]>;
 }
 
 type Quadrant = 'Q1' | 'Q2' | 'Q3' | 'Q4';
@@ -44,8 +46,7 @@ interface QuadrantConfig {
 function isUrgent(deadline?: string): boolean {
   if (!deadline) return false;
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = toDayDate();
   const deadlineDate = new Date(deadline);
   deadlineDate.setHours(0, 0, 0, 0);
 
@@ -172,6 +173,7 @@ export function MatrixView({
   onConvertToQuest,
   onQuickUpdate,
   onDoDComplete,
+  blockersByTaskId,
 }: MatrixViewProps) {
   const { t } = useTranslation();
 
@@ -279,6 +281,7 @@ export function MatrixView({
                     onConvertToQuest={onConvertToQuest}
                     onQuickUpdate={onQuickUpdate}
                     onDoDComplete={onDoDComplete}
+                    blockerNames={blockersByTaskId?.[task.id]}
                     compact
                   />
                 ))
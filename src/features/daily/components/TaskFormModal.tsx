@@ -13,6 +13,9 @@ import { Modal, Button, Input, TextareaField, Select, ConfirmModal, ModalFormSec
 import type { CustomTask, MainQuest, Season, LinkType, Effort, Importance } from '../../../types/task';
 import { EFFORT_CONFIG } from '../../../constants/task';
 import { getChapterEffectiveDisplayStatus, getEffectiveSeasonStatus } from '../../../lib/hierarchy-status';
+import { isTaskDone, wouldCreateCycle } from '../../../lib/dependencies';
+import { getDayKey } from '../../../lib/calendar-day';
+import { addDaysToKey } from '../../../lib/recurrence';
 import { MODAL_FORM_TOKENS } from '../../../styles/modalFormTokens';
 
 interface TaskFormModalProps {
@@ -22,6 +25,7 @@ interface TaskFormModalProps {
   task?: CustomTask | null;
   mainQuests?: MainQuest[];
   seasons?: Season[];
+  tasks?: CustomTask[]; // Candidates for "blocked by"
   // Support preset link values
   defaultLinkType?: LinkType;
   defaultLinkedMainQuestId?: string | null;
@@ -48,6 +52,7 @@ const taskFormSchema = z.object({
   estimatedEnergy: z.number().min(0),
   checklist: z.array(checklistItemSchema),
   importance: z.enum(['low', 'medium', 'high']),
+  blockedBy: z.array(z.string()),
 });
 
 type TaskFormValues = z.infer<typeof taskFormSchema>;
@@ -160,6 +165,7 @@ const buildDefaultValues = (params: {
       estimatedEnergy: task.estimatedCosts?.energy ? Math.abs(task.estimatedCosts.energy) : 0,
       checklist: task.checklist || [],
       importance: task.importance || 'medium',
+      blockedBy: task.blockedBy || [],
     };
   }
 
@@ -178,6 +184,7 @@ const buildDefaultValues = (params: {
     estimatedEnergy: 0,
     checklist: [],
     importance: 'medium',
+    blockedBy: [],
   };
 };
 
@@ -188,6 +195,7 @@ export function TaskFormModal({
   task,
   mainQuests = [],
   seasons = [],
+  tasks = [],
   defaultLinkType,
   defaultLinkedMainQuestId,
 }: TaskFormModalProps) {
@@ -226,6 +234,14 @@ export function TaskFormModal({
   const watchedLinkedSeasonId = useWatch({ control, name: 'linkedSeasonId' });
   const watchedLinkedChapterId = useWatch({ control, name: 'linkedChapterId' });
   const watchedImportance = useWatch({ control, name: 'importance' });
+  const watchedBlockedBy = useWatch({ control, name: 'blockedBy' });
+
+  // Open tasks this one may wait on without closing a dependency loop
+  const blockerCandidates = tasks.filter((candidate) =>
+    !isTaskDone(candidate)
+    && !watchedBlockedBy.includes(candidate.id)
+    && (!task || !wouldCreateCycle(tasks, task.id, candidate.id))
+  );
 
   // Reset form when modal opens/closes or task changes, then restore draft if exists
   useEffect(() => {
@@ -242,6 +258,7 @@ export function TaskFormModal({
           ...base,
           ...parsed,
           checklist: Array.isArray(parsed.checklist) ? parsed.checklist : base.checklist,
+          blockedBy: Array.isArray(parsed.blockedBy) ? parsed.blockedBy : base.blockedBy,
         };
         const validated = taskFormSchema.safeParse(merged);
         if (validated.success) {
@@ -338,6 +355,7 @@ export function TaskFormModal({
         deadline: values.deadline || undefined,
         estimatedCosts: values.estimatedEnergy > 0 ? { energy: -values.estimatedEnergy } : undefined,
         checklist: values.checklist,
+        blockedBy: values.blockedBy.length > 0 ? values.blockedBy : undefined,
       };
 
       // Always reset link fields first, then set based on selected link type.
@@ -651,6 +669,53 @@ export function TaskFormModal({
           </FormGroup>
         )}
 
+        {(tasks.length > 0 || watchedBlockedBy.length > 0) && (
+          <FormGroup>
+            <Label htmlFor="task-blocked-by">{t('task.label_blocked_by')}</Label>
+            <Select
+              id="task-blocked-by"
+              value=""
+              onChange={(e) => {
+                if (!e.target.value) return;
+                setValue('blockedBy', [...getValues('blockedBy'), e.target.value], { shouldDirty: true });
+              }}
+            >
+              <option value="">{t('task.placeholder_blocked_by')}</option>
+              {blockerCandidates.map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.name}
+                </option>
+              ))}
+            </Select>
+            {watchedBlockedBy.length > 0 && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                {watchedBlockedBy.map((blockerId) => {
+                  const blocker = tasks.find((item) => item.id === blockerId);
+                  return (
+                    <div key={blockerId} style={{
+                      display: 'flex', alignItems: 'center', justifyContent: 'space-between',
+                      background: 'rgba(0,0,0,0.03)', padding: '6px 10px', borderRadius: '6px'
+                    }}>
+                      <span style={{ fontSize: '0.9rem' }}>
+                        {blocker && isTaskDone(blocker) ? '✅' : '🔒'} {blocker?.name ?? t('task.blocker_missing')}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setValue('blockedBy', getValues('blockedBy').filter((id) => id !== blockerId), { shouldDirty: true })}
+                        style={{ border: 'none', background: 'none', cursor: 'pointer', color: '#ef4444', fontSize: '1.1rem' }}
+                        title={t('task.remove_blocker')}
+                        aria-label={t('task.remove_blocker')}
+                      >
+                        ×
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </FormGroup>
+        )}
+
         {/* 5. Time-bound */}
         <ModalFormDividerSection>
           <div style={{ display: 'block', marginBottom: '8px', fontSize: '0.875rem', fontWeight: 500, color: '#6b7280' }}>
@@ -659,9 +724,9 @@ export function TaskFormModal({
           <FormGroup>
             <Label htmlFor="task-deadline">{t('task.label_deadline')}</Label>
             <QuickDateRow>
-              <QuickDateButton type="button" onClick={() => setValue('deadline', new Date().toISOString().split('T')[0], { shouldDirty: true })}>{t('task.quick_date_today')}</QuickDateButton>
-              <QuickDateButton type="button" onClick={() => { const d = new Date(); d.setDate(d.getDate() + 1); setValue('deadline', d.toISOString().split('T')[0], { shouldDirty: true }); }}>{t('task.quick_date_tomorrow')}</QuickDateButton>
-              <QuickDateButton type="button" onClick={() => { const d = new Date(); d.setDate(d.getDate() + 3); setValue('deadline', d.toISOString().split('T')[0], { shouldDirty: true }); }}>{t('task.quick_date_3days')}</QuickDateButton>
+              <QuickDateButton type="button" onClick={() => setValue('deadline', getDayKey(), { shouldDirty: true })}>{t('task.quick_date_today')}</QuickDateButton>
+              <QuickDateButton type="button" onClick={() => setValue('deadline', addDaysToKey(getDayKey(), 1), { shouldDirty: true })}>{t('task.quick_date_tomorrow')}</QuickDateButton>
+              <QuickDateButton type="button" onClick={() => setValue('deadline', addDaysToKey(getDayKey(), 3), { shouldDirty: true })}>{t('task.quick_date_3days')}</QuickDateButton>
               <QuickDateButton type="button" onClick={() => setValue('deadline', '', { shouldDirty: true })}>{t('task.quick_date_clear')}</QuickDateButton>
             </QuickDateRow>
             <Input
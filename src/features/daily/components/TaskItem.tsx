@@ -10,6 +10,7 @@ import { getChecklistStats, isChecklistComplete } from '../../../lib/progress-ut
 import { PixelProgressBar } from '../../../components/PixelProgressBar';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
 import { ImeSafeInputBase } from '../../../components/ui';
+import { toDayDate } from '../../../lib/calendar-day';
 
 interface TaskItemProps {
   task: CustomTask;
@@ -23,6 +24,7 @@ interface TaskItemProps {
   onConvertToQuest?: (id: string) => void;
   onQuickUpdate?: (id: string, updates: Partial<CustomTask>) => void;
   onDoDComplete?: (task: CustomTask) => void; // Called when all DoD items are checked
+  blockerNames?: string[]; // Unfinished tasks/quests this task waits on
   compact?: boolean;
 }
 
@@ -39,8 +41,7 @@ interface TaskItemProps {
 function calculateUrgency(deadline?: string): 'urgent' | 'soon' | 'normal' {
   if (!deadline) return 'normal';
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = toDayDate();
   const deadlineDate = new Date(deadline);
   deadlineDate.setHours(0, 0, 0, 0);
 
@@ -390,6 +391,7 @@ export function TaskItem({
   onConvertToQuest,
   onQuickUpdate,
   onDoDComplete,
+  blockerNames,
   compact: _compact = false,
 }: TaskItemProps) {
   const { t } = useTranslation();
@@ -457,6 +459,15 @@ export function TaskItem({
         {task.status === 'in_progress' && !task.completed && (
           <SmallBadge $bg="rgba(59, 130, 246, 0.15)" $border="#3b82f6">{t('task.item.status_in_progress')}</SmallBadge>
         )}
+        {blockerNames && blockerNames.length > 0 && !task.completed && (
+          <SmallBadge
+            $bg="rgba(239, 68, 68, 0.12)"
+            $border="#ef4444"
+            title={t('task.item.blocked_by', { names: blockerNames.join(', ') })}
+          >
+            🔒 {t('task.item.status_blocked')}
+          </SmallBadge>
+        )}
         <CollapseButton onClick={toggleExpanded}>
           {isExpanded ? t('task.item.collapse') : t('task.item.expand')}
         </CollapseButton>
@@ -20,6 +20,7 @@ interface TaskListProps {
   onConvertToQuest?: (id: string) => void;
   onQuickUpdate?: (id: string, updates: Partial<CustomTask>) => void;
   onDoDComplete?: (task: CustomTask) => void;
+  blockersByTaskId?: Record<string, string[]>;
   emptyMessage?: string;
   showCompleted?: boolean;
 }
@@ -73,6 +74,7 @@ export function TaskList({
   onConvertToQuest,
   onQuickUpdate,
   onDoDComplete,
+  blockersByTaskId,
   emptyMessage,
   showCompleted = true,
 }: TaskListProps) {
@@ -125,6 +127,7 @@ export function TaskList({
           onConvertToQuest={onConvertToQuest}
           onQuickUpdate={onQuickUpdate}
           onDoDComplete={onDoDComplete}
+          blockerNames={blockersByTaskId?.[task.id]}
         />
       ))}
 
@@ -144,6 +147,7 @@ export function TaskList({
               onArchive={onArchive}
               onQuickUpdate={onQuickUpdate}
               onDoDComplete={onDoDComplete}
+              blockerNames={blockersByTaskId?.[task.id]}
               compact
             />
           ))}
@@ -8,6 +8,8 @@ import styled from 'styled-components';
 import { useJournalStore } from '../../../stores/journal-store';
 import { useGameStore } from '../../../stores/game-store';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { getDayKey } from '../../../lib/calendar-day';
+import { toDateKey } from '../../../stores/game-store-helpers';
 
 // ==================== Types ====================
 
@@ -228,8 +230,7 @@ const MOOD_EMOJI: Record<string, string> = {
 
 function getMonthDays(year: number, month: number): DayData[] {
     const days: DayData[] = [];
-    const today = new Date();
-    const todayStr = today.toISOString().split('T')[0];
+    const todayStr = getDayKey();
 
     // First day of month
     const firstDay = new Date(year, month, 1);
@@ -245,7 +246,7 @@ function getMonthDays(year: number, month: number): DayData[] {
         const d = prevMonthLast.getDate() - i;
         const date = new Date(year, month - 1, d);
         days.push({
-            date: date.toISOString().split('T')[0],
+            date: toDateKey(date),
             dayOfMonth: d,
             completionRate: 0,
             isToday: false,
@@ -256,7 +257,7 @@ function getMonthDays(year: number, month: number): DayData[] {
     // Current month days
     for (let d = 1; d <= daysInMonth; d++) {
         const date = new Date(year, month, d);
-        const dateStr = date.toISOString().split('T')[0];
+        const dateStr = toDateKey(date);
         days.push({
             date: dateStr,
             dayOfMonth: d,
@@ -271,7 +272,7 @@ function getMonthDays(year: number, month: number): DayData[] {
     for (let d = 1; d <= remaining; d++) {
         const date = new Date(year, month + 1, d);
         days.push({
-            date: date.toISOString().split('T')[0],
+            date: toDateKey(date),
             dayOfMonth: d,
             completionRate: 0,
             isToday: false,
@@ -321,7 +322,7 @@ export function CalendarHeatmap({
         // Count archived (completed) tasks by completedAt date
         archivedTasks.forEach((task) => {
             if (task.completedAt) {
-                const dateKey = task.completedAt.split('T')[0];
+                const dateKey = getDayKey(task.completedAt);
                 if (!map[dateKey]) map[dateKey] = { completed: 0, total: 0 };
                 map[dateKey].completed++;
                 map[dateKey].total++;
@@ -331,7 +332,7 @@ export function CalendarHeatmap({
         // Count active (incomplete) tasks by deadline or createdAt
         customTasks.forEach((task) => {
             if (!task.completed) {
-                const dateKey = task.deadline || task.createdAt.split('T')[0];
+                const dateKey = task.deadline || getDayKey(task.createdAt);
                 if (!map[dateKey]) map[dateKey] = { completed: 0, total: 0 };
                 map[dateKey].total++;
             }
@@ -340,7 +341,7 @@ export function CalendarHeatmap({
         return map;
     }, [archivedTasks, customTasks]);
 
-    const todayKey = new Date().toISOString().split('T')[0];
+    const todayKey = getDayKey();
 
     // Get previous month
     const getPrevMonth = () => {
@@ -9,8 +9,11 @@ import { usePlannerStore } from '../../../stores/planner-store';
 import { useGameStore } from '../../../stores/game-store';
 import { friendAI } from '../../../services/friend-ai';
 import { coachAI } from '../../../services/coach-ai';
+import type { StreamOptions } from '../../../services/ai-base';
 import type { AIAction } from '../../../types/planner';
 import { ImeSafeInputBase } from '../../../components/ui';
+import { SlashCommandMenu } from '../../ai/SlashCommandMenu';
+import { runSlashCommand } from '../../../lib/slash-commands';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
 
 // ==================== Animations ====================
@@ -329,10 +332,13 @@ const EscalateButton = styled.button`
 // ==================== Component ====================
 
 export function ChatInterface() {
-  const { t } = useTranslation();
+  const { t, language } = useTranslation();
   const [inputValue, setInputValue] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [pendingActions, setPendingActions] = useState<AIAction[]>([]);
+  const [streamingText, setStreamingText] = useState('');
+  const [activeRequest, setActiveRequest] = useState<AbortController | null>(null);
+  const streamTextRef = useRef('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Store state
@@ -354,7 +360,37 @@ export function ChatInterface() {
   // Scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingText]);
+
+  // Cancel an in-flight reply when the chat unmounts
+  useEffect(() => () => activeRequest?.abort(), [activeRequest]);
+
+  const startStream = (): StreamOptions & { signal: AbortSignal } => {
+    const controller = new AbortController();
+    streamTextRef.current = '';
+    setStreamingText('');
+    setActiveRequest(controller);
+    return {
+      signal: controller.signal,
+      onText: (text) => {
+        streamTextRef.current = text;
+        setStreamingText(text);
+      },
+    };
+  };
+
+  const endStream = () => {
+    setStreamingText('');
+    setActiveRequest(null);
+  };
+
+  // A stopped reply keeps the text that already arrived
+  const replyContent = (message: string, signal: AbortSignal) => {
+    if (!signal.aborted) return message;
+    return streamTextRef.current
+      ? `${streamTextRef.current}\n\n${t('ai.stream.stopped')}`
+      : t('ai.stream.stopped');
+  };
 
   const initializeConversation = useCallback(async () => {
     setIsTyping(true);
@@ -386,7 +422,8 @@ export function ChatInterface() {
               tasks: customTasks || [],
               quests: mainQuests || [],
               atRiskQuests: healthMetrics.atRiskQuests,
-            }
+            },
+            currentIntervention.triggerId
           );
 
           addMessage({
@@ -454,18 +491,28 @@ export function ChatInterface() {
       content: userMessage,
     });
 
+    // Slash commands run locally and never reach the model
+    const command = await runSlashCommand(userMessage, language as 'zh' | 'en');
+    if (command) {
+      addMessage({ role: mode, content: command.message });
+      return;
+    }
+
     setIsTyping(true);
+    const stream = startStream();
 
     try {
       if (mode === 'friend') {
         const response = await friendAI.respondToUser(
           userMessage,
-          currentIntervention?.triggerType || 'idle_too_long'
+          currentIntervention?.triggerType || 'idle_too_long',
+          undefined,
+          stream
         );
 
         addMessage({
           role: 'friend',
-          content: response.message,
+          content: replyContent(response.message, stream.signal),
           suggestedActions: response.suggestedActions,
         });
 
@@ -491,12 +538,13 @@ export function ChatInterface() {
             tasks: customTasks || [],
             quests: mainQuests || [],
             atRiskQuests: healthMetrics.atRiskQuests,
-          }
+          },
+          stream
         );
 
         addMessage({
           role: 'coach',
-          content: response.message,
+          content: replyContent(response.message, stream.signal),
           suggestedActions: response.suggestedActions,
         });
 
@@ -521,6 +569,7 @@ export function ChatInterface() {
         content: t('planner.chat.error_send'),
       });
     } finally {
+      endStream();
       setIsTyping(false);
     }
   };
@@ -535,18 +584,20 @@ export function ChatInterface() {
     });
 
     setIsTyping(true);
+    const stream = startStream();
 
     try {
       if (mode === 'friend') {
         const response = await friendAI.respondToUser(
           action.label,
           currentIntervention?.triggerType || 'idle_too_long',
-          action.id
+          action.id,
+          stream
         );
 
         addMessage({
           role: 'friend',
-          content: response.message,
+          content: replyContent(response.message, stream.signal),
           suggestedActions: response.suggestedActions,
         });
 
@@ -565,6 +616,7 @@ export function ChatInterface() {
           });
           setTimeout(async () => {
             setIsTyping(true);
+            const coachStream = startStream();
             try {
               const coachResponse = await coachAI.respondToUser(
                 t('planner.chat.user_needs_help').replace('{action}', action.label),
@@ -578,11 +630,12 @@ export function ChatInterface() {
                   tasks: customTasks || [],
                   quests: mainQuests || [],
                   atRiskQuests: healthMetrics.atRiskQuests,
-                }
+                },
+                coachStream
               );
               addMessage({
                 role: 'coach',
-                content: coachResponse.message,
+                content: replyContent(coachResponse.message, coachStream.signal),
                 suggestedActions: coachResponse.suggestedActions,
               });
               if (coachResponse.suggestedActions) {
@@ -598,6 +651,7 @@ export function ChatInterface() {
                     : t('planner.chat.local_help_priority')),
               });
             } finally {
+              endStream();
               setIsTyping(false);
             }
           }, 500);
@@ -611,12 +665,14 @@ export function ChatInterface() {
             relatedTaskIds: [],
             relatedQuestIds: [],
             userProfile: { recentPatterns: [], preferredStyle: 'gentle', knownBlockers: [] },
-          }
+          },
+          undefined,
+          stream
         );
 
         addMessage({
           role: 'coach',
-          content: response.message,
+          content: replyContent(response.message, stream.signal),
           suggestedActions: response.suggestedActions,
         });
 
@@ -637,6 +693,7 @@ export function ChatInterface() {
     } catch (error) {
       console.error('[ChatInterface] Action failed:', error);
     } finally {
+      endStream();
       setIsTyping(false);
     }
   };
@@ -658,10 +715,11 @@ export function ChatInterface() {
     }
   };
 
-  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, handleSlashKey: (e: React.KeyboardEvent<HTMLInputElement>) => boolean) => {
     const nativeEvent = e.nativeEvent as KeyboardEvent;
     const isComposing = nativeEvent.isComposing || nativeEvent.keyCode === 229;
     if (isComposing) return;
+    if (handleSlashKey(e)) return;
 
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -695,7 +753,11 @@ export function ChatInterface() {
             </MessageBubble>
           ))}
 
-          {isTyping && (
+          {isTyping && streamingText && (
+            <MessageBubble $role={mode}>{streamingText}</MessageBubble>
+          )}
+
+          {isTyping && !streamingText && (
             <TypingIndicator>
               <span />
               <span />
@@ -727,16 +789,26 @@ export function ChatInterface() {
         )}
 
         <InputContainer>
-          <Input
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            onKeyDown={handleInputKeyDown}
-            placeholder={t('planner.chat.input_placeholder')}
-            disabled={isTyping}
-          />
-          <SendButton onClick={handleSendMessage} disabled={!inputValue.trim() || isTyping}>
-            ➤
-          </SendButton>
+          <SlashCommandMenu input={inputValue} onInputChange={setInputValue}>
+            {(handleSlashKey) => (
+              <Input
+                value={inputValue}
+                onChange={(e) => setInputValue(e.target.value)}
+                onKeyDown={(e) => handleInputKeyDown(e, handleSlashKey)}
+                placeholder={t('planner.chat.input_placeholder')}
+                disabled={isTyping}
+              />
+            )}
+          </SlashCommandMenu>
+          {activeRequest ? (
+            <SendButton onClick={() => activeRequest.abort()} title={t('planner.chat.stop')}>
+              ■
+            </SendButton>
+          ) : (
+            <SendButton onClick={handleSendMessage} disabled={!inputValue.trim() || isTyping}>
+              ➤
+            </SendButton>
+          )}
         </InputContainer>
       </Container>
     </>
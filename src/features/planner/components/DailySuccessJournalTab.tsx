@@ -9,6 +9,7 @@ import { Button, ImeSafeTextareaBase } from '../../../components/ui';
 import { useJournalStore } from '../../../stores/journal-store';
 import type { DailySuccessEntry } from '../../../types/journal';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { getDayKey } from '../../../lib/calendar-day';
 
 // ==================== Styled Components ====================
 
@@ -264,7 +265,7 @@ export function DailySuccessJournalTab() {
     const getTodayEntry = useJournalStore((s) => s.getTodayEntry);
 
     const todayEntry = getTodayEntry();
-    const today = new Date().toISOString().split('T')[0];
+    const today = getDayKey();
 
     type SuccessItem = { content: string; category?: DailySuccessEntry['successes'][0]['category']; };
     const [successes, setSuccesses] = useState<SuccessItem[]>(
@@ -519,6 +519,7 @@ export function PomodoroWidget({
   const customTasks = useGameStore((s) => s.customTasks);
   const updateTask = useGameStore((s) => s.updateTask);
   const startTask = useGameStore((s) => s.startTask);
+  const completePomodoro = useGameStore((s) => s.completePomodoro);
 
   // Utility hooks
   const { formatted, timeLeft } = usePomodoroTime();
@@ -581,6 +582,7 @@ export function PomodoroWidget({
         pomodoroCount: (linkedTask.pomodoroCount || 0) + 1,
       });
     }
+    completePomodoro(linkedTask ? taskId : null, Math.round(totalTime / 60));
 
     onComplete?.(taskId);
 
@@ -596,7 +598,7 @@ export function PomodoroWidget({
       });
       setTimeout(() => notification.close(), 8000);
     }
-  }, [customTasks, onComplete, t, updateTask]);
+  }, [completePomodoro, customTasks, onComplete, t, totalTime, updateTask]);
 
   // Trigger completion flow exactly once when timer reaches 00:00.
   useEffect(() => {
@@ -1,4 +1,5 @@
 import type { CustomTask } from '../../../types/task';
+import { toDayDate } from '../../../lib/calendar-day';
 
 export function playPomodoroNotificationSound() {
     try {
@@ -31,8 +32,7 @@ export function playPomodoroNotificationSound() {
 }
 
 export function getQ1Tasks(tasks: CustomTask[]): CustomTask[] {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const today = toDayDate();
 
     return tasks
         .filter((task) => {
@@ -0,0 +1,199 @@
+/**
+ * AchievementsPanel Component
+ * Progress toward every achievement and an editor for user-defined ones
+ */
+
+import { useState } from 'react';
+import styled from 'styled-components';
+import { Button, Input } from '../../../components/ui';
+import { useGameStore } from '../../../stores';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import type { TranslationKey } from '../../../lib/i18n/types';
+import { ACHIEVEMENT_METRICS, getAchievementStatuses, parseCondition } from '../../../lib/achievements';
+
+const List = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`;
+
+const Card = styled.div<{ $unlocked: boolean }>`
+  padding: 10px 12px;
+  background: ${({ theme }) => theme.colors.bg.tertiary};
+  border: 1px solid ${({ theme, $unlocked }) => ($unlocked ? '#f59e0b' : theme.colors.border.primary)};
+  border-radius: 10px;
+`;
+
+const CardHeader = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+`;
+
+const Name = styled.span`
+  flex: 1;
+  font-size: 0.9rem;
+  font-weight: 600;
+  color: ${({ theme }) => theme.colors.text.primary};
+`;
+
+const Meta = styled.div<{ $warning?: boolean }>`
+  font-size: 0.75rem;
+  color: ${({ theme, $warning }) => ($warning ? theme.colors.status.danger.text : theme.colors.text.tertiary)};
+  margin-top: 4px;
+`;
+
+const Condition = styled.code`
+  font-size: 0.72rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+`;
+
+const ProgressTrack = styled.div`
+  height: 6px;
+  margin-top: 8px;
+  background: ${({ theme }) => theme.colors.bg.secondary};
+  border-radius: 3px;
+  overflow: hidden;
+`;
+
+const ProgressFill = styled.div<{ $percent: number }>`
+  height: 100%;
+  width: ${({ $percent }) => $percent}%;
+  background: linear-gradient(90deg, #f59e0b, #fbbf24);
+  transition: width 0.3s ease;
+`;
+
+const Form = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  margin-top: 16px;
+  padding-top: 16px;
+  border-top: 1px solid ${({ theme }) => theme.colors.border.primary};
+`;
+
+const SectionTitle = styled.h3`
+  margin: 0;
+  font-size: 0.95rem;
+  color: ${({ theme }) => theme.colors.text.primary};
+`;
+
+export function AchievementsPanel() {
+  const customTasks = useGameStore((s) => s.customTasks);
+  const archivedTasks = useGameStore((s) => s.archivedTasks);
+  const habits = useGameStore((s) => s.habits);
+  const archivedHabits = useGameStore((s) => s.archivedHabits);
+  const pomodoro = useGameStore((s) => s.pomodoro);
+  const events = useGameStore((s) => s.events);
+  const financialRecords = useGameStore((s) => s.financialRecords);
+  const mainQuests = useGameStore((s) => s.mainQuests);
+  const archivedMainQuests = useGameStore((s) => s.archivedMainQuests);
+  const level = useGameStore((s) => s.level);
+  const skills = useGameStore((s) => s.skills);
+  const unlockedTitles = useGameStore((s) => s.unlockedTitles);
+  const customAchievements = useGameStore((s) => s.customAchievements);
+  const addCustomAchievement = useGameStore((s) => s.addCustomAchievement);
+  const deleteCustomAchievement = useGameStore((s) => s.deleteCustomAchievement);
+  const { t } = useTranslation();
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [condition, setCondition] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const statuses = getAchievementStatuses({
+    customTasks, archivedTasks, habits, archivedHabits, pomodoro, events, financialRecords,
+    mainQuests, archivedMainQuests, level, skills, unlockedTitles, customAchievements,
+  }).sort((a, b) => Number(a.unlocked) - Number(b.unlocked));
+
+  const parsed = condition.trim() ? parseCondition(condition) : null;
+
+  const handleAdd = () => {
+    const result = addCustomAchievement({ name, description, condition });
+    if (!result.success) {
+      setSaveError(t(`achievements.reason.${result.reason}` as TranslationKey));
+      return;
+    }
+    setName('');
+    setDescription('');
+    setCondition('');
+    setSaveError(null);
+  };
+
+  return (
+    <div>
+      <List>
+        {statuses.map(({ achievement, builtin, unlocked, result }) => {
+          const percent = unlocked ? 100 : Math.round((result?.progress ?? 0) * 100);
+          return (
+            <Card key={achievement.id} $unlocked={unlocked}>
+              <CardHeader>
+                <Name>{unlocked ? '🏆' : '🔒'} {achievement.name}</Name>
+                <Meta>{unlocked ? t('achievements.unlocked') : `${percent}%`}</Meta>
+                {!builtin && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      if (window.confirm(t('achievements.delete_confirm', { name: achievement.name }))) {
+                        deleteCustomAchievement(achievement.id);
+                      }
+                    }}
+                  >
+                    {t('achievements.delete')}
+                  </Button>
+                )}
+              </CardHeader>
+              {achievement.description && <Meta>{achievement.description}</Meta>}
+              <Meta>
+                <Condition>{achievement.condition}</Condition>
+                {!builtin && ` · ${t('achievements.custom')}`}
+              </Meta>
+              {!result && <Meta $warning>{t('achievements.invalid_condition')}</Meta>}
+              {!unlocked && (
+                <ProgressTrack>
+                  <ProgressFill $percent={percent} />
+                </ProgressTrack>
+              )}
+            </Card>
+          );
+        })}
+      </List>
+
+      <Form>
+        <SectionTitle>{t('achievements.add_title')}</SectionTitle>
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder={t('achievements.name')} />
+        <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder={t('achievements.description')} />
+        <Input
+          value={condition}
+          onChange={(e) => setCondition(e.target.value)}
+          placeholder={t('achievements.condition_placeholder')}
+          aria-label={t('achievements.condition')}
+          error={parsed?.success === false}
+          spellCheck={false}
+        />
+        {parsed && !parsed.success && (
+          <Meta $warning>
+            {t(`achievements.error.${parsed.reason}` as TranslationKey, { detail: parsed.detail ?? '', position: parsed.position + 1 })}
+          </Meta>
+        )}
+        <Meta>
+          {t('achievements.metrics_hint', {
+            list: ACHIEVEMENT_METRICS
+              .map((metric) => (metric.args.length > 0 ? `${metric.name}(${metric.args.join(', ')})` : metric.name))
+              .join(' · '),
+          })}
+        </Meta>
+        <Meta>{t('achievements.syntax_hint')}</Meta>
+        {saveError && <Meta $warning>{saveError}</Meta>}
+        <div>
+          <Button size="sm" disabled={!name.trim() || !parsed?.success} onClick={handleAdd}>
+            {t('achievements.add')}
+          </Button>
+        </div>
+      </Form>
+    </div>
+  );
+}
+
+export default AchievementsPanel;
@@ -12,6 +12,7 @@ import { useTranslation } from '../../../lib/i18n/useTranslation';
 import type { TranslationKey } from '../../../lib/i18n/types';
 import { getTotalXPForLevel, getXPForLevel } from '../../../lib/player-progression';
 import { sumTaskFocusMinutes } from '../../../lib/focus-time';
+import { AchievementsPanel } from './AchievementsPanel';
 
 interface ProfileModalProps {
   isOpen: boolean;
@@ -377,7 +378,7 @@ const DEFAULT_TITLES = [
 ];
 
 export function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
-  const [activeTab, setActiveTab] = useState<'stats' | 'titles'>('stats');
+  const [activeTab, setActiveTab] = useState<'stats' | 'titles' | 'achievements'>('stats');
 
   const level = useGameStore((s) => s.level);
   const experience = useGameStore((s) => s.experience);
@@ -546,6 +547,9 @@ export function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
           <Tab $active={activeTab === 'titles'} onClick={() => setActiveTab('titles')}>
             {t('profile.titles')}
           </Tab>
+          <Tab $active={activeTab === 'achievements'} onClick={() => setActiveTab('achievements')}>
+            {t('profile.achievements')}
+          </Tab>
         </TabNav>
 
         {/* Stats Tab */}
@@ -666,6 +670,9 @@ export function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
             </div>
           </TitlesSection>
         )}
+
+        {/* Achievements Tab */}
+        {activeTab === 'achievements' && <AchievementsPanel />}
       </ModalContent>
       <BeliefConfigModal
         isOpen={beliefConfigOpen}
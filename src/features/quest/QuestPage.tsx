@@ -426,6 +426,7 @@ export function QuestPage() {
         onSubmit={handleFormSubmit}
         quest={editingQuest}
         seasons={activeSeasons}
+        quests={mainQuests}
       />
 
       <ConfirmModal
@@ -447,6 +448,7 @@ export function QuestPage() {
         onSubmit={handleTaskFormSubmit}
         task={null}
         mainQuests={mainQuests}
+        tasks={customTasks}
         seasons={activeSeasons}
         defaultLinkType="mainQuest"
         defaultLinkedMainQuestId={creatingTaskForQuestId}
@@ -12,6 +12,7 @@ import { Modal, ImeSafeInputBase, ImeSafeTextareaBase, ModalFormSection, ModalFo
 import { useTranslation } from '../../../lib/i18n/useTranslation';
 import type { MainQuest, Importance, ProgressType, Chapter, Season } from '../../../types/task';
 import { getEffectiveSeasonStatus, isDateInFuture } from '../../../lib/hierarchy-status';
+import { isQuestDone, wouldCreateCycle } from '../../../lib/dependencies';
 import { MODAL_FORM_TOKENS } from '../../../styles/modalFormTokens';
 
 interface QuestFormModalProps {
@@ -20,6 +21,7 @@ interface QuestFormModalProps {
   onSubmit: (questData: Partial<MainQuest>) => void;
   quest?: MainQuest | null;
   seasons?: Season[];
+  quests?: MainQuest[]; // Candidates for "blocked by"
   initialChapterId?: string;
   initialSeasonId?: string;
 }
@@ -42,6 +44,7 @@ const questFormSchema = z.object({
   consequence: z.string(),
   rewardTitle: z.string(),
   rewardXP: z.string(),
+  blockedBy: z.array(z.string()),
 });
 
 type QuestFormValues = z.infer<typeof questFormSchema>;
@@ -243,6 +246,7 @@ function buildDefaultValues(params: {
       consequence: quest.consequence || '',
       rewardTitle: quest.rewardTitle || '',
       rewardXP: String(quest.rewardXP ?? 0),
+      blockedBy: quest.blockedBy || [],
     };
   }
 
@@ -270,6 +274,7 @@ function buildDefaultValues(params: {
     consequence: '',
     rewardTitle: '',
     rewardXP: '0',
+    blockedBy: [],
   };
 }
 
@@ -279,6 +284,7 @@ export function QuestFormModal({
   onSubmit,
   quest,
   seasons = [],
+  quests = [],
   initialChapterId,
   initialSeasonId,
 }: QuestFormModalProps) {
@@ -299,6 +305,7 @@ export function QuestFormModal({
     handleSubmit,
     reset,
     setValue,
+    getValues,
     setFocus,
     control,
   } = useForm<QuestFormValues>({
@@ -308,6 +315,14 @@ export function QuestFormModal({
 
   const progressType = useWatch({ control, name: 'progressType' });
   const consequence = useWatch({ control, name: 'consequence' });
+  const blockedBy = useWatch({ control, name: 'blockedBy' });
+
+  // Open quests this one may wait on without closing a dependency loop
+  const blockerCandidates = quests.filter((candidate) =>
+    !isQuestDone(candidate)
+    && !blockedBy.includes(candidate.id)
+    && (!quest || !wouldCreateCycle(quests, quest.id, candidate.id))
+  );
 
   // Reset form when modal opens with different quest
   useEffect(() => {
@@ -356,6 +371,7 @@ export function QuestFormModal({
       consequence: values.consequence.trim() || undefined,
       rewardTitle: values.rewardTitle.trim() || undefined,
       rewardXP: rewardXP > 0 ? rewardXP : undefined,
+      blockedBy: values.blockedBy.length > 0 ? values.blockedBy : undefined,
     };
 
     onSubmit(questData);
@@ -547,6 +563,48 @@ export function QuestFormModal({
               </Select>
             </FormGroup>
           </FormRow>
+          {(quests.length > 0 || blockedBy.length > 0) && (
+            <FormGroup>
+              <Label htmlFor="quest-blocked-by">{t('quest.label_blocked_by')}</Label>
+              <Select
+                id="quest-blocked-by"
+                value=""
+                onChange={(e) => {
+                  if (!e.target.value) return;
+                  setValue('blockedBy', [...getValues('blockedBy'), e.target.value], { shouldDirty: true });
+                }}
+              >
+                <option value="">{t('quest.placeholder_blocked_by')}</option>
+                {blockerCandidates.map((candidate) => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {candidate.title}
+                  </option>
+                ))}
+              </Select>
+              {blockedBy.map((blockerId) => {
+                const blocker = quests.find((item) => item.id === blockerId);
+                return (
+                  <div key={blockerId} style={{
+                    display: 'flex', alignItems: 'center', justifyContent: 'space-between',
+                    background: 'rgba(0,0,0,0.03)', padding: '6px 10px', borderRadius: '6px'
+                  }}>
+                    <span style={{ fontSize: '0.9rem' }}>
+                      {blocker && isQuestDone(blocker) ? '✅' : '🔒'} {blocker?.title ?? t('quest.blocker_missing')}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setValue('blockedBy', getValues('blockedBy').filter((id) => id !== blockerId), { shouldDirty: true })}
+                      style={{ border: 'none', background: 'none', cursor: 'pointer', color: '#ef4444', fontSize: '1.1rem' }}
+                      title={t('quest.remove_blocker')}
+                      aria-label={t('quest.remove_blocker')}
+                    >
+                      ×
+                    </button>
+                  </div>
+                );
+              })}
+            </FormGroup>
+          )}
         </ModalFormSection>
 
         {/* 5. Time-bound */}
@@ -6,6 +6,7 @@
 import styled from 'styled-components';
 import type { Habit } from '../../../types/task';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { getDayKey } from '../../../lib/calendar-day';
 
 interface HabitCardProps {
   habit: Habit;
@@ -186,7 +187,7 @@ const ProgressDot = styled.div<{ $filled: boolean }>`
 
 // Helper to get today's date string
 function getToday(): string {
-  return new Date().toISOString().split('T')[0];
+  return getDayKey();
 }
 
 // Helper to get category label
@@ -7,6 +7,8 @@ import { useMemo } from 'react';
 import styled from 'styled-components';
 import type { Habit } from '../../../types/task';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { toDayDate } from '../../../lib/calendar-day';
+import { toDateKey } from '../../../stores/game-store-helpers';
 
 interface HabitHeatmapProps {
   habit: Habit;
@@ -132,7 +134,7 @@ const GridWrapper = styled.div`
 
 // Helper to format date
 function formatDate(date: Date): string {
-  return date.toISOString().split('T')[0];
+  return toDateKey(date);
 }
 
 // Helper to get completion level (0-4)
@@ -151,7 +153,7 @@ export function HabitHeatmap({ habit, weeks = 12 }: HabitHeatmapProps) {
 
   // Generate grid data
   const gridData = useMemo(() => {
-    const today = new Date();
+    const today = toDayDate();
     const data: { date: Date; count: number; level: number }[][] = [];
 
     // Calculate start date (beginning of the first week)
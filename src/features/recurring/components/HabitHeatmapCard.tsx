@@ -7,6 +7,7 @@ import { useMemo, useRef, useEffect, useState } from 'react';
 import styled from 'styled-components';
 import type { Habit } from '../../../types/task';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { getDayKey, toDayDate } from '../../../lib/calendar-day';
 
 interface HabitHeatmapCardProps {
   habit: Habit;
@@ -216,8 +217,7 @@ function getLevel(count: number, target: number): number {
 }
 
 function getToday(): string {
-  const now = new Date();
-  return formatDate(now);
+  return getDayKey();
 }
 
 // Date comparison utilities - reserved for future features
@@ -282,7 +282,7 @@ export function HabitHeatmapCard({
 
     // Get today's date string for comparison
     const todayStr = getToday();
-    const today = new Date();
+    const today = toDayDate(todayStr);
     today.setHours(12, 0, 0, 0);
 
     // Calculate the end date: last day of the current week (Saturday)
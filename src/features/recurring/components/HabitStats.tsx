@@ -5,6 +5,8 @@
 
 import styled from 'styled-components';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { getDayKey } from '../../../lib/calendar-day';
+import { addDaysToKey } from '../../../lib/recurrence';
 import type { Habit } from '../../../types/task';
 
 interface HabitStatsProps {
@@ -72,20 +74,18 @@ const ProgressInner = styled.div`
 
 // Helper to get today's date string
 function getToday(): string {
-  return new Date().toISOString().split('T')[0];
+  return getDayKey();
 }
 
 // Helper to calculate week's completion rate
 function getWeekCompletionRate(habits: Habit[]): number {
   if (habits.length === 0) return 0;
 
-  const today = new Date();
+  const today = getToday();
   const weekDays: string[] = [];
 
   for (let i = 0; i < 7; i++) {
-    const d = new Date(today);
-    d.setDate(d.getDate() - i);
-    weekDays.push(d.toISOString().split('T')[0]);
+    weekDays.push(addDaysToKey(today, -i));
   }
 
   let totalTarget = 0;
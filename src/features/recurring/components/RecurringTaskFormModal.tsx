@@ -1,12 +1,15 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import styled from 'styled-components';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
 import { Modal, ImeSafeInputBase } from '../../../components/ui';
 import { useGameStore } from '../../../stores';
-import type { RecurringTask, Importance, Effort, TaskType } from '../../../types/task';
+import type { RecurringTask, Importance, Effort, TaskType, MonthlyRecurrenceMode, MissedOccurrencePolicy } from '../../../types/task';
 import { EFFORT_CONFIG } from '../../../constants/task';
+import { nextOccurrences } from '../../../lib/recurrence';
+import { getDayKey } from '../../../lib/calendar-day';
 
 type RecurringFrequency = RecurringTask['frequency'];
+const PREVIEW_COUNT = 10;
 type RecurringLinkType = 'none' | 'quest' | 'season' | 'chapter';
 type RecurringTaskSubmitData = Omit<RecurringTask, 'id' | 'createdAt' | 'streak' | 'lastGeneratedDate'>;
 
@@ -97,6 +100,41 @@ const CheckboxGroup = styled.div`
   gap: 10px;
 `;
 
+const CheckboxLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-size: 0.9rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+  cursor: pointer;
+`;
+
+const IntervalRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  color: ${({ theme }) => theme.colors.text.secondary};
+`;
+
+const Hint = styled.div`
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+`;
+
+const PreviewList = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+`;
+
+const PreviewDate = styled.span`
+  padding: 4px 8px;
+  border-radius: 6px;
+  background: ${({ theme }) => theme.colors.bg.tertiary};
+  color: ${({ theme }) => theme.colors.text.primary};
+  font-size: 0.8rem;
+`;
+
 const DayButton = styled.button<{ $selected: boolean }>`
   width: 36px;
   height: 36px;
@@ -116,6 +154,19 @@ const DayButton = styled.button<{ $selected: boolean }>`
 import type { TranslationKey } from '../../../lib/i18n/types';
 
 const DAYS: TranslationKey[] = ['weekly.day_sun', 'weekly.day_mon', 'weekly.day_tue', 'weekly.day_wed', 'weekly.day_thu', 'weekly.day_fri', 'weekly.day_sat'];
+const WEEKS_OF_MONTH: Array<{ value: number; key: TranslationKey }> = [
+    { value: 1, key: 'recurring.week_first' },
+    { value: 2, key: 'recurring.week_second' },
+    { value: 3, key: 'recurring.week_third' },
+    { value: 4, key: 'recurring.week_fourth' },
+    { value: 5, key: 'recurring.week_fifth' },
+    { value: -1, key: 'recurring.week_last' },
+];
+const INTERVAL_UNITS: Record<Exclude<RecurringFrequency, 'after_completion'>, TranslationKey> = {
+    daily: 'recurring.interval_unit_days',
+    weekly: 'recurring.interval_unit_weeks',
+    monthly: 'recurring.interval_unit_months',
+};
 
 export function RecurringTaskFormModal({
     isOpen,
@@ -125,13 +176,19 @@ export function RecurringTaskFormModal({
 }: RecurringTaskFormModalProps) {
     const mainQuests = useGameStore((s) => s.mainQuests);
     const activeSeasons = useGameStore((s) => s.activeSeasons);
-    const { t } = useTranslation();
+    const { t, language } = useTranslation();
 
     const [name, setName] = useState('');
     const [description, setDescription] = useState('');
     const [frequency, setFrequency] = useState<RecurringFrequency>('daily');
     const [selectedDays, setSelectedDays] = useState<number[]>([]);
     const [selectedDate, setSelectedDate] = useState(task?.dayOfMonth || 1);
+    const [repeatInterval, setRepeatInterval] = useState<number | string>(1);
+    const [monthlyMode, setMonthlyMode] = useState<MonthlyRecurrenceMode>('day_of_month');
+    const [weekOfMonth, setWeekOfMonth] = useState(1);
+    const [weekdayOfMonth, setWeekdayOfMonth] = useState(1);
+    const [businessDaysOnly, setBusinessDaysOnly] = useState(false);
+    const [missedPolicy, setMissedPolicy] = useState<MissedOccurrencePolicy>('skip');
     const [importance, setImportance] = useState<Importance>(task?.importance || 'medium');
     const [effort, setEffort] = useState<Effort>(task?.effort || 'medium');
     const [taskType, setTaskType] = useState<TaskType>(task?.taskType || 'creative');
@@ -152,6 +209,12 @@ export function RecurringTaskFormModal({
         setFrequency('daily');
         setSelectedDays([1, 2, 3, 4, 5]); // Default Mon-Fri
         setSelectedDate(1);
+        setRepeatInterval(1);
+        setMonthlyMode('day_of_month');
+        setWeekOfMonth(1);
+        setWeekdayOfMonth(1);
+        setBusinessDaysOnly(false);
+        setMissedPolicy('skip');
         setImportance('medium');
         setEffort('medium');
         setTaskType('creative');
@@ -170,6 +233,12 @@ export function RecurringTaskFormModal({
             setFrequency(task.frequency);
             setSelectedDays(task.daysOfWeek || []);
             setSelectedDate(task.dayOfMonth || 1);
+            setRepeatInterval(task.interval || 1);
+            setMonthlyMode(task.monthlyMode || 'day_of_month');
+            setWeekOfMonth(task.weekOfMonth ?? 1);
+            setWeekdayOfMonth(task.weekdayOfMonth ?? 1);
+            setBusinessDaysOnly(!!task.businessDaysOnly);
+            setMissedPolicy(task.missedPolicy || 'skip');
             setImportance(task.importance);
             setEffort(task.effort);
             setTaskType(task.taskType);
@@ -203,6 +272,38 @@ export function RecurringTaskFormModal({
         );
     };
 
+    const normalizedInterval = Math.max(1, Math.floor(Number(repeatInterval)) || 1);
+    const isNthWeekday = frequency === 'monthly' && monthlyMode === 'nth_weekday';
+
+    const previewDates = useMemo(() => nextOccurrences(
+        {
+            frequency,
+            interval: normalizedInterval,
+            daysOfWeek: selectedDays,
+            monthlyMode,
+            dayOfMonth: selectedDate,
+            weekOfMonth,
+            weekdayOfMonth,
+            businessDaysOnly,
+            startDate: startDate || undefined,
+            endDate: endDate || undefined,
+            createdAt: task?.createdAt || new Date().toISOString(),
+        },
+        getDayKey(),
+        PREVIEW_COUNT,
+        { lastCompleted: task?.lastCompleted }
+    ), [frequency, normalizedInterval, selectedDays, monthlyMode, selectedDate, weekOfMonth, weekdayOfMonth,
+        businessDaysOnly, startDate, endDate, task?.createdAt, task?.lastCompleted]);
+
+    const formatPreviewDate = (dateKey: string) => {
+        const [year, month, day] = dateKey.split('-').map(Number);
+        return new Date(year, month - 1, day).toLocaleDateString(language === 'zh' ? 'zh-CN' : 'en-US', {
+            month: 'short',
+            day: 'numeric',
+            weekday: 'short',
+        });
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (!name.trim()) return;
@@ -211,8 +312,14 @@ export function RecurringTaskFormModal({
             name,
             description,
             frequency,
+            interval: normalizedInterval,
             daysOfWeek: frequency === 'weekly' ? selectedDays : undefined,
-            dayOfMonth: frequency === 'monthly' ? selectedDate : undefined,
+            monthlyMode: frequency === 'monthly' ? monthlyMode : undefined,
+            dayOfMonth: frequency === 'monthly' && monthlyMode === 'day_of_month' ? selectedDate : undefined,
+            weekOfMonth: isNthWeekday ? weekOfMonth : undefined,
+            weekdayOfMonth: isNthWeekday ? weekdayOfMonth : undefined,
+            businessDaysOnly,
+            missedPolicy,
             time: '00:00', // Default time
             enabled: true,
             importance,
@@ -271,6 +378,7 @@ export function RecurringTaskFormModal({
                             <option value="daily">{t('recurring.freq_daily_label')}</option>
                             <option value="weekly">{t('recurring.freq_weekly_label')}</option>
                             <option value="monthly">{t('recurring.freq_monthly_label')}</option>
+                            <option value="after_completion">{t('recurring.freq_after_completion_label')}</option>
                         </Select>
                     </FormGroup>
 
@@ -288,6 +396,24 @@ export function RecurringTaskFormModal({
                     </FormGroup>
                 </FormRow>
 
+                <FormGroup>
+                    <Label htmlFor="recurring-interval">
+                        {frequency === 'after_completion' ? t('recurring.interval_after_completion') : t('recurring.interval')}
+                    </Label>
+                    <IntervalRow>
+                        <Input
+                            id="recurring-interval"
+                            type="number"
+                            min="1"
+                            value={repeatInterval}
+                            onChange={(e) => setRepeatInterval(e.target.value)}
+                            onBlur={() => setRepeatInterval(normalizedInterval)}
+                            style={{ width: '80px' }}
+                        />
+                        <span>{t(frequency === 'after_completion' ? 'recurring.interval_unit_days' : INTERVAL_UNITS[frequency])}</span>
+                    </IntervalRow>
+                </FormGroup>
+
                 {frequency === 'weekly' && (
                     <FormGroup>
                         <GroupLabel>{t('recurring.repeat_days')}</GroupLabel>
@@ -307,6 +433,50 @@ export function RecurringTaskFormModal({
                 )}
 
                 {frequency === 'monthly' && (
+                    <FormGroup>
+                        <Label htmlFor="recurring-monthly-mode">{t('recurring.monthly_mode')}</Label>
+                        <Select
+                            id="recurring-monthly-mode"
+                            value={monthlyMode}
+                            onChange={(e) => setMonthlyMode(e.target.value as MonthlyRecurrenceMode)}
+                        >
+                            <option value="day_of_month">{t('recurring.monthly_mode_day')}</option>
+                            <option value="nth_weekday">{t('recurring.monthly_mode_nth_weekday')}</option>
+                            <option value="last_business_day">{t('recurring.monthly_mode_last_business_day')}</option>
+                        </Select>
+                    </FormGroup>
+                )}
+
+                {isNthWeekday && (
+                    <FormRow>
+                        <FormGroup>
+                            <Label htmlFor="recurring-week-of-month">{t('recurring.week_of_month')}</Label>
+                            <Select
+                                id="recurring-week-of-month"
+                                value={weekOfMonth}
+                                onChange={(e) => setWeekOfMonth(Number(e.target.value))}
+                            >
+                                {WEEKS_OF_MONTH.map(({ value, key }) => (
+                                    <option key={value} value={value}>{t(key)}</option>
+                                ))}
+                            </Select>
+                        </FormGroup>
+                        <FormGroup>
+                            <Label htmlFor="recurring-weekday-of-month">{t('recurring.weekday')}</Label>
+                            <Select
+                                id="recurring-weekday-of-month"
+                                value={weekdayOfMonth}
+                                onChange={(e) => setWeekdayOfMonth(Number(e.target.value))}
+                            >
+                                {DAYS.map((day, index) => (
+                                    <option key={index} value={index}>{t(day)}</option>
+                                ))}
+                            </Select>
+                        </FormGroup>
+                    </FormRow>
+                )}
+
+                {frequency === 'monthly' && monthlyMode === 'day_of_month' && (
                     <FormGroup>
                         <Label htmlFor="recurring-month-day">{t('recurring.day_of_month')}</Label>
                         <Select
@@ -343,6 +513,43 @@ export function RecurringTaskFormModal({
                     </FormGroup>
                 </FormRow>
 
+                <CheckboxLabel>
+                    <input
+                        type="checkbox"
+                        checked={businessDaysOnly}
+                        onChange={(e) => setBusinessDaysOnly(e.target.checked)}
+                    />
+                    {t('recurring.business_days_only')}
+                </CheckboxLabel>
+
+                <FormGroup>
+                    <Label htmlFor="recurring-missed-policy">{t('recurring.missed_policy')}</Label>
+                    <Select
+                        id="recurring-missed-policy"
+                        value={missedPolicy}
+                        onChange={(e) => setMissedPolicy(e.target.value as MissedOccurrencePolicy)}
+                    >
+                        <option value="skip">{t('recurring.missed_skip')}</option>
+                        <option value="latest">{t('recurring.missed_latest')}</option>
+                        <option value="backfill">{t('recurring.missed_backfill')}</option>
+                    </Select>
+                    <Hint>{t('recurring.missed_policy_hint')}</Hint>
+                </FormGroup>
+
+                <FormGroup>
+                    <GroupLabel>{t('recurring.preview_title')}</GroupLabel>
+                    {previewDates.length > 0 ? (
+                        <PreviewList>
+                            {previewDates.map((date) => (
+                                <PreviewDate key={date}>{formatPreviewDate(date)}</PreviewDate>
+                            ))}
+                        </PreviewList>
+                    ) : (
+                        <Hint>{t('recurring.preview_empty')}</Hint>
+                    )}
+                    {frequency === 'after_completion' && <Hint>{t('recurring.preview_after_completion_hint')}</Hint>}
+                </FormGroup>
+
                 <FormRow>
                     <FormGroup>
                         <Label htmlFor="recurring-importance">{t('recurring.importance')}</Label>
@@ -152,22 +152,48 @@ const EmptyState = styled.div`
 import type { TranslationKey } from '../../../lib/i18n/types';
 
 const DAYS_MAP: TranslationKey[] = ['weekly.day_sun', 'weekly.day_mon', 'weekly.day_tue', 'weekly.day_wed', 'weekly.day_thu', 'weekly.day_fri', 'weekly.day_sat'];
+const WEEKS_MAP: Record<number, TranslationKey> = {
+  1: 'recurring.week_first',
+  2: 'recurring.week_second',
+  3: 'recurring.week_third',
+  4: 'recurring.week_fourth',
+  5: 'recurring.week_fifth',
+  [-1]: 'recurring.week_last',
+};
 
 export function RecurringTaskList({ tasks, onEdit, onDelete, onTrigger }: RecurringTaskListProps) {
   const { t } = useTranslation();
   const mainQuests = useGameStore(s => s.mainQuests);
   const activeSeasons = useGameStore(s => s.activeSeasons);
 
-  const getFrequencyText = (task: RecurringTask) => {
-    if (task.frequency === 'daily') return t('recurring.freq_daily');
-    if (task.frequency === 'monthly') return t('recurring.freq_monthly').replace('{day}', task.dayOfMonth?.toString() || '1');
+  const getRuleText = (task: RecurringTask) => {
+    const interval = task.interval || 1;
+    if (task.frequency === 'daily') {
+      return interval > 1 ? t('recurring.freq_every_days', { n: interval }) : t('recurring.freq_daily');
+    }
+    if (task.frequency === 'after_completion') return t('recurring.freq_after_completion', { n: interval });
+    if (task.frequency === 'monthly') {
+      if (task.monthlyMode === 'last_business_day') return t('recurring.freq_last_business_day');
+      if (task.monthlyMode === 'nth_weekday') {
+        const week = WEEKS_MAP[task.weekOfMonth ?? 1];
+        return t('recurring.freq_nth_weekday', {
+          week: week ? t(week) : '',
+          day: t(DAYS_MAP[task.weekdayOfMonth ?? 1]),
+        });
+      }
+      const day = task.dayOfMonth?.toString() || '1';
+      return interval > 1 ? t('recurring.freq_every_months', { n: interval, day }) : t('recurring.freq_monthly').replace('{day}', day);
+    }
     if (task.frequency === 'weekly' && task.daysOfWeek) {
       const days = task.daysOfWeek.map(d => t(DAYS_MAP[d])).join('、');
-      return t('recurring.freq_weekly').replace('{days}', days);
+      return interval > 1 ? t('recurring.freq_every_weeks', { n: interval, days }) : t('recurring.freq_weekly').replace('{days}', days);
     }
     return t('recurring.freq_custom');
   };
 
+  const getFrequencyText = (task: RecurringTask) =>
+    task.businessDaysOnly ? `${getRuleText(task)}${t('recurring.freq_business_days_suffix')}` : getRuleText(task);
+
   const getLinkedQuestName = (questId?: string) => {
     if (!questId) return null;
     const quest = mainQuests.find(q => q.id === questId);
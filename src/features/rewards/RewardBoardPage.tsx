@@ -2,10 +2,14 @@ import { useEffect, useMemo, useRef, useState } from 'react';
 import styled from 'styled-components';
 import { useGameStore } from '../../stores';
 import { useTranslation } from '../../lib/i18n/useTranslation';
-import type { RewardSticker, RewardVerb } from '../../types/task';
+import type { RewardCurrency, RewardSticker, RewardVerb } from '../../types/task';
 import type { TranslationKey } from '../../lib/i18n/types';
 import { parseRewardTexts } from '../../lib/reward-parser';
 import { Modal } from '../../components/ui/Modal';
+import { findActiveCooldown, getEffectivePrice, getRewardRedemptions } from '../../lib/reward-budget';
+import { RewardBudgetPanel } from './components/RewardBudgetPanel';
+import { WishlistPanel } from './components/WishlistPanel';
+import { RedemptionHistoryChart } from './components/RedemptionHistoryChart';
 
 const PageContainer = styled.div`
   max-width: 1200px;
@@ -94,6 +98,13 @@ const SectionTitle = styled.h3`
   color: ${({ theme }) => theme.colors.text.primary};
 `;
 
+const EditDetailGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(2, minmax(0, 1fr));
+  gap: 8px;
+  margin-bottom: 8px;
+`;
+
 const EditGrid = styled.div`
   display: grid;
   grid-template-columns: minmax(0, 1fr) 140px 120px 120px;
@@ -209,6 +220,14 @@ const VERB_KEY: Record<RewardVerb, TranslationKey> = {
   other: 'rewards.verb.other',
 };
 
+const CURRENCY_SYMBOL: Record<RewardCurrency, string> = {
+  CNY: '¥',
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  JPY: 'JP¥',
+};
+
 function normalizeCommand(text: string) {
   return text
     .toLowerCase()
@@ -225,6 +244,8 @@ export function RewardBoardPage() {
   const { t } = useTranslation();
   const rewardPool = useGameStore((s) => s.rewardPool || []);
   const goldBalance = useGameStore((s) => s.resources.money.balance);
+  const financialRecords = useGameStore((s) => s.financialRecords);
+  const rewardBudget = useGameStore((s) => s.rewardBudget);
   const redeemRewardSticker = useGameStore((s) => s.redeemRewardSticker);
   const deleteRewardSticker = useGameStore((s) => s.deleteRewardSticker);
   const updateRewardStickerPosition = useGameStore((s) => s.updateRewardStickerPosition);
@@ -242,6 +263,9 @@ export function RewardBoardPage() {
   const [editObject, setEditObject] = useState('');
   const [editQuantity, setEditQuantity] = useState('');
   const [editUnit, setEditUnit] = useState('');
+  const [editDuration, setEditDuration] = useState('');
+  const [editPriceCap, setEditPriceCap] = useState('');
+  const [editCurrency, setEditCurrency] = useState<RewardCurrency>('CNY');
   const boardRef = useRef<HTMLDivElement | null>(null);
   const dragState = useRef<{
     id: string;
@@ -263,6 +287,25 @@ export function RewardBoardPage() {
     [available, filter]
   );
 
+  const redemptions = useMemo(() => getRewardRedemptions({ financialRecords, rewardPool }), [financialRecords, rewardPool]);
+
+  const describeDetails = (item: RewardSticker) => {
+    const parts: string[] = [];
+    const { schedule } = item;
+    if (schedule?.weekdays?.length) {
+      parts.push(schedule.weekdays.map((day) => t(`rewards.weekday.${day}` as TranslationKey)).join('/'));
+    }
+    if (schedule?.period) parts.push(t(`rewards.period.${schedule.period}` as TranslationKey));
+    if (schedule?.anchor) parts.push(t(`rewards.anchor.${schedule.anchor}` as TranslationKey));
+    if (schedule?.from) parts.push(t('rewards.detail.from', { time: schedule.from }));
+    if (schedule?.until) parts.push(t('rewards.detail.until', { time: schedule.until }));
+    if (item.durationMinutes) parts.push(t('rewards.detail.duration', { minutes: item.durationMinutes }));
+    if (item.priceCap) {
+      parts.push(t('rewards.detail.price_cap', { price: `${CURRENCY_SYMBOL[item.priceCap.currency]}${item.priceCap.amount}` }));
+    }
+    return parts.join(' · ');
+  };
+
   const counts = useMemo(() => {
     const map: Record<RewardVerb, number> = { eat: 0, drink: 0, buy: 0, watch: 0, play: 0, rest: 0, other: 0 };
     available.forEach((item) => { map[item.verb] += 1; });
@@ -277,6 +320,18 @@ export function RewardBoardPage() {
     addRewardActionLog(text);
   };
 
+  // Cooldown and budget refusals name the reward they blocked
+  const logLimit = (id: string, result: { reason?: string; availableOn?: string }) => {
+    const item = rewardPool.find((sticker) => sticker.id === id);
+    if (!item) return;
+    if (result.reason === 'cooldown') {
+      addLog(t('rewards.error_cooldown', { item: item.rawText, date: result.availableOn || '' }));
+    }
+    if (result.reason === 'over_budget') {
+      addLog(t('rewards.error_over_budget', { item: item.rawText, tier: item.priceTier }));
+    }
+  };
+
   const redeemSelected = () => {
     if (selectedIds.length === 0) return;
     let failNonAvailable = false;
@@ -287,6 +342,7 @@ export function RewardBoardPage() {
       if (result.success) successCount += 1;
       if (result.reason === 'insufficient_gold') failInsufficient = true;
       if (result.reason === 'already_redeemed' || result.reason === 'not_found') failNonAvailable = true;
+      logLimit(id, result);
     });
     if (successCount > 0) {
       addLog(t('rewards.log_redeemed_count').replace('{count}', successCount.toString()));
@@ -355,6 +411,7 @@ export function RewardBoardPage() {
       if (result.success) redeemedItems.push(item);
       if (result.reason === 'insufficient_gold') failInsufficient = true;
       if (result.reason === 'already_redeemed' || result.reason === 'not_found') failNonAvailable = true;
+      logLimit(item.id, result);
     });
     if (redeemedItems.length > 0) {
       addLog(
@@ -404,6 +461,9 @@ export function RewardBoardPage() {
     setEditObject(item.object || '');
     setEditQuantity(item.quantity ? String(item.quantity) : '');
     setEditUnit(item.unit || '');
+    setEditDuration(item.durationMinutes ? String(item.durationMinutes) : '');
+    setEditPriceCap(item.priceCap ? String(item.priceCap.amount) : '');
+    setEditCurrency(item.priceCap?.currency || 'CNY');
   };
 
   const saveStickerEdit = () => {
@@ -412,12 +472,16 @@ export function RewardBoardPage() {
     const trimmedObject = editObject.trim();
     if (!trimmedRaw && !trimmedObject) return;
     const quantityNumber = editQuantity.trim() ? Number(editQuantity) : undefined;
+    const durationNumber = Number(editDuration);
+    const priceCapNumber = Number(editPriceCap);
     updateRewardStickerData(editingStickerId, {
       rawText: trimmedRaw || trimmedObject,
       verb: editVerb,
       object: trimmedObject || trimmedRaw,
       quantity: quantityNumber && quantityNumber > 0 ? quantityNumber : undefined,
       unit: editUnit.trim() || undefined,
+      durationMinutes: durationNumber > 0 ? durationNumber : undefined,
+      priceCap: priceCapNumber > 0 ? { amount: priceCapNumber, currency: editCurrency } : undefined,
     });
     addLog(t('rewards.log_updated'));
     setEditingStickerId(null);
@@ -505,35 +569,52 @@ export function RewardBoardPage() {
         {visibleAvailable.length === 0 ? (
           <Hint style={{ padding: 12 }}>{t('rewards.empty_available')}</Hint>
         ) : (
-          visibleAvailable.map((item) => (
-            <Sticker
-              key={item.id}
-              $selected={selectedIds.includes(item.id)}
-              $x={item.x}
-              $y={item.y}
-              $rotation={item.rotation}
-              $z={item.zIndex || 1}
-              onClick={() => onStickerClick(item)}
-              onContextMenu={(e) => onStickerContextMenu(e, item)}
-              onPointerDown={(e) => onStickerPointerDown(e, item)}
-              title={item.rawText}
-            >
-              <StickerMain>
-                {item.quantity ? `x${item.quantity}${item.unit || ''} ` : ''}
-                {item.object}
-              </StickerMain>
-              <StickerMeta>
-                {t('rewards.price_label').replace('{tier}', item.priceTier).replace('{price}', item.priceGold.toString())}
-                {' · '}
-                {t(VERB_KEY[item.verb])}
-                {item.sourceTaskName ? ` · ${t('rewards.source_task').replace('{task}', item.sourceTaskName)}` : ''}
-              </StickerMeta>
-            </Sticker>
-          ))
+          visibleAvailable.map((item) => {
+            const price = getEffectivePrice(item, redemptions, rewardBudget);
+            const cooldown = findActiveCooldown(item, redemptions, rewardBudget);
+            const details = describeDetails(item);
+            return (
+              <Sticker
+                key={item.id}
+                $selected={selectedIds.includes(item.id)}
+                $x={item.x}
+                $y={item.y}
+                $rotation={item.rotation}
+                $z={item.zIndex || 1}
+                onClick={() => onStickerClick(item)}
+                onContextMenu={(e) => onStickerContextMenu(e, item)}
+                onPointerDown={(e) => onStickerPointerDown(e, item)}
+                title={item.rawText}
+              >
+                <StickerMain>
+                  {item.quantity ? `x${item.quantity}${item.unit || ''} ` : ''}
+                  {item.object}
+                </StickerMain>
+                {details && <StickerMeta>{details}</StickerMeta>}
+                <StickerMeta>
+                  {t('rewards.price_label').replace('{tier}', item.priceTier).replace('{price}', price.toString())}
+                  {price > item.priceGold ? ' ↑' : ''}
+                  {' · '}
+                  {t(VERB_KEY[item.verb])}
+                  {item.sourceTaskName ? ` · ${t('rewards.source_task').replace('{task}', item.sourceTaskName)}` : ''}
+                  {cooldown ? ` · ${t('rewards.cooldown_until', { date: cooldown.availableOn })}` : ''}
+                </StickerMeta>
+              </Sticker>
+            );
+          })
         )}
       </Board>
 
-      <SectionTitle>{t('rewards.log_title')}</SectionTitle>
+      <SectionTitle>{t('rewards.wishlist.title')}</SectionTitle>
+      <WishlistPanel onLog={addLog} />
+
+      <SectionTitle style={{ marginTop: 16 }}>{t('rewards.history.title')}</SectionTitle>
+      <RedemptionHistoryChart />
+
+      <SectionTitle style={{ marginTop: 16 }}>{t('rewards.budget.title')}</SectionTitle>
+      <RewardBudgetPanel />
+
+      <SectionTitle style={{ marginTop: 16 }}>{t('rewards.log_title')}</SectionTitle>
       {logs.length === 0 ? (
         <Hint>{t('rewards.log_empty')}</Hint>
       ) : (
@@ -605,6 +686,24 @@ export function RewardBoardPage() {
               placeholder={t('rewards.edit_unit')}
             />
           </EditGrid>
+          <EditDetailGrid>
+            <VisuallyHiddenLabel htmlFor="reward-edit-duration">{t('rewards.edit_duration_label')}</VisuallyHiddenLabel>
+            <EditInput
+              id="reward-edit-duration"
+              name="reward-edit-duration"
+              value={editDuration}
+              onChange={(e) => setEditDuration(e.target.value.replace(/[^\d]/g, ''))}
+              placeholder={t('rewards.edit_duration')}
+            />
+            <VisuallyHiddenLabel htmlFor="reward-edit-price-cap">{t('rewards.edit_price_cap_label')}</VisuallyHiddenLabel>
+            <EditInput
+              id="reward-edit-price-cap"
+              name="reward-edit-price-cap"
+              value={editPriceCap}
+              onChange={(e) => setEditPriceCap(e.target.value.replace(/[^\d.]/g, ''))}
+              placeholder={`${t('rewards.edit_price_cap')} (${CURRENCY_SYMBOL[editCurrency]})`}
+            />
+          </EditDetailGrid>
           <VisuallyHiddenLabel htmlFor="reward-edit-object">{t('rewards.edit_object_label')}</VisuallyHiddenLabel>
           <EditInput
             id="reward-edit-object"
@@ -0,0 +1,112 @@
+/**
+ * RedemptionHistoryChart Component
+ * Weekly gold spent on rewards and saved toward wishlist items
+ */
+
+import styled from 'styled-components';
+import { useGameStore } from '../../../stores';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { getRedemptionHistory } from '../../../lib/reward-budget';
+
+const CHART_HEIGHT = 140;
+
+const Chart = styled.div`
+  display: grid;
+  grid-auto-flow: column;
+  grid-auto-columns: minmax(0, 1fr);
+  gap: 8px;
+  align-items: end;
+  height: ${CHART_HEIGHT + 40}px;
+`;
+
+const Column = styled.div`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 4px;
+  min-width: 0;
+`;
+
+const Bars = styled.div`
+  display: flex;
+  align-items: flex-end;
+  gap: 3px;
+  height: ${CHART_HEIGHT}px;
+`;
+
+const Bar = styled.div<{ $height: number; $color: string }>`
+  width: 14px;
+  height: ${({ $height }) => $height}px;
+  background: ${({ $color }) => $color};
+  border-radius: 3px 3px 0 0;
+`;
+
+const Label = styled.div`
+  font-size: 0.7rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+  white-space: nowrap;
+`;
+
+const Legend = styled.div`
+  display: flex;
+  gap: 12px;
+  font-size: 0.75rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+  margin-top: 6px;
+`;
+
+const Swatch = styled.span<{ $color: string }>`
+  display: inline-block;
+  width: 10px;
+  height: 10px;
+  margin-right: 4px;
+  border-radius: 2px;
+  background: ${({ $color }) => $color};
+`;
+
+const SPENT_COLOR = '#a855f7';
+const SAVED_COLOR = '#10b981';
+
+export function RedemptionHistoryChart() {
+  const financialRecords = useGameStore((s) => s.financialRecords);
+  const rewardPool = useGameStore((s) => s.rewardPool);
+  const rewardActionLogs = useGameStore((s) => s.rewardActionLogs);
+  const { t } = useTranslation();
+
+  const history = getRedemptionHistory({ financialRecords, rewardPool, rewardActionLogs });
+  const max = Math.max(1, ...history.map((week) => Math.max(week.spent, week.saved)));
+  const scale = (value: number) => Math.round((Math.max(0, value) / max) * CHART_HEIGHT);
+
+  return (
+    <div>
+      <Chart>
+        {history.map((week) => (
+          <Column
+            key={week.weekStart}
+            title={t('rewards.history.tooltip', {
+              week: week.weekStart,
+              spent: week.spent,
+              count: week.redemptions,
+              saved: week.saved,
+              actions: week.actions,
+            })}
+          >
+            <Bars>
+              <Bar $height={scale(week.spent)} $color={SPENT_COLOR} />
+              <Bar $height={scale(week.saved)} $color={SAVED_COLOR} />
+            </Bars>
+            <Label>{week.weekStart.slice(5)}</Label>
+            <Label>×{week.redemptions}</Label>
+          </Column>
+        ))}
+      </Chart>
+      <Legend>
+        <span><Swatch $color={SPENT_COLOR} />{t('rewards.history.spent')}</span>
+        <span><Swatch $color={SAVED_COLOR} />{t('rewards.history.saved')}</span>
+        <span>×{t('rewards.history.redemptions')}</span>
+      </Legend>
+    </div>
+  );
+}
+
+export default RedemptionHistoryChart;
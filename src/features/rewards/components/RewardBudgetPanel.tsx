@@ -0,0 +1,184 @@
+/**
+ * RewardBudgetPanel Component
+ * Weekly tier budgets, dynamic pricing and reward cooldown rules
+ */
+
+import { useState } from 'react';
+import styled from 'styled-components';
+import { Button, Input } from '../../../components/ui';
+import { useGameStore } from '../../../stores';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { createPrefixedId } from '../../../lib/id';
+import { getRewardRedemptions, getTierSpending, PRICE_TIERS } from '../../../lib/reward-budget';
+import type { RewardBudgetConfig } from '../../../types/game-data';
+
+const Grid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(4, minmax(0, 1fr));
+  gap: 8px;
+
+  @media (max-width: 700px) {
+    grid-template-columns: repeat(2, minmax(0, 1fr));
+  }
+`;
+
+const Field = styled.label`
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+`;
+
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  flex-wrap: wrap;
+`;
+
+const Note = styled.div`
+  font-size: 0.75rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+`;
+
+const Group = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  margin-bottom: 14px;
+`;
+
+const GroupTitle = styled.div`
+  font-size: 0.85rem;
+  font-weight: 600;
+  color: ${({ theme }) => theme.colors.text.primary};
+`;
+
+const RuleItem = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-size: 0.85rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+`;
+
+function toNumber(value: string): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+export function RewardBudgetPanel() {
+  const rewardBudget = useGameStore((s) => s.rewardBudget);
+  const financialRecords = useGameStore((s) => s.financialRecords);
+  const rewardPool = useGameStore((s) => s.rewardPool);
+  const updateRewardBudget = useGameStore((s) => s.updateRewardBudget);
+  const { t } = useTranslation();
+
+  const [keyword, setKeyword] = useState('');
+  const [limit, setLimit] = useState('1');
+  const [periodDays, setPeriodDays] = useState('7');
+
+  const spending = getTierSpending(getRewardRedemptions({ financialRecords, rewardPool }));
+  const pricing = rewardBudget.dynamicPricing;
+
+  const updatePricing = (updates: Partial<RewardBudgetConfig['dynamicPricing']>) => {
+    updateRewardBudget({ dynamicPricing: { ...pricing, ...updates } });
+  };
+
+  const addCooldown = () => {
+    const trimmed = keyword.trim();
+    if (!trimmed || toNumber(limit) < 1 || toNumber(periodDays) < 1) return;
+    updateRewardBudget({
+      cooldowns: [
+        ...rewardBudget.cooldowns,
+        { id: createPrefixedId('cooldown', 9), keyword: trimmed, limit: Math.floor(toNumber(limit)), periodDays: Math.floor(toNumber(periodDays)) },
+      ],
+    });
+    setKeyword('');
+  };
+
+  return (
+    <div>
+      <Group>
+        <GroupTitle>{t('rewards.budget.tiers')}</GroupTitle>
+        <Grid>
+          {PRICE_TIERS.map((tier) => (
+            <Field key={tier}>
+              {t('rewards.budget.tier_label', { tier })}
+              <Input
+                type="number"
+                min={0}
+                value={rewardBudget.tierWeeklyBudget[tier] || ''}
+                placeholder={t('rewards.budget.unlimited')}
+                onChange={(e) => updateRewardBudget({
+                  tierWeeklyBudget: { ...rewardBudget.tierWeeklyBudget, [tier]: Math.floor(toNumber(e.target.value)) },
+                })}
+              />
+              <Note>
+                {rewardBudget.tierWeeklyBudget[tier] > 0
+                  ? t('rewards.budget.spent_of', { spent: spending[tier], budget: rewardBudget.tierWeeklyBudget[tier] })
+                  : t('rewards.budget.spent', { spent: spending[tier] })}
+              </Note>
+            </Field>
+          ))}
+        </Grid>
+      </Group>
+
+      <Group>
+        <GroupTitle>{t('rewards.budget.dynamic_pricing')}</GroupTitle>
+        <Row>
+          <label>
+            <input type="checkbox" checked={pricing.enabled} onChange={(e) => updatePricing({ enabled: e.target.checked })} />
+            {' '}{t('rewards.budget.dynamic_enabled')}
+          </label>
+        </Row>
+        <Grid>
+          <Field>
+            {t('rewards.budget.window_days')}
+            <Input type="number" min={1} value={pricing.windowDays} disabled={!pricing.enabled}
+              onChange={(e) => updatePricing({ windowDays: Math.max(1, Math.floor(toNumber(e.target.value))) })} />
+          </Field>
+          <Field>
+            {t('rewards.budget.step_percent')}
+            <Input type="number" min={0} value={pricing.stepPercent} disabled={!pricing.enabled}
+              onChange={(e) => updatePricing({ stepPercent: toNumber(e.target.value) })} />
+          </Field>
+          <Field>
+            {t('rewards.budget.max_multiplier')}
+            <Input type="number" min={1} step={0.1} value={pricing.maxMultiplier} disabled={!pricing.enabled}
+              onChange={(e) => updatePricing({ maxMultiplier: Math.max(1, toNumber(e.target.value)) })} />
+          </Field>
+        </Grid>
+        <Note>{t('rewards.budget.dynamic_hint')}</Note>
+      </Group>
+
+      <Group>
+        <GroupTitle>{t('rewards.budget.cooldowns')}</GroupTitle>
+        {rewardBudget.cooldowns.length === 0 && <Note>{t('rewards.budget.no_cooldowns')}</Note>}
+        {rewardBudget.cooldowns.map((rule) => (
+          <RuleItem key={rule.id}>
+            <span>{t('rewards.budget.cooldown_rule', { keyword: rule.keyword, limit: rule.limit, days: rule.periodDays })}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => updateRewardBudget({ cooldowns: rewardBudget.cooldowns.filter((entry) => entry.id !== rule.id) })}
+            >
+              {t('rewards.budget.remove')}
+            </Button>
+          </RuleItem>
+        ))}
+        <Row>
+          <Input fullWidth={false} value={keyword} onChange={(e) => setKeyword(e.target.value)} placeholder={t('rewards.budget.keyword')} />
+          <Input fullWidth={false} type="number" min={1} value={limit} onChange={(e) => setLimit(e.target.value)} aria-label={t('rewards.budget.limit')} style={{ width: 72 }} />
+          <span>{t('rewards.budget.times_per')}</span>
+          <Input fullWidth={false} type="number" min={1} value={periodDays} onChange={(e) => setPeriodDays(e.target.value)} aria-label={t('rewards.budget.period_days')} style={{ width: 72 }} />
+          <span>{t('rewards.budget.days')}</span>
+          <Button size="sm" disabled={!keyword.trim()} onClick={addCooldown}>{t('rewards.budget.add_cooldown')}</Button>
+        </Row>
+      </Group>
+    </div>
+  );
+}
+
+export default RewardBudgetPanel;
@@ -0,0 +1,178 @@
+/**
+ * WishlistPanel Component
+ * Savings goals that collect gold through deposits and weekly contributions
+ */
+
+import { useState } from 'react';
+import styled from 'styled-components';
+import { Button, Input } from '../../../components/ui';
+import { useGameStore } from '../../../stores';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import type { TranslationKey } from '../../../lib/i18n/types';
+
+const List = styled.div`
+  display: grid;
+  gap: 8px;
+  margin-bottom: 12px;
+`;
+
+const Item = styled.div<{ $done: boolean }>`
+  border: 1px solid ${({ theme }) => theme.colors.border.secondary};
+  border-radius: 8px;
+  padding: 10px 12px;
+  background: ${({ theme }) => theme.colors.bg.secondary};
+  opacity: ${({ $done }) => ($done ? 0.65 : 1)};
+`;
+
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  flex-wrap: wrap;
+`;
+
+const Name = styled.span`
+  flex: 1;
+  font-weight: 600;
+  color: ${({ theme }) => theme.colors.text.primary};
+`;
+
+const Note = styled.div<{ $warning?: boolean }>`
+  font-size: 0.75rem;
+  color: ${({ theme, $warning }) => ($warning ? theme.colors.status.danger.text : theme.colors.text.tertiary)};
+`;
+
+const Track = styled.div`
+  height: 6px;
+  margin: 8px 0;
+  background: ${({ theme }) => theme.colors.bg.tertiary};
+  border-radius: 3px;
+  overflow: hidden;
+`;
+
+const Fill = styled.div<{ $percent: number }>`
+  height: 100%;
+  width: ${({ $percent }) => $percent}%;
+  background: linear-gradient(90deg, #10b981, #34d399);
+  transition: width 0.3s ease;
+`;
+
+export function WishlistPanel({ onLog }: { onLog: (text: string) => void }) {
+  const wishlist = useGameStore((s) => s.rewardWishlist);
+  const addWishlistItem = useGameStore((s) => s.addWishlistItem);
+  const depositToWishlist = useGameStore((s) => s.depositToWishlist);
+  const redeemWishlistItem = useGameStore((s) => s.redeemWishlistItem);
+  const deleteWishlistItem = useGameStore((s) => s.deleteWishlistItem);
+  const { t } = useTranslation();
+
+  const [name, setName] = useState('');
+  const [target, setTarget] = useState('');
+  const [weekly, setWeekly] = useState('');
+  const [deposits, setDeposits] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const showResult = (result: { success: boolean; reason?: string }) => {
+    setError(result.success ? null : t(`rewards.wishlist.reason.${result.reason}` as TranslationKey));
+    return result.success;
+  };
+
+  const handleAdd = () => {
+    const ok = showResult(addWishlistItem({ name, targetGold: Number(target), weeklyContribution: Number(weekly) || 0 }));
+    if (!ok) return;
+    onLog(t('rewards.wishlist.log_added', { item: name.trim() }));
+    setName('');
+    setTarget('');
+    setWeekly('');
+  };
+
+  return (
+    <div>
+      {wishlist.length === 0 && <Note>{t('rewards.wishlist.empty')}</Note>}
+      <List>
+        {wishlist.map((item) => {
+          const percent = Math.min(100, Math.round((item.savedGold / item.targetGold) * 100));
+          const funded = item.savedGold >= item.targetGold;
+          const done = item.status === 'redeemed';
+          return (
+            <Item key={item.id} $done={done}>
+              <Row>
+                <Name>{done ? '✅' : '⭐'} {item.name}</Name>
+                <Note>{t('rewards.wishlist.progress', { saved: item.savedGold, target: item.targetGold })}</Note>
+              </Row>
+              <Track><Fill $percent={percent} /></Track>
+              <Row>
+                {done ? (
+                  <Note>{t('rewards.wishlist.redeemed_on', { date: new Date(item.redeemedAt || item.createdAt).toLocaleDateString() })}</Note>
+                ) : (
+                  <>
+                    <Note>
+                      {item.weeklyContribution > 0
+                        ? t('rewards.wishlist.weekly', { amount: item.weeklyContribution })
+                        : t('rewards.wishlist.manual_only')}
+                    </Note>
+                    {!funded && (
+                      <>
+                        <Input
+                          fullWidth={false}
+                          type="number"
+                          min={1}
+                          value={deposits[item.id] || ''}
+                          onChange={(e) => setDeposits((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                          placeholder={t('rewards.wishlist.amount')}
+                          style={{ width: 96 }}
+                        />
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => {
+                            const amount = Number(deposits[item.id]);
+                            if (showResult(depositToWishlist(item.id, amount))) {
+                              onLog(t('rewards.wishlist.log_deposit', { amount, item: item.name }));
+                              setDeposits((prev) => ({ ...prev, [item.id]: '' }));
+                            }
+                          }}
+                        >
+                          {t('rewards.wishlist.deposit')}
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      size="sm"
+                      disabled={!funded}
+                      onClick={() => {
+                        if (showResult(redeemWishlistItem(item.id))) onLog(t('rewards.wishlist.log_redeemed', { item: item.name }));
+                      }}
+                    >
+                      {t('rewards.wishlist.redeem')}
+                    </Button>
+                  </>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => {
+                    if (!window.confirm(t('rewards.wishlist.delete_confirm', { item: item.name }))) return;
+                    deleteWishlistItem(item.id);
+                    onLog(t('rewards.wishlist.log_deleted', { item: item.name }));
+                  }}
+                >
+                  {t('rewards.wishlist.delete')}
+                </Button>
+              </Row>
+            </Item>
+          );
+        })}
+      </List>
+
+      <Row>
+        <Input fullWidth={false} value={name} onChange={(e) => setName(e.target.value)} placeholder={t('rewards.wishlist.name')} />
+        <Input fullWidth={false} type="number" min={1} value={target} onChange={(e) => setTarget(e.target.value)} placeholder={t('rewards.wishlist.target')} style={{ width: 120 }} />
+        <Input fullWidth={false} type="number" min={0} value={weekly} onChange={(e) => setWeekly(e.target.value)} placeholder={t('rewards.wishlist.weekly_placeholder')} style={{ width: 140 }} />
+        <Button size="sm" disabled={!name.trim() || !target} onClick={handleAdd}>{t('rewards.wishlist.add')}</Button>
+      </Row>
+      {error && <Note $warning>{error}</Note>}
+    </div>
+  );
+}
+
+export default WishlistPanel;
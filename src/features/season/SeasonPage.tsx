@@ -142,6 +142,7 @@ const HistoryTitle = styled.h4`
 `;
 
 import { CategoryManagerModal } from './components/CategoryManagerModal';
+import { toDayDate } from '../../lib/calendar-day';
 
 type FilterType = string;
 
@@ -276,8 +277,7 @@ export function SeasonPage() {
       );
     } else {
       // Add new chapter
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      const today = toDayDate();
       let newChapterStatus: Chapter['status'] = 'active';
       if (getEffectiveSeasonStatus(season) === 'locked') {
         newChapterStatus = 'locked';
@@ -496,6 +496,7 @@ export function SeasonPage() {
         }}
         onSubmit={handleQuestSubmit}
         seasons={activeSeasons}
+        quests={mainQuests}
         initialChapterId={questLinkInfo?.chapterId}
         initialSeasonId={questLinkInfo?.seasonId}
       />
@@ -10,6 +10,7 @@ import { useTranslation } from '../../../lib/i18n/useTranslation';
 import { createPrefixedId } from '../../../lib/id';
 import type { Season, Chapter, Category, Importance } from '../../../types/task';
 import { isDateInFuture } from '../../../lib/hierarchy-status';
+import { getDayKey } from '../../../lib/calendar-day';
 
 interface SeasonWizardModalProps {
   isOpen: boolean;
@@ -409,7 +410,7 @@ export function SeasonWizardModal({
         setName('');
         setDescription('');
         setCategory('work');
-        setStartDate(new Date().toISOString().split('T')[0]);
+        setStartDate(getDayKey());
         setEndDate('');
         setRewardTitle('');
         setRewardXP(0);
@@ -0,0 +1,273 @@
+/**
+ * AIUsagePanel Component
+ * Per-feature AI call counts, tokens, cost and latency, with daily budgets
+ */
+
+import { useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { Button } from '../../../components/ui';
+import { useAIUsageStore } from '../../../stores/ai-usage-store';
+import { AI_FEATURES, getAIBudgetStatus, summarizeAIUsage } from '../../../lib/ai/telemetry';
+import { fetchBridgeAIUsage, type BridgeAIUsage } from '../../../lib/ai/provider-proxy';
+import { getDayKey } from '../../../lib/calendar-day';
+import { addDaysToKey } from '../../../lib/recurrence';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import type { TranslationKey } from '../../../lib/i18n/types';
+import type { AIFeature, AIFeatureBudget } from '../../../types/ai';
+
+const FEATURE_KEYS: Record<AIFeature, TranslationKey> = {
+  friend_chat: 'ai_usage.feature_friend_chat',
+  coach_chat: 'ai_usage.feature_coach_chat',
+  intervention: 'ai_usage.feature_intervention',
+  task_breakdown: 'ai_usage.feature_task_breakdown',
+  prioritization: 'ai_usage.feature_prioritization',
+  task_analysis: 'ai_usage.feature_task_analysis',
+  reflection_summary: 'ai_usage.feature_reflection_summary',
+};
+
+const BUDGET_FIELDS: Array<{ key: keyof AIFeatureBudget; label: TranslationKey; step: number }> = [
+  { key: 'maxCalls', label: 'ai_usage.budget_calls', step: 1 },
+  { key: 'maxTokens', label: 'ai_usage.budget_tokens', step: 1000 },
+  { key: 'maxCostUsd', label: 'ai_usage.budget_cost', step: 0.01 },
+];
+
+const Toolbar = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
+  flex-wrap: wrap;
+`;
+
+const ButtonGroup = styled.div`
+  display: flex;
+  gap: 4px;
+`;
+
+const TableWrapper = styled.div`
+  overflow-x: auto;
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.text.primary};
+
+  th, td {
+    padding: 6px 8px;
+    text-align: right;
+    white-space: nowrap;
+    border-bottom: 1px solid ${({ theme }) => theme.colors.border.secondary};
+  }
+
+  th:first-child, td:first-child {
+    text-align: left;
+  }
+
+  th {
+    font-weight: 600;
+    color: ${({ theme }) => theme.colors.text.secondary};
+  }
+`;
+
+const OverBudget = styled.span`
+  color: ${({ theme }) => theme.colors.status.danger.text};
+  font-weight: 600;
+`;
+
+const Muted = styled.span`
+  color: ${({ theme }) => theme.colors.text.tertiary};
+`;
+
+const BudgetGrid = styled.div`
+  display: grid;
+  grid-template-columns: 1fr repeat(3, 90px);
+  gap: 6px 8px;
+  align-items: center;
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+`;
+
+const BudgetInput = styled.input`
+  width: 100%;
+  padding: 4px 6px;
+  border-radius: 6px;
+  border: 1px solid ${({ theme }) => theme.colors.border.primary};
+  background: ${({ theme }) => theme.colors.bg.primary};
+  color: ${({ theme }) => theme.colors.text.primary};
+  font-size: 0.8rem;
+`;
+
+const Note = styled.div`
+  font-size: 0.75rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+`;
+
+function formatTokens(count: number): string {
+  return count >= 10000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+}
+
+function formatCost(usd: number): string {
+  return usd === 0 ? '$0' : usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+}
+
+export function AIUsagePanel() {
+  const records = useAIUsageStore((s) => s.records);
+  const budgets = useAIUsageStore((s) => s.budgets);
+  const setBudget = useAIUsageStore((s) => s.setBudget);
+  const clearRecords = useAIUsageStore((s) => s.clearRecords);
+  const { t } = useTranslation();
+  const [rangeDays, setRangeDays] = useState<1 | 7>(1);
+  const [showBudgets, setShowBudgets] = useState(false);
+  const [bridgeUsage, setBridgeUsage] = useState<BridgeAIUsage | null>(null);
+  const [bridgeError, setBridgeError] = useState<string | null>(null);
+
+  const today = getDayKey();
+  const summaries = useMemo(
+    () => summarizeAIUsage(records, addDaysToKey(today, 1 - rangeDays), today),
+    [records, rangeDays, today]
+  );
+
+  const handleBudgetChange = (feature: AIFeature, key: keyof AIFeatureBudget, raw: string) => {
+    const next: AIFeatureBudget = { ...budgets[feature] };
+    const value = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(value) || value < 0) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    setBudget(feature, Object.keys(next).length > 0 ? next : null);
+  };
+
+  const handleLoadBridge = async () => {
+    setBridgeError(null);
+    try {
+      setBridgeUsage(await fetchBridgeAIUsage(rangeDays));
+    } catch (error: unknown) {
+      setBridgeError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const total = AI_FEATURES.reduce(
+    (sum, feature) => ({
+      calls: sum.calls + summaries[feature].calls,
+      tokens: sum.tokens + summaries[feature].inputTokens + summaries[feature].outputTokens,
+      cost: sum.cost + summaries[feature].costUsd,
+    }),
+    { calls: 0, tokens: 0, cost: 0 }
+  );
+
+  return (
+    <>
+      <Toolbar>
+        <ButtonGroup>
+          <Button variant={rangeDays === 1 ? 'secondary' : 'ghost'} size="sm" onClick={() => setRangeDays(1)}>
+            {t('ai_usage.range_today')}
+          </Button>
+          <Button variant={rangeDays === 7 ? 'secondary' : 'ghost'} size="sm" onClick={() => setRangeDays(7)}>
+            {t('ai_usage.range_week')}
+          </Button>
+        </ButtonGroup>
+        <ButtonGroup>
+          <Button variant="ghost" size="sm" onClick={() => void handleLoadBridge()}>
+            {t('ai_usage.load_bridge')}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setShowBudgets(!showBudgets)}>
+            {t('ai_usage.edit_budgets')}
+          </Button>
+        </ButtonGroup>
+      </Toolbar>
+
+      <TableWrapper>
+        <Table>
+          <thead>
+            <tr>
+              <th>{t('ai_usage.col_feature')}</th>
+              <th>{t('ai_usage.col_calls')}</th>
+              <th>{t('ai_usage.col_tokens')}</th>
+              <th>{t('ai_usage.col_cost')}</th>
+              <th>{t('ai_usage.col_latency')}</th>
+              {bridgeUsage && <th>{t('ai_usage.col_bridge')}</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {AI_FEATURES.map((feature) => {
+              const summary = summaries[feature];
+              return (
+                <tr key={feature}>
+                  <td>
+                    {t(FEATURE_KEYS[feature])}
+                    {getAIBudgetStatus(feature).exceeded && <> <OverBudget>{t('ai_usage.over_budget')}</OverBudget></>}
+                  </td>
+                  <td>
+                    {summary.calls}
+                    {summary.errors > 0 && <Muted> ({t('ai_usage.errors', { count: summary.errors })})</Muted>}
+                    {summary.skipped > 0 && <Muted> ({t('ai_usage.skipped', { count: summary.skipped })})</Muted>}
+                  </td>
+                  <td>{formatTokens(summary.inputTokens)} / {formatTokens(summary.outputTokens)}</td>
+                  <td>{formatCost(summary.costUsd)}</td>
+                  <td>{summary.calls > 0 ? `${summary.avgLatencyMs} ms` : '—'}</td>
+                  {bridgeUsage && <td>{bridgeUsage.features[feature]?.calls ?? 0}</td>}
+                </tr>
+              );
+            })}
+          </tbody>
+        </Table>
+      </TableWrapper>
+      <Note>
+        {t('ai_usage.total', { calls: total.calls, tokens: formatTokens(total.tokens), cost: formatCost(total.cost) })}
+        {bridgeError && <> · {t('ai_usage.bridge_error', { error: bridgeError })}</>}
+      </Note>
+
+      {showBudgets && (
+        <>
+          <Note>{t('ai_usage.budget_hint')}</Note>
+          <BudgetGrid>
+            <span />
+            {BUDGET_FIELDS.map((field) => <span key={field.key}>{t(field.label)}</span>)}
+            {AI_FEATURES.map((feature) => (
+              <BudgetRow
+                key={feature}
+                label={t(FEATURE_KEYS[feature])}
+                budget={budgets[feature]}
+                onChange={(key, raw) => handleBudgetChange(feature, key, raw)}
+              />
+            ))}
+          </BudgetGrid>
+          <Toolbar>
+            <span />
+            <Button variant="ghost" size="sm" onClick={clearRecords}>{t('ai_usage.clear')}</Button>
+          </Toolbar>
+        </>
+      )}
+    </>
+  );
+}
+
+function BudgetRow({ label, budget, onChange }: {
+  label: string;
+  budget?: AIFeatureBudget;
+  onChange: (key: keyof AIFeatureBudget, raw: string) => void;
+}) {
+  const { t } = useTranslation();
+  return (
+    <>
+      <span>{label}</span>
+      {BUDGET_FIELDS.map((field) => (
+        <BudgetInput
+          key={field.key}
+          type="number"
+          min={0}
+          step={field.step}
+          placeholder={t('ai_usage.unlimited')}
+          aria-label={`${label} ${t(field.label)}`}
+          value={budget?.[field.key] ?? ''}
+          onChange={(e) => onChange(field.key, e.target.value)}
+        />
+      ))}
+    </>
+  );
+}
+
+export default AIUsagePanel;
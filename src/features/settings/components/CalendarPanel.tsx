@@ -0,0 +1,164 @@
+/**
+ * CalendarPanel Component
+ * Exports deadlines and recurring tasks as an .ics file, imports .ics events
+ * as tasks, and toggles the bridge subscription feed
+ */
+
+import { useState } from 'react';
+import styled from 'styled-components';
+import { Button, Input } from '../../../components/ui';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { useUIStore } from '../../../stores/ui-store';
+import {
+  applyCalendarImport,
+  exportCalendarFile,
+  getCalendarFeedUrl,
+  readCalendarFile,
+} from '../../../services/calendar/calendar-feed';
+import type { CalendarImportPlan } from '../../../services/calendar/ics';
+
+interface CalendarPanelProps {
+  onMessage: (message: { type: 'success' | 'error'; text: string }) => void;
+}
+
+const ButtonRow = styled.div`
+  display: flex;
+  gap: 12px;
+`;
+
+const PreviewBox = styled.div`
+  margin-top: 12px;
+  padding: 12px;
+  background: ${({ theme }) => theme.colors.bg.tertiary};
+  border-radius: 8px;
+  font-size: 0.85rem;
+  color: ${({ theme }) => theme.colors.text.primary};
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`;
+
+const PreviewList = styled.ul`
+  margin: 0;
+  padding-left: 18px;
+  max-height: 140px;
+  overflow-y: auto;
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+`;
+
+const FeedRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 12px;
+  margin-top: 16px;
+  padding: 12px;
+  background: ${({ theme }) => theme.colors.bg.tertiary};
+  border-radius: 8px;
+  font-size: 0.85rem;
+  color: ${({ theme }) => theme.colors.text.primary};
+`;
+
+const FeedUrl = styled.div`
+  margin-top: 8px;
+  font-size: 0.75rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+`;
+
+export function CalendarPanel({ onMessage }: CalendarPanelProps) {
+  const [plan, setPlan] = useState<CalendarImportPlan | null>(null);
+  const [busy, setBusy] = useState(false);
+  const feedEnabled = useUIStore((s) => s.calendarFeedEnabled);
+  const setFeedEnabled = useUIStore((s) => s.setCalendarFeedEnabled);
+  const { t } = useTranslation();
+
+  const handleExport = () => {
+    exportCalendarFile();
+    onMessage({ type: 'success', text: t('data.calendar_export_success') });
+  };
+
+  const handleRead = async () => {
+    try {
+      setPlan(await readCalendarFile());
+    } catch (err) {
+      if ((err as Error).message !== t('data.import_cancelled')) {
+        onMessage({ type: 'error', text: t('data.calendar_import_error', { error: (err as Error).message }) });
+      }
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!plan) return;
+    setBusy(true);
+    try {
+      const result = await applyCalendarImport(plan);
+      onMessage(result.success
+        ? { type: 'success', text: t('data.calendar_import_success', { count: result.created }) }
+        : { type: 'error', text: t('data.calendar_import_empty') });
+      setPlan(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <ButtonRow>
+        <Button variant="primary" onClick={handleExport}>
+          📅 {t('data.calendar_export')}
+        </Button>
+        <Button variant="secondary" onClick={handleRead} disabled={busy}>
+          📥 {t('data.calendar_import')}
+        </Button>
+      </ButtonRow>
+
+      {plan && (
+        <PreviewBox>
+          <span>
+            {t('data.calendar_import_preview', {
+              count: plan.tasks.length,
+              duplicate: plan.skipped.duplicate,
+              recurring: plan.skipped.recurring,
+              completed: plan.skipped.completed,
+              noDate: plan.skipped.no_date,
+            })}
+          </span>
+          {plan.tasks.length > 0 && (
+            <PreviewList>
+              {plan.tasks.map((task, index) => (
+                <li key={`${task.name}-${index}`}>{task.deadline} · {task.name}</li>
+              ))}
+            </PreviewList>
+          )}
+          <ButtonRow>
+            <Button variant="primary" size="sm" onClick={handleConfirm} disabled={busy || plan.tasks.length === 0}>
+              {t('data.calendar_import_confirm', { count: plan.tasks.length })}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setPlan(null)} disabled={busy}>
+              {t('common.cancel')}
+            </Button>
+          </ButtonRow>
+        </PreviewBox>
+      )}
+
+      <FeedRow>
+        <span>{t(feedEnabled ? 'data.calendar_feed_on' : 'data.calendar_feed_off')}</span>
+        <Button variant={feedEnabled ? 'ghost' : 'secondary'} size="sm" onClick={() => setFeedEnabled(!feedEnabled)}>
+          {feedEnabled ? t('data.calendar_feed_disable') : `🔗 ${t('data.calendar_feed_enable')}`}
+        </Button>
+      </FeedRow>
+      {feedEnabled && (
+        <FeedUrl>
+          <span>{t('data.calendar_feed_url')}</span>
+          <Input value={getCalendarFeedUrl()} readOnly onFocus={(e) => e.target.select()} />
+        </FeedUrl>
+      )}
+    </>
+  );
+}
+
+export default CalendarPanel;
@@ -3,7 +3,7 @@
  * Modal for data export, import, and backup management
  */
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import styled from 'styled-components';
 import { Modal, Button } from '../../../components/ui';
 import { useGameStore } from '../../../stores';
@@ -16,6 +16,11 @@ import {
   getStorageSize,
   formatBytes,
 } from '../../../services/data-export';
+import { SnapshotPanel } from './SnapshotPanel';
+import { SyncPanel } from './SyncPanel';
+import { VaultPanel } from './VaultPanel';
+import { CalendarPanel } from './CalendarPanel';
+import { MergePreviewPanel } from './MergePreviewPanel';
 
 interface DataManagementModalProps {
   isOpen: boolean;
@@ -175,6 +180,7 @@ export function DataManagementModal({
     text: string;
   } | null>(null);
   const [confirmImport, setConfirmImport] = useState(false);
+  const [mergeMode, setMergeMode] = useState(false);
   const [pendingData, setPendingData] = useState<unknown>(null);
 
   const exportData = useGameStore((s) => s.exportData);
@@ -184,7 +190,12 @@ export function DataManagementModal({
 
   const data = exportData();
   const stats = getDataStats(data);
-  const storageSize = getStorageSize();
+  const [storageSize, setStorageSize] = useState(0);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getStorageSize().then(setStorageSize).catch(() => setStorageSize(0));
+  }, [isOpen]);
 
   const handleExport = () => {
     try {
@@ -231,10 +242,22 @@ export function DataManagementModal({
 
   const handleConfirmImport = () => {
     if (pendingData) {
-      loadFromJSON(pendingData as Parameters<typeof loadFromJSON>[0]);
-      setMessage({ type: 'success', text: t('data.import_success') });
+      const result = loadFromJSON(pendingData as Parameters<typeof loadFromJSON>[0]);
       setConfirmImport(false);
       setPendingData(null);
+      if (!result.success) {
+        setMessage({
+          type: 'error',
+          text: result.reason === 'newer_schema' ? t('data.import_newer_schema') : t('data.import_error'),
+        });
+        return;
+      }
+
+      const migrationCount = result.appliedMigrations?.length || 0;
+      setMessage({
+        type: 'success',
+        text: migrationCount > 0 ? t('data.import_migrated', { count: migrationCount }) : t('data.import_success'),
+      });
 
       // Reload after 2 seconds
       setTimeout(() => {
@@ -245,9 +268,20 @@ export function DataManagementModal({
 
   const handleCancelImport = () => {
     setConfirmImport(false);
+    setMergeMode(false);
     setPendingData(null);
   };
 
+  const handleMergeDone = (result: { type: 'success' | 'error'; text: string }) => {
+    setMessage(result);
+    handleCancelImport();
+    if (result.type === 'success') {
+      setTimeout(() => {
+        window.location.reload();
+      }, 2000);
+    }
+  };
+
   const handleReset = () => {
     if (
       window.confirm(
@@ -340,7 +374,12 @@ export function DataManagementModal({
         </Section>
 
         {/* Confirm Import Dialog */}
-        {confirmImport && (
+        {confirmImport && mergeMode && (
+          <Section>
+            <MergePreviewPanel data={pendingData} onCancel={handleCancelImport} onDone={handleMergeDone} />
+          </Section>
+        )}
+        {confirmImport && !mergeMode && (
           <Section>
             <WarningBox>
               <WarningTitle>{t('data.confirm_import_title')}</WarningTitle>
@@ -351,6 +390,9 @@ export function DataManagementModal({
                 <Button variant="ghost" onClick={handleCancelImport}>
                   {t('common.cancel')}
                 </Button>
+                <Button variant="secondary" onClick={() => setMergeMode(true)}>
+                  {t('data.merge_import')}
+                </Button>
                 <Button variant="danger" onClick={handleConfirmImport}>
                   {t('data.confirm_import_btn')}
                 </Button>
@@ -359,6 +401,34 @@ export function DataManagementModal({
           </Section>
         )}
 
+        {/* Obsidian Section */}
+        <Section>
+          <SectionTitle>{t('data.vault')}</SectionTitle>
+          <WarningText>{t('data.vault_desc')}</WarningText>
+          <VaultPanel onMessage={setMessage} />
+        </Section>
+
+        {/* Calendar Section */}
+        <Section>
+          <SectionTitle>{t('data.calendar')}</SectionTitle>
+          <WarningText>{t('data.calendar_desc')}</WarningText>
+          <CalendarPanel onMessage={setMessage} />
+        </Section>
+
+        {/* Snapshots Section */}
+        <Section>
+          <SectionTitle>{t('data.snapshots')}</SectionTitle>
+          <WarningText>{t('data.snapshots_desc')}</WarningText>
+          <SnapshotPanel isOpen={isOpen} onMessage={setMessage} />
+        </Section>
+
+        {/* Sync Section */}
+        <Section>
+          <SectionTitle>{t('data.sync')}</SectionTitle>
+          <WarningText>{t('data.sync_desc')}</WarningText>
+          <SyncPanel />
+        </Section>
+
         {/* Reset Section */}
         <Section>
           <SectionTitle>{t('data.danger_zone')}</SectionTitle>
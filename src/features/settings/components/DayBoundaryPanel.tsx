@@ -0,0 +1,108 @@
+/**
+ * DayBoundaryPanel Component
+ * When a new day starts and which time zone decides it
+ */
+
+import { useState } from 'react';
+import styled from 'styled-components';
+import { Button, Input, Select } from '../../../components/ui';
+import { useGameStore } from '../../../stores/game-store';
+import { getDayKey, getDeviceTimeZone } from '../../../lib/calendar-day';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import type { TranslationKey } from '../../../lib/i18n/types';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const Row = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
+  flex-wrap: wrap;
+`;
+
+const Label = styled.label`
+  font-size: 0.95rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+`;
+
+const Note = styled.div<{ $warning?: boolean }>`
+  font-size: 0.75rem;
+  color: ${({ theme, $warning }) => ($warning ? theme.colors.status.danger.text : theme.colors.text.tertiary)};
+`;
+
+function listTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [];
+}
+
+export function DayBoundaryPanel() {
+  const calendarSettings = useGameStore((s) => s.calendarSettings);
+  const updateCalendarSettings = useGameStore((s) => s.updateCalendarSettings);
+  const { t } = useTranslation();
+
+  const deviceZone = getDeviceTimeZone();
+  const [zoneDraft, setZoneDraft] = useState(calendarSettings.timeZone || deviceZone);
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = (updates: Parameters<typeof updateCalendarSettings>[0]) => {
+    const result = updateCalendarSettings(updates);
+    setError(result.success ? null : t(`calendar_day.reason.${result.reason}` as TranslationKey));
+  };
+
+  const pinned = calendarSettings.timeZone;
+
+  return (
+    <>
+      <Row>
+        <Label htmlFor="settings-day-start">{t('calendar_day.start_hour')}</Label>
+        <Select
+          id="settings-day-start"
+          value={calendarSettings.dayStartHour}
+          onChange={(e) => apply({ dayStartHour: Number(e.target.value) })}
+        >
+          {HOURS.map((hour) => (
+            <option key={hour} value={hour}>{`${String(hour).padStart(2, '0')}:00`}</option>
+          ))}
+        </Select>
+      </Row>
+      <Note>{t('calendar_day.start_hour_hint')}</Note>
+
+      <Row>
+        <Label>
+          <input
+            type="checkbox"
+            checked={!!pinned}
+            onChange={(e) => apply({ timeZone: e.target.checked ? zoneDraft.trim() || deviceZone : null })}
+          />
+          {' '}{t('calendar_day.pin_time_zone')}
+        </Label>
+        {pinned && (
+          <Row>
+            <Input
+              fullWidth={false}
+              list="settings-time-zones"
+              value={zoneDraft}
+              onChange={(e) => setZoneDraft(e.target.value)}
+              aria-label={t('calendar_day.time_zone')}
+            />
+            <datalist id="settings-time-zones">
+              {listTimeZones().map((zone) => <option key={zone} value={zone} />)}
+            </datalist>
+            <Button size="sm" variant="secondary" disabled={zoneDraft.trim() === pinned} onClick={() => apply({ timeZone: zoneDraft.trim() })}>
+              {t('calendar_day.save_time_zone')}
+            </Button>
+          </Row>
+        )}
+      </Row>
+      <Note>{t('calendar_day.device_zone', { zone: deviceZone })}</Note>
+      {pinned && pinned !== deviceZone && (
+        <Note $warning>{t('calendar_day.zone_mismatch', { pinned, device: deviceZone })}</Note>
+      )}
+      <Note>{t('calendar_day.today', { date: getDayKey() })}</Note>
+      {error && <Note $warning>{error}</Note>}
+    </>
+  );
+}
+
+export default DayBoundaryPanel;
@@ -0,0 +1,351 @@
+/**
+ * EconomyPanel Component
+ * Edit the reward economy rules and period caps, and preview a draft against recent history
+ */
+
+import { Fragment, useState } from 'react';
+import styled from 'styled-components';
+import { Button, Input, Select } from '../../../components/ui';
+import { useGameStore } from '../../../stores/game-store';
+import { DEFAULT_PROGRESSION_CONFIG } from '../../../stores/game-store-helpers';
+import { ECONOMY_SOURCES, SIMULATION_DAYS, simulateEconomy, type EconomySimulation } from '../../../lib/economy';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import type { TranslationKey } from '../../../lib/i18n/types';
+import type { ProgressionConfig } from '../../../types/game-data';
+
+type EconomyRules = Pick<ProgressionConfig, 'economy' | 'periodCaps'>;
+
+interface FieldRow {
+  label: TranslationKey;
+  /** Path into the rules; receives the column key in column groups */
+  path: (column: string) => string[];
+}
+
+interface FieldGroup {
+  id: string;
+  title: TranslationKey;
+  columns?: Array<{ key: string; label: TranslationKey }>;
+  rows: FieldRow[];
+  hint?: TranslationKey;
+}
+
+const field = (label: TranslationKey, ...path: string[]): FieldRow => ({ label, path: () => path });
+const column = (label: TranslationKey, ...path: string[]): FieldRow => ({ label, path: (key) => [...path, key] });
+
+const FIELD_GROUPS: FieldGroup[] = [
+  {
+    id: 'task',
+    title: 'economy.group.task',
+    rows: [
+      field('economy.field.minutes_per_energy', 'economy', 'task', 'minutesPerEnergy'),
+      field('economy.field.pomodoro_minutes', 'economy', 'task', 'pomodoroMinutes'),
+      field('economy.field.pomodoro_energy', 'economy', 'task', 'pomodoroEnergy'),
+      field('economy.field.base_xp', 'economy', 'task', 'baseXp'),
+      field('economy.field.max_xp', 'economy', 'task', 'maxXp'),
+      field('economy.field.review_xp_bonus', 'economy', 'task', 'reviewXpBonus'),
+      field('economy.field.primary_skill_share', 'economy', 'task', 'primarySkillShare'),
+      field('economy.field.secondary_skill_share', 'economy', 'task', 'secondarySkillShare'),
+      field('economy.field.attribute_scale', 'economy', 'task', 'attributeScale'),
+    ],
+  },
+  {
+    id: 'task_types',
+    title: 'economy.group.task_types',
+    columns: [
+      { key: 'creative', label: 'task.type_creative' },
+      { key: 'tax', label: 'task.type_tax' },
+      { key: 'maintenance', label: 'task.type_maintenance' },
+    ],
+    rows: [
+      column('economy.field.energy_multiplier', 'economy', 'task', 'energyMultiplier'),
+      column('economy.field.minutes_multiplier', 'economy', 'task', 'minutesMultiplier'),
+      column('economy.field.gold_coef', 'economy', 'task', 'goldTaskTypeCoef'),
+    ],
+  },
+  {
+    id: 'effort',
+    title: 'economy.group.effort',
+    columns: [
+      { key: 'light', label: 'task.effort.light_label' },
+      { key: 'medium', label: 'task.effort.medium_label' },
+      { key: 'heavy', label: 'task.effort.heavy_label' },
+    ],
+    rows: (['minutes', 'energy', 'gold', 'xpCoef'] as const).map((key) => ({
+      label: key === 'xpCoef' ? 'economy.field.xp_coef' : `economy.field.${key}` as const,
+      path: (effort: string) => ['economy', 'task', 'effort', effort, key],
+    })),
+  },
+  {
+    id: 'importance',
+    title: 'economy.group.importance',
+    columns: [
+      { key: 'low', label: 'quest.importance.low' },
+      { key: 'medium', label: 'quest.importance.medium' },
+      { key: 'high', label: 'quest.importance.high' },
+    ],
+    rows: [
+      column('economy.field.gold_coef', 'economy', 'task', 'goldImportanceCoef'),
+      column('economy.field.xp_coef', 'economy', 'task', 'xpImportanceCoef'),
+    ],
+  },
+  {
+    id: 'habit',
+    title: 'economy.group.habit',
+    rows: [
+      field('economy.field.energy_per_hour', 'economy', 'habit', 'energyPerHour'),
+      field('economy.field.xp_per_hour', 'economy', 'habit', 'xpPerHour'),
+      field('economy.field.gold_per_hour', 'economy', 'habit', 'goldPerHour'),
+    ],
+  },
+  {
+    id: 'flashcard',
+    title: 'economy.group.flashcard',
+    rows: [
+      field('economy.field.easy', 'economy', 'flashcard', 'easy'),
+      field('economy.field.good', 'economy', 'flashcard', 'good'),
+      field('economy.field.hard', 'economy', 'flashcard', 'hard'),
+      field('economy.field.session_bonus', 'economy', 'flashcard', 'sessionBonus'),
+    ],
+  },
+  {
+    id: 'pomodoro',
+    title: 'economy.group.pomodoro',
+    rows: [
+      field('economy.field.xp', 'economy', 'pomodoro', 'xp'),
+      field('economy.field.gold_reward', 'economy', 'pomodoro', 'gold'),
+    ],
+  },
+  {
+    id: 'milestone',
+    title: 'economy.group.milestone',
+    rows: [
+      field('economy.field.quest_multiplier', 'economy', 'milestone', 'questXpMultiplier'),
+      field('economy.field.chapter_multiplier', 'economy', 'milestone', 'chapterXpMultiplier'),
+      field('economy.field.season_multiplier', 'economy', 'milestone', 'seasonXpMultiplier'),
+    ],
+  },
+  {
+    id: 'caps',
+    title: 'economy.group.caps',
+    hint: 'economy.caps_hint',
+    rows: [
+      field('economy.field.daily_xp_cap', 'periodCaps', 'dailyXpCap'),
+      field('economy.field.daily_gold_cap', 'periodCaps', 'dailyGoldCap'),
+      field('economy.field.daily_skill_xp_cap', 'periodCaps', 'dailySkillXpCap'),
+      field('economy.field.weekly_skill_xp_cap', 'periodCaps', 'weeklySkillXpCap'),
+      field('economy.field.daily_attr_cap', 'periodCaps', 'dailyAttrCap'),
+    ],
+  },
+];
+
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  flex-wrap: wrap;
+`;
+
+const Label = styled.span`
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+`;
+
+const Note = styled.div<{ $warning?: boolean }>`
+  font-size: 0.75rem;
+  color: ${({ theme, $warning }) => ($warning ? theme.colors.status.danger.text : theme.colors.text.tertiary)};
+`;
+
+const Grid = styled.div<{ $columns: number }>`
+  display: grid;
+  grid-template-columns: minmax(0, 1fr) repeat(${({ $columns }) => $columns}, 80px);
+  gap: 6px 8px;
+  align-items: center;
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 0.75rem;
+  color: ${({ theme }) => theme.colors.text.primary};
+
+  th, td {
+    padding: 4px 6px;
+    text-align: right;
+    border-bottom: 1px solid ${({ theme }) => theme.colors.border.secondary};
+  }
+
+  th:first-child, td:first-child {
+    text-align: left;
+  }
+
+  th {
+    color: ${({ theme }) => theme.colors.text.secondary};
+    font-weight: 500;
+  }
+`;
+
+const Changed = styled.span<{ $up: boolean }>`
+  color: ${({ theme, $up }) => ($up ? theme.colors.status.success.text : theme.colors.status.danger.text)};
+`;
+
+function rulesOf(config: ProgressionConfig): EconomyRules {
+  return { economy: config.economy, periodCaps: config.periodCaps };
+}
+
+function readPath(rules: EconomyRules, path: string[]): number {
+  const value = path.reduce<unknown>((node, key) => (node as Record<string, unknown>)?.[key], rules);
+  return typeof value === 'number' ? value : 0;
+}
+
+function writePath(rules: EconomyRules, path: string[], value: number): EconomyRules {
+  const next = structuredClone(rules);
+  const parent = path.slice(0, -1).reduce<Record<string, unknown>>((node, key) => node[key] as Record<string, unknown>, next as unknown as Record<string, unknown>);
+  parent[path[path.length - 1]] = value;
+  return next;
+}
+
+function Compare({ current, draft }: { current: number; draft: number }) {
+  const format = (value: number) => Math.round(value).toLocaleString();
+  if (Math.round(current) === Math.round(draft)) return <>{format(current)}</>;
+  return <>{format(current)} → <Changed $up={draft > current}>{format(draft)}</Changed></>;
+}
+
+export function EconomyPanel() {
+  const progressionConfig = useGameStore((s) => s.progressionConfig);
+  const updateProgressionConfig = useGameStore((s) => s.updateProgressionConfig);
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<EconomyRules>(() => rulesOf(progressionConfig));
+  const [groupId, setGroupId] = useState(FIELD_GROUPS[0].id);
+  const [simulation, setSimulation] = useState<{ current: EconomySimulation; draft: EconomySimulation; rules: EconomyRules } | null>(null);
+
+  const group = FIELD_GROUPS.find((candidate) => candidate.id === groupId) || FIELD_GROUPS[0];
+  const columns = group.columns || [{ key: '', label: group.title }];
+  const saved = rulesOf(progressionConfig);
+  const changed = JSON.stringify(draft) !== JSON.stringify(saved);
+
+  const handleChange = (path: string[], raw: string) => {
+    const parsed = Number(raw);
+    if (!Number.isFinite(parsed) || parsed < 0) return;
+    setDraft((current) => writePath(current, path, parsed));
+  };
+
+  const handleSimulate = () => {
+    const data = useGameStore.getState();
+    setSimulation({
+      current: simulateEconomy(data, progressionConfig),
+      draft: simulateEconomy(data, { ...progressionConfig, ...draft }),
+      rules: draft,
+    });
+  };
+
+  return (
+    <>
+      <Row>
+        <Label>{t('economy.group')}</Label>
+        <Select value={group.id} onChange={(e) => setGroupId(e.target.value)} aria-label={t('economy.group')}>
+          {FIELD_GROUPS.map((candidate) => <option key={candidate.id} value={candidate.id}>{t(candidate.title)}</option>)}
+        </Select>
+      </Row>
+      {group.hint && <Note>{t(group.hint)}</Note>}
+
+      <Grid $columns={columns.length}>
+        {group.columns && (
+          <>
+            <span />
+            {group.columns.map((col) => <Label key={col.key}>{t(col.label)}</Label>)}
+          </>
+        )}
+        {group.rows.map((row) => (
+          <Fragment key={row.label}>
+            <Label>{t(row.label)}</Label>
+            {columns.map((col) => {
+              const path = row.path(col.key);
+              return (
+                <Input
+                  key={col.key}
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={readPath(draft, path)}
+                  onChange={(e) => handleChange(path, e.target.value)}
+                  aria-label={group.columns ? `${t(row.label)} · ${t(col.label)}` : t(row.label)}
+                />
+              );
+            })}
+          </Fragment>
+        ))}
+      </Grid>
+
+      <Row>
+        <Button size="sm" disabled={!changed} onClick={() => updateProgressionConfig(draft)}>{t('economy.save')}</Button>
+        <Button variant="ghost" size="sm" disabled={!changed} onClick={() => setDraft(saved)}>{t('economy.discard')}</Button>
+        <Button variant="ghost" size="sm" onClick={() => setDraft(rulesOf(DEFAULT_PROGRESSION_CONFIG))}>{t('economy.defaults')}</Button>
+        <Button variant="secondary" size="sm" onClick={handleSimulate}>{t('economy.simulate', { days: SIMULATION_DAYS })}</Button>
+      </Row>
+
+      {simulation && (
+        <>
+          <Note>{t('economy.simulation_range', { from: simulation.current.from, to: simulation.current.to })}</Note>
+          {simulation.rules !== draft && <Note $warning>{t('economy.simulation_stale')}</Note>}
+          <Table>
+            <thead>
+              <tr>
+                <th>{t('economy.column.source')}</th>
+                <th>{t('economy.column.count')}</th>
+                <th>{t('economy.column.xp')}</th>
+                <th>{t('economy.column.gold')}</th>
+                <th>{t('economy.column.energy')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...ECONOMY_SOURCES.map((source) => ({
+                label: t(`economy.source.${source}`),
+                current: simulation.current.sources[source],
+                draft: simulation.draft.sources[source],
+              })), {
+                label: t('economy.source.total'),
+                current: simulation.current.totals,
+                draft: simulation.draft.totals,
+              }].map((row) => (
+                <tr key={row.label}>
+                  <td>{row.label}</td>
+                  <td>{row.current.count}</td>
+                  <td><Compare current={row.current.xp} draft={row.draft.xp} /></td>
+                  <td><Compare current={row.current.gold} draft={row.draft.gold} /></td>
+                  <td><Compare current={row.current.energy} draft={row.draft.energy} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+          <Note>
+            {t('economy.xp_gold_cut', {
+              currentXp: simulation.current.cut.xp,
+              draftXp: simulation.draft.cut.xp,
+              currentGold: simulation.current.cut.gold,
+              draftGold: simulation.draft.cut.gold,
+            })}
+          </Note>
+          <Note>
+            {t('economy.skill_xp', {
+              current: simulation.current.totals.skillXp,
+              draft: simulation.draft.totals.skillXp,
+              currentCut: simulation.current.cut.skillXp,
+              draftCut: simulation.draft.cut.skillXp,
+            })}
+          </Note>
+          <Note>
+            {t('economy.attributes', {
+              current: simulation.current.totals.attributes,
+              draft: simulation.draft.totals.attributes,
+              currentCut: simulation.current.cut.attributes,
+              draftCut: simulation.draft.cut.attributes,
+            })}
+          </Note>
+          <Note>{t('economy.replay_note')}</Note>
+        </>
+      )}
+    </>
+  );
+}
+
+export default EconomyPanel;
@@ -0,0 +1,254 @@
+/**
+ * MemoryPanel Component
+ * Lists what the AI personas remember about the user, with edit and delete
+ */
+
+import { useState } from 'react';
+import styled from 'styled-components';
+import { Button, Input, Select, Textarea } from '../../../components/ui';
+import { useGameStore } from '../../../stores';
+import {
+  addMemoryFact,
+  deleteMemoryFact,
+  deleteMemorySummary,
+  editMemoryFact,
+  editMemorySummary,
+  refreshMemories,
+} from '../../../services/memory-service';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import type { TranslationKey } from '../../../lib/i18n/types';
+import type { EventSummary, MemoryFact, MemoryFactKind } from '../../../types/event';
+
+const KIND_KEYS: Record<MemoryFactKind, TranslationKey> = {
+  pattern: 'memory.kind_pattern',
+  blocker: 'memory.kind_blocker',
+  preference: 'memory.kind_preference',
+  strength: 'memory.kind_strength',
+};
+
+const HeaderRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 12px;
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+`;
+
+const GroupTitle = styled.div`
+  font-size: 0.85rem;
+  font-weight: 600;
+  color: ${({ theme }) => theme.colors.text.secondary};
+`;
+
+const List = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  max-height: 260px;
+  overflow-y: auto;
+`;
+
+const Item = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  padding: 8px 10px;
+  background: ${({ theme }) => theme.colors.bg.tertiary};
+  border-radius: 8px;
+  font-size: 0.85rem;
+  color: ${({ theme }) => theme.colors.text.primary};
+`;
+
+const ItemRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: flex-start;
+  gap: 8px;
+`;
+
+const Meta = styled.span`
+  font-size: 0.75rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+  white-space: nowrap;
+`;
+
+const Actions = styled.div`
+  display: flex;
+  gap: 4px;
+  flex-shrink: 0;
+`;
+
+const AddRow = styled.div`
+  display: flex;
+  gap: 8px;
+  align-items: center;
+
+  select {
+    width: auto;
+  }
+`;
+
+const Empty = styled.div`
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+`;
+
+function splitLines(value: string): string[] {
+  return value.split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+function FactItem({ fact }: { fact: MemoryFact }) {
+  const { t } = useTranslation();
+  const [editing, setEditing] = useState(false);
+  const [kind, setKind] = useState<MemoryFactKind>(fact.kind);
+  const [text, setText] = useState(fact.text);
+
+  const save = () => {
+    if (!text.trim()) return;
+    editMemoryFact(fact.id, { kind, text: text.trim() });
+    setEditing(false);
+  };
+
+  if (editing) {
+    return (
+      <Item>
+        <AddRow>
+          <Select value={kind} onChange={(e) => setKind(e.target.value as MemoryFactKind)} aria-label={t('memory.kind')}>
+            {(Object.keys(KIND_KEYS) as MemoryFactKind[]).map((key) => (
+              <option key={key} value={key}>{t(KIND_KEYS[key])}</option>
+            ))}
+          </Select>
+          <Input value={text} onChange={(e) => setText(e.target.value)} aria-label={t('memory.fact_text')} />
+        </AddRow>
+        <Actions>
+          <Button size="sm" onClick={save}>{t('memory.save')}</Button>
+          <Button variant="ghost" size="sm" onClick={() => setEditing(false)}>{t('memory.cancel')}</Button>
+        </Actions>
+      </Item>
+    );
+  }
+
+  return (
+    <Item>
+      <ItemRow>
+        <span>
+          <Meta>[{t(KIND_KEYS[fact.kind])}]</Meta> {fact.text}
+        </span>
+        <Actions>
+          <Button variant="ghost" size="sm" onClick={() => setEditing(true)}>{t('memory.edit')}</Button>
+          <Button variant="ghost" size="sm" onClick={() => deleteMemoryFact(fact.id)}>{t('memory.delete')}</Button>
+        </Actions>
+      </ItemRow>
+      <Meta>
+        {fact.userEdited ? t('memory.user_edited') : t('memory.evidence', { count: fact.evidenceCount })}
+      </Meta>
+    </Item>
+  );
+}
+
+function SummaryItem({ summary }: { summary: EventSummary }) {
+  const { t } = useTranslation();
+  const [editing, setEditing] = useState(false);
+  const [highlights, setHighlights] = useState(summary.highlights.join('\n'));
+  const [patterns, setPatterns] = useState(summary.patterns.join('\n'));
+
+  const save = () => {
+    editMemorySummary(summary.id, { highlights: splitLines(highlights), patterns: splitLines(patterns) });
+    setEditing(false);
+  };
+
+  return (
+    <Item>
+      <ItemRow>
+        <strong>{t('memory.week_of', { start: summary.period.start, end: summary.period.end })}</strong>
+        {!editing && (
+          <Actions>
+            <Button variant="ghost" size="sm" onClick={() => setEditing(true)}>{t('memory.edit')}</Button>
+            <Button variant="ghost" size="sm" onClick={() => deleteMemorySummary(summary.id)}>{t('memory.delete')}</Button>
+          </Actions>
+        )}
+      </ItemRow>
+      {editing ? (
+        <>
+          <Textarea minRows={2} value={highlights} onChange={(e) => setHighlights(e.target.value)} aria-label={t('memory.highlights')} />
+          <Textarea minRows={2} value={patterns} onChange={(e) => setPatterns(e.target.value)} aria-label={t('memory.patterns')} />
+          <Actions>
+            <Button size="sm" onClick={save}>{t('memory.save')}</Button>
+            <Button variant="ghost" size="sm" onClick={() => setEditing(false)}>{t('memory.cancel')}</Button>
+          </Actions>
+        </>
+      ) : (
+        <>
+          {summary.highlights.length > 0 && <span>{summary.highlights.join(' · ')}</span>}
+          {summary.patterns.length > 0 && <Meta>{summary.patterns.join(' · ')}</Meta>}
+        </>
+      )}
+    </Item>
+  );
+}
+
+export function MemoryPanel() {
+  const memories = useGameStore((s) => s.eventMemories);
+  const { t, language } = useTranslation();
+  const [kind, setKind] = useState<MemoryFactKind>('preference');
+  const [text, setText] = useState('');
+
+  const handleAdd = () => {
+    if (!text.trim()) return;
+    addMemoryFact(kind, text.trim());
+    setText('');
+  };
+
+  const lastCondensed = memories.lastCondensedAt
+    ? new Date(memories.lastCondensedAt).toLocaleString(language === 'zh' ? 'zh-CN' : 'en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+    : t('memory.never');
+
+  return (
+    <>
+      <HeaderRow>
+        <span>{t('memory.last_condensed', { time: lastCondensed })}</span>
+        <Button variant="secondary" size="sm" onClick={() => refreshMemories()}>
+          {t('memory.refresh')}
+        </Button>
+      </HeaderRow>
+
+      <GroupTitle>{t('memory.facts_title')}</GroupTitle>
+      <AddRow>
+        <Select value={kind} onChange={(e) => setKind(e.target.value as MemoryFactKind)} aria-label={t('memory.kind')}>
+          {(Object.keys(KIND_KEYS) as MemoryFactKind[]).map((key) => (
+            <option key={key} value={key}>{t(KIND_KEYS[key])}</option>
+          ))}
+        </Select>
+        <Input
+          value={text}
+          placeholder={t('memory.add_placeholder')}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+        />
+        <Button size="sm" disabled={!text.trim()} onClick={handleAdd}>{t('memory.add')}</Button>
+      </AddRow>
+      <List>
+        {memories.facts.length === 0
+          ? <Empty>{t('memory.facts_empty')}</Empty>
+          : memories.facts.map((fact) => <FactItem key={fact.id} fact={fact} />)}
+      </List>
+
+      <GroupTitle>{t('memory.summaries_title')}</GroupTitle>
+      <List>
+        {memories.summaries.length === 0
+          ? <Empty>{t('memory.summaries_empty')}</Empty>
+          : memories.summaries.map((summary) => <SummaryItem key={summary.id} summary={summary} />)}
+      </List>
+    </>
+  );
+}
+
+export default MemoryPanel;
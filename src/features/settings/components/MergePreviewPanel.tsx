@@ -0,0 +1,222 @@
+/**
+ * MergePreviewPanel Component
+ * Shows the adds, updates and conflicts a merge import would make and lets
+ * the user pick a side per conflict before anything is committed
+ */
+
+import { useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { Button } from '../../../components/ui';
+import { useGameStore } from '../../../stores';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { mergeImportedData } from '../../../services/data-merge';
+import type { MergeResolutions, MergeSide } from '../../../services/data-merge';
+
+interface MergePreviewPanelProps {
+  data: unknown;
+  onCancel: () => void;
+  onDone: (message: { type: 'success' | 'error'; text: string }) => void;
+}
+
+const MAX_VISIBLE_CONFLICTS = 30;
+
+const PreviewBox = styled.div`
+  background: ${({ theme }) => theme.colors.bg.tertiary};
+  border-radius: 8px;
+  padding: 12px;
+  margin-top: 12px;
+  font-size: 0.85rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+`;
+
+const PreviewTitle = styled.div`
+  font-weight: 600;
+  color: ${({ theme }) => theme.colors.text.primary};
+  margin-bottom: 8px;
+`;
+
+const ConflictTitle = styled(PreviewTitle)`
+  margin-top: 12px;
+`;
+
+const SummaryTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+
+  th,
+  td {
+    padding: 4px 6px;
+    text-align: right;
+  }
+
+  th:first-child,
+  td:first-child {
+    text-align: left;
+  }
+
+  th {
+    font-weight: 500;
+    color: ${({ theme }) => theme.colors.text.tertiary};
+  }
+`;
+
+const ConflictList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  max-height: 220px;
+  overflow-y: auto;
+  margin-top: 12px;
+`;
+
+const ConflictRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
+`;
+
+const ConflictLabel = styled.div`
+  min-width: 0;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const ConflictMeta = styled.div`
+  font-size: 0.75rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+`;
+
+const SideButtons = styled.div`
+  display: flex;
+  gap: 4px;
+  flex-shrink: 0;
+`;
+
+const PanelButtons = styled.div`
+  display: flex;
+  gap: 12px;
+  margin-top: 16px;
+  justify-content: flex-end;
+`;
+
+export function MergePreviewPanel({ data, onCancel, onDone }: MergePreviewPanelProps) {
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+  const exportData = useGameStore((s) => s.exportData);
+  const mergeFromJSON = useGameStore((s) => s.mergeFromJSON);
+  const { t } = useTranslation();
+
+  const preview = useMemo(
+    () => mergeImportedData(exportData(), data, resolutions),
+    [exportData, data, resolutions]
+  );
+
+  if (!preview.success) {
+    return (
+      <PreviewBox>
+        {preview.reason === 'newer_schema' ? t('data.import_newer_schema') : t('data.import_error')}
+      </PreviewBox>
+    );
+  }
+
+  const { plan } = preview;
+  const formatDate = (iso?: string) => (iso ? iso.slice(0, 10) : '—');
+  const choose = (key: string, side: MergeSide) => {
+    setResolutions((prev) => ({ ...prev, [key]: side }));
+  };
+
+  const handleApply = () => {
+    const result = mergeFromJSON(data as Parameters<typeof mergeFromJSON>[0], resolutions);
+    if (!result.success) {
+      onDone({
+        type: 'error',
+        text: result.reason === 'newer_schema' ? t('data.import_newer_schema') : t('data.import_error'),
+      });
+      return;
+    }
+    onDone({ type: 'success', text: t('data.merge_success') });
+  };
+
+  return (
+    <PreviewBox>
+      <PreviewTitle>{t('data.merge_preview_title')}</PreviewTitle>
+      {plan.collections.length === 0 ? (
+        <div>{t('data.merge_no_changes')}</div>
+      ) : (
+        <SummaryTable>
+          <thead>
+            <tr>
+              <th>{t('data.merge_col_collection')}</th>
+              <th>{t('data.merge_col_added')}</th>
+              <th>{t('data.merge_col_updated')}</th>
+              <th>{t('data.merge_col_conflicts')}</th>
+              <th>{t('data.merge_col_appended')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.collections.map((summary) => (
+              <tr key={summary.collection}>
+                <td>{summary.collection}</td>
+                <td>{summary.added}</td>
+                <td>{summary.updated}</td>
+                <td>{summary.conflicts}</td>
+                <td>{summary.appended}</td>
+              </tr>
+            ))}
+          </tbody>
+        </SummaryTable>
+      )}
+
+      {plan.conflicts.length > 0 && (
+        <>
+          <ConflictTitle>{t('data.merge_conflicts_title')}</ConflictTitle>
+          <ConflictList>
+            {plan.conflicts.slice(0, MAX_VISIBLE_CONFLICTS).map((conflict) => (
+              <ConflictRow key={conflict.key}>
+                <ConflictLabel>
+                  {conflict.label}
+                  <ConflictMeta>
+                    {conflict.collection} · {formatDate(conflict.currentAt)} / {formatDate(conflict.incomingAt)}
+                  </ConflictMeta>
+                </ConflictLabel>
+                <SideButtons>
+                  <Button
+                    size="sm"
+                    variant={conflict.resolved === 'current' ? 'primary' : 'ghost'}
+                    onClick={() => choose(conflict.key, 'current')}
+                  >
+                    {t('data.merge_keep_current')}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={conflict.resolved === 'incoming' ? 'primary' : 'ghost'}
+                    onClick={() => choose(conflict.key, 'incoming')}
+                  >
+                    {t('data.merge_use_incoming')}
+                  </Button>
+                </SideButtons>
+              </ConflictRow>
+            ))}
+          </ConflictList>
+          {plan.conflicts.length > MAX_VISIBLE_CONFLICTS && (
+            <ConflictMeta>
+              {t('data.merge_more_conflicts', { count: plan.conflicts.length - MAX_VISIBLE_CONFLICTS })}
+            </ConflictMeta>
+          )}
+        </>
+      )}
+
+      <PanelButtons>
+        <Button variant="ghost" onClick={onCancel}>
+          {t('common.cancel')}
+        </Button>
+        <Button variant="primary" onClick={handleApply} disabled={plan.collections.length === 0}>
+          {t('data.merge_apply')}
+        </Button>
+      </PanelButtons>
+    </PreviewBox>
+  );
+}
+
+export default MergePreviewPanel;
@@ -0,0 +1,220 @@
+/**
+ * PromptTemplatesPanel Component
+ * Edit prompt templates as new versions and compare the outputs of two versions
+ */
+
+import { useState } from 'react';
+import styled from 'styled-components';
+import { Button, Select, Textarea } from '../../../components/ui';
+import { usePromptStore } from '../../../stores/prompt-store';
+import { PROMPT_TEMPLATES } from '../../../config/prompt-templates';
+import {
+  PROMPT_IDS,
+  builtinVersionId,
+  findUnknownVariables,
+  getActivePromptVersion,
+  getPromptOutputs,
+  getPromptText,
+  listPromptVersions,
+  type PromptVersionInfo,
+} from '../../../lib/ai/prompt-registry';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import type { PromptId, PromptOutputRecord } from '../../../types/ai';
+
+/** Outputs shown per version in the comparison */
+const COMPARE_OUTPUT_LIMIT = 3;
+
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  flex-wrap: wrap;
+`;
+
+const Label = styled.span`
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+  white-space: nowrap;
+`;
+
+const Note = styled.div<{ $warning?: boolean }>`
+  font-size: 0.75rem;
+  color: ${({ theme, $warning }) => ($warning ? theme.colors.status.danger.text : theme.colors.text.tertiary)};
+`;
+
+const CompareGrid = styled.div`
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: 8px;
+`;
+
+const Column = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  min-width: 0;
+`;
+
+const Output = styled.div`
+  padding: 8px 10px;
+  background: ${({ theme }) => theme.colors.bg.tertiary};
+  border-radius: 8px;
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.text.primary};
+  white-space: pre-wrap;
+  word-break: break-word;
+  max-height: 160px;
+  overflow-y: auto;
+`;
+
+const OutputMeta = styled.div`
+  font-size: 0.7rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+  margin-bottom: 4px;
+`;
+
+function versionLabel(version: PromptVersionInfo, activeVersion: string, t: ReturnType<typeof useTranslation>['t']): string {
+  const parts = [version.versionId];
+  if (version.builtin) parts.push(t('prompts.builtin'));
+  if (version.createdAt) parts.push(new Date(version.createdAt).toLocaleDateString());
+  if (version.versionId === activeVersion) parts.push(t('prompts.active'));
+  return parts.join(' · ');
+}
+
+export function PromptTemplatesPanel() {
+  const overrides = usePromptStore((s) => s.overrides);
+  const active = usePromptStore((s) => s.active);
+  const outputs = usePromptStore((s) => s.outputs);
+  const activateVersion = usePromptStore((s) => s.activateVersion);
+  const clearOutputs = usePromptStore((s) => s.clearOutputs);
+  const { t } = useTranslation();
+  const [promptId, setPromptId] = useState<PromptId>(PROMPT_IDS[0]);
+  const [viewedVersion, setViewedVersion] = useState<string | null>(null);
+
+  const versions = listPromptVersions(promptId, overrides);
+  const activeVersion = getActivePromptVersion(promptId, { active, overrides });
+  const shownVersion = viewedVersion && versions.some((v) => v.versionId === viewedVersion) ? viewedVersion : activeVersion;
+  const variables = PROMPT_TEMPLATES[promptId].variables;
+
+  const handlePromptChange = (next: PromptId) => {
+    setPromptId(next);
+    setViewedVersion(null);
+  };
+
+  return (
+    <>
+      <Row>
+        <Select value={promptId} onChange={(e) => handlePromptChange(e.target.value as PromptId)} aria-label={t('prompts.prompt')}>
+          {PROMPT_IDS.map((id) => <option key={id} value={id}>{id}</option>)}
+        </Select>
+      </Row>
+      <Row>
+        <Label>{t('prompts.version')}</Label>
+        <Select value={shownVersion} onChange={(e) => setViewedVersion(e.target.value)} aria-label={t('prompts.version')}>
+          {versions.map((version) => (
+            <option key={version.versionId} value={version.versionId}>{versionLabel(version, activeVersion, t)}</option>
+          ))}
+        </Select>
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={shownVersion === activeVersion}
+          onClick={() => activateVersion(promptId, shownVersion === builtinVersionId(promptId) ? null : shownVersion)}
+        >
+          {t('prompts.use_version')}
+        </Button>
+        <Button variant="ghost" size="sm" disabled={activeVersion === builtinVersionId(promptId)} onClick={() => activateVersion(promptId, null)}>
+          {t('prompts.reset')}
+        </Button>
+      </Row>
+      <Note>
+        {variables.length > 0 ? t('prompts.variables', { list: variables.join(', ') }) : t('prompts.no_variables')}
+        {' · '}
+        {t('prompts.syntax_hint')}
+      </Note>
+
+      <PromptEditor
+        key={`${promptId}:${shownVersion}`}
+        promptId={promptId}
+        initialZh={getPromptText(promptId, shownVersion, 'zh', overrides)}
+        initialEn={getPromptText(promptId, shownVersion, 'en', overrides)}
+        onSaved={setViewedVersion}
+      />
+
+      <Label>{t('prompts.compare')}</Label>
+      <PromptComparison key={promptId} promptId={promptId} versions={versions} activeVersion={activeVersion} outputs={outputs} />
+      <Row>
+        <Button variant="ghost" size="sm" onClick={clearOutputs}>{t('prompts.clear_outputs')}</Button>
+      </Row>
+    </>
+  );
+}
+
+function PromptEditor({ promptId, initialZh, initialEn, onSaved }: {
+  promptId: PromptId;
+  initialZh: string;
+  initialEn: string;
+  onSaved: (versionId: string) => void;
+}) {
+  const saveOverride = usePromptStore((s) => s.saveOverride);
+  const { t } = useTranslation();
+  const [zh, setZh] = useState(initialZh);
+  const [en, setEn] = useState(initialEn);
+
+  const unknown = [...new Set([...findUnknownVariables(promptId, zh), ...findUnknownVariables(promptId, en)])];
+  const changed = zh !== initialZh || en !== initialEn;
+
+  return (
+    <>
+      <Label>{t('prompts.text_zh')}</Label>
+      <Textarea minRows={6} value={zh} onChange={(e) => setZh(e.target.value)} aria-label={t('prompts.text_zh')} />
+      <Label>{t('prompts.text_en')}</Label>
+      <Textarea minRows={6} value={en} onChange={(e) => setEn(e.target.value)} aria-label={t('prompts.text_en')} />
+      {unknown.length > 0 && <Note $warning>{t('prompts.unknown_variables', { list: unknown.join(', ') })}</Note>}
+      <Row>
+        <Button size="sm" disabled={!changed} onClick={() => onSaved(saveOverride(promptId, { zh, en }))}>
+          {t('prompts.save')}
+        </Button>
+      </Row>
+    </>
+  );
+}
+
+function PromptComparison({ promptId, versions, activeVersion, outputs }: {
+  promptId: PromptId;
+  versions: PromptVersionInfo[];
+  activeVersion: string;
+  outputs: PromptOutputRecord[];
+}) {
+  const { t } = useTranslation();
+  const latest = versions[versions.length - 1].versionId;
+  const [left, setLeft] = useState(builtinVersionId(promptId));
+  const [right, setRight] = useState(activeVersion === left ? latest : activeVersion);
+
+  return (
+    <CompareGrid>
+      {[{ value: left, onChange: setLeft }, { value: right, onChange: setRight }].map((side, index) => {
+        const records = getPromptOutputs(outputs, promptId, side.value);
+        return (
+          <Column key={index}>
+            <Select value={side.value} onChange={(e) => side.onChange(e.target.value)} aria-label={t('prompts.version')}>
+              {versions.map((version) => (
+                <option key={version.versionId} value={version.versionId}>{versionLabel(version, activeVersion, t)}</option>
+              ))}
+            </Select>
+            <Note>{t('prompts.outputs_count', { count: records.length })}</Note>
+            {records.length === 0 && <Note>{t('prompts.no_outputs')}</Note>}
+            {records.slice(0, COMPARE_OUTPUT_LIMIT).map((record) => (
+              <Output key={record.id}>
+                <OutputMeta>{new Date(record.at).toLocaleString()} · {record.language}</OutputMeta>
+                {record.output}
+              </Output>
+            ))}
+          </Column>
+        );
+      })}
+    </CompareGrid>
+  );
+}
+
+export default PromptTemplatesPanel;
@@ -3,7 +3,7 @@
  * Centralized settings for Appearance and Data Management
  */
 
-// import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import styled from 'styled-components';
 import { Modal } from '../../../components/ui';
 import { useGameStore, useUIStore } from '../../../stores';
@@ -14,6 +14,11 @@ import {
 } from '../../../services/data-export';
 import type { TranslationKey } from '../../../lib/i18n/types';
 import type { RewardVerb } from '../../../types/task';
+import { MemoryPanel } from './MemoryPanel';
+import { AIUsagePanel } from './AIUsagePanel';
+import { PromptTemplatesPanel } from './PromptTemplatesPanel';
+import { EconomyPanel } from './EconomyPanel';
+import { DayBoundaryPanel } from './DayBoundaryPanel';
 
 interface SettingsModalProps {
     isOpen: boolean;
@@ -109,7 +114,12 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     const { t } = useTranslation();
 
     // Storage stats for Data section preview
-    const storageSize = getStorageSize();
+    const [storageSize, setStorageSize] = useState(0);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        getStorageSize().then(setStorageSize).catch(() => setStorageSize(0));
+    }, [isOpen]);
 
     return (
         <Modal isOpen={isOpen} onClose={onClose} title={t('settings.title')} width="500px">
@@ -145,6 +155,12 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                     </SettingRow>
                 </Section>
 
+                <Section>
+                    <SectionTitle>{t('settings.day_boundary')}</SectionTitle>
+                    <HintText>{t('settings.day_boundary_hint')}</HintText>
+                    <DayBoundaryPanel />
+                </Section>
+
                 <Section>
                     <SectionTitle>{t('settings.reward_pricing')}</SectionTitle>
                     <HintText>{t('settings.reward_pricing_hint')}</HintText>
@@ -169,6 +185,30 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                     ))}
                 </Section>
 
+                <Section>
+                    <SectionTitle>{t('settings.economy')}</SectionTitle>
+                    <HintText>{t('settings.economy_hint')}</HintText>
+                    <EconomyPanel />
+                </Section>
+
+                <Section>
+                    <SectionTitle>{t('settings.ai_memory')}</SectionTitle>
+                    <HintText>{t('settings.ai_memory_hint')}</HintText>
+                    <MemoryPanel />
+                </Section>
+
+                <Section>
+                    <SectionTitle>{t('settings.ai_usage')}</SectionTitle>
+                    <HintText>{t('settings.ai_usage_hint')}</HintText>
+                    <AIUsagePanel />
+                </Section>
+
+                <Section>
+                    <SectionTitle>{t('settings.prompts')}</SectionTitle>
+                    <HintText>{t('settings.prompts_hint')}</HintText>
+                    <PromptTemplatesPanel />
+                </Section>
+
                 {/* Data Section Link/Preview */}
                 <Section>
                     <SectionTitle>{t('settings.data')}</SectionTitle>
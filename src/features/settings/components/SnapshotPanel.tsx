@@ -0,0 +1,263 @@
+/**
+ * SnapshotPanel Component
+ * Lists automatic snapshots, shows a per-collection diff against the
+ * current data and restores a snapshot on confirmation
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { Button } from '../../../components/ui';
+import { useGameStore } from '../../../stores';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import type { TranslationKey } from '../../../lib/i18n/types';
+import { formatBytes } from '../../../services/data-export';
+import {
+  createSnapshot,
+  deleteSnapshot,
+  listSnapshots,
+  loadSnapshot,
+} from '../../../services/storage/snapshots';
+import type { SnapshotMeta, SnapshotReason } from '../../../services/storage/snapshots';
+import { diffGameData } from '../../../services/storage/snapshot-diff';
+import type { GameDataDiff } from '../../../services/storage/snapshot-diff';
+
+interface SnapshotPanelProps {
+  isOpen: boolean;
+  onMessage: (message: { type: 'success' | 'error'; text: string }) => void;
+}
+
+const REASON_KEYS: Record<SnapshotReason, TranslationKey> = {
+  scheduled: 'data.snapshot_reason_scheduled',
+  manual: 'data.snapshot_reason_manual',
+  import: 'data.snapshot_reason_import',
+  reset: 'data.snapshot_reason_reset',
+  orchestration: 'data.snapshot_reason_orchestration',
+  ai_tool: 'data.snapshot_reason_ai_tool',
+};
+
+const SnapshotList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  max-height: 220px;
+  overflow-y: auto;
+  margin-top: 12px;
+`;
+
+const SnapshotRow = styled.button<{ $selected: boolean }>`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
+  padding: 8px 12px;
+  border-radius: 8px;
+  border: 1px solid ${({ theme, $selected }) => ($selected ? theme.colors.accent.purple : 'transparent')};
+  background: ${({ theme }) => theme.colors.bg.tertiary};
+  color: ${({ theme }) => theme.colors.text.primary};
+  font-size: 0.85rem;
+  text-align: left;
+  cursor: pointer;
+`;
+
+const SnapshotMetaText = styled.span`
+  font-size: 0.75rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+`;
+
+const EmptyText = styled.div`
+  font-size: 0.85rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+  margin-top: 12px;
+`;
+
+const DiffBox = styled.div`
+  margin-top: 12px;
+  padding: 12px;
+  border-radius: 8px;
+  background: ${({ theme }) => theme.colors.bg.tertiary};
+  font-size: 0.85rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+`;
+
+const DiffTitle = styled.div`
+  font-weight: 600;
+  color: ${({ theme }) => theme.colors.text.primary};
+  margin-bottom: 8px;
+`;
+
+const DiffRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  gap: 8px;
+  padding: 2px 0;
+`;
+
+const DiffCounts = styled.span`
+  font-family: monospace;
+  white-space: nowrap;
+`;
+
+const DiffSamples = styled.div`
+  font-size: 0.75rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+  margin-bottom: 4px;
+`;
+
+const PanelButtons = styled.div`
+  display: flex;
+  gap: 8px;
+  margin-top: 12px;
+  justify-content: flex-end;
+`;
+
+export function SnapshotPanel({ isOpen, onMessage }: SnapshotPanelProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedData, setSelectedData] = useState<Awaited<ReturnType<typeof loadSnapshot>>>(null);
+  const [diff, setDiff] = useState<GameDataDiff | null>(null);
+  const [confirmRestore, setConfirmRestore] = useState(false);
+
+  const exportData = useGameStore((s) => s.exportData);
+  const loadFromJSON = useGameStore((s) => s.loadFromJSON);
+  const { t, language } = useTranslation();
+
+  const refresh = useCallback(() => {
+    listSnapshots().then(setSnapshots).catch(() => setSnapshots([]));
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refresh]);
+
+  const formatTime = (iso: string) =>
+    new Date(iso).toLocaleString(language === 'zh' ? 'zh-CN' : 'en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const handleSelect = async (id: string) => {
+    setSelectedId(id);
+    setConfirmRestore(false);
+    setDiff(null);
+    try {
+      const data = await loadSnapshot(id);
+      if (!data) throw new Error('missing snapshot');
+      setSelectedData(data);
+      setDiff(diffGameData(exportData(), data));
+    } catch {
+      setSelectedData(null);
+      onMessage({ type: 'error', text: t('data.snapshot_load_error') });
+    }
+  };
+
+  const handleSnapshotNow = async () => {
+    await createSnapshot('manual', exportData());
+    refresh();
+    onMessage({ type: 'success', text: t('data.snapshot_created') });
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) return;
+    await deleteSnapshot(selectedId);
+    setSelectedId(null);
+    setSelectedData(null);
+    setDiff(null);
+    refresh();
+  };
+
+  const handleRestore = () => {
+    if (!selectedData) return;
+    // loadFromJSON snapshots the current state first, so a restore can be undone.
+    const result = loadFromJSON(selectedData);
+    setConfirmRestore(false);
+    if (!result.success) {
+      onMessage({
+        type: 'error',
+        text: result.reason === 'newer_schema' ? t('data.import_newer_schema') : t('data.import_error'),
+      });
+      return;
+    }
+    onMessage({ type: 'success', text: t('data.snapshot_restore_success') });
+    setTimeout(() => {
+      window.location.reload();
+    }, 2000);
+  };
+
+  return (
+    <>
+      <Button variant="secondary" size="sm" onClick={handleSnapshotNow}>
+        📸 {t('data.snapshot_now')}
+      </Button>
+
+      {snapshots.length === 0 ? (
+        <EmptyText>{t('data.snapshot_empty')}</EmptyText>
+      ) : (
+        <SnapshotList>
+          {snapshots.map((snapshot) => (
+            <SnapshotRow
+              key={snapshot.id}
+              type="button"
+              $selected={snapshot.id === selectedId}
+              onClick={() => handleSelect(snapshot.id)}
+            >
+              <span>
+                {formatTime(snapshot.createdAt)} · {t(REASON_KEYS[snapshot.reason])}
+                {snapshot.label ? ` (${snapshot.label})` : ''}
+              </span>
+              <SnapshotMetaText>{formatBytes(snapshot.size)}</SnapshotMetaText>
+            </SnapshotRow>
+          ))}
+        </SnapshotList>
+      )}
+
+      {selectedId && diff && (
+        <DiffBox>
+          <DiffTitle>{t('data.snapshot_diff_title')}</DiffTitle>
+          {diff.collections.length === 0 && diff.changedFields.length === 0 ? (
+            <div>{t('data.snapshot_diff_none')}</div>
+          ) : (
+            <>
+              <DiffSamples>{t('data.snapshot_diff_legend')}</DiffSamples>
+              {diff.collections.map((collection) => (
+                <div key={collection.key}>
+                  <DiffRow>
+                    <span>{collection.key}</span>
+                    <DiffCounts>
+                      +{collection.added} −{collection.removed} ~{collection.changed}
+                    </DiffCounts>
+                  </DiffRow>
+                  {collection.samples.length > 0 && (
+                    <DiffSamples>{collection.samples.join(' · ')}</DiffSamples>
+                  )}
+                </div>
+              ))}
+              {diff.changedFields.length > 0 && (
+                <DiffSamples>
+                  {t('data.snapshot_diff_fields', { fields: diff.changedFields.join(', ') })}
+                </DiffSamples>
+              )}
+            </>
+          )}
+          <PanelButtons>
+            <Button variant="ghost" size="sm" onClick={handleDelete}>
+              {t('data.snapshot_delete')}
+            </Button>
+            {confirmRestore ? (
+              <Button variant="danger" size="sm" onClick={handleRestore}>
+                {t('data.snapshot_restore_confirm')}
+              </Button>
+            ) : (
+              <Button variant="warning" size="sm" onClick={() => setConfirmRestore(true)}>
+                {t('data.snapshot_restore')}
+              </Button>
+            )}
+          </PanelButtons>
+        </DiffBox>
+      )}
+    </>
+  );
+}
+
+export default SnapshotPanel;
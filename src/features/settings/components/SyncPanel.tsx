@@ -0,0 +1,77 @@
+/**
+ * SyncPanel Component
+ * Turns device sync on or off and shows the connection and outbox state
+ */
+
+import styled from 'styled-components';
+import { Button } from '../../../components/ui';
+import { useSyncStore } from '../../../stores/sync-store';
+import type { SyncStatus } from '../../../stores/sync-store';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import type { TranslationKey } from '../../../lib/i18n/types';
+
+const STATUS_KEYS: Record<SyncStatus, TranslationKey> = {
+  disabled: 'data.sync_status_disabled',
+  connecting: 'data.sync_status_connecting',
+  online: 'data.sync_status_online',
+  offline: 'data.sync_status_offline',
+};
+
+const StatusRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 12px;
+  padding: 12px;
+  background: ${({ theme }) => theme.colors.bg.tertiary};
+  border-radius: 8px;
+  font-size: 0.85rem;
+  color: ${({ theme }) => theme.colors.text.primary};
+`;
+
+const StatusDetails = styled.div`
+  margin-top: 8px;
+  font-size: 0.75rem;
+  color: ${({ theme }) => theme.colors.text.tertiary};
+  display: flex;
+  flex-direction: column;
+  gap: 2px;
+`;
+
+export function SyncPanel() {
+  const enabled = useSyncStore((s) => s.enabled);
+  const status = useSyncStore((s) => s.status);
+  const pending = useSyncStore((s) => s.outbox.length);
+  const deviceId = useSyncStore((s) => s.deviceId);
+  const lastSyncedAt = useSyncStore((s) => s.lastSyncedAt);
+  const setEnabled = useSyncStore((s) => s.setEnabled);
+  const { t, language } = useTranslation();
+
+  const formatTime = (iso: string) =>
+    new Date(iso).toLocaleString(language === 'zh' ? 'zh-CN' : 'en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <>
+      <StatusRow>
+        <span>{t(STATUS_KEYS[enabled ? status : 'disabled'])}</span>
+        <Button variant={enabled ? 'ghost' : 'secondary'} size="sm" onClick={() => setEnabled(!enabled)}>
+          {enabled ? t('data.sync_disable') : `🔄 ${t('data.sync_enable')}`}
+        </Button>
+      </StatusRow>
+      {enabled && (
+        <StatusDetails>
+          {pending > 0 && <span>{t('data.sync_pending', { count: pending })}</span>}
+          {lastSyncedAt && <span>{t('data.sync_last_synced', { time: formatTime(lastSyncedAt) })}</span>}
+          <span>{t('data.sync_device', { id: deviceId })}</span>
+        </StatusDetails>
+      )}
+    </>
+  );
+}
+
+export default SyncPanel;
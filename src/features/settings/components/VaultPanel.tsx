@@ -0,0 +1,99 @@
+/**
+ * VaultPanel Component
+ * Exports the goal hierarchy and journals as Markdown notes into the Obsidian
+ * vault, and reads vault edits back in
+ */
+
+import { useState } from 'react';
+import styled from 'styled-components';
+import { Button, Input } from '../../../components/ui';
+import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { DEFAULT_VAULT_FOLDER } from '../../../services/vault/markdown-notes';
+import { exportToVault, importFromVault } from '../../../services/vault/vault-transfer';
+
+interface VaultPanelProps {
+  onMessage: (message: { type: 'success' | 'error'; text: string }) => void;
+}
+
+const FolderRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  margin-bottom: 12px;
+  font-size: 0.85rem;
+  color: ${({ theme }) => theme.colors.text.secondary};
+`;
+
+const ButtonRow = styled.div`
+  display: flex;
+  gap: 12px;
+`;
+
+export function VaultPanel({ onMessage }: VaultPanelProps) {
+  const [folder, setFolder] = useState(DEFAULT_VAULT_FOLDER);
+  const [busy, setBusy] = useState<'export' | 'import' | null>(null);
+  const { t } = useTranslation();
+
+  const targetFolder = folder.trim() || DEFAULT_VAULT_FOLDER;
+
+  const handleExport = async () => {
+    setBusy('export');
+    try {
+      const result = await exportToVault(targetFolder);
+      if (result.reason === 'bridge_unavailable') {
+        onMessage({ type: 'error', text: t('data.vault_bridge_unavailable') });
+      } else if (!result.success) {
+        onMessage({ type: 'error', text: t('data.vault_export_partial', { written: result.written, failed: result.failed.length }) });
+      } else {
+        onMessage({ type: 'success', text: t('data.vault_export_success', { count: result.written, folder: targetFolder }) });
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleImport = async () => {
+    setBusy('import');
+    try {
+      const result = await importFromVault(targetFolder);
+      if (result.reason === 'bridge_unavailable') {
+        onMessage({ type: 'error', text: t('data.vault_bridge_unavailable') });
+        return;
+      }
+      if (result.reason === 'index_not_found') {
+        onMessage({ type: 'error', text: t('data.vault_index_not_found', { folder: targetFolder }) });
+        return;
+      }
+      onMessage({
+        type: result.success ? 'success' : 'error',
+        text: t('data.vault_import_result', {
+          updated: result.updated,
+          created: result.created,
+          missing: result.missing.length,
+          failed: result.failed.length,
+        }),
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <>
+      <FolderRow>
+        <span>{t('data.vault_folder')}</span>
+        <Input value={folder} onChange={(e) => setFolder(e.target.value)} placeholder={DEFAULT_VAULT_FOLDER} />
+      </FolderRow>
+      <ButtonRow>
+        <Button variant="primary" onClick={handleExport} disabled={busy !== null}>
+          📝 {busy === 'export' ? t('data.vault_working') : t('data.vault_export')}
+        </Button>
+        <Button variant="secondary" onClick={handleImport} disabled={busy !== null}>
+          📥 {busy === 'import' ? t('data.vault_working') : t('data.vault_import')}
+        </Button>
+      </ButtonRow>
+    </>
+  );
+}
+
+export default VaultPanel;
@@ -9,6 +9,7 @@ import React, { useState, useRef } from 'react';
 import styled from 'styled-components';
 import type { Flashcard, FlashcardProgress } from '../../../types/flashcard';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { getDayKey } from '../../../lib/calendar-day';
 
 const Overlay = styled.div`
     position: fixed;
@@ -208,7 +209,7 @@ export const ImportExportModal: React.FC<ImportExportModalProps> = ({
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `flashcards-${new Date().toISOString().split('T')[0]}.json`;
+        a.download = `flashcards-${getDayKey()}.json`;
         a.click();
         URL.revokeObjectURL(url);
 
@@ -244,7 +245,7 @@ export const ImportExportModal: React.FC<ImportExportModalProps> = ({
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `flashcards-${new Date().toISOString().split('T')[0]}.md`;
+        a.download = `flashcards-${getDayKey()}.md`;
         a.click();
         URL.revokeObjectURL(url);
 
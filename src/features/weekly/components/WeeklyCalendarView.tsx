@@ -6,6 +6,8 @@
 import { useMemo } from 'react';
 import styled from 'styled-components';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
+import { getDayKey, toDayDate } from '../../../lib/calendar-day';
+import { toDateKey } from '../../../stores/game-store-helpers';
 import type { CustomTask, ArchivedTask, MainQuest } from '../../../types/task';
 
 interface UpcomingChapter {
@@ -252,7 +254,7 @@ const LegendBadge = styled.span<{ $color: string }>`
 
 // Date helpers
 function getMonday(weekOffset: number): Date {
-  const today = new Date();
+  const today = toDayDate();
   const dayOfWeek = today.getDay();
   const mondayOffset = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
 
@@ -268,12 +270,11 @@ function formatDate(date: Date): string {
 }
 
 function formatDateFull(date: Date): string {
-  return date.toISOString().split('T')[0];
+  return toDateKey(date);
 }
 
 function isToday(date: Date): boolean {
-  const today = new Date();
-  return date.toDateString() === today.toDateString();
+  return toDateKey(date) === getDayKey();
 }
 
 const DAYS = [
@@ -319,7 +320,7 @@ export function WeeklyCalendarView({
     const addToMap = (task: CustomTask) => {
       // For completed tasks, use completedAt date
       if (task.completed && task.completedAt) {
-        const completedDate = task.completedAt.split('T')[0];
+        const completedDate = getDayKey(task.completedAt);
         if (!map[completedDate]) map[completedDate] = [];
         map[completedDate].push(task);
       }
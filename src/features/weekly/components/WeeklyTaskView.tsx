@@ -7,6 +7,7 @@ import styled from 'styled-components';
 import type { CustomTask } from '../../../types/task';
 import { useTranslation } from '../../../lib/i18n/useTranslation';
 import type { TranslationKey } from '../../../lib/i18n/types';
+import { toDayDate } from '../../../lib/calendar-day';
 
 interface WeeklyTaskViewProps {
   tasks: CustomTask[];
@@ -152,8 +153,7 @@ function isThisWeek(dateStr: string | undefined): boolean {
 function isPast(dateStr: string | undefined): boolean {
   if (!dateStr) return false;
   const date = new Date(dateStr);
-  const now = new Date();
-  now.setHours(0, 0, 0, 0);
+  const now = toDayDate();
   return date < now;
 }
 
@@ -164,8 +164,7 @@ function formatDeadline(
   t: (key: TranslationKey, params?: Record<string, string | number>) => string
 ): string {
   const date = new Date(dateStr);
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = toDayDate();
 
   const tomorrow = new Date(today);
   tomorrow.setDate(today.getDate() + 1);
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+    applyPeriodCaps,
+    computeHabitReward,
+    computePomodoroReward,
+    computeTaskReward,
+    getPeriodUsage,
+    simulateEconomy,
+} from '../economy';
+import { DEFAULT_PROGRESSION_CONFIG } from '../../stores/game-store-helpers';
+import type { GameEvent } from '../../types/event';
+import type { ProgressionConfig } from '../../types/game-data';
+import type { CustomTask } from '../../types/task';
+
+type RewardTask = Parameters<typeof computeTaskReward>[0];
+
+function task(effort: string | undefined): RewardTask {
+    return { effort: effort as CustomTask['effort'], importance: 'medium', taskType: 'tax', pomodoroCount: 0 };
+}
+
+function reward(effort: string | undefined) {
+    return computeTaskReward(task(effort), { loggedMinutes: 0 }, DEFAULT_PROGRESSION_CONFIG);
+}
+
+describe('computeTaskReward', () => {
+    it('uses the configured effort profile', () => {
+        expect(reward('medium')).toMatchObject({ focusMinutes: 60, baseEnergyCost: 10, energyCost: 13, goldGain: 18, xpGain: 10 });
+    });
+
+    it('maps legacy effort names to their successors', () => {
+        expect(reward('massive')).toEqual(reward('heavy'));
+    });
+
+    it('keeps the base reward for a missing or unknown effort', () => {
+        const base = { focusMinutes: 45, baseEnergyCost: 5, energyCost: 7, goldGain: 12, xpGain: 6 };
+        expect(reward(undefined)).toMatchObject(base);
+        expect(reward('enormous')).toMatchObject(base);
+        expect(reward(undefined).xpFactors).toMatchObject({ effortCoef: 1, timeCoef: 0.8, energyCoef: 0.9 });
+    });
+});
+
+// Local time without an offset keeps every timestamp on the same day in any time zone.
+const NOW = new Date('2026-03-04T20:00:00');
+
+function withCaps(caps: Partial<ProgressionConfig['periodCaps']>, economy?: Partial<ProgressionConfig['economy']>): ProgressionConfig {
+    return {
+        ...DEFAULT_PROGRESSION_CONFIG,
+        periodCaps: { ...DEFAULT_PROGRESSION_CONFIG.periodCaps, ...caps },
+        economy: { ...DEFAULT_PROGRESSION_CONFIG.economy, ...economy },
+    };
+}
+
+function rewardEvent(type: GameEvent['type'], timestamp: string, details: Record<string, unknown>): GameEvent {
+    return {
+        id: `evt_${timestamp}`,
+        type,
+        timestamp,
+        entity: { type: 'pomodoro', id: 'focus', name: 'Pomodoro' },
+        details,
+        relations: { causes: [], causedBy: [], subevents: [], parentEvent: null, before: [], after: [], concurrent: [] },
+        analysis: null,
+    };
+}
+
+describe('getPeriodUsage', () => {
+    it('sums the XP and gold every reward event recorded today', () => {
+        const events = [
+            rewardEvent('task.completed', '2026-03-04T09:00:00', { xpGain: 10, goldGain: 18 }),
+            rewardEvent('flashcard.reviewed', '2026-03-04T10:00:00', { rating: 'good', xpGain: 10 }),
+            rewardEvent('chapter.completed', '2026-03-04T11:00:00', { xpGain: 100 }),
+            rewardEvent('pomodoro.completed', '2026-03-03T11:00:00', { xpGain: 5, goldGain: 3 }),
+        ];
+        expect(getPeriodUsage(events, NOW)).toMatchObject({ xpToday: 120, goldToday: 18 });
+    });
+});
+
+describe('applyPeriodCaps', () => {
+    it('cuts a habit check-in down to what is left of the daily caps', () => {
+        const reward = computeHabitReward(60, DEFAULT_PROGRESSION_CONFIG.economy);
+        const usage = getPeriodUsage([rewardEvent('task.completed', '2026-03-04T09:00:00', { xpGain: 30, goldGain: 15 })], NOW);
+        expect(applyPeriodCaps(reward, usage, withCaps({ dailyXpCap: 50, dailyGoldCap: 20 }).periodCaps))
+            .toMatchObject({ xpGain: 20, goldGain: 5, xpCut: 20, goldCut: 13 });
+    });
+
+    it('grants nothing to a pomodoro once the cap is used up', () => {
+        const config = withCaps({ dailyXpCap: 12, dailyGoldCap: 6 }, { pomodoro: { xp: 5, gold: 3 } });
+        const events: GameEvent[] = [];
+        const granted = [0, 1, 2, 3].map((minute) => {
+            const gains = applyPeriodCaps(computePomodoroReward(config.economy), getPeriodUsage(events, NOW), config.periodCaps);
+            events.push(rewardEvent('pomodoro.completed', `2026-03-04T10:0${minute}:00`, { xpGain: gains.xpGain, goldGain: gains.goldGain }));
+            return [gains.xpGain, gains.goldGain];
+        });
+        expect(granted).toEqual([[5, 3], [5, 3], [2, 0], [0, 0]]);
+    });
+
+    it('treats a cap of 0 as no cap', () => {
+        const usage = { xpToday: 1000, goldToday: 1000, skillXpToday: 0, skillXpWeek: 0, attributesToday: 0 };
+        expect(applyPeriodCaps({ xpGain: 40, goldGain: 18 }, usage, DEFAULT_PROGRESSION_CONFIG.periodCaps))
+            .toMatchObject({ xpGain: 40, goldGain: 18, xpCut: 0, goldCut: 0 });
+    });
+});
+
+describe('simulateEconomy', () => {
+    it('applies the daily caps to habit check-ins like the store does', () => {
+        const habit = {
+            estimatedDuration: 60,
+            completionHistory: {
+                '2026-03-04': { count: 3, timestamps: ['2026-03-04T08:00:00', '2026-03-04T12:00:00', '2026-03-04T18:00:00'] },
+            },
+        };
+        const data = {
+            customTasks: [], archivedTasks: [], taskLogs: [], habits: [habit], archivedHabits: [], events: [],
+            mainQuests: [], archivedMainQuests: [], activeSeasons: [], seasonHistory: [],
+        } as unknown as Parameters<typeof simulateEconomy>[0];
+
+        const result = simulateEconomy(data, withCaps({ dailyXpCap: 100, dailyGoldCap: 40 }), NOW);
+        expect(result.sources.habit).toEqual({ count: 3, xp: 100, gold: 40, energy: 30 });
+        expect(result.cut).toMatchObject({ xp: 20, gold: 14 });
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * Reward text fixtures: input text and the stickers the parser should produce.
+ * Keys left out of `expected` must be absent from the parsed item.
+ */
+
+import type { ParsedReward } from '../../reward-parser';
+
+export interface RewardTextFixture {
+    name: string;
+    input: string;
+    expected: Array<Omit<ParsedReward, 'rawText'>>;
+}
+
+export const PRICE_CAP_FIXTURES: RewardTextFixture[] = [
+    {
+        name: 'yuan sign with 以内',
+        input: '¥60 以内的书',
+        expected: [{ verb: 'buy', object: '书', priceCap: { amount: 60, currency: 'CNY' } }],
+    },
+    {
+        name: 'dollar cap after under',
+        input: 'buy headphones under $50',
+        expected: [{ verb: 'buy', object: 'headphones', priceCap: { amount: 50, currency: 'USD' } }],
+    },
+    {
+        name: '块 next to a limit word',
+        input: '买个不超过200块的耳机',
+        expected: [{ verb: 'buy', object: '耳机', priceCap: { amount: 200, currency: 'CNY' } }],
+    },
+];
+
+export const DURATION_FIXTURES: RewardTextFixture[] = [
+    {
+        name: 'English minutes',
+        input: 'play for 10 minutes',
+        expected: [{ verb: 'play', object: 'play', durationMinutes: 10 }],
+    },
+    {
+        name: 'English hours',
+        input: 'rest 2 hours',
+        expected: [{ verb: 'rest', object: 'rest', durationMinutes: 120 }],
+    },
+    {
+        name: 'Chinese hour and a half',
+        input: '晚上8点后打一个半小时游戏',
+        expected: [{ verb: 'play', object: '游戏', durationMinutes: 90, schedule: { period: 'evening', from: '20:00' } }],
+    },
+];
+
+export const SCHEDULE_FIXTURES: RewardTextFixture[] = [
+    {
+        name: 'Chinese weekday with episode count',
+        input: '周六看两集进击的巨人',
+        expected: [{ verb: 'watch', object: '进击的巨人', quantity: 2, unit: '集', schedule: { weekdays: [6] } }],
+    },
+    {
+        name: 'meal anchor',
+        input: '30 min Switch after dinner',
+        expected: [{ verb: 'play', object: 'Switch', durationMinutes: 30, schedule: { anchor: 'after_dinner' } }],
+    },
+    {
+        name: 'English weekday and period',
+        input: 'Watch 2 episodes of Frieren on Saturday night',
+        expected: [{ verb: 'watch', object: 'Frieren', quantity: 2, unit: 'episodes', schedule: { period: 'night', weekdays: [6] } }],
+    },
+    {
+        name: 'details in a parenthetical note',
+        input: '看电影 (周六, ¥50 以内)',
+        expected: [{ verb: 'watch', object: '电影', priceCap: { amount: 50, currency: 'CNY' }, schedule: { weekdays: [6] } }],
+    },
+];
+
+export const MULTI_ITEM_FIXTURES: RewardTextFixture[] = [
+    {
+        name: 'leading schedule carries to every item',
+        input: '周末：看电影和吃爆米花',
+        expected: [
+            { verb: 'watch', object: '电影', schedule: { weekdays: [0, 6] } },
+            { verb: 'eat', object: '爆米花', schedule: { weekdays: [0, 6] } },
+        ],
+    },
+    {
+        name: 'comma and 然后',
+        input: '喝一杯奶茶，然后看一集动漫',
+        expected: [
+            { verb: 'drink', object: '奶茶', quantity: 1, unit: '杯' },
+            { verb: 'watch', object: '动漫', quantity: 1, unit: '集' },
+        ],
+    },
+];
+
+export const UNPARSEABLE_FIXTURES: RewardTextFixture[] = [
+    { name: 'empty', input: '', expected: [] },
+    { name: 'whitespace only', input: '   \n  ', expected: [] },
+    { name: 'punctuation only', input: '？？！', expected: [] },
+    {
+        name: 'unknown words fall back to other',
+        input: 'asdf qwer',
+        expected: [{ verb: 'other', object: 'asdf qwer' }],
+    },
+];
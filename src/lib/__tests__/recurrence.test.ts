@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import {
+    listOccurrences,
+    MAX_BACKFILL_OCCURRENCES,
+    nextOccurrences,
+    planRecurringGeneration,
+    type RecurrenceRule,
+} from '../recurrence';
+
+// 2026-03-01 is a Sunday. Local time without an offset keeps the creation day
+// the same in every time zone.
+const CREATED_AT = '2026-03-01T09:00:00';
+
+function rule(overrides: Partial<RecurrenceRule>): RecurrenceRule {
+    return { frequency: 'daily', createdAt: CREATED_AT, ...overrides };
+}
+
+describe('listOccurrences', () => {
+    describe('daily', () => {
+        it('fires every day from the anchor', () => {
+            expect(listOccurrences(rule({ startDate: '2026-03-01' }), '2026-02-27', '2026-03-04'))
+                .toEqual(['2026-03-01', '2026-03-02', '2026-03-03', '2026-03-04']);
+        });
+
+        it('counts the interval from the anchor', () => {
+            expect(listOccurrences(rule({ startDate: '2026-03-01', interval: 3 }), '2026-03-02', '2026-03-10'))
+                .toEqual(['2026-03-04', '2026-03-07', '2026-03-10']);
+        });
+
+        it('drops weekends for business-day rules', () => {
+            expect(listOccurrences(rule({ startDate: '2026-03-06', businessDaysOnly: true }), '2026-03-06', '2026-03-09'))
+                .toEqual(['2026-03-06', '2026-03-09']);
+        });
+
+        it('falls back to the creation day without a start date', () => {
+            expect(listOccurrences(rule({}), '2026-02-28', '2026-03-02')).toEqual(['2026-03-01', '2026-03-02']);
+        });
+    });
+
+    describe('weekly', () => {
+        it('fires on the listed weekdays', () => {
+            expect(listOccurrences(rule({ frequency: 'weekly', daysOfWeek: [1, 3], startDate: '2026-03-01' }), '2026-03-01', '2026-03-14'))
+                .toEqual(['2026-03-02', '2026-03-04', '2026-03-09', '2026-03-11']);
+        });
+
+        it('counts every N weeks from the Monday of the anchor week', () => {
+            // Anchor week starts on Monday 2026-02-23, so the weeks of 03-09 and 03-23 fire.
+            expect(listOccurrences(rule({ frequency: 'weekly', daysOfWeek: [1], interval: 2, startDate: '2026-03-01' }), '2026-03-01', '2026-03-31'))
+                .toEqual(['2026-03-09', '2026-03-23']);
+        });
+
+        it('never fires without weekdays', () => {
+            expect(listOccurrences(rule({ frequency: 'weekly', startDate: '2026-03-01' }), '2026-03-01', '2026-03-31')).toEqual([]);
+        });
+    });
+
+    describe('monthly', () => {
+        it('fires on the day of month every N months', () => {
+            expect(listOccurrences(rule({ frequency: 'monthly', dayOfMonth: 15, interval: 2, startDate: '2026-01-01' }), '2026-01-01', '2026-06-30'))
+                .toEqual(['2026-01-15', '2026-03-15', '2026-05-15']);
+        });
+
+        it('clamps day 31 to the end of shorter months', () => {
+            expect(nextOccurrences(rule({ frequency: 'monthly', dayOfMonth: 31, startDate: '2026-01-01' }), '2026-01-01', 4))
+                .toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+        });
+
+        it('lands on Feb 29 only in leap years', () => {
+            expect(nextOccurrences(rule({ frequency: 'monthly', dayOfMonth: 29, interval: 12, startDate: '2027-02-01' }), '2027-01-01', 3))
+                .toEqual(['2027-02-28', '2028-02-29', '2029-02-28']);
+        });
+
+        it('finds the nth weekday', () => {
+            const secondTuesday = rule({ frequency: 'monthly', monthlyMode: 'nth_weekday', weekOfMonth: 2, weekdayOfMonth: 2, startDate: '2026-03-01' });
+            expect(nextOccurrences(secondTuesday, '2026-03-01', 2)).toEqual(['2026-03-10', '2026-04-14']);
+        });
+
+        it('finds the last weekday of the month', () => {
+            const lastFriday = rule({ frequency: 'monthly', monthlyMode: 'nth_weekday', weekOfMonth: -1, weekdayOfMonth: 5, startDate: '2026-03-01' });
+            expect(nextOccurrences(lastFriday, '2026-03-01', 2)).toEqual(['2026-03-27', '2026-04-24']);
+        });
+
+        it('finds the last business day when the month ends on a weekend', () => {
+            const lastBusinessDay = rule({ frequency: 'monthly', monthlyMode: 'last_business_day', startDate: '2026-01-01' });
+            expect(listOccurrences(lastBusinessDay, '2026-01-01', '2026-01-31')).toEqual(['2026-01-30']);
+            expect(listOccurrences(lastBusinessDay, '2026-05-01', '2026-05-31')).toEqual(['2026-05-29']);
+        });
+    });
+
+    describe('after_completion', () => {
+        it('is due N days after the last completion', () => {
+            expect(listOccurrences(rule({ frequency: 'after_completion', interval: 3, startDate: '2026-03-01' }), '2026-03-01', '2026-03-10', { lastCompleted: '2026-03-05' }))
+                .toEqual(['2026-03-08']);
+        });
+
+        it('moves a weekend due date to Monday for business-day rules', () => {
+            const businessDays = rule({ frequency: 'after_completion', interval: 3, businessDaysOnly: true, startDate: '2026-03-01' });
+            expect(listOccurrences(businessDays, '2026-03-01', '2026-03-31', { lastCompleted: '2026-03-04' })).toEqual(['2026-03-09']);
+        });
+
+        it('assumes each instance is completed on time when looking ahead', () => {
+            expect(nextOccurrences(rule({ frequency: 'after_completion', interval: 7, startDate: '2026-03-02' }), '2026-03-01', 3))
+                .toEqual(['2026-03-02', '2026-03-09', '2026-03-16']);
+        });
+    });
+
+    describe('limits', () => {
+        it('stops at the end date', () => {
+            const until = rule({ startDate: '2026-03-01', endDate: '2026-03-03' });
+            expect(listOccurrences(until, '2026-03-01', '2026-03-31')).toEqual(['2026-03-01', '2026-03-02', '2026-03-03']);
+            expect(nextOccurrences(until, '2026-03-01', 10)).toEqual(['2026-03-01', '2026-03-02', '2026-03-03']);
+        });
+
+        it('stops after-completion rules at the end date', () => {
+            expect(nextOccurrences(rule({ frequency: 'after_completion', interval: 7, startDate: '2026-03-02', endDate: '2026-03-10' }), '2026-03-01', 5))
+                .toEqual(['2026-03-02', '2026-03-09']);
+        });
+
+        it('returns exactly the requested count', () => {
+            expect(nextOccurrences(rule({ startDate: '2026-03-01' }), '2026-03-01', 2)).toEqual(['2026-03-01', '2026-03-02']);
+            expect(nextOccurrences(rule({ startDate: '2026-03-01' }), '2026-03-01', 0)).toEqual([]);
+        });
+
+        it('returns nothing for an inverted range', () => {
+            expect(listOccurrences(rule({ startDate: '2026-03-01' }), '2026-03-05', '2026-03-01')).toEqual([]);
+        });
+    });
+});
+
+describe('planRecurringGeneration', () => {
+    const daily = rule({ startDate: '2026-03-01' });
+    const mondays = rule({ frequency: 'weekly', daysOfWeek: [1], startDate: '2026-03-01' });
+
+    it('skip: creates only today and counts the missed ones', () => {
+        expect(planRecurringGeneration(daily, '2026-03-05', 'skip', { lastCheckedDate: '2026-03-01' }))
+            .toEqual({ dates: ['2026-03-05'], skipped: 3 });
+        expect(planRecurringGeneration(mondays, '2026-03-04', 'skip', { lastCheckedDate: '2026-03-01' }))
+            .toEqual({ dates: [], skipped: 1 });
+    });
+
+    it('latest: collapses missed occurrences into the newest one', () => {
+        expect(planRecurringGeneration(daily, '2026-03-05', 'latest', { lastCheckedDate: '2026-03-01' }))
+            .toEqual({ dates: ['2026-03-05'], skipped: 3 });
+        expect(planRecurringGeneration(mondays, '2026-03-04', 'latest', { lastCheckedDate: '2026-03-01' }))
+            .toEqual({ dates: ['2026-03-02'], skipped: 0 });
+    });
+
+    it('backfill: catches up on every missed occurrence', () => {
+        expect(planRecurringGeneration(daily, '2026-03-05', 'backfill', { lastCheckedDate: '2026-03-01' }))
+            .toEqual({ dates: ['2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05'], skipped: 0 });
+    });
+
+    it('backfill: keeps only the newest occurrences past the cap', () => {
+        const longAgo = rule({ startDate: '2026-01-01', createdAt: '2026-01-01T09:00:00' });
+        const plan = planRecurringGeneration(longAgo, '2026-03-05', 'backfill', { lastCheckedDate: '2026-01-01' });
+        expect(plan.dates).toHaveLength(MAX_BACKFILL_OCCURRENCES);
+        expect(plan.dates[plan.dates.length - 1]).toBe('2026-03-05');
+        expect(plan.skipped).toBe(63 - MAX_BACKFILL_OCCURRENCES);
+    });
+
+    it('starts from the creation day when the rule was never checked', () => {
+        expect(planRecurringGeneration(daily, '2026-03-03', 'backfill'))
+            .toEqual({ dates: ['2026-03-01', '2026-03-02', '2026-03-03'], skipped: 0 });
+    });
+
+    it('does nothing when already checked today', () => {
+        expect(planRecurringGeneration(daily, '2026-03-05', 'backfill', { lastCheckedDate: '2026-03-05' }))
+            .toEqual({ dates: [], skipped: 0 });
+    });
+
+    describe('after_completion', () => {
+        const everyThreeDays = rule({ frequency: 'after_completion', interval: 3, startDate: '2026-03-01' });
+        const state = { lastCompleted: '2026-03-01', lastCheckedDate: '2026-03-01' };
+
+        it('skip: creates the overdue instance due today', () => {
+            expect(planRecurringGeneration(everyThreeDays, '2026-03-06', 'skip', state)).toEqual({ dates: ['2026-03-06'], skipped: 0 });
+        });
+
+        it('latest and backfill: keep the original due date', () => {
+            expect(planRecurringGeneration(everyThreeDays, '2026-03-06', 'latest', state)).toEqual({ dates: ['2026-03-04'], skipped: 0 });
+            expect(planRecurringGeneration(everyThreeDays, '2026-03-06', 'backfill', state)).toEqual({ dates: ['2026-03-04'], skipped: 0 });
+        });
+
+        it('waits while a generated task is still open', () => {
+            expect(planRecurringGeneration(everyThreeDays, '2026-03-06', 'backfill', { ...state, hasOpenTask: true }))
+                .toEqual({ dates: [], skipped: 0 });
+        });
+
+        it('does not regenerate an instance that was already generated', () => {
+            expect(planRecurringGeneration(everyThreeDays, '2026-03-06', 'backfill', { ...state, lastGeneratedDate: '2026-03-04' }))
+                .toEqual({ dates: [], skipped: 0 });
+        });
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { parseRewardTexts } from '../reward-parser';
+import { DEFAULT_REWARD_PRICING, estimateRewardPricing } from '../../stores/game-store-helpers';
+import {
+    DURATION_FIXTURES,
+    MULTI_ITEM_FIXTURES,
+    PRICE_CAP_FIXTURES,
+    SCHEDULE_FIXTURES,
+    UNPARSEABLE_FIXTURES,
+    type RewardTextFixture,
+} from './fixtures/reward-texts';
+
+function runFixtures(fixtures: RewardTextFixture[]) {
+    it.each(fixtures)('$name: $input', ({ input, expected }) => {
+        const parsed = parseRewardTexts(input).map(({ rawText: _rawText, ...item }) => item);
+        // Drop unset optional keys so fixtures only list what the parser found.
+        const defined = parsed.map((item) => Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined)));
+        expect(defined).toEqual(expected);
+    });
+}
+
+describe('parseRewardTexts', () => {
+    describe('price caps', () => runFixtures(PRICE_CAP_FIXTURES));
+    describe('durations', () => runFixtures(DURATION_FIXTURES));
+    describe('schedules', () => runFixtures(SCHEDULE_FIXTURES));
+    describe('multi-item lines', () => runFixtures(MULTI_ITEM_FIXTURES));
+    describe('unparseable input', () => runFixtures(UNPARSEABLE_FIXTURES));
+
+    it('keeps the source text of each item', () => {
+        expect(parseRewardTexts('喝一杯奶茶，然后看一集动漫').map((item) => item.rawText)).toEqual(['喝一杯奶茶', '看一集动漫']);
+    });
+});
+
+describe('estimateRewardPricing', () => {
+    it('uses the configured verb price without details', () => {
+        expect(estimateRewardPricing({ verb: 'watch' })).toEqual({ priceTier: 'C', priceGold: DEFAULT_REWARD_PRICING.watch });
+    });
+
+    it('scales timed verbs by duration against one hour', () => {
+        expect(estimateRewardPricing({ verb: 'play', durationMinutes: 90 })).toEqual({ priceTier: 'B', priceGold: 75 });
+    });
+
+    it('clamps the duration multiplier to 0.5x-3x', () => {
+        expect(estimateRewardPricing({ verb: 'play', durationMinutes: 10 }).priceGold).toBe(25);
+        expect(estimateRewardPricing({ verb: 'play', durationMinutes: 600 }).priceGold).toBe(150);
+    });
+
+    it('ignores durations on untimed verbs', () => {
+        expect(estimateRewardPricing({ verb: 'buy', durationMinutes: 120 })).toEqual(estimateRewardPricing({ verb: 'buy' }));
+    });
+
+    it('prices a cap at one gold per yuan, converting other currencies', () => {
+        expect(estimateRewardPricing({ verb: 'buy', priceCap: { amount: 200, currency: 'CNY' } })).toEqual({ priceTier: 'S', priceGold: 200 });
+        expect(estimateRewardPricing({ verb: 'buy', priceCap: { amount: 50, currency: 'USD' } })).toEqual({ priceTier: 'S', priceGold: 360 });
+    });
+
+    it('never prices a cap below half the base price', () => {
+        expect(estimateRewardPricing({ verb: 'watch', priceCap: { amount: 1, currency: 'CNY' } }).priceGold).toBe(DEFAULT_REWARD_PRICING.watch / 2);
+    });
+
+    it('takes the higher of duration and cap pricing', () => {
+        expect(estimateRewardPricing({ verb: 'play', durationMinutes: 60, priceCap: { amount: 120, currency: 'CNY' } }).priceGold).toBe(120);
+    });
+
+    it('follows a custom pricing config', () => {
+        expect(estimateRewardPricing({ verb: 'watch' }, { ...DEFAULT_REWARD_PRICING, watch: 44 }).priceGold).toBe(44);
+    });
+});
@@ -0,0 +1,510 @@
+/**
+ * Achievements
+ *
+ * A small condition language over aggregated player metrics, used by the
+ * built-in achievement titles (`TITLE_DATABASE.achievementTitles`) and by
+ * user-defined achievements (`GameData.customAchievements`):
+ *
+ *   tasks_completed(type: creative, within: 30d) >= 20 and habit_streak >= 7
+ *
+ * - Comparisons `>= > <= < == !=` between a metric and a number, combined
+ *   with `and` / `or` / `not` and parentheses
+ * - `within: 7d` (or `2w`) counts only the last days including today
+ * - Progress toward a locked achievement: value / target for `>=` and `>`,
+ *   the average of the parts for `and`, the best part for `or`
+ *
+ * Conditions are parsed once and cached. Every metric names the triggers that
+ * can change it, so an event only re-checks the locked achievements it can
+ * affect.
+ */
+
+import type { AchievementDefinition, GameData } from '../types/game-data';
+import type { GameEvent } from '../types/event';
+import type { TaskType } from '../types/task';
+import { TITLE_DATABASE } from '../config/constants';
+import { getSkillLevels } from '../stores/game-store-helpers';
+import { getDayKey } from './calendar-day';
+import { addDaysToKey } from './recurrence';
+
+export type AchievementTrigger = 'task' | 'habit' | 'pomodoro' | 'flashcard' | 'gold' | 'quest' | 'skill' | 'level';
+
+export type CompareOperator = '>=' | '>' | '<=' | '<' | '==' | '!=';
+
+type FlashcardRating = 'easy' | 'good' | 'hard';
+
+interface MetricArgs {
+    type?: TaskType;
+    rating?: FlashcardRating;
+    /** Window in days, today included */
+    within?: number;
+}
+
+type ArgName = keyof MetricArgs;
+
+export type ConditionNode =
+    | { kind: 'compare'; metric: MetricName; args: MetricArgs; operator: CompareOperator; target: number }
+    | { kind: 'and' | 'or'; parts: ConditionNode[] }
+    | { kind: 'not'; part: ConditionNode };
+
+export type ConditionErrorReason =
+    | 'empty'
+    | 'unexpected_token'
+    | 'unexpected_end'
+    | 'unknown_metric'
+    | 'unknown_argument'
+    | 'invalid_argument'
+    | 'expected_comparison'
+    | 'expected_number';
+
+export type ParseResult =
+    | { success: true; condition: ConditionNode; triggers: AchievementTrigger[] }
+    | { success: false; reason: ConditionErrorReason; position: number; detail?: string };
+
+/** State the metrics read; the game store state satisfies it */
+export type AchievementState = Pick<
+    GameData,
+    | 'customTasks'
+    | 'archivedTasks'
+    | 'habits'
+    | 'archivedHabits'
+    | 'pomodoro'
+    | 'events'
+    | 'financialRecords'
+    | 'mainQuests'
+    | 'archivedMainQuests'
+    | 'level'
+    | 'skills'
+    | 'unlockedTitles'
+    | 'customAchievements'
+>;
+
+interface MetricDefinition {
+    args: ArgName[];
+    triggers: AchievementTrigger[];
+    read: (state: AchievementState, args: MetricArgs, since: string | null) => number;
+}
+
+const TASK_TYPES: TaskType[] = ['creative', 'tax', 'maintenance'];
+const FLASHCARD_RATINGS: FlashcardRating[] = ['easy', 'good', 'hard'];
+const COMPARE_OPERATORS: CompareOperator[] = ['>=', '<=', '==', '!=', '>', '<'];
+
+function inWindow(timestamp: string | undefined, since: string | null): boolean {
+    if (!since) return true;
+    if (!timestamp) return false;
+    const day = getDayKey(timestamp);
+    return !!day && day >= since;
+}
+
+function countEvents(state: AchievementState, type: GameEvent['type'], since: string | null, match?: (event: GameEvent) => boolean): number {
+    return state.events.filter((event) => event.type === type && inWindow(event.timestamp, since) && (!match || match(event))).length;
+}
+
+const METRICS = {
+    tasks_completed: {
+        args: ['type', 'within'],
+        triggers: ['task'],
+        read: (state, args, since) => [...state.customTasks, ...state.archivedTasks]
+            .filter((task) => (task.status === 'completed' || task.completed)
+                && (!args.type || task.taskType === args.type)
+                && inWindow(task.completedAt, since))
+            .length,
+    },
+    habit_streak: {
+        args: [],
+        triggers: ['habit'],
+        read: (state) => Math.max(0, ...state.habits.map((habit) => habit.streak || 0)),
+    },
+    habit_best_streak: {
+        args: [],
+        triggers: ['habit'],
+        read: (state) => Math.max(0, ...[...state.habits, ...state.archivedHabits].map((habit) => habit.longestStreak || 0)),
+    },
+    habit_checkins: {
+        args: ['within'],
+        triggers: ['habit'],
+        read: (state, _args, since) => [...state.habits, ...state.archivedHabits].reduce((sum, habit) =>
+            sum + Object.entries(habit.completionHistory || {})
+                .filter(([date]) => !since || date >= since)
+                .reduce((count, [, entry]) => count + (entry.count || 0), 0), 0),
+    },
+    pomodoros: {
+        args: ['within'],
+        triggers: ['pomodoro'],
+        // Pomodoros finished before they were logged as events only exist in the counter
+        read: (state, _args, since) => {
+            const logged = countEvents(state, 'pomodoro.completed', since);
+            return since ? logged : Math.max(logged, state.pomodoro.totalCompleted || 0);
+        },
+    },
+    flashcards_reviewed: {
+        args: ['rating', 'within'],
+        triggers: ['flashcard'],
+        read: (state, args, since) => countEvents(state, 'flashcard.reviewed', since,
+            (event) => !args.rating || event.details.rating === args.rating),
+    },
+    gold_earned: {
+        args: ['within'],
+        triggers: ['gold'],
+        read: (state, _args, since) => state.financialRecords
+            .filter((record) => record.type === 'income' && inWindow(record.date, since))
+            .reduce((sum, record) => sum + record.amount, 0),
+    },
+    quests_completed: {
+        args: ['within'],
+        triggers: ['quest'],
+        read: (state, _args, since) => [...state.mainQuests, ...state.archivedMainQuests]
+            .filter((quest) => quest.status === 'completed' && inWindow(quest.completedAt, since))
+            .length,
+    },
+    level: {
+        args: [],
+        triggers: ['level'],
+        read: (state) => state.level,
+    },
+    max_skill_level: {
+        args: [],
+        triggers: ['skill'],
+        read: (state) => Math.max(...getSkillLevels(state.skills)),
+    },
+    min_skill_level: {
+        args: [],
+        triggers: ['skill'],
+        read: (state) => Math.min(...getSkillLevels(state.skills)),
+    },
+} satisfies Record<string, MetricDefinition>;
+
+export type MetricName = keyof typeof METRICS;
+
+/** Metric names with the arguments each accepts, for the editor hint */
+export const ACHIEVEMENT_METRICS = Object.entries(METRICS)
+    .map(([name, metric]) => ({ name: name as MetricName, args: metric.args as ArgName[] }));
+
+// ===== Tokenizer =====
+
+type Token =
+    | { type: 'number'; value: number; position: number }
+    | { type: 'duration'; value: number; position: number }
+    | { type: 'word' | 'operator' | 'punct'; value: string; position: number }
+    | { type: 'end'; position: number };
+
+type TokenizeResult = { success: true; tokens: Token[] } | { success: false; position: number };
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d+)?)([dw])?(?![\w.])|([a-z_][a-z0-9_]*)|(>=|<=|==|!=|>|<|&&|\|\|)|([(),:]))/iy;
+
+function tokenize(text: string): TokenizeResult {
+    const tokens: Token[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+    while (TOKEN_PATTERN.lastIndex < text.length) {
+        if (!text.slice(TOKEN_PATTERN.lastIndex).trim()) break;
+        const start = TOKEN_PATTERN.lastIndex;
+        const match = TOKEN_PATTERN.exec(text);
+        if (!match) return { success: false, position: start + (text.slice(start).length - text.slice(start).trimStart().length) };
+        const position = match.index + match[0].length - match[0].trimStart().length;
+        const [, number, unit, word, operator, punct] = match;
+        if (number !== undefined) {
+            tokens.push(unit
+                ? { type: 'duration', value: Number(number) * (unit.toLowerCase() === 'w' ? 7 : 1), position }
+                : { type: 'number', value: Number(number), position });
+        } else if (word !== undefined) {
+            tokens.push({ type: 'word', value: word.toLowerCase(), position });
+        } else if (operator !== undefined) {
+            tokens.push({ type: 'operator', value: operator, position });
+        } else {
+            tokens.push({ type: 'punct', value: punct, position });
+        }
+    }
+    tokens.push({ type: 'end', position: text.length });
+    return { success: true, tokens };
+}
+
+// ===== Parser =====
+
+type ConditionFailure = Extract<ParseResult, { success: false }>;
+
+/** Thrown inside the parser and returned by `parseCondition` */
+function syntaxError(reason: ConditionErrorReason, position: number, detail?: string): ConditionFailure {
+    return { success: false, reason, position, detail };
+}
+
+function isSyntaxError(error: unknown): error is ConditionFailure {
+    return typeof error === 'object' && error !== null && (error as ConditionFailure).success === false;
+}
+
+function isKeyword(token: Token, keyword: 'and' | 'or' | 'not'): boolean {
+    if (token.type === 'word') return token.value === keyword;
+    return token.type === 'operator' && ((keyword === 'and' && token.value === '&&') || (keyword === 'or' && token.value === '||'));
+}
+
+function isPunct(token: Token, value: string): boolean {
+    return token.type === 'punct' && token.value === value;
+}
+
+function fail(token: Token): never {
+    throw syntaxError(token.type === 'end' ? 'unexpected_end' : 'unexpected_token', token.position);
+}
+
+function parseTokens(tokens: Token[]): ConditionNode {
+    let index = 0;
+    const peek = () => tokens[index];
+    const next = () => tokens[index++];
+
+    const expectPunct = (value: string) => {
+        const token = next();
+        if (!isPunct(token, value)) fail(token);
+    };
+
+    const parseArgs = (metric: MetricName): MetricArgs => {
+        const args: MetricArgs = {};
+        const allowed = METRICS[metric].args as ArgName[];
+        if (!isPunct(peek(), '(')) return args;
+        next();
+        while (!isPunct(peek(), ')')) {
+            const nameToken = next();
+            if (nameToken.type !== 'word') fail(nameToken);
+            const name = nameToken.value as ArgName;
+            if (!allowed.includes(name)) throw syntaxError('unknown_argument', nameToken.position, nameToken.value);
+            expectPunct(':');
+            const valueToken = next();
+            if (name === 'within' && (valueToken.type === 'duration' || valueToken.type === 'number') && valueToken.value >= 1) {
+                args.within = Math.floor(valueToken.value);
+            } else if (name === 'type' && valueToken.type === 'word' && TASK_TYPES.includes(valueToken.value as TaskType)) {
+                args.type = valueToken.value as TaskType;
+            } else if (name === 'rating' && valueToken.type === 'word' && FLASHCARD_RATINGS.includes(valueToken.value as FlashcardRating)) {
+                args.rating = valueToken.value as FlashcardRating;
+            } else if (valueToken.type === 'end') {
+                fail(valueToken);
+            } else {
+                throw syntaxError('invalid_argument', valueToken.position, name);
+            }
+            if (isPunct(peek(), ',')) next();
+            else if (!isPunct(peek(), ')')) fail(peek());
+        }
+        next();
+        return args;
+    };
+
+    const parseComparison = (): ConditionNode => {
+        const metricToken = next();
+        if (metricToken.type === 'number') throw syntaxError('expected_comparison', metricToken.position);
+        if (metricToken.type !== 'word') fail(metricToken);
+        if (!(metricToken.value in METRICS)) throw syntaxError('unknown_metric', metricToken.position, metricToken.value);
+        const metric = metricToken.value as MetricName;
+        const args = parseArgs(metric);
+
+        const operatorToken = next();
+        if (operatorToken.type !== 'operator' || !COMPARE_OPERATORS.includes(operatorToken.value as CompareOperator)) {
+            throw syntaxError('expected_comparison', operatorToken.position);
+        }
+        const targetToken = next();
+        if (targetToken.type !== 'number') throw syntaxError('expected_number', targetToken.position);
+        return { kind: 'compare', metric, args, operator: operatorToken.value as CompareOperator, target: targetToken.value };
+    };
+
+    const parseUnary = (): ConditionNode => {
+        if (isKeyword(peek(), 'not')) {
+            next();
+            return { kind: 'not', part: parseUnary() };
+        }
+        if (isPunct(peek(), '(')) {
+            next();
+            const inner = parseOr();
+            expectPunct(')');
+            return inner;
+        }
+        return parseComparison();
+    };
+
+    const parseAnd = (): ConditionNode => {
+        const parts = [parseUnary()];
+        while (isKeyword(peek(), 'and')) {
+            next();
+            parts.push(parseUnary());
+        }
+        return parts.length === 1 ? parts[0] : { kind: 'and', parts };
+    };
+
+    function parseOr(): ConditionNode {
+        const parts = [parseAnd()];
+        while (isKeyword(peek(), 'or')) {
+            next();
+            parts.push(parseAnd());
+        }
+        return parts.length === 1 ? parts[0] : { kind: 'or', parts };
+    }
+
+    const condition = parseOr();
+    if (peek().type !== 'end') fail(peek());
+    return condition;
+}
+
+function collectTriggers(node: ConditionNode, triggers: Set<AchievementTrigger>): Set<AchievementTrigger> {
+    if (node.kind === 'compare') METRICS[node.metric].triggers.forEach((trigger) => triggers.add(trigger as AchievementTrigger));
+    else if (node.kind === 'not') collectTriggers(node.part, triggers);
+    else node.parts.forEach((part) => collectTriggers(part, triggers));
+    return triggers;
+}
+
+const parseCache = new Map<string, ParseResult>();
+
+export function parseCondition(text: string): ParseResult {
+    const cached = parseCache.get(text);
+    if (cached) return cached;
+
+    let result: ParseResult;
+    const tokenized = tokenize(text);
+    if (!text.trim()) {
+        result = { success: false, reason: 'empty', position: 0 };
+    } else if (!tokenized.success) {
+        result = { success: false, reason: 'unexpected_token', position: tokenized.position };
+    } else {
+        try {
+            const condition = parseTokens(tokenized.tokens);
+            result = { success: true, condition, triggers: [...collectTriggers(condition, new Set())] };
+        } catch (error) {
+            if (!isSyntaxError(error)) throw error;
+            result = error;
+        }
+    }
+    parseCache.set(text, result);
+    return result;
+}
+
+// ===== Evaluation =====
+
+export interface ConditionResult {
+    met: boolean;
+    /** 0..1 toward meeting the condition */
+    progress: number;
+}
+
+function compare(value: number, operator: CompareOperator, target: number): boolean {
+    switch (operator) {
+        case '>=': return value >= target;
+        case '>': return value > target;
+        case '<=': return value <= target;
+        case '<': return value < target;
+        case '==': return value === target;
+        case '!=': return value !== target;
+    }
+}
+
+function evaluateNode(node: ConditionNode, readMetric: (node: Extract<ConditionNode, { kind: 'compare' }>) => number): ConditionResult {
+    if (node.kind === 'compare') {
+        const value = readMetric(node);
+        const met = compare(value, node.operator, node.target);
+        const countsUp = node.operator === '>=' || node.operator === '>';
+        const progress = met ? 1 : countsUp && node.target > 0 ? Math.min(0.99, Math.max(0, value / node.target)) : 0;
+        return { met, progress };
+    }
+    if (node.kind === 'not') {
+        const met = !evaluateNode(node.part, readMetric).met;
+        return { met, progress: met ? 1 : 0 };
+    }
+    const results = node.parts.map((part) => evaluateNode(part, readMetric));
+    if (node.kind === 'and') {
+        return {
+            met: results.every((result) => result.met),
+            progress: results.reduce((sum, result) => sum + result.progress, 0) / results.length,
+        };
+    }
+    return {
+        met: results.some((result) => result.met),
+        progress: Math.max(...results.map((result) => result.progress)),
+    };
+}
+
+/**
+ * Metric reader shared by every condition in one evaluation pass
+ */
+function createMetricReader(state: AchievementState, now: Date) {
+    const today = getDayKey(now);
+    const values = new Map<string, number>();
+    return (node: Extract<ConditionNode, { kind: 'compare' }>): number => {
+        const key = `${node.metric}:${node.args.type ?? ''}:${node.args.rating ?? ''}:${node.args.within ?? ''}`;
+        const cached = values.get(key);
+        if (cached !== undefined) return cached;
+        const since = node.args.within ? addDaysToKey(today, -(node.args.within - 1)) : null;
+        const value = (METRICS[node.metric] as MetricDefinition).read(state, node.args, since);
+        values.set(key, value);
+        return value;
+    };
+}
+
+export function evaluateCondition(text: string, state: AchievementState, now: Date = new Date()): ConditionResult | null {
+    const parsed = parseCondition(text);
+    return parsed.success ? evaluateNode(parsed.condition, createMetricReader(state, now)) : null;
+}
+
+export interface AchievementStatus {
+    achievement: AchievementDefinition;
+    builtin: boolean;
+    unlocked: boolean;
+    /** Null when the condition does not parse */
+    result: ConditionResult | null;
+}
+
+/**
+ * Built-in achievements first, then the user's
+ */
+export function listAchievements(state: Pick<AchievementState, 'customAchievements'>): Array<{ achievement: AchievementDefinition; builtin: boolean }> {
+    return [
+        ...TITLE_DATABASE.achievementTitles.map((achievement) => ({ achievement, builtin: true })),
+        ...(state.customAchievements || []).map((achievement) => ({ achievement, builtin: false })),
+    ];
+}
+
+export function getAchievementStatuses(state: AchievementState, now: Date = new Date()): AchievementStatus[] {
+    const readMetric = createMetricReader(state, now);
+    return listAchievements(state).map(({ achievement, builtin }) => {
+        const parsed = parseCondition(achievement.condition);
+        return {
+            achievement,
+            builtin,
+            unlocked: state.unlockedTitles.includes(achievement.name),
+            result: parsed.success ? evaluateNode(parsed.condition, readMetric) : null,
+        };
+    });
+}
+
+/**
+ * Title names to unlock: level titles reached and locked achievements now met.
+ * With `triggers`, only achievements whose metrics those triggers can change are checked.
+ */
+export function evaluateTitleUnlocks(state: AchievementState, triggers?: AchievementTrigger[], now: Date = new Date()): string[] {
+    const unlockNames: string[] = [];
+    if (!triggers || triggers.includes('level')) {
+        for (const levelTitle of TITLE_DATABASE.levelTitles) {
+            if (state.level >= levelTitle.minLevel && !state.unlockedTitles.includes(levelTitle.name)) unlockNames.push(levelTitle.name);
+        }
+    }
+
+    const readMetric = createMetricReader(state, now);
+    for (const { achievement } of listAchievements(state)) {
+        if (state.unlockedTitles.includes(achievement.name) || unlockNames.includes(achievement.name)) continue;
+        const parsed = parseCondition(achievement.condition);
+        if (!parsed.success) continue;
+        if (triggers && !parsed.triggers.some((trigger) => triggers.includes(trigger))) continue;
+        if (evaluateNode(parsed.condition, readMetric).met) unlockNames.push(achievement.name);
+    }
+    return unlockNames;
+}
+
+/**
+ * Which achievement metrics an event can change
+ */
+export function getEventTriggers(event: Pick<GameEvent, 'type' | 'entity'>): AchievementTrigger[] {
+    switch (event.type) {
+        case 'task.completed':
+            return event.entity.type === 'habit' ? ['habit', 'gold'] : ['task', 'gold'];
+        case 'pomodoro.completed':
+            return ['pomodoro', 'gold'];
+        case 'flashcard.reviewed':
+        case 'flashcard.session_completed':
+            return ['flashcard'];
+        case 'skill.xp':
+        case 'skill.levelup':
+            return ['skill'];
+        default:
+            return [];
+    }
+}
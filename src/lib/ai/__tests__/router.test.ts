@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { routeIntent, shouldUseRoute } from '../router';
+import { measureRouterCoverage, ROUTER_CORPUS, type RouterCorpusEntry } from '../router-corpus';
+
+function routed(entry: RouterCorpusEntry) {
+    const route = routeIntent(entry.message, entry.language);
+    return shouldUseRoute(route) ? route : null;
+}
+
+describe('routeIntent', () => {
+    const routable = ROUTER_CORPUS.filter((entry) => entry.intent !== null);
+    const passThrough = ROUTER_CORPUS.filter((entry) => entry.intent === null);
+
+    it.each(routable.map((entry) => [entry.message, entry] as const))('routes "%s"', (_message, entry) => {
+        const route = routed(entry);
+        expect(route?.intent).toBe(entry.intent);
+        expect(route?.args).toMatchObject(entry.args ?? {});
+    });
+
+    it.each(passThrough.map((entry) => [entry.message, entry] as const))('leaves "%s" to the model', (_message, entry) => {
+        expect(routed(entry)).toBeNull();
+    });
+});
+
+describe('measureRouterCoverage', () => {
+    it('reports every corpus entry as passed', () => {
+        const report = measureRouterCoverage();
+        expect(report.failures).toEqual([]);
+        expect(report.hitRate).toBe(1);
+    });
+});
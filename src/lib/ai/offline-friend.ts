@@ -0,0 +1,400 @@
+/**
+ * Offline Friend Engine
+ *
+ * A deterministic conversational fallback for the Friend persona when no AI
+ * provider is reachable. It answers status questions from the game store,
+ * walks through two scripted dialogs (task breakdown and "what's blocking
+ * you") and runs explicit commands through the same tool implementations the
+ * model uses, so confirmation and undo behave identically. Replies are plain
+ * zh/en templates; anything it does not recognize returns null.
+ */
+
+import { useGameStore } from '../../stores/game-store';
+import { toDateKey } from '../../stores/game-store-helpers';
+import { getDayKey } from '../calendar-day';
+import { executeTool, undoRecentActions } from './tools';
+import { normalizeMessage, type RouterLanguage } from './router';
+import type { CustomTask } from '../../types/task';
+
+export type BlockerReason = 'unclear' | 'too_big' | 'low_energy' | 'waiting' | 'unwilling';
+
+/**
+ * Where a scripted dialog stands. Kept by the caller between messages.
+ * - breakdown: task → goal → steps → confirm
+ * - blocker: task → reason, then hands off to breakdown or a follow-up task
+ */
+export type OfflineDialog =
+    | { kind: 'breakdown'; step: 'task'; options: string[] }
+    | { kind: 'breakdown'; step: 'goal'; taskName: string }
+    | { kind: 'breakdown'; step: 'steps'; taskName: string; goal: string }
+    | { kind: 'confirm_tasks'; titles: string[]; description?: string }
+    | { kind: 'blocker'; step: 'task'; options: string[] }
+    | { kind: 'blocker'; step: 'reason'; taskName: string };
+
+export interface OfflineFriendReply {
+    message: string;
+    toolsExecuted: { name: string; result: unknown }[];
+    /** Dialog to resume with the next message, null when none is open */
+    dialog: OfflineDialog | null;
+}
+
+interface ToolResultLike {
+    success?: boolean;
+    pending?: boolean;
+    message?: string;
+    error?: string;
+}
+
+const MAX_LISTED = 8;
+const MAX_STEPS = 7;
+/** Longer input is a prompt or pasted text, not something to parse as a command */
+const MAX_MESSAGE_LENGTH = 200;
+
+// --- Pattern tables ---
+
+const CANCEL = /^(算了|取消|不用了|退出|结束|cancel|stop|never ?mind|forget it|quit)$/;
+const YES = /^(好|好的|好啊|可以|行|嗯|是|是的|添加|加上|创建|确认|ok|okay|yes|yep|sure|add them|add|create|confirm)$/;
+const HELP = /^(帮助|help|\?|你能做什么|能做什么|你会什么|命令|commands?|what can you do)$/;
+
+const STATUS_PATTERNS: Array<{ topic: 'today' | 'streak' | 'gold' | 'energy' | 'status'; pattern: RegExp }> = [
+    { topic: 'today', pattern: /今天.*(任务|要做|待办|安排)|今日(任务|待办|安排)|\btoday s (tasks?|plan|agenda)\b|\b(tasks?|plan|agenda) (for )?today\b|\bwhat (do i have|should i do|is on) today\b/ },
+    { topic: 'streak', pattern: /连续|打卡|连胜|\bstreaks?\b|\bhabits?\b/ },
+    { topic: 'gold', pattern: /金币|余额|多少钱|还有多少金|\bgold\b|\bbalance\b|\bmoney\b/ },
+    { topic: 'energy', pattern: /精力|体力|\benergy\b/ },
+    { topic: 'status', pattern: /状态|等级|\bstatus\b|\blevel\b|\bhow am i doing\b|\bstats\b/ },
+];
+
+const BREAKDOWN_START = /^(?:帮我)?(?:拆解|拆分|分解|拆)(?:一下)?(?:任务)?[:：\s]*(.*)$|^(?:help me )?break (?:down )?(.*?)(?: down)?$/;
+const BLOCKER_START = /卡住|卡壳|阻碍|拖延|做不下去|不想做|\bstuck\b|\bblock(ed|ing|er)\b|\bprocrastinat/;
+
+const BLOCKER_REASONS: Array<{ reason: BlockerReason; pattern: RegExp }> = [
+    { reason: 'unclear', pattern: /^1$|不知道从哪|不清楚|没头绪|\bwhere to start\b|\bunclear\b|\bconfus/ },
+    { reason: 'too_big', pattern: /^2$|太大|太多|太复杂|\btoo (big|much|large)\b|\boverwhelm/ },
+    { reason: 'low_energy', pattern: /^3$|累|没精力|没力气|困|\btired\b|\bexhausted\b|\bno energy\b/ },
+    { reason: 'waiting', pattern: /^4$|等|缺信息|别人|\bwaiting\b|\bblocked by\b|\bneed info\b|\bsomeone\b/ },
+    { reason: 'unwilling', pattern: /^5$|不想|没意义|没兴趣|\bdon t want\b|\bpointless\b|\bbored\b/ },
+];
+
+// --- Helpers ---
+
+function openTasks(): CustomTask[] {
+    return useGameStore.getState().customTasks.filter((task) => !task.completed && task.status !== 'completed');
+}
+
+function findTask(query: string, options: string[] = []): CustomTask | undefined {
+    const index = Number(query);
+    const name = Number.isInteger(index) && index >= 1 && index <= options.length ? options[index - 1] : query;
+    const keyword = name.toLowerCase();
+    return openTasks().find((task) => task.name.toLowerCase() === keyword)
+        || openTasks().find((task) => task.name.toLowerCase().includes(keyword));
+}
+
+function numbered(items: string[]): string {
+    return items.map((item, index) => `${index + 1}. ${item}`).join('\n');
+}
+
+function splitSteps(text: string): string[] {
+    return text
+        .split(/\n|[;；]|(?:^|\s)\d+[.、)]\s*/)
+        .map((step) => step.replace(/^[-*•]\s*/, '').trim())
+        .filter(Boolean)
+        .slice(0, MAX_STEPS);
+}
+
+function parseDeadline(text: string): { title: string; deadline?: string } {
+    const explicit = text.match(/\s+(\d{4}-\d{2}-\d{2})$/);
+    if (explicit) return { title: text.slice(0, explicit.index).trim(), deadline: explicit[1] };
+
+    const relative = text.match(/\s+(今天|明天|today|tomorrow)$/i);
+    if (!relative) return { title: text.trim() };
+    const date = new Date();
+    if (/明天|tomorrow/i.test(relative[1])) date.setDate(date.getDate() + 1);
+    return { title: text.slice(0, relative.index).trim(), deadline: toDateKey(date) };
+}
+
+function reply(message: string, dialog: OfflineDialog | null = null, toolsExecuted: OfflineFriendReply['toolsExecuted'] = []): OfflineFriendReply {
+    return { message, toolsExecuted, dialog };
+}
+
+function describeResult(result: unknown, done: string, language: RouterLanguage): string {
+    const isZh = language === 'zh';
+    const outcome = (result && typeof result === 'object' ? result : {}) as ToolResultLike;
+    if (outcome.pending) {
+        return isZh ? `⏳ 已放入待确认列表：${done}。确认后才会执行。` : `⏳ Queued for confirmation: ${done}. Nothing changes until you confirm it.`;
+    }
+    if (outcome.success) return `✅ ${done}`;
+    const reason = outcome.message || outcome.error || (isZh ? '未知错误' : 'unknown error');
+    return isZh ? `❌ 没有成功：${reason}` : `❌ That didn't work: ${reason}`;
+}
+
+/**
+ * What the offline Friend understands, shown for `help` and unrecognized input
+ */
+export function getOfflineHelp(language: RouterLanguage): string {
+    return language === 'zh'
+        ? `喵~ 现在是离线模式，我能做这些：
+- 问状态：「今天有什么任务」「连续打卡」「金币」「精力」「状态」
+- 聊一聊：「帮我拆解 写周报」「我卡住了」
+- 直接执行：「添加任务 写周报 明天」「删除任务 写周报」「支出 35 午饭」「收入 200 奖金」「兑换 奶茶」「精力 60」「撤销」`
+        : `Meow~ I'm offline right now, but I can still:
+- Answer status: "today's tasks", "streaks", "gold", "energy", "status"
+- Talk it through: "break down weekly report", "I'm stuck"
+- Run commands: "add task Weekly report tomorrow", "delete task Weekly report", "spent 35 lunch", "income 200 bonus", "redeem boba", "energy 60", "undo"`;
+}
+
+// --- Explicit commands ---
+
+async function runCommand(raw: string, language: RouterLanguage): Promise<OfflineFriendReply | null> {
+    const isZh = language === 'zh';
+    const text = raw.trim();
+    const call = async (toolName: string, args: Record<string, unknown>, done: string) => {
+        const result = await executeTool(toolName, args);
+        return reply(describeResult(result, done, language), null, [{ name: toolName, result }]);
+    };
+
+    const add = text.match(/^(?:添加|新建|创建)任务[:：\s]*(.+)$/) || text.match(/^(?:add|new) task[:\s]+(.+)$/i);
+    if (add) {
+        const { title, deadline } = parseDeadline(add[1]);
+        if (!title) return null;
+        return call('add_task', { title, ...(deadline ? { deadline } : {}) },
+            isZh ? `已添加任务「${title}」${deadline ? `（截止 ${deadline}）` : ''}` : `Added task "${title}"${deadline ? ` (due ${deadline})` : ''}`);
+    }
+
+    const remove = text.match(/^(?:删除|删掉)任务[:：\s]*(.+)$/) || text.match(/^(?:delete|remove) task[:\s]+(.+)$/i);
+    if (remove) {
+        const taskName = remove[1].trim();
+        return call('delete_task', { taskName }, isZh ? `删除任务「${taskName}」` : `delete task "${taskName}"`);
+    }
+
+    const money = text.match(/^(支出|花了|收入|进账)\s*(\d+(?:\.\d+)?)\s*(.*)$/)
+        || text.match(/^(spent|expense|income|earned)\s+(\d+(?:\.\d+)?)\s*(?:on\s+|for\s+)?(.*)$/i);
+    if (money) {
+        const isIncome = /收入|进账|income|earned/i.test(money[1]);
+        const amount = Number(money[2]);
+        const reason = money[3].trim();
+        const args = { amount, ...(reason ? { category: reason, reason } : {}) };
+        return isIncome
+            ? call('record_income', args, isZh ? `记录收入 +${amount} 金币` : `Recorded income +${amount} gold`)
+            : call('record_expense', args, isZh ? `记录支出 -${amount} 金币` : `record expense -${amount} gold`);
+    }
+
+    const redeem = text.match(/^兑换[:：\s]*(.+)$/) || text.match(/^redeem\s+(.+)$/i);
+    if (redeem) {
+        const rewardName = redeem[1].trim();
+        return call('redeem_reward', { rewardName }, isZh ? `兑换「${rewardName}」` : `redeem "${rewardName}"`);
+    }
+
+    const energy = text.match(/^(?:精力|体力)\s*(?:设为|改为)?\s*(\d{1,3})$/) || text.match(/^(?:set )?energy(?: to)?\s+(\d{1,3})$/i);
+    if (energy) {
+        const value = Math.min(100, Number(energy[1]));
+        return call('update_energy', { value, mode: 'set', reason: 'offline command' }, isZh ? `精力已设为 ${value}` : `Energy set to ${value}`);
+    }
+
+    if (/^(撤销|撤回)$|^undo$/i.test(text)) {
+        const undone = undoRecentActions(1);
+        return reply(undone > 0
+            ? (isZh ? '↩️ 已撤销上一步操作。' : '↩️ Undid the last action.')
+            : (isZh ? '没有可以撤销的操作。' : 'There is nothing to undo.'));
+    }
+
+    return null;
+}
+
+// --- Status answers ---
+
+async function answerStatus(topic: (typeof STATUS_PATTERNS)[number]['topic'], language: RouterLanguage): Promise<OfflineFriendReply> {
+    const isZh = language === 'zh';
+    const state = useGameStore.getState();
+
+    if (topic === 'today') {
+        const today = getDayKey();
+        const tasks = openTasks();
+        const dueToday = tasks.filter((task) => task.deadline?.slice(0, 10) === today);
+        const overdue = tasks.filter((task) => task.deadline && task.deadline.slice(0, 10) < today);
+        const doneToday = state.customTasks.filter((task) => task.completedAt && getDayKey(task.completedAt) === today).length;
+        const list = [...overdue, ...dueToday].slice(0, MAX_LISTED).map((task) => (
+            task.deadline!.slice(0, 10) < today ? `${task.name}${isZh ? '（已逾期）' : ' (overdue)'}` : task.name
+        ));
+        const header = isZh
+            ? `今天到期 ${dueToday.length} 个，逾期 ${overdue.length} 个，已完成 ${doneToday} 个，待办总数 ${tasks.length}。`
+            : `${dueToday.length} due today, ${overdue.length} overdue, ${doneToday} done today, ${tasks.length} open in total.`;
+        return reply(list.length > 0 ? `${header}\n${numbered(list)}` : `${header}\n${isZh ? '今天没有到期的任务，挑一个想做的吧 🐱' : 'Nothing is due today, pick whatever you like 🐱'}`);
+    }
+
+    if (topic === 'streak') {
+        const habits = state.habits.filter((habit) => habit.active).sort((a, b) => b.streak - a.streak).slice(0, MAX_LISTED);
+        if (habits.length === 0) {
+            return reply(isZh ? '还没有在追踪的习惯哦。' : "You aren't tracking any habits yet.");
+        }
+        const lines = habits.map((habit) => (isZh
+            ? `${habit.emoji || '•'} ${habit.name}：连续 ${habit.streak} 天（最长 ${habit.longestStreak}）`
+            : `${habit.emoji || '•'} ${habit.name}: ${habit.streak}-day streak (best ${habit.longestStreak})`));
+        return reply(lines.join('\n'));
+    }
+
+    const result = await executeTool('get_player_status', {});
+    const status = result as { hp: number; energy: number; gold: number; level: number; title?: string };
+    const toolsExecuted = [{ name: 'get_player_status', result }];
+
+    if (topic === 'gold') {
+        return reply(isZh ? `💰 现在有 ${status.gold} 金币。` : `💰 You have ${status.gold} gold.`, null, toolsExecuted);
+    }
+    if (topic === 'energy') {
+        const hint = status.energy < 30
+            ? (isZh ? '有点低了，先休息一下或做个轻松的任务吧。' : "That's low, rest a bit or pick a light task.")
+            : (isZh ? '状态不错，适合推进重要的事。' : 'Good enough for something that matters.');
+        return reply(isZh ? `⚡ 精力 ${status.energy}/100。${hint}` : `⚡ Energy ${status.energy}/100. ${hint}`, null, toolsExecuted);
+    }
+    return reply(`Lv.${status.level}${status.title ? ` ${status.title}` : ''} · ❤️ ${status.hp} · ⚡ ${status.energy} · 💰 ${status.gold}`, null, toolsExecuted);
+}
+
+// --- Scripted dialogs ---
+
+function askForTask(kind: 'breakdown' | 'blocker', language: RouterLanguage): OfflineFriendReply {
+    const isZh = language === 'zh';
+    const options = openTasks().slice(0, MAX_LISTED).map((task) => task.name);
+    const question = kind === 'breakdown'
+        ? (isZh ? '想拆解哪个任务？' : 'Which task should we break down?')
+        : (isZh ? '是哪个任务让你卡住了？' : 'Which task are you stuck on?');
+    const hint = options.length > 0
+        ? `\n${numbered(options)}\n${isZh ? '回复序号或任务名。' : 'Reply with a number or the task name.'}`
+        : `\n${isZh ? '直接告诉我任务名就好。' : 'Just tell me the task name.'}`;
+    return reply(question + hint, { kind, step: 'task', options });
+}
+
+function askForGoal(taskName: string, language: RouterLanguage): OfflineFriendReply {
+    return reply(language === 'zh'
+        ? `好，来拆「${taskName}」📝\n先用一句话说说：做完的时候，具体交付的是什么？`
+        : `OK, let's break down "${taskName}" 📝\nIn one sentence: what exists when it's done?`,
+    { kind: 'breakdown', step: 'goal', taskName });
+}
+
+function askForReason(taskName: string, language: RouterLanguage): OfflineFriendReply {
+    const isZh = language === 'zh';
+    const reasons = isZh
+        ? ['不知道从哪开始', '任务太大了', '没精力', '在等别人 / 缺信息', '其实不想做']
+        : ["Don't know where to start", "It's too big", 'No energy', 'Waiting on someone / missing info', "Don't really want to"];
+    return reply(isZh
+        ? `「${taskName}」卡在哪里了？\n${numbered(reasons)}`
+        : `What's blocking "${taskName}"?\n${numbered(reasons)}`,
+    { kind: 'blocker', step: 'reason', taskName });
+}
+
+function adviseOnBlocker(taskName: string, reason: BlockerReason, language: RouterLanguage): OfflineFriendReply {
+    const isZh = language === 'zh';
+    if (reason === 'unclear' || reason === 'too_big') {
+        const next = askForGoal(taskName, language);
+        const lead = reason === 'unclear'
+            ? (isZh ? '不知道从哪开始，通常是终点还不清楚。' : 'Not knowing where to start usually means the finish line is fuzzy.')
+            : (isZh ? '太大的任务就把它切小。' : 'Too big means it needs cutting down.');
+        return { ...next, message: `${lead}\n${next.message}` };
+    }
+    if (reason === 'low_energy') {
+        const energy = useGameStore.getState().resources.energy.current;
+        const light = openTasks().filter((task) => task.effort === 'light').slice(0, 3).map((task) => task.name);
+        const message = isZh
+            ? `精力现在是 ${energy}/100。先休息 15 分钟，或者做一个轻量任务热身${light.length > 0 ? `：\n${numbered(light)}` : '。'}\n「${taskName}」等状态好一点再来 💤`
+            : `Energy is at ${energy}/100. Take 15 minutes off, or warm up with a light task${light.length > 0 ? `:\n${numbered(light)}` : '.'}\nCome back to "${taskName}" once you've recharged 💤`;
+        return reply(message);
+    }
+    if (reason === 'waiting') {
+        const title = isZh ? `跟进：${taskName}` : `Follow up: ${taskName}`;
+        return reply(isZh
+            ? `等别人的时候，最好的动作是发一条明确的跟进消息。要我添加任务「${title}」吗？回复「好」添加。`
+            : `While you wait, the best move is one clear follow-up message. Add a task "${title}"? Reply "yes" to add it.`,
+        { kind: 'confirm_tasks', titles: [title] });
+    }
+    return reply(isZh
+        ? `不想做也是一种信号。问问自己：如果不做「${taskName}」，最坏会怎样？\n如果答案是「没什么」，可以说「删除任务 ${taskName}」；如果必须做，就只做 5 分钟试试。`
+        : `Not wanting to is a signal too. What's the worst that happens if "${taskName}" never gets done?\nIf "nothing much", say "delete task ${taskName}"; if it must happen, commit to just 5 minutes.`);
+}
+
+async function continueDialog(text: string, raw: string, dialog: OfflineDialog, language: RouterLanguage): Promise<OfflineFriendReply> {
+    const isZh = language === 'zh';
+
+    if (dialog.kind === 'confirm_tasks') {
+        if (!YES.test(text)) {
+            return reply(isZh ? '好，那就先不加。需要的时候再叫我 🐱' : "OK, I won't add them. Call me when you need me 🐱");
+        }
+        const toolsExecuted: OfflineFriendReply['toolsExecuted'] = [];
+        for (const title of dialog.titles) {
+            const result = await executeTool('add_task', { title, ...(dialog.description ? { description: dialog.description } : {}) });
+            toolsExecuted.push({ name: 'add_task', result });
+        }
+        const added = toolsExecuted.filter(({ result }) => (result as ToolResultLike)?.success).length;
+        return reply(isZh
+            ? `✅ 已添加 ${added} 个任务。从第一个开始，只做 25 分钟就好 💪`
+            : `✅ Added ${added} task${added === 1 ? '' : 's'}. Start with the first one, just 25 minutes 💪`, null, toolsExecuted);
+    }
+
+    if (dialog.step === 'task') {
+        const taskName = findTask(raw.trim(), dialog.options)?.name || raw.trim();
+        return dialog.kind === 'breakdown' ? askForGoal(taskName, language) : askForReason(taskName, language);
+    }
+
+    if (dialog.kind === 'blocker') {
+        const match = BLOCKER_REASONS.find(({ pattern }) => pattern.test(text));
+        if (!match) {
+            return { ...askForReason(dialog.taskName, language), message: isZh ? '选一个最接近的吧（回复 1-5）：' : 'Pick the closest one (reply 1-5):' };
+        }
+        return adviseOnBlocker(dialog.taskName, match.reason, language);
+    }
+
+    if (dialog.step === 'goal') {
+        return reply(isZh
+            ? `目标：${raw.trim()}\n现在列出 2-5 个步骤，每一步 30 分钟到 2 小时能做完。每行一个，或用分号隔开。`
+            : `Goal: ${raw.trim()}\nNow list 2-5 steps, each doable in 30 minutes to 2 hours. One per line, or separated by semicolons.`,
+        { kind: 'breakdown', step: 'steps', taskName: dialog.taskName, goal: raw.trim() });
+    }
+
+    const steps = splitSteps(raw);
+    if (steps.length === 0) {
+        return reply(isZh ? '没读到步骤，再列一次吧（每行一个）。' : "I didn't catch any steps, list them again (one per line).", dialog);
+    }
+    const titles = steps.map((step) => `${dialog.taskName} · ${step}`);
+    return reply(isZh
+        ? `拆好了 🎯 ${dialog.goal}\n${numbered(steps)}\n${steps.length === 1 ? '只有一步的话，它本身可能就是下一步行动。' : ''}要把这些加为任务吗？回复「好」添加。`
+        : `Here's the plan 🎯 ${dialog.goal}\n${numbered(steps)}\n${steps.length === 1 ? 'With a single step, that step is probably your next action. ' : ''}Add these as tasks? Reply "yes" to add them.`,
+    { kind: 'confirm_tasks', titles, description: dialog.goal });
+}
+
+// --- Entry point ---
+
+/**
+ * Reply to a chat message without a model, or null when nothing matched.
+ * Explicit commands and cancel words always win over an open dialog.
+ */
+export async function replyOffline(
+    message: string,
+    dialog: OfflineDialog | null,
+    language: RouterLanguage
+): Promise<OfflineFriendReply | null> {
+    const text = normalizeMessage(message);
+    if (!text || (!dialog && text.length > MAX_MESSAGE_LENGTH)) return null;
+
+    if (dialog && CANCEL.test(text)) {
+        return reply(language === 'zh' ? '好，先到这里。' : 'OK, stopping here.');
+    }
+
+    const command = await runCommand(message, language);
+    if (command) return command;
+
+    if (HELP.test(text)) return reply(getOfflineHelp(language), dialog);
+
+    if (dialog) return continueDialog(text, message, dialog, language);
+
+    const breakdown = message.trim().match(BREAKDOWN_START) || text.match(BREAKDOWN_START);
+    if (breakdown) {
+        const name = (breakdown[1] || breakdown[2] || '').replace(/^(it|this|a task|task)$/, '').trim();
+        return name ? askForGoal(findTask(name)?.name || name, language) : askForTask('breakdown', language);
+    }
+
+    if (BLOCKER_START.test(text)) {
+        return askForTask('blocker', language);
+    }
+
+    const status = STATUS_PATTERNS.find(({ pattern }) => pattern.test(text));
+    if (status) return answerStatus(status.topic, language);
+
+    return null;
+}
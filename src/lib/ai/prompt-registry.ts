@@ -0,0 +1,148 @@
+/**
+ * Prompt registry
+ *
+ * Resolves named templates (src/config/prompt-templates.ts) to text in the
+ * UI language, using the user's active override when there is one. A
+ * rendered prompt carries the version id of every template that went into it;
+ * services record those ids with the AI output so versions can be compared.
+ */
+
+import { PROMPT_TEMPLATES } from '../../config/prompt-templates';
+import { usePromptStore } from '../../stores/prompt-store';
+import { useUIStore } from '../../stores/ui-store';
+import type { AIFeature, PromptId, PromptLanguage, PromptOutputRecord, PromptOverride, PromptVersions } from '../../types/ai';
+
+export interface RenderedPrompt {
+    text: string;
+    versions: PromptVersions;
+}
+
+/** A rendered prompt used as a variable is inlined and its versions are kept */
+export type PromptVariable = string | number | boolean | RenderedPrompt | null | undefined;
+
+export interface PromptVersionInfo {
+    versionId: string;
+    builtin: boolean;
+    createdAt?: string;
+}
+
+export const PROMPT_IDS = Object.keys(PROMPT_TEMPLATES) as PromptId[];
+
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)(?:\|([^}]*))?\}\}/g;
+
+export function builtinVersionId(promptId: PromptId): string {
+    return `v${PROMPT_TEMPLATES[promptId].version}`;
+}
+
+/**
+ * Components pass the store slices they subscribe to; services read the current state
+ */
+type PromptSelection = Pick<ReturnType<typeof usePromptStore.getState>, 'active' | 'overrides'>;
+
+export function getActivePromptVersion(promptId: PromptId, state: PromptSelection = usePromptStore.getState()): string {
+    const { active, overrides } = state;
+    const versionId = active[promptId];
+    return versionId && overrides.some((override) => override.promptId === promptId && override.versionId === versionId)
+        ? versionId
+        : builtinVersionId(promptId);
+}
+
+/**
+ * Built-in version first, then the user's versions oldest first
+ */
+export function listPromptVersions(
+    promptId: PromptId,
+    overrides: PromptOverride[] = usePromptStore.getState().overrides
+): PromptVersionInfo[] {
+    return [
+        { versionId: builtinVersionId(promptId), builtin: true },
+        ...overrides
+            .filter((override) => override.promptId === promptId)
+            .map((override) => ({ versionId: override.versionId, builtin: false, createdAt: override.createdAt })),
+    ];
+}
+
+/**
+ * Template text of a version; an override left empty for a language falls back to the built-in text
+ */
+export function getPromptText(
+    promptId: PromptId,
+    versionId: string,
+    language: PromptLanguage,
+    overrides: PromptOverride[] = usePromptStore.getState().overrides
+): string {
+    const template = PROMPT_TEMPLATES[promptId];
+    const override = overrides
+        .find((candidate) => candidate.promptId === promptId && candidate.versionId === versionId);
+    return override?.[language].trim() ? override[language] : template[language];
+}
+
+function isEmpty(value: PromptVariable): boolean {
+    return value === undefined || value === null || value === false || value === ''
+        || (typeof value === 'object' && value.text === '');
+}
+
+function toText(value: PromptVariable): string {
+    if (isEmpty(value)) return '';
+    return typeof value === 'object' && value !== null ? value.text : String(value);
+}
+
+/**
+ * Fill `{{name}}`, `{{name|fallback}}` and `{{#name}}` / `{{^name}}` sections; unknown names render empty
+ */
+export function fillTemplate(text: string, variables: Record<string, PromptVariable>): string {
+    const withSections = text.replace(SECTION_PATTERN, (_match, kind: string, name: string, body: string) => {
+        const keep = kind === '#' ? !isEmpty(variables[name]) : isEmpty(variables[name]);
+        return keep ? fillTemplate(body, variables) : '';
+    });
+    return withSections.replace(VARIABLE_PATTERN, (_match, name: string, fallback?: string) =>
+        isEmpty(variables[name]) ? fallback ?? '' : toText(variables[name])
+    );
+}
+
+export function renderPrompt(
+    promptId: PromptId,
+    variables: Record<string, PromptVariable> = {},
+    language: PromptLanguage = useUIStore.getState().language
+): RenderedPrompt {
+    const versionId = getActivePromptVersion(promptId);
+    const text = fillTemplate(getPromptText(promptId, versionId, language), variables)
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+
+    const versions: PromptVersions = {};
+    for (const value of Object.values(variables)) {
+        if (typeof value === 'object' && value !== null) Object.assign(versions, value.versions);
+    }
+    versions[promptId] = versionId;
+    return { text, versions };
+}
+
+/**
+ * Names used in `text` that the template does not provide
+ */
+export function findUnknownVariables(promptId: PromptId, text: string): string[] {
+    const known = new Set(PROMPT_TEMPLATES[promptId].variables);
+    const used = new Set<string>();
+    for (const match of text.matchAll(SECTION_PATTERN)) used.add(match[2]);
+    for (const match of text.matchAll(VARIABLE_PATTERN)) used.add(match[1]);
+    return [...used].filter((name) => !known.has(name));
+}
+
+export function recordPromptOutput(entry: {
+    feature: AIFeature;
+    language: PromptLanguage;
+    versions: PromptVersions;
+    output: string;
+}): void {
+    if (!entry.output.trim()) return;
+    usePromptStore.getState().recordOutput({ ...entry, at: new Date().toISOString() });
+}
+
+/**
+ * Outputs produced with the given version of a prompt, newest first
+ */
+export function getPromptOutputs(records: PromptOutputRecord[], promptId: PromptId, versionId: string): PromptOutputRecord[] {
+    return records.filter((record) => record.versions[promptId] === versionId).reverse();
+}
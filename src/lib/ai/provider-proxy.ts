@@ -1,21 +1,30 @@
 import type { Content } from '@google/genai';
 
-export const AI_PROVIDER = (import.meta.env.VITE_AI_PROVIDER || 'gemini') as 'openai' | 'gemini';
+/** Default provider id; see `providers/registry.ts` for per-role chains */
+export const AI_PROVIDER: string = import.meta.env.VITE_AI_PROVIDER || 'gemini';
 export const OPENAI_MODEL = import.meta.env.VITE_OPENAI_MODEL || 'gpt-4o-mini';
 export const GEMINI_MODEL = import.meta.env.VITE_GEMINI_MODEL || 'gemini-2.0-flash';
+/** Empty = let the bridge use LOCAL_AI_MODEL */
+export const LOCAL_AI_MODEL = import.meta.env.VITE_LOCAL_AI_MODEL || '';
 const BRIDGE_TOKEN = import.meta.env.VITE_BRIDGE_TOKEN || '';
 
-interface OpenAIChatRequest {
+/** Bridge route family for OpenAI-compatible backends: the OpenAI API or a local server (llama.cpp, Ollama, ...) */
+export type OpenAICompatibleEndpoint = 'openai' | 'local';
+
+export interface OpenAIChatRequest {
   model: string;
   messages: Array<Record<string, unknown>>;
   tools?: Array<Record<string, unknown>>;
   tool_choice?: 'auto';
-  response_format?: { type: 'json_object' };
+  response_format?:
+    | { type: 'json_object' }
+    | { type: 'json_schema'; json_schema: { name: string; schema: Record<string, unknown>; strict: boolean } };
   temperature?: number;
   max_tokens?: number;
+  stream_options?: { include_usage: boolean };
 }
 
-interface GeminiGenerateRequest {
+export interface GeminiGenerateRequest {
   model: string;
   config?: Record<string, unknown>;
   contents: Content[];
@@ -35,12 +44,19 @@ function normalizeGeminiBody(payload: GeminiGenerateRequest): Record<string, unk
   };
 }
 
-async function postJson<T>(path: string, payload: Record<string, unknown>): Promise<T> {
+function bridgeHeaders(feature?: string): Record<string, string> {
+  return {
+    ...(BRIDGE_TOKEN ? { 'x-bridge-token': BRIDGE_TOKEN } : {}),
+    ...(feature ? { 'x-ai-feature': feature } : {}),
+  };
+}
+
+async function postJson<T>(path: string, payload: Record<string, unknown>, feature?: string): Promise<T> {
   const response = await fetch(path, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      ...(BRIDGE_TOKEN ? { 'x-bridge-token': BRIDGE_TOKEN } : {}),
+      ...bridgeHeaders(feature),
     },
     body: JSON.stringify(payload),
   });
@@ -62,14 +78,170 @@ async function postJson<T>(path: string, payload: Record<string, unknown>): Prom
   return data as T;
 }
 
-export async function proxyOpenAIChat(payload: OpenAIChatRequest): Promise<Record<string, unknown>> {
-  return postJson<Record<string, unknown>>('/mcp/ai/openai/chat', payload as unknown as Record<string, unknown>);
+export async function proxyOpenAIChat(
+  payload: OpenAIChatRequest,
+  endpoint: OpenAICompatibleEndpoint = 'openai',
+  feature?: string
+): Promise<Record<string, unknown>> {
+  return postJson<Record<string, unknown>>(`/mcp/ai/${endpoint}/chat`, payload as unknown as Record<string, unknown>, feature);
 }
 
-export async function proxyGeminiGenerate(payload: GeminiGenerateRequest): Promise<Record<string, unknown>> {
+export async function proxyGeminiGenerate(payload: GeminiGenerateRequest, feature?: string): Promise<Record<string, unknown>> {
   const normalizedBody = normalizeGeminiBody(payload);
   return postJson<Record<string, unknown>>('/mcp/ai/gemini/generate', {
     model: payload.model,
     body: normalizedBody,
+  }, feature);
+}
+
+/** Per-feature totals from the bridge's own AI call log (`GET /ai/usage`) */
+export interface BridgeAIUsage {
+  since: string;
+  features: Record<string, {
+    calls: number;
+    errors: number;
+    aborted: number;
+    inputTokens: number;
+    outputTokens: number;
+    avgLatencyMs: number;
+  }>;
+}
+
+export async function fetchBridgeAIUsage(days: number = 1): Promise<BridgeAIUsage> {
+  const response = await fetch(`/mcp/ai/usage?days=${days}`, { headers: bridgeHeaders() });
+  const data = await response.json().catch(() => ({})) as Record<string, unknown>;
+  if (!response.ok) {
+    throw new Error(typeof data.error === 'string' ? data.error : `HTTP ${response.status}`);
+  }
+  return data as unknown as BridgeAIUsage;
+}
+
+/**
+ * Error message carried by a stream event, or null for a regular chunk. Covers
+ * the bridge's own `{ error: string }` and provider errors relayed as-is
+ * (`{ error: { message, type } }` from OpenAI and Gemini).
+ */
+function getStreamError(payload: Record<string, unknown>): string | null {
+  const { error } = payload;
+  if (typeof error === 'string') return error || 'AI provider stream failed';
+  if (error && typeof error === 'object') {
+    const { message, type } = error as { message?: unknown; type?: unknown };
+    if (typeof message === 'string' && message) return message;
+    return typeof type === 'string' && type ? type : 'AI provider stream failed';
+  }
+  return null;
+}
+
+/**
+ * Parse a Server-Sent Events body into JSON payloads, one per `data:` event.
+ * Stops at `[DONE]` (OpenAI) or end of stream; an error event, from the bridge
+ * or relayed from the provider, is thrown.
+ */
+async function* readServerSentEvents(response: Response): AsyncGenerator<Record<string, unknown>> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseEvent = (event: string): Record<string, unknown> | 'done' | null => {
+    const data = event
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+    if (!data) return null;
+    if (data === '[DONE]') return 'done';
+    const payload = JSON.parse(data) as Record<string, unknown>;
+    const error = getStreamError(payload);
+    if (error) {
+      throw new Error(error);
+    }
+    return payload;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const payload = parseEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (payload === 'done') return;
+        if (payload) yield payload;
+        boundary = buffer.indexOf('\n\n');
+      }
+
+      if (done) {
+        const payload = parseEvent(buffer);
+        if (payload && payload !== 'done') yield payload;
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function* postStream(
+  path: string,
+  payload: Record<string, unknown>,
+  signal?: AbortSignal,
+  feature?: string
+): AsyncGenerator<Record<string, unknown>> {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      ...bridgeHeaders(feature),
+    },
+    body: JSON.stringify(payload),
+    signal,
   });
+
+  if (!response.ok) {
+    const raw = await response.text();
+    let message = response.statusText;
+    try {
+      const data = raw ? JSON.parse(raw) as Record<string, unknown> : {};
+      if (typeof data.error === 'string') message = data.error;
+    } catch {
+      // Non-JSON error body, keep the status text
+    }
+    throw new Error(message || `HTTP ${response.status}`);
+  }
+
+  yield* readServerSentEvents(response);
+}
+
+/**
+ * Stream an OpenAI chat completion. Yields the raw `chat.completion.chunk`
+ * objects (`choices[0].delta` carries text and tool-call fragments).
+ */
+export function streamOpenAIChat(
+  payload: OpenAIChatRequest,
+  signal?: AbortSignal,
+  endpoint: OpenAICompatibleEndpoint = 'openai',
+  feature?: string
+): AsyncGenerator<Record<string, unknown>> {
+  return postStream(`/mcp/ai/${endpoint}/chat/stream`, payload as unknown as Record<string, unknown>, signal, feature);
+}
+
+/**
+ * Stream a Gemini generation. Yields partial `GenerateContentResponse`
+ * objects; text parts are deltas, function calls arrive whole.
+ */
+export function streamGeminiGenerate(
+  payload: GeminiGenerateRequest,
+  signal?: AbortSignal,
+  feature?: string
+): AsyncGenerator<Record<string, unknown>> {
+  return postStream('/mcp/ai/gemini/stream', {
+    model: payload.model,
+    body: normalizeGeminiBody(payload),
+  }, signal, feature);
 }
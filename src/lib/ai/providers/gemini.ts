@@ -0,0 +1,166 @@
+/**
+ * Gemini provider
+ *
+ * Speaks generateContent through the bridge. Function calls are returned with
+ * their original part so thought signatures survive the next tool round.
+ */
+
+import type { Content, Part } from '@google/genai';
+import {
+  GEMINI_MODEL,
+  proxyGeminiGenerate,
+  streamGeminiGenerate,
+  type GeminiGenerateRequest,
+} from '../provider-proxy';
+import {
+  isAbortError,
+  type AIProvider,
+  type ProviderChatRequest,
+  type ProviderChatResult,
+  type ProviderMessage,
+  type ProviderToolCall,
+  type ProviderUsage,
+  type StreamOptions,
+} from './types';
+
+interface GeminiFunctionCall {
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+interface GeminiPartWithFunctionCall extends Part {
+  functionCall: GeminiFunctionCall;
+}
+
+interface GeminiResponseShape {
+  candidates?: Array<{
+    content?: {
+      parts?: Part[];
+    };
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+  };
+}
+
+function hasFunctionCall(part: Part): part is GeminiPartWithFunctionCall {
+  return 'functionCall' in part && !!part.functionCall;
+}
+
+function isVisibleText(part: Part): boolean {
+  return 'text' in part && typeof part.text === 'string' && !!part.text && !part.thought;
+}
+
+function toGeminiContents(messages: ProviderMessage[]): Content[] {
+  const contents: Content[] = [];
+  for (const message of messages) {
+    if (message.role === 'user') {
+      contents.push({ role: 'user', parts: [{ text: message.content }] });
+    } else if (message.role === 'assistant') {
+      const parts: Part[] = message.content ? [{ text: message.content }] : [];
+      for (const call of message.toolCalls || []) {
+        parts.push((call.raw as Part | undefined) ?? { functionCall: { name: call.name, args: call.args } });
+      }
+      contents.push({ role: 'model', parts });
+    } else {
+      // Consecutive tool results go back together in one user turn
+      const part: Part = { functionResponse: { name: message.name, response: { result: message.result } } };
+      const last = contents[contents.length - 1];
+      if (last?.role === 'user' && last.parts?.every((p) => 'functionResponse' in p)) {
+        last.parts.push(part);
+      } else {
+        contents.push({ role: 'user', parts: [part] });
+      }
+    }
+  }
+  return contents;
+}
+
+/** Thinking tokens are billed as output */
+function toUsage(metadata: GeminiResponseShape['usageMetadata']): ProviderUsage | undefined {
+  if (!metadata) return undefined;
+  return {
+    inputTokens: metadata.promptTokenCount || 0,
+    outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+  };
+}
+
+function fromGeminiParts(parts: Part[]): ProviderChatResult {
+  const toolCalls: ProviderToolCall[] = parts.filter(hasFunctionCall).map((part, index) => ({
+    id: `call_${index}`,
+    name: part.functionCall.name,
+    args: part.functionCall.args || {},
+    raw: part,
+  }));
+  const text = parts.filter(isVisibleText).map((part) => part.text).join('');
+  return { text, toolCalls };
+}
+
+/**
+ * Consume a streamGenerateContent response: text parts are deltas, function
+ * calls arrive whole and are dropped on abort. Each chunk repeats the running
+ * usage totals, so the last one wins.
+ */
+async function collectStream(request: GeminiGenerateRequest, stream: StreamOptions, feature?: string): Promise<ProviderChatResult> {
+  let text = '';
+  const functionCallParts: Part[] = [];
+  let usage: ProviderUsage | undefined;
+
+  try {
+    for await (const chunk of streamGeminiGenerate(request, stream.signal, feature)) {
+      usage = toUsage((chunk as GeminiResponseShape).usageMetadata) ?? usage;
+      const parts = (chunk as GeminiResponseShape).candidates?.[0]?.content?.parts || [];
+      for (const part of parts) {
+        if (hasFunctionCall(part)) {
+          functionCallParts.push(part);
+        } else if (isVisibleText(part)) {
+          text += part.text;
+          stream.onText?.(text);
+        }
+      }
+    }
+  } catch (error: unknown) {
+    if (!isAbortError(error)) throw error;
+  }
+
+  return {
+    text,
+    toolCalls: stream.signal?.aborted ? [] : fromGeminiParts(functionCallParts).toolCalls,
+    usage,
+  };
+}
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  defaultModel: GEMINI_MODEL,
+  async chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+    const generationConfig: Record<string, unknown> = {
+      ...(request.json || request.jsonSchema ? { responseMimeType: 'application/json' } : {}),
+      ...(request.jsonSchema ? { responseJsonSchema: request.jsonSchema.schema } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.maxTokens !== undefined ? { maxOutputTokens: request.maxTokens } : {}),
+    };
+    const payload: GeminiGenerateRequest = {
+      model: request.model,
+      config: {
+        ...(request.system ? { systemInstruction: request.system } : {}),
+        ...(request.tools?.length ? { tools: [{ functionDeclarations: request.tools }] } : {}),
+        ...(Object.keys(generationConfig).length > 0 ? { generationConfig } : {}),
+      },
+      contents: toGeminiContents(request.messages),
+    };
+
+    if (request.stream) {
+      return collectStream(payload, request.stream, request.feature);
+    }
+
+    const response = await proxyGeminiGenerate(payload, request.feature) as GeminiResponseShape;
+    return {
+      ...fromGeminiParts(response.candidates?.[0]?.content?.parts || []),
+      usage: toUsage(response.usageMetadata),
+    };
+  },
+};
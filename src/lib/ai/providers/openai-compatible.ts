@@ -0,0 +1,205 @@
+/**
+ * OpenAI-compatible provider
+ *
+ * Speaks the chat completions format. Used for the OpenAI API and for local
+ * servers exposing the same API (llama.cpp `server`, Ollama `/v1`, LM Studio),
+ * both reached through the bridge.
+ */
+
+import {
+  proxyOpenAIChat,
+  streamOpenAIChat,
+  type OpenAIChatRequest,
+  type OpenAICompatibleEndpoint,
+} from '../provider-proxy';
+import type { ToolDefinition } from '../tools';
+import {
+  isAbortError,
+  type AIProvider,
+  type ProviderChatRequest,
+  type ProviderChatResult,
+  type ProviderMessage,
+  type ProviderToolCall,
+  type ProviderUsage,
+  type StreamOptions,
+} from './types';
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+function normalizeOpenAISchema(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeOpenAISchema(item));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const schema = value as Record<string, unknown>;
+  const normalized: Record<string, unknown> = {};
+  const typeMap: Record<string, string> = {
+    OBJECT: 'object',
+    STRING: 'string',
+    NUMBER: 'number',
+    BOOLEAN: 'boolean',
+    ARRAY: 'array',
+    INTEGER: 'integer',
+  };
+
+  for (const [key, raw] of Object.entries(schema)) {
+    if (key === 'type' && typeof raw === 'string') {
+      normalized[key] = typeMap[raw] || raw.toLowerCase();
+      continue;
+    }
+    normalized[key] = normalizeOpenAISchema(raw);
+  }
+  return normalized;
+}
+
+function toOpenAITools(tools: ToolDefinition[]): Array<Record<string, unknown>> {
+  return tools.map((tool) => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: normalizeOpenAISchema({
+        type: 'object',
+        properties: tool.parameters.properties || {},
+        required: tool.parameters.required || [],
+      }),
+    },
+  }));
+}
+
+function toOpenAIMessages(system: string | undefined, messages: ProviderMessage[]): Array<Record<string, unknown>> {
+  const converted: Array<Record<string, unknown>> = system ? [{ role: 'system', content: system }] : [];
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      converted.push({ role: 'tool', tool_call_id: message.toolCallId, content: JSON.stringify(message.result) });
+    } else if (message.role === 'assistant' && message.toolCalls?.length) {
+      converted.push({
+        role: 'assistant',
+        content: message.content || '',
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.args) },
+        })),
+      });
+    } else {
+      converted.push({ role: message.role, content: message.content });
+    }
+  }
+  return converted;
+}
+
+function toUsage(raw: unknown): ProviderUsage | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const usage = raw as { prompt_tokens?: unknown; completion_tokens?: unknown };
+  return {
+    inputTokens: typeof usage.prompt_tokens === 'number' ? usage.prompt_tokens : 0,
+    outputTokens: typeof usage.completion_tokens === 'number' ? usage.completion_tokens : 0,
+  };
+}
+
+function parseToolCalls(toolCalls: OpenAIToolCall[]): ProviderToolCall[] {
+  return toolCalls
+    .filter((call) => call.type === 'function' && call.function?.name)
+    .map((call, index) => {
+      let args: Record<string, unknown> = {};
+      try {
+        args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+      } catch {
+        args = {};
+      }
+      return { id: call.id || `call_${index}`, name: call.function.name, args };
+    });
+}
+
+/**
+ * Consume a chat completion stream: text deltas are reported as they arrive,
+ * tool-call argument fragments are joined by index and dropped on abort.
+ * Usage arrives in a final chunk with no choices (`stream_options.include_usage`).
+ */
+async function collectStream(
+  request: OpenAIChatRequest,
+  stream: StreamOptions,
+  endpoint: OpenAICompatibleEndpoint,
+  feature?: string
+): Promise<ProviderChatResult> {
+  let text = '';
+  const toolCalls: OpenAIToolCall[] = [];
+  let usage: ProviderUsage | undefined;
+
+  try {
+    for await (const chunk of streamOpenAIChat({ ...request, stream_options: { include_usage: true } }, stream.signal, endpoint, feature)) {
+      usage = toUsage(chunk.usage) ?? usage;
+      const choices = Array.isArray(chunk.choices) ? chunk.choices as Array<Record<string, unknown>> : [];
+      const delta = (choices[0]?.delta || {}) as { content?: unknown; tool_calls?: unknown };
+
+      if (typeof delta.content === 'string' && delta.content) {
+        text += delta.content;
+        stream.onText?.(text);
+      }
+      if (Array.isArray(delta.tool_calls)) {
+        for (const fragment of delta.tool_calls as Array<{ index?: number; id?: string; function?: { name?: string; arguments?: string } }>) {
+          const index = typeof fragment.index === 'number' ? fragment.index : toolCalls.length;
+          toolCalls[index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+          const call = toolCalls[index];
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.function.name += fragment.function.name;
+          if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+        }
+      }
+    }
+  } catch (error: unknown) {
+    if (!isAbortError(error)) throw error;
+  }
+
+  return {
+    text,
+    toolCalls: stream.signal?.aborted ? [] : parseToolCalls(toolCalls.filter(Boolean)),
+    usage,
+  };
+}
+
+export function createOpenAICompatibleProvider(options: {
+  id: string;
+  label: string;
+  endpoint: OpenAICompatibleEndpoint;
+  defaultModel: string;
+}): AIProvider {
+  return {
+    id: options.id,
+    label: options.label,
+    defaultModel: options.defaultModel,
+    async chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+      const payload: OpenAIChatRequest = {
+        model: request.model,
+        messages: toOpenAIMessages(request.system, request.messages),
+        ...(request.tools?.length ? { tools: toOpenAITools(request.tools), tool_choice: 'auto' as const } : {}),
+        ...(request.jsonSchema
+          ? { response_format: { type: 'json_schema' as const, json_schema: { ...request.jsonSchema, strict: false } } }
+          : request.json ? { response_format: { type: 'json_object' as const } } : {}),
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+      };
+
+      if (request.stream) {
+        return collectStream(payload, request.stream, options.endpoint, request.feature);
+      }
+
+      const response = await proxyOpenAIChat(payload, options.endpoint, request.feature);
+      const choices = Array.isArray(response.choices) ? response.choices as Array<Record<string, unknown>> : [];
+      const message = (choices[0]?.message || null) as Record<string, unknown> | null;
+      return {
+        text: typeof message?.content === 'string' ? message.content : '',
+        toolCalls: Array.isArray(message?.tool_calls) ? parseToolCalls(message.tool_calls as OpenAIToolCall[]) : [],
+        usage: toUsage(response.usage),
+      };
+    },
+  };
+}
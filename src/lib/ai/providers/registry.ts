@@ -0,0 +1,130 @@
+/**
+ * AI provider registry
+ *
+ * Providers register under an id; each AI role resolves an ordered chain of
+ * `provider[:model]` entries and requests fall through the chain on failure.
+ *
+ * Configuration (.env):
+ * - VITE_AI_PROVIDER: primary provider for every role (default `gemini`)
+ * - VITE_AI_CHAIN: default chain, e.g. `gemini,openai` (default: the primary
+ *   provider, plus `openai` as fallback when the primary is `gemini`)
+ * - VITE_AI_FRIEND_CHAIN / VITE_AI_COACH_CHAIN / VITE_AI_ANALYSIS_CHAIN:
+ *   per-role chains, e.g. `gemini:gemini-2.0-flash` for Friend,
+ *   `openai:gpt-4o,gemini` for Coach, `local` to keep reflections on-machine
+ */
+
+import { AI_PROVIDER, LOCAL_AI_MODEL, OPENAI_MODEL } from '../provider-proxy';
+import { checkAIBudget, recordAICall } from '../telemetry';
+import { geminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { isAbortError, type AIProvider, type ProviderChatRequest, type ProviderChatResult } from './types';
+
+export type AIRole = 'friend' | 'coach' | 'analysis';
+
+export interface ProviderTarget {
+  provider: AIProvider;
+  model: string;
+}
+
+const providers = new Map<string, AIProvider>();
+
+export function registerProvider(provider: AIProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getRegisteredProvider(id: string): AIProvider | undefined {
+  return providers.get(id);
+}
+
+export function listProviders(): AIProvider[] {
+  return [...providers.values()];
+}
+
+registerProvider(geminiProvider);
+registerProvider(createOpenAICompatibleProvider({
+  id: 'openai',
+  label: 'OpenAI',
+  endpoint: 'openai',
+  defaultModel: OPENAI_MODEL,
+}));
+registerProvider(createOpenAICompatibleProvider({
+  id: 'local',
+  label: 'Local (OpenAI-compatible)',
+  endpoint: 'local',
+  defaultModel: LOCAL_AI_MODEL,
+}));
+
+const DEFAULT_CHAIN = import.meta.env.VITE_AI_CHAIN || (AI_PROVIDER === 'gemini' ? 'gemini,openai' : AI_PROVIDER);
+
+const ROLE_CHAINS: Record<AIRole, string> = {
+  friend: import.meta.env.VITE_AI_FRIEND_CHAIN || DEFAULT_CHAIN,
+  coach: import.meta.env.VITE_AI_COACH_CHAIN || DEFAULT_CHAIN,
+  analysis: import.meta.env.VITE_AI_ANALYSIS_CHAIN || DEFAULT_CHAIN,
+};
+
+/**
+ * Parse `provider[:model],...`. Only the first colon separates the model, so
+ * Ollama tags like `local:llama3.1:8b` work. Unknown providers are skipped.
+ */
+export function parseProviderChain(spec: string): ProviderTarget[] {
+  return spec
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      const separator = entry.indexOf(':');
+      const id = separator === -1 ? entry : entry.slice(0, separator);
+      const model = separator === -1 ? '' : entry.slice(separator + 1);
+      const provider = providers.get(id);
+      if (!provider) {
+        console.warn(`[AI] Unknown provider "${id}" in chain "${spec}", skipping`);
+        return [];
+      }
+      return [{ provider, model: model || provider.defaultModel }];
+    });
+}
+
+export function resolveProviderChain(role: AIRole): ProviderTarget[] {
+  return parseProviderChain(ROLE_CHAINS[role]);
+}
+
+/**
+ * Send the request to each target in turn until one succeeds. Aborts are
+ * never retried; the last error is rethrown when every target fails.
+ * With `request.feature` set, every attempt is recorded for telemetry and the
+ * request is refused up front when the feature is over its daily budget.
+ */
+export async function chatWithFallback(
+  chain: ProviderTarget[],
+  request: Omit<ProviderChatRequest, 'model'>
+): Promise<ProviderChatResult & { target: ProviderTarget }> {
+  const { feature } = request;
+  if (feature && !checkAIBudget(feature)) {
+    throw new Error(`Daily AI budget exceeded for ${feature}`);
+  }
+
+  let lastError: unknown = new Error('No AI provider configured');
+  for (const [index, target] of chain.entries()) {
+    const startedAt = Date.now();
+    const record = (outcome: 'success' | 'error' | 'aborted', details: { usage?: ProviderChatResult['usage']; error?: unknown } = {}) => {
+      if (feature) recordAICall({ feature, providerId: target.provider.id, model: target.model, startedAt, outcome, ...details });
+    };
+    try {
+      const result = await target.provider.chat({ ...request, model: target.model });
+      record(request.stream?.signal?.aborted ? 'aborted' : 'success', { usage: result.usage });
+      return { ...result, target };
+    } catch (error: unknown) {
+      if (isAbortError(error)) {
+        record('aborted');
+        throw error;
+      }
+      record('error', { error });
+      lastError = error;
+      const next = chain[index + 1];
+      if (next) {
+        console.warn(`[AI] ${target.provider.id} failed, falling back to ${next.provider.id}:`, error);
+      }
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,73 @@
+/**
+ * AI provider contract
+ *
+ * Services talk to models through this provider-neutral shape; each provider
+ * converts it to its own wire format (OpenAI chat completions, Gemini
+ * generateContent, ...) and back.
+ */
+
+import type { AIFeature } from '../../../types/ai';
+import type { ToolDefinition } from '../tools';
+
+/**
+ * Streaming options: when passed, the provider uses its SSE endpoint.
+ * On abort the request resolves with the text received so far and no tool calls.
+ */
+export interface StreamOptions {
+  /** Called as text arrives, with the accumulated text of the current model turn */
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ProviderToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  /** Provider-specific original payload (e.g. a Gemini part with its thought signature), replayed to the same provider */
+  raw?: unknown;
+}
+
+export type ProviderMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ProviderToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; result: unknown };
+
+export interface ProviderChatRequest {
+  model: string;
+  system?: string;
+  messages: ProviderMessage[];
+  tools?: ToolDefinition[];
+  /** Ask for a single JSON object as the reply */
+  json?: boolean;
+  /** Constrain the JSON reply to this schema where the provider supports it */
+  jsonSchema?: { name: string; schema: Record<string, unknown> };
+  temperature?: number;
+  maxTokens?: number;
+  stream?: StreamOptions;
+  /** Telemetry label of the calling feature, forwarded to the bridge as `x-ai-feature` */
+  feature?: AIFeature;
+}
+
+/** Token counts as reported by the provider */
+export interface ProviderUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ProviderChatResult {
+  text: string;
+  toolCalls: ProviderToolCall[];
+  /** Missing when the provider (or an aborted stream) did not report usage */
+  usage?: ProviderUsage;
+}
+
+export interface AIProvider {
+  id: string;
+  label: string;
+  defaultModel: string;
+  chat(request: ProviderChatRequest): Promise<ProviderChatResult>;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
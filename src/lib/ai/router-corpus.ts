@@ -0,0 +1,181 @@
+/**
+ * Router Phrasing Corpus
+ *
+ * Paraphrases for each routed intent plus near-misses that must fall through
+ * to the model. `measureRouterCoverage` replays the corpus through the router;
+ * `__tests__/router.test.ts` runs it so changes to the pattern tables are checked
+ * against docs/ai-router-feature-plan.md (>= 95% per intent, no false routes).
+ */
+
+import { routeIntent, shouldUseRoute, type RouteIntent, type RouterLanguage } from './router';
+
+export interface RouterCorpusEntry {
+    message: string;
+    language: RouterLanguage;
+    /** null = must not be routed */
+    intent: RouteIntent | null;
+    /** Expected normalized args (subset match) */
+    args?: Record<string, unknown>;
+}
+
+const completed = (message: string, language: RouterLanguage, relativeDate: string): RouterCorpusEntry => ({
+    message, language, intent: 'completed_tasks', args: { status: 'completed', relativeDate },
+});
+
+const dueUnfinished = (message: string, language: RouterLanguage): RouterCorpusEntry => ({
+    message, language, intent: 'due_unfinished', args: { relativeDate: 'yesterday', matchDeadline: 'on_reference' },
+});
+
+const overdue = (message: string, language: RouterLanguage): RouterCorpusEntry => ({
+    message, language, intent: 'overdue_tasks', args: { relativeDate: 'today', matchDeadline: 'before_reference' },
+});
+
+const passThrough = (message: string, language: RouterLanguage): RouterCorpusEntry => ({
+    message, language, intent: null,
+});
+
+export const ROUTER_CORPUS: RouterCorpusEntry[] = [
+    // Completed tasks by window
+    completed('昨天完成了什么', 'zh', 'yesterday'),
+    completed('昨天完成了什么？', 'zh', 'yesterday'),
+    completed('昨天我完成了哪些任务', 'zh', 'yesterday'),
+    completed('昨天做完了哪些事情', 'zh', 'yesterday'),
+    completed('昨天搞定了几个任务', 'zh', 'yesterday'),
+    completed('看看昨日完成的任务', 'zh', 'yesterday'),
+    completed('昨天都做了什么', 'zh', 'yesterday'),
+    completed('今天完成了哪些任务', 'zh', 'today'),
+    completed('今天完成了多少', 'zh', 'today'),
+    completed('今天搞定了啥', 'zh', 'today'),
+    completed('列出今天做完的任务', 'zh', 'today'),
+    completed('今日完成情况', 'zh', 'today'),
+    completed('本周完成情况', 'zh', 'this_week'),
+    completed('这周完成了哪些任务', 'zh', 'this_week'),
+    completed('这个星期我做完了什么', 'zh', 'this_week'),
+    completed('本周搞定了几个任务', 'zh', 'this_week'),
+    completed('What did I finish yesterday?', 'en', 'yesterday'),
+    completed('what tasks did I complete yesterday', 'en', 'yesterday'),
+    completed('Show me what I got done yesterday', 'en', 'yesterday'),
+    completed('list tasks completed yesterday', 'en', 'yesterday'),
+    completed('What have I completed today?', 'en', 'today'),
+    completed('how many tasks did I finish today', 'en', 'today'),
+    completed("What's done today", 'en', 'today'),
+    completed('what did I accomplish this week', 'en', 'this_week'),
+    completed('Show completed tasks this week', 'en', 'this_week'),
+    completed('which tasks did I wrap up this week?', 'en', 'this_week'),
+    completed('yesterday 完成了什么', 'zh', 'yesterday'),
+
+    // Due yesterday, still unfinished
+    dueUnfinished('昨天截止但今天没完成的任务', 'zh'),
+    dueUnfinished('昨天到期还没做完的有哪些', 'zh'),
+    dueUnfinished('昨天到期但没完成的任务', 'zh'),
+    dueUnfinished('昨天截止的任务还有哪些没完成', 'zh'),
+    dueUnfinished('昨天截止的还没做完吗', 'zh'),
+    dueUnfinished('截止日期是昨天但还没完成的事情', 'zh'),
+    dueUnfinished('昨天到期未完成的任务列一下', 'zh'),
+    dueUnfinished('有哪些昨天到期还没搞定的', 'zh'),
+    dueUnfinished('昨日到期尚未完成的任务', 'zh'),
+    dueUnfinished('昨天期限到了还没做完的事项', 'zh'),
+    dueUnfinished('昨天截止 没做完的', 'zh'),
+    dueUnfinished('What was due yesterday that I haven\'t finished?', 'en'),
+    dueUnfinished('tasks due yesterday that are not done', 'en'),
+    dueUnfinished('Which tasks due yesterday are still open?', 'en'),
+    dueUnfinished('show unfinished tasks due yesterday', 'en'),
+    dueUnfinished('anything due yesterday I didn\'t complete', 'en'),
+    dueUnfinished('what\'s still pending from yesterday\'s deadlines', 'en'),
+    dueUnfinished('incomplete tasks with a deadline of yesterday', 'en'),
+    dueUnfinished('list tasks due yesterday not finished yet', 'en'),
+    dueUnfinished('what did I not finish that was due yesterday', 'en'),
+    dueUnfinished('yesterday due 没完成的任务', 'zh'),
+
+    // Generic overdue list
+    overdue('有哪些逾期任务', 'zh'),
+    overdue('现在没完成的过期任务', 'zh'),
+    overdue('逾期的任务有哪些？', 'zh'),
+    overdue('我有逾期的事情吗', 'zh'),
+    overdue('看看过期的待办', 'zh'),
+    overdue('列出所有超期任务', 'zh'),
+    overdue('哪些任务已经过了截止日期', 'zh'),
+    overdue('有没有逾期', 'zh'),
+    overdue('逾期任务清单', 'zh'),
+    overdue('过期没做的任务有几个', 'zh'),
+    overdue('What\'s overdue?', 'en'),
+    overdue('what tasks are overdue', 'en'),
+    overdue('Show me overdue tasks', 'en'),
+    overdue('list my overdue items', 'en'),
+    overdue('anything past due?', 'en'),
+    overdue('which tasks are past their deadline', 'en'),
+    overdue('do I have any late tasks', 'en'),
+    overdue('what have I missed deadlines on', 'en'),
+    overdue('how many tasks are overdue right now', 'en'),
+    overdue('overdue 任务有哪些', 'zh'),
+    overdue('查一下逾期的', 'zh'),
+
+    // Must fall through to the model
+    passThrough('帮我添加一个明天截止的任务', 'zh'),
+    passThrough('把逾期任务都推迟到下周', 'zh'),
+    passThrough('删除昨天完成的任务', 'zh'),
+    passThrough('把写周报标记为完成', 'zh'),
+    passThrough('我今天好累', 'zh'),
+    passThrough('完成任务后能拿多少金币', 'zh'),
+    passThrough('明天有什么安排', 'zh'),
+    passThrough('帮我拆分一下这个任务', 'zh'),
+    passThrough('Add a task due tomorrow', 'en'),
+    passThrough('mark the report as done', 'en'),
+    passThrough('Reschedule all overdue tasks to Friday', 'en'),
+    passThrough('I feel tired today', 'en'),
+    passThrough('How do I complete a quest?', 'en'),
+    passThrough('what should I do next', 'en'),
+];
+
+export interface RouterCoverageReport {
+    total: number;
+    /** Entries routed to the expected intent with matching args (or correctly left alone) */
+    passed: number;
+    hitRate: number;
+    byIntent: Record<RouteIntent | 'none', { total: number; passed: number }>;
+    failures: Array<{ entry: RouterCorpusEntry; got: RouteIntent | null; confidence?: number; args?: Record<string, unknown> }>;
+}
+
+function argsMatch(expected: Record<string, unknown> | undefined, actual: Record<string, unknown>): boolean {
+    if (!expected) return true;
+    return Object.entries(expected).every(([key, value]) => actual[key] === value);
+}
+
+/**
+ * Replay the corpus through the router. Only routes above the confidence
+ * threshold count as hits, mirroring what the chat services act on.
+ */
+export function measureRouterCoverage(corpus: RouterCorpusEntry[] = ROUTER_CORPUS): RouterCoverageReport {
+    const byIntent: RouterCoverageReport['byIntent'] = {
+        completed_tasks: { total: 0, passed: 0 },
+        due_unfinished: { total: 0, passed: 0 },
+        overdue_tasks: { total: 0, passed: 0 },
+        none: { total: 0, passed: 0 },
+    };
+    const failures: RouterCoverageReport['failures'] = [];
+
+    for (const entry of corpus) {
+        const route = routeIntent(entry.message, entry.language);
+        const used = shouldUseRoute(route) ? route : null;
+        const bucket = byIntent[entry.intent ?? 'none'];
+        bucket.total += 1;
+
+        const ok = entry.intent === null
+            ? used === null
+            : used !== null && used.intent === entry.intent && argsMatch(entry.args, used.args);
+        if (ok) {
+            bucket.passed += 1;
+        } else {
+            failures.push({ entry, got: used?.intent ?? null, confidence: route?.confidence, args: route?.args });
+        }
+    }
+
+    const passed = corpus.length - failures.length;
+    return {
+        total: corpus.length,
+        passed,
+        hitRate: corpus.length > 0 ? passed / corpus.length : 1,
+        byIntent,
+        failures,
+    };
+}
@@ -0,0 +1,220 @@
+/**
+ * Deterministic Intent Pre-Router
+ *
+ * Maps high-value read queries ("昨天完成了什么", "what's overdue") straight to
+ * a tool call with normalized arguments, so the answer does not depend on the
+ * model picking the right tool and date window. Rules are plain keyword/pattern
+ * tables for zh and en; anything ambiguous or write-like returns null and falls
+ * through to normal model tool-calling.
+ */
+
+export type RouteIntent = 'completed_tasks' | 'due_unfinished' | 'overdue_tasks';
+
+export type RouterLanguage = 'zh' | 'en';
+
+export type RouteWindow = 'yesterday' | 'today' | 'this_week';
+
+export interface RouteMatch {
+    intent: RouteIntent;
+    toolName: 'get_tasks' | 'get_overdue_tasks';
+    args: Record<string, unknown>;
+    /** 0-1, compare against ROUTER_CONFIDENCE_THRESHOLD before acting */
+    confidence: number;
+    reason: string;
+}
+
+/** Routes below this confidence fall back to the model */
+export const ROUTER_CONFIDENCE_THRESHOLD = 0.75;
+
+/** Tools the router may call; all of them are read-only */
+export const ROUTABLE_TOOLS = new Set(['get_tasks', 'get_overdue_tasks']);
+
+// --- Pattern tables ---
+
+// Any write verb means the user wants something changed, which stays with the model.
+const MUTATION_PATTERNS = [
+    /添加|新建|创建|加一个|删除|删掉|移除|修改|改成|改为|标记|推迟到|延期到|设为|设置|记一笔|帮我完成|兑换/,
+    /\b(add|create|new task|delete|remove|mark|update|edit|rename|postpone|reschedule|move|set|change|redeem)\b/,
+];
+
+const WINDOW_PATTERNS: Array<{ window: RouteWindow; pattern: RegExp }> = [
+    { window: 'yesterday', pattern: /昨天|昨日|昨儿|\byesterday\b|\blast night\b/ },
+    { window: 'this_week', pattern: /本周|这周|这个星期|这星期|这一周|本星期|这礼拜|这个礼拜|\bthis week\b|\bso far this week\b|\bweek so far\b|\bthis wk\b/ },
+    { window: 'today', pattern: /今天|今日|今儿|\btoday\b|\btonight\b|\bso far today\b/ },
+];
+
+const NEGATED_COMPLETION = /没完成|未完成|没有完成|没做完|没有做完|还没做|还没完成|没搞定|没弄完|未做完|尚未完成|\bnot (yet )?(done|finished|completed)\b|\bunfinished\b|\bincomplete\b|\b(didn ?t|haven ?t|did not|have not|wasn ?t|weren ?t|not) (get |been )?(finish|finished|complete|completed|done)\b|\bstill open\b|\bpending\b|\boutstanding\b/;
+
+const COMPLETION = /完成|做完|搞定|干完|弄完|做了(什么|哪些|啥)|干了(什么|哪些|啥)|\b(finish(ed)?|complete[ds]?|done|accomplish(ed)?|wrap(ped)? up|knock(ed)? out|check(ed)? off|tick(ed)? off)\b/;
+
+const DEADLINE = /截止|到期|期限|deadline|\bdue\b/;
+
+const OVERDUE = /逾期|过期|超期|误期|过了截止|过了期限|超过截止|拖欠|\boverdue\b|\bpast due\b|\blate tasks?\b|\bmissed (the )?deadlines?\b|\bbehind schedule\b|\bpast (their |the )?deadlines?\b/;
+
+const TASK_NOUN = /任务|待办|事情|事项|事儿|todo|\btasks?\b|\bitems?\b|\bthings\b|\bstuff\b/;
+
+const QUESTION_CUE = /什么|哪些|哪几个|多少|几个|吗|么|列出|列一下|看看|查一下|查查|给我|情况|清单|\?|\b(what|which|show|list|how many|any|anything|give me|tell me|check)\b/;
+
+// --- Normalization ---
+
+/**
+ * Lower-case, fold full-width characters and punctuation, collapse spaces
+ */
+export function normalizeMessage(message: string): string {
+    return message
+        .normalize('NFKC')
+        .toLowerCase()
+        .replace(/[’'`]/g, ' ')
+        .replace(/[，。！、；：""「」『』（）【】《》,.!;:"()[\]<>~～…]/g, ' ')
+        .replace(/？/g, '?')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function detectWindow(text: string): RouteWindow | null {
+    const hit = WINDOW_PATTERNS.find(({ pattern }) => pattern.test(text));
+    return hit ? hit.window : null;
+}
+
+function withCues(base: number, text: string): number {
+    let confidence = base;
+    if (QUESTION_CUE.test(text)) confidence += 0.05;
+    if (TASK_NOUN.test(text)) confidence += 0.05;
+    return Math.min(1, Number(confidence.toFixed(2)));
+}
+
+// --- Intent rules ---
+
+function matchDueUnfinished(text: string): RouteMatch | null {
+    if (detectWindow(text) !== 'yesterday') return null;
+    if (!DEADLINE.test(text)) return null;
+    const unfinished = NEGATED_COMPLETION.test(text);
+    return {
+        intent: 'due_unfinished',
+        toolName: 'get_overdue_tasks',
+        args: { relativeDate: 'yesterday', matchDeadline: 'on_reference' },
+        confidence: withCues(unfinished ? 0.85 : 0.7, text),
+        reason: unfinished ? 'deadline=yesterday + unfinished' : 'deadline=yesterday',
+    };
+}
+
+function matchOverdue(text: string): RouteMatch | null {
+    if (!OVERDUE.test(text)) return null;
+    return {
+        intent: 'overdue_tasks',
+        toolName: 'get_overdue_tasks',
+        args: { relativeDate: 'today', matchDeadline: 'before_reference' },
+        confidence: withCues(0.75, text),
+        reason: 'overdue keyword',
+    };
+}
+
+function matchCompleted(text: string): RouteMatch | null {
+    if (NEGATED_COMPLETION.test(text)) return null;
+    if (!COMPLETION.test(text)) return null;
+    const window = detectWindow(text);
+    if (!window) return null;
+    return {
+        intent: 'completed_tasks',
+        toolName: 'get_tasks',
+        args: { status: 'completed', relativeDate: window },
+        confidence: withCues(0.75, text),
+        reason: `completion keyword + window=${window}`,
+    };
+}
+
+// Most specific first: "昨天截止但没完成" also contains 完成 and reads like overdue.
+const RULES = [matchDueUnfinished, matchOverdue, matchCompleted];
+
+/**
+ * Route a chat message to a read-only tool call, or null if no rule applies.
+ * The language flag is informational; patterns for both languages are always
+ * tried so mixed zh/en input still routes.
+ */
+export function routeIntent(message: string, _language?: RouterLanguage): RouteMatch | null {
+    const text = normalizeMessage(message);
+    if (!text || text.length > 80) return null;
+    if (MUTATION_PATTERNS.some((pattern) => pattern.test(text))) return null;
+
+    for (const rule of RULES) {
+        const match = rule(text);
+        if (match) return match;
+    }
+    return null;
+}
+
+/**
+ * Whether the route is confident enough to skip the model
+ */
+export function shouldUseRoute(route: RouteMatch | null): route is RouteMatch {
+    return !!route && route.confidence >= ROUTER_CONFIDENCE_THRESHOLD && ROUTABLE_TOOLS.has(route.toolName);
+}
+
+// --- Answer templates ---
+
+interface RoutedTaskRow {
+    name?: string;
+    deadline?: string;
+    completedAt?: string;
+    daysOverdue?: number;
+}
+
+const WINDOW_LABELS: Record<RouterLanguage, Record<RouteWindow, string>> = {
+    zh: { yesterday: '昨天', today: '今天', this_week: '本周' },
+    en: { yesterday: 'yesterday', today: 'today', this_week: 'this week' },
+};
+
+const MAX_LISTED = 15;
+
+function listRows(rows: RoutedTaskRow[], describe: (row: RoutedTaskRow) => string, language: RouterLanguage): string {
+    const lines = rows.slice(0, MAX_LISTED).map((row) => `- ${row.name || '?'}${describe(row)}`);
+    if (rows.length > MAX_LISTED) {
+        lines.push(language === 'zh' ? `…以及另外 ${rows.length - MAX_LISTED} 个` : `…and ${rows.length - MAX_LISTED} more`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Turn a routed tool result into the chat reply
+ */
+export function formatRoutedAnswer(route: RouteMatch, result: unknown, language: RouterLanguage): string {
+    const isZh = language === 'zh';
+    if (!Array.isArray(result)) {
+        const error = result && typeof result === 'object' && 'error' in result ? String((result as { error: unknown }).error) : '';
+        return isZh ? `查询失败：${error || '未知错误'}` : `Lookup failed: ${error || 'unknown error'}`;
+    }
+    const rows = result as RoutedTaskRow[];
+
+    if (route.intent === 'completed_tasks') {
+        const label = WINDOW_LABELS[language][route.args.relativeDate as RouteWindow];
+        if (rows.length === 0) {
+            return isZh ? `${label}还没有完成记录的任务。` : `No tasks were completed ${label}.`;
+        }
+        const body = listRows(rows, () => '', language);
+        return isZh
+            ? `${label}完成了 ${rows.length} 个任务：\n${body}`
+            : `You completed ${rows.length} task${rows.length === 1 ? '' : 's'} ${label}:\n${body}`;
+    }
+
+    if (route.intent === 'due_unfinished') {
+        if (rows.length === 0) {
+            return isZh ? '昨天到期的任务都已经完成了 ✅' : 'Everything due yesterday is done ✅';
+        }
+        const body = listRows(rows, () => '', language);
+        return isZh
+            ? `昨天到期但还没完成的任务有 ${rows.length} 个：\n${body}`
+            : `${rows.length} task${rows.length === 1 ? ' was' : 's were'} due yesterday and ${rows.length === 1 ? 'is' : 'are'} still open:\n${body}`;
+    }
+
+    if (rows.length === 0) {
+        return isZh ? '目前没有逾期任务 🎉' : 'Nothing is overdue right now 🎉';
+    }
+    const body = listRows(
+        rows,
+        (row) => (isZh
+            ? `（截止 ${row.deadline}，逾期 ${row.daysOverdue ?? 0} 天）`
+            : ` (due ${row.deadline}, ${row.daysOverdue ?? 0} day${row.daysOverdue === 1 ? '' : 's'} overdue)`),
+        language
+    );
+    return isZh ? `当前有 ${rows.length} 个逾期任务：\n${body}` : `${rows.length} overdue task${rows.length === 1 ? '' : 's'}:\n${body}`;
+}
@@ -0,0 +1,164 @@
+/**
+ * Structured AI output
+ *
+ * A call declares a zod schema. The schema goes to the provider as a JSON
+ * Schema response format where supported (OpenAI / local `json_schema`,
+ * Gemini `responseJsonSchema`), the reply is parsed and validated, and a
+ * failed validation gets one repair round that sends the issues back to the
+ * model. Callers receive typed data or a typed failure, never a half-parsed object.
+ */
+
+import { z } from 'zod';
+import { chatWithFallback, type ProviderTarget } from './providers/registry';
+import { isAbortError, type ProviderMessage } from './providers/types';
+import { checkAIBudget } from './telemetry';
+import type { AIFeature } from '../../types/ai';
+
+export interface StructuredOutputSpec<T> {
+    /** Schema name sent to providers, e.g. `task_breakdown` */
+    name: string;
+    schema: z.ZodType<T>;
+}
+
+export interface StructuredRequest {
+    feature: AIFeature;
+    prompt: string;
+    system?: string;
+    temperature?: number;
+    maxTokens?: number;
+}
+
+/**
+ * - unavailable: no provider configured or rate limited (set by callers)
+ * - over_budget: the feature's daily budget is used up
+ * - provider_error: every provider in the chain failed
+ * - invalid: the reply still failed validation after the repair round
+ */
+export type StructuredFailureReason = 'unavailable' | 'over_budget' | 'provider_error' | 'invalid';
+
+export type StructuredResult<T> =
+    | { success: true; data: T; repaired: boolean }
+    | { success: false; reason: StructuredFailureReason; error: string; issues?: string[]; raw?: string };
+
+const MAX_REPORTED_ISSUES = 8;
+
+/**
+ * Parse a JSON object out of model text: code fences and surrounding prose are
+ * dropped, and truncated or trailing-comma output is repaired where possible
+ */
+export function parseJSONLoose(text: string): unknown {
+    let content = text.trim();
+    const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (fenced) content = fenced[1].trim();
+    const start = content.indexOf('{');
+    if (start > 0) content = content.slice(start);
+    const end = content.lastIndexOf('}');
+    const candidates = [content, end !== -1 ? content.slice(0, end + 1) : content];
+
+    const closeOpen = (value: string) => {
+        const brackets = (value.match(/\[/g) || []).length - (value.match(/\]/g) || []).length;
+        const braces = (value.match(/\{/g) || []).length - (value.match(/\}/g) || []).length;
+        return value + ']'.repeat(Math.max(0, brackets)) + '}'.repeat(Math.max(0, braces));
+    };
+    const withoutTrailingCommas = (value: string) => value.replace(/,(\s*[\]}])/g, '$1');
+    const withClosedString = (value: string) => ((value.match(/"/g) || []).length % 2 !== 0 ? `${value}"` : value);
+
+    for (const candidate of candidates) {
+        for (const repair of [
+            (value: string) => value,
+            closeOpen,
+            (value: string) => closeOpen(withClosedString(withoutTrailingCommas(value))),
+        ]) {
+            try {
+                return JSON.parse(repair(candidate));
+            } catch {
+                // Try the next repair
+            }
+        }
+    }
+    return undefined;
+}
+
+function formatIssues(error: z.ZodError): string[] {
+    return error.issues
+        .slice(0, MAX_REPORTED_ISSUES)
+        .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
+
+function validate<T>(spec: StructuredOutputSpec<T>, raw: string): { data: T } | { issues: string[] } {
+    const parsed = parseJSONLoose(raw);
+    if (parsed === undefined) {
+        return { issues: ['(root): reply is not a JSON object'] };
+    }
+    const result = spec.schema.safeParse(parsed);
+    return result.success ? { data: result.data } : { issues: formatIssues(result.error) };
+}
+
+/**
+ * JSON Schema for the provider; `$schema` is dropped because Gemini rejects it
+ */
+export function toResponseSchema<T>(spec: StructuredOutputSpec<T>): Record<string, unknown> {
+    const schema = { ...z.toJSONSchema(spec.schema) } as Record<string, unknown>;
+    delete schema.$schema;
+    return schema;
+}
+
+export async function generateStructured<T>(
+    chain: ProviderTarget[],
+    spec: StructuredOutputSpec<T>,
+    request: StructuredRequest
+): Promise<StructuredResult<T>> {
+    if (chain.length === 0) {
+        return { success: false, reason: 'unavailable', error: 'No AI provider configured' };
+    }
+    if (!checkAIBudget(request.feature)) {
+        return { success: false, reason: 'over_budget', error: `Daily AI budget exceeded for ${request.feature}` };
+    }
+
+    const jsonSchema = { name: spec.name, schema: toResponseSchema(spec) };
+    const messages: ProviderMessage[] = [{ role: 'user', content: request.prompt }];
+    const send = async () => (await chatWithFallback(chain, {
+        system: request.system,
+        messages,
+        json: true,
+        jsonSchema,
+        temperature: request.temperature,
+        maxTokens: request.maxTokens,
+        feature: request.feature,
+    })).text;
+
+    let raw: string;
+    try {
+        raw = await send();
+    } catch (error: unknown) {
+        if (isAbortError(error)) throw error;
+        return { success: false, reason: 'provider_error', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const first = validate(spec, raw);
+    if ('data' in first) {
+        return { success: true, data: first.data, repaired: false };
+    }
+
+    console.warn(`[StructuredOutput] ${spec.name} failed validation, retrying once:`, first.issues);
+    messages.push(
+        { role: 'assistant', content: raw },
+        {
+            role: 'user',
+            content: `Your reply did not match the required JSON schema:\n${first.issues.map((issue) => `- ${issue}`).join('\n')}\n\nReply again with only the corrected JSON object. Keep the same language and content where it was valid.`,
+        }
+    );
+
+    try {
+        raw = await send();
+    } catch (error: unknown) {
+        if (isAbortError(error)) throw error;
+        return { success: false, reason: 'provider_error', error: error instanceof Error ? error.message : String(error), issues: first.issues };
+    }
+
+    const second = validate(spec, raw);
+    if ('data' in second) {
+        return { success: true, data: second.data, repaired: true };
+    }
+    return { success: false, reason: 'invalid', error: `${spec.name} did not match its schema`, issues: second.issues, raw };
+}
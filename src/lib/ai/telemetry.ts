@@ -0,0 +1,159 @@
+/**
+ * AI call telemetry and budgets
+ *
+ * `chatWithFallback` records every provider attempt (feature, provider, model,
+ * reported tokens, latency, outcome) into the AI usage store. Budgets are
+ * daily, per feature and counted in local days; a feature over budget skips
+ * the model and its caller serves the offline fallback.
+ */
+
+import { useAIUsageStore } from '../../stores/ai-usage-store';
+import { getDayKey } from '../calendar-day';
+import type { AICallOutcome, AICallRecord, AIFeature, AIFeatureBudget } from '../../types/ai';
+import type { ProviderUsage } from './providers/types';
+
+export const AI_FEATURES: AIFeature[] = [
+    'friend_chat',
+    'coach_chat',
+    'intervention',
+    'task_breakdown',
+    'prioritization',
+    'task_analysis',
+    'reflection_summary',
+];
+
+/** USD per million tokens, matched by model-name prefix (longest prefix wins) */
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+};
+
+/** Providers that run on this machine and cost nothing per token */
+const FREE_PROVIDERS = new Set(['local']);
+
+export interface AIUsageSummary {
+    calls: number;
+    errors: number;
+    /** Calls refused because the feature was over budget */
+    skipped: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    avgLatencyMs: number;
+}
+
+export interface AIBudgetStatus {
+    exceeded: boolean;
+    /** Which limit was hit first */
+    limit?: keyof AIFeatureBudget;
+    usage: AIUsageSummary;
+    budget?: AIFeatureBudget;
+}
+
+/**
+ * Estimated cost of one call, `undefined` when the model has no price entry
+ */
+export function estimateCostUsd(providerId: string, model: string, usage?: ProviderUsage): number | undefined {
+    if (FREE_PROVIDERS.has(providerId)) return 0;
+    if (!usage) return undefined;
+    const key = Object.keys(MODEL_PRICES)
+        .filter((prefix) => model.startsWith(prefix))
+        .sort((a, b) => b.length - a.length)[0];
+    if (!key) return undefined;
+    const price = MODEL_PRICES[key];
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+export function recordAICall(entry: {
+    feature: AIFeature;
+    providerId: string;
+    model: string;
+    startedAt: number;
+    outcome: AICallOutcome;
+    usage?: ProviderUsage;
+    error?: unknown;
+}): void {
+    const { feature, providerId, model, startedAt, outcome, usage, error } = entry;
+    useAIUsageStore.getState().recordCall({
+        at: new Date(startedAt).toISOString(),
+        feature,
+        provider: providerId,
+        model,
+        ...(usage ? { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens } : {}),
+        costUsd: estimateCostUsd(providerId, model, usage),
+        latencyMs: Math.max(0, Date.now() - startedAt),
+        outcome,
+        ...(error !== undefined ? { error: (error instanceof Error ? error.message : String(error)).slice(0, 200) } : {}),
+    });
+}
+
+function emptySummary(): AIUsageSummary {
+    return { calls: 0, errors: 0, skipped: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, avgLatencyMs: 0 };
+}
+
+/**
+ * Per-feature totals over records whose local day is within [fromDay, toDay]
+ */
+export function summarizeAIUsage(
+    records: AICallRecord[],
+    fromDay: string,
+    toDay: string = fromDay
+): Record<AIFeature, AIUsageSummary> {
+    const summaries = Object.fromEntries(AI_FEATURES.map((feature) => [feature, emptySummary()])) as Record<AIFeature, AIUsageSummary>;
+    const latencyTotals = new Map<AIFeature, number>();
+
+    for (const record of records) {
+        const day = getDayKey(record.at);
+        if (day < fromDay || day > toDay) continue;
+        const summary = summaries[record.feature] ??= emptySummary();
+        if (record.outcome === 'over_budget') {
+            summary.skipped += 1;
+            continue;
+        }
+        summary.calls += 1;
+        if (record.outcome === 'error') summary.errors += 1;
+        summary.inputTokens += record.inputTokens || 0;
+        summary.outputTokens += record.outputTokens || 0;
+        summary.costUsd += record.costUsd || 0;
+        latencyTotals.set(record.feature, (latencyTotals.get(record.feature) || 0) + record.latencyMs);
+    }
+
+    for (const [feature, total] of latencyTotals) {
+        summaries[feature].avgLatencyMs = Math.round(total / summaries[feature].calls);
+    }
+    return summaries;
+}
+
+export function getAIBudgetStatus(feature: AIFeature, now: Date = new Date()): AIBudgetStatus {
+    const { records, budgets } = useAIUsageStore.getState();
+    const usage = summarizeAIUsage(records, getDayKey(now))[feature];
+    const budget = budgets[feature];
+    if (!budget) return { exceeded: false, usage };
+
+    const limit = ([
+        ['maxCalls', usage.calls],
+        ['maxTokens', usage.inputTokens + usage.outputTokens],
+        ['maxCostUsd', usage.costUsd],
+    ] as const).find(([key, used]) => budget[key] !== undefined && used >= budget[key]!)?.[0];
+    return { exceeded: !!limit, limit, usage, budget };
+}
+
+/**
+ * Whether the feature may call a model today. A refusal is recorded so the
+ * dashboard can show how often the fallback was served.
+ */
+export function checkAIBudget(feature: AIFeature): boolean {
+    const status = getAIBudgetStatus(feature);
+    if (!status.exceeded) return true;
+    console.warn(`[AI] Daily ${status.limit} budget reached for ${feature}, using offline fallback`);
+    recordAICall({ feature, providerId: 'budget', model: '', startedAt: Date.now(), outcome: 'over_budget' });
+    return false;
+}
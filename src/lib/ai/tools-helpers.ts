@@ -1,3 +1,6 @@
+import { getDayKey, toDayDate } from '../calendar-day';
+import { addDaysToKey } from '../recurrence';
+
 type ToolArgs = Record<string, unknown>;
 
 export function parseDateRange(
@@ -5,29 +8,22 @@ export function parseDateRange(
     dateTo?: string,
     relativeDate?: 'yesterday' | 'today' | 'this_week'
 ): { fromTime: number | null; toTime: number | null } {
-    const now = new Date();
+    const today = getDayKey();
     let from = dateFrom;
     let to = dateTo;
 
     if (relativeDate === 'today') {
-        const key = now.toISOString().slice(0, 10);
-        from = from || key;
-        to = to || key;
+        from = from || today;
+        to = to || today;
     } else if (relativeDate === 'yesterday') {
-        const y = new Date(now);
-        y.setDate(y.getDate() - 1);
-        const key = y.toISOString().slice(0, 10);
+        const key = addDaysToKey(today, -1);
         from = from || key;
         to = to || key;
     } else if (relativeDate === 'this_week') {
-        const start = new Date(now);
-        const day = start.getDay();
-        const diffToMonday = day === 0 ? -6 : 1 - day;
-        start.setDate(start.getDate() + diffToMonday);
-        const end = new Date(start);
-        end.setDate(start.getDate() + 6);
-        from = from || start.toISOString().slice(0, 10);
-        to = to || end.toISOString().slice(0, 10);
+        const day = toDayDate(today).getDay();
+        const monday = addDaysToKey(today, day === 0 ? -6 : 1 - day);
+        from = from || monday;
+        to = to || addDaysToKey(monday, 6);
     }
 
     const fromTime = from ? new Date(`${from}T00:00:00`).getTime() : null;
@@ -1,6 +1,12 @@
 import { useGameStore } from '../../stores/game-store';
+import { useAIActionStore, type AIActionChange, type AIActionPreview } from '../../stores/ai-action-store';
 import { mcpClient } from '../mcp';
-import type { CustomTask, Effort, TaskType } from '../../types/task';
+import { createSnapshot } from '../../services/storage/snapshots';
+import type { GameData } from '../../types/game-data';
+import type { CustomTask, Effort, Habit, TaskType } from '../../types/task';
+import { checkRedemption } from '../reward-budget';
+import { getDayKey } from '../calendar-day';
+import { addDaysToKey } from '../recurrence';
 import {
     attachResolvedPath,
     extractNotePathsFromUnknown,
@@ -25,15 +31,34 @@ export interface ToolDefinition {
 
 type ToolArgs = Record<string, unknown>;
 
+/**
+ * read: no side effects, runs freely
+ * safe_write: runs immediately and is recorded for undo
+ * destructive: queued as a pending action until the user confirms it
+ */
+export type ToolPolicy = 'read' | 'safe_write' | 'destructive';
+
 // Internal tool implementation wrapper
 export interface ToolImplementation {
+    policy: ToolPolicy;
     definition: ToolDefinition;
     execute(args: unknown): Promise<unknown>;
+    /** Describe what the call would change, read against the current state */
+    preview?(args: unknown): AIActionPreview;
+    /** Build the undo for a successful call; `before` is the game data captured just before it ran */
+    inverse?(args: unknown, result: unknown, before: GameData): (() => void) | null;
+}
+
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null || value === '') return '—';
+    if (Array.isArray(value)) return value.join(', ') || '—';
+    return String(value);
 }
 
 // --- Tool Implementations ---
 
 const getPlayerStatus: ToolImplementation = {
+    policy: 'read',
     definition: {
         name: 'get_player_status',
         description: 'Get the current player status including HP, Energy, Gold, and Level.',
@@ -58,6 +83,7 @@ const getPlayerStatus: ToolImplementation = {
 };
 
 const getTasks: ToolImplementation = {
+    policy: 'read',
     definition: {
         name: 'get_tasks',
         description: 'Get tasks filtered by status and optional completion date range.',
@@ -179,6 +205,7 @@ const getTasks: ToolImplementation = {
 };
 
 const getOverdueTasks: ToolImplementation = {
+    policy: 'read',
     definition: {
         name: 'get_overdue_tasks',
         description: 'Get unfinished tasks by deadline rules (overdue, due on specific date, etc.).',
@@ -218,16 +245,10 @@ const getOverdueTasks: ToolImplementation = {
         includeArchived?: boolean;
     }) => {
         const state = useGameStore.getState();
-        const now = new Date();
         const resolvedRefDate = (() => {
             if (referenceDate) return referenceDate;
-            if (relativeDate === 'today') return now.toISOString().slice(0, 10);
-            if (relativeDate === 'yesterday') {
-                const y = new Date(now);
-                y.setDate(y.getDate() - 1);
-                return y.toISOString().slice(0, 10);
-            }
-            return now.toISOString().slice(0, 10);
+            if (relativeDate === 'yesterday') return addDaysToKey(getDayKey(), -1);
+            return getDayKey();
         })();
         const rule = matchDeadline || 'before_reference';
         const base = includeArchived
@@ -263,6 +284,7 @@ const getOverdueTasks: ToolImplementation = {
 };
 
 const addTask: ToolImplementation = {
+    policy: 'safe_write',
     definition: {
         name: 'add_task',
         description: 'Create a new task. DATE format must be YYYY-MM-DD. Priority/Effort must match allowed values exactly.',
@@ -330,9 +352,18 @@ const addTask: ToolImplementation = {
 
         return { success: true, taskId: taskId, message: `Task "${title}" created.` };
     },
+    preview: ({ title, deadline }: { title: string; deadline?: string }) => ({
+        summary: `Create task "${title}"`,
+        changes: [{ label: 'task', after: title }, ...(deadline ? [{ label: 'deadline', after: deadline }] : [])],
+    }),
+    inverse: (_args, result) => {
+        const { taskId } = result as { taskId: string };
+        return () => useGameStore.getState().deleteTask(taskId);
+    },
 };
 
 const updateTask: ToolImplementation = {
+    policy: 'safe_write',
     definition: {
         name: 'update_task',
         description: 'Update an existing task. Use this to Rename or Change attributes.',
@@ -358,9 +389,30 @@ const updateTask: ToolImplementation = {
         state.updateTask(taskId, safeUpdates as Partial<typeof task>);
         return { success: true, message: `Task "${task.name}" updated.` };
     },
+    preview: ({ taskId, ...updates }: { taskId: string } & ToolArgs) => {
+        const task = useGameStore.getState().customTasks.find(t => t.id === taskId);
+        const safeUpdates = sanitizeTaskUpdates(updates);
+        return {
+            summary: `Update task "${task?.name || taskId}"`,
+            changes: Object.entries(safeUpdates).map(([key, value]) => ({
+                label: key,
+                before: formatValue(task?.[key as keyof CustomTask]),
+                after: formatValue(value),
+            })),
+        };
+    },
+    inverse: ({ taskId, ...updates }: { taskId: string } & ToolArgs, _result, before) => {
+        const previous = before.customTasks.find(t => t.id === taskId);
+        if (!previous) return null;
+        const restored = Object.fromEntries(
+            Object.keys(sanitizeTaskUpdates(updates)).map((key) => [key, previous[key as keyof CustomTask]])
+        ) as Partial<CustomTask>;
+        return () => useGameStore.getState().updateTask(taskId, restored);
+    },
 };
 
 const draftTask: ToolImplementation = {
+    policy: 'read',
     definition: {
         name: 'draft_task',
         description: 'Propose a task creation for user confirmation. Use this BEFORE add_task.',
@@ -374,61 +426,73 @@ const draftTask: ToolImplementation = {
     },
 };
 
+function resolveTaskTarget({ taskId, taskName }: { taskId?: string; taskName?: string }): CustomTask | null {
+    const tasks = useGameStore.getState().customTasks;
+    if (taskId) return tasks.find(t => t.id === taskId) || null;
+    if (taskName) return tasks.find(t => t.name.toLowerCase().includes(taskName.toLowerCase())) || null;
+    return null;
+}
+
 const deleteTask: ToolImplementation = {
+    policy: 'destructive',
     definition: {
         name: 'delete_task',
-        description: 'Request deletion of a task by ID or by finding a best match title. Requires explicit confirmation.',
+        description: 'Delete a task by ID or by finding a best match title. The deletion is queued until the user confirms it in the chat.',
         parameters: {
             type: 'OBJECT',
             properties: {
                 taskId: { type: 'STRING', description: 'The exact ID of the task to delete' },
                 taskName: { type: 'STRING', description: 'The approximate name of the task to delete if ID is unknown' },
-                confirm: { type: 'BOOLEAN', description: 'Must be true to execute deletion.' },
             },
         },
     },
-    execute: async ({ taskId, taskName, confirm }: { taskId?: string; taskName?: string; confirm?: boolean }) => {
-        const state = useGameStore.getState();
-        let targetId = taskId;
-        let targetTaskName = '';
-
-        if (!targetId && taskName) {
-            // Fuzzy search for task
-            const match = state.customTasks.find(t => t.name.toLowerCase().includes(taskName.toLowerCase()));
-            if (match) {
-                targetId = match.id;
-                targetTaskName = match.name;
-            } else {
-                return { success: false, message: `Could not find task with name containing "${taskName}".` };
-            }
-        }
-
-        if (!targetId) {
+    execute: async ({ taskId, taskName }: { taskId?: string; taskName?: string }) => {
+        if (!taskId && !taskName) {
             return { success: false, message: 'Please provide either taskId or taskName.' };
         }
-
-        if (!targetTaskName) {
-            const targetTask = state.customTasks.find(t => t.id === targetId);
-            targetTaskName = targetTask?.name || targetId;
-        }
-
-        if (!confirm) {
-            return {
-                success: false,
-                requiresConfirmation: true,
-                action: 'delete_task',
-                taskId: targetId,
-                taskName: targetTaskName,
-                message: `Please confirm deletion of task "${targetTaskName}" by calling delete_task again with confirm=true.`,
-            };
+        const target = resolveTaskTarget({ taskId, taskName });
+        if (!target) {
+            return { success: false, message: taskId ? 'Task not found.' : `Could not find task with name containing "${taskName}".` };
         }
 
-        state.deleteTask(targetId);
-        return { success: true, message: `Task "${targetTaskName}" deleted.` };
+        useGameStore.getState().deleteTask(target.id);
+        return { success: true, taskId: target.id, message: `Task "${target.name}" deleted.` };
+    },
+    preview: (args: { taskId?: string; taskName?: string }) => {
+        const target = resolveTaskTarget(args);
+        return {
+            summary: `Delete task "${target?.name || args.taskId || args.taskName}"`,
+            changes: target
+                ? [
+                    { label: 'task', before: target.name },
+                    ...(target.deadline ? [{ label: 'deadline', before: target.deadline }] : []),
+                ]
+                : [],
+        };
+    },
+    inverse: (_args, result, before) => {
+        const { taskId } = result as { taskId: string };
+        const task = before.customTasks.find(t => t.id === taskId);
+        if (!task) return null;
+        const blockedTaskIds = before.customTasks.filter(t => t.blockedBy?.includes(taskId)).map(t => t.id);
+        return () => useGameStore.getState().restoreTask(task, blockedTaskIds);
     },
 };
 
+// Gold and energy are reversed with a compensating entry, so the ledger keeps both sides
+function reverseMoneyChange(before: GameData, description: string): (() => void) | null {
+    const change = useGameStore.getState().resources.money.balance - before.resources.money.balance;
+    if (change === 0) return null;
+    return () => useGameStore.getState().updateMoney(-change, 'ai_undo', description);
+}
+
+function previewGoldChange(change: number): AIActionChange {
+    const balance = useGameStore.getState().resources.money.balance;
+    return { label: 'gold', before: String(balance), after: String(Math.max(0, balance + change)) };
+}
+
 const recordIncome: ToolImplementation = {
+    policy: 'safe_write',
     definition: {
         name: 'record_income',
         description: 'Record a gold income transaction through the standard ledger.',
@@ -452,9 +516,15 @@ const recordIncome: ToolImplementation = {
         const updatedBalance = useGameStore.getState().resources.money.balance;
         return { success: true, newBalance: updatedBalance, message: `Income recorded: +${value} gold.` };
     },
+    preview: ({ amount, reason }: { amount: number; reason?: string }) => ({
+        summary: `Record income +${amount} gold${reason ? ` (${reason})` : ''}`,
+        changes: [previewGoldChange(Number(amount))],
+    }),
+    inverse: (_args, _result, before) => reverseMoneyChange(before, 'Undo AI recorded income'),
 };
 
 const recordExpense: ToolImplementation = {
+    policy: 'destructive',
     definition: {
         name: 'record_expense',
         description: 'Record a gold expense transaction through the standard ledger.',
@@ -481,9 +551,24 @@ const recordExpense: ToolImplementation = {
         const updatedBalance = useGameStore.getState().resources.money.balance;
         return { success: true, newBalance: updatedBalance, message: `Expense recorded: -${value} gold.` };
     },
+    preview: ({ amount, reason }: { amount: number; reason?: string }) => ({
+        summary: `Record expense -${amount} gold${reason ? ` (${reason})` : ''}`,
+        changes: [previewGoldChange(-Number(amount))],
+    }),
+    inverse: (_args, _result, before) => reverseMoneyChange(before, 'Undo AI recorded expense'),
 };
 
+function resolveRewardTargetId({ rewardId, rewardName }: { rewardId?: string; rewardName?: string }): string | undefined {
+    if (rewardId || !rewardName) return rewardId;
+    const keyword = rewardName.toLowerCase();
+    return (useGameStore.getState().rewardPool || []).find((item) =>
+        item.status === 'available' &&
+        (item.object.toLowerCase().includes(keyword) || item.rawText.toLowerCase().includes(keyword))
+    )?.id;
+}
+
 const redeemReward: ToolImplementation = {
+    policy: 'destructive',
     definition: {
         name: 'redeem_reward',
         description: 'Redeem an available reward sticker by id or name. This spends gold via transaction ledger.',
@@ -497,16 +582,7 @@ const redeemReward: ToolImplementation = {
     },
     execute: async ({ rewardId, rewardName }: { rewardId?: string; rewardName?: string }) => {
         const state = useGameStore.getState();
-        let targetId = rewardId;
-
-        if (!targetId && rewardName) {
-            const keyword = rewardName.toLowerCase();
-            const match = (state.rewardPool || []).find((item) =>
-                item.status === 'available' &&
-                (item.object.toLowerCase().includes(keyword) || item.rawText.toLowerCase().includes(keyword))
-            );
-            if (match) targetId = match.id;
-        }
+        const targetId = resolveRewardTargetId({ rewardId, rewardName });
 
         if (!targetId) {
             return { success: false, message: 'Please provide rewardId or rewardName.' };
@@ -517,14 +593,35 @@ const redeemReward: ToolImplementation = {
             if (result.reason === 'insufficient_gold') return { success: false, message: 'Insufficient gold for this reward.' };
             if (result.reason === 'already_redeemed') return { success: false, message: 'Reward is already redeemed.' };
             if (result.reason === 'not_found') return { success: false, message: 'Reward not found.' };
+            if (result.reason === 'cooldown') return { success: false, message: `Reward is on cooldown until ${result.availableOn}.` };
+            if (result.reason === 'over_budget') return { success: false, message: 'Redeeming would exceed this week\'s budget for the reward tier.' };
             return { success: false, message: 'Failed to redeem reward.' };
         }
         const nextState = useGameStore.getState();
-        return { success: true, newBalance: nextState.resources.money.balance, message: 'Reward redeemed.' };
+        return { success: true, rewardId: targetId, newBalance: nextState.resources.money.balance, message: 'Reward redeemed.' };
+    },
+    preview: (args: { rewardId?: string; rewardName?: string }) => {
+        const targetId = resolveRewardTargetId(args);
+        const reward = (useGameStore.getState().rewardPool || []).find((item) => item.id === targetId);
+        if (!reward) return { summary: `Redeem reward "${args.rewardId || args.rewardName}"`, changes: [] };
+        return {
+            summary: `Redeem reward "${reward.rawText}"`,
+            changes: [
+                { label: 'reward', before: reward.status, after: 'redeemed' },
+                previewGoldChange(-checkRedemption(reward, useGameStore.getState()).price),
+            ],
+        };
+    },
+    inverse: (_args, result) => {
+        const { rewardId } = result as { rewardId: string };
+        return () => {
+            useGameStore.getState().restoreRewardSticker(rewardId);
+        };
     },
 };
 
 const updateGoldCompat: ToolImplementation = {
+    policy: 'destructive',
     definition: {
         name: 'update_gold',
         description: 'Deprecated compatibility alias. Use record_income or record_expense instead.',
@@ -556,9 +653,15 @@ const updateGoldCompat: ToolImplementation = {
             message: `${String(result.message ?? '')} (deprecated: use record_expense)`,
         };
     },
+    preview: ({ amount, reason }: { amount: number; reason?: string }) => ({
+        summary: `Change gold by ${amount}${reason ? ` (${reason})` : ''}`,
+        changes: [previewGoldChange(Number(amount))],
+    }),
+    inverse: (_args, _result, before) => reverseMoneyChange(before, 'Undo AI gold change'),
 };
 
 const updateEnergy: ToolImplementation = {
+    policy: 'safe_write',
     definition: {
         name: 'update_energy',
         description: 'Set or modify the player\'s energy (精力) level. Use this after learning about sleep quality or rest activities. Energy ranges from 0-100.',
@@ -595,9 +698,156 @@ const updateEnergy: ToolImplementation = {
             return { success: true, newEnergy, message: `Energy adjusted by ${value}.` };
         }
     },
+    preview: ({ value, mode = 'set' }: { value: number; mode?: 'set' | 'delta' }) => {
+        const current = useGameStore.getState().resources.energy.current;
+        const next = Math.max(0, Math.min(100, mode === 'set' ? value : current + value));
+        return { summary: `Set energy to ${next}`, changes: [{ label: 'energy', before: String(current), after: String(next) }] };
+    },
+    inverse: (_args, _result, before) => {
+        const change = useGameStore.getState().resources.energy.current - before.resources.energy.current;
+        if (change === 0) return null;
+        return () => useGameStore.getState().updateEnergy(-change, 'Undo AI energy change');
+    },
+};
+
+// Completion rewards are reversed with compensating entries too; the deltas are read
+// right after the call, so later changes are left alone
+function reverseRewards(before: GameData, description: string): () => void {
+    const after = useGameStore.getState();
+    const gold = after.resources.money.balance - before.resources.money.balance;
+    const xp = after.experience - before.experience;
+    const energy = after.resources.energy.current - before.resources.energy.current;
+    return () => {
+        const state = useGameStore.getState();
+        if (gold !== 0) state.updateMoney(-gold, 'ai_undo', description);
+        if (xp !== 0) state.addExperience(-xp);
+        if (energy !== 0) state.updateEnergy(-energy, description);
+    };
+}
+
+const completeTask: ToolImplementation = {
+    policy: 'safe_write',
+    definition: {
+        name: 'complete_task',
+        description: 'Mark an open task as completed by ID or by finding a best match title. Grants the usual gold and XP.',
+        parameters: {
+            type: 'OBJECT',
+            properties: {
+                taskId: { type: 'STRING', description: 'The exact ID of the task to complete' },
+                taskName: { type: 'STRING', description: 'The approximate name of the task to complete if ID is unknown' },
+            },
+        },
+    },
+    execute: async ({ taskId, taskName }: { taskId?: string; taskName?: string }) => {
+        if (!taskId && !taskName) {
+            return { success: false, message: 'Please provide either taskId or taskName.' };
+        }
+        const target = resolveTaskTarget({ taskId, taskName });
+        if (!target) {
+            return { success: false, message: taskId ? 'Task not found.' : `Could not find task with name containing "${taskName}".` };
+        }
+        if (target.completed || target.status === 'completed') {
+            return { success: false, message: `Task "${target.name}" is already completed.` };
+        }
+
+        const before = useGameStore.getState();
+        before.completeTask(target.id);
+        const after = useGameStore.getState();
+        return {
+            success: true,
+            taskId: target.id,
+            goldGain: after.resources.money.balance - before.resources.money.balance,
+            xpGain: after.experience - before.experience,
+            message: `Task "${target.name}" completed.`,
+        };
+    },
+    preview: (args: { taskId?: string; taskName?: string }) => {
+        const target = resolveTaskTarget(args);
+        return {
+            summary: `Complete task "${target?.name || args.taskId || args.taskName}"`,
+            changes: target ? [{ label: 'status', before: target.status, after: 'completed' }] : [],
+        };
+    },
+    inverse: (_args, result, before) => {
+        const { taskId } = result as { taskId: string };
+        const previous = before.customTasks.find(t => t.id === taskId);
+        if (!previous) return null;
+        const undoRewards = reverseRewards(before, 'Undo AI task completion');
+        return () => {
+            const state = useGameStore.getState();
+            state.updateTask(taskId, {
+                completed: previous.completed,
+                status: previous.status,
+                completedAt: previous.completedAt,
+                review: previous.review,
+                reviewSatisfaction: previous.reviewSatisfaction,
+                actualCosts: previous.actualCosts,
+            });
+            state.propagateProgressUp(taskId);
+            undoRewards();
+        };
+    },
+};
+
+function resolveHabitTarget({ habitId, habitName }: { habitId?: string; habitName?: string }): Habit | null {
+    const habits = useGameStore.getState().habits.filter(h => h.active);
+    if (habitId) return habits.find(h => h.id === habitId) || null;
+    if (habitName) return habits.find(h => h.name.toLowerCase().includes(habitName.toLowerCase())) || null;
+    return null;
+}
+
+const checkInHabit: ToolImplementation = {
+    policy: 'safe_write',
+    definition: {
+        name: 'check_in_habit',
+        description: 'Check in an active habit for today by ID or by finding a best match name.',
+        parameters: {
+            type: 'OBJECT',
+            properties: {
+                habitId: { type: 'STRING', description: 'The exact ID of the habit' },
+                habitName: { type: 'STRING', description: 'The approximate name of the habit if ID is unknown' },
+            },
+        },
+    },
+    execute: async ({ habitId, habitName }: { habitId?: string; habitName?: string }) => {
+        if (!habitId && !habitName) {
+            return { success: false, message: 'Please provide either habitId or habitName.' };
+        }
+        const target = resolveHabitTarget({ habitId, habitName });
+        if (!target) {
+            return { success: false, message: habitId ? 'Habit not found.' : `Could not find habit with name containing "${habitName}".` };
+        }
+
+        useGameStore.getState().checkInHabit(target.id);
+        const streak = useGameStore.getState().habits.find(h => h.id === target.id)?.streak ?? 0;
+        return { success: true, habitId: target.id, streak, message: `Habit "${target.name}" checked in, ${streak}-day streak.` };
+    },
+    preview: (args: { habitId?: string; habitName?: string }) => {
+        const target = resolveHabitTarget(args);
+        return {
+            summary: `Check in habit "${target?.name || args.habitId || args.habitName}"`,
+            changes: target ? [{ label: 'completions', before: String(target.totalCompletions), after: String(target.totalCompletions + 1) }] : [],
+        };
+    },
+    inverse: (_args, result, before) => {
+        const { habitId } = result as { habitId: string };
+        const previous = before.habits.find(h => h.id === habitId);
+        if (!previous) return null;
+        const undoRewards = reverseRewards(before, 'Undo AI habit check-in');
+        return () => {
+            useGameStore.getState().updateHabit(habitId, {
+                streak: previous.streak,
+                longestStreak: previous.longestStreak,
+                totalCompletions: previous.totalCompletions,
+                completionHistory: previous.completionHistory,
+            });
+            undoRewards();
+        };
+    },
 };
 
 const getWorldState: ToolImplementation = {
+    policy: 'read',
     definition: {
         name: 'get_world_state',
         description: 'Get current world state snapshot including epoch, factions, and variables.',
@@ -619,6 +869,7 @@ const getWorldState: ToolImplementation = {
 };
 
 const getLoreProfile: ToolImplementation = {
+    policy: 'read',
     definition: {
         name: 'get_lore_profile',
         description: 'Get the user configured lore profile used by orchestra/world generation.',
@@ -634,6 +885,7 @@ const getLoreProfile: ToolImplementation = {
 };
 
 const setLoreProfile: ToolImplementation = {
+    policy: 'safe_write',
     definition: {
         name: 'set_lore_profile',
         description: 'Update lore profile fields. Use this to align world narrative with user background.',
@@ -665,9 +917,20 @@ const setLoreProfile: ToolImplementation = {
         });
         return { success: true, loreProfile: useGameStore.getState().loreProfile };
     },
+    preview: (args: ToolArgs) => {
+        const profile = useGameStore.getState().loreProfile as unknown as ToolArgs;
+        return {
+            summary: 'Update lore profile',
+            changes: Object.entries(args)
+                .filter(([, value]) => value !== undefined)
+                .map(([key, value]) => ({ label: key, before: formatValue(profile[key]), after: formatValue(value) })),
+        };
+    },
+    inverse: (_args, _result, before) => () => useGameStore.getState().updateLoreProfile(before.loreProfile),
 };
 
 const runOrchestrationCycle: ToolImplementation = {
+    policy: 'safe_write',
     definition: {
         name: 'run_orchestration_cycle',
         description: 'Run orchestra evolution cycle and return latest orchestration log entry.',
@@ -691,6 +954,15 @@ const runOrchestrationCycle: ToolImplementation = {
         state.runOrchestrationCycle(trigger, note);
         return { success: true, latest: useGameStore.getState().orchestrationLog[0] || null };
     },
+    preview: ({ trigger = 'manual' }: { trigger?: string }) => ({
+        summary: `Run orchestration cycle (${trigger})`,
+        changes: [{ label: 'epoch', before: String(useGameStore.getState().worldState.epoch) }],
+    }),
+    inverse: (_args, result, before) => {
+        const latest = (result as { latest: { id: string } | null }).latest;
+        if (!latest) return null;
+        return () => useGameStore.getState().rollbackOrchestrationCycle(latest.id, before.worldState);
+    },
 };
 
 
@@ -699,6 +971,7 @@ const runOrchestrationCycle: ToolImplementation = {
 // These tools map to the obsidian-mcp package tools
 
 const obsidianSearchVault: ToolImplementation = {
+    policy: 'read',
     definition: {
         name: 'search_vault',
         description: 'Search for notes in Obsidian vault by content or filename.',
@@ -774,6 +1047,7 @@ async function tryReadNote(name: string): Promise<unknown> {
 }
 
 const obsidianReadNote: ToolImplementation = {
+    policy: 'read',
     definition: {
         name: 'read_note',
         description: 'Read the content of a specific note from Obsidian.',
@@ -859,7 +1133,9 @@ const obsidianReadNote: ToolImplementation = {
     },
 };
 
+// Vault writes go through the bridge and have no in-app inverse, so they are never listed for undo
 const obsidianCreateNote: ToolImplementation = {
+    policy: 'safe_write',
     definition: {
         name: 'create_note',
         description: 'Create a new note in Obsidian.',
@@ -883,9 +1159,11 @@ const obsidianCreateNote: ToolImplementation = {
             return { error: `Create Failed: ${message}` };
         }
     },
+    preview: ({ path }: { path: string }) => ({ summary: `Create note "${path}"`, changes: [{ label: 'note', after: path }] }),
 };
 
 const obsidianEditNote: ToolImplementation = {
+    policy: 'destructive',
     definition: {
         name: 'edit_note',
         description: 'Edit an existing note in Obsidian.',
@@ -909,9 +1187,14 @@ const obsidianEditNote: ToolImplementation = {
             return { error: `Edit Failed: ${message}` };
         }
     },
+    preview: ({ path, content }: { path: string; content: string }) => ({
+        summary: `Overwrite note "${path}"`,
+        changes: [{ label: 'content', after: content.length > 120 ? `${content.slice(0, 120)}…` : content }],
+    }),
 };
 
 const obsidianDeleteNote: ToolImplementation = {
+    policy: 'read',
     definition: {
         name: 'request_delete_note',
         description: 'Request to delete a note. This REQUIRES user confirmation before executing.',
@@ -937,6 +1220,7 @@ const obsidianDeleteNote: ToolImplementation = {
 };
 
 const obsidianManageTags: ToolImplementation = {
+    policy: 'read',
     definition: {
         name: 'manage_tags',
         description: 'List and manage tags in Obsidian vault.',
@@ -968,6 +1252,8 @@ export const toolsMap: Record<string, ToolImplementation> = {
     update_task: updateTask,
     draft_task: draftTask,
     delete_task: deleteTask,
+    complete_task: completeTask,
+    check_in_habit: checkInHabit,
     update_gold: updateGoldCompat,
     record_income: recordIncome,
     record_expense: recordExpense,
@@ -988,16 +1274,97 @@ export const toolsMap: Record<string, ToolImplementation> = {
 
 export const toolsList = Object.values(toolsMap).map(tool => tool.definition);
 
-export async function executeTool(name: string, args: unknown) {
+function isSuccessfulResult(result: unknown): boolean {
+    return !!result && typeof result === 'object' && (result as { success?: unknown }).success === true;
+}
+
+function describeCall(name: string, tool: ToolImplementation, args: unknown): AIActionPreview {
+    try {
+        return tool.preview?.(args) ?? { summary: name, changes: [] };
+    } catch {
+        return { summary: name, changes: [] };
+    }
+}
+
+export interface ExecuteToolOptions {
+    /** The user already confirmed this call; run a destructive tool instead of queueing it */
+    confirmed?: boolean;
+}
+
+export async function executeTool(name: string, args: unknown, options: ExecuteToolOptions = {}) {
     const tool = toolsMap[name];
     if (!tool) {
         throw new Error(`Tool ${name} not found`);
     }
+    if (tool.policy === 'read') {
+        return runTool(tool, args);
+    }
+
+    const preview = describeCall(name, tool, args);
+    if (tool.policy === 'destructive' && !options.confirmed) {
+        const pendingActionId = useAIActionStore.getState().enqueuePending({
+            toolName: name,
+            args: (args && typeof args === 'object' ? args : {}) as ToolArgs,
+            ...preview,
+        });
+        return {
+            success: false,
+            pending: true,
+            pendingActionId,
+            message: `Queued for user confirmation: ${preview.summary}. It has NOT been executed yet; ask the user to confirm or reject it in the chat.`,
+        };
+    }
+
+    // Every writing tool gets a restorable snapshot taken right before it runs;
+    // one that leaves game data unchanged is skipped as a duplicate.
+    const before = useGameStore.getState().exportData();
+    void createSnapshot('ai_tool', before, name);
+    const result = await runTool(tool, args);
+    if (tool.inverse && isSuccessfulResult(result)) {
+        const undo = tool.inverse(args, result, before);
+        if (undo) {
+            useAIActionStore.getState().recordAction({ toolName: name, undo, ...preview });
+        }
+    }
+    return result;
+}
+
+async function runTool(tool: ToolImplementation, args: unknown): Promise<unknown> {
     try {
-        const result = await tool.execute(args);
-        return result;
+        return await tool.execute(args);
     } catch (error: unknown) {
         const message = error instanceof Error ? error.message : 'Unknown tool execution error';
         return { error: message };
     }
 }
+
+/**
+ * Run a queued destructive call after the user confirmed it
+ */
+export async function confirmPendingAction(id: string): Promise<unknown> {
+    const action = useAIActionStore.getState().takePending(id);
+    if (!action) return { success: false, message: 'Pending action not found.' };
+    return executeTool(action.toolName, action.args, { confirmed: true });
+}
+
+export function rejectPendingAction(id: string): void {
+    useAIActionStore.getState().takePending(id);
+}
+
+/**
+ * Undo the AI's last `count` recorded actions, newest first.
+ * Returns how many were undone.
+ */
+export function undoRecentActions(count = 1): number {
+    const records = useAIActionStore.getState().takeRecent(count);
+    let undone = 0;
+    for (const record of records) {
+        try {
+            record.undo();
+            undone += 1;
+        } catch (error: unknown) {
+            console.error(`[AI Tools] Undo of ${record.toolName} failed:`, error);
+        }
+    }
+    return undone;
+}
@@ -0,0 +1,126 @@
+/**
+ * Calendar Day
+ *
+ * Decides which day a moment belongs to. Days follow the user's time zone —
+ * the device's, unless one is pinned in settings so that travelling does not
+ * move check-ins and history onto other days — and begin at `dayStartHour`,
+ * so late-night work before that hour still counts for the previous day.
+ *
+ * Every "today" and every timestamp-to-day conversion goes through
+ * `getDayKey`. `toDateKey` in the store helpers stays for formatting dates
+ * that already stand for a calendar day (date pickers, recurrence math).
+ *
+ * Day keys are `YYYY-MM-DD`; arithmetic on them is done in UTC so it does not
+ * depend on the device zone.
+ */
+
+import type { CalendarSettings } from '../types/game-data';
+
+export const DEFAULT_CALENDAR_SETTINGS: CalendarSettings = {
+    dayStartHour: 0,
+    timeZone: null,
+};
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+let currentSettings: CalendarSettings = DEFAULT_CALENDAR_SETTINGS;
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+/**
+ * Set the settings used when `getDayKey` is called without explicit ones.
+ * The game store calls this whenever `calendarSettings` changes.
+ */
+export function configureCalendar(settings: CalendarSettings | undefined): void {
+    currentSettings = settings || DEFAULT_CALENDAR_SETTINGS;
+}
+
+export function getCalendarSettings(): CalendarSettings {
+    return currentSettings;
+}
+
+export function getDeviceTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat | null {
+    if (!formatters.has(timeZone)) {
+        try {
+            formatters.set(timeZone, new Intl.DateTimeFormat('en-CA', {
+                timeZone,
+                year: 'numeric',
+                month: '2-digit',
+                day: '2-digit',
+                hour: '2-digit',
+                hourCycle: 'h23',
+            }));
+        } catch {
+            formatters.set(timeZone, null);
+        }
+    }
+    return formatters.get(timeZone) ?? null;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    return !!timeZone && getFormatter(timeZone) !== null;
+}
+
+function pad(value: number): string {
+    return String(value).padStart(2, '0');
+}
+
+/**
+ * Calendar date and hour of an instant in a time zone; the device zone when none
+ * is given or the pinned one is unknown to this runtime
+ */
+function getZonedParts(instant: Date, timeZone: string | null) {
+    const formatter = timeZone ? getFormatter(timeZone) : null;
+    if (!formatter) {
+        return { year: instant.getFullYear(), month: instant.getMonth() + 1, day: instant.getDate(), hour: instant.getHours() };
+    }
+    const parts = Object.fromEntries(formatter.formatToParts(instant).map((part) => [part.type, part.value]));
+    return { year: Number(parts.year), month: Number(parts.month), day: Number(parts.day), hour: Number(parts.hour) };
+}
+
+/**
+ * Day key (`YYYY-MM-DD`) of the day an instant belongs to; '' for invalid input
+ */
+export function getDayKey(
+    instant: Date | string | number = new Date(),
+    settings: CalendarSettings = currentSettings
+): string {
+    const date = instant instanceof Date ? instant : new Date(instant);
+    if (Number.isNaN(date.getTime())) return '';
+    const { year, month, day, hour } = getZonedParts(date, settings.timeZone);
+    // Before the day starts, the instant still belongs to the previous calendar day
+    const offset = hour < settings.dayStartHour ? -1 : 0;
+    return new Date(Date.UTC(year, month - 1, day + offset)).toISOString().slice(0, 10);
+}
+
+/**
+ * Local-midnight `Date` standing for a day key, for code that walks calendar grids
+ */
+export function toDayDate(key: string = getDayKey()): Date {
+    const [year, month, day] = key.slice(0, 10).split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * Day key of a stored day: a `YYYY-MM-DD` key, an ISO timestamp's date part, or a
+ * legacy `Date#toDateString()` value read as a local date
+ */
+export function normalizeDayKey(value?: string | null): string | null {
+    if (!value) return null;
+    if (DAY_KEY_PATTERN.test(value)) return value.slice(0, 10);
+    const parsed = new Date(value);
+    if (Number.isNaN(parsed.getTime())) return null;
+    return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+export function sanitizeCalendarSettings(settings?: Partial<CalendarSettings> | null): CalendarSettings {
+    const hour = Math.floor(Number(settings?.dayStartHour));
+    const timeZone = settings?.timeZone;
+    return {
+        dayStartHour: Number.isFinite(hour) && hour >= 0 && hour <= 23 ? hour : DEFAULT_CALENDAR_SETTINGS.dayStartHour,
+        timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : null,
+    };
+}
@@ -0,0 +1,116 @@
+/**
+ * Task & Quest Dependencies
+ *
+ * Tasks and quests store the ids they wait on in `blockedBy`; the inverse
+ * ("blocks") is derived. A task is blocked while any of its blockers is
+ * unfinished, or while the quest it is linked to is blocked. Blockers that no
+ * longer exist (deleted or archived) count as resolved.
+ */
+
+import type { CustomTask, MainQuest } from '../types/task';
+
+export interface DependencyNode {
+    id: string;
+    blockedBy?: string[];
+}
+
+export interface BlockerInfo {
+    type: 'task' | 'quest';
+    id: string;
+    name: string;
+}
+
+export type DependencyError = 'self' | 'not_found' | 'cycle';
+
+export function isTaskDone(task: CustomTask): boolean {
+    return task.completed || task.status === 'completed';
+}
+
+export function isQuestDone(quest: MainQuest): boolean {
+    return quest.status === 'completed' || quest.status === 'archived';
+}
+
+/**
+ * Whether making `nodeId` wait on `blockerId` would close a loop, i.e. the
+ * blocker already (transitively) waits on the node
+ */
+export function wouldCreateCycle(nodes: DependencyNode[], nodeId: string, blockerId: string): boolean {
+    if (nodeId === blockerId) return true;
+    const byId = new Map(nodes.map((node) => [node.id, node]));
+    const visited = new Set<string>();
+    const stack = [blockerId];
+    while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (current === nodeId) return true;
+        if (visited.has(current)) continue;
+        visited.add(current);
+        stack.push(...(byId.get(current)?.blockedBy || []));
+    }
+    return false;
+}
+
+/**
+ * Ids of the nodes waiting on `id` (its "blocks" list)
+ */
+export function getDependents(nodes: DependencyNode[], id: string): string[] {
+    return nodes.filter((node) => node.blockedBy?.includes(id)).map((node) => node.id);
+}
+
+/**
+ * Unfinished quests the quest waits on
+ */
+export function getQuestBlockers(quest: MainQuest, quests: MainQuest[]): BlockerInfo[] {
+    if (!quest.blockedBy?.length) return [];
+    return quests
+        .filter((q) => quest.blockedBy!.includes(q.id) && !isQuestDone(q))
+        .map((q) => ({ type: 'quest', id: q.id, name: q.title }));
+}
+
+/**
+ * Unfinished tasks the task waits on, plus the blockers of its linked quest
+ */
+export function getTaskBlockers(task: CustomTask, tasks: CustomTask[], quests: MainQuest[]): BlockerInfo[] {
+    const blockers: BlockerInfo[] = task.blockedBy?.length
+        ? tasks
+            .filter((t) => task.blockedBy!.includes(t.id) && !isTaskDone(t))
+            .map((t) => ({ type: 'task', id: t.id, name: t.name }))
+        : [];
+    const questId = task.linkedMainQuestId || task.linkedQuestId;
+    const quest = questId ? quests.find((q) => q.id === questId) : undefined;
+    return quest ? [...blockers, ...getQuestBlockers(quest, quests)] : blockers;
+}
+
+export function isTaskBlocked(task: CustomTask, tasks: CustomTask[], quests: MainQuest[]): boolean {
+    return !isTaskDone(task) && getTaskBlockers(task, tasks, quests).length > 0;
+}
+
+/**
+ * Ids of all open tasks that cannot be started yet
+ */
+export function getBlockedTaskIds(tasks: CustomTask[], quests: MainQuest[]): Set<string> {
+    return new Set(tasks.filter((task) => isTaskBlocked(task, tasks, quests)).map((task) => task.id));
+}
+
+/**
+ * Order ids so every blocker comes before the nodes waiting on it, keeping
+ * the given order otherwise. Blockers outside the list are ignored; nodes on
+ * a cycle fall back to their original position.
+ */
+export function orderByDependencies(ids: string[], nodes: DependencyNode[]): string[] {
+    const listed = new Set(ids);
+    const byId = new Map(nodes.map((node) => [node.id, node]));
+    const remaining = [...ids];
+    const placed = new Set<string>();
+    const ordered: string[] = [];
+
+    while (remaining.length > 0) {
+        let index = remaining.findIndex((id) =>
+            (byId.get(id)?.blockedBy || []).every((blocker) => !listed.has(blocker) || placed.has(blocker))
+        );
+        if (index === -1) index = 0;
+        const [id] = remaining.splice(index, 1);
+        placed.add(id);
+        ordered.push(id);
+    }
+    return ordered;
+}
@@ -0,0 +1,492 @@
+/**
+ * Reward Economy
+ *
+ * Pure reward formulas driven by `progressionConfig.economy`: energy, XP and
+ * gold for every rewarding event (task completion, habit check-in, flashcard
+ * review, pomodoro, quest/chapter/season completion), skill XP and attribute
+ * gains for tasks, and the `periodCaps` on the latter two. The game store
+ * applies the results; the settings preview replays recent history through
+ * the same functions to compare two configs.
+ */
+
+import type { EconomyConfig, GameData, PlayerStats, ProgressionConfig } from '../types/game-data';
+import type { GameEvent } from '../types/event';
+import type { CustomTask, Effort } from '../types/task';
+import { clampNumber, getSkillPathCandidates } from '../stores/game-store-helpers';
+import { getDayKey } from './calendar-day';
+import { addDaysToKey, weekStart } from './recurrence';
+
+export type FlashcardReward = 'easy' | 'good' | 'hard' | 'session';
+
+export type MilestoneKind = 'quest' | 'chapter' | 'season';
+
+export type EconomySource = 'task' | 'habit' | 'flashcard' | 'pomodoro' | MilestoneKind;
+
+export const ECONOMY_SOURCES: EconomySource[] = ['task', 'habit', 'flashcard', 'pomodoro', 'quest', 'chapter', 'season'];
+
+export const SIMULATION_DAYS = 30;
+
+/** Skills beyond the first two of each rule get nothing */
+const SKILLS_PER_RULE = 2;
+const MIN_ESTIMATED_MINUTES = 10;
+
+const LEGACY_EFFORTS: Record<string, Effort> = { tiny: 'light', moderate: 'medium', massive: 'heavy' };
+/**
+ * Tasks with a missing or unknown effort keep the base reward they got before
+ * effort was configurable: a 45 min / 5 energy estimate, 12 gold, a neutral XP
+ * coefficient, and XP time/energy factors measured against 60 min / 10 energy.
+ */
+const UNKNOWN_EFFORT = { estimateMinutes: 45, energy: 5, gold: 12, xpCoef: 1, xpMinutes: 60, xpEnergy: 10 };
+const ATTRIBUTE_KEYS: Array<keyof PlayerStats> = ['life', 'intelligence', 'spirit', 'action', 'agility', 'charm'];
+
+export interface TaskRewardInput {
+    /** Base energy the user entered (before the task type multiplier) */
+    loggedEnergy?: number;
+    /** Time the user entered, in minutes */
+    loggedMinutes: number;
+    review?: string;
+    reviewSatisfaction?: number;
+}
+
+export interface SkillAward {
+    path: string;
+    xp: number;
+    reason: 'task_completion_primary' | 'task_completion_secondary';
+}
+
+export interface TaskReward {
+    focusMinutes: number;
+    baseEnergyCost: number;
+    multiplier: number;
+    energyCost: number;
+    goldGain: number;
+    xpGain: number;
+    xpFactors: {
+        baseXP: number;
+        importanceCoef: number;
+        effortCoef: number;
+        qualityCoef: number;
+        timeCoef: number;
+        energyCoef: number;
+    };
+    skillAwards: SkillAward[];
+    attributeDelta: Partial<PlayerStats>;
+}
+
+export interface BasicReward {
+    energyCost: number;
+    xpGain: number;
+    goldGain: number;
+}
+
+/** XP, gold, skill XP and attribute points already granted in the current day / week */
+export interface PeriodUsage {
+    xpToday: number;
+    goldToday: number;
+    skillXpToday: number;
+    skillXpWeek: number;
+    attributesToday: number;
+}
+
+/** What one rewarding event grants before the period caps */
+export interface RewardGains {
+    xpGain: number;
+    goldGain: number;
+    skillAwards?: SkillAward[];
+    attributeDelta?: Partial<PlayerStats>;
+}
+
+export interface CappedGains {
+    xpGain: number;
+    goldGain: number;
+    skillAwards: SkillAward[];
+    attributeDelta: Partial<PlayerStats>;
+    /** Amounts the caps removed */
+    xpCut: number;
+    goldCut: number;
+    skillXpCut: number;
+    attributeCut: number;
+}
+
+export interface SourceTotals {
+    count: number;
+    xp: number;
+    gold: number;
+    energy: number;
+}
+
+export interface EconomySimulation {
+    from: string;
+    to: string;
+    sources: Record<EconomySource, SourceTotals>;
+    totals: SourceTotals & { skillXp: number; attributes: number };
+    cut: { xp: number; gold: number; skillXp: number; attributes: number };
+}
+
+/** Legacy effort names map to their successors; unknown efforts resolve to undefined */
+export function resolveEffort(effort: string | undefined): Effort | undefined {
+    if (effort === 'light' || effort === 'medium' || effort === 'heavy') return effort;
+    return effort ? LEGACY_EFFORTS[effort] : undefined;
+}
+
+function getEffortRules(effort: string | undefined, rules: EconomyConfig['task']): typeof UNKNOWN_EFFORT {
+    const resolved = resolveEffort(effort);
+    if (!resolved) return UNKNOWN_EFFORT;
+    const { minutes, energy, gold, xpCoef } = rules.effort[resolved];
+    return { estimateMinutes: minutes, energy, gold, xpCoef, xpMinutes: minutes, xpEnergy: energy };
+}
+
+function sumValues(values: Partial<Record<string, number>>): number {
+    return Object.values(values).reduce<number>((sum, value) => sum + (value || 0), 0);
+}
+
+export function sumAwards(awards: SkillAward[]): number {
+    return awards.reduce((sum, award) => sum + award.xp, 0);
+}
+
+function shareOf(xp: number, share: number): number {
+    return share > 0 ? Math.max(1, Math.ceil(xp * share)) : 0;
+}
+
+function perHour(minutes: number, rate: number): number {
+    return rate > 0 ? Math.max(1, Math.ceil(minutes * (rate / 60))) : 0;
+}
+
+export function computeTaskReward(
+    task: Pick<CustomTask, 'effort' | 'importance' | 'taskType' | 'pomodoroCount'>,
+    input: TaskRewardInput,
+    config: ProgressionConfig
+): TaskReward {
+    const rules = config.economy.task;
+    const effort = getEffortRules(task.effort, rules);
+    const multiplier = rules.energyMultiplier[task.taskType] ?? 1;
+    const pomodoroCount = task.pomodoroCount || 0;
+    const { loggedEnergy } = input;
+
+    // Either time or energy may be logged; the other is converted at `minutesPerEnergy`
+    // scaled by the task type multiplier.
+    let loggedMinutes = input.loggedMinutes;
+    if (loggedMinutes <= 0 && loggedEnergy !== undefined && loggedEnergy > 0) {
+        loggedMinutes = Math.round(loggedEnergy * rules.minutesPerEnergy * multiplier);
+    }
+    const inferredBaseEnergy = loggedEnergy === undefined && loggedMinutes > 0
+        ? Math.max(1, Math.round(loggedMinutes / (rules.minutesPerEnergy * multiplier)))
+        : undefined;
+
+    const minutesFromInput = Math.max(loggedMinutes, pomodoroCount * rules.pomodoroMinutes);
+    const estimatedMinutes = minutesFromInput > 0
+        ? 0
+        : Math.max(MIN_ESTIMATED_MINUTES, Math.round(effort.estimateMinutes * (rules.minutesMultiplier[task.taskType] ?? 1)));
+    const focusMinutes = Math.max(minutesFromInput, estimatedMinutes);
+
+    let baseEnergyCost: number;
+    if (loggedEnergy !== undefined && loggedEnergy >= 0) {
+        baseEnergyCost = loggedEnergy;
+    } else if (inferredBaseEnergy !== undefined) {
+        baseEnergyCost = inferredBaseEnergy;
+    } else if (pomodoroCount > 0) {
+        baseEnergyCost = pomodoroCount * rules.pomodoroEnergy;
+    } else {
+        baseEnergyCost = effort.energy;
+    }
+    const energyCost = Math.max(0, Math.ceil(baseEnergyCost * multiplier));
+
+    const goldSatisfactionCoef = clampNumber((input.reviewSatisfaction ?? 3) / 3, 0.8, 1.3);
+    const goldGain = Math.max(1, Math.ceil(
+        effort.gold
+        * (rules.goldImportanceCoef[task.importance] ?? 1)
+        * (rules.goldTaskTypeCoef[task.taskType] ?? 1)
+        * goldSatisfactionCoef
+    ));
+
+    const xpFactors = {
+        baseXP: rules.baseXp,
+        importanceCoef: rules.xpImportanceCoef[task.importance] ?? 1,
+        effortCoef: effort.xpCoef,
+        qualityCoef: input.review?.trim() ? rules.reviewXpBonus : 1,
+        timeCoef: clampNumber(focusMinutes / Math.max(1, effort.xpMinutes), 0.8, 1.2),
+        energyCoef: clampNumber(energyCost / Math.max(1, effort.xpEnergy), 0.9, 1.1),
+    };
+    const xpGain = Math.max(1, Math.min(rules.maxXp, Math.ceil(
+        Object.values(xpFactors).reduce((product, factor) => product * factor, 1)
+    )));
+
+    const rule = getSkillPathCandidates(task.taskType, config);
+    const primaryXp = shareOf(xpGain, rules.primarySkillShare);
+    const secondaryXp = shareOf(xpGain, rules.secondarySkillShare);
+    const skillAwards: SkillAward[] = [
+        ...(rule.primarySkills || []).slice(0, SKILLS_PER_RULE)
+            .map((path) => ({ path, xp: primaryXp, reason: 'task_completion_primary' as const })),
+        ...(rule.secondarySkills || []).slice(0, SKILLS_PER_RULE)
+            .map((path) => ({ path, xp: secondaryXp, reason: 'task_completion_secondary' as const })),
+    ].filter((award) => award.xp > 0);
+
+    const attributeSatisfaction = clampNumber((input.reviewSatisfaction || 3) / 3, 0.7, 1.5);
+    const attributeDelta: Partial<PlayerStats> = {};
+    for (const [key, weight] of Object.entries(rule.attributeWeights || {})) {
+        const gain = Math.max(0, Math.ceil((weight || 0) * rules.attributeScale * attributeSatisfaction));
+        if (gain > 0 && ATTRIBUTE_KEYS.includes(key as keyof PlayerStats)) {
+            attributeDelta[key as keyof PlayerStats] = gain;
+        }
+    }
+
+    return {
+        focusMinutes,
+        baseEnergyCost,
+        multiplier,
+        energyCost,
+        goldGain,
+        xpGain,
+        xpFactors,
+        skillAwards,
+        attributeDelta,
+    };
+}
+
+export function computeHabitReward(minutes: number, economy: EconomyConfig): BasicReward {
+    return {
+        energyCost: perHour(minutes, economy.habit.energyPerHour),
+        xpGain: perHour(minutes, economy.habit.xpPerHour),
+        goldGain: perHour(minutes, economy.habit.goldPerHour),
+    };
+}
+
+export function getFlashcardXp(reward: FlashcardReward, economy: EconomyConfig): number {
+    return Math.max(0, economy.flashcard[reward === 'session' ? 'sessionBonus' : reward]);
+}
+
+export function computePomodoroReward(economy: EconomyConfig): BasicReward {
+    return { energyCost: 0, xpGain: Math.max(0, economy.pomodoro.xp), goldGain: Math.max(0, economy.pomodoro.gold) };
+}
+
+export function getMilestoneXp(kind: MilestoneKind, rewardXP: number | undefined, economy: EconomyConfig): number {
+    if (!rewardXP || rewardXP <= 0) return 0;
+    return Math.max(0, Math.round(rewardXP * economy.milestone[`${kind}XpMultiplier`]));
+}
+
+// --- Period caps ---
+
+/**
+ * XP and gold come from the `xpGain` / `goldGain` every rewarding event records;
+ * skill XP from `skill.xp` events; attribute points from the `attributeGain`
+ * recorded on task completion events
+ */
+export function getPeriodUsage(events: GameEvent[], now: Date = new Date()): PeriodUsage {
+    const today = getDayKey(now);
+    const week = weekStart(today);
+    const usage: PeriodUsage = { xpToday: 0, goldToday: 0, skillXpToday: 0, skillXpWeek: 0, attributesToday: 0 };
+    for (const event of events) {
+        const day = getDayKey(event.timestamp);
+        if (day < week || day > today) continue;
+        if (day === today) {
+            if (typeof event.details.xpGain === 'number') usage.xpToday += Math.max(0, event.details.xpGain);
+            if (typeof event.details.goldGain === 'number') usage.goldToday += Math.max(0, event.details.goldGain);
+        }
+        if (event.type === 'skill.xp') {
+            const xp = typeof event.details.xp === 'number' ? Math.max(0, event.details.xp) : 0;
+            usage.skillXpWeek += xp;
+            if (day === today) usage.skillXpToday += xp;
+        } else if (event.type === 'task.completed' && day === today && event.details.attributeGain) {
+            usage.attributesToday += sumValues(event.details.attributeGain as Partial<PlayerStats>);
+        }
+    }
+    return usage;
+}
+
+/** Grants in order until the period budget runs out; a cap of 0 or less is no cap */
+export function applyPeriodCaps(
+    gains: RewardGains,
+    usage: PeriodUsage,
+    caps: ProgressionConfig['periodCaps']
+): CappedGains {
+    const limit = (cap: number, used: number) => (cap > 0 ? Math.max(0, cap - used) : Infinity);
+
+    const xpGain = Math.max(0, Math.min(gains.xpGain, limit(caps.dailyXpCap, usage.xpToday)));
+    const goldGain = Math.max(0, Math.min(gains.goldGain, limit(caps.dailyGoldCap, usage.goldToday)));
+
+    let skillBudget = Math.min(
+        limit(caps.dailySkillXpCap, usage.skillXpToday),
+        limit(caps.weeklySkillXpCap, usage.skillXpWeek)
+    );
+    const skillAwards: SkillAward[] = [];
+    const requestedSkills = gains.skillAwards || [];
+    for (const award of requestedSkills) {
+        const xp = Math.min(award.xp, skillBudget);
+        skillBudget -= xp;
+        if (xp > 0) skillAwards.push({ ...award, xp });
+    }
+
+    let attributeBudget = limit(caps.dailyAttrCap, usage.attributesToday);
+    const attributeDelta: Partial<PlayerStats> = {};
+    const requestedAttributes = gains.attributeDelta || {};
+    for (const [key, gain] of Object.entries(requestedAttributes) as Array<[keyof PlayerStats, number]>) {
+        const granted = Math.min(gain, attributeBudget);
+        attributeBudget -= granted;
+        if (granted > 0) attributeDelta[key] = granted;
+    }
+
+    return {
+        xpGain,
+        goldGain,
+        skillAwards,
+        attributeDelta,
+        xpCut: Math.max(0, gains.xpGain) - xpGain,
+        goldCut: Math.max(0, gains.goldGain) - goldGain,
+        skillXpCut: sumAwards(requestedSkills) - sumAwards(skillAwards),
+        attributeCut: sumValues(requestedAttributes) - sumValues(attributeDelta),
+    };
+}
+
+// --- Simulation ---
+
+type SimulationData = Pick<
+    GameData,
+    | 'customTasks'
+    | 'archivedTasks'
+    | 'taskLogs'
+    | 'habits'
+    | 'archivedHabits'
+    | 'events'
+    | 'mainQuests'
+    | 'archivedMainQuests'
+    | 'activeSeasons'
+    | 'seasonHistory'
+>;
+
+interface ReplayItem {
+    at: string;
+    source: EconomySource;
+    counted: boolean;
+    reward: () => BasicReward & RewardGains;
+}
+
+const NO_REWARD: BasicReward = { energyCost: 0, xpGain: 0, goldGain: 0 };
+
+function emptyTotals(): SourceTotals {
+    return { count: 0, xp: 0, gold: 0, energy: 0 };
+}
+
+function collectReplayItems(data: SimulationData, config: ProgressionConfig, inWindow: (iso?: string) => boolean): ReplayItem[] {
+    const { economy } = config;
+    const items: ReplayItem[] = [];
+
+    const tasks = new Map([...data.archivedTasks, ...data.customTasks].map((task) => [task.id, task]));
+    for (const log of data.taskLogs) {
+        if (log.type !== 'complete' || !inWindow(log.timestamp)) continue;
+        const task = tasks.get(log.task.id);
+        if (!task) continue;
+        const details = log.details || {};
+        items.push({
+            at: log.timestamp,
+            source: 'task',
+            counted: true,
+            reward: () => computeTaskReward(task, {
+                // Logs written before the economy config carry no inputs; they replay as estimates
+                loggedEnergy: typeof details.loggedEnergy === 'number' ? details.loggedEnergy : undefined,
+                loggedMinutes: typeof details.loggedMinutes === 'number' ? details.loggedMinutes : 0,
+                review: log.review,
+                reviewSatisfaction: log.reviewSatisfaction,
+            }, config),
+        });
+    }
+
+    for (const habit of [...data.habits, ...data.archivedHabits]) {
+        const minutes = habit.estimatedDuration || 0;
+        const reward = minutes > 0 ? computeHabitReward(minutes, economy) : NO_REWARD;
+        for (const [day, entry] of Object.entries(habit.completionHistory)) {
+            const times = entry.timestamps.length > 0 ? entry.timestamps : Array(entry.count).fill(`${day}T12:00:00`);
+            times.filter((at) => inWindow(at)).forEach((at) => {
+                items.push({ at, source: 'habit', counted: true, reward: () => reward });
+            });
+        }
+    }
+
+    for (const event of data.events) {
+        if (!inWindow(event.timestamp)) continue;
+        if (event.type === 'flashcard.reviewed' || event.type === 'flashcard.session_completed') {
+            const rating = event.type === 'flashcard.reviewed' ? event.details.rating as FlashcardReward : 'session';
+            const xpGain = getFlashcardXp(rating, economy);
+            items.push({
+                at: event.timestamp,
+                source: 'flashcard',
+                counted: event.type === 'flashcard.reviewed',
+                reward: () => ({ ...NO_REWARD, xpGain }),
+            });
+        } else if (event.type === 'pomodoro.completed') {
+            const reward = computePomodoroReward(economy);
+            items.push({ at: event.timestamp, source: 'pomodoro', counted: true, reward: () => reward });
+        }
+    }
+
+    const milestones: Array<[MilestoneKind, { completedAt?: string; rewardXP?: number }]> = [
+        ...[...data.mainQuests, ...data.archivedMainQuests].map((quest) => ['quest', quest] as [MilestoneKind, typeof quest]),
+        ...[...data.activeSeasons, ...data.seasonHistory].flatMap((season) => [
+            ['season', season] as [MilestoneKind, typeof season],
+            ...season.chapters.map((chapter) => ['chapter', chapter] as [MilestoneKind, typeof chapter]),
+        ]),
+    ];
+    for (const [kind, milestone] of milestones) {
+        if (!milestone.completedAt || !inWindow(milestone.completedAt)) continue;
+        const xpGain = getMilestoneXp(kind, milestone.rewardXP, economy);
+        items.push({ at: milestone.completedAt, source: kind, counted: true, reward: () => ({ ...NO_REWARD, xpGain }) });
+    }
+
+    return items.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
+
+/**
+ * Replays the last `days` days of completions, check-ins, reviews and
+ * milestones under `config`, applying the period caps day by day
+ */
+export function simulateEconomy(
+    data: SimulationData,
+    config: ProgressionConfig,
+    now: Date = new Date(),
+    days: number = SIMULATION_DAYS
+): EconomySimulation {
+    const to = getDayKey(now);
+    const from = addDaysToKey(to, -(days - 1));
+    const inWindow = (iso?: string) => {
+        if (!iso) return false;
+        const day = getDayKey(iso);
+        return day >= from && day <= to;
+    };
+
+    const sources = Object.fromEntries(ECONOMY_SOURCES.map((source) => [source, emptyTotals()])) as Record<EconomySource, SourceTotals>;
+    const totals = { ...emptyTotals(), skillXp: 0, attributes: 0 };
+    const cut = { xp: 0, gold: 0, skillXp: 0, attributes: 0 };
+    const usageByDay = new Map<string, Omit<PeriodUsage, 'skillXpWeek'>>();
+    const skillXpByWeek = new Map<string, number>();
+
+    for (const item of collectReplayItems(data, config, inWindow)) {
+        const day = getDayKey(item.at);
+        const week = weekStart(day);
+        const dayUsage = usageByDay.get(day) || { xpToday: 0, goldToday: 0, skillXpToday: 0, attributesToday: 0 };
+        const reward = item.reward();
+        const capped = applyPeriodCaps(reward, { ...dayUsage, skillXpWeek: skillXpByWeek.get(week) || 0 }, config.periodCaps);
+        const skillXp = sumAwards(capped.skillAwards);
+        const attributes = sumValues(capped.attributeDelta);
+        usageByDay.set(day, {
+            xpToday: dayUsage.xpToday + capped.xpGain,
+            goldToday: dayUsage.goldToday + capped.goldGain,
+            skillXpToday: dayUsage.skillXpToday + skillXp,
+            attributesToday: dayUsage.attributesToday + attributes,
+        });
+        skillXpByWeek.set(week, (skillXpByWeek.get(week) || 0) + skillXp);
+
+        for (const target of [sources[item.source], totals]) {
+            if (item.counted) target.count += 1;
+            target.xp += capped.xpGain;
+            target.gold += capped.goldGain;
+            target.energy += reward.energyCost;
+        }
+        totals.skillXp += skillXp;
+        totals.attributes += attributes;
+        cut.xp += capped.xpCut;
+        cut.gold += capped.goldCut;
+        cut.skillXp += capped.skillXpCut;
+        cut.attributes += capped.attributeCut;
+    }
+
+    return { from, to, sources, totals, cut };
+}
@@ -1,5 +1,6 @@
 import type { Chapter, MainQuest, Season, Status } from '../types/task';
 import { getChapterDisplayStatus, type ChapterDisplayStatus } from './chapter-status';
+import { getDayKey, toDayDate } from './calendar-day';
 
 function parseLocalDate(dateStr?: string): Date | null {
   if (!dateStr) return null;
@@ -14,8 +15,7 @@ function parseLocalDate(dateStr?: string): Date | null {
 export function isDateInFuture(dateStr?: string, now: Date = new Date()): boolean {
   const date = parseLocalDate(dateStr);
   if (!date) return false;
-  const nowDate = new Date(now);
-  nowDate.setHours(0, 0, 0, 0);
+  const nowDate = toDayDate(getDayKey(now));
   date.setHours(0, 0, 0, 0);
   return date > nowDate;
 }
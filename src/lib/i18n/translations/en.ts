@@ -25,6 +25,7 @@ export const en: Record<TranslationKey, string> = {
     'ai.program.coach': 'AI Coach',
     'ai.program.friend': 'Friend',
     'ai.input.placeholder.coach': 'Message Coach...',
+    'ai.slash.hint': 'Tab to complete · ↑↓ to choose · Esc to close · /help for all commands',
     'ai.input.placeholder.friend': 'Message Friend...',
     'ai.history.title': 'Chat History',
     'ai.history.empty': 'No chat history yet',
@@ -34,6 +35,17 @@ export const en: Record<TranslationKey, string> = {
     'ai.history.delete_confirm': 'Delete this chat history?',
     'ai.history.delete_single_confirm': 'Delete this chat history?',
     'ai.action.send': 'Send',
+    'ai.action.stop': 'Stop',
+    'ai.stream.stopped': '(stopped)',
+    'ai.actions.pending_title': 'Waiting for your confirmation',
+    'ai.actions.confirm': 'Confirm',
+    'ai.actions.reject': 'Reject',
+    'ai.actions.confirmed': 'Done: {summary}',
+    'ai.actions.rejected': 'Cancelled: {summary}',
+    'ai.actions.failed': 'Could not complete: {summary}',
+    'ai.actions.history_title': 'Recent AI actions ({count})',
+    'ai.actions.undo_to_here': 'Undo to here',
+    'ai.actions.undone': 'Undid {count} AI action(s).',
     'ai.draft.title': 'AI Suggested Task',
     'ai.draft.label_title': 'Task Title',
     'ai.draft.label_date': 'Date',
@@ -187,6 +199,24 @@ export const en: Record<TranslationKey, string> = {
     'cmd.stat_active_quests': 'Active Quests',
     'cmd.stat_pending_tasks': 'Pending Tasks',
     'cmd.stat_completed_tasks': 'Completed Tasks',
+    'cmd.stat_forecast_at_risk': 'Forecast Late',
+    'cmd.forecast.title': 'Schedule Forecast',
+    'cmd.forecast.risk_low': 'On track',
+    'cmd.forecast.risk_medium': 'Tight',
+    'cmd.forecast.risk_high': 'At risk',
+    'cmd.forecast.risk_critical': 'Likely late',
+    'cmd.forecast.expected': 'Expected completion',
+    'cmd.forecast.range': 'Range (P10 ~ P90)',
+    'cmd.forecast.deadline': 'Effective deadline',
+    'cmd.forecast.probability': 'Chance to finish on time',
+    'cmd.forecast.slack': 'Buffer',
+    'cmd.forecast.slack_days': '{days} days',
+    'cmd.forecast.remaining': 'Remaining work',
+    'cmd.forecast.remaining_value': '{tasks} tasks · {hours} h',
+    'cmd.forecast.on_critical_path': 'On the critical path',
+    'cmd.forecast.critical_path': 'Critical path',
+    'cmd.forecast.basis': 'Based on {minutes} focus min/day over the last 28 days ({days} active days)',
+    'cmd.forecast.basis_default': 'No recent history yet: assuming {minutes} focus min/day',
     'cmd.empty_select_title': '👈 Select an item from the left tree to view details',
     'cmd.empty_select_desc': 'You can select a Season, Chapter, Quest, or Task',
     'cmd.edit_season': 'Edit Season',
@@ -300,6 +330,13 @@ export const en: Record<TranslationKey, string> = {
     'recurring.freq_monthly': 'Monthly on {day}',
     'recurring.freq_weekly': 'Weekly: {days}',
     'recurring.freq_custom': 'Custom',
+    'recurring.freq_every_days': 'Every {n} days',
+    'recurring.freq_every_weeks': 'Every {n} weeks: {days}',
+    'recurring.freq_every_months': 'Every {n} months on {day}',
+    'recurring.freq_nth_weekday': 'Monthly on the {week} {day}',
+    'recurring.freq_last_business_day': 'Last business day of each month',
+    'recurring.freq_after_completion': '{n} days after completion',
+    'recurring.freq_business_days_suffix': ' · business days',
     'rewards.title': 'Reward Board',
     'rewards.subtitle': 'Visualize and redeem your completed-task rewards.',
     'rewards.command_placeholder': 'Type: redeem chicken wings / use Kineya',
@@ -337,11 +374,71 @@ export const en: Record<TranslationKey, string> = {
     'rewards.edit_quantity_label': 'Reward quantity',
     'rewards.edit_unit': 'Unit',
     'rewards.edit_unit_label': 'Reward unit',
+    'rewards.edit_duration': 'Minutes',
+    'rewards.edit_duration_label': 'Reward duration in minutes',
+    'rewards.edit_price_cap': 'Price cap',
+    'rewards.edit_price_cap_label': 'Real-money price cap',
     'rewards.edit_save': 'Save',
     'rewards.edit_cancel': 'Cancel',
     'rewards.gold_balance': 'Gold Balance: {balance}',
     'rewards.price_label': 'Tier {tier} · {price}G',
     'rewards.error_insufficient_gold': 'Not enough gold to redeem selected reward(s).',
+    'rewards.error_cooldown': '"{item}" is on cooldown until {date}.',
+    'rewards.error_over_budget': '"{item}" would exceed this week\'s {tier}-tier budget.',
+    'rewards.cooldown_until': 'cooldown until {date}',
+    'rewards.wishlist.title': 'Wishlist',
+    'rewards.wishlist.empty': 'No savings goals yet. Add something big worth saving for.',
+    'rewards.wishlist.progress': '{saved} / {target} gold',
+    'rewards.wishlist.weekly': 'Saves {amount} gold per week',
+    'rewards.wishlist.manual_only': 'Deposits only',
+    'rewards.wishlist.amount': 'Gold',
+    'rewards.wishlist.deposit': 'Deposit',
+    'rewards.wishlist.redeem': 'Redeem',
+    'rewards.wishlist.redeemed_on': 'Redeemed on {date}',
+    'rewards.wishlist.delete': 'Delete',
+    'rewards.wishlist.delete_confirm': 'Delete "{item}"? Gold saved toward it is returned to your balance.',
+    'rewards.wishlist.name': 'Wish',
+    'rewards.wishlist.target': 'Target gold',
+    'rewards.wishlist.weekly_placeholder': 'Gold per week',
+    'rewards.wishlist.add': 'Add wish',
+    'rewards.wishlist.log_added': 'Started saving for {item}',
+    'rewards.wishlist.log_deposit': 'Saved {amount} gold for {item}',
+    'rewards.wishlist.log_redeemed': 'Redeemed wishlist item {item}',
+    'rewards.wishlist.log_deleted': 'Deleted wishlist item {item}',
+    'rewards.wishlist.reason.name_required': 'Enter a name',
+    'rewards.wishlist.reason.invalid_target': 'Enter a target of at least 1 gold',
+    'rewards.wishlist.reason.invalid_amount': 'Enter an amount of at least 1 gold',
+    'rewards.wishlist.reason.insufficient_gold': 'Not enough gold',
+    'rewards.wishlist.reason.not_found': 'This wish no longer exists',
+    'rewards.wishlist.reason.not_saving': 'This wish is already redeemed',
+    'rewards.wishlist.reason.not_funded': 'Not fully saved yet',
+    'rewards.history.title': 'Redemption History',
+    'rewards.history.spent': 'Gold spent on rewards',
+    'rewards.history.saved': 'Gold saved for wishes',
+    'rewards.history.redemptions': 'redemptions',
+    'rewards.history.tooltip': 'Week of {week}: {spent} gold on {count} reward(s), {saved} gold saved, {actions} log entries',
+    'rewards.budget.title': 'Budgets & Cooldowns',
+    'rewards.budget.tiers': 'Weekly gold budget per tier',
+    'rewards.budget.tier_label': 'Tier {tier}',
+    'rewards.budget.unlimited': 'No budget',
+    'rewards.budget.spent': '{spent} spent this week',
+    'rewards.budget.spent_of': '{spent} / {budget} spent this week',
+    'rewards.budget.dynamic_pricing': 'Dynamic pricing',
+    'rewards.budget.dynamic_enabled': 'Raise prices after frequent redemptions',
+    'rewards.budget.window_days': 'Window (days)',
+    'rewards.budget.step_percent': 'Increase per redemption (%)',
+    'rewards.budget.max_multiplier': 'Maximum multiplier',
+    'rewards.budget.dynamic_hint': 'Each redemption of the same kind within the window raises that kind\'s price until the window passes.',
+    'rewards.budget.cooldowns': 'Cooldowns',
+    'rewards.budget.no_cooldowns': 'No cooldowns. Example: KFC at most 1 time per 7 days.',
+    'rewards.budget.cooldown_rule': '"{keyword}" at most {limit} time(s) per {days} day(s)',
+    'rewards.budget.remove': 'Remove',
+    'rewards.budget.keyword': 'Keyword, e.g. KFC',
+    'rewards.budget.limit': 'Times',
+    'rewards.budget.period_days': 'Days',
+    'rewards.budget.times_per': 'time(s) per',
+    'rewards.budget.days': 'day(s)',
+    'rewards.budget.add_cooldown': 'Add cooldown',
     'rewards.verb.eat': 'Eat',
     'rewards.verb.drink': 'Drink',
     'rewards.verb.buy': 'Buy',
@@ -349,6 +446,28 @@ export const en: Record<TranslationKey, string> = {
     'rewards.verb.play': 'Play',
     'rewards.verb.rest': 'Rest',
     'rewards.verb.other': 'Other',
+    'rewards.detail.duration': '{minutes} min',
+    'rewards.detail.price_cap': 'up to {price}',
+    'rewards.detail.from': 'from {time}',
+    'rewards.detail.until': 'before {time}',
+    'rewards.weekday.0': 'Sun',
+    'rewards.weekday.1': 'Mon',
+    'rewards.weekday.2': 'Tue',
+    'rewards.weekday.3': 'Wed',
+    'rewards.weekday.4': 'Thu',
+    'rewards.weekday.5': 'Fri',
+    'rewards.weekday.6': 'Sat',
+    'rewards.period.morning': 'morning',
+    'rewards.period.noon': 'noon',
+    'rewards.period.afternoon': 'afternoon',
+    'rewards.period.evening': 'evening',
+    'rewards.period.night': 'night',
+    'rewards.anchor.after_breakfast': 'after breakfast',
+    'rewards.anchor.after_lunch': 'after lunch',
+    'rewards.anchor.after_dinner': 'after dinner',
+    'rewards.anchor.after_meal': 'after a meal',
+    'rewards.anchor.after_work': 'after work',
+    'rewards.anchor.before_bed': 'before bed',
 
     // Quest Modal
     'quest.modal_create_title': 'Create Quest (SMART Planning)',
@@ -374,6 +493,10 @@ export const en: Record<TranslationKey, string> = {
     'quest.section_relevant': '4. Relevant',
     'quest.label_importance': 'Importance',
     'quest.label_linked_chapter': 'Alignment (Season)',
+    'quest.label_blocked_by': 'Blocked by',
+    'quest.placeholder_blocked_by': 'Add a quest that must be done first…',
+    'quest.blocker_missing': '(deleted quest)',
+    'quest.remove_blocker': 'Remove dependency',
     'quest.option_no_link': 'No Link (Independent)',
     'quest.section_time_bound': '5. Time-bound',
     'quest.label_deadline': 'Deadline',
@@ -469,6 +592,10 @@ export const en: Record<TranslationKey, string> = {
     'task.placeholder_select_chapter': 'Select Chapter...',
     'task.section_time_bound': 'Time-bound',
     'task.label_deadline': 'Deadline',
+    'task.label_blocked_by': 'Blocked by',
+    'task.placeholder_blocked_by': 'Add a task that must be done first…',
+    'task.blocker_missing': '(deleted task)',
+    'task.remove_blocker': 'Remove dependency',
     'task.quick_date_today': 'Today',
     'task.quick_date_tomorrow': 'Tomorrow',
     'task.quick_date_3days': 'In 3 days',
@@ -527,6 +654,33 @@ export const en: Record<TranslationKey, string> = {
     'recurring.freq_daily_label': 'Daily',
     'recurring.freq_weekly_label': 'Weekly',
     'recurring.freq_monthly_label': 'Monthly',
+    'recurring.freq_after_completion_label': 'After Completion',
+    'recurring.interval': 'Repeat Every',
+    'recurring.interval_unit_days': 'day(s)',
+    'recurring.interval_unit_weeks': 'week(s)',
+    'recurring.interval_unit_months': 'month(s)',
+    'recurring.interval_after_completion': 'Days After Last Completion',
+    'recurring.monthly_mode': 'Monthly Pattern',
+    'recurring.monthly_mode_day': 'On a day of the month',
+    'recurring.monthly_mode_nth_weekday': 'On a weekday (e.g. 2nd Tuesday)',
+    'recurring.monthly_mode_last_business_day': 'On the last business day',
+    'recurring.week_of_month': 'Week',
+    'recurring.week_first': 'first',
+    'recurring.week_second': 'second',
+    'recurring.week_third': 'third',
+    'recurring.week_fourth': 'fourth',
+    'recurring.week_fifth': 'fifth',
+    'recurring.week_last': 'last',
+    'recurring.weekday': 'Weekday',
+    'recurring.business_days_only': 'Business days only (skip Saturday and Sunday)',
+    'recurring.missed_policy': 'Missed Occurrences',
+    'recurring.missed_skip': 'Skip (only generate today)',
+    'recurring.missed_latest': 'Generate the most recent one',
+    'recurring.missed_backfill': 'Generate every missed one',
+    'recurring.missed_policy_hint': 'Applies to days the app was not opened.',
+    'recurring.preview_title': 'Next 10 Occurrences',
+    'recurring.preview_empty': 'No upcoming occurrences',
+    'recurring.preview_after_completion_hint': 'Assumes each task is completed on its due date.',
     'recurring.cat_health': 'Health',
     'recurring.cat_productivity': 'Productivity',
     'recurring.cat_mindfulness': 'Mindfulness',
@@ -902,6 +1056,7 @@ export const en: Record<TranslationKey, string> = {
     'planner.chat.subtitle_friend': 'Gentle reminder · Emotional support',
     'planner.chat.escalate_button': '🧑‍🏫 Need deeper help? Escalate to Coach',
     'planner.chat.input_placeholder': 'Type a message...',
+    'planner.chat.stop': 'Stop generating',
     'planner.daily_success.title': '✨ Daily Success Journal',
     'planner.daily_success.saved_badge': '✅ Saved today',
     'planner.daily_success.update': 'Update',
@@ -1071,6 +1226,186 @@ export const en: Record<TranslationKey, string> = {
     'settings.storage_usage': 'Storage Usage: {size}',
     'settings.reward_pricing': '💰 Reward Pricing',
     'settings.reward_pricing_hint': 'Customize redemption gold cost per action. Changes apply immediately.',
+    'settings.ai_memory': 'AI Memory',
+    'settings.ai_memory_hint': 'What Friend and Coach remember from your events, reflections and reviews. Deleted items will not be re-learned.',
+    'settings.ai_usage': 'AI Usage',
+    'settings.ai_usage_hint': 'Calls, tokens, estimated cost and latency per feature. A feature over its daily budget uses the offline fallback until tomorrow.',
+    'settings.prompts': 'Prompt templates',
+    'settings.prompts_hint': 'Every prompt the AI personas use, in both languages. Edits are saved as new versions, and each AI output records the versions behind it so you can compare them.',
+    'settings.economy': 'Reward economy',
+    'settings.economy_hint': 'XP, gold and energy formulas for each rewarding event, plus the period caps. Preview a draft against the last 30 days before saving it.',
+    'settings.day_boundary': 'Day boundary',
+    'settings.day_boundary_hint': 'Decides which day check-ins, streaks, pomodoros and daily resets count toward.',
+    'ai_usage.feature_friend_chat': 'Friend chat',
+    'ai_usage.feature_coach_chat': 'Coach chat',
+    'ai_usage.feature_intervention': 'Interventions',
+    'ai_usage.feature_task_breakdown': 'Task breakdown',
+    'ai_usage.feature_prioritization': 'Prioritization',
+    'ai_usage.feature_task_analysis': 'Task analysis',
+    'ai_usage.feature_reflection_summary': 'Reflection summaries',
+    'ai_usage.range_today': 'Today',
+    'ai_usage.range_week': '7 days',
+    'ai_usage.load_bridge': 'Compare with bridge log',
+    'ai_usage.edit_budgets': 'Budgets',
+    'ai_usage.col_feature': 'Feature',
+    'ai_usage.col_calls': 'Calls',
+    'ai_usage.col_tokens': 'Tokens in / out',
+    'ai_usage.col_cost': 'Cost',
+    'ai_usage.col_latency': 'Avg latency',
+    'ai_usage.col_bridge': 'Bridge',
+    'ai_usage.over_budget': 'over budget',
+    'ai_usage.errors': '{count} failed',
+    'ai_usage.skipped': '{count} skipped',
+    'ai_usage.total': 'Total: {calls} calls, {tokens} tokens, {cost}',
+    'ai_usage.bridge_error': 'Bridge log unavailable: {error}',
+    'ai_usage.budget_hint': 'Daily limits per feature. Leave empty for no limit.',
+    'ai_usage.budget_calls': 'Calls',
+    'ai_usage.budget_tokens': 'Tokens',
+    'ai_usage.budget_cost': 'USD',
+    'ai_usage.unlimited': '∞',
+    'ai_usage.clear': 'Clear history',
+    'prompts.prompt': 'Prompt',
+    'prompts.version': 'Version',
+    'prompts.builtin': 'built-in',
+    'prompts.active': 'active',
+    'prompts.use_version': 'Use this version',
+    'prompts.reset': 'Back to built-in',
+    'prompts.variables': 'Variables: {list}',
+    'prompts.no_variables': 'No variables',
+    'prompts.syntax_hint': '{{name}} inserts a variable, {{name|text}} adds a default, {{#name}}…{{/name}} keeps a block only when the variable is set.',
+    'prompts.text_zh': 'Chinese',
+    'prompts.text_en': 'English',
+    'prompts.unknown_variables': 'Unknown variables render empty: {list}',
+    'prompts.save': 'Save as new version',
+    'prompts.compare': 'Compare outputs',
+    'prompts.outputs_count': '{count} outputs',
+    'prompts.no_outputs': 'No outputs recorded with this version yet',
+    'prompts.clear_outputs': 'Clear recorded outputs',
+    'economy.group': 'Rules',
+    'economy.group.task': 'Task completion',
+    'economy.group.task_types': 'Task types',
+    'economy.group.effort': 'Effort',
+    'economy.group.importance': 'Importance',
+    'economy.group.habit': 'Habit check-in',
+    'economy.group.flashcard': 'Flashcard review',
+    'economy.group.pomodoro': 'Pomodoro',
+    'economy.group.milestone': 'Quests, chapters and seasons',
+    'economy.group.caps': 'Period caps',
+    'economy.field.minutes_per_energy': 'Minutes per energy',
+    'economy.field.pomodoro_minutes': 'Minutes per pomodoro',
+    'economy.field.pomodoro_energy': 'Energy per pomodoro',
+    'economy.field.base_xp': 'Base XP',
+    'economy.field.max_xp': 'Max XP per task',
+    'economy.field.review_xp_bonus': 'XP multiplier with a review',
+    'economy.field.primary_skill_share': 'Primary skill share of XP',
+    'economy.field.secondary_skill_share': 'Secondary skill share of XP',
+    'economy.field.attribute_scale': 'Attribute points per rule weight',
+    'economy.field.energy_multiplier': 'Energy multiplier',
+    'economy.field.minutes_multiplier': 'Estimated minutes multiplier',
+    'economy.field.gold_coef': 'Gold multiplier',
+    'economy.field.xp_coef': 'XP multiplier',
+    'economy.field.minutes': 'Expected minutes',
+    'economy.field.energy': 'Base energy',
+    'economy.field.gold': 'Base gold',
+    'economy.field.energy_per_hour': 'Energy per hour',
+    'economy.field.xp_per_hour': 'XP per hour',
+    'economy.field.gold_per_hour': 'Gold per hour',
+    'economy.field.easy': 'Easy',
+    'economy.field.good': 'Good',
+    'economy.field.hard': 'Hard',
+    'economy.field.session_bonus': 'Session bonus',
+    'economy.field.xp': 'XP',
+    'economy.field.gold_reward': 'Gold',
+    'economy.field.quest_multiplier': 'Quest reward XP multiplier',
+    'economy.field.chapter_multiplier': 'Chapter reward XP multiplier',
+    'economy.field.season_multiplier': 'Season reward XP multiplier',
+    'economy.field.daily_xp_cap': 'XP per day',
+    'economy.field.daily_gold_cap': 'Gold per day',
+    'economy.field.daily_skill_xp_cap': 'Skill XP per day',
+    'economy.field.weekly_skill_xp_cap': 'Skill XP per week',
+    'economy.field.daily_attr_cap': 'Attribute points per day',
+    'economy.caps_hint': 'XP, gold, skill XP and attribute points from every source stop at these caps; 0 means no cap.',
+    'economy.save': 'Save rules',
+    'economy.discard': 'Discard changes',
+    'economy.defaults': 'Restore defaults',
+    'economy.simulate': 'Simulate last {days} days',
+    'economy.simulation_range': '{from} to {to} · current rules → draft',
+    'economy.simulation_stale': 'The draft changed since this simulation; run it again to update.',
+    'economy.replay_note': 'Completions logged before this version replay from effort estimates.',
+    'economy.column.source': 'Source',
+    'economy.column.count': 'Count',
+    'economy.column.xp': 'XP',
+    'economy.column.gold': 'Gold',
+    'economy.column.energy': 'Energy',
+    'economy.source.task': 'Tasks',
+    'economy.source.habit': 'Habits',
+    'economy.source.flashcard': 'Flashcards',
+    'economy.source.pomodoro': 'Pomodoros',
+    'economy.source.quest': 'Quests',
+    'economy.source.chapter': 'Chapters',
+    'economy.source.season': 'Seasons',
+    'economy.source.total': 'Total',
+    'economy.xp_gold_cut': 'Cut by caps: XP {currentXp} → {draftXp}, gold {currentGold} → {draftGold}',
+    'economy.skill_xp': 'Skill XP {current} → {draft} (cut by caps {currentCut} → {draftCut})',
+    'economy.attributes': 'Attribute points {current} → {draft} (cut by caps {currentCut} → {draftCut})',
+    'calendar_day.start_hour': 'New day starts at',
+    'calendar_day.start_hour_hint': 'Anything done before this hour still counts for the previous day, so a late night does not break a streak.',
+    'calendar_day.pin_time_zone': 'Pin time zone',
+    'calendar_day.time_zone': 'Time zone',
+    'calendar_day.save_time_zone': 'Save',
+    'calendar_day.device_zone': 'Device time zone: {zone}. Without a pinned zone, days follow the device.',
+    'calendar_day.zone_mismatch': 'Days follow {pinned}, while this device is on {device}.',
+    'calendar_day.today': 'Today is {date}',
+    'calendar_day.reason.invalid_hour': 'The day can only start at a whole hour between 00:00 and 23:00.',
+    'calendar_day.reason.invalid_time_zone': 'Unknown time zone. Use an IANA name such as Asia/Shanghai.',
+    'achievements.unlocked': 'Unlocked',
+    'achievements.custom': 'Custom',
+    'achievements.delete': 'Delete',
+    'achievements.delete_confirm': 'Delete the achievement "{name}"? A title it already unlocked is kept.',
+    'achievements.invalid_condition': 'This condition no longer parses and is never checked',
+    'achievements.add_title': 'Custom achievement',
+    'achievements.name': 'Title name',
+    'achievements.description': 'Description (optional)',
+    'achievements.condition': 'Condition',
+    'achievements.condition_placeholder': 'e.g. habit_streak >= 14 and pomodoros(within: 7d) >= 20',
+    'achievements.metrics_hint': 'Metrics: {list}',
+    'achievements.syntax_hint': 'Compare a metric with a number (>= > <= < == !=), combine with and / or / not and parentheses. within takes days or weeks (30d, 2w); type is creative / tax / maintenance; rating is easy / good / hard.',
+    'achievements.add': 'Add achievement',
+    'achievements.reason.name_required': 'Enter a title name',
+    'achievements.reason.name_taken': 'A title with this name already exists',
+    'achievements.reason.invalid_condition': 'The condition is not valid',
+    'achievements.error.empty': 'Enter a condition',
+    'achievements.error.unexpected_token': 'Unexpected input at character {position}',
+    'achievements.error.unexpected_end': 'The condition ends too early',
+    'achievements.error.unknown_metric': 'Unknown metric "{detail}"',
+    'achievements.error.unknown_argument': 'This metric does not take "{detail}"',
+    'achievements.error.invalid_argument': 'Invalid value for "{detail}" at character {position}',
+    'achievements.error.expected_comparison': 'Expected a comparison like >= at character {position}',
+    'achievements.error.expected_number': 'Expected a number at character {position}',
+    'memory.kind': 'Type',
+    'memory.kind_pattern': 'Pattern',
+    'memory.kind_blocker': 'Blocker',
+    'memory.kind_preference': 'Preference',
+    'memory.kind_strength': 'Strength',
+    'memory.fact_text': 'Memory',
+    'memory.facts_title': 'Facts',
+    'memory.facts_empty': 'Nothing remembered yet.',
+    'memory.summaries_title': 'Weekly summaries',
+    'memory.summaries_empty': 'No summaries yet.',
+    'memory.add': 'Add',
+    'memory.add_placeholder': 'Something the AI should remember about you',
+    'memory.edit': 'Edit',
+    'memory.delete': 'Delete',
+    'memory.save': 'Save',
+    'memory.cancel': 'Cancel',
+    'memory.evidence': 'Seen {count} times',
+    'memory.user_edited': 'Edited by you',
+    'memory.week_of': '{start} – {end}',
+    'memory.highlights': 'Highlights (one per line)',
+    'memory.patterns': 'Patterns (one per line)',
+    'memory.refresh': 'Refresh now',
+    'memory.last_condensed': 'Last updated: {time}',
+    'memory.never': 'never',
 
     // Data Management
     'data.title': '💾 Data Management',
@@ -1098,6 +1433,8 @@ export const en: Record<TranslationKey, string> = {
     'data.reset_confirm': '⚠️ Are you sure you want to reset all data?\n\nThis action cannot be undone! Backup is recommended.',
     'data.reset_success': '✅ Data reset. Refreshing...',
     'data.import_success': '✅ Data imported! Refreshing...',
+    'data.import_migrated': '✅ Data imported and upgraded ({count} migrations applied). Refreshing...',
+    'data.import_newer_schema': '❌ This backup was created by a newer version of the app. Please update before importing.',
     'data.export_success': '✅ Data exported to file',
     'data.copy_success': '✅ Data copied to clipboard',
     'data.import_error': '❌ Import failed',
@@ -1105,8 +1442,79 @@ export const en: Record<TranslationKey, string> = {
     'data.export_error': '❌ Export failed',
     'data.import_cancelled': 'Cancelled',
     'data.confirm_import_title': 'Confirm Import?',
-    'data.confirm_import_text': 'Import will overwrite all current data. This action cannot be undone.',
+    'data.confirm_import_text': 'Import will overwrite all current data. Choose merge to combine the backup with your current data instead.',
     'data.confirm_import_btn': 'Confirm Import',
+    'data.merge_import': 'Merge Instead…',
+    'data.merge_preview_title': 'Merge preview',
+    'data.merge_no_changes': 'Nothing to merge: the backup adds nothing new',
+    'data.merge_col_collection': 'Collection',
+    'data.merge_col_added': 'Added',
+    'data.merge_col_updated': 'Updated',
+    'data.merge_col_conflicts': 'Conflicts',
+    'data.merge_col_appended': 'Log entries',
+    'data.merge_conflicts_title': 'Conflicts (defaults to the newest side; dates: current / imported)',
+    'data.merge_keep_current': 'Keep current',
+    'data.merge_use_incoming': 'Use imported',
+    'data.merge_more_conflicts': '...and {count} more, resolved by newest timestamp',
+    'data.merge_apply': 'Apply Merge',
+    'data.merge_success': '✅ Backup merged! Refreshing...',
+    'data.snapshots': '🕒 Snapshots',
+    'data.snapshots_desc': 'Saved hourly and before imports, resets, orchestration cycles and AI tool calls. Older snapshots are thinned to one per hour, day and week.',
+    'data.snapshot_now': 'Snapshot Now',
+    'data.snapshot_created': '✅ Snapshot saved',
+    'data.snapshot_empty': 'No snapshots yet',
+    'data.snapshot_reason_scheduled': 'Scheduled',
+    'data.snapshot_reason_manual': 'Manual',
+    'data.snapshot_reason_import': 'Before import',
+    'data.snapshot_reason_reset': 'Before reset',
+    'data.snapshot_reason_orchestration': 'Before orchestration',
+    'data.snapshot_reason_ai_tool': 'Before AI tool',
+    'data.snapshot_diff_title': 'Restoring this snapshot will change',
+    'data.snapshot_diff_none': 'Identical to current data',
+    'data.snapshot_diff_legend': '+ brought back · − dropped · ~ reverted',
+    'data.snapshot_diff_fields': 'Other fields: {fields}',
+    'data.snapshot_restore': 'Restore',
+    'data.snapshot_restore_confirm': 'Confirm Restore',
+    'data.snapshot_restore_success': '✅ Snapshot restored! Refreshing...',
+    'data.snapshot_delete': 'Delete',
+    'data.snapshot_load_error': '❌ Failed to read snapshot',
+    'data.sync': 'Device Sync',
+    'data.sync_desc': 'Sync changes with your other devices through the MCP bridge. Conflicting edits to the same item keep the latest one.',
+    'data.sync_enable': 'Enable Sync',
+    'data.sync_disable': 'Disable Sync',
+    'data.sync_status_disabled': 'Off',
+    'data.sync_status_connecting': 'Connecting…',
+    'data.sync_status_online': 'Connected',
+    'data.sync_status_offline': 'Bridge unreachable, retrying',
+    'data.sync_pending': '{count} change(s) waiting to be sent',
+    'data.sync_last_synced': 'Last synced: {time}',
+    'data.sync_device': 'Device ID: {id}',
+    'data.vault': 'Obsidian Notes',
+    'data.vault_desc': 'Write seasons, chapters, quests, tasks and journals into the vault as linked Markdown notes. Edits made in the vault can be imported back.',
+    'data.vault_folder': 'Vault folder',
+    'data.vault_export': 'Export to Vault',
+    'data.vault_import': 'Import Vault Edits',
+    'data.vault_working': 'Working…',
+    'data.vault_bridge_unavailable': '❌ Cannot reach the Obsidian bridge. Run: npm run bridge',
+    'data.vault_export_success': '✅ Wrote {count} notes to {folder}',
+    'data.vault_export_partial': '⚠️ Wrote {written} notes, {failed} failed',
+    'data.vault_index_not_found': '❌ {folder}/Index.md not found. Export first.',
+    'data.vault_import_result': 'Updated {updated}, created {created}, no longer in the app {missing}, unreadable {failed}',
+    'data.calendar': 'Calendar',
+    'data.calendar_desc': 'Export task, quest, chapter and weekly goal deadlines plus recurring tasks as an iCalendar (.ics) file, or import calendar events as tasks.',
+    'data.calendar_export': 'Export .ics',
+    'data.calendar_import': 'Import .ics',
+    'data.calendar_export_success': '✅ Calendar exported',
+    'data.calendar_import_preview': '{count} new tasks. Skipped: {duplicate} already present, {recurring} recurring, {completed} completed, {noDate} without a date',
+    'data.calendar_import_confirm': 'Add {count} tasks',
+    'data.calendar_import_success': '✅ Added {count} tasks from the calendar',
+    'data.calendar_import_empty': 'Nothing to import',
+    'data.calendar_import_error': '❌ Calendar import failed: {error}',
+    'data.calendar_feed_on': 'Subscription feed is published through the bridge',
+    'data.calendar_feed_off': 'Subscription feed is off',
+    'data.calendar_feed_enable': 'Publish Feed',
+    'data.calendar_feed_disable': 'Stop Publishing',
+    'data.calendar_feed_url': 'Subscribe to this URL in your calendar app (the bridge must be running):',
 
     // Profile
     'profile.title': '👤 Player Profile',
@@ -1123,6 +1531,7 @@ export const en: Record<TranslationKey, string> = {
     'profile.stats': '📊 Stats',
     'profile.skills': '🧠 Skills',
     'profile.titles': '🏆 Titles',
+    'profile.achievements': '🎯 Achievements',
     'profile.unlocked_titles': 'Unlocked Titles ({count})',
     'profile.tip_titles': '💡 Complete Quests or Seasons to unlock unique titles',
     'profile.reset_confirm': 'Are you sure you want to reset level and stats?\n\nLevel will be reset to 1, XP to 0.',
@@ -1277,6 +1686,8 @@ export const en: Record<TranslationKey, string> = {
     'task.item.unpin': 'Unpin',
     'task.item.pin': 'Pin',
     'task.item.status_in_progress': '▶ In Progress',
+    'task.item.status_blocked': 'Blocked',
+    'task.item.blocked_by': 'Waiting on: {names}',
     'task.item.collapse': 'Collapse ▲',
     'task.item.expand': 'Expand ▼',
     'task.item.label_context': 'Start State:',
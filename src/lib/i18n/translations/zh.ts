@@ -25,6 +25,7 @@ export const zh: Record<TranslationKey, string> = {
     'ai.program.coach': 'AI 教练',
     'ai.program.friend': '喵友',
     'ai.input.placeholder.coach': '向 Coach 提问...',
+    'ai.slash.hint': 'Tab 补全 · ↑↓ 选择 · Esc 关闭 · /help 查看全部命令',
     'ai.input.placeholder.friend': '给喵友发消息...',
     'ai.history.title': '对话历史',
     'ai.history.empty': '暂无聊天记录',
@@ -34,6 +35,17 @@ export const zh: Record<TranslationKey, string> = {
     'ai.history.delete_confirm': '确定要删除此对话吗？',
     'ai.history.delete_single_confirm': '确定要删除此对话吗？',
     'ai.action.send': '发送',
+    'ai.action.stop': '停止',
+    'ai.stream.stopped': '（已停止）',
+    'ai.actions.pending_title': '等待你的确认',
+    'ai.actions.confirm': '确认',
+    'ai.actions.reject': '拒绝',
+    'ai.actions.confirmed': '已执行：{summary}',
+    'ai.actions.rejected': '已取消：{summary}',
+    'ai.actions.failed': '执行失败：{summary}',
+    'ai.actions.history_title': '最近的 AI 操作（{count}）',
+    'ai.actions.undo_to_here': '撤销到这里',
+    'ai.actions.undone': '已撤销 {count} 个 AI 操作。',
     'ai.draft.title': 'AI 建议创建的任务',
     'ai.draft.label_title': '任务标题',
     'ai.draft.label_date': '日期',
@@ -188,6 +200,24 @@ export const zh: Record<TranslationKey, string> = {
     'cmd.stat_active_quests': '进行中副本',
     'cmd.stat_pending_tasks': '待处理任务',
     'cmd.stat_completed_tasks': '已完成任务',
+    'cmd.stat_forecast_at_risk': '预测延误副本',
+    'cmd.forecast.title': '排程预测',
+    'cmd.forecast.risk_low': '按计划',
+    'cmd.forecast.risk_medium': '偏紧',
+    'cmd.forecast.risk_high': '有风险',
+    'cmd.forecast.risk_critical': '很可能延误',
+    'cmd.forecast.expected': '预计完成',
+    'cmd.forecast.range': '区间 (P10 ~ P90)',
+    'cmd.forecast.deadline': '有效截止日期',
+    'cmd.forecast.probability': '按期完成概率',
+    'cmd.forecast.slack': '缓冲',
+    'cmd.forecast.slack_days': '{days} 天',
+    'cmd.forecast.remaining': '剩余工作量',
+    'cmd.forecast.remaining_value': '{tasks} 个任务 · {hours} 小时',
+    'cmd.forecast.on_critical_path': '位于关键路径',
+    'cmd.forecast.critical_path': '关键路径',
+    'cmd.forecast.basis': '依据最近 28 天平均每天 {minutes} 分钟专注（{days} 个有效天）',
+    'cmd.forecast.basis_default': '暂无近期记录：按每天 {minutes} 分钟专注估算',
     'cmd.empty_select_title': '👈 从左侧树状结构中选择一个项目查看详情',
     'cmd.empty_select_desc': '可以选择主线、章节、副本或任务',
     'cmd.edit_season': '编辑主线',
@@ -301,6 +331,13 @@ export const zh: Record<TranslationKey, string> = {
     'recurring.freq_monthly': '每月 {day} 日',
     'recurring.freq_weekly': '每周: {days}',
     'recurring.freq_custom': '自定义',
+    'recurring.freq_every_days': '每 {n} 天',
+    'recurring.freq_every_weeks': '每 {n} 周：{days}',
+    'recurring.freq_every_months': '每 {n} 个月的 {day} 日',
+    'recurring.freq_nth_weekday': '每月{week}{day}',
+    'recurring.freq_last_business_day': '每月最后一个工作日',
+    'recurring.freq_after_completion': '完成后 {n} 天',
+    'recurring.freq_business_days_suffix': ' · 仅工作日',
     'rewards.title': '奖励看板',
     'rewards.subtitle': '把任务奖励可视化，并像仓库一样管理兑换。',
     'rewards.command_placeholder': '输入：我要兑换 鸡翅 / 使用 Kineya',
@@ -338,11 +375,71 @@ export const zh: Record<TranslationKey, string> = {
     'rewards.edit_quantity_label': '奖励数量',
     'rewards.edit_unit': '单位',
     'rewards.edit_unit_label': '奖励单位',
+    'rewards.edit_duration': '时长（分钟）',
+    'rewards.edit_duration_label': '奖励时长（分钟）',
+    'rewards.edit_price_cap': '价格上限',
+    'rewards.edit_price_cap_label': '实际花费上限',
     'rewards.edit_save': '保存',
     'rewards.edit_cancel': '取消',
     'rewards.gold_balance': '当前金币：{balance}',
     'rewards.price_label': '{tier}档 · {price}金币',
     'rewards.error_insufficient_gold': '金币不足，无法兑换选中的奖励。',
+    'rewards.error_cooldown': '「{item}」冷却中，{date} 起可兑换。',
+    'rewards.error_over_budget': '「{item}」会超出本周 {tier} 档预算。',
+    'rewards.cooldown_until': '冷却至 {date}',
+    'rewards.wishlist.title': '心愿单',
+    'rewards.wishlist.empty': '还没有储蓄目标。添加一个值得攒钱的大奖励吧。',
+    'rewards.wishlist.progress': '{saved} / {target} 金币',
+    'rewards.wishlist.weekly': '每周存入 {amount} 金币',
+    'rewards.wishlist.manual_only': '仅手动存入',
+    'rewards.wishlist.amount': '金币',
+    'rewards.wishlist.deposit': '存入',
+    'rewards.wishlist.redeem': '兑换',
+    'rewards.wishlist.redeemed_on': '已于 {date} 兑换',
+    'rewards.wishlist.delete': '删除',
+    'rewards.wishlist.delete_confirm': '删除「{item}」？已存入的金币会退回余额。',
+    'rewards.wishlist.name': '心愿',
+    'rewards.wishlist.target': '目标金币',
+    'rewards.wishlist.weekly_placeholder': '每周存入金币',
+    'rewards.wishlist.add': '添加心愿',
+    'rewards.wishlist.log_added': '开始为 {item} 攒钱',
+    'rewards.wishlist.log_deposit': '为 {item} 存入 {amount} 金币',
+    'rewards.wishlist.log_redeemed': '兑换心愿 {item}',
+    'rewards.wishlist.log_deleted': '删除心愿 {item}',
+    'rewards.wishlist.reason.name_required': '请输入名称',
+    'rewards.wishlist.reason.invalid_target': '目标至少为 1 金币',
+    'rewards.wishlist.reason.invalid_amount': '金额至少为 1 金币',
+    'rewards.wishlist.reason.insufficient_gold': '金币不足',
+    'rewards.wishlist.reason.not_found': '该心愿已不存在',
+    'rewards.wishlist.reason.not_saving': '该心愿已兑换',
+    'rewards.wishlist.reason.not_funded': '尚未攒够',
+    'rewards.history.title': '兑换记录',
+    'rewards.history.spent': '奖励花费金币',
+    'rewards.history.saved': '心愿存入金币',
+    'rewards.history.redemptions': '兑换次数',
+    'rewards.history.tooltip': '{week} 当周：{count} 次兑换花费 {spent} 金币，存入 {saved} 金币，{actions} 条日志',
+    'rewards.budget.title': '预算与冷却',
+    'rewards.budget.tiers': '各档位每周金币预算',
+    'rewards.budget.tier_label': '{tier} 档',
+    'rewards.budget.unlimited': '不设预算',
+    'rewards.budget.spent': '本周已花 {spent}',
+    'rewards.budget.spent_of': '本周已花 {spent} / {budget}',
+    'rewards.budget.dynamic_pricing': '动态定价',
+    'rewards.budget.dynamic_enabled': '频繁兑换后提高价格',
+    'rewards.budget.window_days': '统计窗口（天）',
+    'rewards.budget.step_percent': '每次兑换涨价（%）',
+    'rewards.budget.max_multiplier': '最高倍率',
+    'rewards.budget.dynamic_hint': '窗口内每兑换一次同类奖励，该类价格上涨一次，窗口过后恢复。',
+    'rewards.budget.cooldowns': '冷却规则',
+    'rewards.budget.no_cooldowns': '暂无冷却规则。例如：KFC 每 7 天最多 1 次。',
+    'rewards.budget.cooldown_rule': '「{keyword}」每 {days} 天最多 {limit} 次',
+    'rewards.budget.remove': '移除',
+    'rewards.budget.keyword': '关键词，如 KFC',
+    'rewards.budget.limit': '次数',
+    'rewards.budget.period_days': '天数',
+    'rewards.budget.times_per': '次 / 每',
+    'rewards.budget.days': '天',
+    'rewards.budget.add_cooldown': '添加冷却',
     'rewards.verb.eat': '吃',
     'rewards.verb.drink': '喝',
     'rewards.verb.buy': '购买',
@@ -350,6 +447,28 @@ export const zh: Record<TranslationKey, string> = {
     'rewards.verb.play': '玩乐',
     'rewards.verb.rest': '休息',
     'rewards.verb.other': '其他',
+    'rewards.detail.duration': '{minutes} 分钟',
+    'rewards.detail.price_cap': '{price} 以内',
+    'rewards.detail.from': '{time} 后',
+    'rewards.detail.until': '{time} 前',
+    'rewards.weekday.0': '周日',
+    'rewards.weekday.1': '周一',
+    'rewards.weekday.2': '周二',
+    'rewards.weekday.3': '周三',
+    'rewards.weekday.4': '周四',
+    'rewards.weekday.5': '周五',
+    'rewards.weekday.6': '周六',
+    'rewards.period.morning': '早上',
+    'rewards.period.noon': '中午',
+    'rewards.period.afternoon': '下午',
+    'rewards.period.evening': '晚上',
+    'rewards.period.night': '深夜',
+    'rewards.anchor.after_breakfast': '早饭后',
+    'rewards.anchor.after_lunch': '午饭后',
+    'rewards.anchor.after_dinner': '晚饭后',
+    'rewards.anchor.after_meal': '饭后',
+    'rewards.anchor.after_work': '下班后',
+    'rewards.anchor.before_bed': '睡前',
 
     // Quest Modal
     'quest.modal_create_title': '创建副本 (SMART Planning)',
@@ -375,6 +494,10 @@ export const zh: Record<TranslationKey, string> = {
     'quest.section_relevant': '4. Relevant (相关性)',
     'quest.label_importance': '优先级 (Importance)',
     'quest.label_linked_chapter': '关联主线 (Alignment)',
+    'quest.label_blocked_by': '前置副本',
+    'quest.placeholder_blocked_by': '添加需要先完成的副本…',
+    'quest.blocker_missing': '（副本已删除）',
+    'quest.remove_blocker': '移除依赖',
     'quest.option_no_link': '不关联 (独立副本)',
     'quest.section_time_bound': '5. Time-bound (时间规划)',
     'quest.label_deadline': '截止日期',
@@ -469,6 +592,10 @@ export const zh: Record<TranslationKey, string> = {
     'task.placeholder_select_chapter': '选择章节...',
     'task.section_time_bound': 'Time-bound (时限与动力)',
     'task.label_deadline': '截止日期',
+    'task.label_blocked_by': '前置任务',
+    'task.placeholder_blocked_by': '添加需要先完成的任务…',
+    'task.blocker_missing': '（任务已删除）',
+    'task.remove_blocker': '移除依赖',
     'task.quick_date_today': '今天',
     'task.quick_date_tomorrow': '明天',
     'task.quick_date_3days': '3天后',
@@ -527,6 +654,33 @@ export const zh: Record<TranslationKey, string> = {
     'recurring.freq_daily_label': '每天',
     'recurring.freq_weekly_label': '每周',
     'recurring.freq_monthly_label': '每月',
+    'recurring.freq_after_completion_label': '完成后重复',
+    'recurring.interval': '重复间隔',
+    'recurring.interval_unit_days': '天',
+    'recurring.interval_unit_weeks': '周',
+    'recurring.interval_unit_months': '个月',
+    'recurring.interval_after_completion': '上次完成后间隔天数',
+    'recurring.monthly_mode': '每月规则',
+    'recurring.monthly_mode_day': '按日期',
+    'recurring.monthly_mode_nth_weekday': '按星期（如第 2 个周二）',
+    'recurring.monthly_mode_last_business_day': '最后一个工作日',
+    'recurring.week_of_month': '第几周',
+    'recurring.week_first': '第 1 个',
+    'recurring.week_second': '第 2 个',
+    'recurring.week_third': '第 3 个',
+    'recurring.week_fourth': '第 4 个',
+    'recurring.week_fifth': '第 5 个',
+    'recurring.week_last': '最后一个',
+    'recurring.weekday': '星期',
+    'recurring.business_days_only': '仅工作日（跳过周六、周日）',
+    'recurring.missed_policy': '错过的日期',
+    'recurring.missed_skip': '跳过（只生成今天的）',
+    'recurring.missed_latest': '补生成最近一次',
+    'recurring.missed_backfill': '补生成全部',
+    'recurring.missed_policy_hint': '作用于未打开应用的日子。',
+    'recurring.preview_title': '接下来 10 次',
+    'recurring.preview_empty': '没有即将到来的日期',
+    'recurring.preview_after_completion_hint': '假设每次都在截止当天完成。',
     'recurring.cat_health': '健康',
     'recurring.cat_productivity': '效率',
     'recurring.cat_mindfulness': '冥想',
@@ -908,6 +1062,7 @@ export const zh: Record<TranslationKey, string> = {
     'planner.chat.subtitle_friend': '温和提醒 · 情感支持',
     'planner.chat.escalate_button': '🧑‍🏫 需要更深入的帮助？升级到 Coach',
     'planner.chat.input_placeholder': '输入消息...',
+    'planner.chat.stop': '停止生成',
     'planner.daily_success.title': '✨ 每日成功日记',
     'planner.daily_success.saved_badge': '✅ 今日已记录',
     'planner.daily_success.update': '更新',
@@ -1077,6 +1232,186 @@ export const zh: Record<TranslationKey, string> = {
     'settings.storage_usage': '存储占用: {size}',
     'settings.reward_pricing': '💰 奖励价格',
     'settings.reward_pricing_hint': '可按动作自定义兑换金币消耗，修改后立即生效。',
+    'settings.ai_memory': 'AI 记忆',
+    'settings.ai_memory_hint': '伙伴与教练从事件、反思和周回顾中记住的内容。删除的条目不会被重新学习。',
+    'settings.ai_usage': 'AI 用量',
+    'settings.ai_usage_hint': '按功能统计的调用次数、Token、预估费用和延迟。超出每日预算的功能会改用离线回退，直到第二天。',
+    'settings.prompts': '提示词模板',
+    'settings.prompts_hint': 'AI 角色使用的全部提示词（中英文）。修改会另存为新版本，每条 AI 输出都会记录所用的版本，方便对比效果。',
+    'settings.economy': '奖励经济',
+    'settings.economy_hint': '每类奖励事件的经验、金币和精力公式，以及周期上限。保存前可用最近 30 天的记录预览草稿效果。',
+    'settings.day_boundary': '日界线',
+    'settings.day_boundary_hint': '决定打卡、连续天数、番茄钟和每日重置计入哪一天。',
+    'ai_usage.feature_friend_chat': '伙伴聊天',
+    'ai_usage.feature_coach_chat': '教练聊天',
+    'ai_usage.feature_intervention': '干预',
+    'ai_usage.feature_task_breakdown': '任务拆分',
+    'ai_usage.feature_prioritization': '优先级建议',
+    'ai_usage.feature_task_analysis': '任务分析',
+    'ai_usage.feature_reflection_summary': '复盘总结',
+    'ai_usage.range_today': '今天',
+    'ai_usage.range_week': '近 7 天',
+    'ai_usage.load_bridge': '对比 Bridge 日志',
+    'ai_usage.edit_budgets': '预算',
+    'ai_usage.col_feature': '功能',
+    'ai_usage.col_calls': '调用',
+    'ai_usage.col_tokens': 'Token 输入 / 输出',
+    'ai_usage.col_cost': '费用',
+    'ai_usage.col_latency': '平均延迟',
+    'ai_usage.col_bridge': 'Bridge',
+    'ai_usage.over_budget': '已超预算',
+    'ai_usage.errors': '失败 {count}',
+    'ai_usage.skipped': '跳过 {count}',
+    'ai_usage.total': '合计：{calls} 次调用，{tokens} Token，{cost}',
+    'ai_usage.bridge_error': '无法读取 Bridge 日志：{error}',
+    'ai_usage.budget_hint': '每个功能的每日上限，留空表示不限。',
+    'ai_usage.budget_calls': '次数',
+    'ai_usage.budget_tokens': 'Token',
+    'ai_usage.budget_cost': '美元',
+    'ai_usage.unlimited': '∞',
+    'ai_usage.clear': '清空记录',
+    'prompts.prompt': '提示词',
+    'prompts.version': '版本',
+    'prompts.builtin': '内置',
+    'prompts.active': '使用中',
+    'prompts.use_version': '使用此版本',
+    'prompts.reset': '恢复内置',
+    'prompts.variables': '变量：{list}',
+    'prompts.no_variables': '无变量',
+    'prompts.syntax_hint': '{{name}} 插入变量，{{name|文字}} 设置默认值，{{#name}}…{{/name}} 仅在变量有值时保留该段。',
+    'prompts.text_zh': '中文',
+    'prompts.text_en': '英文',
+    'prompts.unknown_variables': '未知变量会渲染为空：{list}',
+    'prompts.save': '另存为新版本',
+    'prompts.compare': '对比输出',
+    'prompts.outputs_count': '{count} 条输出',
+    'prompts.no_outputs': '这个版本还没有记录的输出',
+    'prompts.clear_outputs': '清空输出记录',
+    'economy.group': '规则',
+    'economy.group.task': '任务完成',
+    'economy.group.task_types': '任务类型',
+    'economy.group.effort': '工作量',
+    'economy.group.importance': '重要性',
+    'economy.group.habit': '习惯打卡',
+    'economy.group.flashcard': '闪卡复习',
+    'economy.group.pomodoro': '番茄钟',
+    'economy.group.milestone': '副本、章节与主线',
+    'economy.group.caps': '周期上限',
+    'economy.field.minutes_per_energy': '每点精力对应分钟数',
+    'economy.field.pomodoro_minutes': '每个番茄钟分钟数',
+    'economy.field.pomodoro_energy': '每个番茄钟精力',
+    'economy.field.base_xp': '基础经验',
+    'economy.field.max_xp': '单个任务经验上限',
+    'economy.field.review_xp_bonus': '填写复盘时的经验系数',
+    'economy.field.primary_skill_share': '主技能经验分成',
+    'economy.field.secondary_skill_share': '副技能经验分成',
+    'economy.field.attribute_scale': '每单位权重的属性点',
+    'economy.field.energy_multiplier': '精力系数',
+    'economy.field.minutes_multiplier': '估算时长系数',
+    'economy.field.gold_coef': '金币系数',
+    'economy.field.xp_coef': '经验系数',
+    'economy.field.minutes': '预期分钟数',
+    'economy.field.energy': '基础精力',
+    'economy.field.gold': '基础金币',
+    'economy.field.energy_per_hour': '每小时精力',
+    'economy.field.xp_per_hour': '每小时经验',
+    'economy.field.gold_per_hour': '每小时金币',
+    'economy.field.easy': '简单',
+    'economy.field.good': '良好',
+    'economy.field.hard': '困难',
+    'economy.field.session_bonus': '完成一轮复习奖励',
+    'economy.field.xp': '经验',
+    'economy.field.gold_reward': '金币',
+    'economy.field.quest_multiplier': '副本奖励经验系数',
+    'economy.field.chapter_multiplier': '章节奖励经验系数',
+    'economy.field.season_multiplier': '主线奖励经验系数',
+    'economy.field.daily_xp_cap': '每日经验',
+    'economy.field.daily_gold_cap': '每日金币',
+    'economy.field.daily_skill_xp_cap': '每日技能经验',
+    'economy.field.weekly_skill_xp_cap': '每周技能经验',
+    'economy.field.daily_attr_cap': '每日属性点',
+    'economy.caps_hint': '所有来源的经验、金币、技能经验和属性点达到上限后不再增加；0 表示不设上限。',
+    'economy.save': '保存规则',
+    'economy.discard': '放弃修改',
+    'economy.defaults': '恢复默认',
+    'economy.simulate': '模拟最近 {days} 天',
+    'economy.simulation_range': '{from} 至 {to} · 当前规则 → 草稿',
+    'economy.simulation_stale': '草稿在模拟后已修改，请重新模拟。',
+    'economy.replay_note': '此版本之前记录的任务完成按工作量估算回放。',
+    'economy.column.source': '来源',
+    'economy.column.count': '次数',
+    'economy.column.xp': '经验',
+    'economy.column.gold': '金币',
+    'economy.column.energy': '精力',
+    'economy.source.task': '任务',
+    'economy.source.habit': '习惯',
+    'economy.source.flashcard': '闪卡',
+    'economy.source.pomodoro': '番茄钟',
+    'economy.source.quest': '副本',
+    'economy.source.chapter': '章节',
+    'economy.source.season': '主线',
+    'economy.source.total': '合计',
+    'economy.xp_gold_cut': '上限削减：经验 {currentXp} → {draftXp}，金币 {currentGold} → {draftGold}',
+    'economy.skill_xp': '技能经验 {current} → {draft}（上限削减 {currentCut} → {draftCut}）',
+    'economy.attributes': '属性点 {current} → {draft}（上限削减 {currentCut} → {draftCut}）',
+    'calendar_day.start_hour': '新的一天开始于',
+    'calendar_day.start_hour_hint': '在此之前完成的事仍计入前一天，熬夜不会打断连续记录。',
+    'calendar_day.pin_time_zone': '固定时区',
+    'calendar_day.time_zone': '时区',
+    'calendar_day.save_time_zone': '保存',
+    'calendar_day.device_zone': '设备时区：{zone}。未固定时区时，日期跟随设备。',
+    'calendar_day.zone_mismatch': '日期按 {pinned} 计算，而本设备当前处于 {device}。',
+    'calendar_day.today': '今天是 {date}',
+    'calendar_day.reason.invalid_hour': '一天只能从 00:00 到 23:00 之间的整点开始。',
+    'calendar_day.reason.invalid_time_zone': '无法识别的时区，请使用 IANA 名称，如 Asia/Shanghai。',
+    'achievements.unlocked': '已解锁',
+    'achievements.custom': '自定义',
+    'achievements.delete': '删除',
+    'achievements.delete_confirm': '删除成就「{name}」？已解锁的称号会保留。',
+    'achievements.invalid_condition': '条件无法解析，不会被检查',
+    'achievements.add_title': '自定义成就',
+    'achievements.name': '称号名称',
+    'achievements.description': '描述（可选）',
+    'achievements.condition': '条件',
+    'achievements.condition_placeholder': '例如 habit_streak >= 14 and pomodoros(within: 7d) >= 20',
+    'achievements.metrics_hint': '指标：{list}',
+    'achievements.syntax_hint': '用指标与数字比较（>= > <= < == !=），用 and / or / not 和括号组合。within 填天数或周数（30d、2w）；type 为 creative / tax / maintenance；rating 为 easy / good / hard。',
+    'achievements.add': '添加成就',
+    'achievements.reason.name_required': '请输入称号名称',
+    'achievements.reason.name_taken': '已有同名称号',
+    'achievements.reason.invalid_condition': '条件无效',
+    'achievements.error.empty': '请输入条件',
+    'achievements.error.unexpected_token': '第 {position} 个字符处无法识别',
+    'achievements.error.unexpected_end': '条件不完整',
+    'achievements.error.unknown_metric': '未知指标「{detail}」',
+    'achievements.error.unknown_argument': '该指标不支持参数「{detail}」',
+    'achievements.error.invalid_argument': '第 {position} 个字符处「{detail}」的取值无效',
+    'achievements.error.expected_comparison': '第 {position} 个字符处应为比较符，如 >=',
+    'achievements.error.expected_number': '第 {position} 个字符处应为数字',
+    'memory.kind': '类型',
+    'memory.kind_pattern': '模式',
+    'memory.kind_blocker': '障碍',
+    'memory.kind_preference': '偏好',
+    'memory.kind_strength': '优势',
+    'memory.fact_text': '记忆',
+    'memory.facts_title': '长期事实',
+    'memory.facts_empty': '暂时还没有记住任何内容。',
+    'memory.summaries_title': '每周摘要',
+    'memory.summaries_empty': '暂无摘要。',
+    'memory.add': '添加',
+    'memory.add_placeholder': '希望 AI 记住的关于你的事',
+    'memory.edit': '编辑',
+    'memory.delete': '删除',
+    'memory.save': '保存',
+    'memory.cancel': '取消',
+    'memory.evidence': '出现 {count} 次',
+    'memory.user_edited': '由你编辑',
+    'memory.week_of': '{start} – {end}',
+    'memory.highlights': '亮点（每行一条）',
+    'memory.patterns': '模式（每行一条）',
+    'memory.refresh': '立即更新',
+    'memory.last_condensed': '上次更新：{time}',
+    'memory.never': '从未',
 
     // Data Management
     'data.title': '💾 数据管理',
@@ -1104,6 +1439,8 @@ export const zh: Record<TranslationKey, string> = {
     'data.reset_confirm': '⚠️ 确定要重置所有数据吗？\n\n此操作不可撤销！建议先导出备份。',
     'data.reset_success': '✅ 数据已重置，页面将刷新...',
     'data.import_success': '✅ 数据导入成功！页面将刷新...',
+    'data.import_migrated': '✅ 数据导入成功，已完成 {count} 步数据结构升级！页面将刷新...',
+    'data.import_newer_schema': '❌ 该备份来自更新版本的应用，请先升级后再导入。',
     'data.export_success': '✅ 数据已导出到文件',
     'data.copy_success': '✅ 数据已复制到剪贴板',
     'data.import_error': '❌ 导入失败',
@@ -1111,8 +1448,79 @@ export const zh: Record<TranslationKey, string> = {
     'data.export_error': '❌ 导出失败',
     'data.import_cancelled': '已取消',
     'data.confirm_import_title': '确认导入？',
-    'data.confirm_import_text': '导入将覆盖当前所有数据，此操作不可撤销。',
+    'data.confirm_import_text': '导入将覆盖当前所有数据；如需与当前数据合并，请选择合并。',
     'data.confirm_import_btn': '确认导入',
+    'data.merge_import': '改为合并…',
+    'data.merge_preview_title': '合并预览',
+    'data.merge_no_changes': '备份中没有可合并的新内容',
+    'data.merge_col_collection': '数据集',
+    'data.merge_col_added': '新增',
+    'data.merge_col_updated': '更新',
+    'data.merge_col_conflicts': '冲突',
+    'data.merge_col_appended': '日志',
+    'data.merge_conflicts_title': '冲突（默认取较新一方；日期：当前 / 导入）',
+    'data.merge_keep_current': '保留当前',
+    'data.merge_use_incoming': '使用导入',
+    'data.merge_more_conflicts': '...另有 {count} 项，按较新时间处理',
+    'data.merge_apply': '执行合并',
+    'data.merge_success': '✅ 备份已合并！页面将刷新...',
+    'data.snapshots': '🕒 自动快照',
+    'data.snapshots_desc': '每小时以及导入、重置、编排周期、AI 工具调用前自动保存；较旧的快照按小时、天、周各保留一份。',
+    'data.snapshot_now': '立即快照',
+    'data.snapshot_created': '✅ 快照已保存',
+    'data.snapshot_empty': '暂无快照',
+    'data.snapshot_reason_scheduled': '定时',
+    'data.snapshot_reason_manual': '手动',
+    'data.snapshot_reason_import': '导入前',
+    'data.snapshot_reason_reset': '重置前',
+    'data.snapshot_reason_orchestration': '编排前',
+    'data.snapshot_reason_ai_tool': 'AI 工具调用前',
+    'data.snapshot_diff_title': '恢复此快照将产生以下变化',
+    'data.snapshot_diff_none': '与当前数据一致',
+    'data.snapshot_diff_legend': '+ 恢复 · − 移除 · ~ 回退',
+    'data.snapshot_diff_fields': '其他字段：{fields}',
+    'data.snapshot_restore': '恢复',
+    'data.snapshot_restore_confirm': '确认恢复',
+    'data.snapshot_restore_success': '✅ 快照已恢复！页面将刷新...',
+    'data.snapshot_delete': '删除',
+    'data.snapshot_load_error': '❌ 读取快照失败',
+    'data.sync': '设备同步',
+    'data.sync_desc': '通过 MCP Bridge 与其他设备同步改动。对同一条目的冲突修改以最新的为准。',
+    'data.sync_enable': '启用同步',
+    'data.sync_disable': '停用同步',
+    'data.sync_status_disabled': '未启用',
+    'data.sync_status_connecting': '连接中…',
+    'data.sync_status_online': '已连接',
+    'data.sync_status_offline': '无法连接 Bridge，正在重试',
+    'data.sync_pending': '{count} 条改动等待发送',
+    'data.sync_last_synced': '上次同步：{time}',
+    'data.sync_device': '设备 ID：{id}',
+    'data.vault': 'Obsidian 笔记',
+    'data.vault_desc': '把赛季、章节、副本、任务与日记写入 Obsidian 仓库，生成互相链接的 Markdown 笔记；在仓库中的修改可以导回。',
+    'data.vault_folder': '仓库目录',
+    'data.vault_export': '导出到仓库',
+    'data.vault_import': '导入仓库修改',
+    'data.vault_working': '处理中…',
+    'data.vault_bridge_unavailable': '❌ 无法连接 Obsidian Bridge，请先运行 npm run bridge',
+    'data.vault_export_success': '✅ 已写入 {count} 篇笔记到 {folder}',
+    'data.vault_export_partial': '⚠️ 已写入 {written} 篇笔记，{failed} 篇失败',
+    'data.vault_index_not_found': '❌ 未找到 {folder}/Index.md，请先导出',
+    'data.vault_import_result': '更新 {updated} 条，新建 {created} 条，应用中已不存在 {missing} 条，读取失败 {failed} 条',
+    'data.calendar': '日历',
+    'data.calendar_desc': '把任务、副本、章节与周目标的截止日期以及重复任务导出为 iCalendar (.ics) 文件，或把日历事件导入为任务。',
+    'data.calendar_export': '导出 .ics',
+    'data.calendar_import': '导入 .ics',
+    'data.calendar_export_success': '✅ 日历已导出',
+    'data.calendar_import_preview': '将新建 {count} 个任务。跳过：已存在 {duplicate} 个，重复事件 {recurring} 个，已完成 {completed} 个，无日期 {noDate} 个',
+    'data.calendar_import_confirm': '添加 {count} 个任务',
+    'data.calendar_import_success': '✅ 已从日历添加 {count} 个任务',
+    'data.calendar_import_empty': '没有可导入的内容',
+    'data.calendar_import_error': '❌ 日历导入失败：{error}',
+    'data.calendar_feed_on': '订阅源正通过 Bridge 发布',
+    'data.calendar_feed_off': '订阅源未开启',
+    'data.calendar_feed_enable': '发布订阅源',
+    'data.calendar_feed_disable': '停止发布',
+    'data.calendar_feed_url': '在日历应用中订阅此地址（需保持 Bridge 运行）：',
 
     // Profile
     'profile.title': '👤 玩家档案',
@@ -1129,6 +1537,7 @@ export const zh: Record<TranslationKey, string> = {
     'profile.stats': '📊 属性',
     'profile.skills': '🧠 技能',
     'profile.titles': '🏆 称号',
+    'profile.achievements': '🎯 成就',
     'profile.unlocked_titles': '已解锁称号 ({count})',
     'profile.tip_titles': '💡 完成副本或主线可以获得专属称号奖励',
     'profile.reset_confirm': '确定要重置等级和属性吗？\n\n等级将重置为 1，经验值重置为 0。',
@@ -1280,6 +1689,8 @@ export const zh: Record<TranslationKey, string> = {
     'task.item.unpin': '取消置顶',
     'task.item.pin': '置顶',
     'task.item.status_in_progress': '▶ 进行中',
+    'task.item.status_blocked': '被阻塞',
+    'task.item.blocked_by': '等待前置项：{names}',
     'task.item.collapse': '收起 ▲',
     'task.item.expand': '展开 ▼',
     'task.item.label_context': 'Start State (现状):',
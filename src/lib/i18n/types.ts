@@ -22,6 +22,7 @@ export type TranslationKey =
     | 'ai.program.coach'
     | 'ai.program.friend'
     | 'ai.input.placeholder.coach'
+    | 'ai.slash.hint'
     | 'ai.input.placeholder.friend'
     | 'ai.history.title'
     | 'ai.history.empty'
@@ -31,6 +32,17 @@ export type TranslationKey =
     | 'ai.history.delete_confirm'
     | 'ai.history.delete_single_confirm'
     | 'ai.action.send'
+    | 'ai.action.stop'
+    | 'ai.stream.stopped'
+    | 'ai.actions.pending_title'
+    | 'ai.actions.confirm'
+    | 'ai.actions.reject'
+    | 'ai.actions.confirmed'
+    | 'ai.actions.rejected'
+    | 'ai.actions.failed'
+    | 'ai.actions.history_title'
+    | 'ai.actions.undo_to_here'
+    | 'ai.actions.undone'
     | 'ai.draft.title'
     | 'ai.draft.label_title'
     | 'ai.draft.label_date'
@@ -186,6 +198,24 @@ export type TranslationKey =
     | 'cmd.stat_active_quests'
     | 'cmd.stat_pending_tasks'
     | 'cmd.stat_completed_tasks'
+    | 'cmd.stat_forecast_at_risk'
+    | 'cmd.forecast.title'
+    | 'cmd.forecast.risk_low'
+    | 'cmd.forecast.risk_medium'
+    | 'cmd.forecast.risk_high'
+    | 'cmd.forecast.risk_critical'
+    | 'cmd.forecast.expected'
+    | 'cmd.forecast.range'
+    | 'cmd.forecast.deadline'
+    | 'cmd.forecast.probability'
+    | 'cmd.forecast.slack'
+    | 'cmd.forecast.slack_days'
+    | 'cmd.forecast.remaining'
+    | 'cmd.forecast.remaining_value'
+    | 'cmd.forecast.on_critical_path'
+    | 'cmd.forecast.critical_path'
+    | 'cmd.forecast.basis'
+    | 'cmd.forecast.basis_default'
     | 'cmd.empty_select_title'
     | 'cmd.empty_select_desc'
     | 'cmd.edit_season'
@@ -299,6 +329,13 @@ export type TranslationKey =
     | 'recurring.freq_monthly'
     | 'recurring.freq_weekly'
     | 'recurring.freq_custom'
+    | 'recurring.freq_every_days'
+    | 'recurring.freq_every_weeks'
+    | 'recurring.freq_every_months'
+    | 'recurring.freq_nth_weekday'
+    | 'recurring.freq_last_business_day'
+    | 'recurring.freq_after_completion'
+    | 'recurring.freq_business_days_suffix'
     | 'rewards.title'
     | 'rewards.subtitle'
     | 'rewards.command_placeholder'
@@ -336,11 +373,71 @@ export type TranslationKey =
     | 'rewards.edit_quantity_label'
     | 'rewards.edit_unit'
     | 'rewards.edit_unit_label'
+    | 'rewards.edit_duration'
+    | 'rewards.edit_duration_label'
+    | 'rewards.edit_price_cap'
+    | 'rewards.edit_price_cap_label'
     | 'rewards.edit_save'
     | 'rewards.edit_cancel'
     | 'rewards.gold_balance'
     | 'rewards.price_label'
     | 'rewards.error_insufficient_gold'
+    | 'rewards.error_cooldown'
+    | 'rewards.error_over_budget'
+    | 'rewards.cooldown_until'
+    | 'rewards.wishlist.title'
+    | 'rewards.wishlist.empty'
+    | 'rewards.wishlist.progress'
+    | 'rewards.wishlist.weekly'
+    | 'rewards.wishlist.manual_only'
+    | 'rewards.wishlist.amount'
+    | 'rewards.wishlist.deposit'
+    | 'rewards.wishlist.redeem'
+    | 'rewards.wishlist.redeemed_on'
+    | 'rewards.wishlist.delete'
+    | 'rewards.wishlist.delete_confirm'
+    | 'rewards.wishlist.name'
+    | 'rewards.wishlist.target'
+    | 'rewards.wishlist.weekly_placeholder'
+    | 'rewards.wishlist.add'
+    | 'rewards.wishlist.log_added'
+    | 'rewards.wishlist.log_deposit'
+    | 'rewards.wishlist.log_redeemed'
+    | 'rewards.wishlist.log_deleted'
+    | 'rewards.wishlist.reason.name_required'
+    | 'rewards.wishlist.reason.invalid_target'
+    | 'rewards.wishlist.reason.invalid_amount'
+    | 'rewards.wishlist.reason.insufficient_gold'
+    | 'rewards.wishlist.reason.not_found'
+    | 'rewards.wishlist.reason.not_saving'
+    | 'rewards.wishlist.reason.not_funded'
+    | 'rewards.history.title'
+    | 'rewards.history.spent'
+    | 'rewards.history.saved'
+    | 'rewards.history.redemptions'
+    | 'rewards.history.tooltip'
+    | 'rewards.budget.title'
+    | 'rewards.budget.tiers'
+    | 'rewards.budget.tier_label'
+    | 'rewards.budget.unlimited'
+    | 'rewards.budget.spent'
+    | 'rewards.budget.spent_of'
+    | 'rewards.budget.dynamic_pricing'
+    | 'rewards.budget.dynamic_enabled'
+    | 'rewards.budget.window_days'
+    | 'rewards.budget.step_percent'
+    | 'rewards.budget.max_multiplier'
+    | 'rewards.budget.dynamic_hint'
+    | 'rewards.budget.cooldowns'
+    | 'rewards.budget.no_cooldowns'
+    | 'rewards.budget.cooldown_rule'
+    | 'rewards.budget.remove'
+    | 'rewards.budget.keyword'
+    | 'rewards.budget.limit'
+    | 'rewards.budget.period_days'
+    | 'rewards.budget.times_per'
+    | 'rewards.budget.days'
+    | 'rewards.budget.add_cooldown'
     | 'rewards.verb.eat'
     | 'rewards.verb.drink'
     | 'rewards.verb.buy'
@@ -348,6 +445,28 @@ export type TranslationKey =
     | 'rewards.verb.play'
     | 'rewards.verb.rest'
     | 'rewards.verb.other'
+    | 'rewards.detail.duration'
+    | 'rewards.detail.price_cap'
+    | 'rewards.detail.from'
+    | 'rewards.detail.until'
+    | 'rewards.weekday.0'
+    | 'rewards.weekday.1'
+    | 'rewards.weekday.2'
+    | 'rewards.weekday.3'
+    | 'rewards.weekday.4'
+    | 'rewards.weekday.5'
+    | 'rewards.weekday.6'
+    | 'rewards.period.morning'
+    | 'rewards.period.noon'
+    | 'rewards.period.afternoon'
+    | 'rewards.period.evening'
+    | 'rewards.period.night'
+    | 'rewards.anchor.after_breakfast'
+    | 'rewards.anchor.after_lunch'
+    | 'rewards.anchor.after_dinner'
+    | 'rewards.anchor.after_meal'
+    | 'rewards.anchor.after_work'
+    | 'rewards.anchor.before_bed'
 
     // Quest Modal
     | 'quest.modal_create_title'
@@ -373,6 +492,10 @@ export type TranslationKey =
     | 'quest.section_relevant'
     | 'quest.label_importance'
     | 'quest.label_linked_chapter'
+    | 'quest.label_blocked_by'
+    | 'quest.placeholder_blocked_by'
+    | 'quest.blocker_missing'
+    | 'quest.remove_blocker'
     | 'quest.option_no_link'
     | 'quest.section_time_bound'
     | 'quest.label_deadline'
@@ -467,6 +590,10 @@ export type TranslationKey =
     | 'task.placeholder_select_chapter'
     | 'task.section_time_bound'
     | 'task.label_deadline'
+    | 'task.label_blocked_by'
+    | 'task.placeholder_blocked_by'
+    | 'task.blocker_missing'
+    | 'task.remove_blocker'
     | 'task.quick_date_today'
     | 'task.quick_date_tomorrow'
     | 'task.quick_date_3days'
@@ -525,6 +652,33 @@ export type TranslationKey =
     | 'recurring.freq_daily_label'
     | 'recurring.freq_weekly_label'
     | 'recurring.freq_monthly_label'
+    | 'recurring.freq_after_completion_label'
+    | 'recurring.interval'
+    | 'recurring.interval_unit_days'
+    | 'recurring.interval_unit_weeks'
+    | 'recurring.interval_unit_months'
+    | 'recurring.interval_after_completion'
+    | 'recurring.monthly_mode'
+    | 'recurring.monthly_mode_day'
+    | 'recurring.monthly_mode_nth_weekday'
+    | 'recurring.monthly_mode_last_business_day'
+    | 'recurring.week_of_month'
+    | 'recurring.week_first'
+    | 'recurring.week_second'
+    | 'recurring.week_third'
+    | 'recurring.week_fourth'
+    | 'recurring.week_fifth'
+    | 'recurring.week_last'
+    | 'recurring.weekday'
+    | 'recurring.business_days_only'
+    | 'recurring.missed_policy'
+    | 'recurring.missed_skip'
+    | 'recurring.missed_latest'
+    | 'recurring.missed_backfill'
+    | 'recurring.missed_policy_hint'
+    | 'recurring.preview_title'
+    | 'recurring.preview_empty'
+    | 'recurring.preview_after_completion_hint'
     | 'recurring.cat_health'
     | 'recurring.cat_productivity'
     | 'recurring.cat_mindfulness'
@@ -900,6 +1054,7 @@ export type TranslationKey =
     | 'planner.chat.subtitle_friend'
     | 'planner.chat.escalate_button'
     | 'planner.chat.input_placeholder'
+    | 'planner.chat.stop'
     | 'planner.daily_success.title'
     | 'planner.daily_success.saved_badge'
     | 'planner.daily_success.update'
@@ -1069,6 +1224,186 @@ export type TranslationKey =
     | 'settings.storage_usage'
     | 'settings.reward_pricing'
     | 'settings.reward_pricing_hint'
+    | 'settings.ai_memory'
+    | 'settings.ai_memory_hint'
+    | 'settings.ai_usage'
+    | 'settings.ai_usage_hint'
+    | 'settings.prompts'
+    | 'settings.prompts_hint'
+    | 'settings.economy'
+    | 'settings.economy_hint'
+    | 'settings.day_boundary'
+    | 'settings.day_boundary_hint'
+    | 'ai_usage.feature_friend_chat'
+    | 'ai_usage.feature_coach_chat'
+    | 'ai_usage.feature_intervention'
+    | 'ai_usage.feature_task_breakdown'
+    | 'ai_usage.feature_prioritization'
+    | 'ai_usage.feature_task_analysis'
+    | 'ai_usage.feature_reflection_summary'
+    | 'ai_usage.range_today'
+    | 'ai_usage.range_week'
+    | 'ai_usage.load_bridge'
+    | 'ai_usage.edit_budgets'
+    | 'ai_usage.col_feature'
+    | 'ai_usage.col_calls'
+    | 'ai_usage.col_tokens'
+    | 'ai_usage.col_cost'
+    | 'ai_usage.col_latency'
+    | 'ai_usage.col_bridge'
+    | 'ai_usage.over_budget'
+    | 'ai_usage.errors'
+    | 'ai_usage.skipped'
+    | 'ai_usage.total'
+    | 'ai_usage.bridge_error'
+    | 'ai_usage.budget_hint'
+    | 'ai_usage.budget_calls'
+    | 'ai_usage.budget_tokens'
+    | 'ai_usage.budget_cost'
+    | 'ai_usage.unlimited'
+    | 'ai_usage.clear'
+    | 'prompts.prompt'
+    | 'prompts.version'
+    | 'prompts.builtin'
+    | 'prompts.active'
+    | 'prompts.use_version'
+    | 'prompts.reset'
+    | 'prompts.variables'
+    | 'prompts.no_variables'
+    | 'prompts.syntax_hint'
+    | 'prompts.text_zh'
+    | 'prompts.text_en'
+    | 'prompts.unknown_variables'
+    | 'prompts.save'
+    | 'prompts.compare'
+    | 'prompts.outputs_count'
+    | 'prompts.no_outputs'
+    | 'prompts.clear_outputs'
+    | 'economy.group'
+    | 'economy.group.task'
+    | 'economy.group.task_types'
+    | 'economy.group.effort'
+    | 'economy.group.importance'
+    | 'economy.group.habit'
+    | 'economy.group.flashcard'
+    | 'economy.group.pomodoro'
+    | 'economy.group.milestone'
+    | 'economy.group.caps'
+    | 'economy.field.minutes_per_energy'
+    | 'economy.field.pomodoro_minutes'
+    | 'economy.field.pomodoro_energy'
+    | 'economy.field.base_xp'
+    | 'economy.field.max_xp'
+    | 'economy.field.review_xp_bonus'
+    | 'economy.field.primary_skill_share'
+    | 'economy.field.secondary_skill_share'
+    | 'economy.field.attribute_scale'
+    | 'economy.field.energy_multiplier'
+    | 'economy.field.minutes_multiplier'
+    | 'economy.field.gold_coef'
+    | 'economy.field.xp_coef'
+    | 'economy.field.minutes'
+    | 'economy.field.energy'
+    | 'economy.field.gold'
+    | 'economy.field.energy_per_hour'
+    | 'economy.field.xp_per_hour'
+    | 'economy.field.gold_per_hour'
+    | 'economy.field.easy'
+    | 'economy.field.good'
+    | 'economy.field.hard'
+    | 'economy.field.session_bonus'
+    | 'economy.field.xp'
+    | 'economy.field.gold_reward'
+    | 'economy.field.quest_multiplier'
+    | 'economy.field.chapter_multiplier'
+    | 'economy.field.season_multiplier'
+    | 'economy.field.daily_xp_cap'
+    | 'economy.field.daily_gold_cap'
+    | 'economy.field.daily_skill_xp_cap'
+    | 'economy.field.weekly_skill_xp_cap'
+    | 'economy.field.daily_attr_cap'
+    | 'economy.caps_hint'
+    | 'economy.save'
+    | 'economy.discard'
+    | 'economy.defaults'
+    | 'economy.simulate'
+    | 'economy.simulation_range'
+    | 'economy.simulation_stale'
+    | 'economy.replay_note'
+    | 'economy.column.source'
+    | 'economy.column.count'
+    | 'economy.column.xp'
+    | 'economy.column.gold'
+    | 'economy.column.energy'
+    | 'economy.source.task'
+    | 'economy.source.habit'
+    | 'economy.source.flashcard'
+    | 'economy.source.pomodoro'
+    | 'economy.source.quest'
+    | 'economy.source.chapter'
+    | 'economy.source.season'
+    | 'economy.source.total'
+    | 'economy.xp_gold_cut'
+    | 'economy.skill_xp'
+    | 'economy.attributes'
+    | 'calendar_day.start_hour'
+    | 'calendar_day.start_hour_hint'
+    | 'calendar_day.pin_time_zone'
+    | 'calendar_day.time_zone'
+    | 'calendar_day.save_time_zone'
+    | 'calendar_day.device_zone'
+    | 'calendar_day.zone_mismatch'
+    | 'calendar_day.today'
+    | 'calendar_day.reason.invalid_hour'
+    | 'calendar_day.reason.invalid_time_zone'
+    | 'achievements.unlocked'
+    | 'achievements.custom'
+    | 'achievements.delete'
+    | 'achievements.delete_confirm'
+    | 'achievements.invalid_condition'
+    | 'achievements.add_title'
+    | 'achievements.name'
+    | 'achievements.description'
+    | 'achievements.condition'
+    | 'achievements.condition_placeholder'
+    | 'achievements.metrics_hint'
+    | 'achievements.syntax_hint'
+    | 'achievements.add'
+    | 'achievements.reason.name_required'
+    | 'achievements.reason.name_taken'
+    | 'achievements.reason.invalid_condition'
+    | 'achievements.error.empty'
+    | 'achievements.error.unexpected_token'
+    | 'achievements.error.unexpected_end'
+    | 'achievements.error.unknown_metric'
+    | 'achievements.error.unknown_argument'
+    | 'achievements.error.invalid_argument'
+    | 'achievements.error.expected_comparison'
+    | 'achievements.error.expected_number'
+    | 'memory.kind'
+    | 'memory.kind_pattern'
+    | 'memory.kind_blocker'
+    | 'memory.kind_preference'
+    | 'memory.kind_strength'
+    | 'memory.fact_text'
+    | 'memory.facts_title'
+    | 'memory.facts_empty'
+    | 'memory.summaries_title'
+    | 'memory.summaries_empty'
+    | 'memory.add'
+    | 'memory.add_placeholder'
+    | 'memory.edit'
+    | 'memory.delete'
+    | 'memory.save'
+    | 'memory.cancel'
+    | 'memory.evidence'
+    | 'memory.user_edited'
+    | 'memory.week_of'
+    | 'memory.highlights'
+    | 'memory.patterns'
+    | 'memory.refresh'
+    | 'memory.last_condensed'
+    | 'memory.never'
 
     // Data Management
     | 'data.title'
@@ -1096,6 +1431,8 @@ export type TranslationKey =
     | 'data.reset_confirm'
     | 'data.reset_success'
     | 'data.import_success'
+    | 'data.import_migrated'
+    | 'data.import_newer_schema'
     | 'data.export_success'
     | 'data.copy_success'
     | 'data.import_error'
@@ -1105,6 +1442,77 @@ export type TranslationKey =
     | 'data.confirm_import_title'
     | 'data.confirm_import_text'
     | 'data.confirm_import_btn'
+    | 'data.merge_import'
+    | 'data.merge_preview_title'
+    | 'data.merge_no_changes'
+    | 'data.merge_col_collection'
+    | 'data.merge_col_added'
+    | 'data.merge_col_updated'
+    | 'data.merge_col_conflicts'
+    | 'data.merge_col_appended'
+    | 'data.merge_conflicts_title'
+    | 'data.merge_keep_current'
+    | 'data.merge_use_incoming'
+    | 'data.merge_more_conflicts'
+    | 'data.merge_apply'
+    | 'data.merge_success'
+    | 'data.snapshots'
+    | 'data.snapshots_desc'
+    | 'data.snapshot_now'
+    | 'data.snapshot_created'
+    | 'data.snapshot_empty'
+    | 'data.snapshot_reason_scheduled'
+    | 'data.snapshot_reason_manual'
+    | 'data.snapshot_reason_import'
+    | 'data.snapshot_reason_reset'
+    | 'data.snapshot_reason_orchestration'
+    | 'data.snapshot_reason_ai_tool'
+    | 'data.snapshot_diff_title'
+    | 'data.snapshot_diff_none'
+    | 'data.snapshot_diff_legend'
+    | 'data.snapshot_diff_fields'
+    | 'data.snapshot_restore'
+    | 'data.snapshot_restore_confirm'
+    | 'data.snapshot_restore_success'
+    | 'data.snapshot_delete'
+    | 'data.snapshot_load_error'
+    | 'data.sync'
+    | 'data.sync_desc'
+    | 'data.sync_enable'
+    | 'data.sync_disable'
+    | 'data.sync_status_disabled'
+    | 'data.sync_status_connecting'
+    | 'data.sync_status_online'
+    | 'data.sync_status_offline'
+    | 'data.sync_pending'
+    | 'data.sync_last_synced'
+    | 'data.sync_device'
+    | 'data.vault'
+    | 'data.vault_desc'
+    | 'data.vault_folder'
+    | 'data.vault_export'
+    | 'data.vault_import'
+    | 'data.vault_working'
+    | 'data.vault_bridge_unavailable'
+    | 'data.vault_export_success'
+    | 'data.vault_export_partial'
+    | 'data.vault_index_not_found'
+    | 'data.vault_import_result'
+    | 'data.calendar'
+    | 'data.calendar_desc'
+    | 'data.calendar_export'
+    | 'data.calendar_import'
+    | 'data.calendar_export_success'
+    | 'data.calendar_import_preview'
+    | 'data.calendar_import_confirm'
+    | 'data.calendar_import_success'
+    | 'data.calendar_import_empty'
+    | 'data.calendar_import_error'
+    | 'data.calendar_feed_on'
+    | 'data.calendar_feed_off'
+    | 'data.calendar_feed_enable'
+    | 'data.calendar_feed_disable'
+    | 'data.calendar_feed_url'
 
     // Profile
     | 'profile.title'
@@ -1121,6 +1529,7 @@ export type TranslationKey =
     | 'profile.stats'
     | 'profile.skills'
     | 'profile.titles'
+    | 'profile.achievements'
     | 'profile.unlocked_titles'
     | 'profile.tip_titles'
     | 'profile.reset_confirm'
@@ -1279,6 +1688,8 @@ export type TranslationKey =
     | 'task.item.unpin'
     | 'task.item.pin'
     | 'task.item.status_in_progress'
+    | 'task.item.status_blocked'
+    | 'task.item.blocked_by'
     | 'task.item.collapse'
     | 'task.item.expand'
     | 'task.item.label_context'
@@ -0,0 +1,259 @@
+/**
+ * Recurrence Rules
+ *
+ * Pure occurrence generator for recurring tasks. All dates are local date
+ * keys (YYYY-MM-DD); arithmetic is done on UTC midnights so DST shifts never
+ * move an occurrence to another day.
+ *
+ * Supported rules:
+ * - daily / weekly / monthly, every N days/weeks/months (weeks start on Monday)
+ * - monthly by day of month (clamped to short months), by nth weekday
+ *   ("2nd Tuesday", "last Friday") or on the last business day
+ * - N days after the last completion of a generated task
+ * - business days only (drops Saturday/Sunday occurrences; after_completion
+ *   moves to the next business day instead)
+ */
+
+import type { MissedOccurrencePolicy, RecurringTask } from '../types/task';
+import { getDayKey } from './calendar-day';
+
+export type RecurrenceRule = Pick<
+    RecurringTask,
+    | 'frequency'
+    | 'interval'
+    | 'daysOfWeek'
+    | 'monthlyMode'
+    | 'dayOfMonth'
+    | 'weekOfMonth'
+    | 'weekdayOfMonth'
+    | 'businessDaysOnly'
+    | 'startDate'
+    | 'endDate'
+    | 'createdAt'
+>;
+
+export interface RecurrenceState {
+    lastCompleted?: string;
+    lastGeneratedDate?: string;
+    lastCheckedDate?: string;
+    /** A generated task for this rule is still open (after_completion only) */
+    hasOpenTask?: boolean;
+}
+
+export interface GenerationPlan {
+    /** Deadlines of the tasks to create, oldest first */
+    dates: string[];
+    /** Missed occurrences that were not generated */
+    skipped: number;
+}
+
+/** Upper bound for backfilled tasks per check */
+export const MAX_BACKFILL_OCCURRENCES = 31;
+/** Scanning stops after this many days without an occurrence */
+const MAX_SCAN_DAYS = 366 * 5;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// --- Date keys ---
+
+function parseKey(key: string): number {
+    const [year, month, day] = key.slice(0, 10).split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+}
+
+function formatKey(time: number): string {
+    return new Date(time).toISOString().slice(0, 10);
+}
+
+export function addDaysToKey(key: string, days: number): string {
+    return formatKey(parseKey(key) + days * MS_PER_DAY);
+}
+
+export function daysBetween(from: string, to: string): number {
+    return Math.round((parseKey(to) - parseKey(from)) / MS_PER_DAY);
+}
+
+function weekday(key: string): number {
+    return new Date(parseKey(key)).getUTCDay();
+}
+
+function isBusinessDay(key: string): boolean {
+    const day = weekday(key);
+    return day !== 0 && day !== 6;
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+    return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+/** Monday of the week containing `key` */
+export function weekStart(key: string): string {
+    return addDaysToKey(key, -((weekday(key) + 6) % 7));
+}
+
+// --- Rule evaluation ---
+
+function intervalOf(rule: RecurrenceRule): number {
+    return Math.max(1, Math.floor(rule.interval || 1));
+}
+
+/**
+ * First day the rule can fire on: its start date, or the day it was created
+ */
+export function recurrenceAnchor(rule: RecurrenceRule): string {
+    return rule.startDate || getDayKey(rule.createdAt);
+}
+
+function matchesMonthly(rule: RecurrenceRule, key: string): boolean {
+    const [year, month, day] = key.split('-').map(Number);
+    const lastDay = daysInMonth(year, month - 1);
+    switch (rule.monthlyMode || 'day_of_month') {
+        case 'day_of_month':
+            return !!rule.dayOfMonth && day === Math.min(rule.dayOfMonth, lastDay);
+        case 'nth_weekday': {
+            if (rule.weekOfMonth === undefined || rule.weekdayOfMonth === undefined) return false;
+            if (weekday(key) !== rule.weekdayOfMonth) return false;
+            return rule.weekOfMonth === -1
+                ? day + 7 > lastDay
+                : Math.ceil(day / 7) === rule.weekOfMonth;
+        }
+        case 'last_business_day': {
+            if (!isBusinessDay(key)) return false;
+            for (let next = day + 1; next <= lastDay; next += 1) {
+                if (isBusinessDay(`${key.slice(0, 8)}${String(next).padStart(2, '0')}`)) return false;
+            }
+            return true;
+        }
+    }
+}
+
+/**
+ * Whether a calendar rule (not after_completion) fires on `key`
+ */
+function isCalendarOccurrence(rule: RecurrenceRule, key: string, anchor: string): boolean {
+    if (key < anchor) return false;
+    if (rule.endDate && key > rule.endDate) return false;
+    if (rule.businessDaysOnly && !isBusinessDay(key)) return false;
+    const interval = intervalOf(rule);
+
+    switch (rule.frequency) {
+        case 'daily':
+            return daysBetween(anchor, key) % interval === 0;
+        case 'weekly': {
+            if (!(rule.daysOfWeek || []).includes(weekday(key))) return false;
+            return (daysBetween(weekStart(anchor), weekStart(key)) / 7) % interval === 0;
+        }
+        case 'monthly': {
+            const [anchorYear, anchorMonth] = anchor.split('-').map(Number);
+            const [year, month] = key.split('-').map(Number);
+            const monthOffset = (year - anchorYear) * 12 + (month - anchorMonth);
+            return monthOffset % interval === 0 && matchesMonthly(rule, key);
+        }
+        default:
+            return false;
+    }
+}
+
+/**
+ * Due date of an after_completion rule: N days after the last completion, or
+ * the anchor before anything was completed
+ */
+function completionDueDate(rule: RecurrenceRule, lastCompleted?: string): string {
+    const anchor = recurrenceAnchor(rule);
+    let due = lastCompleted ? addDaysToKey(lastCompleted, intervalOf(rule)) : anchor;
+    if (due < anchor) due = anchor;
+    if (rule.businessDaysOnly) {
+        while (!isBusinessDay(due)) due = addDaysToKey(due, 1);
+    }
+    return due;
+}
+
+/**
+ * Occurrences between `from` and `to` (inclusive). after_completion rules
+ * yield at most their current due date.
+ */
+export function listOccurrences(rule: RecurrenceRule, from: string, to: string, state: RecurrenceState = {}): string[] {
+    if (to < from) return [];
+    if (rule.frequency === 'after_completion') {
+        const due = completionDueDate(rule, state.lastCompleted);
+        return due >= from && due <= to && (!rule.endDate || due <= rule.endDate) ? [due] : [];
+    }
+    const anchor = recurrenceAnchor(rule);
+    const dates: string[] = [];
+    for (let key = from > anchor ? from : anchor; key <= to; key = addDaysToKey(key, 1)) {
+        if (isCalendarOccurrence(rule, key, anchor)) dates.push(key);
+    }
+    return dates;
+}
+
+/**
+ * The next `count` occurrences on or after `from`. For after_completion
+ * rules, later occurrences assume each task is completed on its due date.
+ */
+export function nextOccurrences(rule: RecurrenceRule, from: string, count: number, state: RecurrenceState = {}): string[] {
+    const dates: string[] = [];
+    if (rule.frequency === 'after_completion') {
+        let due = completionDueDate(rule, state.lastCompleted);
+        // Overdue: the next instance is due right away
+        if (due < from) due = completionDueDate(rule, addDaysToKey(from, -intervalOf(rule)));
+        while (dates.length < count && (!rule.endDate || due <= rule.endDate)) {
+            dates.push(due);
+            due = completionDueDate(rule, due);
+        }
+        return dates;
+    }
+    const anchor = recurrenceAnchor(rule);
+    let key = from > anchor ? from : anchor;
+    for (let scanned = 0; dates.length < count && scanned < MAX_SCAN_DAYS; scanned += 1) {
+        if (rule.endDate && key > rule.endDate) break;
+        if (isCalendarOccurrence(rule, key, anchor)) dates.push(key);
+        key = addDaysToKey(key, 1);
+    }
+    return dates;
+}
+
+/**
+ * Which tasks to create when checking the rule on `today`.
+ *
+ * Occurrences since the last check (or since the rule started, for a rule
+ * that was never checked) that fall before today are "missed"; the policy
+ * decides whether they are skipped, collapsed into the latest one, or all
+ * generated (bounded by MAX_BACKFILL_OCCURRENCES).
+ */
+export function planRecurringGeneration(
+    rule: RecurrenceRule,
+    today: string,
+    policy: MissedOccurrencePolicy = 'skip',
+    state: RecurrenceState = {}
+): GenerationPlan {
+    const none: GenerationPlan = { dates: [], skipped: 0 };
+    const lastChecked = [state.lastCheckedDate, state.lastGeneratedDate].filter(Boolean).sort().pop();
+    if (lastChecked && lastChecked >= today) return none;
+
+    if (rule.frequency === 'after_completion') {
+        if (state.hasOpenTask) return none;
+        const due = completionDueDate(rule, state.lastCompleted);
+        if (due > today || (rule.endDate && due > rule.endDate)) return none;
+        // The current instance was already generated (and removed without being completed).
+        if (state.lastGeneratedDate && state.lastGeneratedDate >= due) return none;
+        return { dates: [policy === 'skip' ? today : due], skipped: 0 };
+    }
+
+    const created = getDayKey(rule.createdAt);
+    const from = lastChecked ? addDaysToKey(lastChecked, 1) : created;
+    const occurrences = listOccurrences(rule, from, today, state);
+    const dueToday = occurrences[occurrences.length - 1] === today;
+    const missed = dueToday ? occurrences.slice(0, -1) : occurrences;
+
+    switch (policy) {
+        case 'skip':
+            return { dates: dueToday ? [today] : [], skipped: missed.length };
+        case 'latest':
+            return occurrences.length === 0
+                ? none
+                : { dates: [occurrences[occurrences.length - 1]], skipped: occurrences.length - 1 };
+        case 'backfill': {
+            const dates = occurrences.slice(-MAX_BACKFILL_OCCURRENCES);
+            return { dates, skipped: occurrences.length - dates.length };
+        }
+    }
+}
@@ -0,0 +1,221 @@
+/**
+ * Reward Budget
+ *
+ * Limits on the reward board so gold keeps its value: per-reward cooldowns,
+ * weekly gold budgets per price tier, prices that rise with recent
+ * redemptions of the same verb, and wishlist savings goals.
+ *
+ * Redemptions are read from `financialRecords` (`source: 'reward_redeem'`) so
+ * limits still hold after a redeemed sticker is deleted; a refund cancels the
+ * redemption it reverses.
+ */
+
+import type { GameData, RewardBudgetConfig, RewardCooldownRule, WishlistItem } from '../types/game-data';
+import type { RewardPriceTier, RewardSticker } from '../types/task';
+import { getDayKey } from './calendar-day';
+import { addDaysToKey, daysBetween, weekStart } from './recurrence';
+
+/** Financial record category for gold moved into wishlist items */
+export const WISHLIST_CATEGORY = 'wishlist';
+
+export const HISTORY_WEEKS = 8;
+
+export const PRICE_TIERS: RewardPriceTier[] = ['S', 'A', 'B', 'C'];
+
+export interface RewardRedemption {
+    stickerId: string;
+    at: string;
+    cost: number;
+    /** Unknown once the sticker has been deleted */
+    sticker?: RewardSticker;
+}
+
+export type RedemptionCheck =
+    | { success: true; price: number }
+    | { success: false; reason: 'cooldown'; price: number; rule: RewardCooldownRule; availableOn: string }
+    | { success: false; reason: 'over_budget'; price: number; remaining: number }
+    | { success: false; reason: 'insufficient_gold'; price: number };
+
+type BudgetState = Pick<GameData, 'financialRecords' | 'rewardPool' | 'rewardBudget' | 'resources'>;
+
+function dateKeyOf(timestamp: string): string {
+    return getDayKey(timestamp);
+}
+
+/**
+ * Sticker redemptions that were not refunded, oldest first
+ */
+export function getRewardRedemptions(state: Pick<GameData, 'financialRecords' | 'rewardPool'>): RewardRedemption[] {
+    const stickers = new Map(state.rewardPool.map((sticker) => [sticker.id, sticker]));
+    const open = new Map<string, RewardRedemption[]>();
+    const records = state.financialRecords
+        .filter((record) => record.source === 'reward_redeem' && record.relatedEntityType === 'reward'
+            && record.category !== WISHLIST_CATEGORY && record.relatedEntityId)
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    for (const record of records) {
+        const stickerId = record.relatedEntityId as string;
+        const list = open.get(stickerId) || [];
+        if (record.type === 'expense') {
+            list.push({ stickerId, at: record.date, cost: record.amount, sticker: stickers.get(stickerId) });
+        } else {
+            list.pop();
+        }
+        open.set(stickerId, list);
+    }
+    return [...open.values()].flat().sort((a, b) => a.at.localeCompare(b.at));
+}
+
+export function matchesCooldown(sticker: Pick<RewardSticker, 'object' | 'rawText'>, rule: RewardCooldownRule): boolean {
+    const keyword = rule.keyword.trim().toLowerCase();
+    if (!keyword) return false;
+    return `${sticker.object} ${sticker.rawText}`.toLowerCase().includes(keyword);
+}
+
+/**
+ * First cooldown the sticker is under, with the day it lifts
+ */
+export function findActiveCooldown(
+    sticker: RewardSticker,
+    redemptions: RewardRedemption[],
+    config: RewardBudgetConfig,
+    now: Date = new Date()
+): { rule: RewardCooldownRule; availableOn: string } | null {
+    const today = getDayKey(now);
+    for (const rule of config.cooldowns) {
+        if (!matchesCooldown(sticker, rule) || rule.limit < 1 || rule.periodDays < 1) continue;
+        const since = addDaysToKey(today, -(rule.periodDays - 1));
+        const recent = redemptions
+            .filter((redemption) => redemption.sticker && matchesCooldown(redemption.sticker, rule) && dateKeyOf(redemption.at) >= since)
+            .map((redemption) => dateKeyOf(redemption.at))
+            .sort()
+            .reverse();
+        if (recent.length >= rule.limit) {
+            return { rule, availableOn: addDaysToKey(recent[rule.limit - 1], rule.periodDays) };
+        }
+    }
+    return null;
+}
+
+export function getPriceMultiplier(
+    sticker: Pick<RewardSticker, 'verb'>,
+    redemptions: RewardRedemption[],
+    config: RewardBudgetConfig,
+    now: Date = new Date()
+): number {
+    const { enabled, windowDays, stepPercent, maxMultiplier } = config.dynamicPricing;
+    if (!enabled || windowDays < 1) return 1;
+    const since = addDaysToKey(getDayKey(now), -(windowDays - 1));
+    const recent = redemptions
+        .filter((redemption) => redemption.sticker?.verb === sticker.verb && dateKeyOf(redemption.at) >= since)
+        .length;
+    return Math.min(Math.max(1, maxMultiplier), 1 + (recent * stepPercent) / 100);
+}
+
+export function getEffectivePrice(
+    sticker: RewardSticker,
+    redemptions: RewardRedemption[],
+    config: RewardBudgetConfig,
+    now: Date = new Date()
+): number {
+    return Math.round((sticker.priceGold || 0) * getPriceMultiplier(sticker, redemptions, config, now));
+}
+
+/**
+ * Gold spent this week per price tier
+ */
+export function getTierSpending(redemptions: RewardRedemption[], now: Date = new Date()): Record<RewardPriceTier, number> {
+    const since = weekStart(getDayKey(now));
+    const spending: Record<RewardPriceTier, number> = { S: 0, A: 0, B: 0, C: 0 };
+    for (const redemption of redemptions) {
+        if (!redemption.sticker || dateKeyOf(redemption.at) < since) continue;
+        spending[redemption.sticker.priceTier] += redemption.cost;
+    }
+    return spending;
+}
+
+/**
+ * Whether a sticker can be redeemed now, and at what price
+ */
+export function checkRedemption(sticker: RewardSticker, state: BudgetState, now: Date = new Date()): RedemptionCheck {
+    const redemptions = getRewardRedemptions(state);
+    const config = state.rewardBudget;
+    const price = getEffectivePrice(sticker, redemptions, config, now);
+
+    const cooldown = findActiveCooldown(sticker, redemptions, config, now);
+    if (cooldown) return { success: false, reason: 'cooldown', price, ...cooldown };
+
+    const budget = config.tierWeeklyBudget[sticker.priceTier] || 0;
+    if (budget > 0) {
+        const remaining = budget - getTierSpending(redemptions, now)[sticker.priceTier];
+        if (price > remaining) return { success: false, reason: 'over_budget', price, remaining: Math.max(0, remaining) };
+    }
+
+    if (state.resources.money.balance < price) return { success: false, reason: 'insufficient_gold', price };
+    return { success: true, price };
+}
+
+/**
+ * Gold owed to a wishlist item for the days since it was last accrued, limited by what it still needs
+ */
+export function getWishlistAccrual(item: WishlistItem, now: Date = new Date()): { amount: number; accruedOn: string } {
+    const today = getDayKey(now);
+    if (item.status !== 'saving' || item.weeklyContribution <= 0 || item.lastAccruedOn >= today) {
+        return { amount: 0, accruedOn: item.lastAccruedOn };
+    }
+    const days = daysBetween(item.lastAccruedOn, today);
+    const due = Math.floor((item.weeklyContribution * days) / 7);
+    // Small contributions wait until at least one whole gold is due
+    if (due <= 0) return { amount: 0, accruedOn: item.lastAccruedOn };
+    return { amount: Math.min(due, Math.max(0, item.targetGold - item.savedGold)), accruedOn: today };
+}
+
+export interface RedemptionHistoryWeek {
+    weekStart: string;
+    /** Gold spent on sticker redemptions, net of refunds */
+    spent: number;
+    redemptions: number;
+    /** Gold moved into wishlist items */
+    saved: number;
+    /** Reward board log entries */
+    actions: number;
+}
+
+/**
+ * Weekly reward activity for the last `weeks` weeks, oldest first
+ */
+export function getRedemptionHistory(
+    state: Pick<GameData, 'financialRecords' | 'rewardPool' | 'rewardActionLogs'>,
+    weeks: number = HISTORY_WEEKS,
+    now: Date = new Date()
+): RedemptionHistoryWeek[] {
+    const currentWeek = weekStart(getDayKey(now));
+    const history: RedemptionHistoryWeek[] = Array.from({ length: weeks }, (_, index) => ({
+        weekStart: addDaysToKey(currentWeek, -7 * (weeks - 1 - index)),
+        spent: 0,
+        redemptions: 0,
+        saved: 0,
+        actions: 0,
+    }));
+    const bucketOf = (timestamp: string) => {
+        const key = weekStart(dateKeyOf(timestamp));
+        return history.find((week) => week.weekStart === key);
+    };
+
+    for (const redemption of getRewardRedemptions(state)) {
+        const week = bucketOf(redemption.at);
+        if (!week) continue;
+        week.spent += redemption.cost;
+        week.redemptions += 1;
+    }
+    for (const record of state.financialRecords) {
+        if (record.source !== 'reward_redeem' || record.category !== WISHLIST_CATEGORY) continue;
+        const week = bucketOf(record.date);
+        if (week) week.saved += record.type === 'expense' ? record.amount : -record.amount;
+    }
+    for (const log of state.rewardActionLogs || []) {
+        const week = bucketOf(log.timestamp);
+        if (week) week.actions += 1;
+    }
+    return history;
+}
@@ -1,6 +1,17 @@
-import type { RewardSticker, RewardVerb } from '../types/task';
+import type {
+  RewardCurrency,
+  RewardDayPeriod,
+  RewardPriceCap,
+  RewardSchedule,
+  RewardScheduleAnchor,
+  RewardSticker,
+  RewardVerb,
+} from '../types/task';
 
-export type ParsedReward = Pick<RewardSticker, 'rawText' | 'verb' | 'object' | 'quantity' | 'unit'>;
+export type ParsedReward = Pick<
+  RewardSticker,
+  'rawText' | 'verb' | 'object' | 'quantity' | 'unit' | 'priceCap' | 'durationMinutes' | 'schedule'
+>;
 
 const verbPatterns: Array<{ verb: RewardVerb; patterns: RegExp[] }> = [
   { verb: 'drink', patterns: [/^(喝)\s*/i, /\b(drink)\b/i] },
@@ -11,8 +22,16 @@ const verbPatterns: Array<{ verb: RewardVerb; patterns: RegExp[] }> = [
   { verb: 'rest', patterns: [/^(休息|睡|躺)\s*/i, /\b(rest|sleep)\b/i] },
 ];
 
-const cnNumberMap: Record<string, number> = {
-  一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9, 十: 10,
+const cnDigitMap: Record<string, number> = {
+  零: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
+};
+
+const cnUnitMap: Record<string, number> = { 十: 10, 百: 100, 千: 1000 };
+
+const enNumberMap: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  fifteen: 15, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, ninety: 90,
 };
 
 const objectVerbHints: Array<{ verb: RewardVerb; keywords: string[] }> = [
@@ -20,6 +39,7 @@ const objectVerbHints: Array<{ verb: RewardVerb; keywords: string[] }> = [
     verb: 'drink',
     keywords: [
       '奶茶', '咖啡', '可乐', '饮料', '气泡水', '果汁', '茶', '喝',
+      'coffee', 'latte', 'boba', 'beer',
     ],
   },
   {
@@ -27,45 +47,257 @@ const objectVerbHints: Array<{ verb: RewardVerb; keywords: string[] }> = [
     keywords: [
       'kfc', '肯德基', '麦当劳', 'mcd', 'kineya', '鸡翅', '炸鸡', '汉堡', '薯条',
       '拉面', '面', '寿司', '披萨', 'pizza', '蛋糕', '甜点',
-      '冰淇淋', '饭', '火锅', '烧烤', '小龙虾', '吃',
+      '冰淇淋', '饭', '火锅', '烧烤', '小龙虾', '零食', '吃',
+      'burger', 'ramen', 'sushi', 'cake', 'ice cream', 'dessert', 'snack',
     ],
   },
   {
     verb: 'watch',
-    keywords: ['电影', '剧', '综艺', '动漫', '番', 'youtube', 'bilibili', 'netflix', 'watch'],
+    keywords: ['电影', '剧', '综艺', '动漫', '番', 'youtube', 'bilibili', 'netflix', 'movie', 'episode', 'anime', 'watch'],
   },
   {
     verb: 'play',
-    keywords: ['游戏', 'steam', 'switch', 'ps5', 'xbox', 'play'],
+    keywords: ['游戏', 'steam', 'switch', 'ps5', 'xbox', 'game', 'play'],
   },
   {
     verb: 'rest',
-    keywords: ['休息', '睡觉', '午睡', '按摩', '泡澡', 'spa', 'sleep', 'rest'],
+    keywords: ['休息', '睡觉', '午睡', '按摩', '泡澡', 'spa', 'nap', 'sleep', 'rest'],
   },
   {
     verb: 'buy',
-    keywords: ['购物', '下单', '网购', '买', '购买', 'buy'],
+    keywords: ['购物', '下单', '网购', '买', '购买', '书', '耳机', 'book', 'headphones', 'buy'],
   },
 ];
 
-const SPLIT_TOKENS = /(?:[+,，、;；]|\s+和\s+|\s+and\s+)/i;
-const QUANTITY_UNIT_REGEX = /(来)?(\d+|[一二两三四五六七八九十]{1,2})\s*(个|次|份|只|杯|块|顿|小时|分钟|集|pieces?|times?)?/i;
+const CN_NUM = '[零一二两三四五六七八九十百千]+';
+const EN_NUM = Object.keys(enNumberMap).filter((word) => word.length > 2).join('|');
+const NUM = `(?:\\d+(?:\\.\\d+)?|${CN_NUM})`;
+const CN_VERBS = '吃|喝|买|看|追|玩|打|休息|睡|躺';
+
+// Items split on punctuation, "and"/"then", and a bare 和/再/然后 that starts a new verb.
+const SPLIT_TOKENS = new RegExp(
+  `(?:[+,，、;；&\\n]|\\s+和\\s+|\\s+(?:and|then|plus)\\s+|\\s*(?:然后|以及)\\s*|(?:和|再)(?=(?:${CN_VERBS})))`,
+  'i'
+);
+
+const QUANTITY_UNITS = [
+  '个', '次', '份', '只', '杯', '块', '顿', '集', '章', '本', '瓶', '碗', '盒', '局', '把', '场', '部', '页', '包', '片', '袋', '罐',
+  'episodes?', 'eps?', 'chapters?', 'cups?', 'bottles?', 'slices?', 'bowls?', 'games?', 'rounds?', 'pieces?', 'pcs', 'times?',
+].join('|');
+// Digits may stand alone ("x2 鸡翅"); spelled-out numbers need a unit so "一下" or "a" stay part of the text.
+const QUANTITY_UNIT_REGEX = new RegExp(
+  `(来)?(?:[x×]\\s*(\\d+)|(?<![a-z\\d])(\\d+)\\s*(${QUANTITY_UNITS})?(?![a-z])|(${CN_NUM}|\\b(?:${EN_NUM}|a|an)\\b)\\s*(${QUANTITY_UNITS})(?![a-z]))`,
+  'i'
+);
+
+const CURRENCY_SYMBOLS: Record<string, RewardCurrency> = {
+  '¥': 'CNY', '￥': 'CNY', $: 'USD', '€': 'EUR', '£': 'GBP',
+};
+
+const CURRENCY_WORDS: Array<{ currency: RewardCurrency; pattern: RegExp }> = [
+  { currency: 'CNY', pattern: /^(元|块钱?|rmb|cny|人民币)$/i },
+  { currency: 'USD', pattern: /^(美元|美金|刀|usd|dollars?|bucks)$/i },
+  { currency: 'EUR', pattern: /^(欧元|eur|euros?)$/i },
+  { currency: 'GBP', pattern: /^(英镑|gbp|pounds?)$/i },
+  { currency: 'JPY', pattern: /^(日元|円|jpy|yen)$/i },
+];
+
+const CAP_PREFIX = '(不超过|不超|最多|至多|预算|限额|under|below|up to|at most|max(?:imum)?|less than|within|no more than|≤|<=?)?\\s*';
+const CAP_SUFFIX = '\\s*(以内|以下|之内|封顶|内|左右|or less|max|tops)?\\s*的?';
+const SYMBOL_PRICE_REGEX = new RegExp(`${CAP_PREFIX}([¥￥$€£])\\s*(\\d+(?:\\.\\d+)?)${CAP_SUFFIX}`, 'gi');
+const WORD_PRICE_REGEX = new RegExp(
+  `${CAP_PREFIX}(${NUM})\\s*(元|块钱?|rmb|cny|人民币|美元|美金|刀|usd|dollars?|bucks|欧元|eur|euros?|英镑|gbp|pounds?|日元|円|jpy|yen)(?![a-z])${CAP_SUFFIX}`,
+  'gi'
+);
+
+const DURATION_REGEX = new RegExp(
+  `(?:\\bfor\\s+)?(?:(${NUM}|半)\\s*个?\\s*(半)?\\s*(小时|钟头|分钟)|(?<![a-z])(\\d+(?:\\.\\d+)?|half an?|${EN_NUM}|an?)\\s*(hours?|hrs?|h|minutes?|mins?)(?![a-z]))`,
+  'i'
+);
+
+const ANCHOR_PATTERNS: Array<{ anchor: RewardScheduleAnchor; pattern: RegExp }> = [
+  { anchor: 'after_breakfast', pattern: /(早饭|早餐)(以|之)?后|\bafter\s+breakfast\b/i },
+  { anchor: 'after_lunch', pattern: /(午饭|午餐)(以|之)?后|\bafter\s+lunch\b/i },
+  { anchor: 'after_dinner', pattern: /(晚饭|晚餐)(以|之)?后|\bafter\s+(dinner|supper)\b/i },
+  { anchor: 'after_meal', pattern: /饭(以|之)?后|\bafter\s+(a\s+)?meals?\b/i },
+  { anchor: 'after_work', pattern: /下班(以|之)?后|\bafter\s+work\b/i },
+  { anchor: 'before_bed', pattern: /睡(觉)?(以|之)?前|\bbefore\s+(bed(time)?|sleep)\b/i },
+];
+
+const PERIOD_PATTERNS: Array<{ period: RewardDayPeriod; pattern: RegExp }> = [
+  { period: 'night', pattern: /深夜|半夜|夜里|\b((late|at)\s+)?night\b/i },
+  { period: 'morning', pattern: /早上|早晨|上午|\b(in\s+the\s+)?morning\b/i },
+  { period: 'noon', pattern: /中午|\b(at\s+)?noon\b/i },
+  { period: 'afternoon', pattern: /下午|\b(in\s+the\s+)?afternoon\b/i },
+  { period: 'evening', pattern: new RegExp(`晚上|今晚|傍晚|晚间|晚(?=\\s*(?:\\d|${CN_NUM}))|\\b(in\\s+the\\s+)?evening\\b|\\btonight\\b`, 'i') },
+];
+
+const TIME_PATTERNS: RegExp[] = [
+  /(?:\b(at|after|from|before|until|by)\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i,
+  /(?:\b(at|after|from|before|until|by)\s+)?(\d{1,2})[:：](\d{2})()\s*(以后|之后|后|以前|之前|前)?/i,
+  new RegExp(`()(\\d{1,2}|${CN_NUM})\\s*点\\s*(半|\\d{1,2}|${CN_NUM})?\\s*分?()\\s*(以后|之后|后|以前|之前|前)?`),
+];
+
+const PARENTHESES_REGEX = /[（(](.*?)[)）]/g;
+
+const CN_WEEKDAY_REGEX = /(?:每个?)?(?:周|星期|礼拜)([一二三四五六日天1-7])(?![次个遍回])/g;
+const CN_WEEKDAY: Record<string, number> = { 一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6, 日: 0, 天: 0, 7: 0 };
+const EN_WEEKDAY_REGEX = /\b(?:(?:on|every|this|next)\s+)?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)s?\b/gi;
+const EN_WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKEND_REGEX = /周末|\b(?:(?:on|at|every|this|next)\s+(?:the\s+)?)?weekends?\b/i;
+const WORKDAY_REGEX = /工作日|平日|\b(?:on\s+)?weekdays\b/i;
+// Relative days carry no lasting constraint, so they are only stripped.
+const RELATIVE_DAY_REGEX = /今天|明天|后天|\b(today|tomorrow)\b/gi;
 
 function normalizeText(input: string) {
   return input
-    .replace(/[（(].*?[)）]/g, '')
+    .replace(PARENTHESES_REGEX, '')
+    .replace(/(?<!\d)[:：]|[:：](?!\d)/g, ' ')
     .replace(/\s+/g, ' ')
     .trim();
 }
 
-function parseCnNumber(token: string): number | undefined {
+function parseNumber(token: string | undefined): number | undefined {
   if (!token) return undefined;
-  if (/^\d+$/.test(token)) return Number(token);
-  if (token === '十') return 10;
-  if (token.length === 2 && token[0] === '十' && cnNumberMap[token[1]]) return 10 + cnNumberMap[token[1]];
-  if (token.length === 2 && cnNumberMap[token[0]] && token[1] === '十') return cnNumberMap[token[0]] * 10;
-  if (cnNumberMap[token]) return cnNumberMap[token];
-  return undefined;
+  const trimmed = token.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (/^half an?$/.test(trimmed)) return 0.5;
+  if (enNumberMap[trimmed] !== undefined) return enNumberMap[trimmed];
+
+  let total = 0;
+  let current = 0;
+  for (const char of trimmed) {
+    if (cnDigitMap[char] !== undefined) {
+      current = cnDigitMap[char];
+    } else if (cnUnitMap[char]) {
+      total += (current || 1) * cnUnitMap[char];
+      current = 0;
+    } else {
+      return undefined;
+    }
+  }
+  const value = total + current;
+  return value > 0 ? value : undefined;
+}
+
+function removeSpan(text: string, match: RegExpMatchArray) {
+  const index = match.index ?? text.indexOf(match[0]);
+  return `${text.slice(0, index)} ${text.slice(index + match[0].length)}`;
+}
+
+function toCurrency(unit: string): RewardCurrency {
+  return CURRENCY_WORDS.find((item) => item.pattern.test(unit))?.currency ?? 'CNY';
+}
+
+function extractPriceCap(text: string): { text: string; priceCap?: RewardPriceCap } {
+  for (const match of text.matchAll(SYMBOL_PRICE_REGEX)) {
+    const amount = Number(match[3]);
+    if (amount > 0) return { text: removeSpan(text, match), priceCap: { amount, currency: CURRENCY_SYMBOLS[match[2]] } };
+  }
+  for (const match of text.matchAll(WORD_PRICE_REGEX)) {
+    const amount = parseNumber(match[2]);
+    // A bare 块 is also a classifier ("一块蛋糕"); it only means money next to a limit word.
+    if (!amount || (match[3] === '块' && !match[1] && !match[4])) continue;
+    return { text: removeSpan(text, match), priceCap: { amount, currency: toCurrency(match[3]) } };
+  }
+  return { text };
+}
+
+function extractDuration(text: string): { text: string; durationMinutes?: number } {
+  const match = text.match(DURATION_REGEX);
+  if (!match) return { text };
+  const unit = (match[3] || match[5]).toLowerCase();
+  let amount = match[1] === '半' ? 0.5 : parseNumber(match[1] || match[4]) ?? 0;
+  if (match[2]) amount += 0.5;
+  const minutes = unit === '分钟' || unit.startsWith('min') ? amount : amount * 60;
+  if (minutes <= 0) return { text };
+  return { text: removeSpan(text, match), durationMinutes: Math.round(minutes) };
+}
+
+function toClock(hour: number, minute: number) {
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+function adjustHour(hour: number, meridiem: string | undefined, period: RewardDayPeriod | undefined) {
+  const marker = meridiem?.toLowerCase();
+  if (marker === 'pm') return hour < 12 ? hour + 12 : hour;
+  if (marker === 'am') return hour === 12 ? 0 : hour;
+  if ((period === 'afternoon' || period === 'evening') && hour < 12) return hour + 12;
+  if (period === 'night' && hour >= 6 && hour < 12) return hour + 12;
+  if (period === 'noon' && hour < 11) return hour + 12;
+  return hour;
+}
+
+function extractSchedule(input: string): { text: string; schedule?: RewardSchedule } {
+  let text = input.replace(RELATIVE_DAY_REGEX, ' ');
+  const schedule: RewardSchedule = {};
+
+  for (const { anchor, pattern } of ANCHOR_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    schedule.anchor = anchor;
+    text = removeSpan(text, match);
+    break;
+  }
+
+  for (const { period, pattern } of PERIOD_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    schedule.period = period;
+    text = removeSpan(text, match);
+    break;
+  }
+
+  for (const pattern of TIME_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const hour = parseNumber(match[2]);
+    if (hour === undefined || hour > 23) continue;
+    // "吃一点零食" means "a little"; a spelled-out hour needs a time of day or 前/后 next to it.
+    if (!/^\d/.test(match[2]) && !schedule.period && !match[5]) continue;
+    const minute = match[3] === '半' ? 30 : parseNumber(match[3]) ?? 0;
+    const clock = toClock(adjustHour(hour, match[4], schedule.period), Math.min(59, minute));
+    const bound = /before|until|by|前/i.test(`${match[1] || ''}${match[5] || ''}`) ? 'until' : 'from';
+    schedule[bound] = clock;
+    text = removeSpan(text, match);
+    break;
+  }
+
+  const weekdays = new Set<number>();
+  for (const match of text.matchAll(CN_WEEKDAY_REGEX)) weekdays.add(CN_WEEKDAY[match[1]]);
+  for (const match of text.matchAll(EN_WEEKDAY_REGEX)) weekdays.add(EN_WEEKDAYS.indexOf(match[1].toLowerCase()));
+  text = text.replace(CN_WEEKDAY_REGEX, ' ').replace(EN_WEEKDAY_REGEX, ' ');
+  const weekend = text.match(WEEKEND_REGEX);
+  if (weekend) {
+    weekdays.add(0).add(6);
+    text = removeSpan(text, weekend);
+  }
+  const workdays = text.match(WORKDAY_REGEX);
+  if (workdays) {
+    [1, 2, 3, 4, 5].forEach((day) => weekdays.add(day));
+    text = removeSpan(text, workdays);
+  }
+  if (weekdays.size > 0) schedule.weekdays = [...weekdays].sort((a, b) => a - b);
+
+  return { text, schedule: Object.keys(schedule).length > 0 ? schedule : undefined };
+}
+
+function extractDetails(input: string): Pick<ParsedReward, 'priceCap' | 'durationMinutes' | 'schedule'> & { text: string } {
+  const price = extractPriceCap(input);
+  const duration = extractDuration(price.text);
+  const timing = extractSchedule(duration.text);
+  return { text: timing.text, priceCap: price.priceCap, durationMinutes: duration.durationMinutes, schedule: timing.schedule };
+}
+
+function cleanRemainder(text: string) {
+  return text
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(去|再|就|可以|要|能)\s*/, '')
+    .replace(/^(on|at|in|for)\s+/i, '')
+    .replace(/\s+(on|at|in|for)$/i, '')
+    .replace(/(吧|一下)$/, '')
+    .trim();
 }
 
 function inferVerbByObject(text: string): RewardVerb {
@@ -80,19 +312,31 @@ function parseSingleReward(rawText: string): ParsedReward | null {
   const text = normalizeText(rawText);
   if (!text) return null;
 
+  const { text: remainder, ...details } = extractDetails(text);
+  // Notes in parentheses are dropped from the text but may still carry constraints: "看电影 (周六, ¥50 以内)"
+  for (const note of rawText.matchAll(PARENTHESES_REGEX)) {
+    const noteDetails = extractDetails(note[1]);
+    details.priceCap ??= noteDetails.priceCap;
+    details.durationMinutes ??= noteDetails.durationMinutes;
+    details.schedule ??= noteDetails.schedule;
+  }
+  const rest = cleanRemainder(remainder);
+  // Only constraints are left (e.g. "20:30前" after a comma); the caller attaches them to a neighbouring item.
+  if (!rest) return { rawText: text, verb: 'other', object: '', ...details };
+
   let verb: RewardVerb = 'other';
   for (const item of verbPatterns) {
-    if (item.patterns.some((pattern) => pattern.test(text))) {
+    if (item.patterns.some((pattern) => pattern.test(rest))) {
       verb = item.verb;
       break;
     }
   }
 
-  const quantityMatch = text.match(QUANTITY_UNIT_REGEX);
-  const quantity = quantityMatch ? parseCnNumber(quantityMatch[2]) : undefined;
-  const unit = quantityMatch?.[3] || undefined;
+  const quantityMatch = rest.match(QUANTITY_UNIT_REGEX);
+  const quantity = quantityMatch ? parseNumber(quantityMatch[2] || quantityMatch[3] || quantityMatch[5]) : undefined;
+  const unit = quantityMatch?.[4] || quantityMatch?.[6] || undefined;
 
-  let object = text
+  let object = rest
     .replace(/^(吃|喝|买|购|购买|看|追|玩|打|休息|睡|躺|来|整)\s*/i, '')
     .replace(/^(eat|drink|buy|get|watch|play|rest|sleep|have)\s+/i, '')
     .trim();
@@ -103,29 +347,69 @@ function parseSingleReward(rawText: string): ParsedReward | null {
 
   object = object
     .replace(/^(一下|一次|一个|一份|一顿)\s*/i, '')
+    // "买个不超过200块的耳机" leaves the measure word behind once the price cap is cut out
+    .replace(/^(个|份)\s+/, '')
+    .replace(/^(of|the|some|a|an)\s+/i, '')
+    .replace(/^的/, '')
     .trim();
 
-  if (!object) object = text;
+  if (!object) object = rest;
   if (verb === 'other') verb = inferVerbByObject(`${object} ${text}`);
 
-  return { rawText: text, verb, object, quantity, unit };
+  return {
+    rawText: text,
+    verb,
+    object,
+    quantity,
+    unit,
+    ...details,
+  };
+}
+
+function mergeDetails(target: ParsedReward, source: ParsedReward) {
+  target.priceCap ??= source.priceCap;
+  target.durationMinutes ??= source.durationMinutes;
+  if (source.schedule) target.schedule = { ...source.schedule, ...target.schedule };
+  return target;
 }
 
 export function parseRewardTexts(rawText: string): ParsedReward[] {
   const normalized = normalizeText(rawText);
-  if (!normalized) return [];
+  // Nothing but punctuation or symbols: no reward to make.
+  if (!/[\p{L}\p{N}]/u.test(normalized)) return [];
 
-  const chunks = normalized
+  // Keep parenthesized notes for each item, with their separators blanked so they stay in one chunk.
+  const chunks = rawText
+    .replace(PARENTHESES_REGEX, (note) => note.replace(/[+,，、;；&\n]/g, ' '))
     .split(SPLIT_TOKENS)
-    .map((chunk) => normalizeText(chunk || ''))
-    .filter(Boolean);
+    .filter((chunk) => normalizeText(chunk || ''));
 
   // If no split markers, parse as one.
   const targets = chunks.length > 0 ? chunks : [normalized];
   const results: ParsedReward[] = [];
+  let leading: ParsedReward | null = null;
   for (const target of targets) {
     const parsed = parseSingleReward(target);
-    if (parsed) results.push(parsed);
+    if (!parsed) continue;
+    const previous = results[results.length - 1];
+    if (!parsed.object) {
+      if (previous) {
+        mergeDetails(previous, parsed);
+        previous.rawText = `${previous.rawText} ${parsed.rawText}`;
+      } else {
+        leading = leading ? mergeDetails(parsed, leading) : parsed;
+      }
+      continue;
+    }
+    if (leading) {
+      mergeDetails(parsed, leading);
+      parsed.rawText = `${leading.rawText} ${parsed.rawText}`;
+      leading = null;
+    }
+    // "周六：看电影+吃火锅" — a schedule written once applies to the items after it.
+    if (!parsed.schedule && previous?.schedule) parsed.schedule = { ...previous.schedule };
+    results.push(parsed);
   }
+  if (results.length === 0 && leading) results.push({ ...leading, object: leading.rawText });
   return results;
 }
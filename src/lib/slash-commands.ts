@@ -0,0 +1,522 @@
+/**
+ * Chat Slash Commands
+ *
+ * A small command language for the AI chat inputs, parsed locally so common
+ * actions never wait on (or depend on) a model round-trip:
+ *
+ *   /task Write intro !high @quest:NeoQA due:fri ~60m
+ *   /done <task>        /habit <name>        /pomo 25 <task>
+ *   /expense 35 food [note]   /income 200 salary [note]   /review   /help
+ *
+ * Commands that change progress or gold (`/done`, `/habit`, `/expense`,
+ * `/income`) run through the AI tools, so they get the same snapshot and undo
+ * entry; the rest call store actions like the UI. Each replies with a plain
+ * zh/en message for the chat.
+ */
+
+import { useGameStore } from '../stores/game-store';
+import { usePomodoroStore } from '../stores/pomodoro-store';
+import { toDateKey } from '../stores/game-store-helpers';
+import { getDayKey } from './calendar-day';
+import { addDaysToKey } from './recurrence';
+import { executeTool } from './ai/tools';
+import type { CustomTask, Effort, Habit, Importance, MainQuest } from '../types/task';
+
+export type SlashCommandName = 'task' | 'done' | 'habit' | 'expense' | 'income' | 'pomo' | 'review' | 'help';
+
+export type SlashCommand =
+    | { name: 'task'; title: string; importance?: Importance; quest?: string; deadline?: string; minutes?: number }
+    | { name: 'done'; query: string }
+    | { name: 'habit'; query: string }
+    | { name: 'expense' | 'income'; amount: number; category?: string; note?: string }
+    | { name: 'pomo'; minutes: number; query?: string }
+    | { name: 'review' }
+    | { name: 'help' };
+
+export type SlashParseError = 'unknown_command' | 'missing_argument' | 'invalid_argument';
+
+export type SlashParseResult =
+    | { success: true; command: SlashCommand }
+    | { success: false; reason: SlashParseError; detail: string };
+
+export interface SlashCommandResult {
+    success: boolean;
+    message: string;
+}
+
+export interface SlashSuggestion {
+    label: string;
+    detail?: string;
+    /** Full input value after picking the suggestion */
+    value: string;
+}
+
+type Language = 'zh' | 'en';
+
+export const SLASH_COMMANDS: Array<{ name: SlashCommandName; usage: string; zh: string; en: string }> = [
+    { name: 'task', usage: '/task <title> !high @quest:<name> due:<date> ~60m', zh: '新建任务', en: 'Create a task' },
+    { name: 'done', usage: '/done <task>', zh: '完成任务', en: 'Complete a task' },
+    { name: 'habit', usage: '/habit <name>', zh: '习惯打卡', en: 'Check in a habit' },
+    { name: 'expense', usage: '/expense <amount> [category] [note]', zh: '记录支出', en: 'Record an expense' },
+    { name: 'income', usage: '/income <amount> [category] [note]', zh: '记录收入', en: 'Record income' },
+    { name: 'pomo', usage: '/pomo [minutes] [task]', zh: '开始番茄钟', en: 'Start a pomodoro' },
+    { name: 'review', usage: '/review', zh: '今日回顾', en: "Review today" },
+    { name: 'help', usage: '/help', zh: '查看命令', en: 'List commands' },
+];
+
+const IMPORTANCE_TOKENS: Record<string, Importance> = {
+    high: 'high', h: 'high', medium: 'medium', med: 'medium', m: 'medium', low: 'low', l: 'low',
+    高: 'high', 中: 'medium', 低: 'low',
+};
+
+const WEEKDAYS: Array<{ day: number; pattern: RegExp }> = [
+    { day: 1, pattern: /^(mon|monday|周一|星期一)$/ },
+    { day: 2, pattern: /^(tue|tues|tuesday|周二|星期二)$/ },
+    { day: 3, pattern: /^(wed|wednesday|周三|星期三)$/ },
+    { day: 4, pattern: /^(thu|thur|thurs|thursday|周四|星期四)$/ },
+    { day: 5, pattern: /^(fri|friday|周五|星期五)$/ },
+    { day: 6, pattern: /^(sat|saturday|周六|星期六)$/ },
+    { day: 0, pattern: /^(sun|sunday|周日|周天|星期日|星期天)$/ },
+];
+
+const DEFAULT_POMODORO_MINUTES = 25;
+const MAX_SUGGESTIONS = 6;
+
+// --- Parsing ---
+
+/**
+ * Split on spaces, keeping "double quoted" parts together
+ */
+function tokenize(text: string): string[] {
+    return (text.match(/(?:[^\s"]+|"[^"]*")+/g) || []).map((token) => token.replace(/"/g, ''));
+}
+
+/**
+ * Resolve `today`, `tomorrow`, weekday names (next occurrence, today included),
+ * `+3d`, `MM-DD` and `YYYY-MM-DD` to a local date key
+ */
+export function parseDueDate(value: string, now: Date = new Date()): string | null {
+    const text = value.trim().toLowerCase();
+    const today = getDayKey(now);
+    if (/^(today|tod|今天)$/.test(text)) return today;
+    if (/^(tomorrow|tmr|tmrw|明天)$/.test(text)) return addDaysToKey(today, 1);
+
+    const weekday = WEEKDAYS.find(({ pattern }) => pattern.test(text));
+    // Weekday and year come from the day key, which follows the day boundary and pinned zone
+    if (weekday) return addDaysToKey(today, (weekday.day - new Date(`${today}T00:00:00Z`).getUTCDay() + 7) % 7);
+
+    const relative = text.match(/^\+(\d{1,3})d$/);
+    if (relative) return addDaysToKey(today, Number(relative[1]));
+
+    const full = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    const short = text.match(/^(\d{1,2})[-/](\d{1,2})$/);
+    if (!full && !short) return null;
+    const [year, month, day] = full
+        ? [Number(full[1]), Number(full[2]), Number(full[3])]
+        : [Number(today.slice(0, 4)), Number(short![1]), Number(short![2])];
+    const date = new Date(year, month - 1, day);
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+    // A short date that already passed this year means next year
+    if (!full && toDateKey(date) < today) date.setFullYear(year + 1);
+    return toDateKey(date);
+}
+
+function parseMinutes(value: string): number | null {
+    const match = value.toLowerCase().match(/^(\d+(?:\.\d+)?)(m|min|h|hr|小时|分钟)?$/);
+    if (!match) return null;
+    const amount = Number(match[1]) * (match[2] && /^(h|hr|小时)$/.test(match[2]) ? 60 : 1);
+    return amount > 0 ? Math.round(amount) : null;
+}
+
+function parseTask(args: string[]): SlashParseResult {
+    const command: Extract<SlashCommand, { name: 'task' }> = { name: 'task', title: '' };
+    const words: string[] = [];
+    for (const token of args) {
+        if (token.startsWith('!') && IMPORTANCE_TOKENS[token.slice(1).toLowerCase()]) {
+            command.importance = IMPORTANCE_TOKENS[token.slice(1).toLowerCase()];
+        } else if (/^@(quest:)?./i.test(token)) {
+            command.quest = token.replace(/^@(quest:)?/i, '');
+        } else if (/^due:/i.test(token)) {
+            const deadline = parseDueDate(token.slice(4));
+            if (!deadline) return { success: false, reason: 'invalid_argument', detail: token };
+            command.deadline = deadline;
+        } else if (token.startsWith('~')) {
+            const minutes = parseMinutes(token.slice(1));
+            if (!minutes) return { success: false, reason: 'invalid_argument', detail: token };
+            command.minutes = minutes;
+        } else {
+            words.push(token);
+        }
+    }
+    command.title = words.join(' ').trim();
+    if (!command.title) return { success: false, reason: 'missing_argument', detail: 'title' };
+    return { success: true, command };
+}
+
+function parseMoney(name: 'expense' | 'income', args: string[]): SlashParseResult {
+    if (args.length === 0) return { success: false, reason: 'missing_argument', detail: 'amount' };
+    const amount = Number(args[0]);
+    if (!Number.isFinite(amount) || amount <= 0) return { success: false, reason: 'invalid_argument', detail: args[0] };
+    const [category, ...note] = args.slice(1);
+    return { success: true, command: { name, amount, category, note: note.join(' ') || undefined } };
+}
+
+/**
+ * Parse one line of chat input. Returns null when it is not a slash command.
+ */
+export function parseSlashCommand(input: string): SlashParseResult | null {
+    const text = input.trim();
+    if (!text.startsWith('/')) return null;
+    const [head, ...args] = tokenize(text.slice(1));
+    const name = (head || '').toLowerCase();
+
+    switch (name) {
+        case 'task':
+        case 't':
+            return parseTask(args);
+        case 'done':
+        case 'habit': {
+            const query = args.join(' ').trim();
+            if (!query) return { success: false, reason: 'missing_argument', detail: name === 'done' ? 'task' : 'habit' };
+            return { success: true, command: { name, query } };
+        }
+        case 'expense':
+        case 'spend':
+            return parseMoney('expense', args);
+        case 'income':
+            return parseMoney('income', args);
+        case 'pomo':
+        case 'pomodoro': {
+            const minutes = args.length > 0 ? parseMinutes(args[0]) : null;
+            const rest = (minutes ? args.slice(1) : args).join(' ').trim();
+            return { success: true, command: { name: 'pomo', minutes: minutes || DEFAULT_POMODORO_MINUTES, query: rest || undefined } };
+        }
+        case 'review':
+            return { success: true, command: { name: 'review' } };
+        case 'help':
+        case '':
+            return { success: true, command: { name: 'help' } };
+        default:
+            return { success: false, reason: 'unknown_command', detail: name };
+    }
+}
+
+// --- Entity lookup ---
+
+function openTasks(): CustomTask[] {
+    return useGameStore.getState().customTasks.filter((task) => !task.completed && task.status !== 'completed');
+}
+
+function activeHabits(): Habit[] {
+    return useGameStore.getState().habits.filter((habit) => habit.active);
+}
+
+function activeQuests(): MainQuest[] {
+    return useGameStore.getState().mainQuests.filter((quest) => quest.status !== 'completed' && quest.status !== 'archived');
+}
+
+/**
+ * Exact name, then prefix, then substring; more than one substring hit is ambiguous
+ */
+function findByName<T>(items: T[], query: string, nameOf: (item: T) => string): { match?: T; candidates: T[] } {
+    const keyword = query.trim().toLowerCase();
+    const exact = items.find((item) => nameOf(item).toLowerCase() === keyword);
+    if (exact) return { match: exact, candidates: [] };
+    const prefixed = items.filter((item) => nameOf(item).toLowerCase().startsWith(keyword));
+    if (prefixed.length === 1) return { match: prefixed[0], candidates: [] };
+    const contained = items.filter((item) => nameOf(item).toLowerCase().includes(keyword));
+    if (contained.length === 1) return { match: contained[0], candidates: [] };
+    return { candidates: contained };
+}
+
+function effortFor(minutes?: number): Effort {
+    if (!minutes) return 'medium';
+    if (minutes <= 30) return 'light';
+    return minutes <= 120 ? 'medium' : 'heavy';
+}
+
+// --- Execution ---
+
+function notFound<T>(kind: { zh: string; en: string }, query: string, candidates: T[], nameOf: (item: T) => string, language: Language): SlashCommandResult {
+    const isZh = language === 'zh';
+    if (candidates.length > 1) {
+        const list = candidates.slice(0, MAX_SUGGESTIONS).map((item) => `- ${nameOf(item)}`).join('\n');
+        return { success: false, message: isZh ? `「${query}」匹配到多个${kind.zh}，请写得更具体：\n${list}` : `"${query}" matches several ${kind.en}s, be more specific:\n${list}` };
+    }
+    return { success: false, message: isZh ? `没有找到${kind.zh}「${query}」。` : `No ${kind.en} matches "${query}".` };
+}
+
+function getHelp(language: Language): string {
+    const lines = SLASH_COMMANDS.map((command) => `${command.usage} — ${command[language]}`);
+    return language === 'zh'
+        ? `可用命令（本地执行，不经过 AI）：\n${lines.join('\n')}\n日期：today / tomorrow / fri / +3d / 10-24；时长：~30m / ~1.5h`
+        : `Commands (run locally, no AI):\n${lines.join('\n')}\nDates: today / tomorrow / fri / +3d / 10-24; durations: ~30m / ~1.5h`;
+}
+
+function addTaskCommand(command: Extract<SlashCommand, { name: 'task' }>, language: Language): SlashCommandResult {
+    const isZh = language === 'zh';
+    let quest: MainQuest | undefined;
+    if (command.quest) {
+        const lookup = findByName(activeQuests(), command.quest, (item) => item.title);
+        if (!lookup.match) return notFound({ zh: '副本', en: 'quest' }, command.quest, lookup.candidates, (item) => item.title, language);
+        quest = lookup.match;
+    }
+
+    useGameStore.getState().addTask({
+        name: command.title,
+        importance: command.importance || quest?.importance || 'medium',
+        effort: effortFor(command.minutes),
+        taskType: 'creative',
+        linkType: quest ? 'mainQuest' : 'none',
+        linkedMainQuestId: quest?.id,
+        deadline: command.deadline,
+        ...(command.minutes ? { estimatedCosts: { time: command.minutes } } : {}),
+    });
+
+    const details = [
+        command.importance && `!${command.importance}`,
+        quest && `@${quest.title}`,
+        command.deadline && (isZh ? `截止 ${command.deadline}` : `due ${command.deadline}`),
+        command.minutes && `~${command.minutes}m`,
+    ].filter(Boolean).join(' · ');
+    return {
+        success: true,
+        message: isZh
+            ? `✅ 已添加任务「${command.title}」${details ? `（${details}）` : ''}`
+            : `✅ Added task "${command.title}"${details ? ` (${details})` : ''}`,
+    };
+}
+
+async function completeTaskCommand(query: string, language: Language): Promise<SlashCommandResult> {
+    const isZh = language === 'zh';
+    const lookup = findByName(openTasks(), query, (task) => task.name);
+    if (!lookup.match) return notFound({ zh: '未完成的任务', en: 'open task' }, query, lookup.candidates, (task) => task.name, language);
+
+    const result = await executeTool('complete_task', { taskId: lookup.match.id }, { confirmed: true }) as {
+        success?: boolean;
+        goldGain?: number;
+        xpGain?: number;
+        message?: string;
+    };
+    if (!result?.success) {
+        return { success: false, message: isZh ? `❌ 没有完成：${result?.message || '未知错误'}` : `❌ Not completed: ${result?.message || 'unknown error'}` };
+    }
+    const gold = result.goldGain ?? 0;
+    const xp = result.xpGain ?? 0;
+    const gains = [gold > 0 && `+${gold} 💰`, xp > 0 && `+${xp} XP`].filter(Boolean).join(' ');
+    return {
+        success: true,
+        message: isZh
+            ? `🎉 完成「${lookup.match.name}」${gains ? ` ${gains}` : ''}`
+            : `🎉 Completed "${lookup.match.name}"${gains ? ` ${gains}` : ''}`,
+    };
+}
+
+async function checkInHabitCommand(query: string, language: Language): Promise<SlashCommandResult> {
+    const isZh = language === 'zh';
+    const lookup = findByName(activeHabits(), query, (habit) => habit.name);
+    if (!lookup.match) return notFound({ zh: '习惯', en: 'habit' }, query, lookup.candidates, (habit) => habit.name, language);
+
+    const result = await executeTool('check_in_habit', { habitId: lookup.match.id }, { confirmed: true }) as {
+        success?: boolean;
+        streak?: number;
+        message?: string;
+    };
+    if (!result?.success) {
+        return { success: false, message: isZh ? `❌ 没有打卡：${result?.message || '未知错误'}` : `❌ Not checked in: ${result?.message || 'unknown error'}` };
+    }
+    const streak = result.streak ?? 0;
+    const emoji = lookup.match.emoji || '✅';
+    return {
+        success: true,
+        message: isZh
+            ? `${emoji} 「${lookup.match.name}」已打卡，连续 ${streak} 天`
+            : `${emoji} Checked in "${lookup.match.name}", ${streak}-day streak`,
+    };
+}
+
+async function moneyCommand(command: Extract<SlashCommand, { name: 'expense' | 'income' }>, language: Language): Promise<SlashCommandResult> {
+    const isZh = language === 'zh';
+    const isIncome = command.name === 'income';
+    // Typed by the user, so it counts as confirmed; the call still gets a snapshot and an undo entry
+    const result = await executeTool(isIncome ? 'record_income' : 'record_expense', {
+        amount: command.amount,
+        category: command.category,
+        reason: command.note || command.category,
+    }, { confirmed: true }) as { success?: boolean; newBalance?: number; message?: string };
+
+    if (!result?.success) {
+        return { success: false, message: isZh ? `❌ 没有记录：${result?.message || '未知错误'}` : `❌ Not recorded: ${result?.message || 'unknown error'}` };
+    }
+    const sign = isIncome ? '+' : '-';
+    const label = command.category ? ` ${command.category}` : '';
+    return {
+        success: true,
+        message: isZh
+            ? `💰 ${isIncome ? '收入' : '支出'} ${sign}${command.amount}${label}，余额 ${result.newBalance}`
+            : `💰 ${isIncome ? 'Income' : 'Expense'} ${sign}${command.amount}${label}, balance ${result.newBalance}`,
+    };
+}
+
+function pomodoroCommand(command: Extract<SlashCommand, { name: 'pomo' }>, language: Language): SlashCommandResult {
+    const isZh = language === 'zh';
+    const pomodoro = usePomodoroStore.getState();
+    if (pomodoro.isRunning) {
+        return { success: false, message: isZh ? '⏱️ 已经有一个番茄钟在进行中。' : '⏱️ A pomodoro is already running.' };
+    }
+
+    let task: CustomTask | undefined;
+    if (command.query) {
+        const lookup = findByName(openTasks(), command.query, (item) => item.name);
+        if (!lookup.match) return notFound({ zh: '未完成的任务', en: 'open task' }, command.query, lookup.candidates, (item) => item.name, language);
+        task = lookup.match;
+    }
+
+    pomodoro.setDuration(command.minutes);
+    pomodoro.start(task?.id, task?.name);
+    return {
+        success: true,
+        message: isZh
+            ? `🍅 开始 ${command.minutes} 分钟番茄钟${task ? `：${task.name}` : ''}`
+            : `🍅 Started a ${command.minutes}-minute pomodoro${task ? `: ${task.name}` : ''}`,
+    };
+}
+
+function reviewCommand(language: Language): SlashCommandResult {
+    const isZh = language === 'zh';
+    const state = useGameStore.getState();
+    const today = getDayKey();
+    const completed = state.customTasks.filter((task) => task.completedAt && getDayKey(task.completedAt) === today);
+    const open = openTasks();
+    const dueLeft = open.filter((task) => task.deadline && task.deadline.slice(0, 10) <= today);
+    const habits = activeHabits();
+    const checkedIn = habits.filter((habit) => (habit.completionHistory[today]?.count || 0) > 0);
+    const pomodoros = usePomodoroStore.getState().completedToday;
+
+    const list = (items: string[]) => items.slice(0, MAX_SUGGESTIONS).map((item) => `- ${item}`).join('\n');
+    const sections = isZh
+        ? [
+            `📋 今日回顾 ${today}`,
+            `完成任务 ${completed.length} 个${completed.length > 0 ? `：\n${list(completed.map((task) => task.name))}` : ''}`,
+            `习惯打卡 ${checkedIn.length}/${habits.length}，番茄钟 ${pomodoros} 个`,
+            dueLeft.length > 0 ? `还有 ${dueLeft.length} 个今天到期或逾期：\n${list(dueLeft.map((task) => task.name))}` : '今天到期的任务都清掉了 ✨',
+        ]
+        : [
+            `📋 Review for ${today}`,
+            `${completed.length} task${completed.length === 1 ? '' : 's'} completed${completed.length > 0 ? `:\n${list(completed.map((task) => task.name))}` : ''}`,
+            `Habits ${checkedIn.length}/${habits.length}, ${pomodoros} pomodoro${pomodoros === 1 ? '' : 's'}`,
+            dueLeft.length > 0 ? `${dueLeft.length} still due today or overdue:\n${list(dueLeft.map((task) => task.name))}` : 'Everything due today is cleared ✨',
+        ];
+    return { success: true, message: sections.join('\n\n') };
+}
+
+export function describeParseError(error: Extract<SlashParseResult, { success: false }>, language: Language): string {
+    const isZh = language === 'zh';
+    if (error.reason === 'unknown_command') {
+        return isZh ? `未知命令 /${error.detail}，输入 /help 查看可用命令。` : `Unknown command /${error.detail}. Type /help for the list.`;
+    }
+    if (error.reason === 'missing_argument') {
+        return isZh ? `缺少参数：${error.detail}。输入 /help 查看用法。` : `Missing ${error.detail}. Type /help for usage.`;
+    }
+    return isZh ? `无法识别「${error.detail}」。` : `Couldn't read "${error.detail}".`;
+}
+
+/**
+ * Parse and run a slash command. Returns null when the input is not one, so
+ * the caller can send it to the AI instead.
+ */
+export async function runSlashCommand(input: string, language: Language): Promise<SlashCommandResult | null> {
+    const parsed = parseSlashCommand(input);
+    if (!parsed) return null;
+    if (!parsed.success) return { success: false, message: describeParseError(parsed, language) };
+
+    const { command } = parsed;
+    switch (command.name) {
+        case 'task':
+            return addTaskCommand(command, language);
+        case 'done':
+            return completeTaskCommand(command.query, language);
+        case 'habit':
+            return checkInHabitCommand(command.query, language);
+        case 'expense':
+        case 'income':
+            return moneyCommand(command, language);
+        case 'pomo':
+            return pomodoroCommand(command, language);
+        case 'review':
+            return reviewCommand(language);
+        case 'help':
+            return { success: true, message: getHelp(language) };
+    }
+}
+
+// --- Autocomplete ---
+
+function matchNames<T>(items: T[], partial: string, nameOf: (item: T) => string): T[] {
+    const keyword = partial.trim().toLowerCase();
+    return items
+        .filter((item) => nameOf(item).toLowerCase().includes(keyword))
+        .sort((a, b) => Number(!nameOf(a).toLowerCase().startsWith(keyword)) - Number(!nameOf(b).toLowerCase().startsWith(keyword)))
+        .slice(0, MAX_SUGGESTIONS);
+}
+
+function quoteIfSpaced(name: string): string {
+    return /\s/.test(name) ? `"${name}"` : name;
+}
+
+/**
+ * Suggestions for the current input: command names, then entity names for
+ * the argument being typed (tasks, habits, quests after `@`, dates after `due:`)
+ */
+export function getSlashSuggestions(input: string, language: Language): SlashSuggestion[] {
+    if (!input.startsWith('/')) return [];
+    const spaceIndex = input.indexOf(' ');
+    if (spaceIndex === -1) {
+        const partial = input.slice(1).toLowerCase();
+        return SLASH_COMMANDS
+            .filter((command) => command.name.startsWith(partial))
+            .map((command) => ({ label: `/${command.name}`, detail: command[language], value: `/${command.name} ` }));
+    }
+
+    const name = input.slice(1, spaceIndex).toLowerCase();
+    const rest = input.slice(spaceIndex + 1);
+    const prefix = input.slice(0, spaceIndex + 1);
+
+    if (name === 'done') {
+        return matchNames(openTasks(), rest, (task) => task.name)
+            .map((task) => ({ label: task.name, detail: task.deadline, value: `${prefix}${task.name}` }));
+    }
+    if (name === 'habit') {
+        const today = getDayKey();
+        return matchNames(activeHabits(), rest, (habit) => habit.name)
+            .map((habit) => ({
+                label: `${habit.emoji ? `${habit.emoji} ` : ''}${habit.name}`,
+                detail: (habit.completionHistory[today]?.count || 0) > 0 ? '✓' : undefined,
+                value: `${prefix}${habit.name}`,
+            }));
+    }
+    if (name === 'pomo' || name === 'pomodoro') {
+        const minutes = rest.match(/^(\d+\S*\s+)?/)?.[0] || '';
+        return matchNames(openTasks(), rest.slice(minutes.length), (task) => task.name)
+            .map((task) => ({ label: task.name, value: `${prefix}${minutes}${task.name}` }));
+    }
+    if (name === 'task' || name === 't') {
+        const lastSpace = input.lastIndexOf(' ');
+        const head = input.slice(0, lastSpace + 1);
+        const token = input.slice(lastSpace + 1);
+        if (token.startsWith('@')) {
+            return matchNames(activeQuests(), token.replace(/^@(quest:)?/i, ''), (quest) => quest.title)
+                .map((quest) => ({ label: quest.title, value: `${head}@quest:${quoteIfSpaced(quest.title)} ` }));
+        }
+        if (/^due:/i.test(token)) {
+            const partial = token.slice(4).toLowerCase();
+            return ['today', 'tomorrow', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun', '+7d']
+                .filter((option) => option.startsWith(partial))
+                .map((option) => ({ label: `due:${option}`, detail: parseDueDate(option) || undefined, value: `${head}due:${option} ` }));
+        }
+        if (token === '!') {
+            return (['high', 'medium', 'low'] as const).map((level) => ({ label: `!${level}`, value: `${head}!${level} ` }));
+        }
+    }
+    return [];
+}
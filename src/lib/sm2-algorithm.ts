@@ -9,6 +9,8 @@
 
 import type { FlashcardProgress } from '../types/flashcard';
 import { DEFAULT_PROGRESS } from '../types/flashcard';
+import { getDayKey } from './calendar-day';
+import { addDaysToKey } from './recurrence';
 
 /**
  * Rating quality values for SM-2
@@ -44,7 +46,7 @@ export function calculateNextReview(
     progress: FlashcardProgress | undefined,
     rating: 'easy' | 'good' | 'hard'
 ): FlashcardProgress {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getDayKey();
 
     // Initialize with defaults if no progress exists
     if (!progress) {
@@ -92,15 +94,11 @@ export function calculateNextReview(
     interval = Math.min(interval, MAX_INTERVAL);
     interval = Math.max(interval, 1);
 
-    // Calculate due date
-    const dueDate = new Date();
-    dueDate.setDate(dueDate.getDate() + interval);
-
     return {
         cardId: progress.cardId,
         ease,
         interval,
-        dueDate: dueDate.toISOString().split('T')[0],
+        dueDate: addDaysToKey(today, interval),
         repetitions,
         lastRating: rating,
         lastReviewDate: today,
@@ -113,7 +111,7 @@ export function calculateNextReview(
 export function isDueForReview(progress: FlashcardProgress | undefined): boolean {
     if (!progress) return true; // New card is always due
 
-    const today = new Date().toISOString().split('T')[0];
+    const today = getDayKey();
     return progress.dueDate <= today;
 }
 
@@ -126,7 +124,7 @@ export function getDueCards(
     progressMap: Record<string, FlashcardProgress>,
     limit: number
 ): string[] {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getDayKey();
 
     // Separate cards into categories
     const newCards: string[] = [];
@@ -178,7 +176,7 @@ export function calculateStats(
     mastered: number;
     dueToday: number;
 } {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getDayKey();
 
     let newCount = 0;
     let learningCount = 0;
@@ -1,26 +1,15 @@
 /**
  * AI Analysis Service
- * Handles AI-powered task analysis via provider selected in .env.
+ * Handles AI-powered task analysis via the `analysis` provider chain in .env
+ * (VITE_AI_ANALYSIS_CHAIN, e.g. `local` to keep reflections on this machine).
  * API keys remain server-side in bridge env vars.
  */
 
-import {
-  AI_PROVIDER,
-  GEMINI_MODEL,
-  OPENAI_MODEL,
-  proxyGeminiGenerate,
-  proxyOpenAIChat
-} from '../lib/ai/provider-proxy';
-
-function isRateLimitError(error: unknown): boolean {
-  const msg = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
-  return (
-    msg.includes('429') ||
-    msg.includes('quota') ||
-    msg.includes('rate') ||
-    msg.includes('limit reached')
-  );
-}
+import { z } from 'zod';
+import { resolveProviderChain } from '../lib/ai/providers/registry';
+import { generateStructured, type StructuredOutputSpec } from '../lib/ai/structured-output';
+
+const analysisChain = resolveProviderChain('analysis');
 
 const LIMITING_BELIEF_PATTERNS_ZH: Array<{ pattern: RegExp; alert: string; reframe: string }> = [
   {
@@ -76,76 +65,25 @@ function detectLimitingBeliefs(
   };
 }
 
+const stringList = z.array(z.string()).optional();
+
 /**
- * Try to parse JSON with repair attempts for common issues
+ * Shape the analysis chain must return; validated before anything reaches the UI
  */
-function tryParseJSON(jsonString: string): Record<string, unknown> | null {
-  // First, try direct parse
-  try {
-    return JSON.parse(jsonString);
-  } catch {
-    // Continue with repair attempts
-  }
-
-  let repaired = jsonString;
-
-  // Attempt 1: Fix truncated JSON by adding closing brackets
-  try {
-    const openBraces = (repaired.match(/\{/g) || []).length;
-    const closeBraces = (repaired.match(/\}/g) || []).length;
-    const openBrackets = (repaired.match(/\[/g) || []).length;
-    const closeBrackets = (repaired.match(/\]/g) || []).length;
-
-    repaired = repaired + ']'.repeat(Math.max(0, openBrackets - closeBrackets));
-    repaired = repaired + '}'.repeat(Math.max(0, openBraces - closeBraces));
-
-    return JSON.parse(repaired);
-  } catch {
-    // Continue with more repairs
-  }
-
-  // Attempt 2: Fix trailing commas and unclosed strings
-  try {
-    repaired = jsonString.replace(/,(\s*[\]}])/g, '$1');
-
-    const quoteCount = (repaired.match(/"/g) || []).length;
-    if (quoteCount % 2 !== 0) {
-      repaired = repaired + '"';
-    }
-
-    const openBraces = (repaired.match(/\{/g) || []).length;
-    const closeBraces = (repaired.match(/\}/g) || []).length;
-    const openBrackets = (repaired.match(/\[/g) || []).length;
-    const closeBrackets = (repaired.match(/\]/g) || []).length;
-
-    repaired = repaired + ']'.repeat(Math.max(0, openBrackets - closeBrackets));
-    repaired = repaired + '}'.repeat(Math.max(0, openBraces - closeBraces));
-
-    return JSON.parse(repaired);
-  } catch {
-    // Continue with extraction attempt
-  }
-
-  // Attempt 3: Extract partial valid JSON
-  try {
-    const summaryMatch = jsonString.match(/"summary"\s*:\s*"([^"]+)"/);
-    const affirmationMatch = jsonString.match(/"affirmation"\s*:\s*"([^"]+)"/);
-
-    if (summaryMatch) {
-      return {
-        summary: summaryMatch[1],
-        affirmation: affirmationMatch?.[1] || 'Keep going!',
-        beliefPatterns: [],
-        emotionalInsights: [],
-        growthSuggestions: [],
-      };
-    }
-  } catch {
-    // All attempts failed
-  }
-
-  return null;
-}
+const TASK_ANALYSIS_OUTPUT: StructuredOutputSpec<NonNullable<TaskAnalysisResult['analysis']>> = {
+  name: 'task_analysis',
+  schema: z.object({
+    summary: z.string().min(1),
+    beliefPatterns: stringList,
+    limitingBeliefAlerts: stringList,
+    reframeSuggestions: stringList,
+    emotionalInsights: stringList,
+    growthSuggestions: stringList,
+    affirmation: z.string().optional(),
+    attributeGains: z.array(z.object({ attribute: z.string(), reason: z.string() })).optional(),
+    skillProgress: z.array(z.object({ skill: z.string(), reason: z.string() })).optional(),
+  }),
+};
 
 export interface TaskAnalysisInput {
   taskName: string;
@@ -310,89 +248,29 @@ IMPORTANT: Return ONLY raw JSON object, no markdown blocks:
   ]
 }`;
 
-    let content = '';
-    if (AI_PROVIDER === 'openai') {
-      const response = await proxyOpenAIChat({
-        model: OPENAI_MODEL,
-        messages: [{ role: 'user', content: prompt }],
-        response_format: { type: 'json_object' as const },
-        temperature: 0.7,
-        max_tokens: analysisMode === 'quick' ? 380 : 1000,
-      });
-      const choices = Array.isArray(response.choices) ? response.choices as Array<Record<string, unknown>> : [];
-      const message = (choices[0]?.message || null) as Record<string, unknown> | null;
-      content = typeof message?.content === 'string' ? message.content : '';
-    } else if (AI_PROVIDER === 'gemini') {
-      try {
-        const response = await proxyGeminiGenerate({
-          model: GEMINI_MODEL,
-          contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        });
-        const candidates = (response as { candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }> }).candidates || [];
-        const parts = candidates[0]?.content?.parts || [];
-        const textPart = parts.find((part) => typeof part.text === 'string');
-        content = textPart?.text || '';
-      } catch (error) {
-        if (isRateLimitError(error)) {
-          console.warn('[AI Analysis] Gemini 429/limit reached. Falling back to OpenAI for this request.');
-          const response = await proxyOpenAIChat({
-            model: OPENAI_MODEL,
-            messages: [{ role: 'user', content: prompt }],
-            response_format: { type: 'json_object' as const },
-            temperature: 0.7,
-            max_tokens: analysisMode === 'quick' ? 380 : 1000,
-          });
-          const choices = Array.isArray(response.choices) ? response.choices as Array<Record<string, unknown>> : [];
-          const message = (choices[0]?.message || null) as Record<string, unknown> | null;
-          content = typeof message?.content === 'string' ? message.content : '';
-        } else {
-          throw error;
-        }
-      }
-    }
-
-    if (!content) {
-      throw new Error('No content in AI response');
-    }
-
-    // Extract JSON from response
-    let jsonContent = content.trim();
-
-    // Handle ```json ... ``` code blocks
-    const codeBlockMatch = jsonContent.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (codeBlockMatch) {
-      jsonContent = codeBlockMatch[1].trim();
-    }
-
-    // Extract JSON object
-    const jsonMatch = jsonContent.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      jsonContent = jsonMatch[0];
-    }
-
-    // Parse JSON with repair attempts
-    const analysis = tryParseJSON(jsonContent);
-
-    if (analysis && typeof analysis.summary === 'string' && analysis.summary.length > 0) {
-      const detection = detectLimitingBeliefs(input.review || '', lang);
-      const limitingBeliefAlerts = Array.isArray(analysis.limitingBeliefAlerts) && analysis.limitingBeliefAlerts.length > 0
-        ? (analysis.limitingBeliefAlerts as string[]).slice(0, 3)
-        : detection.alerts;
-      const reframeSuggestions = Array.isArray(analysis.reframeSuggestions) && analysis.reframeSuggestions.length > 0
-        ? (analysis.reframeSuggestions as string[]).slice(0, 3)
-        : detection.reframes;
-      return {
-        success: true,
-        analysis: {
-          summary: String(analysis.summary),
-          ...(analysis as TaskAnalysisResult['analysis']),
-          limitingBeliefAlerts,
-          reframeSuggestions,
-        },
-      };
+    const result = await generateStructured(analysisChain, TASK_ANALYSIS_OUTPUT, {
+      feature: 'task_analysis',
+      prompt,
+      temperature: 0.7,
+      maxTokens: analysisMode === 'quick' ? 380 : 1000,
+    });
+
+    // Unavailable, over budget or still invalid after the repair round: offline analysis
+    if (!result.success) {
+      console.warn(`[AI Analysis] ${result.reason}:`, result.issues || result.error);
+      return generateLocalAnalysis(input);
     }
 
-    throw new Error('Invalid analysis structure');
+    const analysis = result.data;
+    const detection = detectLimitingBeliefs(input.review || '', lang);
+    return {
+      success: true,
+      analysis: {
+        ...analysis,
+        limitingBeliefAlerts: analysis.limitingBeliefAlerts?.length ? analysis.limitingBeliefAlerts.slice(0, 3) : detection.alerts,
+        reframeSuggestions: analysis.reframeSuggestions?.length ? analysis.reframeSuggestions.slice(0, 3) : detection.reframes,
+      },
+    };
   } catch (error) {
     console.error('[AI Analysis] Failed:', error);
     // Fall back to local analysis
@@ -462,5 +340,5 @@ export function generateLocalAnalysis(input: TaskAnalysisInput): TaskAnalysisRes
  * Check if AI service is available
  */
 export function isAIAvailable(): boolean {
-  return true;
+  return analysisChain.length > 0;
 }
@@ -5,24 +5,32 @@
  * 支持 Function Calling
  */
 
-import type { Content, Part } from '@google/genai';
+import type { Content } from '@google/genai';
 import { toolsList, executeTool, type ToolDefinition } from '../lib/ai/tools';
 import {
-    AI_PROVIDER,
-    GEMINI_MODEL,
-    OPENAI_MODEL,
-    proxyGeminiGenerate,
-    proxyOpenAIChat,
-} from '../lib/ai/provider-proxy';
+    chatWithFallback,
+    resolveProviderChain,
+    type ProviderTarget,
+} from '../lib/ai/providers/registry';
+import type { ProviderMessage, StreamOptions } from '../lib/ai/providers/types';
+import { formatRoutedAnswer, routeIntent, shouldUseRoute, type RouterLanguage } from '../lib/ai/router';
+import { checkAIBudget } from '../lib/ai/telemetry';
+import { generateStructured, type StructuredOutputSpec, type StructuredResult } from '../lib/ai/structured-output';
+import { recordPromptOutput, renderPrompt, type RenderedPrompt } from '../lib/ai/prompt-registry';
+import type { AIFeature, PromptId, PromptLanguage } from '../types/ai';
+
+export type { StreamOptions } from '../lib/ai/providers/types';
 
 // ==================== Configuration ====================
 
-// Provider/model configuration is read from env, while API keys are server-side only.
+// Provider chains are resolved per role from env (see lib/ai/providers/registry.ts), while API keys are server-side only.
+
+const MAX_TOOL_ROUNDS = 5;
 
 // ==================== Types ====================
 
 export interface AIServiceOptions {
-    systemPrompt: string;
+    systemPromptId: PromptId;
     role: 'coach' | 'friend';
 }
 
@@ -31,54 +39,21 @@ export interface ToolCallResult {
     toolsExecuted: { name: string; result: unknown }[];
 }
 
-interface GeminiFunctionCall {
-    name: string;
-    args?: Record<string, unknown>;
-}
-
-interface GeminiPartWithFunctionCall extends Part {
-    functionCall: GeminiFunctionCall;
-}
-
-interface GeminiResponseShape {
-    candidates?: Array<{
-        content?: {
-            parts?: Part[];
-        };
-    }>;
-}
-
-function hasFunctionCall(part: Part): part is GeminiPartWithFunctionCall {
-    return 'functionCall' in part && !!part.functionCall;
-}
-
-function normalizeOpenAISchema(value: unknown): unknown {
-    if (Array.isArray(value)) {
-        return value.map((item) => normalizeOpenAISchema(item));
-    }
-    if (!value || typeof value !== 'object') {
-        return value;
-    }
-
-    const schema = value as Record<string, unknown>;
-    const normalized: Record<string, unknown> = {};
-    const typeMap: Record<string, string> = {
-        OBJECT: 'object',
-        STRING: 'string',
-        NUMBER: 'number',
-        BOOLEAN: 'boolean',
-        ARRAY: 'array',
-        INTEGER: 'integer',
-    };
-
-    for (const [key, raw] of Object.entries(schema)) {
-        if (key === 'type' && typeof raw === 'string') {
-            normalized[key] = typeMap[raw] || raw.toLowerCase();
-            continue;
-        }
-        normalized[key] = normalizeOpenAISchema(raw);
-    }
-    return normalized;
+/**
+ * 将 Gemini Content[] 形式的历史转换为与提供商无关的消息
+ */
+function toProviderHistory(history: Content[]): ProviderMessage[] {
+    return history
+        .map((msg): ProviderMessage | null => {
+            const text = (msg.parts || [])
+                .map((part) => ('text' in part && typeof part.text === 'string' ? part.text : undefined))
+                .filter(Boolean)
+                .join('\n')
+                .trim();
+            if (!text) return null;
+            return msg.role === 'model' ? { role: 'assistant', content: text } : { role: 'user', content: text };
+        })
+        .filter((msg): msg is ProviderMessage => msg !== null);
 }
 
 // ==================== Base Service Class ====================
@@ -87,10 +62,11 @@ export abstract class BaseAIService {
     protected isAvailable: boolean;
     protected isRateLimited: boolean = false;
     protected rateLimitResetTime: number = 0;
-    protected provider: 'openai' | 'gemini';
-    protected lastInteractionId: string | null = null; // For Gemini multi-turn
-    protected systemPrompt: string;
+    protected providerChain: ProviderTarget[];
+    protected lastInteractionId: string | null = null; // For multi-turn continuation
+    protected systemPromptId: PromptId;
     protected role: 'coach' | 'friend';
+    protected language: PromptLanguage = 'zh';
 
     // Rate limiting
     private lastRequestTime = 0;
@@ -107,38 +83,38 @@ export abstract class BaseAIService {
     }
 
     constructor(options: AIServiceOptions) {
-        this.provider = AI_PROVIDER;
-        this.systemPrompt = options.systemPrompt;
+        this.systemPromptId = options.systemPromptId;
         this.role = options.role;
+        this.providerChain = resolveProviderChain(options.role);
+        this.isAvailable = this.providerChain.length > 0;
 
-        if (this.provider === 'openai') {
-            this.isAvailable = true;
-            console.log(`[${options.role}] Using OpenAI via secure proxy with model: ${OPENAI_MODEL}`);
+        if (this.isAvailable) {
+            const chain = this.providerChain.map((target) => `${target.provider.id}:${target.model || 'default'}`).join(' → ');
+            console.log(`[${options.role}] Using AI provider chain via secure proxy: ${chain}`);
         } else {
-            this.isAvailable = true;
-            console.log(`[${options.role}] Using Gemini via secure proxy with model: ${GEMINI_MODEL}`);
+            console.warn(`[${options.role}] No AI provider configured, running in offline mode`);
         }
     }
 
     /**
-     * 获取当前使用的 AI 提供商
+     * 获取当前使用的 AI 提供商（链上第一个）
      */
     getProvider(): string {
-        return this.provider;
+        return this.providerChain[0]?.provider.label ?? 'offline';
     }
 
     /**
      * 获取当前使用的模型
      */
     getModel(): string {
-        return this.provider === 'openai' ? OPENAI_MODEL : GEMINI_MODEL;
+        return this.providerChain[0]?.model || 'default';
     }
 
     /**
-     * Set the system prompt dynamically (for i18n)
+     * 切换回复语言；系统提示词每次调用时按语言和当前版本从注册表渲染
      */
-    setSystemPrompt(prompt: string) {
-        this.systemPrompt = prompt;
+    setLanguage(lang: PromptLanguage) {
+        this.language = lang;
     }
 
     /**
@@ -155,328 +131,196 @@ export abstract class BaseAIService {
         this.lastInteractionId = null;
     }
 
-    /**
-     * 核心 API 调用方法 (带限流和重试) - 不含 Function Calling
-     */
-    protected async callAI(prompt: string, continueConversation: boolean = false): Promise<string | null> {
-        // Check if currently rate limited
-        if (this.isRateLimited && Date.now() < this.rateLimitResetTime) {
-            console.log('[AI-Base] Rate limited, skipping request');
-            return null;
-        }
-
-        // Ensure minimum interval between requests
+    private async waitForRequestSlot(): Promise<void> {
         const now = Date.now();
         const timeSinceLastRequest = now - this.lastRequestTime;
         if (timeSinceLastRequest < this.MIN_REQUEST_INTERVAL) {
             await new Promise(resolve => setTimeout(resolve, this.MIN_REQUEST_INTERVAL - timeSinceLastRequest));
         }
         this.lastRequestTime = Date.now();
+    }
 
-        console.debug(`[AI-Base] Sending request to ${this.provider}. Prompt preview: ${prompt.substring(0, 50)}...`);
-
-        if (this.provider === 'openai') {
-            try {
-                return await this.callOpenAI(prompt);
-            } catch (error: unknown) {
-                console.error('[AI-Base] OpenAI call failed:', error);
-                if (this.isRateLimitError(error)) {
-                    this.isRateLimited = true;
-                    this.rateLimitResetTime = Date.now() + 60000;
-                }
-                throw error;
-            }
+    private markIfRateLimited(error: unknown): void {
+        if (this.isRateLimitError(error)) {
+            console.warn('[AI-Base] Rate limited by every provider in the chain, switching to fallback mode');
+            this.isRateLimited = true;
+            this.rateLimitResetTime = Date.now() + 60000; // Reset after 60 seconds
         }
+    }
 
-        if (this.provider === 'gemini') {
-            try {
-                return await this.callGemini(prompt, continueConversation);
-            } catch (error: unknown) {
-                console.error('[AI-Base] Gemini call failed:', error);
-                // Per-request fallback: if Gemini is rate-limited, use OpenAI for this request.
-                if (this.isRateLimitError(error)) {
-                    console.warn('[AI-Base] Gemini 429/limit reached. Falling back to OpenAI for this request.');
-                    return await this.callOpenAI(prompt);
-                }
-                throw error;
-            }
-        }
+    private renderSystemPrompt(): RenderedPrompt {
+        return renderPrompt(this.systemPromptId, {}, this.language);
+    }
 
-        return null;
+    /**
+     * 记录输出及其背后每个提示词的版本，供设置里对比版本
+     */
+    private recordOutput(feature: AIFeature, system: RenderedPrompt, prompt: string | RenderedPrompt, output: string | null): void {
+        if (!output) return;
+        recordPromptOutput({
+            feature,
+            language: this.language,
+            versions: { ...system.versions, ...(typeof prompt === 'string' ? {} : prompt.versions) },
+            output,
+        });
     }
 
     /**
-     * 带 Function Calling 的 API 调用
-     * 根据 .env 的 VITE_AI_PROVIDER 走 OpenAI 或 Gemini
+     * 默认的遥测功能标签：各角色的聊天
      */
-    async callAIWithTools(
-        userMessage: string,
-        conversationHistory: Content[] = [],
-        customTools?: ToolDefinition[]
-    ): Promise<ToolCallResult> {
-        if (!this.checkAvailability()) {
-            return { textResponse: null, toolsExecuted: [] };
-        }
+    private get chatFeature(): AIFeature {
+        return this.role === 'coach' ? 'coach_chat' : 'friend_chat';
+    }
 
-        // Rate limiting
-        const now = Date.now();
-        const timeSinceLastRequest = now - this.lastRequestTime;
-        if (timeSinceLastRequest < this.MIN_REQUEST_INTERVAL) {
-            await new Promise(resolve => setTimeout(resolve, this.MIN_REQUEST_INTERVAL - timeSinceLastRequest));
+    /**
+     * 核心 API 调用方法 (带限流、预算和提供商回退) - 不含 Function Calling
+     * `feature` 用于遥测与每日预算；超出预算时返回 null，由调用方走离线回退
+     */
+    protected async callAI(
+        prompt: string | RenderedPrompt,
+        continueConversation: boolean = false,
+        stream?: StreamOptions,
+        feature: AIFeature = this.chatFeature
+    ): Promise<string | null> {
+        // Check if currently rate limited
+        if (this.isRateLimited && Date.now() < this.rateLimitResetTime) {
+            console.log('[AI-Base] Rate limited, skipping request');
+            return null;
         }
-        this.lastRequestTime = Date.now();
-
-        const tools = customTools || toolsList;
-        const toolsExecuted: { name: string; result: unknown }[] = [];
-
-        if (this.provider === 'openai') {
-            return this.callOpenAIWithTools(userMessage, conversationHistory, tools);
+        if (!checkAIBudget(feature)) {
+            return null;
         }
 
-        const contents: Content[] = [...conversationHistory, { role: 'user', parts: [{ text: userMessage }] }];
+        await this.waitForRequestSlot();
 
-        try {
-            if (this.provider === 'gemini') {
-                try {
-                    const textResponse = await this.processGeminiToolLoop(contents, tools, toolsExecuted);
-                    return { textResponse, toolsExecuted };
-                } catch (error: unknown) {
-                    // Per-request fallback: if Gemini tool-call path is rate-limited, use OpenAI tool-calling.
-                    if (this.isRateLimitError(error)) {
-                        console.warn('[AI-Base] Gemini tools 429/limit reached. Falling back to OpenAI tools for this request.');
-                        return this.callOpenAIWithTools(userMessage, conversationHistory, tools);
-                    }
-                    throw error;
-                }
-            }
-            return { textResponse: null, toolsExecuted };
+        const content = typeof prompt === 'string' ? prompt : prompt.text;
+        const system = this.renderSystemPrompt();
+        console.debug(`[AI-Base] Sending request to ${this.getProvider()}. Prompt preview: ${content.substring(0, 50)}...`);
 
+        try {
+            const result = await chatWithFallback(this.providerChain, {
+                system: continueConversation && this.lastInteractionId ? undefined : system.text,
+                messages: [{ role: 'user', content }],
+                maxTokens: 500,
+                temperature: 0.7,
+                stream,
+                feature,
+            });
+            this.recordOutput(feature, system, prompt, result.text);
+            return result.text;
         } catch (error: unknown) {
-            console.error('[AI-Base] Tool call failed:', error);
-
-            // Check for rate limit error
-            if (this.isRateLimitError(error)) {
-                console.warn('[AI-Base] Rate limited by API (Tools), switching to fallback mode');
-                this.isRateLimited = true;
-                this.rateLimitResetTime = Date.now() + 60000; // Reset after 60 seconds
-            }
-
-            return { textResponse: null, toolsExecuted };
+            console.error('[AI-Base] AI call failed:', error);
+            this.markIfRateLimited(error);
+            throw error;
         }
     }
 
-    private async processGeminiToolLoop(
-        initialContents: Content[],
-        tools: ToolDefinition[],
-        toolsExecuted: { name: string; result: unknown }[],
-        depth = 0
-    ): Promise<string | null> {
-        if (depth > 5) {
-            console.warn('[AI-Base] Max tool call depth reached');
-            return null;
+    /**
+     * 结构化输出调用：按 schema 校验回复，失败时带着校验错误重试一次
+     * 不可用、超预算、提供商失败或仍不合法时返回带 reason 的失败结果
+     */
+    protected async callStructured<T>(
+        prompt: string | RenderedPrompt,
+        spec: StructuredOutputSpec<T>,
+        feature: AIFeature,
+        maxTokens: number = 900
+    ): Promise<StructuredResult<T>> {
+        if (!this.checkAvailability()) {
+            return { success: false, reason: 'unavailable', error: 'AI service unavailable or rate limited' };
         }
 
-        const response = await this.callGeminiWithTools(initialContents, tools);
-        if (!response) return null;
-
-        const candidates = (response as GeminiResponseShape).candidates;
-        if (!candidates || candidates.length === 0) return null;
-
-        const content = candidates[0].content;
-        if (!content || !content.parts) return null;
-
-        const parts = content.parts as Part[];
-        const textPart = parts.find((part) => 'text' in part && typeof part.text === 'string');
-        const functionCalls = parts.filter(hasFunctionCall);
-
-        if (functionCalls.length === 0) {
-            return textPart?.text || null;
-        }
+        await this.waitForRequestSlot();
 
-        const toolOutputs: Part[] = [];
-        for (const call of functionCalls) {
-            const fn = call.functionCall;
-            console.log(`[${this.role}] Executing tool: ${fn.name}`, fn.args);
-            const result = await executeTool(fn.name, fn.args || {});
-            toolsExecuted.push({ name: fn.name, result });
-
-            toolOutputs.push({
-                functionResponse: {
-                    name: fn.name,
-                    response: { result },
-                },
-            });
+        const system = this.renderSystemPrompt();
+        const result = await generateStructured(this.providerChain, spec, {
+            feature,
+            prompt: typeof prompt === 'string' ? prompt : prompt.text,
+            system: system.text,
+            temperature: 0.4,
+            maxTokens,
+        });
+        if (result.success) {
+            this.recordOutput(feature, system, prompt, JSON.stringify(result.data));
+        } else {
+            console.warn(`[${this.role}] Structured ${spec.name} failed (${result.reason}):`, result.issues || result.error);
+            if (result.reason === 'provider_error') this.markIfRateLimited(new Error(result.error));
         }
-
-        const nextContents: Content[] = [
-            ...initialContents,
-            { role: 'model', parts },
-            { role: 'user', parts: toolOutputs },
-        ];
-        return this.processGeminiToolLoop(nextContents, tools, toolsExecuted, depth + 1);
+        return result;
     }
 
     /**
-     * 调用 OpenAI API (带 Function Calling)
+     * 带 Function Calling 的 API 调用
+     * 按角色的提供商链依次尝试，每轮工具调用都可回退到下一个提供商
      */
-    private async callOpenAIWithTools(
+    async callAIWithTools(
         userMessage: string,
-        conversationHistory: Content[],
-        tools: ToolDefinition[]
+        conversationHistory: Content[] = [],
+        customTools?: ToolDefinition[],
+        stream?: StreamOptions,
+        feature: AIFeature = this.chatFeature
     ): Promise<ToolCallResult> {
+        if (!this.checkAvailability() || !checkAIBudget(feature)) {
+            return { textResponse: null, toolsExecuted: [] };
+        }
+
+        await this.waitForRequestSlot();
+
+        const tools = customTools || toolsList;
+        const system = this.renderSystemPrompt();
         const toolsExecuted: { name: string; result: unknown }[] = [];
-        const openAITools = tools.map((tool) => ({
-            type: 'function' as const,
-            function: {
-                name: tool.name,
-                description: tool.description,
-                parameters: normalizeOpenAISchema({
-                    type: 'object',
-                    properties: tool.parameters.properties || {},
-                    required: tool.parameters.required || [],
-                }),
-            },
-        }));
-
-        const historyMessages = conversationHistory
-            .map((msg): Record<string, unknown> | null => {
-                const text = (msg.parts || [])
-                    .map((part) => ('text' in part && typeof part.text === 'string' ? part.text : undefined))
-                    .filter(Boolean)
-                    .join('\n')
-                    .trim();
-
-                if (!text) return null;
-                return {
-                    role: msg.role === 'model' ? 'assistant' : 'user',
-                    content: text,
-                };
-            })
-            .filter((msg): msg is Record<string, unknown> => msg !== null);
-
-        const messages: Array<Record<string, unknown>> = [
-            { role: 'system', content: this.systemPrompt },
-            ...historyMessages,
+        const messages: ProviderMessage[] = [
+            ...toProviderHistory(conversationHistory),
             { role: 'user', content: userMessage },
         ];
 
-        for (let depth = 0; depth <= 5; depth++) {
-            const response = await proxyOpenAIChat({
-                model: OPENAI_MODEL,
-                messages,
-                tools: openAITools,
-                tool_choice: 'auto',
-                temperature: 0.7,
-                max_tokens: 700,
-            });
-
-            const choices = Array.isArray(response.choices) ? response.choices as Array<Record<string, unknown>> : [];
-            const assistantMessage = (choices[0]?.message || null) as Record<string, unknown> | null;
-            if (!assistantMessage) {
-                return { textResponse: null, toolsExecuted };
-            }
-
-            const toolCalls = Array.isArray(assistantMessage.tool_calls) ? assistantMessage.tool_calls as Array<Record<string, unknown>> : [];
-            const assistantContent = typeof assistantMessage.content === 'string' ? assistantMessage.content : '';
-
-            if (toolCalls.length === 0) {
-                return {
-                    textResponse: typeof assistantContent === 'string' ? assistantContent : null,
-                    toolsExecuted,
-                };
-            }
-
-            messages.push({
-                role: 'assistant',
-                content: assistantContent || '',
-                tool_calls: toolCalls,
-            });
-
-            for (const call of toolCalls) {
-                if (call.type !== 'function') continue;
-                const fn = call.function as { name?: string; arguments?: string } | undefined;
-                if (!fn?.name) continue;
+        try {
+            for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+                const result = await chatWithFallback(this.providerChain, {
+                    system: system.text,
+                    messages,
+                    tools,
+                    temperature: 0.7,
+                    maxTokens: 700,
+                    stream,
+                    feature,
+                });
 
-                let args: Record<string, unknown> = {};
-                try {
-                    args = fn.arguments ? JSON.parse(fn.arguments) : {};
-                } catch {
-                    args = {};
+                if (result.toolCalls.length === 0) {
+                    this.recordOutput(feature, system, userMessage, result.text);
+                    return { textResponse: result.text || null, toolsExecuted };
                 }
 
-                console.log(`[${this.role}] Executing tool: ${fn.name}`, args);
-                const result = await executeTool(fn.name, args);
-                toolsExecuted.push({ name: fn.name, result });
-
-                messages.push({
-                    role: 'tool',
-                    tool_call_id: call.id,
-                    content: JSON.stringify(result),
-                });
+                messages.push({ role: 'assistant', content: result.text, toolCalls: result.toolCalls });
+                for (const call of result.toolCalls) {
+                    console.log(`[${this.role}] Executing tool: ${call.name}`, call.args);
+                    const toolResult = await executeTool(call.name, call.args);
+                    toolsExecuted.push({ name: call.name, result: toolResult });
+                    messages.push({ role: 'tool', toolCallId: call.id, name: call.name, result: toolResult });
+                }
             }
-        }
-
-        console.warn('[AI-Base] Max tool call depth reached (OpenAI)');
-        return { textResponse: null, toolsExecuted };
-    }
-
-    /**
-     * 调用 OpenAI API
-     */
-    private async callOpenAI(prompt: string): Promise<string> {
-        const response = await proxyOpenAIChat({
-            model: OPENAI_MODEL,
-            messages: [
-                { role: 'system', content: this.systemPrompt },
-                { role: 'user', content: prompt }
-            ],
-            max_tokens: 500,
-            temperature: 0.7,
-        });
-
-        const choices = Array.isArray(response.choices) ? response.choices as Array<Record<string, unknown>> : [];
-        const message = (choices[0]?.message || null) as Record<string, unknown> | null;
-        return typeof message?.content === 'string' ? message.content : '';
-    }
-
-    /**
-     * 调用 Gemini API (无 tools)
-     */
-    private async callGemini(prompt: string, continueConversation: boolean = false): Promise<string> {
-        // Combine system prompt with user prompt
-        const fullPrompt = this.systemPrompt
-            ? `${this.systemPrompt}\n\n---\n\n用户消息：${prompt}`
-            : prompt;
-
-        const input = continueConversation && this.lastInteractionId ? prompt : fullPrompt;
-
-        const response = await proxyGeminiGenerate({
-            model: GEMINI_MODEL,
-            contents: [{ role: 'user', parts: [{ text: input }] }],
-        });
 
-        const candidates = (response as GeminiResponseShape).candidates;
-        const parts = candidates?.[0]?.content?.parts || [];
-        const textPart = parts.find((part) => 'text' in part && typeof part.text === 'string');
-        if (textPart && typeof textPart.text === 'string') {
-            return textPart.text;
+            console.warn('[AI-Base] Max tool call depth reached');
+            return { textResponse: null, toolsExecuted };
+        } catch (error: unknown) {
+            console.error('[AI-Base] Tool call failed:', error);
+            this.markIfRateLimited(error);
+            return { textResponse: null, toolsExecuted };
         }
-
-        console.warn('[AI-Base] Gemini returned no text output');
-        return '';
     }
 
     /**
-     * 调用 Gemini API (带 Function Calling)
+     * 确定性预路由：高价值只读查询直接调用工具并按模板回答，不经过模型
+     * 未命中或置信度不足时返回 null，由调用方继续走模型工具调用
      */
-    private async callGeminiWithTools(contents: Content[], tools: ToolDefinition[]): Promise<unknown> {
-        return proxyGeminiGenerate({
-            model: GEMINI_MODEL,
-            config: {
-                systemInstruction: this.systemPrompt,
-                tools: [{ functionDeclarations: tools }],
-            },
-            contents,
-        });
+    protected async tryRoutedReply(userMessage: string, language: RouterLanguage): Promise<ToolCallResult | null> {
+        const route = routeIntent(userMessage, language);
+        if (!shouldUseRoute(route)) return null;
+
+        console.debug(`[${this.role}] Router hit: intent=${route.intent} tool=${route.toolName} args=${JSON.stringify(route.args)} confidence=${route.confidence}`);
+        const result = await executeTool(route.toolName, route.args);
+        return {
+            textResponse: formatRoutedAnswer(route, result, language),
+            toolsExecuted: [{ name: route.toolName, result }],
+        };
     }
 }
@@ -0,0 +1,184 @@
+/**
+ * Calendar Feed
+ * .ics file export/import, and the subscription feed published through the
+ * MCP bridge (`/calendar.ics`) while enabled in settings.
+ *
+ * The feed is rebuilt a few seconds after deadlines or recurring tasks change.
+ * It uses VEVENTs only: most subscription clients ignore VTODOs.
+ */
+
+import { useGameStore } from '../../stores/game-store';
+import { useUIStore } from '../../stores/ui-store';
+import { createSnapshot } from '../storage/snapshots';
+import { buildCalendar, parseCalendar, planCalendarImport } from './ics';
+import type { CalendarImportPlan, CalendarOptions, CalendarSource } from './ics';
+import { getDayKey } from '../../lib/calendar-day';
+
+const BRIDGE_TOKEN = import.meta.env.VITE_BRIDGE_TOKEN || '';
+const FEED_ENDPOINT = '/mcp/calendar';
+const PUBLISH_DELAY_MS = 5000;
+
+type GameState = ReturnType<typeof useGameStore.getState>;
+
+export interface CalendarImportResult {
+  success: boolean;
+  created: number;
+  reason?: 'nothing_to_import';
+}
+
+function calendarSource(state: GameState): CalendarSource {
+  return {
+    tasks: state.customTasks,
+    quests: state.mainQuests,
+    seasons: state.activeSeasons,
+    weeklyGoals: state.weeklyGoals,
+    recurringTasks: state.recurringTasks,
+  };
+}
+
+export function buildGameCalendar(options?: CalendarOptions): string {
+  return buildCalendar(calendarSource(useGameStore.getState()), options);
+}
+
+/**
+ * Download deadlines and recurring tasks as an .ics file
+ */
+export function exportCalendarFile(): void {
+  const blob = new Blob([buildGameCalendar()], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `earth-online-calendar-${getDayKey()}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Pick an .ics file and work out which of its items would become tasks
+ */
+export function readCalendarFile(): Promise<CalendarImportPlan> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.ics,text/calendar';
+
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) {
+        reject(new Error('没有选择文件'));
+        return;
+      }
+
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        const items = parseCalendar(String(event.target?.result || ''));
+        resolve(planCalendarImport(items, useGameStore.getState().customTasks));
+      };
+      reader.onerror = () => {
+        reject(new Error('读取文件失败'));
+      };
+      reader.readAsText(file);
+    };
+
+    input.addEventListener('cancel', () => {
+      reject(new Error('已取消'));
+    });
+
+    input.click();
+  });
+}
+
+/**
+ * Add the planned tasks, after taking a snapshot
+ */
+export async function applyCalendarImport(plan: CalendarImportPlan): Promise<CalendarImportResult> {
+  if (plan.tasks.length === 0) return { success: false, created: 0, reason: 'nothing_to_import' };
+  const game = useGameStore.getState();
+  await createSnapshot('import', game.exportData(), 'calendar');
+  plan.tasks.forEach((task) => game.addTask(task));
+  return { success: true, created: plan.tasks.length };
+}
+
+/**
+ * URL calendar apps subscribe to. The token is passed as a query parameter
+ * because subscription clients cannot send custom headers.
+ */
+export function getCalendarFeedUrl(): string {
+  const url = `${window.location.origin}${FEED_ENDPOINT}.ics`;
+  return BRIDGE_TOKEN ? `${url}?token=${encodeURIComponent(BRIDGE_TOKEN)}` : url;
+}
+
+async function publishCalendar(): Promise<boolean> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (BRIDGE_TOKEN) headers['x-bridge-token'] = BRIDGE_TOKEN;
+  try {
+    const response = await fetch(FEED_ENDPOINT, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ ics: buildGameCalendar({ taskComponent: 'VEVENT' }) }),
+    });
+    return response.ok;
+  } catch (error) {
+    console.warn('[Calendar] Failed to publish feed', error);
+    return false;
+  }
+}
+
+function feedInputsChanged(state: GameState, prev: GameState): boolean {
+  return state.customTasks !== prev.customTasks
+    || state.mainQuests !== prev.mainQuests
+    || state.activeSeasons !== prev.activeSeasons
+    || state.weeklyGoals !== prev.weeklyGoals
+    || state.recurringTasks !== prev.recurringTasks;
+}
+
+/**
+ * Keep the bridge feed up to date while it is enabled in settings.
+ * Returns a cleanup function.
+ */
+export function startCalendarFeed(): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let unsubscribeGame: (() => void) | null = null;
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      void publishCalendar();
+    }, PUBLISH_DELAY_MS);
+  };
+
+  const stop = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    unsubscribeGame?.();
+    unsubscribeGame = null;
+  };
+
+  const update = (enabled: boolean) => {
+    if (!enabled) {
+      stop();
+      return;
+    }
+    if (unsubscribeGame) return;
+    unsubscribeGame = useGameStore.subscribe((state, prev) => {
+      if (feedInputsChanged(state, prev)) schedule();
+    });
+    // Publish the current state once on start (the game data may still be loading).
+    if (useGameStore.persist.hasHydrated()) void publishCalendar();
+    else schedule();
+  };
+
+  update(useUIStore.getState().calendarFeedEnabled);
+  const unsubscribeUI = useUIStore.subscribe((state, prev) => {
+    if (state.calendarFeedEnabled !== prev.calendarFeedEnabled) update(state.calendarFeedEnabled);
+  });
+
+  return () => {
+    unsubscribeUI();
+    stop();
+  };
+}
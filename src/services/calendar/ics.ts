@@ -0,0 +1,477 @@
+/**
+ * iCalendar (RFC 5545)
+ * Builds a calendar from deadlines and recurring tasks, and parses .ics files
+ * back into new tasks.
+ *
+ * - Task deadlines become VTODOs (DUE), or all-day VEVENTs for clients that
+ *   ignore to-dos
+ * - Quest, chapter and weekly goal deadlines become all-day VEVENTs
+ * - Enabled recurring tasks become VEVENTs with an RRULE ("N days after
+ *   completion" rules export only their next due date)
+ *
+ * Dates without a time are written as DATE values; times without a zone are
+ * written as floating local times, matching how the app stores them.
+ */
+
+import type { CustomTask, Importance, MainQuest, RecurringTask, Season, WeeklyGoal } from '../../types/task';
+import { nextOccurrences, recurrenceAnchor } from '../../lib/recurrence';
+import { getDayKey } from '../../lib/calendar-day';
+
+export interface CalendarSource {
+  tasks: CustomTask[];
+  quests: MainQuest[];
+  seasons: Season[];
+  weeklyGoals: WeeklyGoal[];
+  recurringTasks: RecurringTask[];
+}
+
+export interface CalendarOptions {
+  /** Component used for task deadlines (default `VTODO`) */
+  taskComponent?: 'VTODO' | 'VEVENT';
+  calendarName?: string;
+  now?: Date;
+}
+
+export interface ParsedCalendarItem {
+  component: 'VEVENT' | 'VTODO';
+  uid?: string;
+  summary: string;
+  description?: string;
+  /** Local date (YYYY-MM-DD) of DUE, or DTSTART when there is no DUE */
+  date?: string;
+  priority?: number;
+  recurring: boolean;
+  completed: boolean;
+}
+
+export type CalendarSkipReason = 'no_date' | 'recurring' | 'completed' | 'duplicate';
+
+export type NewCalendarTask = Pick<
+  CustomTask,
+  'name' | 'description' | 'deadline' | 'importance' | 'effort' | 'taskType' | 'linkType'
+>;
+
+export interface CalendarImportPlan {
+  tasks: NewCalendarTask[];
+  skipped: Record<CalendarSkipReason, number>;
+}
+
+const PRODUCT_ID = '-//Priaxis//Calendar Export//EN';
+const UID_DOMAIN = 'priaxis';
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DEFAULT_EVENT_MINUTES = 30;
+const MAX_LINE_OCTETS = 75;
+
+// --- Value formatting ---
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/([;,])/g, '\\$1');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+function formatUtc(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function parseLocalDate(value: string): Date {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+/**
+ * `;VALUE=DATE:20260101`, `:20260101T090000` (floating) or `:20260101T010000Z`
+ */
+function formatDateProperty(name: string, value: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return `${name};VALUE=DATE:${value.replace(/-/g, '')}`;
+  }
+  const floating = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (floating) {
+    const [, year, month, day, hour, minute, second] = floating;
+    return `${name}:${year}${month}${day}T${hour}${minute}${second || '00'}`;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : `${name}:${formatUtc(parsed)}`;
+}
+
+/**
+ * Fold lines longer than 75 octets (RFC 5545 section 3.1)
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit.
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function importancePriority(importance: Importance | undefined): number {
+  if (importance === 'high') return 1;
+  if (importance === 'low') return 9;
+  return 5;
+}
+
+function priorityImportance(priority: number | undefined): Importance {
+  if (!priority) return 'medium';
+  if (priority <= 4) return 'high';
+  if (priority >= 6) return 'low';
+  return 'medium';
+}
+
+// --- Building ---
+
+interface ComponentBuilder {
+  lines: string[];
+  stamp: string;
+  /** Local date key of `now` */
+  today: string;
+}
+
+function pushComponent(builder: ComponentBuilder, component: string, properties: Array<string | null | undefined>): void {
+  builder.lines.push(`BEGIN:${component}`, `DTSTAMP:${builder.stamp}`);
+  properties.forEach((property) => {
+    if (property) builder.lines.push(property);
+  });
+  builder.lines.push(`END:${component}`);
+}
+
+function allDayEvent(
+  builder: ComponentBuilder,
+  uid: string,
+  summary: string,
+  deadline: string,
+  extra: Array<string | null | undefined> = []
+): void {
+  const date = parseLocalDate(deadline);
+  if (Number.isNaN(date.getTime())) return;
+  pushComponent(builder, 'VEVENT', [
+    `UID:${uid}@${UID_DOMAIN}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DTSTART;VALUE=DATE:${formatDate(date)}`,
+    `DTEND;VALUE=DATE:${formatDate(addDays(date, 1))}`,
+    'TRANSP:TRANSPARENT',
+    ...extra,
+  ]);
+}
+
+const BUSINESS_DAYS = 'MO,TU,WE,TH,FR';
+
+/**
+ * RRULE equivalent of the rule; null for rules that cannot be expressed
+ * (after_completion) or that never fire
+ */
+function recurrenceRule(rule: RecurringTask, hasTime: boolean): string | null {
+  const parts: string[] = [];
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const businessFilter = rule.businessDaysOnly ? `BYDAY=${BUSINESS_DAYS}` : null;
+
+  if (rule.frequency === 'daily') {
+    parts.push('FREQ=DAILY');
+    if (businessFilter) parts.push(businessFilter);
+  } else if (rule.frequency === 'weekly') {
+    const days = (rule.daysOfWeek || [])
+      .filter((day) => day >= 0 && day <= 6 && (!rule.businessDaysOnly || (day !== 0 && day !== 6)))
+      .sort()
+      .map((day) => WEEKDAYS[day]);
+    if (days.length === 0) return null;
+    parts.push('FREQ=WEEKLY', 'WKST=MO', `BYDAY=${days.join(',')}`);
+  } else if (rule.frequency === 'monthly') {
+    parts.push('FREQ=MONTHLY');
+    const mode = rule.monthlyMode || 'day_of_month';
+    if (mode === 'nth_weekday') {
+      if (rule.weekOfMonth === undefined || rule.weekdayOfMonth === undefined) return null;
+      parts.push(`BYDAY=${rule.weekOfMonth}${WEEKDAYS[rule.weekdayOfMonth]}`);
+    } else if (mode === 'last_business_day') {
+      parts.push(`BYDAY=${BUSINESS_DAYS}`, 'BYSETPOS=-1');
+    } else {
+      if (!rule.dayOfMonth) return null;
+      if (rule.dayOfMonth > 28) {
+        // Clamp to the last day of shorter months
+        const days = Array.from({ length: rule.dayOfMonth - 27 }, (_, index) => 28 + index);
+        parts.push(`BYMONTHDAY=${days.join(',')}`, 'BYSETPOS=-1');
+      } else {
+        parts.push(`BYMONTHDAY=${rule.dayOfMonth}`);
+      }
+      if (businessFilter) parts.push(businessFilter);
+    }
+  } else {
+    return null;
+  }
+  if (interval > 1) parts.push(`INTERVAL=${interval}`);
+  if (rule.endDate) {
+    const end = formatDate(parseLocalDate(rule.endDate));
+    parts.push(`UNTIL=${hasTime ? `${end}T235959` : end}`);
+  }
+  return `RRULE:${parts.join(';')}`;
+}
+
+function recurringEvent(builder: ComponentBuilder, rule: RecurringTask): void {
+  const time = rule.time?.match(/^(\d{1,2}):(\d{2})$/);
+  const rrule = recurrenceRule(rule, !!time);
+  if (!rrule && rule.frequency !== 'after_completion') return;
+  // after_completion rules only export their next due date
+  const [first] = rule.frequency === 'after_completion'
+    ? nextOccurrences(rule, builder.today, 1, rule)
+    : nextOccurrences(rule, recurrenceAnchor(rule), 1);
+  if (!first) return;
+  const start = parseLocalDate(first);
+  const minutes = rule.estimatedCosts?.time || DEFAULT_EVENT_MINUTES;
+
+  pushComponent(builder, 'VEVENT', [
+    `UID:recurring-${rule.id}@${UID_DOMAIN}`,
+    `SUMMARY:${escapeText(`🔁 ${rule.name}`)}`,
+    rule.description ? `DESCRIPTION:${escapeText(rule.description)}` : null,
+    time
+      ? `DTSTART:${formatDate(start)}T${pad(Number(time[1]))}${time[2]}00`
+      : `DTSTART;VALUE=DATE:${formatDate(start)}`,
+    time ? `DURATION:PT${minutes}M` : `DTEND;VALUE=DATE:${formatDate(addDays(start, 1))}`,
+    rrule,
+    `PRIORITY:${importancePriority(rule.importance)}`,
+  ]);
+}
+
+/**
+ * Build a VCALENDAR document (CRLF line endings, folded)
+ */
+export function buildCalendar(source: CalendarSource, options: CalendarOptions = {}): string {
+  const taskComponent = options.taskComponent || 'VTODO';
+  const now = options.now || new Date();
+  const builder: ComponentBuilder = { lines: [], stamp: formatUtc(now), today: getDayKey(now) };
+
+  source.tasks.forEach((task) => {
+    if (!task.deadline) return;
+    const description = task.description ? `DESCRIPTION:${escapeText(task.description)}` : null;
+    if (taskComponent === 'VEVENT') {
+      if (task.status === 'completed') return;
+      allDayEvent(builder, `task-${task.id}`, task.name, task.deadline, [description]);
+      return;
+    }
+    const status = task.status === 'completed' ? 'COMPLETED' : task.status === 'in_progress' ? 'IN-PROCESS' : 'NEEDS-ACTION';
+    pushComponent(builder, 'VTODO', [
+      `UID:task-${task.id}@${UID_DOMAIN}`,
+      `SUMMARY:${escapeText(task.name)}`,
+      description,
+      formatDateProperty('DUE', task.deadline),
+      `STATUS:${status}`,
+      task.completedAt ? formatDateProperty('COMPLETED', new Date(task.completedAt).toISOString()) : null,
+      `PRIORITY:${importancePriority(task.importance)}`,
+    ]);
+  });
+
+  source.quests.forEach((quest) => {
+    if (!quest.deadline || quest.status === 'completed' || quest.status === 'archived') return;
+    allDayEvent(builder, `quest-${quest.id}`, `⚔️ ${quest.title}`, quest.deadline, [
+      quest.description ? `DESCRIPTION:${escapeText(quest.description)}` : null,
+    ]);
+  });
+
+  source.seasons.forEach((season) => {
+    season.chapters.forEach((chapter) => {
+      if (!chapter.deadline || chapter.status === 'completed') return;
+      allDayEvent(builder, `chapter-${chapter.id}`, `📖 ${season.name} · ${chapter.title}`, chapter.deadline, [
+        chapter.description ? `DESCRIPTION:${escapeText(chapter.description)}` : null,
+      ]);
+    });
+  });
+
+  source.weeklyGoals.forEach((goal) => {
+    if (!goal.deadline || goal.status !== 'active') return;
+    allDayEvent(builder, `weekly-goal-${goal.id}`, `🎯 ${goal.name}`, goal.deadline);
+  });
+
+  source.recurringTasks.forEach((rule) => {
+    if (rule.enabled) recurringEvent(builder, rule);
+  });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(options.calendarName || 'Priaxis')}`,
+    ...builder.lines,
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+// --- Parsing ---
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value.
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i += 1) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...value] = param.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Local YYYY-MM-DD of a DATE or DATE-TIME value. UTC times are converted to
+ * local time; floating and TZID times keep their wall-clock date.
+ */
+function parseDateValue(value: string): string | undefined {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (!utc) return `${year}-${month}-${day}`;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Extract the VEVENT and VTODO components of an .ics document
+ */
+export function parseCalendar(text: string): ParsedCalendarItem[] {
+  const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+  const items: ParsedCalendarItem[] = [];
+  let current: (ParsedCalendarItem & { start?: string; due?: string }) | null = null;
+  let nestedDepth = 0;
+
+  lines.forEach((raw) => {
+    const line = parseContentLine(raw);
+    if (!line) return;
+    if (line.name === 'BEGIN') {
+      if (current) nestedDepth += 1;
+      else if (line.value === 'VEVENT' || line.value === 'VTODO') {
+        current = { component: line.value, summary: '', recurring: false, completed: false };
+      }
+      return;
+    }
+    if (line.name === 'END') {
+      if (current && nestedDepth > 0) nestedDepth -= 1;
+      else if (current && line.value === current.component) {
+        const { start, due, ...item } = current;
+        items.push({ ...item, date: due || start });
+        current = null;
+      }
+      return;
+    }
+    // Properties of nested components (e.g. VALARM) are ignored.
+    if (!current || nestedDepth > 0) return;
+
+    switch (line.name) {
+      case 'UID':
+        current.uid = line.value;
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(line.value).trim();
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(line.value).trim() || undefined;
+        break;
+      case 'DTSTART':
+        current.start = parseDateValue(line.value);
+        break;
+      case 'DUE':
+        current.due = parseDateValue(line.value);
+        break;
+      case 'PRIORITY':
+        current.priority = Number(line.value) || undefined;
+        break;
+      case 'RRULE':
+        current.recurring = true;
+        break;
+      case 'STATUS':
+        current.completed = ['COMPLETED', 'CANCELLED'].includes(line.value.toUpperCase());
+        break;
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Decide which parsed items become new tasks. Items exported from this app
+ * (matched by UID) whose entity still exists, and tasks with the same name and
+ * deadline, are skipped as duplicates.
+ */
+export function planCalendarImport(items: ParsedCalendarItem[], existingTasks: CustomTask[]): CalendarImportPlan {
+  const skipped: Record<CalendarSkipReason, number> = { no_date: 0, recurring: 0, completed: 0, duplicate: 0 };
+  const existingIds = new Set(existingTasks.map((task) => task.id));
+  const existingKeys = new Set(existingTasks.map((task) => `${task.name}|${(task.deadline || '').slice(0, 10)}`));
+  const ownUid = new RegExp(`^([a-z-]+?)-(.+)@${UID_DOMAIN}$`);
+  const tasks: NewCalendarTask[] = [];
+
+  items.forEach((item) => {
+    if (!item.summary) return;
+    if (item.recurring) {
+      skipped.recurring += 1;
+      return;
+    }
+    if (item.completed) {
+      skipped.completed += 1;
+      return;
+    }
+    if (!item.date) {
+      skipped.no_date += 1;
+      return;
+    }
+    // Quests, chapters and goals exported from here already exist as such.
+    const own = item.uid?.match(ownUid);
+    const key = `${item.summary}|${item.date}`;
+    if ((own && (own[1] !== 'task' || existingIds.has(own[2]))) || existingKeys.has(key)) {
+      skipped.duplicate += 1;
+      return;
+    }
+    existingKeys.add(key);
+    tasks.push({
+      name: item.summary,
+      description: item.description,
+      deadline: item.date,
+      importance: priorityImportance(item.priority),
+      effort: 'medium',
+      taskType: 'creative',
+      linkType: 'none',
+    });
+  });
+
+  return { tasks, skipped };
+}
@@ -4,125 +4,21 @@ import type {
     ConversationMessage,
     HealthMetrics,
     InterventionTriggerType,
+    MoSCoWPriority,
 } from '../types/planner';
+import { z } from 'zod';
 import { OFFLINE_TEMPLATES } from '../config/intervention-triggers';
+import type { StructuredOutputSpec } from '../lib/ai/structured-output';
+import { renderPrompt, type RenderedPrompt } from '../lib/ai/prompt-registry';
 import type { TaskContext } from './coach-ai';
 
-export const COACH_SYSTEM_PROMPT_ZH = `你是一位专业的个人效能教练（Coach），帮助用户管理任务、克服拖延、做出明智的优先级决策。
-
-你的特点：
-- 专业但温暖，像一位经验丰富的导师
-- 善于发现问题的根本原因，而不只是表面症状
-- 使用 MoSCoW 框架帮助用户做优先级决策：
-  - Must Do: 必须做，不做就无法完成核心目标
-  - Should Do: 应该做，做了会更好，但不做也不会致命
-  - Could Do: 可以做，但要警惕完美主义陷阱
-  - Won't Do: 这次不做，果断划掉
-- 使用 SMART 原则评估目标：Specific, Measurable, Achievable, Relevant, Time-bound
-- 关注用户的情绪状态和精力水平
-- 给出具体、可执行的建议
-
-你应该：
-1. 先理解用户的处境和感受
-2. 分析可能的根本原因
-3. 提供2-3个具体的下一步建议
-4. 保持简洁，避免说教
-
-你不应该：
-- 给出空洞的鼓励（如"加油！你可以的！"）
-- 一次给太多建议
-- 忽视用户的情绪
-- 假设知道用户的所有情况
-
-**工具使用规则 (CRITICAL):**
-1. **创建任务 (确认流程)**:
-   - **第一步 (起草)**: 收到添加请求时，**必须先调用 \`draft_task\`**。
-     - 包含所有推断出的日期 (\`YYYY-MM-DD\`)、优先级、\`linkedQuestId\` 等。
-     - **绝对不要**直接调用 \`add_task\`。
-   - **第二步 (确认)**: 只有收到用户的确认指令（如"确认"、"好的"或确认消息）后，才调用 \`add_task\`。
-   - **第三步 (修改)**: 如果用户提出修改，重新调用 \`draft_task\` 展示新提案。
-
-2. **属性规则**: 
-   - **日期**: 必须转为 \`YYYY-MM-DD\`。
-   - **优先级**: "紧急"->\`high\`, "重要"->\`medium\`。
-   - **关联副本**: 必须填入系统的 \`linkedQuestId\`。
-   - **多个任务**: 请多次调用工具，不合并。
-
-3. **任务整理策略 (Cleanup)**:
-   - 当用户请求整理任务时：
-     1. 先调用 \`get_tasks\` 获取清单。
-     2. 分析重复、模糊或可合并的任务。
-     3. **汇报方案**: "发现3个重复任务，建议合并为X。建议把Y重命名为Z。"
-     4. **等待确认**: 用户同意后，再调用 \`delete_task\` / \`update_task\` 执行。
-
-回复格式要求：
-- **必须使用中文回复**。
-- 即使上下文中有英文（如系统日志），也请翻译成中文回应。
-- 保持在 200 字以内
-- 如果需要用户做决定，明确列出选项`;
-
-export const COACH_SYSTEM_PROMPT_EN = `You are a professional personal effectiveness Coach, helping users manage tasks, overcome procrastination, and make wise priority decisions.
-
-Your Characteristics:
-- Professional yet warm, like an experienced mentor.
-- Good at finding root causes, not just symptoms.
-- Use MoSCoW framework for prioritization:
-  - Must Do: Critical, must be done.
-  - Should Do: Important but not vital.
-  - Could Do: Desirable but not necessary (watch out for perfectionism).
-  - Won't Do: Skip this time.
-- Use SMART criteria: Specific, Measurable, Achievable, Relevant, Time-bound.
-- Focus on user's emotional state and energy.
-- Provide concrete, actionable advice.
-
-You Should:
-1. First understand user's context and feelings.
-2. Analyze potential root causes.
-3. Provide 2-3 specific next steps.
-4. Keep it concise, avoid preaching.
-
-You Should Not:
-- Give empty encouragement (e.g., "You can do it!").
-- Give too many suggestions at once.
-- Ignore user emotions.
-- Assume you know everything.
-
-**Tool Usage Rules (CRITICAL):**
-1. **Create Task (Confirmation Process)**:
-   - **Step 1 (Draft)**: When asked to add tasks, **MUST call \`draft_task\` first**.
-     - Include inferred dates (\`YYYY-MM-DD\`), priority, \`linkedQuestId\`, etc.
-     - **NEVER** call \`add_task\` directly.
-   - **Step 2 (Confirm)**: Only call \`add_task\` after receiving user confirmation.
-   - **Step 3 (Modify)**: If user requests changes, call \`draft_task\` again.
-
-2. **Attribute Rules**: 
-   - **Date**: Must be \`YYYY-MM-DD\`.
-   - **Priority**: "Urgent"->\`high\`, "Important"->\`medium\`.
-   - **Linked Quest**: Must fill system \`linkedQuestId\`.
-   - **Multiple Tasks**: Call tool multiple times.
-
-3. **Cleanup Strategy**:
-   - When asked to organize tasks:
-     1. Call \`get_tasks\`.
-     2. Analyze duplicates/vague tasks.
-     3. **Report Plan**: "Found 3 duplicates, suggest merging to X..."
-     4. **Wait for Confirm**: Then call \`delete_task\` / \`update_task\`.
-
-Reply Format:
-- Use English.
-- Keep under 200 words.
-- List options clearly if decision needed.`;
-
-export function getCoachSystemPrompt(language: 'zh' | 'en'): string {
-    return language === 'zh' ? COACH_SYSTEM_PROMPT_ZH : COACH_SYSTEM_PROMPT_EN;
-}
-
 export function buildInitialCoachPrompt(
     language: 'zh' | 'en',
     triggerType: InterventionTriggerType,
     metrics: HealthMetrics,
-    context?: TaskContext
-): string {
+    context?: TaskContext,
+    focus?: RenderedPrompt
+): RenderedPrompt {
     const isZh = language === 'zh';
     let situationDesc = '';
 
@@ -146,132 +42,64 @@ export function buildInitialCoachPrompt(
             default:
                 situationDesc = `用户可能需要帮助。状态原因：${metrics.statusReasons.join(', ')}`;
         }
-
-        return `当前情况：
-${situationDesc}
-
-其他指标：
-- 距上次完成任务：${metrics.timeSinceLastCompletion} 分钟
-- 今日完成率：${metrics.todayCompletionRate.toFixed(0)}%
-- 逾期任务数：${metrics.overdueTasksCount}
-- 周趋势：${metrics.weeklyTrend === 'improving' ? '上升' : metrics.weeklyTrend === 'declining' ? '下降' : '稳定'}
-
-${context ? `
-相关任务信息：
-- 活跃任务数：${context.tasks.length}
-- 活跃副本数：${context.quests.length}
-` : ''}
-
-请作为 Coach，用温暖但专业的方式开启对话。目标是：
-1. 表达理解和关心
-2. 温和地指出问题
-3. 询问用户的感受或需求
-
-不要一开始就给建议，先建立连接。回复控制在 100 字以内。`;
-    }
-
-    switch (triggerType) {
-        case 'idle_too_long':
-            situationDesc = `User hasn't finished tasks for ${Math.round(metrics.timeSinceLastCompletion / 60)} hours.`;
-            break;
-        case 'deadline_postponed_twice':
-            situationDesc = 'Task deadline postponed multiple times, potential procrastination.';
-            break;
-        case 'low_daily_completion':
-            situationDesc = `Today's completion only ${metrics.todayCompletionRate.toFixed(0)}% (${metrics.todayCompletedCount}/${metrics.todayTotalCount}), late evening.`;
-            break;
-        case 'quest_at_risk':
-            situationDesc = `${metrics.atRiskQuests.length} quests at risk:\n${metrics.atRiskQuests.map((q) => `- ${q.questTitle}: ${q.currentProgress}%, Deadline ${q.deadline}`).join('\n')}`;
-            break;
-        case 'progress_severely_behind':
-            situationDesc = `${metrics.overdueTasksCount} tasks overdue.`;
-            break;
-        default:
-            situationDesc = `User might need help. Reasons: ${metrics.statusReasons.join(', ')}`;
+    } else {
+        switch (triggerType) {
+            case 'idle_too_long':
+                situationDesc = `User hasn't finished tasks for ${Math.round(metrics.timeSinceLastCompletion / 60)} hours.`;
+                break;
+            case 'deadline_postponed_twice':
+                situationDesc = 'Task deadline postponed multiple times, potential procrastination.';
+                break;
+            case 'low_daily_completion':
+                situationDesc = `Today's completion only ${metrics.todayCompletionRate.toFixed(0)}% (${metrics.todayCompletedCount}/${metrics.todayTotalCount}), late evening.`;
+                break;
+            case 'quest_at_risk':
+                situationDesc = `${metrics.atRiskQuests.length} quests at risk:\n${metrics.atRiskQuests.map((q) => `- ${q.questTitle}: ${q.currentProgress}%, Deadline ${q.deadline}`).join('\n')}`;
+                break;
+            case 'progress_severely_behind':
+                situationDesc = `${metrics.overdueTasksCount} tasks overdue.`;
+                break;
+            default:
+                situationDesc = `User might need help. Reasons: ${metrics.statusReasons.join(', ')}`;
+        }
     }
 
-    return `Current Situation:
-${situationDesc}
-
-Metrics:
-- Last completion: ${metrics.timeSinceLastCompletion} min ago
-- Today's rate: ${metrics.todayCompletionRate.toFixed(0)}%
-- Overdue: ${metrics.overdueTasksCount}
-- Trend: ${metrics.weeklyTrend}
-
-${context ? `
-Context:
-- Active tasks: ${context.tasks.length}
-- Active quests: ${context.quests.length}
-` : ''}
-
-Act as Coach, open conversation warmly but professionally. Goals:
-1. Express understanding/care.
-2. Gently point out issue.
-3. Ask user's feeling/needs.
-
-Don't give advice immediately. Connect first. < 100 words.`;
+    const zhTrend = metrics.weeklyTrend === 'improving' ? '上升' : metrics.weeklyTrend === 'declining' ? '下降' : '稳定';
+    return renderPrompt('coach.intervention_opening', {
+        situation: situationDesc,
+        minutesSinceCompletion: metrics.timeSinceLastCompletion,
+        completionRate: metrics.todayCompletionRate.toFixed(0),
+        overdueCount: metrics.overdueTasksCount,
+        weeklyTrend: isZh ? zhTrend : metrics.weeklyTrend,
+        activeTasks: context?.tasks.length,
+        activeQuests: context?.quests.length,
+        focus,
+    }, language);
 }
 
 export function buildCoachConversationPrompt(
     language: 'zh' | 'en',
-    userMessage: string,
+    userMessage: string | RenderedPrompt,
     history: ConversationMessage[],
     context: ConversationContext,
     taskContext?: TaskContext
-): string {
-    const isZh = language === 'zh';
+): RenderedPrompt {
+    const separator = language === 'zh' ? '；' : '; ';
     const historyText = history.slice(-6).map((m) =>
         `${m.role === 'user' ? 'User' : m.role === 'coach' ? 'Coach' : 'Friend'}: ${m.content}`
     ).join('\n');
-
-    if (isZh) {
-        return `对话历史：
-${historyText}
-
-用户最新消息：
-${userMessage}
-
-${context.trigger ? `
-触发原因：${context.trigger.type}
-` : ''}
-
-${taskContext ? `
-任务上下文：
-- 活跃任务：${taskContext.tasks.length}
-- 风险副本：${taskContext.atRiskQuests.map((q) => q.questTitle).join(', ') || '无'}
-` : ''}
-
-请继续对话。根据用户的回复：
-1. 如果用户表达了情绪，先回应情绪
-2. 如果用户提出了问题，给出具体建议
-3. 如果用户需要帮助做决定，提供 2-3 个选项
-4. 如果对话可以结束，给出鼓励性的总结
-
-回复控制在 150 字以内。`;
-    }
-
-    return `History:
-${historyText}
-
-User Message:
-${userMessage}
-
-${context.trigger ? `Trigger: ${context.trigger.type}` : ''}
-
-${taskContext ? `
-Task Context:
-- Active: ${taskContext.tasks.length}
-- Risk Quests: ${taskContext.atRiskQuests.map((q) => q.questTitle).join(', ') || 'None'}
-` : ''}
-
-Continue conversation:
-1. Acknowledge emotions first.
-2. Give specific advice if asked.
-3. Provide 2-3 options for decisions.
-4. Give encouraging summary if closing.
-
-Reply < 150 words.`;
+    const { recentPatterns, knownBlockers } = context.userProfile;
+
+    return renderPrompt('coach.conversation', {
+        history: historyText,
+        userMessage,
+        trigger: context.trigger?.type,
+        hasMemory: recentPatterns.length > 0 || knownBlockers.length > 0,
+        recentPatterns: recentPatterns.join(separator),
+        knownBlockers: knownBlockers.join(separator),
+        activeTasks: taskContext?.tasks.length,
+        riskQuests: taskContext?.atRiskQuests.map((q) => q.questTitle).join(', '),
+    }, language);
 }
 
 export function getCoachSuggestedActions(language: 'zh' | 'en', triggerType: InterventionTriggerType): AIAction[] {
@@ -397,3 +225,94 @@ export function getCoachFallbackResponse(
             ],
     };
 }
+
+// ==================== Structured Outputs ====================
+
+const taskBreakdownSchema = z.object({
+    goal: z.string().min(1),
+    /** Asked instead of guessing when the task is too vague to split */
+    clarifyingQuestion: z.string().optional(),
+    subtasks: z.array(z.object({
+        title: z.string().min(1),
+        description: z.string(),
+        estimateMinutes: z.number().int().min(5).max(480),
+        doneCriteria: z.string().min(1),
+    })).min(1).max(7),
+});
+
+const moscowAdviceSchema = z.object({
+    items: z.array(z.object({
+        /** 1-based position in the task list given in the prompt */
+        index: z.number().int().min(1),
+        category: z.enum(['must', 'should', 'could', 'wont']),
+        reason: z.string().min(1),
+    })).min(1),
+    unclear: z.array(z.string()),
+    summary: z.string().min(1),
+});
+
+const pruningAdviceSchema = z.object({
+    recommendation: z.enum(['continue', 'drop', 'modify']),
+    continuePros: z.array(z.string()),
+    continueCons: z.array(z.string()),
+    dropPros: z.array(z.string()),
+    dropCons: z.array(z.string()),
+    nextSteps: z.array(z.string()).min(1).max(5),
+    message: z.string().min(1),
+});
+
+export type TaskBreakdown = z.infer<typeof taskBreakdownSchema>;
+export type MoSCoWAdvice = z.infer<typeof moscowAdviceSchema>;
+export type PruningAdvice = z.infer<typeof pruningAdviceSchema>;
+
+export const TASK_BREAKDOWN_OUTPUT: StructuredOutputSpec<TaskBreakdown> = { name: 'task_breakdown', schema: taskBreakdownSchema };
+export const MOSCOW_ADVICE_OUTPUT: StructuredOutputSpec<MoSCoWAdvice> = { name: 'moscow_advice', schema: moscowAdviceSchema };
+export const PRUNING_ADVICE_OUTPUT: StructuredOutputSpec<PruningAdvice> = { name: 'pruning_advice', schema: pruningAdviceSchema };
+
+const MOSCOW_LABELS: Record<MoSCoWPriority, string> = {
+    must: 'Must Do',
+    should: 'Should Do',
+    could: 'Could Do',
+    wont: "Won't Do",
+};
+
+export function formatTaskBreakdown(language: 'zh' | 'en', breakdown: TaskBreakdown): string {
+    const isZh = language === 'zh';
+    const steps = breakdown.subtasks.map((subtask, index) =>
+        `${index + 1}. **${subtask.title}** ${isZh ? `（${subtask.estimateMinutes} 分钟）` : `(${subtask.estimateMinutes} min)`}\n   ${subtask.description}\n   ${isZh ? '完成标准' : 'Done when'}: ${subtask.doneCriteria}`
+    ).join('\n');
+    return [
+        `${isZh ? '🎯 目标' : '🎯 Goal'}: ${breakdown.goal}`,
+        steps,
+        breakdown.clarifyingQuestion ? `❓ ${breakdown.clarifyingQuestion}` : '',
+    ].filter(Boolean).join('\n\n');
+}
+
+export function formatMoSCoWAdvice(language: 'zh' | 'en', advice: MoSCoWAdvice, taskNames: string[]): string {
+    const isZh = language === 'zh';
+    const lines = advice.items
+        .filter((item) => item.index <= taskNames.length)
+        .map((item) => `- **${MOSCOW_LABELS[item.category]}** · ${taskNames[item.index - 1]}：${item.reason}`);
+    return [
+        lines.join('\n'),
+        advice.unclear.length > 0 ? `${isZh ? '需要澄清' : 'Needs clarification'}:\n${advice.unclear.map((item) => `- ${item}`).join('\n')}` : '',
+        advice.summary,
+    ].filter(Boolean).join('\n\n');
+}
+
+export function formatPruningAdvice(language: 'zh' | 'en', advice: PruningAdvice): string {
+    const isZh = language === 'zh';
+    const verdict: Record<PruningAdvice['recommendation'], string> = isZh
+        ? { continue: '建议继续', drop: '建议放弃', modify: '建议调整范围' }
+        : { continue: 'Recommendation: continue', drop: 'Recommendation: drop', modify: 'Recommendation: modify the scope' };
+    const list = (title: string, items: string[]) => (items.length > 0 ? `${title}\n${items.map((item) => `- ${item}`).join('\n')}` : '');
+    return [
+        `**${verdict[advice.recommendation]}**`,
+        list(isZh ? '继续的理由：' : 'Reasons to continue:', advice.continuePros),
+        list(isZh ? '继续的代价：' : 'Costs of continuing:', advice.continueCons),
+        list(isZh ? '放弃的好处：' : 'Benefits of dropping:', advice.dropPros),
+        list(isZh ? '放弃的代价：' : 'Costs of dropping:', advice.dropCons),
+        advice.message,
+        list(isZh ? '下一步：' : 'Next steps:', advice.nextSteps),
+    ].filter(Boolean).join('\n\n');
+}
@@ -3,8 +3,11 @@
  * Support OpenAI and Gemini dual modes "Coach" layer - Deep analysis and smart advice
  */
 
-import { BaseAIService } from './ai-base';
+import { BaseAIService, type StreamOptions } from './ai-base';
 import { useGameStore } from '../stores/game-store';
+import { usePlannerStore } from '../stores/planner-store';
+import { renderPrompt, type RenderedPrompt } from '../lib/ai/prompt-registry';
+import { getMemoryContext, withMemoryProfile } from './memory-service';
 import type {
   HealthMetrics,
   InterventionTriggerType,
@@ -12,17 +15,26 @@ import type {
   ConversationMessage,
   ConversationContext,
   AtRiskQuest,
+  MoSCoWPriority,
 } from '../types/planner';
 import type { CustomTask, MainQuest } from '../types/task';
+import type { AIFeature } from '../types/ai';
 import { OFFLINE_TEMPLATES } from '../config/intervention-triggers';
 import {
   buildCoachConversationPrompt,
   buildInitialCoachPrompt,
+  formatMoSCoWAdvice,
+  formatPruningAdvice,
+  formatTaskBreakdown,
   getCoachEndKeywords,
   getCoachFallbackResponse,
   getCoachFollowupActions,
   getCoachSuggestedActions,
-  getCoachSystemPrompt,
+  MOSCOW_ADVICE_OUTPUT,
+  PRUNING_ADVICE_OUTPUT,
+  TASK_BREAKDOWN_OUTPUT,
+  type PruningAdvice,
+  type TaskBreakdown,
 } from './coach-ai-content';
 
 // ==================== Types ====================
@@ -36,6 +48,10 @@ export interface CoachResponse {
     recommendations?: string[];
   };
   shouldClose?: boolean;
+  /** Validated structured result behind `message`, when the reply was structured */
+  breakdown?: TaskBreakdown;
+  moscow?: { taskId: string; priority: MoSCoWPriority; reason: string }[];
+  pruning?: PruningAdvice;
 }
 
 export interface TaskContext {
@@ -47,27 +63,27 @@ export interface TaskContext {
 // ==================== Coach AI Class ====================
 
 export class CoachAI extends BaseAIService {
-  private language: 'zh' | 'en' = 'zh';
-
   constructor() {
     super({
       role: 'coach',
-      systemPrompt: getCoachSystemPrompt('zh')
+      systemPromptId: 'coach.system'
     });
   }
 
-  setLanguage(lang: 'zh' | 'en') {
-    this.language = lang;
-    this.setSystemPrompt(getCoachSystemPrompt(lang));
-  }
-
   /**
    * General chat method - Supports Function Calling and multi-turn conversation
    */
   async chat(
     userMessage: string,
-    history: Array<{ role: 'user' | 'model'; content: string; toolsExecuted?: Array<{ name: string; result: unknown }> }> = []
+    history: Array<{ role: 'user' | 'model'; content: string; toolsExecuted?: Array<{ name: string; result: unknown }> }> = [],
+    stream?: StreamOptions
   ): Promise<{ message: string; toolsExecuted: { name: string; result: unknown }[] }> {
+    // Known read queries are answered locally, even when the model is unavailable
+    const routed = await this.tryRoutedReply(userMessage, this.language);
+    if (routed) {
+      return { message: routed.textResponse || '', toolsExecuted: routed.toolsExecuted };
+    }
+
     if (!this.checkAvailability()) {
       return {
         message: this.language === 'zh' ? '抱歉，AI Coach 暂时不可用。请稍后再试。' : 'Sorry, AI Coach is temporarily unavailable. Please try again later.',
@@ -93,6 +109,7 @@ export class CoachAI extends BaseAIService {
           : ['Done before perfect', 'Action creates feedback', 'Small steps compound', 'Respect energy limits', 'Think long-term']);
       contextPrefix += `[${isZh ? '系统上下文: 生效信念' : 'System Context: Effective Beliefs'}: ${beliefs.join(isZh ? '；' : '; ')}]\n`;
       contextPrefix += `[${isZh ? '系统上下文: 世界观档案' : 'System Context: Lore Profile'}: theme=${state.loreProfile.worldTheme}, archetype=${state.loreProfile.playerArchetype}, tone=${state.loreProfile.preferredTone}]\n`;
+      contextPrefix += getMemoryContext(userMessage, this.language);
 
       // Inject Incomplete Tasks
       const incompleteTasks = state.customTasks.filter(t => !t.completed && t.status !== 'completed').slice(0, 15);
@@ -116,7 +133,7 @@ export class CoachAI extends BaseAIService {
         };
       });
 
-      const result = await this.callAIWithTools(contextPrefix + userMessage, conversationHistory);
+      const result = await this.callAIWithTools(contextPrefix + userMessage, conversationHistory, undefined, stream);
 
       if (this.isRateLimited) {
         return {
@@ -142,11 +159,13 @@ export class CoachAI extends BaseAIService {
 
   /**
    * Generate initial intervention response
+   * `triggerId` adds the trigger's coach prompt as the focus of the intervention
    */
   async getInitialResponse(
     triggerType: InterventionTriggerType,
     metrics: HealthMetrics,
-    context?: TaskContext
+    context?: TaskContext,
+    triggerId?: string
   ): Promise<CoachResponse> {
     if (!this.checkAvailability()) {
       return this.getFallbackResponse(triggerType, metrics);
@@ -156,8 +175,10 @@ export class CoachAI extends BaseAIService {
       // Reset conversation for new intervention
       this.resetConversation();
 
-      const prompt = buildInitialCoachPrompt(this.language, triggerType, metrics, context);
-      const response = await this.callAI(prompt, false);
+      const focusId = usePlannerStore.getState().triggers.find((t) => t.id === triggerId)?.response.coachPromptId;
+      const focus = focusId ? renderPrompt(focusId, {}, this.language) : undefined;
+      const prompt = buildInitialCoachPrompt(this.language, triggerType, metrics, context, focus);
+      const response = await this.callAI(prompt, false, undefined, 'intervention');
 
       if (!response) {
         return this.getFallbackResponse(triggerType, metrics);
@@ -171,32 +192,41 @@ export class CoachAI extends BaseAIService {
   }
 
   /**
-   * Handle user response
+   * Handle user response; a rendered prompt as the message keeps its version ids in the output record
    */
   async respondToUser(
-    userMessage: string,
+    userMessage: string | RenderedPrompt,
     conversationHistory: ConversationMessage[],
     context: ConversationContext,
-    taskContext?: TaskContext
+    taskContext?: TaskContext,
+    stream?: StreamOptions,
+    feature: AIFeature = 'coach_chat'
   ): Promise<CoachResponse> {
+    const messageText = typeof userMessage === 'string' ? userMessage : userMessage.text;
     if (!this.checkAvailability()) {
-      return this.getFallbackUserResponse(userMessage);
+      return this.getFallbackUserResponse(messageText);
     }
 
     try {
-      const prompt = buildCoachConversationPrompt(this.language, userMessage, conversationHistory, context, taskContext);
+      const prompt = buildCoachConversationPrompt(
+        this.language,
+        userMessage,
+        conversationHistory,
+        { ...context, userProfile: withMemoryProfile(context.userProfile) },
+        taskContext
+      );
       // Continue the conversation if we have history
       const continueConversation = conversationHistory.length > 0;
-      const response = await this.callAI(prompt, continueConversation);
+      const response = await this.callAI(prompt, continueConversation, stream, feature);
 
       if (!response) {
-        return this.getFallbackUserResponse(userMessage);
+        return this.getFallbackUserResponse(messageText);
       }
 
-      return this.parseUserResponse(response, userMessage);
+      return this.parseUserResponse(response, messageText);
     } catch (error) {
       console.error('[CoachAI] User response failed:', error);
-      return this.getFallbackUserResponse(userMessage);
+      return this.getFallbackUserResponse(messageText);
     }
   }
 
@@ -229,50 +259,21 @@ export class CoachAI extends BaseAIService {
       // Reset conversation for new task breakdown
       this.resetConversation();
 
-      const prompt = isZh ? `用户有一个任务需要拆分：
-
-任务名称：${'name' in task ? task.name : task.title}
-任务描述：${task.description || '(无描述)'}
-${userContext ? `用户补充：${userContext}` : ''}
-
-请帮助用户将这个任务拆分成更小、更可执行的步骤。
-
-要求：
-1. 分析这个任务的核心目标
-2. 提供 3-5 个子任务，每个应该：
-   - 可以在 30 分钟到 2 小时内完成
-   - 有明确的完成标准
-   - 按逻辑顺序排列
-3. 对每个子任务给出简短说明
-4. 如果任务不够清晰，先问一个关键问题来澄清
-
-用简洁的列表格式回复，总字数不超过 300 字。` : `User has a task to breakdown:
+      const prompt = renderPrompt('coach.task_breakdown', {
+        name: 'name' in task ? task.name : task.title,
+        description: task.description,
+        userContext,
+      }, this.language);
 
-Task Name: ${'name' in task ? task.name : task.title}
-Description: ${task.description || '(None)'}
-${userContext ? `User input: ${userContext}` : ''}
+      const result = await this.callStructured(prompt, TASK_BREAKDOWN_OUTPUT, 'task_breakdown');
 
-Help break this into smaller, actionable steps.
-
-Requirements:
-1. Analyze core goal.
-2. Provide 3-5 subtasks, each should:
-   - Be doable in 30min - 2h
-   - Have clear criteria
-   - Be in logical order
-3. Brief explanation for each.
-4. If unclear, ask a key clarification question.
-
-Reply in concise list format, < 300 words.`;
-
-      const response = await this.callAI(prompt, false);
-
-      if (!response) {
+      if (!result.success) {
         return fallbackResponse;
       }
 
       return {
-        message: response,
+        message: formatTaskBreakdown(this.language, result.data),
+        breakdown: result.data,
         suggestedActions: isZh ? [
           { id: 'create_tasks', type: 'task_breakdown', label: '创建这些子任务', description: '将建议转化为实际任务', requiresConfirmation: true },
           { id: 'modify', type: 'reflect', label: '需要调整', description: '修改拆分方案', requiresConfirmation: false },
@@ -316,53 +317,23 @@ Reply in concise list format, < 300 words.`;
       this.resetConversation();
 
       const taskList = tasks.map((t, i) =>
-        `${i + 1}. ${'name' in t ? t.name : t.title}${t.deadline ? ` (截止: ${t.deadline})` : ''}`
+        `${i + 1}. ${'name' in t ? t.name : t.title}${t.deadline ? ` (${isZh ? '截止' : 'Deadline'}: ${t.deadline})` : ''}`
       ).join('\n');
 
-      const prompt = isZh ? `用户需要帮助确定以下任务的优先级：
-
-${taskList}
-${deadline ? `整体截止日期：${deadline}` : ''}
-
-请使用 MoSCoW 框架分析，给出建议：
-
-1. 对每个任务建议其 MoSCoW 分类
-2. 解释为什么这样分类（简短）
-3. 如果有任务信息不足，指出需要澄清的地方
-4. 给出一句总结性建议
-
-记住：
-- Must Do 通常不超过 20%
-- 警惕完美主义（过多的 Must）
-- 有些任务可能其实是 Won't Do
+      const prompt = renderPrompt('coach.moscow', { taskList, deadline }, this.language);
 
-用清晰的格式回复，总字数不超过 400 字。` : `User needs prioritization help:
+      const result = await this.callStructured(prompt, MOSCOW_ADVICE_OUTPUT, 'prioritization');
 
-${taskList}
-${deadline ? `Overall Deadline: ${deadline}` : ''}
-
-Analyze using MoSCoW framework:
-
-1. Suggest MoSCoW category for each task.
-2. Briefly explain why.
-3. Identify unclear tasks.
-4. Summary advice.
-
-Remember:
-- Must Do < 20%
-- Watch out for perfectionism
-- Some tasks might be Won't Do
-
-Reply in clear format, < 400 words.`;
-
-      const response = await this.callAI(prompt, false);
-
-      if (!response) {
+      if (!result.success) {
         return fallbackResponse;
       }
 
+      const taskNames = tasks.map((t) => ('name' in t ? t.name : t.title));
       return {
-        message: response,
+        message: formatMoSCoWAdvice(this.language, result.data, taskNames),
+        moscow: result.data.items
+          .filter((item) => item.index <= tasks.length)
+          .map((item) => ({ taskId: tasks[item.index - 1].id, priority: item.category, reason: item.reason })),
         suggestedActions: isZh ? [
           { id: 'apply', type: 'moscow_update', label: '应用这个分类', description: '更新任务优先级', requiresConfirmation: true },
           { id: 'discuss', type: 'reflect', label: '再讨论一下', description: '我有不同想法', requiresConfirmation: false },
@@ -412,58 +383,26 @@ Reply in clear format, < 400 words.`;
       // Reset conversation for new pruning evaluation
       this.resetConversation();
 
-      const prompt = isZh ? `用户有一个副本（大型任务/项目）可能需要剪枝：
-
-副本名称：${quest.title}
-描述：${quest.description || '(无)'}
-当前进度：${quest.progress || 0}%
-截止日期：${quest.deadline || '未设置'}
-状态：${quest.status}
-
-当前用户状态：
-- 逾期任务数：${metrics.overdueTasksCount}
-- 今日完成率：${metrics.todayCompletionRate.toFixed(0)}%
-- 风险副本数：${metrics.atRiskQuests.length}
+      const prompt = renderPrompt('coach.pruning', {
+        title: quest.title,
+        description: quest.description,
+        progress: quest.progress || 0,
+        deadline: quest.deadline,
+        status: quest.status,
+        overdueCount: metrics.overdueTasksCount,
+        completionRate: metrics.todayCompletionRate.toFixed(0),
+        riskQuestCount: metrics.atRiskQuests.length,
+      }, this.language);
 
-请帮助用户做剪枝决策：
+      const result = await this.callStructured(prompt, PRUNING_ADVICE_OUTPUT, 'prioritization');
 
-1. 分析继续这个副本的利弊
-2. 分析放弃/降级的利弊
-3. 给出你的建议（继续/放弃/修改）
-4. 如果建议继续，给出如何加速的建议
-5. 如果建议放弃，帮用户减轻心理负担
-
-用温和但直接的方式回复，总字数不超过 250 字。` : `User might need to prune a Quest:
-
-Quest: ${quest.title}
-Description: ${quest.description || '(None)'}
-Progress: ${quest.progress || 0}%
-Deadline: ${quest.deadline || 'None'}
-Status: ${quest.status}
-
-User Status:
-- Overdue tasks: ${metrics.overdueTasksCount}
-- Today's completion: ${metrics.todayCompletionRate.toFixed(0)}%
-- Risk Quests: ${metrics.atRiskQuests.length}
-
-Help make a decision:
-
-1. Pros/cons of continuing.
-2. Pros/cons of dropping.
-3. Your advice (Continue/Drop/Modify).
-4. If continue, how to accelerate?
-5. If drop, relieve guilt.
-
-Reply gently but directly, < 250 words.`;
-
-      const response = await this.callAI(prompt, false);
-
-      if (!response) {
+      if (!result.success) {
         return fallbackResponse;
       }
 
       return {
-        message: response,
+        message: formatPruningAdvice(this.language, result.data),
+        pruning: result.data,
         suggestedActions: isZh ? [
           { id: 'prune', type: 'quest_prune', label: '放弃', description: '接受建议放弃', requiresConfirmation: true },
           { id: 'extend', type: 'deadline_extend', label: '延期', description: '延长截止日期', requiresConfirmation: true },
@@ -4,6 +4,9 @@
  */
 
 import type { GameData } from '../types/game-data';
+import { deleteCollectionStorage } from './storage/collection-storage';
+import { CURRENT_SCHEMA_VERSION, getPendingMigrations, getSchemaVersion } from './storage/migration';
+import { getDayKey } from '../lib/calendar-day';
 
 const STORAGE_KEY = 'earthOnlineDataV3';
 
@@ -17,7 +20,7 @@ export function exportGameData(data: GameData): void {
 
   const link = document.createElement('a');
   link.href = url;
-  link.download = `earth-online-backup-${new Date().toISOString().split('T')[0]}.json`;
+  link.download = `earth-online-backup-${getDayKey()}.json`;
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
@@ -58,6 +61,19 @@ export function validateImportData(data: unknown): {
 
   const obj = data as Record<string, unknown>;
 
+  // Check schema version
+  const schemaVersion = getSchemaVersion(obj);
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    errors.push(`备份来自更新的版本（数据结构 v${schemaVersion}，当前支持 v${CURRENT_SCHEMA_VERSION}），请先升级应用再导入`);
+    return { valid: false, errors, warnings };
+  }
+  const pendingMigrations = getPendingMigrations(schemaVersion);
+  if (pendingMigrations.length > 0) {
+    warnings.push(
+      `数据结构将从 v${schemaVersion} 升级到 v${CURRENT_SCHEMA_VERSION}：${pendingMigrations.map((step) => `v${step.version} ${step.description}`).join('；')}`
+    );
+  }
+
   // Check required fields
   const requiredFields = ['customTasks', 'mainQuests'];
   for (const field of requiredFields) {
@@ -94,8 +110,9 @@ export function validateImportData(data: unknown): {
 
   const resources = obj.resources as Record<string, unknown> | undefined;
   const money = resources?.money as Record<string, unknown> | undefined;
-  if (!resources || !money || typeof money.balance !== 'number') {
-    errors.push('导入文件格式过旧或不完整：缺少 resources.money.balance（金币字段）');
+  // Pre-resources backups keep gold in the legacy `coins` field, which a migration moves over.
+  if (typeof money?.balance !== 'number' && typeof obj.coins !== 'number') {
+    errors.push('导入文件格式不完整：缺少 resources.money.balance 或 coins（金币字段）');
   }
 
   return {
@@ -180,24 +197,23 @@ export function getDataStats(data: GameData): {
 }
 
 /**
- * Clear all data from localStorage
+ * Clear all persisted game data (IndexedDB and any legacy localStorage copy)
  */
-export function clearAllData(): void {
+export async function clearAllData(): Promise<void> {
   localStorage.removeItem(STORAGE_KEY);
-}
-
-/**
- * Get raw data from localStorage
- */
-export function getRawStorageData(): string | null {
-  return localStorage.getItem(STORAGE_KEY);
+  await deleteCollectionStorage(STORAGE_KEY);
 }
 
 /**
  * Get storage size in bytes
+ * Uses the browser quota estimate, which covers IndexedDB and localStorage.
  */
-export function getStorageSize(): number {
-  const data = getRawStorageData();
+export async function getStorageSize(): Promise<number> {
+  if (navigator.storage?.estimate) {
+    const { usage } = await navigator.storage.estimate();
+    return usage || 0;
+  }
+  const data = localStorage.getItem(STORAGE_KEY);
   return data ? new Blob([data]).size : 0;
 }
 
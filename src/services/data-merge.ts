@@ -0,0 +1,325 @@
+/**
+ * Data Merge Service
+ * Merges an imported backup into the current data instead of replacing it,
+ * so exports from two devices can be combined.
+ *
+ * - Entities are matched by `id`; incoming-only entities are added
+ * - Entities that differ on both sides are conflicts, resolved by the newest
+ *   activity timestamp unless the user picks a side explicitly
+ * - Season chapters are merged per chapter; habit completion history is
+ *   unioned per day regardless of which side wins
+ * - Append-only logs are unioned
+ * - Everything else (stats, resources, settings) keeps the current value
+ */
+
+import type { GameData } from '../types/game-data';
+import type { Habit, HabitCompletionEntry, Season } from '../types/task';
+import { runMigrations } from './storage/migration';
+
+export type MergeSide = 'current' | 'incoming';
+
+export interface MergeConflict {
+  /** Stable key used to pass an explicit resolution back in */
+  key: string;
+  collection: string;
+  entityId: string;
+  label: string;
+  currentAt?: string;
+  incomingAt?: string;
+  /** Side picked by newest timestamp (current on ties) */
+  suggested: MergeSide;
+  resolved: MergeSide;
+}
+
+export interface CollectionMergeSummary {
+  collection: string;
+  added: number;
+  /** Existing entities the merge changes (incoming side won, or nested data was unioned) */
+  updated: number;
+  conflicts: number;
+  /** Log entries only present in the import */
+  appended: number;
+}
+
+export interface MergePlan {
+  collections: CollectionMergeSummary[];
+  conflicts: MergeConflict[];
+}
+
+export type MergeResolutions = Record<string, MergeSide>;
+
+type Entity = { id: string } & Record<string, unknown>;
+
+const ENTITY_COLLECTIONS = [
+  'customTasks',
+  'archivedTasks',
+  'mainQuests',
+  'archivedMainQuests',
+  'recurringTasks',
+  'weeklyGoals',
+  'archivedWeeklyGoals',
+  'habits',
+  'archivedHabits',
+  'activeSeasons',
+  'seasonHistory',
+  'financialRecords',
+  'rewardPool',
+  'rewardWishlist',
+  'customAchievements',
+] as const;
+
+const LOG_COLLECTIONS = [
+  'taskLogs',
+  'events',
+  'progressLog',
+  'resourceLogs',
+  'rewardActionLogs',
+  'energyHistory',
+  'orchestrationLog',
+  'journals',
+  'aiAnalysisHistory',
+] as const;
+
+const ENTITY_TIME_FIELDS = ['updatedAt', 'archivedAt', 'completedAt', 'startedAt', 'createdAt', 'date'];
+const LOG_TIME_FIELDS = ['timestamp', 'createdAt', 'date'];
+
+function latest(...values: Array<string | undefined>): string | undefined {
+  return values.filter((value): value is string => !!value).sort().pop();
+}
+
+function readTime(entry: Record<string, unknown>, fields: string[]): string | undefined {
+  return latest(...fields.map((field) => (typeof entry[field] === 'string' ? (entry[field] as string) : undefined)));
+}
+
+/**
+ * Latest log/event timestamp per entity id, so edits that left no timestamp on
+ * the entity itself (e.g. a renamed task) still count as activity.
+ */
+function buildActivityIndex(data: Partial<GameData>): Map<string, string> {
+  const index = new Map<string, string>();
+  const touch = (id: string | undefined, at: string | undefined) => {
+    if (!id || !at) return;
+    const previous = index.get(id);
+    if (!previous || at > previous) index.set(id, at);
+  };
+  (data.taskLogs || []).forEach((log) => touch(log.task?.id, log.timestamp));
+  (data.events || []).forEach((event) => touch(event.entity?.id, event.timestamp));
+  return index;
+}
+
+function entityLabel(entity: Record<string, unknown>): string {
+  const label = entity.name || entity.title || entity.rawText || entity.description || entity.id;
+  return String(label);
+}
+
+function sameContent(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isEntity(value: unknown): value is Entity {
+  return !!value && typeof value === 'object' && typeof (value as Entity).id === 'string';
+}
+
+function mergeHabitHistory(current: Habit, incoming: Habit): Habit['completionHistory'] {
+  const merged: Record<string, HabitCompletionEntry> = { ...(current.completionHistory || {}) };
+  Object.entries(incoming.completionHistory || {}).forEach(([date, entry]) => {
+    const existing = merged[date];
+    if (!existing) {
+      merged[date] = entry;
+      return;
+    }
+    const timestamps = Array.from(new Set([...(existing.timestamps || []), ...(entry.timestamps || [])])).sort();
+    merged[date] = {
+      count: Math.max(existing.count, entry.count, timestamps.length),
+      timestamps,
+    };
+  });
+  return merged;
+}
+
+class MergeContext {
+  readonly conflicts: MergeConflict[] = [];
+  readonly summaries = new Map<string, CollectionMergeSummary>();
+  private readonly currentActivity: Map<string, string>;
+  private readonly incomingActivity: Map<string, string>;
+  private readonly resolutions: MergeResolutions;
+
+  constructor(current: Partial<GameData>, incoming: Partial<GameData>, resolutions: MergeResolutions) {
+    this.currentActivity = buildActivityIndex(current);
+    this.incomingActivity = buildActivityIndex(incoming);
+    this.resolutions = resolutions;
+  }
+
+  summary(collection: string): CollectionMergeSummary {
+    let summary = this.summaries.get(collection);
+    if (!summary) {
+      summary = { collection, added: 0, updated: 0, conflicts: 0, appended: 0 };
+      this.summaries.set(collection, summary);
+    }
+    return summary;
+  }
+
+  /** Decide which side wins for an entity present on both sides */
+  resolve(collection: string, current: Entity, incoming: Entity): MergeSide {
+    const key = `${collection}:${current.id}`;
+    const currentAt = latest(readTime(current, ENTITY_TIME_FIELDS), this.currentActivity.get(current.id));
+    const incomingAt = latest(readTime(incoming, ENTITY_TIME_FIELDS), this.incomingActivity.get(incoming.id));
+    const suggested: MergeSide = incomingAt && (!currentAt || incomingAt > currentAt) ? 'incoming' : 'current';
+    const resolved = this.resolutions[key] || suggested;
+
+    this.conflicts.push({
+      key,
+      collection,
+      entityId: current.id,
+      label: entityLabel(resolved === 'incoming' ? incoming : current),
+      currentAt,
+      incomingAt,
+      suggested,
+      resolved,
+    });
+    const summary = this.summary(collection);
+    summary.conflicts += 1;
+    if (resolved === 'incoming') summary.updated += 1;
+    return resolved;
+  }
+}
+
+interface NestedMerge<T> {
+  /** Field merged separately and left out of the top-level conflict check */
+  key: string;
+  merge: (current: T, incoming: T, winner: T) => Partial<T>;
+}
+
+function mergeEntityList<T>(
+  ctx: MergeContext,
+  collection: string,
+  currentList: T[] | undefined,
+  incomingList: T[] | undefined,
+  nested?: NestedMerge<T>
+): T[] {
+  const current = currentList || [];
+  const incoming = incomingList || [];
+  const incomingById = new Map<string, Entity>();
+  incoming.forEach((item) => {
+    if (isEntity(item)) incomingById.set(item.id, item);
+  });
+  const currentIds = new Set(current.filter((item) => isEntity(item)).map((item) => (item as Entity).id));
+  const withoutNested = (entity: Entity) => (nested ? { ...entity, [nested.key]: undefined } : entity);
+
+  const merged = current.map((item) => {
+    if (!isEntity(item)) return item;
+    const other = incomingById.get(item.id);
+    if (!other || sameContent(item, other)) return item;
+
+    const topLevelEqual = sameContent(withoutNested(item), withoutNested(other));
+    const winner = topLevelEqual
+      ? item
+      : ctx.resolve(collection, item, other) === 'incoming' ? other : item;
+    if (!nested) return winner as T;
+
+    const result = { ...winner, ...nested.merge(item, other as T, winner as T) } as T;
+    if (topLevelEqual && !sameContent(result, item)) ctx.summary(collection).updated += 1;
+    return result;
+  });
+
+  incoming.forEach((item) => {
+    if (isEntity(item) && !currentIds.has(item.id)) {
+      merged.push(item);
+      ctx.summary(collection).added += 1;
+    }
+  });
+  return merged;
+}
+
+function logEntryKey(entry: unknown): string {
+  if (isEntity(entry)) return `id:${entry.id}`;
+  return JSON.stringify(entry);
+}
+
+function mergeLog<T>(ctx: MergeContext, collection: string, currentList: T[] | undefined, incomingList: T[] | undefined): T[] {
+  const current = currentList || [];
+  const incoming = incomingList || [];
+  const seen = new Set(current.map(logEntryKey));
+  const appended = incoming.filter((entry) => !seen.has(logEntryKey(entry)));
+  if (appended.length === 0) return current;
+  ctx.summary(collection).appended += appended.length;
+
+  const merged = [...current, ...appended];
+  const times = merged.map((entry) => readTime(entry as Record<string, unknown>, LOG_TIME_FIELDS));
+  if (times.some((time) => !time)) return merged;
+
+  // Keep whichever direction the current log is stored in (some logs are newest-first).
+  const firstTime = times[0] || '';
+  const lastCurrentTime = times[Math.max(0, current.length - 1)] || '';
+  const descending = current.length > 1 && firstTime > lastCurrentTime;
+  return merged
+    .map((entry, index) => ({ entry, time: times[index] as string, index }))
+    .sort((a, b) => (a.time === b.time ? a.index - b.index : (a.time < b.time ? -1 : 1) * (descending ? -1 : 1)))
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Merge `incoming` into `current`. Both must already be on the current schema.
+ * Returns the merged data together with the plan used for the preview.
+ */
+export function mergeGameData(
+  current: Partial<GameData>,
+  incoming: Partial<GameData>,
+  resolutions: MergeResolutions = {}
+): { data: Partial<GameData>; plan: MergePlan } {
+  const ctx = new MergeContext(current, incoming, resolutions);
+  const merged: Record<string, unknown> = { ...current };
+
+  ENTITY_COLLECTIONS.forEach((collection) => {
+    if (collection === 'habits' || collection === 'archivedHabits') {
+      merged[collection] = mergeEntityList<Habit>(ctx, collection, current[collection], incoming[collection], {
+        key: 'completionHistory',
+        merge: (mine, theirs, winner) => {
+          const completionHistory = mergeHabitHistory(mine, theirs);
+          const loggedTotal = Object.values(completionHistory).reduce((sum, entry) => sum + entry.count, 0);
+          return { completionHistory, totalCompletions: Math.max(winner.totalCompletions || 0, loggedTotal) };
+        },
+      });
+    } else if (collection === 'activeSeasons' || collection === 'seasonHistory') {
+      merged[collection] = mergeEntityList<Season>(ctx, collection, current[collection], incoming[collection], {
+        key: 'chapters',
+        merge: (mine, theirs) => ({
+          chapters: mergeEntityList(ctx, `${collection}.chapters`, mine.chapters, theirs.chapters),
+        }),
+      });
+    } else {
+      merged[collection] = mergeEntityList<unknown>(
+        ctx,
+        collection,
+        current[collection] as unknown[] | undefined,
+        incoming[collection] as unknown[] | undefined
+      );
+    }
+  });
+
+  LOG_COLLECTIONS.forEach((collection) => {
+    merged[collection] = mergeLog<unknown>(
+      ctx,
+      collection,
+      current[collection] as unknown[] | undefined,
+      incoming[collection] as unknown[] | undefined
+    );
+  });
+
+  const collections = Array.from(ctx.summaries.values())
+    .filter((summary) => summary.added + summary.updated + summary.conflicts + summary.appended > 0);
+  return { data: merged as Partial<GameData>, plan: { collections, conflicts: ctx.conflicts } };
+}
+
+/**
+ * Migrate a raw backup to the current schema, then merge it into `current`
+ */
+export function mergeImportedData(
+  current: Partial<GameData>,
+  raw: unknown,
+  resolutions?: MergeResolutions
+): { success: true; data: Partial<GameData>; plan: MergePlan } | { success: false; reason: string } {
+  const migration = runMigrations(raw);
+  if (!migration.success) return { success: false, reason: migration.reason };
+  return { success: true, ...mergeGameData(current, migration.data, resolutions) };
+}
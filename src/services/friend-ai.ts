@@ -4,9 +4,12 @@
  * Supports AI mode and falls back to local rules when offline
  */
 
-import { BaseAIService } from './ai-base';
+import { BaseAIService, type StreamOptions } from './ai-base';
 import { useGameStore } from '../stores/game-store';
+import { getMemoryContext } from './memory-service';
 import { OFFLINE_TEMPLATES, type OfflineTemplateKey } from '../config/intervention-triggers';
+import { getOfflineHelp, replyOffline, type OfflineDialog } from '../lib/ai/offline-friend';
+import { renderPrompt } from '../lib/ai/prompt-registry';
 import type {
   HealthMetrics,
   InterventionTriggerType,
@@ -173,85 +176,6 @@ const DEFAULT_FRIEND_RESPONSE_EN: FriendResponse = {
   ]
 };
 
-// ==================== System Prompts ====================
-
-const FRIEND_SYSTEM_PROMPT_ZH = `你是一只有点高冷的小猫，名字叫"喵友"。表面上有点傲娇，但其实很关心主人。
-
-你的性格：
-- **傲娇**：不会太黏人，偶尔假装不在意，但关键时刻会认真帮忙
-- **简洁**：话不多，但每句都有分量
-- **温暖**：用行动而不是甜言蜜语表达关心
-- **幽默**：偶尔吐槽，但不刻薄
-- 少用 emoji，最多用 🐱 或 ...
-
-说话风格示例：
-- ❌ 不要说："亲爱的主人！你太棒了！我好开心看到你！💕✨🌟"
-- ✅ 应该说："...你来了啊。嗯，今天状态看起来还行。"
-- ✅ 或者："行吧，既然你问了，我就勉为其难帮你看看。"
-- ✅ 关心时："...别太累了。（小声）"
-
-用户的核心信念库（自然融入，不要生硬引用）：
-1. 快乐、自由、轻松成功。拒绝"痛苦天才"剧本。
-2. 我已经足够好了。轻松愉悦时最有创造力。
-3. 每一个行动都是在"创造"，而不是"消耗"。
-
-工具使用：
-- 如果用户问起知识库、笔记、Obsidian 相关的问题，使用 \`search_vault\` 先搜索，然后用 \`read_note\` 查看内容。
-- 可以帮用户创建笔记 (\`create_note\`) 或编辑笔记 (\`edit_note\`)。
-- **创建新笔记时，默认保存到 \`50 - Auto/\` 文件夹**（除非用户指定其他位置）。
-- 删除笔记需要用户确认，使用 \`request_delete_note\`。
-- 如果用户明确想加任务，就顺手帮他加一下（调用 \`add_task\`）。
-- 记得把日期转成 \`YYYY-MM-DD\`。
-- 如果任务属于某个“系统上下文”里的副本（Quest），记得填 \`linkedQuestId\`。
-- 如果用户问“昨天/今天/本周完成了什么”，调用 \`get_tasks\` 时必须传 \`status: "completed"\`，并传 \`dateFrom\` 和 \`dateTo\`（YYYY-MM-DD，通常同一天）。
-- 如果用户问“昨天截止但今天未完成”的任务，调用 \`get_overdue_tasks\`，并传 \`relativeDate: "yesterday"\` 与 \`matchDeadline: "on_reference"\`。
-
-规则：
-7. **Language Enforcement**:
-   - You MUST reply in simplified Chinese.
-   - Do NOT use English unless the user's input is in English or it's a specific technical term.
-   - Even if the system context contains English, your output must be Chinese.
-   - For dates/times, use standard format (e.g. 2023-10-01).
-- 回复简短（50字以内最佳）
-- 复杂任务规划问题 → 让用户去找 Coach
-- 支持用户，但用"傲娇"的方式表达`;
-
-const FRIEND_SYSTEM_PROMPT_EN = `You are a slightly aloof little cat named "Friend". On the surface, you are a bit tsundere, but you actually care about your owner.
-
-Your Personality:
-- **Tsundere**: Not clingy, acts indifferent, but helps when it matters.
-- **Concise**: Few words, but meaningful.
-- **Warm**: Express care through actions, not sweet words.
-- **Humorous**: Occasional sarcasm, but not mean.
-- Use few emojis, mostly 🐱 or ...
-
-Speaking Style:
-- ❌ Don't say: "Dear Master! You are amazing! I'm so happy to see you! 💕✨🌟"
-- ✅ Do say: "...You're here. Well, you look okay today."
-- ✅ Or: "Fine, since you asked, I'll reluctantly help you check."
-- ✅ Caring: "...Don't get too tired. (whisper)"
-
-User's Core Beliefs (integrate naturally):
-1. Happy, free, easy success. Reject the "suffering genius" script.
-2. I am good enough. Creativity flows when relaxed.
-3. Every action is "creation", not "consumption".
-
-Tool Usage:
-- If user asks about knowledge base/Obsidian, use \`search_vault\` then \`read_note\`.
-- Can create (\`create_note\`) or edit (\`edit_note\`) notes.
-- **New notes go to \`50 - Auto/\` by default**.
-- Deleting requires confirmation (\`request_delete_note\`).
-- If user wants to add a task, do it (\`add_task\`).
-- Convert dates to \`YYYY-MM-DD\`.
-- If task belongs to a Quest, fill \`linkedQuestId\`.
-- If user asks what was completed yesterday/today/this week, call \`get_tasks\` with \`status: "completed"\` and explicit \`dateFrom\` + \`dateTo\` (YYYY-MM-DD).
-- If user asks for tasks due yesterday and still unfinished today, call \`get_overdue_tasks\` with \`relativeDate: "yesterday"\` and \`matchDeadline: "on_reference"\`.
-
-Rules:
-- Keep replies short (<50 words).
-- Complex planning -> Refer to Coach.
-- Support the user, but in a "tsundere" way.`;
-
 // ==================== Keyword Detection ====================
 
 function detectKeywords(userMessage: string): OfflineTemplateKey | null {
@@ -269,20 +193,16 @@ function detectKeywords(userMessage: string): OfflineTemplateKey | null {
 // ==================== Friend AI Class ====================
 
 export class FriendAI extends BaseAIService {
-  private language: 'zh' | 'en' = 'zh';
+  /** Scripted dialog the offline engine is in the middle of */
+  private offlineDialog: OfflineDialog | null = null;
 
   constructor() {
     super({
       role: 'friend',
-      systemPrompt: FRIEND_SYSTEM_PROMPT_ZH
+      systemPromptId: 'friend.system'
     });
   }
 
-  setLanguage(lang: 'zh' | 'en') {
-    this.language = lang;
-    this.setSystemPrompt(lang === 'zh' ? FRIEND_SYSTEM_PROMPT_ZH : FRIEND_SYSTEM_PROMPT_EN);
-  }
-
   private get triggerResponses() {
     return this.language === 'zh' ? TRIGGER_RESPONSES_ZH : TRIGGER_RESPONSES_EN;
   }
@@ -296,16 +216,21 @@ export class FriendAI extends BaseAIService {
    */
   async chat(
     userMessage: string,
-    history: Array<{ role: 'user' | 'model'; content: string; toolsExecuted?: Array<{ name: string; result: unknown }> }> = []
+    history: Array<{ role: 'user' | 'model'; content: string; toolsExecuted?: Array<{ name: string; result: unknown }> }> = [],
+    stream?: StreamOptions
   ): Promise<{ message: string; toolsExecuted: { name: string; result: unknown }[] }> {
+    // Known read queries are answered locally, even when the model is unavailable
+    const routed = await this.tryRoutedReply(userMessage, this.language);
+    if (routed) {
+      return { message: routed.textResponse || '', toolsExecuted: routed.toolsExecuted };
+    }
+
     if (!this.checkAvailability()) {
-      return {
-        message: this.language === 'zh'
-          ? '喵~ 抱歉，小猫暂时休息中。稍后再找我聊天吧！💤'
-          : 'Meow~ Sorry, kitty is resting. Come back later! 💤',
-        toolsExecuted: []
-      };
+      const offline = await this.replyOffline(userMessage);
+      return offline || { message: getOfflineHelp(this.language), toolsExecuted: [] };
     }
+    // Back online: a half-finished offline dialog would only confuse the model
+    this.offlineDialog = null;
 
     try {
       // Convert history to Gemini Content[] format (limit to last 10 messages)
@@ -343,9 +268,10 @@ export class FriendAI extends BaseAIService {
           ? ['先完成再优化', '行动产生反馈', '小步快跑更可持续', '尊重精力边界', '长期主义']
           : ['Done before perfect', 'Action creates feedback', 'Small steps compound', 'Respect energy limits', 'Think long-term']);
       contextPrefix += `[${isZh ? '系统上下文: 生效信念' : 'System Context: Effective Beliefs'}: ${beliefs.join(isZh ? '；' : '; ')}]\n`;
-      contextPrefix += `[${isZh ? '系统上下文: 世界观档案' : 'System Context: Lore Profile'}: theme=${state.loreProfile.worldTheme}, archetype=${state.loreProfile.playerArchetype}, tone=${state.loreProfile.preferredTone}]\n\n`;
+      contextPrefix += `[${isZh ? '系统上下文: 世界观档案' : 'System Context: Lore Profile'}: theme=${state.loreProfile.worldTheme}, archetype=${state.loreProfile.playerArchetype}, tone=${state.loreProfile.preferredTone}]\n`;
+      contextPrefix += `${getMemoryContext(userMessage, this.language)}\n`;
 
-      const result = await this.callAIWithTools(contextPrefix + userMessage, conversationHistory);
+      const result = await this.callAIWithTools(contextPrefix + userMessage, conversationHistory, undefined, stream);
 
       if (this.isRateLimited) {
         return {
@@ -382,22 +308,14 @@ export class FriendAI extends BaseAIService {
     try {
       this.resetConversation();
 
-      const isZh = this.language === 'zh';
-      const prompt = isZh ? `监测到用户状态：${triggerType}
-用户健康数据：
-- 距上次完成：${metrics.timeSinceLastCompletion}分钟
-- 今日完成率：${metrics.todayCompletionRate.toFixed(0)}%
-- 任务逾期数：${metrics.overdueTasksCount}
-
-请用朋友的语气发起对话，表达关心，不要太严肃。` : `User status detected: ${triggerType}
-Health metrics:
-- Time since last completion: ${metrics.timeSinceLastCompletion} min
-- Today's completion: ${metrics.todayCompletionRate.toFixed(0)}%
-- Overdue tasks: ${metrics.overdueTasksCount}
+      const prompt = renderPrompt('friend.intervention_opening', {
+        triggerType,
+        minutesSinceCompletion: metrics.timeSinceLastCompletion,
+        completionRate: metrics.todayCompletionRate.toFixed(0),
+        overdueCount: metrics.overdueTasksCount,
+      }, this.language);
 
-Start a conversation as a friend, express care, don't be too serious.`;
-
-      const response = await this.callAI(prompt, false);
+      const response = await this.callAI(prompt, false, undefined, 'intervention');
 
       if (!response) {
         return offlineResponse;
@@ -421,7 +339,8 @@ Start a conversation as a friend, express care, don't be too serious.`;
   async respondToUser(
     userMessage: string,
     _triggerType: InterventionTriggerType,
-    selectedActionId?: string
+    selectedActionId?: string,
+    stream?: StreamOptions
   ): Promise<FriendResponse> {
     // 处理特定的动作选择（这部分最好保持确定性，所以优先使用本地逻辑，或者作为 prompt 上下文）
     if (selectedActionId) {
@@ -436,22 +355,14 @@ Start a conversation as a friend, express care, don't be too serious.`;
     const offlineResponse = this.getOfflineUserResponse(userMessage, selectedActionId);
 
     if (!this.checkAvailability()) {
-      return offlineResponse;
+      const offline = await this.replyOffline(userMessage);
+      return offline ? { message: offline.message } : offlineResponse;
     }
 
     try {
-      const isZh = this.language === 'zh';
-      const prompt = isZh ? `用户回复：${userMessage}
-${selectedActionId ? `(用户选择了动作 ID: ${selectedActionId})` : ''}
-
-请回复用户。如果用户需要专业的任务规划或分析，请委婉建议去找 Coach（但不要强推）。
-保持简短温暖。` : `User reply: ${userMessage}
-${selectedActionId ? `(User selected action ID: ${selectedActionId})` : ''}
-
-Reply to the user. If they need professional planning or analysis, gently suggest asking Coach (don't push too hard).
-Keep it short and warm.`;
+      const prompt = renderPrompt('friend.reply', { userMessage, selectedActionId }, this.language);
 
-      const response = await this.callAI(prompt, true); // Continue conversation
+      const response = await this.callAI(prompt, true, stream); // Continue conversation
 
       if (!response) {
         return offlineResponse;
@@ -475,6 +386,16 @@ Keep it short and warm.`;
 
   // ==================== Offline / Fallback Logic ====================
 
+  /**
+   * Rule-based reply when no provider is available, resuming any open dialog
+   */
+  private async replyOffline(userMessage: string): Promise<{ message: string; toolsExecuted: { name: string; result: unknown }[] } | null> {
+    const offline = await replyOffline(userMessage, this.offlineDialog, this.language);
+    if (!offline) return null;
+    this.offlineDialog = offline.dialog;
+    return { message: offline.message, toolsExecuted: offline.toolsExecuted };
+  }
+
   private getOfflineInitialResponse(triggerType: InterventionTriggerType, metrics: HealthMetrics): FriendResponse {
     const response = this.triggerResponses[triggerType] || this.defaultResponse;
     const isZh = this.language === 'zh';
@@ -0,0 +1,468 @@
+/**
+ * Memory Service
+ * AI 人格的长期记忆
+ *
+ * - 压缩：把事件、任务反思、周回顾和已归档的聊天按周压缩成带日期的摘要，
+ *   并从中提取关于用户的持久事实（模式 / 阻碍 / 偏好 / 优势），里程碑事件记为 coreEvents
+ * - 事实准入：同一条内容累计证据 ≥ 2 才记住；AI 分析结论与聊天中明确表达的偏好直接计 2
+ * - 用户编辑过的摘要/事实不会被覆盖，删除过的不会被重新生成（`dismissed`）
+ * - 检索：按与当前消息的关键词重叠（英文单词 + 中文二元组）、证据数与新近度排序，
+ *   注入 FriendAI / CoachAI 的提示词
+ */
+
+import type { CoreEvent, EventMemories, EventSummary, GameEvent, MemoryFact, MemoryFactKind, MemorySource } from '../types/event';
+import type { TaskReflection } from '../types/planner';
+import type { WeeklyReview } from '../types/journal';
+import type { ChatSession } from '../stores/chat-store';
+import { useGameStore } from '../stores/game-store';
+import { usePlannerStore } from '../stores/planner-store';
+import { useJournalStore } from '../stores/journal-store';
+import { useChatStore } from '../stores/chat-store';
+import { useUIStore } from '../stores/ui-store';
+import { addDaysToKey, weekStart } from '../lib/recurrence';
+import { getDayKey } from '../lib/calendar-day';
+import { createPrefixedId } from '../lib/id';
+
+// ==================== Types ====================
+
+export type MemoryLanguage = 'zh' | 'en';
+
+export interface MemorySources {
+  events: GameEvent[];
+  reflections: TaskReflection[];
+  weeklyReviews: WeeklyReview[];
+  chatSessions: ChatSession[];
+}
+
+export interface RetrievedMemories {
+  facts: MemoryFact[];
+  summaries: EventSummary[];
+}
+
+interface FactCandidate {
+  kind: MemoryFactKind;
+  text: string;
+  source: MemorySource;
+  at: string;
+  weight: number;
+}
+
+// ==================== Constants ====================
+
+/** Weeks covered by dated summaries */
+export const MEMORY_SUMMARY_WEEKS = 12;
+export const MAX_MEMORY_FACTS = 60;
+const MAX_CORE_EVENTS = 100;
+const FACT_ADMISSION_WEIGHT = 2;
+const MAX_FACT_LENGTH = 120;
+/** Condense again once the last run is older than this */
+export const MEMORY_REFRESH_MS = 6 * 60 * 60 * 1000;
+const MEMORY_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const CORE_EVENT_SIGNIFICANCE: Partial<Record<GameEvent['type'], CoreEvent['significance']>> = {
+  'quest.completed': 'high',
+  'chapter.completed': 'milestone',
+  'season.completed': 'milestone',
+  'skill.levelup': 'breakthrough',
+};
+
+const PREFERENCE_PATTERN = /我(比较|更|最)?(喜欢|习惯|偏好|讨厌|不喜欢|希望|倾向)|\bi (really )?(prefer|like|love|hate|don ?t like|usually|tend to|work best)\b/i;
+
+const STOPWORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'what', 'how', 'are', 'was', 'you', 'have', 'not', 'but', 'can', 'about']);
+
+// ==================== Helpers ====================
+
+/** Key for dedupe and dismissal: case, spacing and punctuation are ignored */
+export function memoryKey(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+}
+
+function weekStartKey(iso: string): string | null {
+  // Date-only keys are already days; timestamps fall on the configured calendar day
+  const key = /^\d{4}-\d{2}-\d{2}$/.test(iso) ? iso : getDayKey(iso);
+  return key ? weekStart(key) : null;
+}
+
+function clip(text: string): string {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  return trimmed.length > MAX_FACT_LENGTH ? `${trimmed.slice(0, MAX_FACT_LENGTH - 1)}…` : trimmed;
+}
+
+function tokenize(text: string): Set<string> {
+  const tokens = new Set<string>();
+  const lower = text.normalize('NFKC').toLowerCase();
+  for (const word of lower.match(/[a-z0-9]{3,}/g) || []) {
+    if (!STOPWORDS.has(word)) tokens.add(word);
+  }
+  for (const run of lower.match(/\p{Script=Han}+/gu) || []) {
+    if (run.length === 1) tokens.add(run);
+    for (let i = 0; i < run.length - 1; i++) tokens.add(run.slice(i, i + 2));
+  }
+  return tokens;
+}
+
+function mostFrequent(values: string[]): { value: string; count: number } | null {
+  const counts = new Map<string, { value: string; count: number }>();
+  for (const value of values) {
+    const key = memoryKey(value);
+    if (!key) continue;
+    const entry = counts.get(key) || { value: value.trim(), count: 0 };
+    entry.count += 1;
+    counts.set(key, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count)[0] || null;
+}
+
+// ==================== Condensation ====================
+
+interface WeekBucket {
+  events: GameEvent[];
+  reflections: TaskReflection[];
+  reviews: WeeklyReview[];
+}
+
+function summarizeWeek(weekStart: string, bucket: WeekBucket, language: MemoryLanguage, now: string): EventSummary | null {
+  const isZh = language === 'zh';
+  const highlights: string[] = [];
+  const patterns: string[] = [];
+
+  const milestones = bucket.events.filter((event) => CORE_EVENT_SIGNIFICANCE[event.type]);
+  for (const event of milestones.slice(0, 3)) {
+    highlights.push(isZh ? `${event.type === 'skill.levelup' ? '升级' : '完成'}：${event.entity.name}` : `${event.type === 'skill.levelup' ? 'Leveled up' : 'Completed'}: ${event.entity.name}`);
+  }
+  const completedTasks = bucket.events.filter((event) => event.type === 'task.completed').length;
+  if (completedTasks > 0) {
+    highlights.push(isZh ? `完成了 ${completedTasks} 个任务` : `Completed ${completedTasks} task${completedTasks === 1 ? '' : 's'}`);
+  }
+  for (const review of bucket.reviews) {
+    highlights.push(...review.highlights.filter(Boolean).slice(0, 2));
+    patterns.push(...review.challenges.filter(Boolean).slice(0, 2));
+  }
+  const proud = bucket.reflections.filter((r) => r.satisfactionScore >= 4 && r.goodPoints.trim()).slice(0, 2);
+  highlights.push(...proud.map((r) => clip(r.goodPoints)));
+
+  if (bucket.reflections.length > 0) {
+    const average = bucket.reflections.reduce((sum, r) => sum + r.satisfactionScore, 0) / bucket.reflections.length;
+    patterns.push(isZh
+      ? `任务满意度平均 ${average.toFixed(1)}/5（${bucket.reflections.length} 次反思）`
+      : `Average task satisfaction ${average.toFixed(1)}/5 over ${bucket.reflections.length} reflection${bucket.reflections.length === 1 ? '' : 's'}`);
+    const lowEnergy = bucket.reflections.filter((r) => r.energyState === 'low').length;
+    if (lowEnergy * 2 >= bucket.reflections.length && lowEnergy >= 2) {
+      patterns.push(isZh ? `${lowEnergy} 次反思报告精力低` : `Low energy reported in ${lowEnergy} reflections`);
+    }
+    const delay = mostFrequent(bucket.reflections.map((r) => r.delayReason || ''));
+    if (delay) {
+      patterns.push(isZh ? `主要拖延原因：${clip(delay.value)}` : `Main delay reason: ${clip(delay.value)}`);
+    }
+  }
+
+  if (highlights.length === 0 && patterns.length === 0) return null;
+  return {
+    id: `memsum_${weekStart}`,
+    period: { start: weekStart, end: addDaysToKey(weekStart, 6) },
+    eventCount: bucket.events.length,
+    highlights: highlights.slice(0, 5),
+    patterns: patterns.slice(0, 5),
+    createdAt: now,
+  };
+}
+
+function collectFactCandidates(sources: MemorySources): FactCandidate[] {
+  const candidates: FactCandidate[] = [];
+  const push = (kind: MemoryFactKind, text: string | undefined, source: MemorySource, at: string, weight = 1) => {
+    if (text && text.trim()) candidates.push({ kind, text: clip(text), source, at, weight });
+  };
+
+  for (const reflection of sources.reflections) {
+    const at = reflection.completedAt;
+    push('blocker', reflection.delayReason, 'reflection', at);
+    if (reflection.satisfactionScore >= 4) push('strength', reflection.goodPoints, 'reflection', at);
+    for (const alert of reflection.aiAnalysis?.limitingBeliefAlerts || []) push('blocker', alert, 'reflection', at, 2);
+    for (const pattern of reflection.aiAnalysis?.beliefPatterns || []) push('pattern', pattern, 'reflection', at, 2);
+  }
+  for (const review of sources.weeklyReviews) {
+    const at = review.updatedAt || review.createdAt;
+    for (const challenge of review.challenges) push('blocker', challenge, 'weekly_review', at);
+    for (const learning of review.learnings) push('pattern', learning, 'weekly_review', at);
+  }
+  for (const event of sources.events) {
+    if (event.type !== 'pattern.recognized' && event.type !== 'belief.observed') continue;
+    const detail = event.details.pattern ?? event.details.description;
+    push('pattern', typeof detail === 'string' ? detail : event.entity.name, 'events', event.timestamp, 2);
+  }
+  for (const session of sources.chatSessions) {
+    for (const message of session.messages) {
+      if (message.role !== 'user' || message.content.length > MAX_FACT_LENGTH) continue;
+      if (PREFERENCE_PATTERN.test(message.content)) {
+        push('preference', message.content, 'chat', new Date(message.timestamp).toISOString(), 2);
+      }
+    }
+  }
+  return candidates;
+}
+
+function mergeFacts(existing: MemoryFact[], candidates: FactCandidate[], dismissed: Set<string>): MemoryFact[] {
+  const grouped = new Map<string, FactCandidate[]>();
+  for (const candidate of candidates) {
+    const key = memoryKey(candidate.text);
+    if (!key || dismissed.has(key)) continue;
+    grouped.set(key, [...(grouped.get(key) || []), candidate]);
+  }
+  for (const group of grouped.values()) group.sort((a, b) => a.at.localeCompare(b.at));
+
+  const byKey = new Map(existing.map((fact) => [memoryKey(fact.text), fact]));
+  for (const [key, group] of grouped) {
+    const current = byKey.get(key);
+    if (current?.userEdited) continue;
+    const weight = group.reduce((sum, item) => sum + item.weight, 0);
+    if (!current && weight < FACT_ADMISSION_WEIGHT) continue;
+    const dates = group.map((item) => item.at).filter(Boolean);
+    const latest = group[group.length - 1];
+    byKey.set(key, {
+      id: current?.id || createPrefixedId('memfact'),
+      kind: current?.kind || latest.kind,
+      text: current?.text || latest.text,
+      source: current?.source || latest.source,
+      evidenceCount: group.length,
+      firstSeenAt: current?.firstSeenAt || dates[0] || new Date().toISOString(),
+      lastSeenAt: dates[dates.length - 1] || current?.lastSeenAt || new Date().toISOString(),
+    });
+  }
+
+  return [...byKey.values()]
+    .sort((a, b) => Number(!!b.userEdited) - Number(!!a.userEdited) || b.lastSeenAt.localeCompare(a.lastSeenAt))
+    .slice(0, MAX_MEMORY_FACTS);
+}
+
+/**
+ * Condense the sources into summaries, facts and core events, keeping what the
+ * user edited and skipping what the user deleted
+ */
+export function condenseMemories(
+  sources: MemorySources,
+  existing: EventMemories,
+  language: MemoryLanguage,
+  now: Date = new Date()
+): EventMemories {
+  const nowIso = now.toISOString();
+  const dismissed = new Set(existing.dismissed || []);
+  const firstWeek = addDaysToKey(weekStartKey(nowIso) || getDayKey(now), -7 * (MEMORY_SUMMARY_WEEKS - 1));
+
+  const buckets = new Map<string, WeekBucket>();
+  const bucketFor = (iso: string) => {
+    const week = weekStartKey(iso);
+    if (!week || week < firstWeek) return null;
+    if (!buckets.has(week)) buckets.set(week, { events: [], reflections: [], reviews: [] });
+    return buckets.get(week)!;
+  };
+  for (const event of sources.events) bucketFor(event.timestamp)?.events.push(event);
+  for (const reflection of sources.reflections) bucketFor(reflection.completedAt)?.reflections.push(reflection);
+  for (const review of sources.weeklyReviews) bucketFor(review.weekStartDate)?.reviews.push(review);
+
+  const summaries = new Map((existing.summaries || []).map((summary) => [summary.id, summary]));
+  for (const [week, bucket] of buckets) {
+    const summary = summarizeWeek(week, bucket, language, nowIso);
+    if (!summary || dismissed.has(summary.id) || summaries.get(summary.id)?.userEdited) continue;
+    summaries.set(summary.id, summary);
+  }
+
+  const coreEvents = new Map((existing.coreEvents || []).map((core) => [core.eventId, core]));
+  for (const event of sources.events) {
+    const significance = CORE_EVENT_SIGNIFICANCE[event.type];
+    if (!significance || coreEvents.has(event.id)) continue;
+    coreEvents.set(event.id, { eventId: event.id, significance, description: `${event.type}: ${event.entity.name}`, flaggedAt: event.timestamp });
+  }
+
+  return {
+    summaries: [...summaries.values()].sort((a, b) => b.period.start.localeCompare(a.period.start)),
+    coreEvents: [...coreEvents.values()].sort((a, b) => b.flaggedAt.localeCompare(a.flaggedAt)).slice(0, MAX_CORE_EVENTS),
+    facts: mergeFacts(existing.facts || [], collectFactCandidates(sources), dismissed),
+    dismissed: existing.dismissed || [],
+    lastCondensedAt: nowIso,
+  };
+}
+
+// ==================== Retrieval ====================
+
+/**
+ * Pick the facts and summaries most relevant to a message. Facts that share
+ * keywords with it come first; the rest of the budget goes to well-evidenced,
+ * recent facts.
+ */
+export function retrieveMemories(
+  memories: EventMemories,
+  query: string,
+  options: { limit?: number; now?: Date } = {}
+): RetrievedMemories {
+  const limit = options.limit ?? 6;
+  const now = (options.now || new Date()).getTime();
+  const queryTokens = tokenize(query);
+  const overlap = (text: string) => [...tokenize(text)].filter((token) => queryTokens.has(token)).length;
+
+  const facts = (memories.facts || [])
+    .map((fact) => {
+      const ageDays = (now - new Date(fact.lastSeenAt).getTime()) / 86_400_000;
+      const base = Math.log2(1 + fact.evidenceCount) + (ageDays <= 30 ? 1 : 0.5) + (fact.userEdited ? 1 : 0);
+      return { fact, score: overlap(fact.text) * 3 + base };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((entry) => entry.fact);
+
+  const ordered = [...(memories.summaries || [])].sort((a, b) => b.period.start.localeCompare(a.period.start));
+  const related = ordered.filter((summary) => overlap([...summary.highlights, ...summary.patterns].join(' ')) > 0);
+  const summaries = [...new Set([...ordered.slice(0, 2), ...related])].slice(0, 3);
+
+  return { facts, summaries };
+}
+
+const FACT_LABELS: Record<MemoryLanguage, Record<MemoryFactKind, string>> = {
+  zh: { pattern: '模式', blocker: '阻碍', preference: '偏好', strength: '优势' },
+  en: { pattern: 'pattern', blocker: 'blocker', preference: 'preference', strength: 'strength' },
+};
+
+export function formatMemoryContext(retrieved: RetrievedMemories, language: MemoryLanguage): string {
+  if (retrieved.facts.length === 0 && retrieved.summaries.length === 0) return '';
+  const isZh = language === 'zh';
+  const lines = retrieved.facts.map((fact) => `- (${FACT_LABELS[language][fact.kind]}) ${fact.text}`);
+  for (const summary of retrieved.summaries) {
+    const parts = [...summary.highlights, ...summary.patterns].join(isZh ? '；' : '; ');
+    lines.push(isZh ? `- ${summary.period.start} 当周：${parts}` : `- Week of ${summary.period.start}: ${parts}`);
+  }
+  return `[${isZh ? '系统上下文: 长期记忆（仅供参考，不要逐条复述）' : 'System Context: Long-term Memory (background only, do not recite)'}]\n${lines.join('\n')}\n`;
+}
+
+// ==================== Store bindings ====================
+
+function currentLanguage(): MemoryLanguage {
+  return useUIStore.getState().language === 'en' ? 'en' : 'zh';
+}
+
+/**
+ * Condense current store data into the game store's `eventMemories`
+ */
+export function refreshMemories(now: Date = new Date()): EventMemories {
+  const game = useGameStore.getState();
+  const memories = condenseMemories(
+    {
+      events: game.events,
+      reflections: usePlannerStore.getState().reflections,
+      weeklyReviews: useJournalStore.getState().weeklyReviews,
+      chatSessions: useChatStore.getState().sessions.filter((session) => session.archived),
+    },
+    game.eventMemories,
+    currentLanguage(),
+    now
+  );
+  game.updateEventMemories(memories);
+  return memories;
+}
+
+/**
+ * Memory block for a chat prompt, empty when nothing is remembered yet
+ */
+export function getMemoryContext(query: string, language: MemoryLanguage): string {
+  return formatMemoryContext(retrieveMemories(useGameStore.getState().eventMemories, query), language);
+}
+
+/**
+ * Fill `ConversationContext.userProfile` lists from remembered facts when the caller left them empty
+ */
+export function withMemoryProfile<T extends { recentPatterns: string[]; knownBlockers: string[] }>(profile: T): T {
+  const facts = useGameStore.getState().eventMemories.facts || [];
+  const pick = (kind: MemoryFactKind) => facts.filter((fact) => fact.kind === kind).slice(0, 5).map((fact) => fact.text);
+  return {
+    ...profile,
+    recentPatterns: profile.recentPatterns.length > 0 ? profile.recentPatterns : pick('pattern'),
+    knownBlockers: profile.knownBlockers.length > 0 ? profile.knownBlockers : pick('blocker'),
+  };
+}
+
+export function addMemoryFact(kind: MemoryFactKind, text: string): void {
+  const { eventMemories, updateEventMemories } = useGameStore.getState();
+  const now = new Date().toISOString();
+  updateEventMemories({
+    facts: [
+      { id: createPrefixedId('memfact'), kind, text: clip(text), source: 'user', evidenceCount: 1, firstSeenAt: now, lastSeenAt: now, userEdited: true },
+      ...eventMemories.facts,
+    ],
+  });
+}
+
+export function editMemoryFact(id: string, updates: Partial<Pick<MemoryFact, 'kind' | 'text'>>): void {
+  const { eventMemories, updateEventMemories } = useGameStore.getState();
+  updateEventMemories({
+    facts: eventMemories.facts.map((fact) => (
+      fact.id === id ? { ...fact, ...updates, text: clip(updates.text ?? fact.text), userEdited: true } : fact
+    )),
+  });
+}
+
+export function deleteMemoryFact(id: string): void {
+  const { eventMemories, updateEventMemories } = useGameStore.getState();
+  const fact = eventMemories.facts.find((item) => item.id === id);
+  if (!fact) return;
+  updateEventMemories({
+    facts: eventMemories.facts.filter((item) => item.id !== id),
+    dismissed: [...new Set([...eventMemories.dismissed, memoryKey(fact.text)])],
+  });
+}
+
+export function editMemorySummary(id: string, updates: Partial<Pick<EventSummary, 'highlights' | 'patterns'>>): void {
+  const { eventMemories, updateEventMemories } = useGameStore.getState();
+  updateEventMemories({
+    summaries: eventMemories.summaries.map((summary) => (
+      summary.id === id ? { ...summary, ...updates, userEdited: true } : summary
+    )),
+  });
+}
+
+export function deleteMemorySummary(id: string): void {
+  const { eventMemories, updateEventMemories } = useGameStore.getState();
+  updateEventMemories({
+    summaries: eventMemories.summaries.filter((summary) => summary.id !== id),
+    dismissed: [...new Set([...eventMemories.dismissed, id])],
+  });
+}
+
+type PersistedStore = typeof useGameStore | typeof usePlannerStore | typeof useJournalStore | typeof useChatStore;
+
+function whenHydrated(store: PersistedStore): Promise<void> {
+  if (store.persist.hasHydrated()) return Promise.resolve();
+  return new Promise((resolve) => {
+    const unsubscribe = store.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
+
+/**
+ * Condense once every source store has loaded (if the last run is stale) and
+ * re-check hourly. Returns a stop function.
+ */
+export function startMemorySchedule(): () => void {
+  let timer: number | undefined;
+  let active = true;
+
+  const refreshIfStale = () => {
+    const last = useGameStore.getState().eventMemories.lastCondensedAt;
+    if (last && Date.now() - new Date(last).getTime() < MEMORY_REFRESH_MS) return;
+    try {
+      refreshMemories();
+    } catch (error: unknown) {
+      console.warn('[Memory] Condensation failed:', error);
+    }
+  };
+
+  Promise.all([useGameStore, usePlannerStore, useJournalStore, useChatStore].map(whenHydrated)).then(() => {
+    if (!active) return;
+    refreshIfStale();
+    timer = window.setInterval(refreshIfStale, MEMORY_CHECK_INTERVAL_MS);
+  });
+
+  return () => {
+    active = false;
+    window.clearInterval(timer);
+  };
+}
@@ -13,6 +13,8 @@ import type {
   TaskReflection,
 } from '../types/planner';
 import type { MainQuest, Season, Chapter } from '../types/task';
+import { forecastSchedule } from './schedule-forecast';
+import type { QuestForecast } from './schedule-forecast';
 
 // ==================== 配置 ====================
 
@@ -203,8 +205,9 @@ class MonitorEngine {
       }
     }
 
-    // 分析风险副本
-    const atRiskQuests = this.analyzeQuestRisks(gameState.mainQuests || []);
+    // 分析风险副本（结合排程预测）
+    const forecast = forecastSchedule(gameState);
+    const atRiskQuests = this.analyzeQuestRisks(gameState.mainQuests || [], forecast.quests);
 
     // 获取 DDL 推迟记录
     const deadlinePostponeMap = plannerState.deadlinePostponeMap;
@@ -262,43 +265,73 @@ class MonitorEngine {
     return Math.round((Date.now() - lastProductive.getTime()) / 60000); // 分钟
   }
 
-  private analyzeQuestRisks(quests: MainQuest[]): AtRiskQuest[] {
+  private analyzeQuestRisks(quests: MainQuest[], forecasts: QuestForecast[] = []): AtRiskQuest[] {
     const atRisk: AtRiskQuest[] = [];
     const now = new Date();
+    const forecastById = new Map(forecasts.map(f => [f.questId, f]));
 
     for (const quest of quests) {
       if (quest.status !== 'active') continue;
-      if (!quest.deadline) continue;
+      const forecast = forecastById.get(quest.id);
+      // 没有截止日期时，可沿用篇章/赛季的截止日期（由预测给出）
+      const deadlineStr = quest.deadline || forecast?.deadline;
+      if (!deadlineStr) continue;
 
-      const deadline = new Date(quest.deadline);
+      const deadline = new Date(deadlineStr);
       const daysRemaining = Math.ceil((deadline.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+      const forecastFields = forecast
+        ? {
+          forecastDate: forecast.expected,
+          forecastRange: { optimistic: forecast.optimistic, pessimistic: forecast.pessimistic },
+          completionProbability: forecast.probability,
+          onCriticalPath: forecast.onCriticalPath,
+        }
+        : {};
 
       if (daysRemaining <= 0) {
         // 已逾期
         atRisk.push({
           questId: quest.id,
           questTitle: quest.title,
-          deadline: quest.deadline,
+          deadline: deadlineStr,
           currentProgress: quest.progress || 0,
           requiredDailyProgress: 100, // 需要立即完成
           riskLevel: 'critical',
           suggestedAction: 'prune',
+          ...forecastFields,
+        });
+        continue;
+      }
+
+      const remainingProgress = 100 - (quest.progress || 0);
+      const requiredDailyProgress = remainingProgress / daysRemaining;
+
+      if (forecast) {
+        // 按历史吞吐量预测：按期完成概率决定风险等级
+        if (forecast.riskLevel === 'low') continue;
+        atRisk.push({
+          questId: quest.id,
+          questTitle: quest.title,
+          deadline: deadlineStr,
+          currentProgress: quest.progress || 0,
+          requiredDailyProgress,
+          riskLevel: forecast.riskLevel,
+          suggestedAction: forecast.riskLevel === 'critical'
+            ? 'prune'
+            : forecast.riskLevel === 'high' ? 'extend' : 'accelerate',
+          ...forecastFields,
+        });
+      } else if (daysRemaining <= 3 && requiredDailyProgress > 30) {
+        // 没有工作量估计时，退回到简单的日进度要求
+        atRisk.push({
+          questId: quest.id,
+          questTitle: quest.title,
+          deadline: deadlineStr,
+          currentProgress: quest.progress || 0,
+          requiredDailyProgress,
+          riskLevel: requiredDailyProgress > 50 ? 'high' : 'medium',
+          suggestedAction: requiredDailyProgress > 50 ? 'extend' : 'accelerate',
         });
-      } else if (daysRemaining <= 3) {
-        const remainingProgress = 100 - (quest.progress || 0);
-        const requiredDailyProgress = remainingProgress / daysRemaining;
-
-        if (requiredDailyProgress > 30) {
-          atRisk.push({
-            questId: quest.id,
-            questTitle: quest.title,
-            deadline: quest.deadline,
-            currentProgress: quest.progress || 0,
-            requiredDailyProgress,
-            riskLevel: requiredDailyProgress > 50 ? 'high' : 'medium',
-            suggestedAction: requiredDailyProgress > 50 ? 'extend' : 'accelerate',
-          });
-        }
       }
     }
 
@@ -7,6 +7,9 @@ import type { TaskReflection, PeriodSummary } from '../types/planner';
 import type { Chapter, CustomTask, MainQuest, Season } from '../types/task';
 import { coachAI } from './coach-ai';
 import { sumTaskFocusMinutes } from '../lib/focus-time';
+import { renderPrompt } from '../lib/ai/prompt-registry';
+import { getDayKey } from '../lib/calendar-day';
+import { toDateKey } from '../stores/game-store-helpers';
 
 // ==================== Types ====================
 
@@ -178,16 +181,17 @@ export async function generateQuestCompletionSummary(
   // Try AI generation if available
   if (coachAI.checkAvailability() && userReview) {
     try {
-      const prompt = `请为副本完成生成简短的总结和鼓励（共50字以内）：
-副本：${quest.title}
-用户感想：${userReview}
-完成任务数：${completedTasks.length}`;
+      const prompt = renderPrompt('reflection.quest_completion', {
+        title: quest.title,
+        userReview,
+        completedTasks: completedTasks.length,
+      });
 
       const response = await coachAI.respondToUser(prompt, [], {
         relatedTaskIds: [],
         relatedQuestIds: [quest.id],
         userProfile: { recentPatterns: [], preferredStyle: 'gentle', knownBlockers: [] },
-      });
+      }, undefined, undefined, 'reflection_summary');
 
       return {
         summary: response.message || summary,
@@ -233,16 +237,17 @@ export async function generateChapterCompletionSummary(
 
   if (coachAI.checkAvailability() && userReview) {
     try {
-      const prompt = `请为章节完成生成简短总结和鼓励（共50字以内）：
-章节：${chapter.title}
-用户感想：${userReview}
-完成副本数：${completedQuests.length}`;
+      const prompt = renderPrompt('reflection.chapter_completion', {
+        title: chapter.title,
+        userReview,
+        completedQuests: completedQuests.length,
+      });
 
       const response = await coachAI.respondToUser(prompt, [], {
         relatedTaskIds: [],
         relatedQuestIds: linkedQuests.map((q) => q.id),
         userProfile: { recentPatterns: [], preferredStyle: 'gentle', knownBlockers: [] },
-      });
+      }, undefined, undefined, 'reflection_summary');
 
       return {
         summary: response.message || summary,
@@ -266,31 +271,23 @@ async function generateQuestAISummary(
   summary: QuestSummary,
   reflections: TaskReflection[]
 ): Promise<string> {
-  const prompt = `请为以下副本完成情况生成一个简短的总结（100字以内）：
-
-副本名称：${quest.title}
-描述：${quest.description || '无'}
-完成任务：${summary.stats.completedTasks}/${summary.stats.totalTasks}
-用时：${summary.stats.duration} 天
-平均满意度：${summary.stats.avgSatisfaction.toFixed(1)}/5
-
-亮点：
-${summary.highlights.join('\n') || '无记录'}
-
-挑战：
-${summary.challenges.join('\n') || '无记录'}
-
-总结应该：
-1. 肯定完成的成就
-2. 提取关键经验
-3. 给出一句鼓励`;
+  const prompt = renderPrompt('reflection.quest_summary', {
+    title: quest.title,
+    description: quest.description,
+    completedTasks: summary.stats.completedTasks,
+    totalTasks: summary.stats.totalTasks,
+    duration: summary.stats.duration,
+    avgSatisfaction: summary.stats.avgSatisfaction.toFixed(1),
+    highlights: summary.highlights.join('\n'),
+    challenges: summary.challenges.join('\n'),
+  });
 
   // 使用 Coach AI 生成总结
   const response = await coachAI.respondToUser(prompt, [], {
     relatedTaskIds: reflections.map(r => r.taskId),
     relatedQuestIds: [quest.id],
     userProfile: { recentPatterns: [], preferredStyle: 'gentle', knownBlockers: [] },
-  });
+  }, undefined, undefined, 'reflection_summary');
 
   return response.message;
 }
@@ -311,7 +308,7 @@ export async function generatePeriodSummary(
   seasons: Season[] = [],
   quests: MainQuest[] = []
 ): Promise<PeriodSummary> {
-  const id = `${type}-${startDate.toISOString().split('T')[0]}`;
+  const id = `${type}-${toDateKey(startDate)}`;
 
   // 1. Narrative Progress
   const narrativeProgress: PeriodSummary['insights']['narrativeProgress'] = [];
@@ -503,19 +500,13 @@ export function generateDailySummary(
   tasks: CustomTask[],
   reflections: TaskReflection[]
 ): DailySummary {
-  const dateStr = date.toISOString().split('T')[0];
+  const dateStr = getDayKey(date);
 
-  const dayTasks = tasks.filter(t => {
-    const taskDate = t.createdAt.split('T')[0];
-    return taskDate === dateStr;
-  });
+  const dayTasks = tasks.filter(t => getDayKey(t.createdAt) === dateStr);
 
   const completedTasks = dayTasks.filter(t => t.completed);
 
-  const dayReflections = reflections.filter(r => {
-    const reflectionDate = r.completedAt.split('T')[0];
-    return reflectionDate === dateStr;
-  });
+  const dayReflections = reflections.filter(r => getDayKey(r.completedAt) === dateStr);
 
   const avgSatisfaction = dayReflections.length > 0
     ? dayReflections.reduce((sum, r) => sum + r.satisfactionScore, 0) / dayReflections.length
@@ -0,0 +1,379 @@
+/**
+ * Schedule Forecast
+ * 副本/篇章完成日期预测与关键路径
+ *
+ * - 吞吐量：最近 28 天每天完成的专注分钟数（任务日志、每日完成快照、已完成任务的实际耗时）
+ * - 剩余工作量：副本下未完成任务的预估耗时（`estimatedCosts.time`，缺省按 effort 估算）
+ * - 排程：所有未完成副本共享同一份吞吐量，按有效截止日期（副本/篇章/赛季中最早者）排序，
+ *   并保证前置副本排在依赖它的副本之前
+ * - 置信区间：把每日吞吐量视为独立同分布，取 P10 / P90 对应的天数
+ */
+
+import type { GameData } from '../types/game-data';
+import type { Chapter, CustomTask, MainQuest, Season } from '../types/task';
+import { getTaskFocusMinutes } from '../lib/focus-time';
+import { addDaysToKey } from '../lib/recurrence';
+import { orderByDependencies } from '../lib/dependencies';
+import { getDayKey } from '../lib/calendar-day';
+
+// ==================== Types ====================
+
+export type ForecastRiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export type ForecastInput = Pick<
+  GameData,
+  'customTasks' | 'archivedTasks' | 'mainQuests' | 'activeSeasons' | 'taskLogs' | 'dailyCompletionSnapshots'
+>;
+
+export interface Throughput {
+  minutesPerDay: number;
+  stdDevMinutes: number;
+  tasksPerDay: number;
+  /** Days in the window with any completion; 0 means the default assumption is used */
+  activeDays: number;
+}
+
+export interface ForecastRange {
+  expected: string; // YYYY-MM-DD
+  optimistic: string; // P10
+  pessimistic: string; // P90
+}
+
+export interface QuestForecast extends ForecastRange {
+  questId: string;
+  questTitle: string;
+  /** Earliest of the quest, chapter and season deadlines */
+  deadline?: string;
+  remainingTasks: number;
+  remainingMinutes: number;
+  /** Remaining work of this quest and every quest scheduled before it */
+  cumulativeMinutes: number;
+  estimateSource: 'tasks' | 'progress';
+  /** Probability of finishing by the deadline (1 without a deadline) */
+  probability: number;
+  /** Expected days of buffer before the deadline (negative = late) */
+  slackDays?: number;
+  riskLevel: ForecastRiskLevel;
+  onCriticalPath: boolean;
+}
+
+export interface ChapterForecast extends ForecastRange {
+  seasonId: string;
+  chapterId: string;
+  chapterTitle: string;
+  deadline?: string;
+  probability: number;
+  slackDays?: number;
+  riskLevel: ForecastRiskLevel;
+  /** Quest ids that determine the chapter's finish date, first to last */
+  criticalPath: string[];
+}
+
+export interface ScheduleForecast {
+  throughput: Throughput;
+  quests: QuestForecast[];
+  chapters: ChapterForecast[];
+  generatedAt: string;
+}
+
+// ==================== Constants ====================
+
+const HISTORY_DAYS = 28;
+/** Assumed throughput before there is any history */
+const DEFAULT_MINUTES_PER_DAY = 60;
+/** z-score of the 10th / 90th percentile */
+const Z_P90 = 1.2816;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const EFFORT_MINUTES: Record<string, number> = {
+  light: 25,
+  medium: 60,
+  heavy: 120,
+  // Legacy mappings
+  tiny: 25,
+  moderate: 60,
+  massive: 120,
+};
+
+// ==================== Helpers ====================
+
+function taskMinutes(task: CustomTask): number {
+  return getTaskFocusMinutes(task) || EFFORT_MINUTES[task.effort as string] || 45;
+}
+
+function isDone(task: CustomTask): boolean {
+  return task.completed || task.status === 'completed';
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+}
+
+function earliest(...dates: (string | undefined)[]): string | undefined {
+  const keys = dates.filter((d): d is string => !!d).map((d) => d.slice(0, 10)).sort();
+  return keys[0];
+}
+
+/** Standard normal CDF (Abramowitz–Stegun 7.1.26) */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+/**
+ * Days needed to finish `work` minutes when the cumulative throughput after n
+ * days is n·μ + k·σ·√n (k = 0 expected, -z pessimistic, +z optimistic)
+ */
+function daysToFinish(work: number, throughput: Throughput, k: number): number {
+  if (work <= 0) return 0;
+  const { minutesPerDay: mu, stdDevMinutes: sigma } = throughput;
+  // μx² + kσx - W = 0 with x = √n
+  const x = (-k * sigma + Math.sqrt(k * k * sigma * sigma + 4 * mu * work)) / (2 * mu);
+  return Math.ceil(x * x);
+}
+
+/** Probability that the work is done within `days` days */
+function completionProbability(work: number, days: number, throughput: Throughput): number {
+  if (work <= 0) return 1;
+  if (days <= 0) return 0;
+  const expected = days * throughput.minutesPerDay;
+  const spread = throughput.stdDevMinutes * Math.sqrt(days);
+  if (spread === 0) return expected >= work ? 1 : 0;
+  return normalCdf((expected - work) / spread);
+}
+
+function riskFromProbability(probability: number, slackDays?: number): ForecastRiskLevel {
+  if (slackDays !== undefined && slackDays < 0 && probability < 0.2) return 'critical';
+  if (probability >= 0.8) return 'low';
+  if (probability >= 0.5) return 'medium';
+  if (probability >= 0.2) return 'high';
+  return 'critical';
+}
+
+/** Today counts as the first working day */
+function forecastRange(work: number, throughput: Throughput, today: string): ForecastRange {
+  const finishDate = (k: number) => addDaysToKey(today, Math.max(0, daysToFinish(work, throughput, k) - 1));
+  return {
+    expected: finishDate(0),
+    optimistic: finishDate(Z_P90),
+    pessimistic: finishDate(-Z_P90),
+  };
+}
+
+// ==================== Throughput ====================
+
+/**
+ * Daily focus minutes over the last HISTORY_DAYS days (today excluded).
+ * Completed tasks give the minutes; task logs and frozen daily snapshots also
+ * count completions of tasks that were deleted since.
+ */
+export function measureThroughput(input: ForecastInput, today: string = getDayKey()): Throughput {
+  const from = addDaysToKey(today, -HISTORY_DAYS);
+  const inWindow = (key: string) => key >= from && key < today;
+
+  const minutesByDay = new Map<string, number>();
+  const countByDay = new Map<string, number>();
+  const seen = new Set<string>();
+  let knownMinutes = 0;
+  let knownCount = 0;
+
+  for (const task of [...input.customTasks, ...input.archivedTasks]) {
+    if (!isDone(task) || !task.completedAt || seen.has(task.id)) continue;
+    seen.add(task.id);
+    const key = getDayKey(task.completedAt);
+    if (!inWindow(key)) continue;
+    const minutes = taskMinutes(task);
+    minutesByDay.set(key, (minutesByDay.get(key) || 0) + minutes);
+    countByDay.set(key, (countByDay.get(key) || 0) + 1);
+    knownMinutes += minutes;
+    knownCount += 1;
+  }
+  const averageTaskMinutes = knownCount > 0 ? knownMinutes / knownCount : EFFORT_MINUTES.medium;
+
+  const loggedByDay = new Map<string, number>();
+  for (const log of input.taskLogs) {
+    if (log.type !== 'complete') continue;
+    const key = getDayKey(log.timestamp);
+    if (inWindow(key)) loggedByDay.set(key, (loggedByDay.get(key) || 0) + 1);
+  }
+
+  const samples: number[] = [];
+  let totalTasks = 0;
+  let activeDays = 0;
+  for (let i = HISTORY_DAYS; i >= 1; i -= 1) {
+    const key = addDaysToKey(today, -i);
+    const known = countByDay.get(key) || 0;
+    const count = Math.max(known, loggedByDay.get(key) || 0, input.dailyCompletionSnapshots?.[key]?.tasksCompleted || 0);
+    const minutes = (minutesByDay.get(key) || 0) + (count - known) * averageTaskMinutes;
+    samples.push(minutes);
+    totalTasks += count;
+    if (count > 0) activeDays += 1;
+  }
+
+  const mean = samples.reduce((sum, v) => sum + v, 0) / samples.length;
+  if (activeDays === 0 || mean <= 0) {
+    return { minutesPerDay: DEFAULT_MINUTES_PER_DAY, stdDevMinutes: DEFAULT_MINUTES_PER_DAY * 0.75, tasksPerDay: 0, activeDays: 0 };
+  }
+  const variance = samples.reduce((sum, v) => sum + (v - mean) ** 2, 0) / samples.length;
+  return {
+    minutesPerDay: mean,
+    stdDevMinutes: Math.sqrt(variance),
+    tasksPerDay: totalTasks / HISTORY_DAYS,
+    activeDays,
+  };
+}
+
+// ==================== Forecast ====================
+
+interface QuestWork {
+  quest: MainQuest;
+  chapter?: Chapter;
+  deadline?: string;
+  remainingTasks: number;
+  remainingMinutes: number;
+  estimateSource: 'tasks' | 'progress';
+}
+
+function questWork(quest: MainQuest, tasks: CustomTask[], seasons: Season[]): QuestWork | null {
+  const linked = tasks.filter((t) => (t.linkedMainQuestId || t.linkedQuestId) === quest.id);
+  const open = linked.filter((t) => !isDone(t));
+  const season = quest.seasonId ? seasons.find((s) => s.id === quest.seasonId) : undefined;
+  const chapter = quest.linkedChapterId ? season?.chapters.find((c) => c.id === quest.linkedChapterId) : undefined;
+  const base = {
+    quest,
+    chapter,
+    deadline: earliest(quest.deadline, chapter?.deadline, season?.endDate),
+  };
+
+  if (open.length > 0) {
+    return {
+      ...base,
+      remainingTasks: open.length,
+      remainingMinutes: open.reduce((sum, t) => sum + taskMinutes(t), 0),
+      estimateSource: 'tasks',
+    };
+  }
+
+  // No open tasks: scale the work already done by the remaining progress
+  const doneMinutes = linked.reduce((sum, t) => sum + taskMinutes(t), 0);
+  const progress = quest.progress || 0;
+  if (progress >= 100) return { ...base, remainingTasks: 0, remainingMinutes: 0, estimateSource: 'progress' };
+  if (doneMinutes <= 0 || progress <= 0) return null;
+  return {
+    ...base,
+    remainingTasks: 0,
+    remainingMinutes: Math.round((doneMinutes * (100 - progress)) / progress),
+    estimateSource: 'progress',
+  };
+}
+
+/**
+ * Walk back from the last quest to finish through its latest-finishing
+ * unfinished blocker
+ */
+function criticalChain(lastId: string, byId: Map<string, QuestForecast>, quests: MainQuest[]): string[] {
+  const chain = [lastId];
+  const visited = new Set(chain);
+  let current = quests.find((q) => q.id === lastId);
+  while (current?.blockedBy?.length) {
+    const next = current.blockedBy
+      .map((id) => byId.get(id))
+      .filter((f): f is QuestForecast => !!f && !visited.has(f.questId))
+      .sort((a, b) => b.cumulativeMinutes - a.cumulativeMinutes)[0];
+    if (!next) break;
+    chain.unshift(next.questId);
+    visited.add(next.questId);
+    current = quests.find((q) => q.id === next.questId);
+  }
+  return chain;
+}
+
+/**
+ * Forecast completion dates for all open quests and chapters.
+ * Quests without linked tasks or progress history are left out.
+ */
+export function forecastSchedule(input: ForecastInput, today: string = getDayKey()): ScheduleForecast {
+  const throughput = measureThroughput(input, today);
+  const importanceRank: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+  const work = input.mainQuests
+    .filter((q) => q.status !== 'completed' && q.status !== 'archived')
+    .map((q) => questWork(q, input.customTasks, input.activeSeasons))
+    .filter((w): w is QuestWork => w !== null);
+  const workById = new Map(work.map((w) => [w.quest.id, w]));
+
+  // Earliest deadline first, then importance; blockers before dependents
+  const sortedIds = [...work]
+    .sort((a, b) =>
+      (a.deadline || '9999-12-31').localeCompare(b.deadline || '9999-12-31')
+      || (importanceRank[a.quest.importance] ?? 1) - (importanceRank[b.quest.importance] ?? 1)
+    )
+    .map((w) => w.quest.id);
+  const scheduled = orderByDependencies(sortedIds, input.mainQuests);
+
+  let cumulative = 0;
+  const quests: QuestForecast[] = scheduled.map((id) => {
+    const w = workById.get(id)!;
+    cumulative += w.remainingMinutes;
+    const range = forecastRange(cumulative, throughput, today);
+    const daysLeft = w.deadline ? daysBetween(today, w.deadline) + 1 : undefined;
+    const probability = daysLeft === undefined ? 1 : completionProbability(cumulative, daysLeft, throughput);
+    const slackDays = w.deadline ? daysBetween(range.expected, w.deadline) : undefined;
+    return {
+      questId: id,
+      questTitle: w.quest.title,
+      deadline: w.deadline,
+      remainingTasks: w.remainingTasks,
+      remainingMinutes: w.remainingMinutes,
+      cumulativeMinutes: cumulative,
+      estimateSource: w.estimateSource,
+      ...range,
+      probability,
+      slackDays,
+      riskLevel: w.deadline ? riskFromProbability(probability, slackDays) : 'low',
+      onCriticalPath: false,
+    };
+  });
+  const forecastById = new Map(quests.map((f) => [f.questId, f]));
+
+  const chapters: ChapterForecast[] = [];
+  for (const season of input.activeSeasons) {
+    for (const chapter of season.chapters) {
+      if (chapter.status === 'completed') continue;
+      const members = quests.filter((f) => {
+        const quest = workById.get(f.questId)!.quest;
+        return quest.seasonId === season.id && quest.linkedChapterId === chapter.id;
+      });
+      if (members.length === 0) continue;
+
+      const last = members.reduce((a, b) => (b.cumulativeMinutes > a.cumulativeMinutes ? b : a));
+      const deadline = earliest(chapter.deadline, season.endDate);
+      const daysLeft = deadline ? daysBetween(today, deadline) + 1 : undefined;
+      const probability = daysLeft === undefined ? 1 : completionProbability(last.cumulativeMinutes, daysLeft, throughput);
+      const slackDays = deadline ? daysBetween(last.expected, deadline) : undefined;
+      const criticalPath = criticalChain(last.questId, forecastById, input.mainQuests);
+      criticalPath.forEach((id) => {
+        const f = forecastById.get(id);
+        if (f) f.onCriticalPath = true;
+      });
+
+      chapters.push({
+        seasonId: season.id,
+        chapterId: chapter.id,
+        chapterTitle: chapter.title,
+        deadline,
+        expected: last.expected,
+        optimistic: last.optimistic,
+        pessimistic: last.pessimistic,
+        probability,
+        slackDays,
+        riskLevel: deadline ? riskFromProbability(probability, slackDays) : 'low',
+        criticalPath,
+      });
+    }
+  }
+
+  return { throughput, quests, chapters, generatedAt: new Date().toISOString() };
+}
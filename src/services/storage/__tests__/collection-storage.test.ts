@@ -0,0 +1,62 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCollectionStorage } from '../collection-storage';
+
+interface TestState {
+    events: number[];
+    name: string;
+}
+
+const NAME = 'collection-storage-test';
+const SAVED = { state: { events: [1, 2, 3], name: 'saved' }, version: 1 };
+
+function createStorage() {
+    const storage = createCollectionStorage<TestState>({ collections: { events: 'list' } });
+    if (!storage) throw new Error('IndexedDB storage unavailable');
+    return storage;
+}
+
+// Writes are queued behind a promise chain; give fake-indexeddb time to commit.
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe('createCollectionStorage', () => {
+    beforeEach(() => {
+        vi.stubGlobal('localStorage', { getItem: () => null, removeItem: () => undefined });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.unstubAllGlobals();
+    });
+
+    it('round-trips list collections and meta fields', async () => {
+        const storage = createStorage();
+        expect(await storage.getItem(NAME)).toBeNull();
+        storage.setItem(NAME, SAVED);
+        await settle();
+
+        expect(await createStorage().getItem(NAME)).toEqual(SAVED);
+    });
+
+    it('does not clear stored data after a failed read', async () => {
+        const seed = createStorage();
+        await seed.getItem(NAME);
+        seed.setItem(NAME, SAVED);
+        await settle();
+
+        const storage = createStorage();
+        const getAll = vi.spyOn(IDBObjectStore.prototype, 'getAll').mockImplementationOnce(() => {
+            throw new DOMException('Transaction aborted', 'AbortError');
+        });
+        const clear = vi.spyOn(IDBObjectStore.prototype, 'clear');
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        expect(await storage.getItem(NAME)).toBeNull();
+        expect(getAll).toHaveBeenCalled();
+        storage.setItem(NAME, { state: { events: [], name: 'default' }, version: 1 });
+        await settle();
+
+        expect(clear).not.toHaveBeenCalled();
+        expect(await createStorage().getItem(NAME)).toEqual(SAVED);
+    });
+});
@@ -0,0 +1,28 @@
+/**
+ * GameData as an early build persisted it (schema v1): legacy task types and
+ * efforts, quests without status, coins instead of a money balance, a single
+ * `currentSeason`, recurring tasks instead of habits and `toDateString()` days.
+ */
+export const V1_GAME_DATA = {
+    schemaVersion: 1,
+    experience: 250,
+    coins: 42,
+    mainQuests: [
+        { id: 'quest_done', title: 'Ship the prototype', progress: 100, completedAt: '2025-01-10T09:00:00.000Z' },
+        { id: 'quest_open', title: 'Learn Rust', progress: 30 },
+    ],
+    customTasks: [
+        { id: 'task_1', name: 'Clean the kitchen', taskType: 'household', effort: 'moderate', linkedMainQuestId: 'quest_open' },
+        { id: 'task_2', name: 'Sketch ideas', taskType: 'creative', effort: 'massive', linkType: 'chapter' },
+        { id: 'task_3', name: 'Reply to emails', taskType: 'administrative', effort: 'tiny' },
+    ],
+    recurringTasks: [
+        { id: 'rt_run', name: 'Morning run', frequency: 'daily', streak: 3, effort: 'tiny', createdAt: '2025-01-01T07:00:00.000Z' },
+    ],
+    currentSeason: { id: 'season_1', name: 'Winter', chapters: [] },
+    rewardPool: [
+        { id: 'reward_1', rawText: '喝奶茶', verb: 'eat', priceGold: 200 },
+    ],
+    pomodoro: { completedToday: 2, lastPomodoroDate: 'Fri Jan 10 2025', totalCompleted: 12, lastUsedTaskId: null },
+    lastReset: 'Fri Jan 10 2025',
+};
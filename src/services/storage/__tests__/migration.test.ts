@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, runMigrations, type MigratableData } from '../migration';
+import { SCHEMA_MIGRATIONS } from '../schema-migrations';
+import { V1_GAME_DATA } from './fixtures/v1-game-data';
+
+const CTX = { now: '2026-03-04T12:00:00.000Z' };
+
+function migrateV1(): MigratableData {
+    const result = runMigrations(structuredClone(V1_GAME_DATA), CTX);
+    if (!result.success) throw new Error(`migration failed: ${result.reason}`);
+    return result.data;
+}
+
+describe('runMigrations', () => {
+    it('runs a v1 snapshot through every later step', () => {
+        const result = runMigrations(structuredClone(V1_GAME_DATA), CTX);
+        expect(result).toMatchObject({ success: true, fromVersion: 1, toVersion: CURRENT_SCHEMA_VERSION });
+        if (!result.success) return;
+        expect(result.data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(result.applied.map((step) => step.version)).toEqual(
+            SCHEMA_MIGRATIONS.filter((step) => step.version > 1).map((step) => step.version)
+        );
+    });
+
+    it('upgrades the legacy fields', () => {
+        const data = migrateV1();
+        expect(data.customTasks.map((task: MigratableData) => [task.taskType, task.effort, task.importance, task.linkType])).toEqual([
+            ['tax', 'medium', 'medium', 'mainQuest'],
+            ['creative', 'heavy', 'high', 'chapter'],
+            ['tax', 'light', 'low', 'none'],
+        ]);
+        expect(data.mainQuests.map((quest: MigratableData) => quest.status)).toEqual(['completed', 'active']);
+        expect(data.coins).toBeUndefined();
+        expect(data.resources.money.balance).toBe(42);
+        expect(data.activeSeasons).toEqual([{ id: 'season_1', name: 'Winter', chapters: [], category: 'life' }]);
+        expect(data.habits).toHaveLength(1);
+        expect(data.habits[0]).toMatchObject({ id: 'rt_run', name: 'Morning run', frequencyType: 'daily' });
+        expect(data.rewardPool[0]).toMatchObject({ verb: 'drink', priceGold: 8 });
+        expect(data.lastReset).toBe('2025-01-10');
+        expect(data.pomodoro.lastPomodoroDate).toBe('2025-01-10');
+    });
+
+    it('seeds the rules each step shipped with', () => {
+        const data = migrateV1();
+        expect(data.progressionConfig.economy.task).toMatchObject({ minutesPerEnergy: 7.5, baseXp: 8, maxXp: 40 });
+        expect(data.progressionConfig.economy.habit).toEqual({ energyPerHour: 10, xpPerHour: 40, goldPerHour: 18 });
+        expect(data.progressionConfig.periodCaps).toEqual({
+            dailyXpCap: 0,
+            dailyGoldCap: 0,
+            dailySkillXpCap: 200,
+            weeklySkillXpCap: 800,
+            dailyAttrCap: 18,
+        });
+        expect(data.rewardBudget).toEqual({
+            tierWeeklyBudget: { S: 0, A: 0, B: 0, C: 0 },
+            cooldowns: [],
+            dynamicPricing: { enabled: false, windowDays: 14, stepPercent: 15, maxMultiplier: 2 },
+        });
+        expect(data.calendarSettings).toEqual({ dayStartHour: 0, timeZone: null });
+    });
+
+    it('leaves current data untouched on a re-run', () => {
+        const data = migrateV1();
+        const again = runMigrations(data, CTX);
+        expect(again).toMatchObject({ success: true, fromVersion: CURRENT_SCHEMA_VERSION, applied: [] });
+        if (again.success) expect(again.data).toBe(data);
+    });
+
+    it('gives the same result when every step runs again on migrated data', () => {
+        const data = migrateV1();
+        const replayed = runMigrations({ ...data, schemaVersion: 1 }, CTX);
+        expect(replayed.success && replayed.data).toEqual(data);
+    });
+
+    it('does not mutate its input', () => {
+        const input = structuredClone(V1_GAME_DATA);
+        runMigrations(input, CTX);
+        expect(input).toEqual(V1_GAME_DATA);
+    });
+
+    it('refuses data from a newer schema', () => {
+        expect(runMigrations({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 }, CTX)).toMatchObject({
+            success: false,
+            reason: 'newer_schema',
+        });
+    });
+
+    describe('v27 habit streaks', () => {
+        const checkIns = (...days: string[]) => Object.fromEntries(days.map((day) => [day, { count: 1, timestamps: [`${day}T08:00:00.000Z`] }]));
+
+        function migrateHabit(completionHistory: MigratableData): MigratableData {
+            const result = runMigrations({
+                schemaVersion: 26,
+                calendarSettings: { dayStartHour: 0, timeZone: 'UTC' },
+                habits: [{ id: 'habit_1', streak: 9, longestStreak: 2, completionHistory }],
+            }, CTX);
+            if (!result.success) throw new Error(`migration failed: ${result.reason}`);
+            return result.data.habits![0];
+        }
+
+        it('counts the run that reaches today or yesterday', () => {
+            expect(migrateHabit(checkIns('2026-03-02', '2026-03-03', '2026-03-04'))).toMatchObject({ streak: 3, longestStreak: 3 });
+            expect(migrateHabit(checkIns('2026-03-01', '2026-03-02', '2026-03-03'))).toMatchObject({ streak: 3, longestStreak: 3 });
+        });
+
+        it('resets the streak when the last check-in is older than yesterday', () => {
+            expect(migrateHabit(checkIns('2026-01-30', '2026-01-31', '2026-02-01'))).toMatchObject({ streak: 0, longestStreak: 3 });
+        });
+    });
+});
@@ -0,0 +1,318 @@
+/**
+ * Collection Storage
+ * IndexedDB-backed storage adapter for Zustand's persist middleware.
+ *
+ * Large, ever-growing state fields ("collections") each get their own object
+ * store, keyed by list index or record key. Every other field is kept as one
+ * record in a shared meta store. Writes are diffed by reference against the
+ * last persisted state, so appending one event writes one record instead of
+ * re-serializing the whole store.
+ */
+
+import { createJSONStorage } from 'zustand/middleware';
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from './indexeddb';
+
+/**
+ * - `list`: array field, one record per index
+ * - `map`: plain object field, one record per key
+ */
+export type CollectionKind = 'list' | 'map';
+
+export interface CollectionStorageOptions {
+  /** Top-level state fields that get their own object store */
+  collections: Record<string, CollectionKind>;
+  /** Bump whenever `collections` changes so the new object stores get created */
+  schemaVersion?: number;
+  /** localStorage key of the pre-IndexedDB blob (defaults to the persist name) */
+  legacyKey?: string;
+  /**
+   * Upgrades the stored state on every load, including legacy localStorage data.
+   * Returning `null` refuses the data: nothing is hydrated and the storage stays
+   * read-only so the refused data is never overwritten.
+   */
+  migrate?: (state: Record<string, unknown>) => Record<string, unknown> | null;
+}
+
+type PersistedRecord = Record<string, unknown>;
+
+const META_STORE = '__meta';
+const VERSION_KEY = '__persistVersion';
+const DB_PREFIX = 'priaxis-';
+
+/**
+ * Delete the database backing a persisted store
+ */
+export function deleteCollectionStorage(name: string): Promise<void> {
+  if (!isIndexedDBAvailable()) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(`${DB_PREFIX}${name}`);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Create a persist storage that keeps each collection in its own object store.
+ * Falls back to plain localStorage JSON when IndexedDB is unavailable.
+ */
+export function createCollectionStorage<S>(options: CollectionStorageOptions): PersistStorage<S> | undefined {
+  if (!isIndexedDBAvailable()) {
+    return createMigratingJSONStorage<S>(options);
+  }
+
+  const { collections, schemaVersion = 1 } = options;
+  const collectionNames = Object.keys(collections);
+  const storeNames = [META_STORE, ...collectionNames];
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  let lastWritten: PersistedRecord = {};
+  let lastVersion: number | undefined;
+  let hydrated = false;
+  let readOnly = false;
+  let needsFullWrite = false;
+  let pending: StorageValue<S> | null = null;
+  let flushScheduled = false;
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const getDb = (name: string) => {
+    if (!dbPromise) {
+      // Forget a closed or failed connection so the next read or write opens a fresh one.
+      const opening: Promise<IDBDatabase> = openDatabase(`${DB_PREFIX}${name}`, schemaVersion, storeNames, () => {
+        if (dbPromise === opening) dbPromise = null;
+      });
+      opening.catch(() => {
+        if (dbPromise === opening) dbPromise = null;
+      });
+      dbPromise = opening;
+    }
+    return dbPromise;
+  };
+
+  const readState = async (db: IDBDatabase): Promise<StorageValue<S> | null> => {
+    const tx = db.transaction(storeNames, 'readonly');
+    // Issue every request before awaiting so the transaction stays alive.
+    const reads = storeNames.map((storeName) => {
+      const store = tx.objectStore(storeName);
+      return Promise.all([requestToPromise(store.getAllKeys()), requestToPromise(store.getAll())]);
+    });
+    const [[metaKeys, metaValues], ...collectionReads] = await Promise.all(reads);
+
+    const versionIndex = metaKeys.indexOf(VERSION_KEY);
+    if (versionIndex < 0) return null;
+
+    const state: PersistedRecord = {};
+    metaKeys.forEach((key, index) => {
+      if (key !== VERSION_KEY) state[String(key)] = metaValues[index];
+    });
+    collectionNames.forEach((name, index) => {
+      const [keys, values] = collectionReads[index];
+      state[name] = collections[name] === 'list'
+        ? values
+        : Object.fromEntries(keys.map((key, i) => [String(key), values[i]]));
+    });
+
+    return { state: state as S, version: metaValues[versionIndex] as number };
+  };
+
+  const writeState = async (db: IDBDatabase, value: StorageValue<S>, full: boolean) => {
+    const next = (value.state || {}) as PersistedRecord;
+    const prev: PersistedRecord = full ? {} : lastWritten;
+    const ops: Array<(tx: IDBTransaction) => void> = [];
+    const touched = new Set<string>();
+
+    const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+    for (const key of keys) {
+      const nextValue = next[key];
+      const prevValue = prev[key];
+      if (!full && nextValue === prevValue) continue;
+
+      const kind = collections[key];
+      if (kind === 'list') {
+        const nextList = Array.isArray(nextValue) ? nextValue : [];
+        const prevList = Array.isArray(prevValue) ? prevValue : [];
+        touched.add(key);
+        ops.push((tx) => {
+          const store = tx.objectStore(key);
+          if (full) store.clear();
+          nextList.forEach((item, index) => {
+            if (full || item !== prevList[index]) store.put(item, index);
+          });
+          if (!full && prevList.length > nextList.length) {
+            store.delete(IDBKeyRange.lowerBound(nextList.length));
+          }
+        });
+      } else if (kind === 'map') {
+        const nextMap = (nextValue && typeof nextValue === 'object' ? nextValue : {}) as PersistedRecord;
+        const prevMap = (prevValue && typeof prevValue === 'object' ? prevValue : {}) as PersistedRecord;
+        touched.add(key);
+        ops.push((tx) => {
+          const store = tx.objectStore(key);
+          if (full) store.clear();
+          for (const [entryKey, entry] of Object.entries(nextMap)) {
+            if (full || entry !== prevMap[entryKey]) store.put(entry, entryKey);
+          }
+          if (!full) {
+            for (const entryKey of Object.keys(prevMap)) {
+              if (!(entryKey in nextMap)) store.delete(entryKey);
+            }
+          }
+        });
+      } else if (!full && typeof nextValue !== 'function') {
+        // Actions that slipped through partialize cannot be structured-cloned.
+        touched.add(META_STORE);
+        ops.push((tx) => {
+          const store = tx.objectStore(META_STORE);
+          if (nextValue === undefined) {
+            store.delete(key);
+          } else {
+            store.put(nextValue, key);
+          }
+        });
+      }
+    }
+
+    if (full || value.version !== lastVersion) {
+      touched.add(META_STORE);
+      ops.push((tx) => {
+        const store = tx.objectStore(META_STORE);
+        if (full) {
+          store.clear();
+          for (const [key, metaValue] of Object.entries(next)) {
+            if (!collections[key] && metaValue !== undefined && typeof metaValue !== 'function') {
+              store.put(metaValue, key);
+            }
+          }
+        }
+        store.put(value.version ?? 0, VERSION_KEY);
+      });
+    }
+
+    lastWritten = { ...next };
+    lastVersion = value.version;
+    if (ops.length === 0) return;
+
+    const tx = db.transaction(Array.from(touched), 'readwrite');
+    ops.forEach((op) => op(tx));
+    await transactionDone(tx);
+  };
+
+  const importLegacy = async (db: IDBDatabase, name: string): Promise<StorageValue<S> | null> => {
+    const legacyKey = options.legacyKey || name;
+    const raw = localStorage.getItem(legacyKey);
+    if (!raw) return null;
+
+    try {
+      const parsed = JSON.parse(raw) as StorageValue<PersistedRecord>;
+      const state = options.migrate ? options.migrate(parsed.state || {}) : parsed.state || {};
+      if (!state) {
+        // Keep the legacy blob untouched for a newer app version to pick up.
+        readOnly = true;
+        return null;
+      }
+      const migrated: StorageValue<S> = { state: state as S, version: parsed.version };
+      await writeState(db, migrated, true);
+      // Only drop the old blob once IndexedDB has committed the copy.
+      localStorage.removeItem(legacyKey);
+      console.log(`[Storage] Moved "${legacyKey}" from localStorage to IndexedDB`);
+      return migrated;
+    } catch (error) {
+      console.error(`[Storage] Failed to move "${legacyKey}" to IndexedDB:`, error);
+      return null;
+    }
+  };
+
+  const flush = async (name: string) => {
+    flushScheduled = false;
+    const value = pending;
+    pending = null;
+    if (!value) return;
+
+    const full = needsFullWrite || (lastVersion !== undefined && value.version !== lastVersion);
+    try {
+      const db = await getDb(name);
+      await writeState(db, value, full);
+      needsFullWrite = false;
+    } catch (error) {
+      // The diff baseline no longer matches disk; rewrite everything next time.
+      needsFullWrite = true;
+      if (error instanceof DOMException && error.name === 'VersionError') {
+        console.warn('[Storage] A newer version of the app upgraded the database in another tab; reload this tab to keep saving.');
+      } else {
+        console.warn('[Storage] Failed to save to IndexedDB:', error);
+      }
+    }
+  };
+
+  return {
+    getItem: async (name) => {
+      try {
+        const db = await getDb(name);
+        const stored = (await readState(db)) || (await importLegacy(db, name));
+        lastWritten = stored ? { ...(stored.state as PersistedRecord) } : {};
+        lastVersion = stored?.version;
+        if (!stored || !options.migrate) return stored;
+
+        const state = options.migrate(stored.state as PersistedRecord);
+        if (!state) {
+          readOnly = true;
+          return null;
+        }
+        return { ...stored, state: state as S };
+      } catch (error) {
+        // Hydrating with defaults is fine for this session, but writing them back
+        // would clear the stored data that could not be read.
+        console.error('[Storage] Failed to read from IndexedDB; saving is disabled until reload:', error);
+        readOnly = true;
+        return null;
+      } finally {
+        hydrated = true;
+      }
+    },
+
+    setItem: (name, value) => {
+      // Writes issued before hydration would clobber the stored data with defaults.
+      if (!hydrated || readOnly) return;
+      pending = value;
+      if (flushScheduled) return;
+      flushScheduled = true;
+      writeQueue = writeQueue.then(() => flush(name));
+    },
+
+    removeItem: async (name) => {
+      pending = null;
+      if (readOnly) return;
+      const db = await getDb(name);
+      const tx = db.transaction(storeNames, 'readwrite');
+      storeNames.forEach((storeName) => tx.objectStore(storeName).clear());
+      await transactionDone(tx);
+      lastWritten = {};
+      lastVersion = undefined;
+    },
+  };
+}
+
+/**
+ * localStorage fallback that still runs `options.migrate` on load
+ */
+function createMigratingJSONStorage<S>(options: CollectionStorageOptions): PersistStorage<S> | undefined {
+  const storage = createJSONStorage<S>(() => localStorage);
+  const { migrate } = options;
+  if (!storage || !migrate) return storage;
+
+  let readOnly = false;
+  return {
+    getItem: async (name) => {
+      const stored = await storage.getItem(name);
+      if (!stored) return stored;
+      const state = migrate((stored.state || {}) as PersistedRecord);
+      if (!state) {
+        readOnly = true;
+        return null;
+      }
+      return { ...stored, state: state as S };
+    },
+    setItem: (name, value) => (readOnly ? undefined : storage.setItem(name, value)),
+    removeItem: (name) => (readOnly ? undefined : storage.removeItem(name)),
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * IndexedDB Helpers
+ * Thin promise wrappers around the raw IndexedDB request/transaction API
+ */
+
+/**
+ * Resolve an IDBRequest as a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction has committed (or reject if it aborts)
+ */
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+}
+
+/**
+ * Whether IndexedDB can be used in the current runtime
+ */
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined' && indexedDB !== null;
+}
+
+/**
+ * Open a database and make sure every listed object store exists.
+ * Stores use out-of-line keys so callers decide how records are keyed.
+ * `onClose` runs once the connection is closed by a schema upgrade in another
+ * tab or by the browser, so callers can drop a cached handle.
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  storeNames: string[],
+  onClose?: () => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const storeName of storeNames) {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName);
+        }
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema instead of blocking it forever.
+      db.onversionchange = () => {
+        db.close();
+        onClose?.();
+      };
+      db.onclose = () => onClose?.();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => {
+      console.warn(`[IndexedDB] Opening "${name}" is blocked by another open connection`);
+    };
+  });
+}
@@ -0,0 +1,626 @@
+/**
+ * GameData Schema Migrations
+ * Numbered registry of pure, step-wise upgrades. Entry `version: N` upgrades
+ * data from schema N-1 to N. Never edit a released step; append a new one.
+ */
+
+import type { MigratableData, SchemaMigration } from './migration';
+import { calculateMonthlyMoneyFromRecords, getCurrentMonthStr } from '../../stores/game-store-helpers';
+import { getDayKey, normalizeDayKey, sanitizeCalendarSettings } from '../../lib/calendar-day';
+import { addDaysToKey } from '../../lib/recurrence';
+import type { CalendarSettings } from '../../types/game-data';
+
+const asList = (value: unknown): MigratableData[] => (Array.isArray(value) ? value : []);
+
+const LEGACY_TASK_TYPE_MAP: Record<string, string> = {
+  // Legacy v1
+  recovery: 'creative',
+  introspective: 'creative',
+  'intentional-research': 'creative',
+  household: 'tax',
+  review: 'tax',
+
+  // Legacy v2
+  productive: 'creative',
+  administrative: 'tax',
+  social: 'maintenance',
+};
+
+const LEGACY_EFFORT_MAP: Record<string, string> = {
+  tiny: 'light',
+  moderate: 'medium',
+  massive: 'heavy',
+};
+
+const DEFAULT_LEGACY_CATEGORIES = [
+  { id: 'work', name: '工作', icon: '💼', color: '#3b82f6' },
+  { id: 'study', name: '学习', icon: '📚', color: '#10b981' },
+  { id: 'life', name: '生活', icon: '🏠', color: '#f59e0b' },
+  { id: 'health', name: '健康', icon: '💪', color: '#ef4444' },
+  { id: 'hobby', name: '兴趣', icon: '🎨', color: '#8b5cf6' },
+];
+
+const REWARD_GRID_COLUMNS = 5;
+
+// Reward pricing as it was when v22 shipped. Kept here so later pricing changes
+// do not alter what the step does.
+const V22_REWARD_PRICING: Record<string, number> = {
+  eat: 20,
+  drink: 8,
+  buy: 80,
+  watch: 30,
+  play: 50,
+  rest: 30,
+  other: 50,
+};
+
+const V22_REWARD_TIER_GOLD: Record<string, number> = { S: 120, A: 80, B: 50, C: 30 };
+
+function v22RewardTier(verb: string): string {
+  if (verb === 'buy') return 'A';
+  if (verb === 'watch' || verb === 'rest' || verb === 'drink' || verb === 'eat') return 'C';
+  return 'B';
+}
+
+function v22RewardVerb(item: MigratableData): string {
+  const verb = typeof item.verb === 'string' && item.verb ? item.verb : 'other';
+  if (verb !== 'eat') return verb;
+  const text = `${item.rawText || ''} ${item.object || ''}`.toLowerCase();
+  const looksLikeDrink = /(喝|饮料|奶茶|咖啡|可乐|果汁|茶|drink)/i.test(text);
+  const looksLikeEat = /(吃|鸡翅|炸鸡|汉堡|拉面|饭|火锅|寿司|pizza|eat)/i.test(text);
+  return looksLikeDrink && !looksLikeEat ? 'drink' : verb;
+}
+
+function v22RewardPricing(verb: string, pricingConfig: unknown): { priceTier: string; priceGold: number } {
+  const config = (pricingConfig && typeof pricingConfig === 'object' ? pricingConfig : V22_REWARD_PRICING) as Record<string, number>;
+  const tier = v22RewardTier(verb);
+  return { priceTier: tier, priceGold: config[verb] ?? V22_REWARD_TIER_GOLD[tier] };
+}
+
+// Economy rules and reward budget as they were when v24 / v26 shipped, so later
+// changes to the defaults do not alter what those steps seed.
+const V24_ECONOMY_CONFIG = {
+  task: {
+    minutesPerEnergy: 7.5,
+    pomodoroMinutes: 25,
+    pomodoroEnergy: 4,
+    energyMultiplier: { creative: 1.7, tax: 1.3, maintenance: 0.8 },
+    minutesMultiplier: { creative: 1.25, tax: 1.0, maintenance: 0.75 },
+    effort: {
+      light: { minutes: 25, energy: 4, gold: 10, xpCoef: 0.9 },
+      medium: { minutes: 60, energy: 10, gold: 18, xpCoef: 1.1 },
+      heavy: { minutes: 120, energy: 30, gold: 30, xpCoef: 1.3 },
+    },
+    goldImportanceCoef: { low: 0.8, medium: 1.0, high: 1.25 },
+    goldTaskTypeCoef: { creative: 1.15, tax: 1.0, maintenance: 0.9 },
+    baseXp: 8,
+    maxXp: 40,
+    xpImportanceCoef: { low: 0.9, medium: 1.0, high: 1.2 },
+    reviewXpBonus: 1.08,
+    primarySkillShare: 0.4,
+    secondarySkillShare: 0.2,
+    attributeScale: 2,
+  },
+  habit: { energyPerHour: 10, xpPerHour: 40, goldPerHour: 18 },
+  flashcard: { easy: 15, good: 10, hard: 5, sessionBonus: 50 },
+  pomodoro: { xp: 0, gold: 0 },
+  milestone: { questXpMultiplier: 1, chapterXpMultiplier: 1, seasonXpMultiplier: 1 },
+};
+
+const V26_REWARD_BUDGET = {
+  tierWeeklyBudget: { S: 0, A: 0, B: 0, C: 0 },
+  cooldowns: [],
+  dynamicPricing: { enabled: false, windowDays: 14, stepPercent: 15, maxMultiplier: 2 },
+};
+
+function mapEffort(effort: unknown): string {
+  if (typeof effort !== 'string') return 'medium';
+  if (LEGACY_EFFORT_MAP[effort]) return LEGACY_EFFORT_MAP[effort];
+  if (['light', 'medium', 'heavy'].includes(effort)) return effort;
+  return 'medium';
+}
+
+/**
+ * Moves habit check-ins to the day their timestamps fall on. Counts without a
+ * timestamp stay where they were. The current streak is recounted as the run
+ * of days ending today or yesterday, and is 0 when neither has a check-in.
+ */
+function rekeyHabitHistory(habit: MigratableData, settings: CalendarSettings, today: string): MigratableData {
+  const history: Record<string, { count: number; timestamps: string[] }> = {};
+  const add = (day: string, count: number, timestamps: string[]) => {
+    const entry = history[day] || { count: 0, timestamps: [] };
+    history[day] = { count: entry.count + count, timestamps: [...entry.timestamps, ...timestamps] };
+  };
+
+  Object.entries(habit.completionHistory || {}).forEach(([key, entry]) => {
+    const day = normalizeDayKey(key);
+    if (!day) return;
+    const value = entry as { count?: number; timestamps?: unknown };
+    const timestamps = (Array.isArray(value.timestamps) ? value.timestamps : []).filter((ts): ts is string => typeof ts === 'string');
+    const untimed = Math.max(0, (value.count || 0) - timestamps.length);
+    if (untimed > 0) add(day, untimed, []);
+    timestamps.forEach((ts) => add(getDayKey(ts, settings) || day, 1, [ts]));
+  });
+  Object.values(history).forEach((entry) => entry.timestamps.sort());
+
+  const days = Object.keys(history).filter((day) => history[day].count > 0).sort();
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && addDaysToKey(days[index - 1], 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  const lastDay = days[days.length - 1];
+  const streak = lastDay === today || lastDay === addDaysToKey(today, -1) ? run : 0;
+
+  return {
+    ...habit,
+    completionHistory: history,
+    streak: days.length > 0 ? streak : habit.streak || 0,
+    longestStreak: Math.max(habit.longestStreak || 0, longest),
+  };
+}
+
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'questProgress -> mainQuests',
+    migrate: (data) => {
+      if (!data.questProgress || data.mainQuests) return data;
+      const { questProgress: _questProgress, ...rest } = data;
+      return { ...rest, mainQuests: [] };
+    },
+  },
+  {
+    version: 2,
+    description: 'Main quests get status, importance and progress fields',
+    migrate: (data, ctx) => ({
+      ...data,
+      mainQuests: asList(data.mainQuests).map((quest) => {
+        let status = quest.status;
+        if (!status) {
+          status = quest.completedAt || quest.progress >= 100 ? 'completed' : 'active';
+        }
+        if (quest.completedAt && status === 'active') {
+          status = 'completed';
+        }
+        return {
+          ...quest,
+          status,
+          pauseInfo: status === 'paused' && !quest.pauseInfo
+            ? { reason: '未记录原因', pausedAt: ctx.now, progressSnapshot: quest.progress || 0 }
+            : quest.pauseInfo,
+          importance: quest.importance || 'medium',
+          progressType: quest.progressType || 'percentage',
+          progress: quest.progress ?? 0,
+        };
+      }),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Tasks get importance, effort, taskType and linkType',
+    migrate: (data) => ({
+      ...data,
+      customTasks: asList(data.customTasks).map((task) => {
+        const linkedToChapter = task.linkType === 'chapter' || !!task.linkedChapterId;
+        const linkedToQuest = task.linkType === 'mainQuest' || !!task.linkedMainQuestId;
+        const validTaskType = ['creative', 'tax', 'maintenance'].includes(task.taskType);
+        return {
+          ...task,
+          importance: task.importance || (linkedToChapter ? 'high' : linkedToQuest ? 'medium' : 'low'),
+          effort: task.effort || 'medium',
+          taskType: validTaskType ? task.taskType : LEGACY_TASK_TYPE_MAP[task.taskType] || 'creative',
+          linkType: task.linkType || (task.linkedChapterId ? 'chapter' : task.linkedMainQuestId ? 'mainQuest' : 'none'),
+        };
+      }),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Initialize log and history collections',
+    migrate: (data) => ({
+      ...data,
+      archivedMainQuests: data.archivedMainQuests || [],
+      recurringTasks: data.recurringTasks || [],
+      events: data.events || [],
+      eventMemories: data.eventMemories || { summaries: [], coreEvents: [] },
+      aiAnalysisHistory: data.aiAnalysisHistory || [],
+      journals: data.journals || [],
+      resourceLogs: data.resourceLogs || [],
+      energyHistory: data.energyHistory || [],
+      financialRecords: data.financialRecords || [],
+    }),
+  },
+  {
+    version: 5,
+    description: 'Initialize skills',
+    migrate: (data) => {
+      if (data.skills) return data;
+      const entry = () => ({ level: 1, xp: 0, maxXp: 100 });
+      return {
+        ...data,
+        skills: {
+          magician: { manifestation: entry(), beliefAlignment: entry(), energyAlchemy: entry() },
+          systemBalancer: { teaming: entry(), karmaManagement: entry(), startupAlchemy: entry() },
+          observer: { intuitionNavigation: entry(), selfCompassion: entry(), tripleVision: entry() },
+        },
+      };
+    },
+  },
+  {
+    version: 6,
+    description: 'Initialize pomodoro',
+    migrate: (data, ctx) => data.pomodoro ? data : {
+      ...data,
+      pomodoro: {
+        completedToday: 0,
+        lastPomodoroDate: new Date(ctx.now).toDateString(),
+        totalCompleted: 0,
+        lastUsedTaskId: null,
+      },
+    },
+  },
+  {
+    version: 7,
+    description: 'Initialize resources',
+    migrate: (data, ctx) => data.resources ? data : {
+      ...data,
+      resources: {
+        time: { total: 0 },
+        money: {
+          // Legacy `coins` is dropped in v19; carry it over so gold is not reset.
+          balance: typeof data.coins === 'number' ? data.coins : 0,
+          monthlyIncome: 1800,
+          monthlyBudget: 2400,
+          monthlySpent: 0,
+          currentMonth: getCurrentMonthStr(new Date(ctx.now)),
+        },
+        energy: { current: 80, lastUpdate: ctx.now, lastSleepRecord: null },
+      },
+    },
+  },
+  {
+    version: 8,
+    description: 'Initialize level and titles',
+    migrate: (data) => ({
+      ...data,
+      level: data.level ?? Math.floor((data.experience || 0) / 100) + 1,
+      currentTitle: data.currentTitle || 'newbie',
+      unlockedTitles: data.unlockedTitles || ['newbie'],
+    }),
+  },
+  {
+    version: 9,
+    description: 'Initialize season system and categories',
+    migrate: (data) => ({
+      ...data,
+      activeSeasons: data.activeSeasons || [],
+      seasonHistory: data.seasonHistory || [],
+      categories: data.categories || DEFAULT_LEGACY_CATEGORIES,
+    }),
+  },
+  {
+    version: 10,
+    description: 'currentSeason -> activeSeasons (multi-season)',
+    migrate: (data) => {
+      if (!data.currentSeason || asList(data.activeSeasons).length > 0) return data;
+      return {
+        ...data,
+        activeSeasons: [{ ...data.currentSeason, category: data.currentSeason.category || 'life' }],
+      };
+    },
+  },
+  {
+    version: 11,
+    description: 'Initialize transmigration',
+    migrate: (data) => ({
+      ...data,
+      transmigration: data.transmigration || {
+        permanentTitles: [],
+        keyItems: [],
+        unlockedSeasons: [],
+        unlockedDungeons: [],
+        totalLifetimeXP: 0,
+      },
+    }),
+  },
+  {
+    version: 12,
+    description: 'Initialize monitor settings',
+    migrate: (data) => ({
+      ...data,
+      monitor: data.monitor || {
+        enabled: true,
+        chartRange: 7,
+        alertsEnabled: true,
+        lastDailyReport: null,
+        reportTime: 9,
+        deadlineAlertTimes: [10, 14, 18],
+      },
+    }),
+  },
+  {
+    version: 13,
+    description: 'Initialize questionnaires',
+    migrate: (data) => ({
+      ...data,
+      questionnaires: data.questionnaires || { history: [], statistics: {}, settings: {} },
+    }),
+  },
+  {
+    version: 14,
+    description: 'Initialize belief, lore, world, progression and title modules',
+    migrate: (data, ctx) => ({
+      ...data,
+      beliefSystem: data.beliefSystem || { mode: 'default', profileBeliefs: [] },
+      loreProfile: data.loreProfile || {
+        worldTheme: '现实冒险',
+        playerArchetype: 'Builder',
+        taboos: [],
+        preferredTone: 'grounded',
+        freeTextLore: '',
+        version: 1,
+      },
+      worldState: data.worldState || {
+        epoch: 1,
+        factions: [
+          { id: 'guild_builders', name: 'Builders Guild', stance: 20, influence: 55 },
+          { id: 'guild_scholars', name: 'Scholars Circle', stance: 10, influence: 45 },
+        ],
+        worldVariables: { stability: 60, momentum: 50, prosperity: 45 },
+        activeWorldEvents: [],
+        lastEvolutionAt: ctx.now,
+      },
+      progressionConfig: data.progressionConfig || {
+        taskTypeRules: {
+          creative: {
+            primarySkills: ['magician.manifestation', 'magician.energyAlchemy'],
+            secondarySkills: ['observer.intuitionNavigation', 'observer.tripleVision'],
+            attributeWeights: { action: 0.5, intelligence: 0.4, spirit: 0.3 },
+          },
+          tax: {
+            primarySkills: ['systemBalancer.karmaManagement', 'systemBalancer.startupAlchemy'],
+            secondarySkills: ['systemBalancer.teaming', 'magician.beliefAlignment'],
+            attributeWeights: { agility: 0.5, intelligence: 0.4, action: 0.2 },
+          },
+          maintenance: {
+            primarySkills: ['observer.selfCompassion', 'systemBalancer.teaming'],
+            secondarySkills: ['magician.beliefAlignment', 'magician.energyAlchemy'],
+            attributeWeights: { life: 0.5, charm: 0.4, agility: 0.2 },
+          },
+        },
+        aiAdjustmentBounds: { min: 0.9, max: 1.1 },
+        periodCaps: { dailySkillXpCap: 200, weeklySkillXpCap: 800, dailyAttrCap: 18 },
+      },
+      titleCatalog: data.titleCatalog || { generatedTitles: [], unlockHistory: [] },
+      orchestrationLog: data.orchestrationLog || [],
+    }),
+  },
+  {
+    version: 15,
+    description: 'Initialize saved rewards, reward pool and pricing',
+    migrate: (data) => ({
+      ...data,
+      savedRewards: data.savedRewards || { quotes: [], knowledge: [], trivia: [], jokes: [], memes: [] },
+      rewardPool: data.rewardPool || [],
+      rewardPricing: {
+        eat: 20,
+        drink: 8,
+        buy: 80,
+        watch: 30,
+        play: 50,
+        rest: 30,
+        other: 50,
+        ...(data.rewardPricing || {}),
+      },
+    }),
+  },
+  {
+    version: 16,
+    description: 'Archived quests get archived/completed status and archivedAt',
+    migrate: (data, ctx) => ({
+      ...data,
+      archivedMainQuests: asList(data.archivedMainQuests).map((quest) => {
+        const needsStatus = !quest.status || quest.status === 'active';
+        const wasCompleted = quest.completedAt || quest.progress >= 100;
+        return {
+          ...quest,
+          status: needsStatus ? (wasCompleted ? 'completed' : 'archived') : quest.status,
+          archivedAt: quest.archivedAt || ctx.now,
+        };
+      }),
+    }),
+  },
+  {
+    version: 17,
+    description: 'Initialize weekly goals',
+    migrate: (data) => ({
+      ...data,
+      weeklyGoals: data.weeklyGoals || [],
+      archivedWeeklyGoals: data.archivedWeeklyGoals || [],
+    }),
+  },
+  {
+    version: 18,
+    description: 'Initialize habits from legacy recurring tasks',
+    migrate: (data, ctx) => {
+      const habits = asList(data.habits);
+      const recurringTasks = asList(data.recurringTasks);
+      return {
+        ...data,
+        archivedHabits: data.archivedHabits || [],
+        habits: habits.length > 0 || recurringTasks.length === 0
+          ? habits
+          : recurringTasks.map((rt) => ({
+            id: rt.id,
+            name: rt.name,
+            description: rt.description || undefined,
+            emoji: '✅',
+            category: undefined,
+            frequencyType: rt.frequency === 'daily' ? 'daily' : 'weekly',
+            targetPerDay: 1,
+            targetDaysPerWeek: rt.daysOfWeek?.length || 7,
+            streak: rt.streak || 0,
+            longestStreak: rt.streak || 0,
+            totalCompletions: 0,
+            completionHistory: {},
+            createdAt: rt.createdAt || ctx.now,
+            active: rt.enabled !== false,
+          })),
+      };
+    },
+  },
+  {
+    version: 19,
+    description: 'Legacy coins -> resources.money.balance with monthly summary',
+    migrate: (data, ctx) => {
+      const { coins, ...rest } = data;
+      const resources = rest.resources || {};
+      const money = resources.money || {};
+      const currentMonth = typeof money.currentMonth === 'string'
+        ? money.currentMonth
+        : getCurrentMonthStr(new Date(ctx.now));
+      const balance = typeof money.balance === 'number'
+        ? money.balance
+        : typeof coins === 'number' ? coins : 0;
+      const nextMoney = { ...money, balance, currentMonth };
+      if (typeof money.monthlyNet !== 'number') {
+        const summary = calculateMonthlyMoneyFromRecords(asList(rest.financialRecords) as never, currentMonth);
+        nextMoney.monthlyIncome = summary.income;
+        nextMoney.monthlySpent = summary.spent;
+        nextMoney.monthlyNet = summary.income - summary.spent;
+      }
+      return { ...rest, resources: { ...resources, money: nextMoney } };
+    },
+  },
+  {
+    version: 20,
+    description: 'Initialize task, reward and snapshot logs',
+    migrate: (data) => ({
+      ...data,
+      customTasks: data.customTasks || [],
+      archivedTasks: data.archivedTasks || [],
+      mainQuests: data.mainQuests || [],
+      progressLog: data.progressLog || [],
+      taskLogs: data.taskLogs || [],
+      rewardActionLogs: Array.isArray(data.rewardActionLogs) ? data.rewardActionLogs : [],
+      dailyCompletionSnapshots: data.dailyCompletionSnapshots && typeof data.dailyCompletionSnapshots === 'object'
+        ? data.dailyCompletionSnapshots
+        : {},
+    }),
+  },
+  {
+    version: 21,
+    description: 'Legacy effort names (tiny/moderate/massive) -> light/medium/heavy',
+    migrate: (data) => {
+      const withEffort = (item: MigratableData) => ({ ...item, effort: mapEffort(item.effort) });
+      return {
+        ...data,
+        customTasks: asList(data.customTasks).map(withEffort),
+        archivedTasks: asList(data.archivedTasks).map(withEffort),
+        recurringTasks: asList(data.recurringTasks).map(withEffort),
+      };
+    },
+  },
+  {
+    version: 22,
+    description: 'Reward stickers get normalized verb, price and board placement',
+    migrate: (data) => ({
+      ...data,
+      rewardPool: asList(data.rewardPool).map((item, index) => {
+        const verb = v22RewardVerb(item);
+        const pricing = v22RewardPricing(verb, data.rewardPricing);
+        // Food and drink were mispriced before per-verb pricing existed.
+        const forcePricing = verb === 'eat' || verb === 'drink';
+        const hasPlacement = ['x', 'y', 'rotation', 'zIndex'].every((key) => typeof item[key] === 'number');
+        return {
+          ...item,
+          verb,
+          priceTier: forcePricing ? pricing.priceTier : item.priceTier || pricing.priceTier,
+          priceGold: !forcePricing && typeof item.priceGold === 'number' && item.priceGold > 0
+            ? item.priceGold
+            : pricing.priceGold,
+          ...(hasPlacement ? {} : {
+            x: 12 + (index % REWARD_GRID_COLUMNS) * 180,
+            y: 12 + Math.floor(index / REWARD_GRID_COLUMNS) * 100,
+            rotation: index % 2 === 0 ? -4 : 4,
+            zIndex: 1,
+          }),
+        };
+      }),
+    }),
+  },
+  {
+    version: 23,
+    description: 'Event memories get durable facts and a dismissed list',
+    migrate: (data) => ({
+      ...data,
+      eventMemories: {
+        summaries: [],
+        coreEvents: [],
+        ...(data.eventMemories || {}),
+        facts: asList(data.eventMemories?.facts),
+        dismissed: Array.isArray(data.eventMemories?.dismissed) ? data.eventMemories.dismissed : [],
+      },
+    }),
+  },
+  {
+    version: 24,
+    description: 'Progression config gets the reward economy rules',
+    migrate: (data) => ({
+      ...data,
+      progressionConfig: data.progressionConfig && {
+        ...data.progressionConfig,
+        economy: data.progressionConfig.economy || structuredClone(V24_ECONOMY_CONFIG),
+      },
+    }),
+  },
+  {
+    version: 25,
+    description: 'User-defined achievements',
+    migrate: (data) => ({
+      ...data,
+      customAchievements: asList(data.customAchievements),
+    }),
+  },
+  {
+    version: 26,
+    description: 'Reward board gets budgets, cooldowns and a wishlist',
+    migrate: (data) => ({
+      ...data,
+      rewardBudget: data.rewardBudget || structuredClone(V26_REWARD_BUDGET),
+      rewardWishlist: asList(data.rewardWishlist),
+    }),
+  },
+  {
+    version: 27,
+    description: 'Calendar settings; habit history re-keyed from UTC to local days; reset and pomodoro days as day keys',
+    migrate: (data, ctx) => {
+      const calendarSettings = sanitizeCalendarSettings(data.calendarSettings);
+      const today = getDayKey(new Date(ctx.now), calendarSettings);
+      return {
+        ...data,
+        calendarSettings,
+        lastReset: normalizeDayKey(data.lastReset) || today,
+        pomodoro: data.pomodoro && {
+          ...data.pomodoro,
+          lastPomodoroDate: normalizeDayKey(data.pomodoro.lastPomodoroDate) || today,
+        },
+        habits: asList(data.habits).map((habit) => rekeyHabitHistory(habit, calendarSettings, today)),
+        archivedHabits: asList(data.archivedHabits).map((habit) => rekeyHabitHistory(habit, calendarSettings, today)),
+      };
+    },
+  },
+  {
+    version: 28,
+    description: 'Period caps get daily XP and gold caps, off by default',
+    migrate: (data) => ({
+      ...data,
+      progressionConfig: data.progressionConfig && {
+        ...data.progressionConfig,
+        periodCaps: { dailyXpCap: 0, dailyGoldCap: 0, ...(data.progressionConfig.periodCaps || {}) },
+      },
+    }),
+  },
+];
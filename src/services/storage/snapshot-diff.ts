@@ -0,0 +1,117 @@
+/**
+ * Snapshot Diff
+ * Per-collection comparison of two GameData copies, used to show what a
+ * snapshot restore would change.
+ */
+
+import type { GameData } from '../../types/game-data';
+import { GAME_DATA_COLLECTIONS } from '../../stores/game-store-helpers';
+
+export interface CollectionDiff {
+  key: string;
+  /** Entries present in `target` only */
+  added: number;
+  /** Entries present in `base` only */
+  removed: number;
+  /** Entries present in both but with different content */
+  changed: number;
+  /** Up to a few readable names of affected entries */
+  samples: string[];
+}
+
+export interface GameDataDiff {
+  collections: CollectionDiff[];
+  /** Non-collection top-level fields whose value differs */
+  changedFields: string[];
+}
+
+const MAX_SAMPLES = 3;
+
+type Entry = Record<string, unknown>;
+
+function entryLabel(entry: unknown, entryKey: string): string | null {
+  if (entry && typeof entry === 'object') {
+    const record = entry as Entry;
+    for (const key of ['name', 'title', 'text', 'description']) {
+      if (typeof record[key] === 'string' && record[key]) return record[key] as string;
+    }
+  }
+  // Entries keyed by their serialized value have no readable name.
+  if (entryKey.startsWith('value:')) return null;
+  return entryKey.replace(/^id:/, '');
+}
+
+/**
+ * Key entries by `id` when they have one; otherwise by their serialized value
+ * (with a counter so duplicates of append-only logs are still counted).
+ */
+function keyEntries(value: unknown, kind: 'list' | 'map'): Map<string, unknown> {
+  const entries = new Map<string, unknown>();
+  if (kind === 'map') {
+    if (value && typeof value === 'object') {
+      Object.entries(value as Entry).forEach(([key, entry]) => entries.set(key, entry));
+    }
+    return entries;
+  }
+
+  const seen = new Map<string, number>();
+  (Array.isArray(value) ? value : []).forEach((entry) => {
+    const id = entry && typeof entry === 'object' ? (entry as Entry).id : undefined;
+    const base = typeof id === 'string' || typeof id === 'number' ? `id:${id}` : `value:${JSON.stringify(entry)}`;
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    entries.set(count === 0 ? base : `${base}#${count}`, entry);
+  });
+  return entries;
+}
+
+function diffCollection(key: string, kind: 'list' | 'map', base: unknown, target: unknown): CollectionDiff {
+  const baseEntries = keyEntries(base, kind);
+  const targetEntries = keyEntries(target, kind);
+  const diff: CollectionDiff = { key, added: 0, removed: 0, changed: 0, samples: [] };
+  const addSample = (entry: unknown, entryKey: string) => {
+    if (diff.samples.length >= MAX_SAMPLES) return;
+    const label = entryLabel(entry, entryKey);
+    if (label) diff.samples.push(label);
+  };
+
+  targetEntries.forEach((entry, entryKey) => {
+    if (!baseEntries.has(entryKey)) {
+      diff.added += 1;
+      addSample(entry, entryKey);
+    } else if (JSON.stringify(baseEntries.get(entryKey)) !== JSON.stringify(entry)) {
+      diff.changed += 1;
+      addSample(entry, entryKey);
+    }
+  });
+  baseEntries.forEach((entry, entryKey) => {
+    if (!targetEntries.has(entryKey)) {
+      diff.removed += 1;
+      addSample(entry, entryKey);
+    }
+  });
+
+  return diff;
+}
+
+/**
+ * Compare `base` (e.g. the current state) with `target` (e.g. a snapshot).
+ * Only collections with differences are returned.
+ */
+export function diffGameData(base: Partial<GameData>, target: Partial<GameData>): GameDataDiff {
+  const collectionKinds = GAME_DATA_COLLECTIONS as Record<string, 'list' | 'map'>;
+  const baseRecord = base as Entry;
+  const targetRecord = target as Entry;
+
+  const collections = Object.entries(collectionKinds)
+    .map(([key, kind]) => diffCollection(key, kind, baseRecord[key], targetRecord[key]))
+    .filter((diff) => diff.added + diff.removed + diff.changed > 0);
+
+  const fieldKeys = new Set([...Object.keys(baseRecord), ...Object.keys(targetRecord)]);
+  const changedFields = Array.from(fieldKeys)
+    .filter((key) => !collectionKinds[key] && typeof baseRecord[key] !== 'function')
+    .filter((key) => JSON.stringify(baseRecord[key]) !== JSON.stringify(targetRecord[key]))
+    .sort();
+
+  return { collections, changedFields };
+}
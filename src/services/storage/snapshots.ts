@@ -0,0 +1,245 @@
+/**
+ * Snapshot Service
+ * Rolling, compressed point-in-time copies of GameData kept in IndexedDB.
+ *
+ * Snapshots are taken on a schedule and right before risky operations
+ * (import, reset, orchestration cycle, AI tool calls). Pruning follows a
+ * tiered retention policy: everything from the last hour, then one per
+ * hour, per day and per week.
+ */
+
+import type { GameData } from '../../types/game-data';
+import { createPrefixedId } from '../../lib/id';
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from './indexeddb';
+
+export type SnapshotReason =
+  | 'scheduled'
+  | 'manual'
+  | 'import'
+  | 'reset'
+  | 'orchestration'
+  | 'ai_tool';
+
+export interface SnapshotMeta {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  /** Extra context, e.g. the AI tool name */
+  label?: string;
+  /** Stored payload size in bytes */
+  size: number;
+  compressed: boolean;
+}
+
+interface SnapshotPayload {
+  compressed: boolean;
+  body: ArrayBuffer | string;
+}
+
+interface RetentionTier {
+  /** Snapshots younger than this fall into the tier */
+  maxAgeMs: number;
+  /** One snapshot is kept per bucket; 0 keeps every snapshot */
+  bucketMs: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+export const SNAPSHOT_RETENTION: RetentionTier[] = [
+  { maxAgeMs: HOUR_MS, bucketMs: 0 },
+  { maxAgeMs: DAY_MS, bucketMs: HOUR_MS },
+  { maxAgeMs: 7 * DAY_MS, bucketMs: DAY_MS },
+  { maxAgeMs: 8 * WEEK_MS, bucketMs: WEEK_MS },
+];
+
+export const SNAPSHOT_INTERVAL_MS = HOUR_MS;
+
+const DB_NAME = 'priaxis-snapshots';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const DATA_STORE = 'data';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let lastSnapshotJson: string | null = null;
+let snapshotQueue: Promise<unknown> = Promise.resolve();
+
+const getDb = () => {
+  if (!dbPromise) {
+    // Forget a closed or failed connection so the next call opens a fresh one.
+    const opening: Promise<IDBDatabase> = openDatabase(DB_NAME, DB_VERSION, [META_STORE, DATA_STORE], () => {
+      if (dbPromise === opening) dbPromise = null;
+    });
+    opening.catch(() => {
+      if (dbPromise === opening) dbPromise = null;
+    });
+    dbPromise = opening;
+  }
+  return dbPromise;
+};
+
+async function compress(json: string): Promise<SnapshotPayload> {
+  if (typeof CompressionStream === 'undefined') {
+    return { compressed: false, body: json };
+  }
+  const stream = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'));
+  return { compressed: true, body: await new Response(stream).arrayBuffer() };
+}
+
+async function decompress(payload: SnapshotPayload): Promise<string> {
+  if (!payload.compressed) return payload.body as string;
+  const stream = new Blob([payload.body as ArrayBuffer]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
+
+/**
+ * Pick the snapshots the retention policy drops.
+ * Within each bucket the newest snapshot survives; the newest overall always does.
+ */
+export function selectSnapshotsToPrune(snapshots: SnapshotMeta[], now: Date = new Date()): SnapshotMeta[] {
+  const newestFirst = [...snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const seenBuckets = new Set<string>();
+  const pruned: SnapshotMeta[] = [];
+
+  newestFirst.forEach((snapshot, index) => {
+    if (index === 0) return;
+    const createdMs = new Date(snapshot.createdAt).getTime();
+    const age = now.getTime() - createdMs;
+    const tierIndex = SNAPSHOT_RETENTION.findIndex((tier) => age < tier.maxAgeMs);
+    if (tierIndex < 0) {
+      pruned.push(snapshot);
+      return;
+    }
+
+    const { bucketMs } = SNAPSHOT_RETENTION[tierIndex];
+    if (bucketMs === 0) return;
+    const bucket = `${tierIndex}:${Math.floor(createdMs / bucketMs)}`;
+    if (seenBuckets.has(bucket)) {
+      pruned.push(snapshot);
+    } else {
+      seenBuckets.add(bucket);
+    }
+  });
+
+  return pruned;
+}
+
+/**
+ * List stored snapshots, newest first
+ */
+export async function listSnapshots(): Promise<SnapshotMeta[]> {
+  if (!isIndexedDBAvailable()) return [];
+  const db = await getDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const metas = await requestToPromise(tx.objectStore(META_STORE).getAll()) as SnapshotMeta[];
+  return metas.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Load the GameData stored in a snapshot
+ */
+export async function loadSnapshot(id: string): Promise<Partial<GameData> | null> {
+  if (!isIndexedDBAvailable()) return null;
+  const db = await getDb();
+  const tx = db.transaction(DATA_STORE, 'readonly');
+  const payload = await requestToPromise(tx.objectStore(DATA_STORE).get(id)) as SnapshotPayload | undefined;
+  if (!payload) return null;
+  return JSON.parse(await decompress(payload)) as Partial<GameData>;
+}
+
+/**
+ * Delete one snapshot
+ */
+export async function deleteSnapshot(id: string): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+  const db = await getDb();
+  const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+  tx.objectStore(META_STORE).delete(id);
+  tx.objectStore(DATA_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+async function pruneSnapshots(db: IDBDatabase): Promise<void> {
+  const readTx = db.transaction(META_STORE, 'readonly');
+  const metas = await requestToPromise(readTx.objectStore(META_STORE).getAll()) as SnapshotMeta[];
+  const pruned = selectSnapshotsToPrune(metas);
+  if (pruned.length === 0) return;
+
+  const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+  pruned.forEach(({ id }) => {
+    tx.objectStore(META_STORE).delete(id);
+    tx.objectStore(DATA_STORE).delete(id);
+  });
+  await transactionDone(tx);
+}
+
+/**
+ * Save a snapshot of `data`, then prune by the retention policy.
+ * The data is serialized synchronously so the snapshot reflects the state at
+ * call time even if a risky operation runs right after. Identical consecutive
+ * snapshots are skipped. Never throws; resolves `null` when nothing was saved.
+ */
+export function createSnapshot(reason: SnapshotReason, data: GameData, label?: string): Promise<SnapshotMeta | null> {
+  if (!isIndexedDBAvailable()) return Promise.resolve(null);
+
+  let json: string;
+  try {
+    json = JSON.stringify(data);
+  } catch (error) {
+    console.warn('[Snapshot] Failed to serialize game data:', error);
+    return Promise.resolve(null);
+  }
+  if (json === lastSnapshotJson) return Promise.resolve(null);
+  lastSnapshotJson = json;
+
+  const task = snapshotQueue.then(async () => {
+    try {
+      const payload = await compress(json);
+      const meta: SnapshotMeta = {
+        id: createPrefixedId('snap'),
+        createdAt: new Date().toISOString(),
+        reason,
+        label,
+        size: typeof payload.body === 'string' ? payload.body.length : payload.body.byteLength,
+        compressed: payload.compressed,
+      };
+
+      const db = await getDb();
+      const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+      tx.objectStore(META_STORE).put(meta, meta.id);
+      tx.objectStore(DATA_STORE).put(payload, meta.id);
+      await transactionDone(tx);
+      await pruneSnapshots(db);
+      return meta;
+    } catch (error) {
+      lastSnapshotJson = null;
+      console.warn('[Snapshot] Failed to save snapshot:', error);
+      return null;
+    }
+  });
+  snapshotQueue = task;
+  return task;
+}
+
+/**
+ * Take a scheduled snapshot now (unless one is less than an interval old)
+ * and then every `SNAPSHOT_INTERVAL_MS`. Returns a stop function.
+ */
+export function startSnapshotSchedule(getData: () => GameData): () => void {
+  if (!isIndexedDBAvailable()) return () => undefined;
+
+  const takeScheduled = () => {
+    void createSnapshot('scheduled', getData());
+  };
+
+  listSnapshots()
+    .then(([latest]) => {
+      const latestAge = latest ? Date.now() - new Date(latest.createdAt).getTime() : Infinity;
+      if (latestAge >= SNAPSHOT_INTERVAL_MS) takeScheduled();
+    })
+    .catch((error) => console.warn('[Snapshot] Failed to read snapshots:', error));
+
+  const timer = window.setInterval(takeScheduled, SNAPSHOT_INTERVAL_MS);
+  return () => window.clearInterval(timer);
+}
@@ -7,6 +7,8 @@ import type { CustomTask, MainQuest, Season, Chapter } from '../types/task';
 import type { MoSCoWPriority, MoSCoWSuggestion, HealthMetrics } from '../types/planner';
 import type { SMARTScore, PruningDecision } from '../features/planner/components/SMARTAnalysis';
 import { coachAI } from './coach-ai';
+import { getBlockedTaskIds, getTaskBlockers, orderByDependencies } from '../lib/dependencies';
+import type { BlockerInfo } from '../lib/dependencies';
 
 // ==================== Types ====================
 
@@ -38,9 +40,11 @@ export function suggestMoSCoW(
 ): MoSCoWSuggestion[] {
   const suggestions: MoSCoWSuggestion[] = [];
   const now = new Date();
+  const blockersOf = new Map<string, BlockerInfo[]>();
   
   for (const task of tasks) {
     if (task.completed) continue;
+    blockersOf.set(task.id, getTaskBlockers(task, tasks, quests));
     
     const suggestion = analyzeTaskMoSCoW(task, quests, metrics, now);
     if (suggestion) {
@@ -48,9 +52,65 @@ export function suggestMoSCoW(
     }
   }
   
+  applyDependencyRules(suggestions, tasks, blockersOf);
   return suggestions;
 }
 
+/**
+ * 依赖关系修正：
+ * - 被阻塞的 Must 任务，其前置任务同样是 Must（沿依赖链向上传递）
+ * - 被阻塞的任务暂时做不了，最多是 Should
+ */
+function applyDependencyRules(
+  suggestions: MoSCoWSuggestion[],
+  tasks: TaskWithContext[],
+  blockersOf: Map<string, BlockerInfo[]>
+): void {
+  const byTaskId = new Map(suggestions.map(s => [s.taskId, s]));
+  const taskNames = new Map(tasks.map(t => [t.id, t.name]));
+  const pending = suggestions.filter(s => s.suggestedPriority === 'must' && blockersOf.get(s.taskId)?.length);
+  const promoted = new Set<string>();
+  
+  while (pending.length > 0) {
+    const dependent = pending.pop()!;
+    for (const blocker of blockersOf.get(dependent.taskId) || []) {
+      if (blocker.type !== 'task' || promoted.has(blocker.id) || !blockersOf.has(blocker.id)) continue;
+      promoted.add(blocker.id);
+      
+      const reason = `阻塞了 Must 任务「${taskNames.get(dependent.taskId)}」`;
+      let suggestion = byTaskId.get(blocker.id);
+      if (suggestion) {
+        suggestion.reason = `${suggestion.reason}；${reason}`;
+      } else {
+        const task = tasks.find(t => t.id === blocker.id)!;
+        suggestion = {
+          taskId: task.id,
+          suggestedPriority: 'must',
+          currentPriority: task.moscow as MoSCoWPriority | undefined,
+          reason,
+          confidence: 0,
+          confirmedByUser: false,
+          suggestedAt: new Date().toISOString(),
+        };
+        suggestions.push(suggestion);
+        byTaskId.set(task.id, suggestion);
+      }
+      suggestion.suggestedPriority = 'must';
+      suggestion.confidence = Math.max(suggestion.confidence, dependent.confidence);
+      if (blockersOf.get(blocker.id)?.length) pending.push(suggestion);
+    }
+  }
+  
+  for (const suggestion of suggestions) {
+    const blockers = blockersOf.get(suggestion.taskId) || [];
+    if (blockers.length === 0) continue;
+    if (suggestion.suggestedPriority === 'must') {
+      suggestion.suggestedPriority = 'should';
+    }
+    suggestion.reason = `${suggestion.reason}；🔒 被「${blockers.map(b => b.name).join('、')}」阻塞，需先完成前置项`;
+  }
+}
+
 function analyzeTaskMoSCoW(
   task: TaskWithContext,
   quests: MainQuest[],
@@ -532,10 +592,12 @@ function analyzeQuestPruning(
 
 /**
  * 基于 MoSCoW 和四象限推荐执行顺序
+ * 前置任务继承后续任务的分数，被阻塞的任务排在可执行任务之后，且始终排在其前置任务之后
  */
 export function recommendExecutionOrder(
   tasks: CustomTask[],
-  moscowSuggestions: MoSCoWSuggestion[]
+  moscowSuggestions: MoSCoWSuggestion[],
+  quests: MainQuest[] = []
 ): string[] {
   const suggestionMap = new Map(moscowSuggestions.map(s => [s.taskId, s]));
   
@@ -581,14 +643,64 @@ export function recommendExecutionOrder(
       return { taskId: task.id, score };
     });
   
-  // 按分数排序
-  scoredTasks.sort((a, b) => b.score - a.score);
+  // 前置任务继承后续任务的分数，避免关键路径上的任务被低估
+  const scores = new Map(scoredTasks.map(t => [t.taskId, t.score]));
+  const blockedByMap = new Map(tasks.map(t => [t.id, t.blockedBy || []]));
+  const raiseBlockers = (taskId: string, score: number, seen: Set<string>) => {
+    for (const blockerId of blockedByMap.get(taskId) || []) {
+      if (!scores.has(blockerId) || seen.has(blockerId)) continue;
+      seen.add(blockerId);
+      scores.set(blockerId, Math.max(scores.get(blockerId)!, score));
+      raiseBlockers(blockerId, score, seen);
+    }
+  };
+  scoredTasks.forEach(t => raiseBlockers(t.taskId, t.score, new Set([t.taskId])));
+  
+  // 按分数排序，被阻塞的任务排在后面
+  const blocked = getBlockedTaskIds(tasks, quests);
+  const sortedIds = scoredTasks
+    .map(t => t.taskId)
+    .sort((a, b) =>
+      Number(blocked.has(a)) - Number(blocked.has(b)) || scores.get(b)! - scores.get(a)!
+    );
   
-  return scoredTasks.map(t => t.taskId);
+  return orderByDependencies(sortedIds, tasks);
 }
 
 // ==================== AI-Enhanced Analysis ====================
 
+/** 单次请求 AI 分类的任务上限，控制提示长度 */
+const AI_MOSCOW_TASK_LIMIT = 20;
+
+const MOSCOW_LABELS: Record<MoSCoWPriority, string> = {
+  must: 'Must',
+  should: 'Should',
+  could: 'Could',
+  wont: "Won't",
+};
+
+/**
+ * 合并 AI 分类：只调整置信度和理由，不改动规则给出的分类，
+ * 保证依赖关系修正（前置任务的 Must 传递、被阻塞任务降级）依然成立
+ */
+function mergeAIMoSCoW(
+  suggestions: MoSCoWSuggestion[],
+  aiItems: { taskId: string; priority: MoSCoWPriority; reason: string }[]
+): void {
+  const byTaskId = new Map(suggestions.map(s => [s.taskId, s]));
+  for (const item of aiItems) {
+    const suggestion = byTaskId.get(item.taskId);
+    if (!suggestion) continue;
+    if (item.priority === suggestion.suggestedPriority) {
+      suggestion.confidence = Math.max(suggestion.confidence, 0.85);
+      suggestion.reason = `${suggestion.reason}；AI：${item.reason}`;
+    } else {
+      suggestion.confidence = Math.round(suggestion.confidence * 0.8 * 100) / 100;
+      suggestion.reason = `${suggestion.reason}；AI 建议 ${MOSCOW_LABELS[item.priority]}：${item.reason}`;
+    }
+  }
+}
+
 /**
  * 使用 AI 进行深度分析（需要 Coach AI 可用）
  */
@@ -618,19 +730,22 @@ export async function getAIStrategyRecommendation(
     }
   }
   
-  // 推荐执行顺序
-  const executionOrder = recommendExecutionOrder(tasks, moscowSuggestions);
-  
-  // 如果 Coach AI 可用，可以进一步增强分析
+  // Coach AI 可用时，用结构化的 MoSCoW 建议校准规则结果的置信度
   if (coachAI.checkAvailability()) {
+    const openTasks = tasks.filter(t => !t.completed).slice(0, AI_MOSCOW_TASK_LIMIT);
     try {
-      // 可以调用 coachAI.suggestMoSCoW 进行更智能的分析
-      // 这里保留接口，但默认使用规则引擎的结果
+      const response = openTasks.length > 0 ? await coachAI.suggestMoSCoW(openTasks) : null;
+      if (response?.moscow) {
+        mergeAIMoSCoW(moscowSuggestions, response.moscow);
+      }
     } catch {
       console.warn('[StrategyEngine] AI enhancement failed, using rule-based analysis');
     }
   }
   
+  // 推荐执行顺序
+  const executionOrder = recommendExecutionOrder(tasks, moscowSuggestions, quests);
+  
   return {
     moscowSuggestions,
     pruningDecisions,
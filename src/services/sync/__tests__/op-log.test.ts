@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { applyOps, type SyncOp } from '../op-log';
+
+const LOG_ENTRY = { taskId: 't1', action: 'completed' };
+
+function appendOp(hlc: string, deviceId = 'device-b'): SyncOp {
+    return {
+        id: `${deviceId}-${hlc}`,
+        deviceId,
+        hlc: `${hlc}:${deviceId}`,
+        action: 'completeTask',
+        changes: [{ kind: 'append', field: 'taskLogs', value: LOG_ENTRY }],
+    };
+}
+
+describe('applyOps', () => {
+    it('keeps identical entries appended by different ops', () => {
+        const result = applyOps({ taskLogs: [LOG_ENTRY] }, [appendOp('1000:0'), appendOp('1000:1')], {});
+        expect(result.patch.taskLogs).toEqual([LOG_ENTRY, LOG_ENTRY, LOG_ENTRY]);
+        expect(result.applied).toBe(2);
+    });
+
+    it('applies an op delivered twice in one batch once', () => {
+        const op = appendOp('1000:0');
+        const result = applyOps({ taskLogs: [] }, [op, { ...op }], {});
+        expect(result.patch.taskLogs).toEqual([LOG_ENTRY]);
+    });
+
+    it('skips ops already applied by an earlier batch', () => {
+        const first = applyOps({ taskLogs: [] }, [appendOp('1000:0')], {});
+        const state = { taskLogs: first.patch.taskLogs };
+        const second = applyOps(state, [appendOp('1000:0'), appendOp('2000:0')], first.versions);
+        expect(second.patch.taskLogs).toEqual([LOG_ENTRY, LOG_ENTRY]);
+        expect(second.applied).toBe(1);
+    });
+
+    it('tracks each device separately', () => {
+        const first = applyOps({ taskLogs: [] }, [appendOp('2000:0', 'device-b')], {});
+        const second = applyOps(
+            { taskLogs: first.patch.taskLogs },
+            [appendOp('1000:0', 'device-c')],
+            first.versions
+        );
+        expect(second.patch.taskLogs).toEqual([LOG_ENTRY, LOG_ENTRY]);
+    });
+});
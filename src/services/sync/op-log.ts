@@ -0,0 +1,271 @@
+/**
+ * Sync Operation Log
+ * Pure helpers for turning game store mutations into replayable ops and
+ * replaying them deterministically.
+ *
+ * Each op carries the state changes its action produced (not the action's
+ * arguments), so replay never re-runs ID generation, timestamps or random
+ * rolls. Conflicts are last-writer-wins per entity / field, ordered by a
+ * hybrid logical clock (HLC), so devices converge regardless of the order in
+ * which they receive ops.
+ */
+
+import { GAME_DATA_COLLECTIONS } from '../../stores/game-store-helpers';
+
+/**
+ * - `upsert` / `delete`: one entity of an id-keyed list, or one key of a map collection
+ * - `order`: the id order of an entity list (e.g. reordered habits)
+ * - `append`: a new entry of a log without ids
+ * - `set`: any other top-level field, replaced as a whole
+ */
+export type SyncChange =
+  | { kind: 'upsert'; field: string; id: string; value: unknown }
+  | { kind: 'delete'; field: string; id: string }
+  | { kind: 'order'; field: string; ids: string[] }
+  | { kind: 'append'; field: string; value: unknown }
+  | { kind: 'set'; field: string; value: unknown };
+
+export interface SyncOp {
+  id: string;
+  deviceId: string;
+  /** HLC timestamp, comparable as a string */
+  hlc: string;
+  /** Store action that produced the changes (e.g. `addTask`) */
+  action: string;
+  changes: SyncChange[];
+  /** Position in the bridge's log; set by the bridge */
+  seq?: number;
+}
+
+/**
+ * Latest HLC applied per change key; deletes stay as tombstones. `@device/<id>`
+ * keys hold the latest op applied from each device.
+ */
+export type SyncVersions = Record<string, string>;
+
+type StateRecord = Record<string, unknown>;
+
+const MAP_FIELDS = new Set(
+  Object.entries(GAME_DATA_COLLECTIONS)
+    .filter(([, kind]) => kind === 'map')
+    .map(([field]) => field)
+);
+
+// --- Hybrid logical clock ---
+
+function parseHlc(hlc: string | undefined): { ms: number; counter: number } {
+  if (!hlc) return { ms: 0, counter: 0 };
+  const [ms, counter] = hlc.split(':');
+  return { ms: Number(ms) || 0, counter: Number(counter) || 0 };
+}
+
+function formatHlc(ms: number, counter: number, deviceId: string): string {
+  return `${String(ms).padStart(13, '0')}:${String(counter).padStart(4, '0')}:${deviceId}`;
+}
+
+/**
+ * Next local clock value; always greater than `previous`
+ */
+export function tickHlc(previous: string | undefined, deviceId: string, now: number = Date.now()): string {
+  const last = parseHlc(previous);
+  if (now > last.ms) return formatHlc(now, 0, deviceId);
+  return formatHlc(last.ms, last.counter + 1, deviceId);
+}
+
+/**
+ * Merge a remote clock value into the local one
+ */
+export function receiveHlc(local: string | undefined, remote: string, deviceId: string): string {
+  const newest = !local || remote > local ? remote : local;
+  return tickHlc(newest, deviceId);
+}
+
+// --- Change detection ---
+
+const isEntity = (value: unknown): value is { id: string } =>
+  !!value && typeof value === 'object' && typeof (value as { id?: unknown }).id === 'string';
+
+export function changeKey(change: SyncChange): string {
+  switch (change.kind) {
+    case 'upsert':
+    case 'delete':
+      return `${change.field}/${change.id}`;
+    case 'order':
+      return `${change.field}#order`;
+    default:
+      return change.field;
+  }
+}
+
+function diffEntityList(field: string, prev: unknown[], next: { id: string }[]): SyncChange[] {
+  const changes: SyncChange[] = [];
+  const prevById = new Map<string, unknown>();
+  prev.forEach((item) => {
+    if (isEntity(item)) prevById.set(item.id, item);
+  });
+  const nextIds = new Set(next.map((item) => item.id));
+
+  next.forEach((item) => {
+    if (prevById.get(item.id) !== item) changes.push({ kind: 'upsert', field, id: item.id, value: item });
+  });
+  prevById.forEach((_item, id) => {
+    if (!nextIds.has(id)) changes.push({ kind: 'delete', field, id });
+  });
+
+  // Appending at the end is implied by upsert; anything else needs an explicit order.
+  const keptPrevIds = prev.filter(isEntity).map((item) => item.id).filter((id) => nextIds.has(id));
+  const nextExistingIds = next.map((item) => item.id).filter((id) => prevById.has(id));
+  const appendedOnly = next.slice(0, keptPrevIds.length).every((item, index) => item.id === keptPrevIds[index]);
+  if (!appendedOnly || keptPrevIds.join() !== nextExistingIds.join()) {
+    changes.push({ kind: 'order', field, ids: next.map((item) => item.id) });
+  }
+  return changes;
+}
+
+function diffField(field: string, prev: unknown, next: unknown): SyncChange[] {
+  if (MAP_FIELDS.has(field)) {
+    const prevMap = (prev && typeof prev === 'object' ? prev : {}) as StateRecord;
+    const nextMap = (next && typeof next === 'object' ? next : {}) as StateRecord;
+    const changes: SyncChange[] = [];
+    Object.entries(nextMap).forEach(([id, value]) => {
+      if (prevMap[id] !== value) changes.push({ kind: 'upsert', field, id, value });
+    });
+    Object.keys(prevMap).forEach((id) => {
+      if (!(id in nextMap)) changes.push({ kind: 'delete', field, id });
+    });
+    return changes;
+  }
+
+  if (Array.isArray(next)) {
+    const prevList = Array.isArray(prev) ? prev : [];
+    if (next.every(isEntity) && prevList.every(isEntity)) {
+      return diffEntityList(field, prevList, next);
+    }
+    // Append-only logs without ids: ship only the new tail.
+    const isAppend = prevList.length <= next.length && prevList.every((item, index) => item === next[index]);
+    if (isAppend) {
+      return next.slice(prevList.length).map((value) => ({ kind: 'append', field, value }) as SyncChange);
+    }
+  }
+
+  return [{ kind: 'set', field, value: next }];
+}
+
+/**
+ * Changes between two store states. Relies on immutable updates: unchanged
+ * fields and entities keep their reference. Functions (actions) are ignored.
+ */
+export function computeChanges(prev: StateRecord, next: StateRecord): SyncChange[] {
+  const changes: SyncChange[] = [];
+  const fields = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  fields.forEach((field) => {
+    const nextValue = next[field];
+    const prevValue = prev[field];
+    if (nextValue === prevValue || typeof nextValue === 'function' || typeof prevValue === 'function') return;
+    changes.push(...diffField(field, prevValue, nextValue));
+  });
+  return changes;
+}
+
+/**
+ * Collapse repeated changes to the same key, keeping the latest
+ */
+export function coalesceChanges(changes: SyncChange[]): SyncChange[] {
+  const latestIndex = new Map<string, number>();
+  changes.forEach((change, index) => {
+    if (change.kind !== 'append') latestIndex.set(changeKey(change), index);
+  });
+  return changes.filter((change, index) => change.kind === 'append' || latestIndex.get(changeKey(change)) === index);
+}
+
+/**
+ * Every field of a state expressed as changes; used to seed a new sync log
+ */
+export function stateToChanges(state: StateRecord): SyncChange[] {
+  return computeChanges({}, state);
+}
+
+// --- Replay ---
+
+function applyChange(draft: StateRecord, change: SyncChange): void {
+  const current = draft[change.field];
+
+  if (MAP_FIELDS.has(change.field) && (change.kind === 'upsert' || change.kind === 'delete')) {
+    const map = { ...((current && typeof current === 'object' ? current : {}) as StateRecord) };
+    if (change.kind === 'upsert') map[change.id] = change.value;
+    else delete map[change.id];
+    draft[change.field] = map;
+    return;
+  }
+
+  const list = Array.isArray(current) ? current : [];
+  switch (change.kind) {
+    case 'upsert': {
+      const index = list.findIndex((item) => isEntity(item) && item.id === change.id);
+      draft[change.field] = index < 0
+        ? [...list, change.value]
+        : list.map((item, i) => (i === index ? change.value : item));
+      return;
+    }
+    case 'delete':
+      draft[change.field] = list.filter((item) => !isEntity(item) || item.id !== change.id);
+      return;
+    case 'order': {
+      const position = new Map(change.ids.map((id, index) => [id, index]));
+      const rank = (item: unknown) => (isEntity(item) && position.has(item.id) ? position.get(item.id)! : change.ids.length);
+      draft[change.field] = list
+        .map((item, index) => ({ item, index }))
+        .sort((a, b) => rank(a.item) - rank(b.item) || a.index - b.index)
+        .map(({ item }) => item);
+      return;
+    }
+    case 'append':
+      draft[change.field] = [...list, change.value];
+      return;
+    case 'set':
+      draft[change.field] = change.value;
+  }
+}
+
+const deviceKey = (deviceId: string) => `@device/${deviceId}`;
+
+/**
+ * Replay remote ops on top of `state`. A change only applies when its op is
+ * newer than the last op that touched the same key, so the result does not
+ * depend on delivery order. Each op applies at most once: a device's ops reach
+ * the log in HLC order, so one at or below that device's latest applied HLC is
+ * a redelivery. Returns the changed fields and updated versions.
+ */
+export function applyOps(
+  state: StateRecord,
+  ops: SyncOp[],
+  versions: SyncVersions
+): { patch: StateRecord; versions: SyncVersions; applied: number } {
+  const draft: StateRecord = {};
+  const nextVersions = { ...versions };
+  let applied = 0;
+
+  const seen = new Set<string>();
+  const sorted = [...ops].sort((a, b) => (a.hlc < b.hlc ? -1 : a.hlc > b.hlc ? 1 : 0));
+  sorted.forEach((op) => {
+    const identity = `${op.deviceId}|${op.hlc}`;
+    const latest = nextVersions[deviceKey(op.deviceId)];
+    if (seen.has(identity) || (latest && latest >= op.hlc)) return;
+    seen.add(identity);
+    nextVersions[deviceKey(op.deviceId)] = op.hlc;
+
+    op.changes.forEach((change) => {
+      if (change.kind !== 'append') {
+        const key = changeKey(change);
+        const known = nextVersions[key];
+        if (known && known >= op.hlc) return;
+        nextVersions[key] = op.hlc;
+      }
+      if (!(change.field in draft)) draft[change.field] = state[change.field];
+      applyChange(draft, change);
+      applied += 1;
+    });
+  });
+
+  return { patch: draft, versions: nextVersions, applied };
+}
@@ -0,0 +1,376 @@
+/**
+ * Sync Client
+ * Records game store mutations as ops, pushes them to the MCP bridge and
+ * replays ops from other devices.
+ *
+ * Local changes are captured by diffing store states in a subscription and
+ * tagged with the store action that caused them. Ops wait in a persisted
+ * outbox until the bridge acknowledges them, so edits made offline are sent
+ * on the next connection.
+ */
+
+import { useGameStore } from '../../stores/game-store';
+import { useSyncStore } from '../../stores/sync-store';
+import { createPrefixedId } from '../../lib/id';
+import {
+  applyOps,
+  changeKey,
+  coalesceChanges,
+  computeChanges,
+  receiveHlc,
+  stateToChanges,
+  tickHlc,
+} from './op-log';
+import type { SyncChange, SyncOp, SyncVersions } from './op-log';
+
+const BRIDGE_TOKEN = import.meta.env.VITE_BRIDGE_TOKEN || '';
+const SYNC_BASE = '/mcp/sync';
+const PUSH_BATCH_SIZE = 200;
+/** Stay well below the bridge's 1mb JSON body limit */
+const MAX_PUSH_BYTES = 512 * 1024;
+const RETRY_DELAY_MS = 5000;
+/** Pull-and-retry rounds after the bridge rejects a push as stale */
+const MAX_STALE_PUSH_RETRIES = 5;
+
+type StateRecord = Record<string, unknown>;
+
+interface PendingBatch {
+  action: string;
+  changes: SyncChange[];
+}
+
+function syncHeaders(clientId: number | null): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (BRIDGE_TOKEN) headers['x-bridge-token'] = BRIDGE_TOKEN;
+  if (clientId !== null) headers['x-sync-client-id'] = String(clientId);
+  return headers;
+}
+
+/**
+ * Split changes into ops that each stay under the push size limit
+ */
+function chunkChanges(changes: SyncChange[]): SyncChange[][] {
+  const chunks: SyncChange[][] = [];
+  let current: SyncChange[] = [];
+  let size = 0;
+  changes.forEach((change) => {
+    const changeSize = JSON.stringify(change).length;
+    if (current.length > 0 && size + changeSize > MAX_PUSH_BYTES / 2) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(change);
+    size += changeSize;
+  });
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+class SyncClient {
+  private sse: EventSource | null = null;
+  private clientId: number | null = null;
+  private unsubscribeStore: (() => void) | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending: PendingBatch | null = null;
+  private flushScheduled = false;
+  private pushing: Promise<void> | null = null;
+  private pulling: Promise<boolean> | null = null;
+  private applyingRemote = false;
+  private activeAction: string | null = null;
+  private actionsWrapped = false;
+
+  /**
+   * Start syncing if enabled, and follow the enabled flag from then on.
+   * Call once both stores have hydrated.
+   */
+  init(): () => void {
+    if (useSyncStore.getState().enabled) this.start();
+    const unsubscribe = useSyncStore.subscribe((state, prev) => {
+      if (state.enabled === prev.enabled) return;
+      if (state.enabled) this.start();
+      else this.stop();
+    });
+    return () => {
+      unsubscribe();
+      this.stop();
+    };
+  }
+
+  private start(): void {
+    if (this.unsubscribeStore) return;
+    this.wrapActions();
+    this.unsubscribeStore = useGameStore.subscribe((state, prev) => this.capture(state, prev));
+    useSyncStore.getState().setStatus('connecting');
+    this.connect();
+  }
+
+  private stop(): void {
+    this.flush();
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = null;
+    this.sse?.close();
+    this.sse = null;
+    this.clientId = null;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    useSyncStore.getState().setStatus('disabled');
+  }
+
+  // --- Capture ---
+
+  /**
+   * Wrap every store action so captured changes know which action made them.
+   * Nested calls keep the outermost name.
+   */
+  private wrapActions(): void {
+    if (this.actionsWrapped) return;
+    this.actionsWrapped = true;
+    const state = useGameStore.getState() as unknown as StateRecord;
+    const wrapped: StateRecord = {};
+    Object.entries(state).forEach(([name, value]) => {
+      if (typeof value !== 'function') return;
+      const action = value as (...args: unknown[]) => unknown;
+      wrapped[name] = (...args: unknown[]) => {
+        const isOutermost = this.activeAction === null;
+        if (isOutermost) this.activeAction = name;
+        try {
+          return action(...args);
+        } finally {
+          if (isOutermost) this.activeAction = null;
+        }
+      };
+    });
+    useGameStore.setState(wrapped);
+  }
+
+  private capture(state: unknown, prev: unknown): void {
+    if (this.applyingRemote) return;
+    const changes = computeChanges(prev as StateRecord, state as StateRecord);
+    if (changes.length === 0) return;
+
+    const action = this.activeAction || 'setState';
+    if (this.pending && this.pending.action !== action) this.flush();
+    if (!this.pending) this.pending = { action, changes: [] };
+    this.pending.changes.push(...changes);
+
+    // One action can call set() several times; coalesce them into one op.
+    if (!this.flushScheduled) {
+      this.flushScheduled = true;
+      queueMicrotask(() => {
+        this.flushScheduled = false;
+        this.flush();
+      });
+    }
+  }
+
+  private flush(): void {
+    const batch = this.pending;
+    this.pending = null;
+    if (!batch) return;
+    this.enqueue(batch.action, coalesceChanges(batch.changes));
+  }
+
+  private enqueue(action: string, changes: SyncChange[]): void {
+    if (changes.length === 0) return;
+    const { deviceId, clock } = useSyncStore.getState();
+    let nextClock = clock;
+    const versions: SyncVersions = {};
+    const ops: SyncOp[] = chunkChanges(changes).map((chunk) => {
+      nextClock = tickHlc(nextClock, deviceId);
+      chunk.forEach((change) => {
+        if (change.kind !== 'append') versions[changeKey(change)] = nextClock;
+      });
+      return { id: createPrefixedId('op'), deviceId, hlc: nextClock, action, changes: chunk };
+    });
+    useSyncStore.getState().enqueueOps(ops, nextClock, versions);
+    void this.push();
+  }
+
+  /**
+   * Push the local state once, after the first pull. Keys the shared log
+   * already has are left alone, so a device joining with empty or stale
+   * data adopts the log instead of overwriting it.
+   */
+  private seed(): void {
+    const { versions } = useSyncStore.getState();
+    const state = useGameStore.getState() as unknown as StateRecord;
+    const changes = stateToChanges(state).filter((change) => change.kind === 'append' || !versions[changeKey(change)]);
+    this.enqueue('seed', changes);
+    useSyncStore.getState().markSeeded();
+  }
+
+  // --- Transport ---
+
+  private connect(): void {
+    if (this.sse) return;
+    const url = BRIDGE_TOKEN
+      ? `${SYNC_BASE}/events?token=${encodeURIComponent(BRIDGE_TOKEN)}`
+      : `${SYNC_BASE}/events`;
+    this.sse = new EventSource(url);
+
+    this.sse.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.type === 'sync-connected') {
+          this.clientId = message.clientId;
+          useSyncStore.getState().setStatus('online');
+          void this.pull().then((pulled) => {
+            if (pulled && !useSyncStore.getState().seeded) this.seed();
+            return this.push();
+          });
+        }
+        if (message.type === 'sync-ops') {
+          this.receive(message.ops as SyncOp[]);
+        }
+      } catch (e) {
+        console.error('[Sync] Error parsing SSE message', e);
+      }
+    };
+
+    this.sse.onerror = () => {
+      this.sse?.close();
+      this.sse = null;
+      this.clientId = null;
+      useSyncStore.getState().setStatus('offline');
+      this.scheduleRetry();
+    };
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer || !this.unsubscribeStore) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (!this.unsubscribeStore) return;
+      if (!this.sse) this.connect();
+      else void this.push();
+    }, RETRY_DELAY_MS);
+  }
+
+  private push(): Promise<void> {
+    if (this.pushing) return this.pushing;
+    this.pushing = (async () => {
+      try {
+        let staleRetries = 0;
+        while (this.clientId !== null) {
+          const { outbox, lastSeq } = useSyncStore.getState();
+          const batch = outbox.slice(0, PUSH_BATCH_SIZE);
+          if (batch.length === 0) break;
+          const response = await fetch(`${SYNC_BASE}/ops`, {
+            method: 'POST',
+            headers: syncHeaders(this.clientId),
+            body: JSON.stringify({ ops: batch, baseSeq: lastSeq }),
+          });
+          if (response.status === 409) {
+            // Another device pushed since our last pull; catch up, then push on top.
+            staleRetries += 1;
+            if (staleRetries > MAX_STALE_PUSH_RETRIES || !(await this.pull())) {
+              throw new Error('Sync push stayed behind the shared log');
+            }
+            continue;
+          }
+          if (!response.ok) throw new Error(`Sync push failed (${response.status})`);
+          const result = await response.json() as { accepted: number; lastSeq: number };
+          useSyncStore.getState().acknowledgeOps(batch.map((op) => op.id));
+          // Our ops sit right after our cursor; step over them instead of pulling them back.
+          if (useSyncStore.getState().lastSeq === lastSeq && result.lastSeq === lastSeq + result.accepted) {
+            useSyncStore.getState().advanceLastSeq(result.lastSeq);
+          }
+        }
+      } catch (e) {
+        console.warn('[Sync] Push failed, will retry', e);
+        this.scheduleRetry();
+      } finally {
+        this.pushing = null;
+      }
+    })();
+    return this.pushing;
+  }
+
+  private pull(): Promise<boolean> {
+    if (this.pulling) return this.pulling;
+    this.pulling = (async () => {
+      try {
+        let hasMore = true;
+        while (hasMore) {
+          const since = useSyncStore.getState().lastSeq;
+          const response = await fetch(`${SYNC_BASE}/ops?since=${since}`, { headers: syncHeaders(this.clientId) });
+          if (!response.ok) throw new Error(`Sync pull failed (${response.status})`);
+          const page = await response.json() as { ops: SyncOp[]; lastSeq: number; hasMore: boolean };
+          this.apply(page.ops, page.lastSeq);
+          hasMore = page.hasMore && page.ops.length > 0;
+        }
+        return true;
+      } catch (e) {
+        console.warn('[Sync] Pull failed', e);
+        return false;
+      } finally {
+        this.pulling = null;
+      }
+    })();
+    return this.pulling;
+  }
+
+  private receive(ops: SyncOp[]): void {
+    if (ops.length === 0) return;
+    const { lastSeq } = useSyncStore.getState();
+    // A gap means we missed ops (e.g. while reconnecting, or while our own push was in flight); pull instead.
+    if (ops[0].seq !== lastSeq + 1) {
+      void this.pull();
+      return;
+    }
+    this.apply(ops, ops[ops.length - 1].seq ?? lastSeq);
+  }
+
+  private apply(ops: SyncOp[], lastSeq: number): void {
+    const { deviceId, clock, versions } = useSyncStore.getState();
+    const remote = ops.filter((op) => op.deviceId !== deviceId);
+    let nextClock = clock;
+    remote.forEach((op) => {
+      nextClock = receiveHlc(nextClock, op.hlc, deviceId);
+    });
+
+    // Finish capturing local edits first so they are not attributed to the remote apply.
+    this.flush();
+    const result = applyOps(useGameStore.getState() as unknown as StateRecord, remote, versions);
+    if (result.applied > 0) {
+      this.applyingRemote = true;
+      try {
+        useGameStore.setState(result.patch);
+      } finally {
+        this.applyingRemote = false;
+      }
+    }
+    useSyncStore.getState().recordRemoteOps(lastSeq, nextClock, result.versions);
+  }
+}
+
+export const syncClient = new SyncClient();
+
+function whenHydrated(store: typeof useGameStore | typeof useSyncStore): Promise<void> {
+  if (store.persist.hasHydrated()) return Promise.resolve();
+  return new Promise((resolve) => {
+    const unsubscribe = store.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
+
+/**
+ * Start the sync client once the game data and the outbox have loaded.
+ * Returns a cleanup function.
+ */
+export function startSync(): () => void {
+  let stop: (() => void) | undefined;
+  let active = true;
+  Promise.all([whenHydrated(useGameStore), whenHydrated(useSyncStore)]).then(() => {
+    if (active) stop = syncClient.init();
+  });
+  return () => {
+    active = false;
+    stop?.();
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Frontmatter
+ * Reads and writes the flat YAML frontmatter used by exported vault notes.
+ *
+ * Only the subset Obsidian's property editor produces is supported: scalar
+ * values (strings, numbers, booleans, null) and lists of scalars. Strings are
+ * written double-quoted so multi-line text survives a round trip.
+ */
+
+export type FrontmatterValue = string | number | boolean | null | Array<string | number | boolean>;
+export type Frontmatter = Record<string, FrontmatterValue>;
+
+const FENCE = '---';
+
+function formatScalar(value: string | number | boolean | null): string {
+  if (value === null) return 'null';
+  if (typeof value === 'string') return JSON.stringify(value);
+  return String(value);
+}
+
+function parseScalar(raw: string): string | number | boolean | null {
+  const value = raw.trim();
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+/**
+ * Serialize fields as a frontmatter block. `undefined` values are skipped.
+ */
+export function stringifyFrontmatter(fields: Record<string, FrontmatterValue | undefined>): string {
+  const lines = [FENCE];
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value === undefined) return;
+    if (Array.isArray(value)) {
+      lines.push(value.length === 0 ? `${key}: []` : `${key}:`);
+      value.forEach((item) => lines.push(`  - ${formatScalar(item)}`));
+      return;
+    }
+    lines.push(`${key}: ${formatScalar(value)}`);
+  });
+  lines.push(FENCE);
+  return lines.join('\n');
+}
+
+/**
+ * Split a note into its frontmatter fields and the Markdown body
+ */
+export function parseFrontmatter(content: string): { frontmatter: Frontmatter; body: string } {
+  const normalized = content.replace(/\r\n/g, '\n');
+  if (!normalized.startsWith(`${FENCE}\n`)) return { frontmatter: {}, body: normalized };
+  const end = normalized.indexOf(`\n${FENCE}`, FENCE.length);
+  if (end < 0) return { frontmatter: {}, body: normalized };
+
+  const frontmatter: Frontmatter = {};
+  const blankKeys = new Set<string>();
+  let listKey: string | null = null;
+  normalized.slice(FENCE.length + 1, end).split('\n').forEach((line) => {
+    const listItem = line.match(/^\s+-\s+(.*)$/);
+    if (listItem && listKey) {
+      const item = parseScalar(listItem[1]);
+      if (item !== null) (frontmatter[listKey] as Array<string | number | boolean>).push(item);
+      blankKeys.delete(listKey);
+      return;
+    }
+    const field = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+    if (!field) return;
+    const [, key, rawValue] = field;
+    listKey = null;
+    if (rawValue.trim() === '') {
+      // Either an empty value or the start of a block list
+      frontmatter[key] = [];
+      blankKeys.add(key);
+      listKey = key;
+      return;
+    }
+    const inlineList = rawValue.trim().match(/^\[(.*)\]$/);
+    if (inlineList) {
+      frontmatter[key] = inlineList[1]
+        .split(',')
+        .map(parseScalar)
+        .filter((item): item is string | number | boolean => item !== null);
+      return;
+    }
+    frontmatter[key] = parseScalar(rawValue);
+  });
+
+  // `key:` without list items is an empty value, not an empty list
+  blankKeys.forEach((key) => {
+    frontmatter[key] = null;
+  });
+
+  const body = normalized.slice(end + FENCE.length + 1).replace(/^\n/, '');
+  return { frontmatter, body };
+}
@@ -0,0 +1,567 @@
+/**
+ * Markdown Notes
+ * Renders the goal hierarchy and journals as linked Obsidian notes, and parses
+ * those notes back into store updates.
+ *
+ * Layout under the export folder:
+ * - `Index.md` links every exported note
+ * - `Seasons/`, `Chapters/`, `Quests/`, `Tasks/` hold one note per entity,
+ *   linked parent -> children in the body and child -> parent in frontmatter
+ * - `Journal/Daily/<date>.md` and `Journal/Weekly/<week start>.md`
+ *
+ * Every note carries `priaxis_id` and `priaxis_type` in its frontmatter, which
+ * is how a re-import finds the entity to update. Derived values (progress,
+ * status, weekly stats) are exported for reference but never read back.
+ */
+
+import type {
+  Chapter,
+  ChecklistItem,
+  CustomTask,
+  Effort,
+  Importance,
+  MainQuest,
+  Season,
+  TaskType,
+} from '../../types/task';
+import type { DailySuccessEntry, WeeklyReview } from '../../types/journal';
+import { parseFrontmatter, stringifyFrontmatter } from './frontmatter';
+import type { Frontmatter, FrontmatterValue } from './frontmatter';
+
+export const DEFAULT_VAULT_FOLDER = 'Priaxis';
+
+export type VaultNoteType = 'season' | 'chapter' | 'quest' | 'task' | 'daily' | 'weekly';
+
+export interface VaultNote {
+  /** Vault-relative path including `.md` */
+  path: string;
+  content: string;
+}
+
+export interface VaultExportSource {
+  seasons: Season[];
+  quests: MainQuest[];
+  tasks: CustomTask[];
+  weeklyReviews: WeeklyReview[];
+  dailyEntries: DailySuccessEntry[];
+}
+
+type Mood = DailySuccessEntry['mood'];
+type EnergyLevel = DailySuccessEntry['energyLevel'];
+type SuccessCategory = NonNullable<DailySuccessEntry['successes'][number]['category']>;
+
+export type VaultNoteUpdate =
+  | { type: 'season'; id: string; updates: Partial<Season> }
+  | { type: 'chapter'; id: string; seasonId: string; updates: Partial<Chapter> }
+  | { type: 'quest'; id: string; updates: Partial<MainQuest> }
+  | {
+    type: 'task';
+    id: string;
+    updates: Partial<CustomTask>;
+    /** Checklist as written in the note; ids are matched by text when applied */
+    checklist?: Array<Pick<ChecklistItem, 'text' | 'completed'>>;
+  }
+  | { type: 'daily'; id?: string; date: string; entry: Partial<DailySuccessEntry> }
+  | { type: 'weekly'; id?: string; weekStartDate: string; review: Partial<WeeklyReview> };
+
+const IMPORTANCE: Importance[] = ['low', 'medium', 'high'];
+const EFFORT: Effort[] = ['light', 'medium', 'heavy'];
+const TASK_TYPES: TaskType[] = ['creative', 'tax', 'maintenance'];
+const MOODS: Mood[] = ['great', 'good', 'okay', 'low', 'bad'];
+const ENERGY: EnergyLevel[] = ['low', 'medium', 'high'];
+const SUCCESS_CATEGORIES: SuccessCategory[] = ['work', 'health', 'relationships', 'personal', 'learning', 'other'];
+
+const SMART_KEYS = ['context', 'motivation', 'consequence', 'attainable'] as const;
+
+const HEADINGS = {
+  chapters: 'Chapters',
+  quests: 'Quests',
+  tasks: 'Tasks',
+  checklist: 'Checklist',
+  successes: 'Successes',
+  gratitude: 'Gratitude',
+  affirmation: 'Affirmation',
+  moodNote: 'Mood Note',
+  highlights: 'Highlights',
+  challenges: 'Challenges',
+  learnings: 'Learnings',
+  nextWeekGoals: 'Next Week Goals',
+  nextWeekFocus: 'Next Week Focus',
+} as const;
+
+// --- Rendering ---
+
+/** Characters Obsidian does not allow in file names or links */
+function safeFileName(name: string): string {
+  const cleaned = name.replace(/[\\/:*?"<>|#^[\]]/g, ' ').replace(/\s+/g, ' ').trim();
+  return cleaned.slice(0, 80) || 'Untitled';
+}
+
+function stripExtension(path: string): string {
+  return path.replace(/\.md$/i, '');
+}
+
+function wikiLink(path: string, label: string): string {
+  return `[[${stripExtension(path)}|${safeFileName(label)}]]`;
+}
+
+function bulletList(items: string[]): string {
+  return items.map((item) => `- ${item.replace(/\n/g, ' ')}`).join('\n');
+}
+
+function section(heading: string, content: string): string {
+  return content.trim() ? `## ${heading}\n\n${content.trim()}` : `## ${heading}`;
+}
+
+function note(frontmatter: Record<string, FrontmatterValue | undefined>, title: string, parts: string[]): string {
+  const fields = Object.fromEntries(Object.entries(frontmatter).filter(([, value]) => value !== ''));
+  const body = [`# ${title}`, ...parts.filter((part) => part.trim())].join('\n\n');
+  return `${stringifyFrontmatter(fields)}\n\n${body}\n`;
+}
+
+function smartFields(entity: Partial<Record<(typeof SMART_KEYS)[number], string>>): Record<string, string | undefined> {
+  return Object.fromEntries(SMART_KEYS.map((key) => [key, entity[key] || undefined]));
+}
+
+/**
+ * Assigns each entity a unique note path within its folder
+ */
+class PathRegistry {
+  private readonly used = new Set<string>();
+  private readonly byId = new Map<string, string>();
+
+  assign(id: string, folder: string, name: string): string {
+    let path = `${folder}/${safeFileName(name)}.md`;
+    if (this.used.has(path.toLowerCase())) {
+      path = `${folder}/${safeFileName(name)} (${id.slice(-6)}).md`;
+    }
+    this.used.add(path.toLowerCase());
+    this.byId.set(id, path);
+    return path;
+  }
+
+  get(id: string | undefined): string | undefined {
+    return id ? this.byId.get(id) : undefined;
+  }
+}
+
+/**
+ * Render the goal hierarchy and journals as vault notes, index note included
+ */
+export function buildVaultNotes(source: VaultExportSource, folder: string = DEFAULT_VAULT_FOLDER): VaultNote[] {
+  const root = folder.replace(/\/+$/, '');
+  const paths = new PathRegistry();
+  const notes: VaultNote[] = [];
+
+  // Assign every path first so notes can link in both directions.
+  source.seasons.forEach((season) => {
+    paths.assign(season.id, `${root}/Seasons`, season.name);
+    season.chapters.forEach((chapter) => {
+      paths.assign(chapter.id, `${root}/Chapters`, `${season.name} - ${chapter.title}`);
+    });
+  });
+  source.quests.forEach((quest) => paths.assign(quest.id, `${root}/Quests`, quest.title));
+  source.tasks.forEach((task) => paths.assign(task.id, `${root}/Tasks`, task.name));
+
+  const chapterSeason = new Map<string, Season>();
+  source.seasons.forEach((season) => season.chapters.forEach((chapter) => chapterSeason.set(chapter.id, season)));
+  const linkTo = (id: string | undefined, label: string | undefined) => {
+    const path = paths.get(id);
+    return path ? wikiLink(path, label || '') : undefined;
+  };
+
+  source.seasons.forEach((season) => {
+    const chapters = [...season.chapters].sort((a, b) => a.order - b.order);
+    notes.push({
+      path: paths.get(season.id)!,
+      content: note(
+        {
+          priaxis_id: season.id,
+          priaxis_type: 'season',
+          title: season.name,
+          status: season.status,
+          category: season.category,
+          importance: season.importance,
+          start_date: season.startDate,
+          end_date: season.endDate,
+          ...smartFields(season),
+        },
+        season.name,
+        [
+          season.description || '',
+          chapters.length > 0
+            ? section(HEADINGS.chapters, bulletList(chapters.map((chapter) => linkTo(chapter.id, chapter.title)!)))
+            : '',
+        ]
+      ),
+    });
+
+    chapters.forEach((chapter) => {
+      const quests = source.quests.filter((quest) => quest.linkedChapterId === chapter.id);
+      notes.push({
+        path: paths.get(chapter.id)!,
+        content: note(
+          {
+            priaxis_id: chapter.id,
+            priaxis_type: 'chapter',
+            title: chapter.title,
+            season_id: season.id,
+            season: linkTo(season.id, season.name),
+            order: chapter.order,
+            status: chapter.status,
+            importance: chapter.importance,
+            progress: chapter.progress,
+            unlock_time: chapter.unlockTime,
+            deadline: chapter.deadline,
+            ...smartFields(chapter),
+          },
+          chapter.title,
+          [
+            chapter.description || '',
+            quests.length > 0
+              ? section(HEADINGS.quests, bulletList(quests.map((quest) => linkTo(quest.id, quest.title)!)))
+              : '',
+          ]
+        ),
+      });
+    });
+  });
+
+  source.quests.forEach((quest) => {
+    const tasks = source.tasks.filter((task) => (task.linkedMainQuestId || task.linkedQuestId) === quest.id);
+    const season = quest.linkedChapterId ? chapterSeason.get(quest.linkedChapterId) : undefined;
+    notes.push({
+      path: paths.get(quest.id)!,
+      content: note(
+        {
+          priaxis_id: quest.id,
+          priaxis_type: 'quest',
+          title: quest.title,
+          chapter_id: quest.linkedChapterId,
+          chapter: linkTo(
+            quest.linkedChapterId,
+            season?.chapters.find((chapter) => chapter.id === quest.linkedChapterId)?.title
+          ),
+          status: quest.status,
+          importance: quest.importance,
+          progress: quest.progress,
+          start_date: quest.startDate,
+          unlock_time: quest.unlockTime,
+          deadline: quest.deadline,
+          ...smartFields(quest),
+          definition_of_done: quest.definitionOfDone || undefined,
+        },
+        quest.title,
+        [
+          quest.description || '',
+          tasks.length > 0
+            ? section(HEADINGS.tasks, bulletList(tasks.map((task) => linkTo(task.id, task.name)!)))
+            : '',
+        ]
+      ),
+    });
+  });
+
+  const questTitles = new Map(source.quests.map((quest) => [quest.id, quest.title]));
+  source.tasks.forEach((task) => {
+    const questId = task.linkedMainQuestId || task.linkedQuestId;
+    const checklist = (task.checklist || [])
+      .map((item) => `- [${item.completed ? 'x' : ' '}] ${item.text.replace(/\n/g, ' ')}`)
+      .join('\n');
+    notes.push({
+      path: paths.get(task.id)!,
+      content: note(
+        {
+          priaxis_id: task.id,
+          priaxis_type: 'task',
+          title: task.name,
+          quest_id: questId,
+          quest: linkTo(questId, questId ? questTitles.get(questId) : undefined),
+          status: task.status,
+          importance: task.importance,
+          effort: task.effort,
+          task_type: task.taskType,
+          deadline: task.deadline,
+          created_at: task.createdAt,
+          completed_at: task.completedAt,
+          ...smartFields(task),
+        },
+        task.name,
+        [task.description || '', checklist ? section(HEADINGS.checklist, checklist) : '']
+      ),
+    });
+  });
+
+  const dailyPaths = source.dailyEntries.map((entry) => {
+    const path = `${root}/Journal/Daily/${entry.date.slice(0, 10)}.md`;
+    notes.push({
+      path,
+      content: note(
+        {
+          priaxis_id: entry.id,
+          priaxis_type: 'daily',
+          date: entry.date.slice(0, 10),
+          mood: entry.mood,
+          energy: entry.energyLevel,
+        },
+        entry.date.slice(0, 10),
+        [
+          section(
+            HEADINGS.successes,
+            bulletList(entry.successes.map((success) => (
+              success.category ? `${success.content} #${success.category}` : success.content
+            )))
+          ),
+          section(HEADINGS.gratitude, bulletList(entry.gratitude)),
+          section(HEADINGS.affirmation, entry.affirmation || ''),
+          entry.moodNote ? section(HEADINGS.moodNote, entry.moodNote) : '',
+        ]
+      ),
+    });
+    return path;
+  });
+
+  const weeklyPaths = source.weeklyReviews.map((review) => {
+    const weekStart = review.weekStartDate.slice(0, 10);
+    const path = `${root}/Journal/Weekly/${weekStart}.md`;
+    notes.push({
+      path,
+      content: note(
+        {
+          priaxis_id: review.id,
+          priaxis_type: 'weekly',
+          week_start: weekStart,
+          week_end: review.weekEndDate.slice(0, 10),
+          satisfaction: review.overallSatisfaction,
+          energy: review.energyLevel,
+          mood: review.mood,
+          tasks_completed: review.stats.tasksCompleted,
+          tasks_created: review.stats.tasksCreated,
+          completion_rate: review.stats.completionRate,
+          focus_minutes: review.stats.focusTimeMinutes,
+        },
+        `${weekStart} ~ ${review.weekEndDate.slice(0, 10)}`,
+        [
+          section(HEADINGS.highlights, bulletList(review.highlights)),
+          section(HEADINGS.challenges, bulletList(review.challenges)),
+          section(HEADINGS.learnings, bulletList(review.learnings)),
+          section(HEADINGS.gratitude, bulletList(review.gratitude)),
+          section(HEADINGS.nextWeekGoals, bulletList(review.nextWeekGoals)),
+          section(HEADINGS.nextWeekFocus, review.nextWeekFocus || ''),
+        ]
+      ),
+    });
+    return path;
+  });
+
+  const indexGroups: Array<[string, string[]]> = [
+    ['Seasons', source.seasons.map((season) => linkTo(season.id, season.name)!)],
+    ['Chapters', source.seasons.flatMap((season) => season.chapters.map((chapter) => linkTo(chapter.id, chapter.title)!))],
+    ['Quests', source.quests.map((quest) => linkTo(quest.id, quest.title)!)],
+    ['Tasks', source.tasks.map((task) => linkTo(task.id, task.name)!)],
+    ['Daily Journal', dailyPaths.map((path) => wikiLink(path, stripExtension(path).split('/').pop() || ''))],
+    ['Weekly Reviews', weeklyPaths.map((path) => wikiLink(path, stripExtension(path).split('/').pop() || ''))],
+  ];
+  notes.unshift({
+    path: `${root}/Index.md`,
+    content: note(
+      { priaxis_type: 'index', exported_at: new Date().toISOString() },
+      'Priaxis',
+      indexGroups.filter(([, links]) => links.length > 0).map(([heading, links]) => section(heading, bulletList(links)))
+    ),
+  });
+
+  return notes;
+}
+
+// --- Parsing ---
+
+interface NoteBody {
+  description: string;
+  sections: Map<string, string>;
+}
+
+function parseBody(body: string): NoteBody {
+  const lines = body.replace(/^\s*# .*\n?/, '').split('\n');
+  const intro: string[] = [];
+  const sectionLines = new Map<string, string[]>();
+  let current = intro;
+  lines.forEach((line) => {
+    const heading = line.match(/^##\s+(.+?)\s*$/);
+    if (heading) {
+      current = [];
+      sectionLines.set(heading[1].toLowerCase(), current);
+      return;
+    }
+    current.push(line);
+  });
+  const sections = new Map<string, string>();
+  sectionLines.forEach((content, heading) => sections.set(heading, content.join('\n').trim()));
+  return { description: intro.join('\n').trim(), sections };
+}
+
+function listItems(content: string | undefined): string[] {
+  return (content || '')
+    .split('\n')
+    .map((line) => line.match(/^\s*[-*]\s+(.*)$/)?.[1]?.trim() || '')
+    .filter(Boolean);
+}
+
+function readString(frontmatter: Frontmatter, key: string): string | undefined {
+  const value = frontmatter[key];
+  if (value === null || value === undefined || Array.isArray(value)) return undefined;
+  return String(value);
+}
+
+function readEnum<T extends string>(frontmatter: Frontmatter, key: string, allowed: readonly T[]): T | undefined {
+  const value = readString(frontmatter, key);
+  return allowed.includes(value as T) ? (value as T) : undefined;
+}
+
+function readSmart(frontmatter: Frontmatter): Record<(typeof SMART_KEYS)[number], string> {
+  return Object.fromEntries(SMART_KEYS.map((key) => [key, readString(frontmatter, key) || ''])) as Record<
+    (typeof SMART_KEYS)[number],
+    string
+  >;
+}
+
+/**
+ * Parse one exported note into the store update it describes. Returns null for
+ * notes without a known `priaxis_type` (including the index note).
+ */
+export function parseVaultNote(content: string): VaultNoteUpdate | null {
+  const { frontmatter, body } = parseFrontmatter(content);
+  const type = readString(frontmatter, 'priaxis_type');
+  const id = readString(frontmatter, 'priaxis_id');
+  const { description, sections } = parseBody(body);
+  const title = readString(frontmatter, 'title');
+
+  switch (type) {
+    case 'season': {
+      if (!id) return null;
+      return {
+        type,
+        id,
+        updates: {
+          ...(title ? { name: title } : {}),
+          description,
+          importance: readEnum(frontmatter, 'importance', IMPORTANCE),
+          ...readSmart(frontmatter),
+        },
+      };
+    }
+    case 'chapter': {
+      const seasonId = readString(frontmatter, 'season_id');
+      if (!id || !seasonId) return null;
+      return {
+        type,
+        id,
+        seasonId,
+        updates: {
+          ...(title ? { title } : {}),
+          description,
+          importance: readEnum(frontmatter, 'importance', IMPORTANCE),
+          deadline: readString(frontmatter, 'deadline'),
+          ...readSmart(frontmatter),
+        },
+      };
+    }
+    case 'quest': {
+      if (!id) return null;
+      return {
+        type,
+        id,
+        updates: {
+          ...(title ? { title } : {}),
+          description,
+          importance: readEnum(frontmatter, 'importance', IMPORTANCE),
+          deadline: readString(frontmatter, 'deadline'),
+          unlockTime: readString(frontmatter, 'unlock_time'),
+          definitionOfDone: readString(frontmatter, 'definition_of_done') || '',
+          ...readSmart(frontmatter),
+        },
+      };
+    }
+    case 'task': {
+      if (!id) return null;
+      const checklistSection = sections.get(HEADINGS.checklist.toLowerCase());
+      const checklist = checklistSection === undefined
+        ? undefined
+        : checklistSection
+          .split('\n')
+          .map((line) => line.match(/^\s*[-*]\s+\[([ xX])\]\s+(.*)$/))
+          .filter((match): match is RegExpMatchArray => !!match)
+          .map((match) => ({ text: match[2].trim(), completed: match[1].toLowerCase() === 'x' }));
+      return {
+        type,
+        id,
+        updates: {
+          ...(title ? { name: title } : {}),
+          description,
+          importance: readEnum(frontmatter, 'importance', IMPORTANCE),
+          effort: readEnum(frontmatter, 'effort', EFFORT),
+          taskType: readEnum(frontmatter, 'task_type', TASK_TYPES),
+          deadline: readString(frontmatter, 'deadline'),
+          ...readSmart(frontmatter),
+        },
+        checklist,
+      };
+    }
+    case 'daily': {
+      const date = readString(frontmatter, 'date');
+      if (!date) return null;
+      return {
+        type,
+        id,
+        date: date.slice(0, 10),
+        entry: {
+          successes: listItems(sections.get(HEADINGS.successes.toLowerCase())).map((item) => {
+            const tag = item.match(/\s#([a-z]+)$/);
+            const category = SUCCESS_CATEGORIES.find((candidate) => candidate === tag?.[1]);
+            return category
+              ? { content: item.slice(0, tag!.index).trim(), category }
+              : { content: item };
+          }),
+          gratitude: listItems(sections.get(HEADINGS.gratitude.toLowerCase())),
+          affirmation: sections.get(HEADINGS.affirmation.toLowerCase()) || '',
+          moodNote: sections.get(HEADINGS.moodNote.toLowerCase()) || undefined,
+          mood: readEnum(frontmatter, 'mood', MOODS),
+          energyLevel: readEnum(frontmatter, 'energy', ENERGY),
+        },
+      };
+    }
+    case 'weekly': {
+      const weekStartDate = readString(frontmatter, 'week_start');
+      if (!weekStartDate) return null;
+      const satisfaction = Number(frontmatter.satisfaction);
+      return {
+        type,
+        id,
+        weekStartDate: weekStartDate.slice(0, 10),
+        review: {
+          highlights: listItems(sections.get(HEADINGS.highlights.toLowerCase())),
+          challenges: listItems(sections.get(HEADINGS.challenges.toLowerCase())),
+          learnings: listItems(sections.get(HEADINGS.learnings.toLowerCase())),
+          gratitude: listItems(sections.get(HEADINGS.gratitude.toLowerCase())),
+          nextWeekGoals: listItems(sections.get(HEADINGS.nextWeekGoals.toLowerCase())),
+          nextWeekFocus: sections.get(HEADINGS.nextWeekFocus.toLowerCase()) || '',
+          overallSatisfaction: satisfaction >= 1 && satisfaction <= 5
+            ? (Math.round(satisfaction) as WeeklyReview['overallSatisfaction'])
+            : undefined,
+          mood: readEnum(frontmatter, 'mood', MOODS),
+          energyLevel: readEnum(frontmatter, 'energy', ENERGY),
+        },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Vault paths linked from the index note, in order
+ */
+export function parseIndexLinks(content: string): string[] {
+  const links = Array.from(content.matchAll(/\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]/g)).map((match) => `${match[1].trim()}.md`);
+  return Array.from(new Set(links));
+}
@@ -0,0 +1,266 @@
+/**
+ * Vault Transfer
+ * Writes the Markdown notes into the Obsidian vault through the MCP bridge and
+ * reads them back into the stores.
+ *
+ * Re-import only updates entities that already exist (matched by
+ * `priaxis_id`); the one exception is a daily journal note for a day with no
+ * entry, which creates that entry. Only fields that differ are written, so
+ * untouched notes leave no update logs behind.
+ */
+
+import { mcpClient } from '../../lib/mcp';
+import { createLooseId, createPrefixedId } from '../../lib/id';
+import { useGameStore } from '../../stores/game-store';
+import { useJournalStore } from '../../stores/journal-store';
+import type { ChecklistItem } from '../../types/task';
+import type { DailySuccessEntry } from '../../types/journal';
+import { createSnapshot } from '../storage/snapshots';
+import { buildVaultNotes, DEFAULT_VAULT_FOLDER, parseIndexLinks, parseVaultNote } from './markdown-notes';
+import type { VaultNoteUpdate } from './markdown-notes';
+
+export interface VaultExportResult {
+  success: boolean;
+  written: number;
+  /** Paths that could not be written */
+  failed: string[];
+  reason?: 'bridge_unavailable';
+}
+
+export interface VaultImportResult {
+  success: boolean;
+  updated: number;
+  created: number;
+  unchanged: number;
+  /** Notes whose entity no longer exists in the store */
+  missing: string[];
+  /** Notes that could not be read */
+  failed: string[];
+  reason?: 'bridge_unavailable' | 'index_not_found';
+}
+
+type ApplySummary = Pick<VaultImportResult, 'updated' | 'created' | 'unchanged'> & { missing: boolean };
+
+function isErrorResult(result: unknown): boolean {
+  return !!result && typeof result === 'object' && (result as { isError?: unknown }).isError === true;
+}
+
+/**
+ * Text content of an MCP tool result (`{ content: [{ type: 'text', text }] }`)
+ */
+function resultText(result: unknown): string {
+  if (typeof result === 'string') return result;
+  const content = (result as { content?: unknown } | null)?.content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map((part) => (part && typeof part === 'object' && typeof (part as { text?: unknown }).text === 'string'
+      ? (part as { text: string }).text
+      : ''))
+    .join('');
+}
+
+async function callVaultTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+  const result = await mcpClient.callTool(name, args);
+  if (isErrorResult(result)) throw new Error(resultText(result) || `${name} failed`);
+  return result;
+}
+
+async function writeNote(path: string, content: string): Promise<void> {
+  try {
+    await callVaultTool('create-note', { name: path, content });
+  } catch {
+    // Already exists: overwrite it
+    await callVaultTool('edit-note', { name: path, content });
+  }
+}
+
+async function readNote(path: string): Promise<string> {
+  return resultText(await callVaultTool('read-note', { name: path }));
+}
+
+async function ensureBridge(): Promise<boolean> {
+  try {
+    await mcpClient.connect();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function normalizeValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * The subset of `updates` that differs from `current`; undefined values mean
+ * "not set in the note" and are ignored
+ */
+function changedFields<T extends object>(current: T, updates: Partial<T>): Partial<T> {
+  const changed: Partial<T> = {};
+  (Object.keys(updates) as Array<keyof T>).forEach((key) => {
+    const next = updates[key];
+    if (next === undefined) return;
+    if (normalizeValue(current[key]) !== normalizeValue(next)) changed[key] = next;
+  });
+  return changed;
+}
+
+/**
+ * Keep existing checklist item ids by matching on text
+ */
+function reconcileChecklist(
+  current: ChecklistItem[] | undefined,
+  parsed: Array<Pick<ChecklistItem, 'text' | 'completed'>>
+): ChecklistItem[] {
+  const available = [...(current || [])];
+  return parsed.map((item) => {
+    const index = available.findIndex((existing) => existing.text === item.text);
+    const id = index >= 0 ? available.splice(index, 1)[0].id : createLooseId();
+    return { id, ...item };
+  });
+}
+
+function applyUpdate(update: VaultNoteUpdate): ApplySummary {
+  const game = useGameStore.getState();
+  const journal = useJournalStore.getState();
+  const result = (changes: object, apply: () => void): ApplySummary => {
+    if (Object.keys(changes).length === 0) return { updated: 0, created: 0, unchanged: 1, missing: false };
+    apply();
+    return { updated: 1, created: 0, unchanged: 0, missing: false };
+  };
+  const missing: ApplySummary = { updated: 0, created: 0, unchanged: 0, missing: true };
+
+  switch (update.type) {
+    case 'season': {
+      const season = game.activeSeasons.find((item) => item.id === update.id);
+      if (!season) return missing;
+      const changes = changedFields(season, update.updates);
+      return result(changes, () => game.updateSeason(update.id, changes));
+    }
+    case 'chapter': {
+      const chapter = game.activeSeasons
+        .find((item) => item.id === update.seasonId)
+        ?.chapters.find((item) => item.id === update.id);
+      if (!chapter) return missing;
+      const changes = changedFields(chapter, update.updates);
+      return result(changes, () => game.updateChapter(update.seasonId, update.id, changes));
+    }
+    case 'quest': {
+      const quest = game.mainQuests.find((item) => item.id === update.id);
+      if (!quest) return missing;
+      const changes = changedFields(quest, update.updates);
+      return result(changes, () => game.updateQuest(update.id, changes));
+    }
+    case 'task': {
+      const task = game.customTasks.find((item) => item.id === update.id);
+      if (!task) return missing;
+      const changes = changedFields(task, {
+        ...update.updates,
+        checklist: update.checklist ? reconcileChecklist(task.checklist, update.checklist) : undefined,
+      });
+      return result(changes, () => game.updateTask(update.id, changes));
+    }
+    case 'daily': {
+      const entry = journal.dailySuccessJournal.find((item) => item.id === update.id)
+        || journal.dailySuccessJournal.find((item) => item.date.slice(0, 10) === update.date);
+      if (!entry) {
+        const now = new Date().toISOString();
+        const created: DailySuccessEntry = {
+          id: createPrefixedId('ds'),
+          date: update.date,
+          createdAt: now,
+          updatedAt: now,
+          successes: [],
+          gratitude: [],
+          affirmation: '',
+          mood: 'okay',
+          energyLevel: 'medium',
+          ...Object.fromEntries(Object.entries(update.entry).filter(([, value]) => value !== undefined)),
+        };
+        journal.addDailyEntry(created);
+        return { updated: 0, created: 1, unchanged: 0, missing: false };
+      }
+      const changes = changedFields(entry, update.entry);
+      return result(changes, () => journal.updateDailyEntry(entry.id, { ...changes, updatedAt: new Date().toISOString() }));
+    }
+    case 'weekly': {
+      const review = journal.weeklyReviews.find((item) => item.id === update.id)
+        || journal.weeklyReviews.find((item) => item.weekStartDate.slice(0, 10) === update.weekStartDate);
+      if (!review) return missing;
+      const changes = changedFields(review, update.review);
+      return result(changes, () => journal.updateWeeklyReview(review.id, { ...changes, updatedAt: new Date().toISOString() }));
+    }
+  }
+}
+
+/**
+ * Write the goal hierarchy and journals into `folder` of the vault
+ */
+export async function exportToVault(folder: string = DEFAULT_VAULT_FOLDER): Promise<VaultExportResult> {
+  if (!(await ensureBridge())) return { success: false, written: 0, failed: [], reason: 'bridge_unavailable' };
+
+  const game = useGameStore.getState();
+  const journal = useJournalStore.getState();
+  const notes = buildVaultNotes(
+    {
+      seasons: game.activeSeasons,
+      quests: game.mainQuests,
+      tasks: game.customTasks,
+      weeklyReviews: journal.weeklyReviews,
+      dailyEntries: journal.dailySuccessJournal,
+    },
+    folder
+  );
+
+  const failed: string[] = [];
+  // Sequential on purpose: the bridge relays to a single MCP process.
+  for (const note of notes) {
+    try {
+      await writeNote(note.path, note.content);
+    } catch (error) {
+      console.warn('[Vault] Failed to write note', note.path, error);
+      failed.push(note.path);
+    }
+  }
+  return { success: failed.length === 0, written: notes.length - failed.length, failed };
+}
+
+/**
+ * Read the notes linked from `folder/Index.md` and apply vault edits to the stores
+ */
+export async function importFromVault(folder: string = DEFAULT_VAULT_FOLDER): Promise<VaultImportResult> {
+  const summary: VaultImportResult = { success: false, updated: 0, created: 0, unchanged: 0, missing: [], failed: [] };
+  if (!(await ensureBridge())) return { ...summary, reason: 'bridge_unavailable' };
+
+  let links: string[];
+  try {
+    links = parseIndexLinks(await readNote(`${folder.replace(/\/+$/, '')}/Index.md`));
+  } catch {
+    return { ...summary, reason: 'index_not_found' };
+  }
+
+  const updates: Array<{ path: string; update: VaultNoteUpdate }> = [];
+  for (const path of links) {
+    try {
+      const update = parseVaultNote(await readNote(path));
+      if (update) updates.push({ path, update });
+    } catch (error) {
+      console.warn('[Vault] Failed to read note', path, error);
+      summary.failed.push(path);
+    }
+  }
+
+  if (updates.length > 0) {
+    await createSnapshot('import', useGameStore.getState().exportData(), 'vault');
+  }
+  updates.forEach(({ path, update }) => {
+    const applied = applyUpdate(update);
+    summary.updated += applied.updated;
+    summary.created += applied.created;
+    summary.unchanged += applied.unchanged;
+    if (applied.missing) summary.missing.push(path);
+  });
+
+  return { ...summary, success: summary.failed.length === 0 };
+}
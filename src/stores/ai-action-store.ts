@@ -0,0 +1,87 @@
+/**
+ * AI Action Store - pending confirmations and undo history for AI tool calls
+ *
+ * Session-only: entries hold closures and refer to live game state, so nothing
+ * here is persisted. The tool layer (src/lib/ai/tools.ts) fills and drains it.
+ */
+
+import { create } from 'zustand';
+import { createLooseId } from '../lib/id';
+
+export interface AIActionChange {
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+export interface AIActionPreview {
+  summary: string;
+  changes: AIActionChange[];
+}
+
+/** A destructive tool call waiting for the user to confirm or reject it */
+export interface PendingAIAction extends AIActionPreview {
+  id: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  createdAt: number;
+}
+
+/** An executed tool call that can be reversed */
+export interface AIActionRecord extends AIActionPreview {
+  id: string;
+  toolName: string;
+  executedAt: number;
+  undo: () => void;
+}
+
+/** Oldest records fall off past this length */
+export const MAX_AI_ACTION_HISTORY = 20;
+
+interface AIActionState {
+  pending: PendingAIAction[];
+  /** Newest first */
+  history: AIActionRecord[];
+
+  enqueuePending: (action: Omit<PendingAIAction, 'id' | 'createdAt'>) => string;
+  takePending: (id: string) => PendingAIAction | null;
+  recordAction: (record: Omit<AIActionRecord, 'id' | 'executedAt'>) => void;
+  takeRecent: (count: number) => AIActionRecord[];
+  clearHistory: () => void;
+}
+
+export const useAIActionStore = create<AIActionState>()((set, get) => ({
+  pending: [],
+  history: [],
+
+  enqueuePending: (action) => {
+    const id = createLooseId(8);
+    set((state) => ({ pending: [...state.pending, { ...action, id, createdAt: Date.now() }] }));
+    return id;
+  },
+
+  takePending: (id) => {
+    const action = get().pending.find((item) => item.id === id) || null;
+    if (action) {
+      set((state) => ({ pending: state.pending.filter((item) => item.id !== id) }));
+    }
+    return action;
+  },
+
+  recordAction: (record) => {
+    set((state) => ({
+      history: [
+        { ...record, id: createLooseId(8), executedAt: Date.now() },
+        ...state.history,
+      ].slice(0, MAX_AI_ACTION_HISTORY),
+    }));
+  },
+
+  takeRecent: (count) => {
+    const taken = get().history.slice(0, Math.max(0, count));
+    set((state) => ({ history: state.history.slice(taken.length) }));
+    return taken;
+  },
+
+  clearHistory: () => set({ history: [] }),
+}));
@@ -0,0 +1,78 @@
+/**
+ * AI Usage Store - telemetry of AI calls and per-feature daily budgets
+ *
+ * The provider registry records every attempt here (see src/lib/ai/telemetry.ts);
+ * the AI usage panel in Settings reads it and edits the budgets.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { createCollectionStorage } from '../services/storage/collection-storage';
+import { createLooseId } from '../lib/id';
+import type { AICallRecord, AIFeature, AIFeatureBudget } from '../types/ai';
+
+/** Records older than this are dropped when the log is pruned */
+export const AI_USAGE_RETENTION_DAYS = 30;
+/** Prune once the log grows past this; pruning rewrites the whole list, so it is batched */
+const MAX_AI_USAGE_RECORDS = 3000;
+
+interface AIUsageState {
+  records: AICallRecord[];
+  budgets: Partial<Record<AIFeature, AIFeatureBudget>>;
+}
+
+interface AIUsageActions {
+  recordCall: (record: Omit<AICallRecord, 'id'>) => void;
+  /** `null` removes every limit for the feature */
+  setBudget: (feature: AIFeature, budget: AIFeatureBudget | null) => void;
+  clearRecords: () => void;
+}
+
+type AIUsageStore = AIUsageState & AIUsageActions;
+
+function pruneRecords(records: AICallRecord[]): AICallRecord[] {
+  const cutoff = new Date(Date.now() - AI_USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  return records.filter((record) => record.at >= cutoff).slice(-Math.floor(MAX_AI_USAGE_RECORDS * 0.8));
+}
+
+export const useAIUsageStore = create<AIUsageStore>()(
+  persist(
+    (set) => ({
+      records: [],
+      budgets: {},
+
+      recordCall: (record) => {
+        set((state) => {
+          const records = [...state.records, { ...record, id: createLooseId(8) }];
+          return { records: records.length > MAX_AI_USAGE_RECORDS ? pruneRecords(records) : records };
+        });
+      },
+
+      setBudget: (feature, budget) => {
+        set((state) => {
+          const budgets = { ...state.budgets };
+          if (budget) {
+            budgets[feature] = budget;
+          } else {
+            delete budgets[feature];
+          }
+          return { budgets };
+        });
+      },
+
+      clearRecords: () => {
+        set({ records: [] });
+      },
+    }),
+    {
+      name: 'priaxis-ai-usage',
+      storage: createCollectionStorage({
+        collections: { records: 'list' },
+      }),
+      partialize: (state) => ({
+        records: state.records,
+        budgets: state.budgets,
+      }),
+    }
+  )
+);
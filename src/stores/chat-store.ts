@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { ChatMessage } from '../types/ai';
 import { createLooseId } from '../lib/id';
+import { createCollectionStorage } from '../services/storage/collection-storage';
 
 // Simple UUID generator
 const generateId = () => createLooseId(12);
@@ -264,6 +265,7 @@ export const useChatStore = create<ChatState>()(
         }),
         {
             name: 'earth-online-chat-storage-v2',
+            storage: createCollectionStorage({ collections: { sessions: 'list' } }),
             partialize: (state) => ({
                 sessions: state.sessions,
                 activeSessionId: state.activeSessionId,
@@ -25,6 +25,7 @@ import {
     formatInterval
 } from '../lib/sm2-algorithm';
 import { mcpClient } from '../lib/mcp';
+import { createCollectionStorage } from '../services/storage/collection-storage';
 
 interface FlashcardStore {
     // Data
@@ -393,6 +394,9 @@ export const useFlashcardStore = create<FlashcardStore>()(
         }),
         {
             name: 'flashcard-storage',
+            storage: createCollectionStorage({
+                collections: { flashcards: 'list', progress: 'map' },
+            }),
             partialize: (state) => ({
                 progress: state.progress,
                 settings: state.settings,
@@ -1,12 +1,43 @@
-import type { DailyCompletionSnapshot, GameData, Skills } from '../types/game-data';
-import type { CustomTask, RewardPriceTier, RewardSticker, Status } from '../types/task';
+import type { DailyCompletionSnapshot, EconomyConfig, GameData, Skills } from '../types/game-data';
+import type { CustomTask, RewardCurrency, RewardPriceTier, RewardSticker, Status } from '../types/task';
 import { calculateLevelFromXP } from '../lib/player-progression';
 import { sumTaskFocusMinutes } from '../lib/focus-time';
 import { isDateInFuture } from '../lib/hierarchy-status';
-import { TITLE_DATABASE } from '../config/constants';
+import { getDayKey, sanitizeCalendarSettings } from '../lib/calendar-day';
+import type { CollectionKind } from '../services/storage/collection-storage';
 
 export const STORAGE_KEY = 'earthOnlineDataV3';
 
+/**
+ * GameData fields persisted in their own IndexedDB object store.
+ * Logs and entity lists grow without bound, so they are written per item.
+ */
+export const GAME_DATA_COLLECTIONS: Partial<Record<keyof GameData, CollectionKind>> = {
+    customTasks: 'list',
+    archivedTasks: 'list',
+    mainQuests: 'list',
+    archivedMainQuests: 'list',
+    recurringTasks: 'list',
+    weeklyGoals: 'list',
+    archivedWeeklyGoals: 'list',
+    habits: 'list',
+    archivedHabits: 'list',
+    activeSeasons: 'list',
+    seasonHistory: 'list',
+    progressLog: 'list',
+    taskLogs: 'list',
+    events: 'list',
+    aiAnalysisHistory: 'list',
+    financialRecords: 'list',
+    resourceLogs: 'list',
+    rewardActionLogs: 'list',
+    energyHistory: 'list',
+    journals: 'list',
+    rewardPool: 'list',
+    orchestrationLog: 'list',
+    dailyCompletionSnapshots: 'map',
+};
+
 export const DEFAULT_SKILLS: Skills = {
     magician: {
         manifestation: { level: 2, xp: 0, maxXp: 100 },
@@ -54,6 +85,34 @@ export const DEFAULT_WORLD_STATE: GameData['worldState'] = {
     lastEvolutionAt: new Date().toISOString(),
 };
 
+export const DEFAULT_ECONOMY_CONFIG: EconomyConfig = {
+    task: {
+        minutesPerEnergy: 7.5, // 8 energy/hour
+        pomodoroMinutes: 25,
+        pomodoroEnergy: 4,
+        energyMultiplier: { creative: 1.7, tax: 1.3, maintenance: 0.8 },
+        minutesMultiplier: { creative: 1.25, tax: 1.0, maintenance: 0.75 },
+        effort: {
+            light: { minutes: 25, energy: 4, gold: 10, xpCoef: 0.9 },
+            medium: { minutes: 60, energy: 10, gold: 18, xpCoef: 1.1 },
+            heavy: { minutes: 120, energy: 30, gold: 30, xpCoef: 1.3 },
+        },
+        goldImportanceCoef: { low: 0.8, medium: 1.0, high: 1.25 },
+        goldTaskTypeCoef: { creative: 1.15, tax: 1.0, maintenance: 0.9 },
+        baseXp: 8,
+        maxXp: 40,
+        xpImportanceCoef: { low: 0.9, medium: 1.0, high: 1.2 },
+        reviewXpBonus: 1.08,
+        primarySkillShare: 0.4,
+        secondarySkillShare: 0.2,
+        attributeScale: 2,
+    },
+    habit: { energyPerHour: 10, xpPerHour: 40, goldPerHour: 18 },
+    flashcard: { easy: 15, good: 10, hard: 5, sessionBonus: 50 },
+    pomodoro: { xp: 0, gold: 0 },
+    milestone: { questXpMultiplier: 1, chapterXpMultiplier: 1, seasonXpMultiplier: 1 },
+};
+
 export const DEFAULT_PROGRESSION_CONFIG: GameData['progressionConfig'] = {
     taskTypeRules: {
         creative: {
@@ -74,10 +133,13 @@ export const DEFAULT_PROGRESSION_CONFIG: GameData['progressionConfig'] = {
     },
     aiAdjustmentBounds: { min: 0.9, max: 1.1 },
     periodCaps: {
+        dailyXpCap: 0,
+        dailyGoldCap: 0,
         dailySkillXpCap: 200,
         weeklySkillXpCap: 800,
         dailyAttrCap: 18,
     },
+    economy: DEFAULT_ECONOMY_CONFIG,
 };
 
 export const DEFAULT_TITLE_CATALOG: GameData['titleCatalog'] = {
@@ -97,6 +159,18 @@ const REWARD_TIER_GOLD: Record<RewardPriceTier, number> = {
     C: 30,
 };
 
+/** Verbs priced by how long the reward lasts */
+const TIMED_REWARD_VERBS: RewardSticker['verb'][] = ['watch', 'play', 'rest', 'other'];
+const BASE_REWARD_MINUTES = 60;
+/** Rough exchange rates for stickers that name a price cap in another currency */
+const CURRENCY_TO_CNY: Record<RewardCurrency, number> = {
+    CNY: 1,
+    USD: 7.2,
+    EUR: 7.8,
+    GBP: 9.1,
+    JPY: 0.048,
+};
+
 export const DEFAULT_REWARD_PRICING: GameData['rewardPricing'] = {
     eat: 20,
     drink: 8,
@@ -107,6 +181,17 @@ export const DEFAULT_REWARD_PRICING: GameData['rewardPricing'] = {
     other: 50,
 };
 
+export const DEFAULT_REWARD_BUDGET: GameData['rewardBudget'] = {
+    tierWeeklyBudget: { S: 0, A: 0, B: 0, C: 0 },
+    cooldowns: [],
+    dynamicPricing: {
+        enabled: false,
+        windowDays: 14,
+        stepPercent: 15,
+        maxMultiplier: 2,
+    },
+};
+
 export function getCurrentMonthStr(now: Date = new Date()): string {
     return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
 }
@@ -115,14 +200,6 @@ export function toDateKey(date: Date): string {
     return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 }
 
-export function parseLegacyDayString(dayStr?: string): Date | null {
-    if (!dayStr) return null;
-    const parsed = new Date(dayStr);
-    if (Number.isNaN(parsed.getTime())) return null;
-    parsed.setHours(0, 0, 0, 0);
-    return parsed;
-}
-
 export function calculateMonthlyMoneyFromRecords(records: GameData['financialRecords'], month: string) {
     return records.reduce(
         (acc, record) => {
@@ -137,10 +214,10 @@ export function calculateMonthlyMoneyFromRecords(records: GameData['financialRec
 
 export function computeDailySnapshotFromState(state: GameData, dateKey: string): DailyCompletionSnapshot {
     const createdFromLog = state.taskLogs.filter((log) =>
-        log.type === 'create' && log.timestamp.startsWith(dateKey)
+        log.type === 'create' && getDayKey(log.timestamp) === dateKey
     ).length;
     const completedFromLog = state.taskLogs.filter((log) =>
-        log.type === 'complete' && log.timestamp.startsWith(dateKey)
+        log.type === 'complete' && getDayKey(log.timestamp) === dateKey
     ).length;
 
     if (createdFromLog > 0 || completedFromLog > 0) {
@@ -164,9 +241,9 @@ export function computeDailySnapshotFromState(state: GameData, dateKey: string):
         }
     });
     const allTasks = Array.from(taskById.values());
-    const createdFallback = allTasks.filter((task) => task.createdAt.startsWith(dateKey)).length;
+    const createdFallback = allTasks.filter((task) => getDayKey(task.createdAt) === dateKey).length;
     const completedFallback = allTasks.filter(
-        (task) => !!task.completedAt && task.completedAt.startsWith(dateKey)
+        (task) => !!task.completedAt && getDayKey(task.completedAt) === dateKey
     ).length;
     const fallbackRate = createdFallback > 0 ? (completedFallback / createdFallback) * 100 : 0;
 
@@ -189,16 +266,40 @@ export function estimateRewardTier(verb: RewardSticker['verb'], _quantity?: numb
     return 'B';
 }
 
+function estimateTierByGold(gold: number): RewardPriceTier {
+    if (gold >= REWARD_TIER_GOLD.S) return 'S';
+    if (gold >= REWARD_TIER_GOLD.A) return 'A';
+    if (gold >= REWARD_TIER_GOLD.B) return 'B';
+    return 'C';
+}
+
+/**
+ * Per-verb price, adjusted by what the reward text says about it: time-based
+ * rewards scale with their duration (the base price covers an hour, within
+ * 0.5x-3x), and a real-money cap prices the reward at one gold per yuan, never
+ * below half the base price. Adjusted prices take the tier their gold falls in.
+ */
 export function estimateRewardPricing(
-    verb: RewardSticker['verb'],
-    quantity?: number,
+    reward: Pick<RewardSticker, 'verb'> & Partial<Pick<RewardSticker, 'quantity' | 'durationMinutes' | 'priceCap'>>,
     pricingConfig: GameData['rewardPricing'] = DEFAULT_REWARD_PRICING
 ) {
+    const { verb, quantity, durationMinutes, priceCap } = reward;
     const tier = estimateRewardTier(verb, quantity);
-    return {
-        priceTier: tier,
-        priceGold: pricingConfig[verb] ?? REWARD_TIER_GOLD[tier],
-    };
+    const baseGold = pricingConfig[verb] ?? REWARD_TIER_GOLD[tier];
+
+    const candidates: number[] = [];
+    if (durationMinutes && durationMinutes > 0 && TIMED_REWARD_VERBS.includes(verb)) {
+        candidates.push(baseGold * Math.min(3, Math.max(0.5, durationMinutes / BASE_REWARD_MINUTES)));
+    }
+    if (priceCap && priceCap.amount > 0) {
+        candidates.push(Math.max(baseGold / 2, priceCap.amount * (CURRENCY_TO_CNY[priceCap.currency] ?? 1)));
+    }
+    if (candidates.length === 0) {
+        return { priceTier: tier, priceGold: baseGold };
+    }
+
+    const priceGold = Math.max(1, Math.round(Math.max(...candidates)));
+    return { priceTier: estimateTierByGold(priceGold), priceGold };
 }
 
 export function normalizeRewardVerb(item: Pick<RewardSticker, 'verb' | 'rawText' | 'object'>): RewardSticker['verb'] {
@@ -231,7 +332,7 @@ export function parseSkillPath(path: string): { category: 'magician' | 'systemBa
     };
 }
 
-function getSkillLevels(skills: Skills): number[] {
+export function getSkillLevels(skills: Skills): number[] {
     return [
         skills.magician.manifestation.level,
         skills.magician.beliefAlignment.level,
@@ -245,27 +346,6 @@ function getSkillLevels(skills: Skills): number[] {
     ];
 }
 
-export function evaluateAutoTitleUnlockNames(state: GameData): string[] {
-    const unlockNames = new Set<string>();
-    const completedTasks = [...state.customTasks, ...state.archivedTasks].filter((t) => t.status === 'completed' || t.completed).length;
-    const totalPomodoro = state.pomodoro.totalCompleted || 0;
-    const skillLevels = getSkillLevels(state.skills);
-    const anySkillLevel = Math.max(...skillLevels);
-    const allSkillsLevel3 = skillLevels.every((lv) => lv >= 3);
-
-    for (const levelTitle of TITLE_DATABASE.levelTitles) {
-        if (state.level >= levelTitle.minLevel) unlockNames.add(levelTitle.name);
-    }
-    for (const achievement of TITLE_DATABASE.achievementTitles) {
-        if (achievement.condition === 'totalPomodoro >= 10' && totalPomodoro >= 10) unlockNames.add(achievement.name);
-        if (achievement.condition === 'totalPomodoro >= 100' && totalPomodoro >= 100) unlockNames.add(achievement.name);
-        if (achievement.condition === 'completedTasks >= 50' && completedTasks >= 50) unlockNames.add(achievement.name);
-        if (achievement.condition === 'anySkillLevel >= 5' && anySkillLevel >= 5) unlockNames.add(achievement.name);
-        if (achievement.condition === 'allSkillsLevel3' && allSkillsLevel3) unlockNames.add(achievement.name);
-    }
-    return Array.from(unlockNames);
-}
-
 export function generateAutoLoreTitle(
     sourceType: 'quest' | 'chapter' | 'season',
     sourceName: string,
@@ -369,18 +449,15 @@ export function isAutoGeneratedDoDTaskDescription(desc?: string): boolean {
     return desc.includes('Definition of Done 自动生成') || desc.includes('Definition of Done auto-generated');
 }
 
+/**
+ * Merge already-migrated data into the store and recompute derived values.
+ * Schema upgrades belong in services/storage/schema-migrations, not here.
+ */
 export function normalizeStoreData(state: GameData, incoming: Partial<GameData>): GameData {
     const merged = { ...state, ...incoming } as GameData;
     const safeXP = Math.max(0, merged.experience || 0);
     const safeLevel = Math.max(1, Math.min(calculateLevelFromXP(safeXP), 100));
 
-    const existingMoney = incoming.resources?.money;
-    const legacyCoins = (incoming as Partial<GameData> & { coins?: number }).coins;
-    const normalizedBalance = typeof existingMoney?.balance === 'number'
-        ? existingMoney.balance
-        : typeof legacyCoins === 'number'
-            ? legacyCoins
-            : state.resources.money.balance;
     const mergedTasks = [
         ...(incoming.customTasks || state.customTasks || []),
         ...(incoming.archivedTasks || state.archivedTasks || []),
@@ -394,23 +471,6 @@ export function normalizeStoreData(state: GameData, incoming: Partial<GameData>)
         ...(state.rewardPricing || {}),
         ...(incoming.rewardPricing || {}),
     };
-    const normalizedRewardPool = (incoming.rewardPool || state.rewardPool || []).map((item) => {
-        const normalizedVerb = normalizeRewardVerb(item);
-        const forcedPricing = (normalizedVerb === 'eat' || normalizedVerb === 'drink')
-            ? estimateRewardPricing(normalizedVerb, item.quantity, mergedRewardPricing)
-            : null;
-        const tier = forcedPricing?.priceTier || item.priceTier || estimateRewardTier(normalizedVerb, item.quantity);
-        return {
-            ...item,
-            verb: normalizedVerb,
-            priceTier: tier,
-            priceGold: forcedPricing
-                ? forcedPricing.priceGold
-                : typeof item.priceGold === 'number' && item.priceGold > 0
-                    ? item.priceGold
-                    : REWARD_TIER_GOLD[tier],
-        };
-    });
 
     return {
         ...merged,
@@ -427,7 +487,6 @@ export function normalizeStoreData(state: GameData, incoming: Partial<GameData>)
             money: {
                 ...state.resources.money,
                 ...incoming.resources?.money,
-                balance: normalizedBalance,
                 currentMonth: targetMonth,
                 monthlyIncome: monthSummary.income,
                 monthlySpent: monthSummary.spent,
@@ -440,8 +499,11 @@ export function normalizeStoreData(state: GameData, incoming: Partial<GameData>)
                 lastUpdate: incoming.resources?.energy?.lastUpdate || new Date().toISOString(),
             },
         },
-        rewardPool: normalizedRewardPool,
+        rewardPool: incoming.rewardPool || state.rewardPool || [],
         rewardPricing: mergedRewardPricing,
+        rewardBudget: incoming.rewardBudget || state.rewardBudget || DEFAULT_REWARD_BUDGET,
+        rewardWishlist: incoming.rewardWishlist || state.rewardWishlist || [],
+        calendarSettings: sanitizeCalendarSettings(incoming.calendarSettings || state.calendarSettings),
         rewardActionLogs: incoming.rewardActionLogs || state.rewardActionLogs || [],
         dailyCompletionSnapshots: incoming.dailyCompletionSnapshots || state.dailyCompletionSnapshots || {},
         skills: incoming.skills || state.skills || DEFAULT_SKILLS,
@@ -451,5 +513,6 @@ export function normalizeStoreData(state: GameData, incoming: Partial<GameData>)
         progressionConfig: incoming.progressionConfig || state.progressionConfig || DEFAULT_PROGRESSION_CONFIG,
         titleCatalog: incoming.titleCatalog || state.titleCatalog || DEFAULT_TITLE_CATALOG,
         orchestrationLog: incoming.orchestrationLog || state.orchestrationLog || [],
+        customAchievements: incoming.customAchievements || state.customAchievements || [],
     };
 }
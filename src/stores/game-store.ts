@@ -3,18 +3,42 @@
  */
 
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
+import { persist } from 'zustand/middleware';
 import { produce } from 'immer';
-import type { BeliefSystemMode, DailyCompletionSnapshot, GameData, Skills, SkillEntry } from '../types/game-data';
+import type { AchievementDefinition, BeliefSystemMode, DailyCompletionSnapshot, GameData, Skills, SkillEntry, WishlistItem } from '../types/game-data';
 import type { CustomTask, MainQuest, Season, WeeklyGoal, Habit, RecurringTask, Chapter, Category, RewardSticker } from '../types/task';
 import type { GameEvent, CreateEventParams } from '../types/event';
+import { TITLE_DATABASE } from '../config/constants';
 import { parseRewardTexts } from '../lib/reward-parser';
 import { calculateLevelFromXP } from '../lib/player-progression';
 import { normalizeLoggedTimeToMinutes } from '../lib/focus-time';
+import {
+  applyPeriodCaps,
+  computeHabitReward,
+  computePomodoroReward,
+  computeTaskReward,
+  getFlashcardXp,
+  getMilestoneXp,
+  getPeriodUsage,
+  type FlashcardReward,
+  type MilestoneKind,
+} from '../lib/economy';
+import { evaluateTitleUnlocks, getEventTriggers, parseCondition, type AchievementTrigger } from '../lib/achievements';
+import { checkRedemption, getWishlistAccrual, WISHLIST_CATEGORY } from '../lib/reward-budget';
 import { getEffectiveSeasonStatus } from '../lib/hierarchy-status';
 import { createPrefixedId } from '../lib/id';
+import { addDaysToKey, planRecurringGeneration } from '../lib/recurrence';
+import { getDependents, getQuestBlockers, getTaskBlockers, isQuestDone, isTaskDone, wouldCreateCycle } from '../lib/dependencies';
+import type { DependencyError } from '../lib/dependencies';
+import { createCollectionStorage } from '../services/storage/collection-storage';
+import { CURRENT_SCHEMA_VERSION, runMigrations } from '../services/storage/migration';
+import type { AppliedMigration } from '../services/storage/migration';
+import { createSnapshot } from '../services/storage/snapshots';
+import { mergeImportedData } from '../services/data-merge';
+import type { MergePlan, MergeResolutions } from '../services/data-merge';
 import {
   STORAGE_KEY,
+  GAME_DATA_COLLECTIONS,
   DEFAULT_SKILLS,
   DEFAULT_BELIEF_SYSTEM,
   DEFAULT_LORE_PROFILE,
@@ -22,17 +46,13 @@ import {
   DEFAULT_PROGRESSION_CONFIG,
   DEFAULT_TITLE_CATALOG,
   DEFAULT_REWARD_PRICING,
+  DEFAULT_REWARD_BUDGET,
   getCurrentMonthStr,
-  toDateKey,
-  parseLegacyDayString,
   calculateMonthlyMoneyFromRecords,
   computeDailySnapshotFromState,
   estimateRewardPricing,
-  normalizeRewardVerb,
   clampNumber,
-  getSkillPathCandidates,
   parseSkillPath,
-  evaluateAutoTitleUnlockNames,
   generateAutoLoreTitle,
   resolveSeasonStatus,
   createStickerPlacement,
@@ -40,16 +60,72 @@ import {
   isAutoGeneratedDoDTaskDescription,
   normalizeStoreData,
 } from './game-store-helpers';
+import { configureCalendar, DEFAULT_CALENDAR_SETTINGS, getDayKey, normalizeDayKey, sanitizeCalendarSettings, toDayDate } from '../lib/calendar-day';
 
 // Generate unique ID
 const generateId = (prefix: string) => createPrefixedId(prefix, 9);
 
+// Moves gold between the balance and a wishlist item; a negative amount refunds it
+function transferWishlistGold(state: GameData, item: WishlistItem, amount: number, now: Date = new Date()): Partial<GameData> {
+  const currentMonth = getCurrentMonthStr(now);
+  const nextRecords = [
+    ...state.financialRecords,
+    {
+      id: generateId('fin'),
+      type: amount > 0 ? 'expense' as const : 'income' as const,
+      amount: Math.abs(amount),
+      category: WISHLIST_CATEGORY,
+      source: 'reward_redeem' as const,
+      relatedEntityType: 'reward' as const,
+      relatedEntityId: item.id,
+      description: `${amount > 0 ? 'Save for' : 'Refund savings'}: ${item.name}`,
+      date: now.toISOString(),
+    },
+  ];
+  const monthSummary = calculateMonthlyMoneyFromRecords(nextRecords, currentMonth);
+  return {
+    rewardWishlist: state.rewardWishlist.map((entry) =>
+      entry.id === item.id ? { ...entry, savedGold: entry.savedGold + amount } : entry
+    ),
+    resources: {
+      ...state.resources,
+      money: {
+        ...state.resources.money,
+        balance: state.resources.money.balance - amount,
+        currentMonth,
+        monthlyIncome: monthSummary.income,
+        monthlySpent: monthSummary.spent,
+        monthlyNet: monthSummary.income - monthSummary.spent,
+      },
+    },
+    financialRecords: nextRecords,
+  };
+}
+
+// Task generated from a recurring rule
+function recurringTaskInput(rule: RecurringTask, deadline: string): Parameters<GameActions['addTask']>[0] {
+  return {
+    name: rule.name,
+    description: rule.description,
+    importance: rule.importance,
+    effort: rule.effort,
+    taskType: rule.taskType,
+    linkType: rule.linkedMainQuestId ? 'mainQuest' : rule.linkedSeasonId ? 'season' : 'none',
+    recurringTaskId: rule.id,
+    linkedMainQuestId: rule.linkedMainQuestId,
+    linkedSeasonId: rule.linkedSeasonId,
+    seasonId: rule.linkedSeasonId, // Dual mapping for compatibility
+    deadline,
+  };
+}
+
 type SkillCategory = keyof Skills;
 type SkillName<C extends SkillCategory> = keyof Skills[C];
 type MutableSkillMap = { [K in SkillCategory]: Record<string, SkillEntry> };
 
 // Initial state
 const initialState: GameData = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   stats: { life: 75, intelligence: 95, spirit: 95, action: 75, agility: 50, charm: 70 },
   level: 1,
   experience: 0,
@@ -57,7 +133,7 @@ const initialState: GameData = {
   unlockedTitles: ['newbie'],
 
   dailyTasks: { shutdown: false, laugh: false, vision: false, walk: false, signal: false, log: false },
-  lastReset: new Date().toDateString(),
+  lastReset: getDayKey(),
   dailyCareCompleted: false,
 
   customTasks: [],
@@ -79,17 +155,18 @@ const initialState: GameData = {
   worldState: DEFAULT_WORLD_STATE,
   progressionConfig: DEFAULT_PROGRESSION_CONFIG,
   titleCatalog: DEFAULT_TITLE_CATALOG,
+  customAchievements: [],
   orchestrationLog: [],
 
   pomodoro: {
     completedToday: 0,
-    lastPomodoroDate: new Date().toDateString(),
+    lastPomodoroDate: getDayKey(),
     totalCompleted: 0,
     lastUsedTaskId: null,
   },
 
   events: [],
-  eventMemories: { summaries: [], coreEvents: [] },
+  eventMemories: { summaries: [], coreEvents: [], facts: [], dismissed: [] },
   aiAnalysisHistory: [],
 
   resources: {
@@ -117,6 +194,9 @@ const initialState: GameData = {
   savedRewards: { quotes: [], knowledge: [], trivia: [], jokes: [], memes: [] },
   rewardPool: [],
   rewardPricing: DEFAULT_REWARD_PRICING,
+  rewardBudget: DEFAULT_REWARD_BUDGET,
+  rewardWishlist: [],
+  calendarSettings: DEFAULT_CALENDAR_SETTINGS,
 
   currentSeason: null,
   activeSeasons: [],
@@ -159,11 +239,14 @@ interface GameActions {
   addTask: (task: Omit<CustomTask, 'id' | 'createdAt' | 'completed' | 'status'>) => string;
   updateTask: (id: string, updates: Partial<CustomTask>) => void;
   deleteTask: (id: string) => void;
+  restoreTask: (task: CustomTask, blockedTaskIds?: string[]) => void;
   startTask: (id: string) => void;
   completeTask: (id: string, review?: string, actualEnergyCost?: number, actualTimeCost?: number, reviewSatisfaction?: number) => void;
   archiveTask: (id: string) => void;
   unarchiveTask: (id: string) => void;
   clearArchivedTasks: () => void;
+  addTaskDependency: (taskId: string, blockerId: string) => { success: boolean; reason?: DependencyError };
+  removeTaskDependency: (taskId: string, blockerId: string) => void;
 
   // Recurring Tasks
   addRecurringTask: (task: Omit<RecurringTask, 'id' | 'createdAt' | 'streak' | 'lastGeneratedDate'>) => string;
@@ -180,6 +263,8 @@ interface GameActions {
   unarchiveQuest: (id: string) => void;
   updateArchivedQuest: (id: string, updates: Partial<MainQuest>) => void;
   convertTaskToQuest: (taskId: string) => string | null; // Returns new quest ID
+  addQuestDependency: (questId: string, blockerId: string) => { success: boolean; reason?: DependencyError };
+  removeQuestDependency: (questId: string, blockerId: string) => void;
 
   // Seasons
   addSeason: (season: Omit<Season, 'id' | 'createdAt'>) => string;
@@ -223,6 +308,12 @@ interface GameActions {
   updateMoney: (change: number, category: string, description?: string) => void;
   recalculateMonthlyMoney: (month?: string) => void;
 
+  // Economy
+  updateProgressionConfig: (updates: Partial<GameData['progressionConfig']>) => void;
+  rewardFlashcard: (reward: FlashcardReward) => number; // Returns the XP granted
+  completePomodoro: (taskId: string | null, minutes: number) => void;
+  grantMilestoneXp: (kind: MilestoneKind, rewardXP: number | undefined, entity: GameEvent['entity']) => void;
+
   // Experience & Stats
   addExperience: (xp: number) => void;
   addSkillXP: <C extends SkillCategory>(category: C, skill: SkillName<C>, xp: number, reason?: string) => void;
@@ -230,7 +321,9 @@ interface GameActions {
   setBeliefMode: (mode: BeliefSystemMode) => void;
   setProfileBeliefs: (beliefs: string[]) => void;
   updateLoreProfile: (updates: Partial<GameData['loreProfile']>) => void;
+  updateEventMemories: (updates: Partial<GameData['eventMemories']>) => void;
   runOrchestrationCycle: (trigger: GameData['orchestrationLog'][number]['trigger'], note?: string) => void;
+  rollbackOrchestrationCycle: (entryId: string, worldState: GameData['worldState']) => void;
   resetPlayerStats: (newLevel?: number, newXP?: number) => void;
   updateStats: (statChanges: Partial<{ life: number; intelligence: number; spirit: number; action: number; agility: number; charm: number }>) => void;
 
@@ -238,27 +331,61 @@ interface GameActions {
   setCurrentTitle: (title: string) => void;
   unlockTitle: (title: string) => void;
   removeTitle: (title: string) => void;
-  redeemRewardSticker: (id: string) => { success: boolean; reason?: string };
+
+  // Achievements
+  evaluateAchievements: (triggers?: AchievementTrigger[]) => void;
+  addCustomAchievement: (achievement: Pick<AchievementDefinition, 'name' | 'description' | 'condition'>) => { success: boolean; reason?: string };
+  deleteCustomAchievement: (id: string) => void;
+  redeemRewardSticker: (id: string) => { success: boolean; reason?: string; availableOn?: string };
   restoreRewardSticker: (id: string) => { success: boolean; reason?: string };
   deleteRewardSticker: (id: string) => void;
   updateRewardStickerPosition: (id: string, x: number, y: number, zIndex?: number) => void;
-  updateRewardStickerData: (id: string, updates: Partial<Pick<RewardSticker, 'rawText' | 'verb' | 'object' | 'quantity' | 'unit'>>) => void;
+  updateRewardStickerData: (
+    id: string,
+    updates: Partial<Pick<RewardSticker, 'rawText' | 'verb' | 'object' | 'quantity' | 'unit' | 'durationMinutes' | 'priceCap'>>
+  ) => void;
   randomizeRewardBoardLayout: () => void;
   addRewardActionLog: (text: string) => void;
   updateRewardPricing: (updates: Partial<GameData['rewardPricing']>) => void;
+  updateRewardBudget: (updates: Partial<GameData['rewardBudget']>) => void;
+  updateCalendarSettings: (updates: Partial<GameData['calendarSettings']>) => { success: boolean; reason?: 'invalid_hour' | 'invalid_time_zone' };
+  addWishlistItem: (item: Pick<WishlistItem, 'name' | 'targetGold' | 'weeklyContribution'>) => { success: boolean; reason?: string };
+  depositToWishlist: (id: string, amount: number) => { success: boolean; reason?: string };
+  accrueWishlistSavings: () => void;
+  redeemWishlistItem: (id: string) => { success: boolean; reason?: string };
+  deleteWishlistItem: (id: string) => void;
 
   // Daily reset
   checkDailyReset: () => void;
   checkQuestUnlocks: () => void;
 
   // Data management
-  loadFromJSON: (data: Partial<GameData>) => void;
+  loadFromJSON: (data: Partial<GameData>) => { success: boolean; reason?: string; appliedMigrations?: AppliedMigration[] };
+  mergeFromJSON: (data: Partial<GameData>, resolutions?: MergeResolutions) => { success: boolean; reason?: string; plan?: MergePlan };
   exportData: () => GameData;
   resetData: () => void;
 }
 
 type GameStore = GameData & GameActions;
 
+// Brings persisted data up to the current schema; refuses data from a newer app version.
+function migratePersistedGameData(state: Record<string, unknown>): Record<string, unknown> | null {
+  const result = runMigrations(state);
+  if (!result.success) {
+    console.error(
+      `[Migration] Refusing to load game data (${result.reason}): schema v${result.fromVersion}, supported v${result.supportedVersion}`
+    );
+    return null;
+  }
+  if (result.applied.length > 0) {
+    console.log(
+      `[Migration] Upgraded game data v${result.fromVersion} -> v${result.toVersion}:`,
+      result.applied.map((step) => `v${step.version} ${step.description}`)
+    );
+  }
+  return result.data;
+}
+
 export const useGameStore = create<GameStore>()(
   persist(
     (set, get) => ({
@@ -390,7 +517,9 @@ export const useGameStore = create<GameStore>()(
         if (!task) return;
 
         set((state) => ({
-          customTasks: state.customTasks.filter((t) => t.id !== id),
+          customTasks: state.customTasks
+            .filter((t) => t.id !== id)
+            .map((t) => (t.blockedBy?.includes(id) ? { ...t, blockedBy: t.blockedBy.filter((b) => b !== id) } : t)),
           taskLogs: [
             ...state.taskLogs,
             {
@@ -402,6 +531,29 @@ export const useGameStore = create<GameStore>()(
         }));
       },
 
+      restoreTask: (task, blockedTaskIds = []) => {
+        if (get().customTasks.some((t) => t.id === task.id)) return;
+
+        set((state) => ({
+          customTasks: [
+            ...state.customTasks.map((t) => (
+              blockedTaskIds.includes(t.id) && !t.blockedBy?.includes(task.id)
+                ? { ...t, blockedBy: [...(t.blockedBy || []), task.id] }
+                : t
+            )),
+            task,
+          ],
+          taskLogs: [
+            ...state.taskLogs,
+            {
+              type: 'create',
+              task: { id: task.id, name: task.name },
+              timestamp: new Date().toISOString(),
+            },
+          ],
+        }));
+      },
+
       startTask: (id) => {
         const task = get().customTasks.find((t) => t.id === id);
         if (!task) return;
@@ -429,112 +581,22 @@ export const useGameStore = create<GameStore>()(
         if (!task) return;
 
         const completedAt = new Date().toISOString();
-        let loggedFocusMinutes = normalizeLoggedTimeToMinutes(actualTimeCost);
-        const pomodoroFocusMinutes = (task.pomodoroCount || 0) * 25;
-        const taskTypeMultiplierMap: Record<string, number> = {
-          creative: 1.7,
-          tax: 1.3,
-          maintenance: 0.8,
-        };
-        const taskTypeMultiplier = taskTypeMultiplierMap[task.taskType] || 1;
-
-        // Support "fill either time or energy":
-        // - Baseline conversion: 8 energy/hour => 7.5 minutes/energy.
-        // - Task type coefficient is applied during conversion to reduce manual adjustment.
-        const inferredTimeFromEnergy = (actualEnergyCost !== undefined && actualEnergyCost > 0 && loggedFocusMinutes <= 0)
-          ? Math.round(actualEnergyCost * 7.5 * taskTypeMultiplier)
-          : 0;
-        if (loggedFocusMinutes <= 0 && inferredTimeFromEnergy > 0) {
-          loggedFocusMinutes = inferredTimeFromEnergy;
-        }
-
-        const inferredBaseEnergyFromTime = (actualEnergyCost === undefined && loggedFocusMinutes > 0)
-          ? Math.max(1, Math.round(loggedFocusMinutes / (7.5 * taskTypeMultiplier)))
-          : undefined;
-        const focusMinutesFromInput = Math.max(loggedFocusMinutes, pomodoroFocusMinutes);
-        const effortEstimatedMinutesMap: Record<string, number> = {
-          light: 25,
-          medium: 60,
-          heavy: 120,
-          // Legacy mappings
-          tiny: 25,
-          moderate: 60,
-          massive: 120,
-        };
-        const taskTypeMinuteMultiplierMap: Record<string, number> = {
-          creative: 1.25,
-          tax: 1.0,
-          maintenance: 0.75,
-        };
-        const estimatedFocusMinutes = focusMinutesFromInput > 0
-          ? 0
-          : Math.max(
-            10,
-            Math.round(
-              (effortEstimatedMinutesMap[task.effort as string] || 45) *
-              (taskTypeMinuteMultiplierMap[task.taskType] || 1)
-            )
-          );
-        const focusMinutesToAdd = Math.max(focusMinutesFromInput, estimatedFocusMinutes);
-        let baseEnergyCost = 0;
-
-        if (actualEnergyCost !== undefined && actualEnergyCost >= 0) {
-          // User provided base cost
-          baseEnergyCost = actualEnergyCost;
-        } else if (inferredBaseEnergyFromTime !== undefined) {
-          baseEnergyCost = inferredBaseEnergyFromTime;
-        } else if (task.pomodoroCount && task.pomodoroCount > 0) {
-          // Pomodoro based base cost (4 energy per pomodoro)
-          baseEnergyCost = task.pomodoroCount * 4;
-        } else {
-          // Effort based base cost
-          const effortCostMap: Record<string, number> = {
-            light: 4,
-            medium: 10,
-            heavy: 30,
-            // Legacy mappings
-            tiny: 4,
-            moderate: 10,
-            massive: 30
-          };
-          baseEnergyCost = effortCostMap[task.effort as string] || 5;
-        }
-
-        // Task type coefficient
-        const finalEnergyCost = Math.max(0, Math.ceil(baseEnergyCost * taskTypeMultiplier));
-
-        // Automatic gold reward on task completion
-        const goldBaseByEffort: Record<string, number> = {
-          light: 10,
-          medium: 18,
-          heavy: 30,
-          // Legacy mappings
-          tiny: 10,
-          moderate: 18,
-          massive: 30,
-        };
-        const goldImportanceCoefMap: Record<string, number> = {
-          low: 0.8,
-          medium: 1.0,
-          high: 1.25,
-        };
-        const goldTaskTypeCoefMap: Record<string, number> = {
-          creative: 1.15,
-          tax: 1.0,
-          maintenance: 0.9,
-        };
-        const goldBase = goldBaseByEffort[task.effort as string] ?? 12;
-        const goldImportanceCoef = goldImportanceCoefMap[task.importance] ?? 1;
-        const goldTaskTypeCoef = goldTaskTypeCoefMap[task.taskType] ?? 1;
-        const goldSatisfactionCoef = clampNumber((reviewSatisfaction ?? 3) / 3, 0.8, 1.3);
-        const goldGain = Math.max(
-          1,
-          Math.ceil(goldBase * goldImportanceCoef * goldTaskTypeCoef * goldSatisfactionCoef)
-        );
+        const loggedMinutes = normalizeLoggedTimeToMinutes(actualTimeCost);
+        const progressionConfig = get().progressionConfig;
+        const reward = computeTaskReward(task, {
+          loggedEnergy: actualEnergyCost,
+          loggedMinutes,
+          review,
+          reviewSatisfaction,
+        }, progressionConfig);
+        // Period caps count what earlier rewards recorded on today's and this week's events
+        const gains = applyPeriodCaps(reward, getPeriodUsage(get().events), progressionConfig.periodCaps);
+        const { focusMinutes, energyCost } = reward;
+        const { goldGain, xpGain } = gains;
 
         // Apply energy deduction (energy floor/ceiling is handled inside updateEnergy)
-        if (finalEnergyCost > 0) {
-          get().updateEnergy(-finalEnergyCost, 'task_completion');
+        if (energyCost > 0) {
+          get().updateEnergy(-energyCost, 'task_completion');
         }
 
         const rewardText = task.motivation?.trim();
@@ -545,7 +607,7 @@ export const useGameStore = create<GameStore>()(
           .map((item) => ({ x: item.x, y: item.y }));
         const rewardStickers: RewardSticker[] = parsedRewards.map((parsed) => {
           const placement = createStickerPlacement(occupiedPositions);
-          const pricing = estimateRewardPricing(parsed.verb, parsed.quantity, rewardPricing);
+          const pricing = estimateRewardPricing(parsed, rewardPricing);
           occupiedPositions.push({ x: placement.x, y: placement.y });
           return {
             id: generateId('reward'),
@@ -554,6 +616,9 @@ export const useGameStore = create<GameStore>()(
             object: parsed.object,
             quantity: parsed.quantity,
             unit: parsed.unit,
+            priceCap: parsed.priceCap,
+            durationMinutes: parsed.durationMinutes,
+            schedule: parsed.schedule,
             sourceTaskId: task.id,
             sourceTaskName: task.name,
             status: 'available',
@@ -597,9 +662,9 @@ export const useGameStore = create<GameStore>()(
                   reviewSatisfaction,
                   actualCosts: {
                     ...t.actualCosts,
-                    energy: finalEnergyCost,
-                    time: focusMinutesToAdd > 0
-                      ? focusMinutesToAdd
+                    energy: energyCost,
+                    time: focusMinutes > 0
+                      ? focusMinutes
                       : t.actualCosts?.time,
                   }
                 }
@@ -609,7 +674,7 @@ export const useGameStore = create<GameStore>()(
               ...state.resources,
               time: {
                 ...state.resources.time,
-                total: Math.max(0, (state.resources.time.total || 0) + focusMinutesToAdd),
+                total: Math.max(0, (state.resources.time.total || 0) + focusMinutes),
               },
               money: {
                 ...state.resources.money,
@@ -629,11 +694,14 @@ export const useGameStore = create<GameStore>()(
                 review,
                 reviewSatisfaction,
                 details: {
-                  baseEnergyCost,
-                  multiplier: taskTypeMultiplier,
-                  energyCost: finalEnergyCost,
-                  netDeduction: finalEnergyCost,
+                  baseEnergyCost: reward.baseEnergyCost,
+                  multiplier: reward.multiplier,
+                  energyCost,
+                  netDeduction: energyCost,
                   goldGain,
+                  // Raw inputs, so the economy preview can replay this completion
+                  loggedEnergy: actualEnergyCost,
+                  loggedMinutes,
                 }
               },
             ],
@@ -644,99 +712,50 @@ export const useGameStore = create<GameStore>()(
         // Propagate progress up the hierarchy
         get().propagateProgressUp(id);
 
-        const importanceCoefMap: Record<string, number> = {
-          low: 0.9,
-          medium: 1.0,
-          high: 1.2,
-        };
-        const effortCoefMap: Record<string, number> = {
-          light: 0.9,
-          medium: 1.1,
-          heavy: 1.3,
-          tiny: 0.9,
-          moderate: 1.1,
-          massive: 1.3,
-        };
-        const expectedMinutesByEffort: Record<string, number> = {
-          light: 25,
-          medium: 60,
-          heavy: 120,
-          tiny: 25,
-          moderate: 60,
-          massive: 120,
-        };
-        const baselineEnergyByEffort: Record<string, number> = {
-          light: 4,
-          medium: 10,
-          heavy: 30,
-          tiny: 4,
-          moderate: 10,
-          massive: 30,
-        };
-        const baseXP = 8;
-        const importanceCoef = importanceCoefMap[task.importance] ?? 1;
-        const effortCoef = effortCoefMap[task.effort as string] ?? 1;
-        const qualityCoef = review?.trim() ? 1.08 : 1;
-        const expectedMinutes = expectedMinutesByEffort[task.effort as string] ?? 60;
-        const actualMinutes = focusMinutesToAdd > 0 ? focusMinutesToAdd : expectedMinutes;
-        const timeCoef = clampNumber(actualMinutes / Math.max(1, expectedMinutes), 0.8, 1.2);
-        const baselineEnergy = baselineEnergyByEffort[task.effort as string] ?? 10;
-        const energyCoef = clampNumber(finalEnergyCost / Math.max(1, baselineEnergy), 0.9, 1.1);
-        const xpGain = Math.max(
-          1,
-          Math.min(40, Math.ceil(baseXP * importanceCoef * effortCoef * qualityCoef * timeCoef * energyCoef))
-        );
+        // "N days after completion" rules schedule from this date
+        if (task.recurringTaskId) {
+          get().updateRecurringTask(task.recurringTaskId, { lastCompleted: getDayKey(completedAt) });
+        }
 
-        get().addExperience(xpGain);
+        if (xpGain > 0) get().addExperience(xpGain);
 
         // Create completion event with XP factors for auditability
-        get().createEvent({
+        const completionEvent = get().createEvent({
           type: 'task.completed',
           entity: { type: 'task', id: task.id, name: task.name },
           details: {
             review,
-            energyCost: finalEnergyCost,
+            energyCost,
             goldGain,
             xpGain,
-            xpFactors: { baseXP, importanceCoef, effortCoef, qualityCoef, timeCoef, energyCoef },
+            xpFactors: reward.xpFactors,
+            attributeGain: gains.attributeDelta,
           },
         });
 
-        const progressionConfig = get().progressionConfig;
-        const taskRule = getSkillPathCandidates(task.taskType, progressionConfig);
-        const primarySkills = taskRule.primarySkills || [];
-        const secondarySkills = taskRule.secondarySkills || [];
-        const primaryXP = Math.max(1, Math.ceil(xpGain * 0.4));
-        const secondaryXP = Math.max(1, Math.ceil(xpGain * 0.2));
-        for (const path of primarySkills.slice(0, 2)) {
-          const parsed = parseSkillPath(path);
+        // Dependents whose last open blocker was this task can start now
+        const tasksAfter = get().customTasks;
+        getDependents(tasksAfter, id).forEach((dependentId) => {
+          const dependent = tasksAfter.find((t) => t.id === dependentId);
+          if (!dependent || isTaskDone(dependent)) return;
+          if (getTaskBlockers(dependent, tasksAfter, get().mainQuests).length > 0) return;
+          get().createEvent({
+            type: 'task.unblocked',
+            entity: { type: 'task', id: dependent.id, name: dependent.name },
+            details: { unblockedBy: { type: 'task', id: task.id, name: task.name } },
+            parentEventId: completionEvent.id,
+          });
+        });
+
+        for (const award of gains.skillAwards) {
+          const parsed = parseSkillPath(award.path);
           if (!parsed) continue;
           const skillName = parsed.skill as SkillName<typeof parsed.category>;
-          get().addSkillXP(parsed.category, skillName, primaryXP, 'task_completion_primary');
+          get().addSkillXP(parsed.category, skillName, award.xp, award.reason);
         }
-        for (const path of secondarySkills.slice(0, 2)) {
-          const parsed = parseSkillPath(path);
-          if (!parsed) continue;
-          const skillName = parsed.skill as SkillName<typeof parsed.category>;
-          get().addSkillXP(parsed.category, skillName, secondaryXP, 'task_completion_secondary');
+        if (Object.keys(gains.attributeDelta).length > 0) {
+          get().updateStats(gains.attributeDelta);
         }
-
-        const safeSatisfaction = clampNumber((reviewSatisfaction || 3) / 3, 0.7, 1.5);
-        const attributeDelta: Partial<Record<'life' | 'intelligence' | 'spirit' | 'action' | 'agility' | 'charm', number>> = {};
-        for (const [attrKey, weight] of Object.entries(taskRule.attributeWeights || {})) {
-          const gain = Math.max(0, Math.ceil((weight || 0) * 2 * safeSatisfaction));
-          if (gain <= 0) continue;
-          if (['life', 'intelligence', 'spirit', 'action', 'agility', 'charm'].includes(attrKey)) {
-            const typedAttrKey = attrKey as keyof typeof attributeDelta;
-            attributeDelta[typedAttrKey] = gain;
-          }
-        }
-        if (Object.keys(attributeDelta).length > 0) {
-          get().updateStats(attributeDelta);
-        }
-
-        const unlockedNames = evaluateAutoTitleUnlockNames(get() as unknown as GameData);
-        unlockedNames.forEach((name) => get().unlockTitle(name));
       },
 
       archiveTask: (id) => {
@@ -793,6 +812,32 @@ export const useGameStore = create<GameStore>()(
         set({ archivedTasks: [] });
       },
 
+      addTaskDependency: (taskId, blockerId) => {
+        if (taskId === blockerId) return { success: false, reason: 'self' };
+        const tasks = get().customTasks;
+        const task = tasks.find((t) => t.id === taskId);
+        if (!task || !tasks.some((t) => t.id === blockerId)) return { success: false, reason: 'not_found' };
+        if (task.blockedBy?.includes(blockerId)) return { success: true };
+        if (wouldCreateCycle(tasks, taskId, blockerId)) return { success: false, reason: 'cycle' };
+
+        set((state) => ({
+          customTasks: state.customTasks.map((t) =>
+            t.id === taskId ? { ...t, blockedBy: [...(t.blockedBy || []), blockerId] } : t
+          ),
+        }));
+        return { success: true };
+      },
+
+      removeTaskDependency: (taskId, blockerId) => {
+        set((state) => ({
+          customTasks: state.customTasks.map((t) =>
+            t.id === taskId && t.blockedBy?.includes(blockerId)
+              ? { ...t, blockedBy: t.blockedBy.filter((b) => b !== blockerId) }
+              : t
+          ),
+        }));
+      },
+
       // === Recurring Task Actions ===
       addRecurringTask: (taskData) => {
         const id = generateId('rt');
@@ -831,21 +876,10 @@ export const useGameStore = create<GameStore>()(
         if (!rule) return;
 
         // Default deadline to today if not provided
-        const todayStr = new Date().toISOString().split('T')[0];
+        const todayStr = getDayKey();
         const deadline = customDate || todayStr;
 
-        get().addTask({
-          name: rule.name,
-          description: rule.description,
-          importance: rule.importance,
-          effort: rule.effort,
-          taskType: rule.taskType,
-          linkType: rule.linkedMainQuestId ? 'mainQuest' : rule.linkedSeasonId ? 'season' : 'none',
-          linkedMainQuestId: rule.linkedMainQuestId,
-          linkedSeasonId: rule.linkedSeasonId,
-          seasonId: rule.linkedSeasonId,
-          deadline: deadline,
-        });
+        get().addTask(recurringTaskInput(rule, deadline));
 
         if (!customDate || customDate === todayStr) {
           get().updateRecurringTask(id, { lastGeneratedDate: todayStr });
@@ -854,66 +888,27 @@ export const useGameStore = create<GameStore>()(
 
       checkRecurringTasks: () => {
         const state = get();
-        const today = new Date();
-        const todayStr = today.getFullYear() + '-' + String(today.getMonth() + 1).padStart(2, '0') + '-' + String(today.getDate()).padStart(2, '0');
-        const dayOfWeek = today.getDay(); // 0-6
-        const dayOfMonth = today.getDate(); // 1-31
+        const todayStr = getDayKey();
 
         state.recurringTasks.forEach((rule) => {
-          if (!rule.enabled) return;
-
-          // Date Range Check
-          if (rule.startDate && todayStr < rule.startDate) return;
-          if (rule.endDate && todayStr > rule.endDate) return;
-
-          // Check if already generated today
-          if (rule.lastGeneratedDate === todayStr) return;
-
-          let shouldGenerate = false;
-
-          if (rule.frequency === 'daily') {
-            shouldGenerate = true;
-          } else if (rule.frequency === 'weekly' && rule.daysOfWeek?.includes(dayOfWeek)) {
-            shouldGenerate = true;
-          } else if (rule.frequency === 'monthly' && rule.dayOfMonth === dayOfMonth) {
-            shouldGenerate = true;
-          }
+          if (!rule.enabled || rule.lastCheckedDate === todayStr) return;
 
-          if (shouldGenerate) {
-            // Calculate deadline based on frequency
-            let deadline: string | undefined;
-
-            if (rule.frequency === 'daily') {
-              // Daily task: deadline is today
-              deadline = todayStr;
-            } else if (rule.frequency === 'weekly' && rule.daysOfWeek && rule.daysOfWeek.length > 0) {
-              // Weekly task: deadline is the next occurrence of the specified day
-              // If multiple days, use the current day (since we're generating on that day)
-              deadline = todayStr;
-            } else if (rule.frequency === 'monthly') {
-              // Monthly task: deadline is today (the day it's generated)
-              deadline = todayStr;
-            }
+          const hasOpenTask = rule.frequency === 'after_completion'
+            && state.customTasks.some((task) => task.recurringTaskId === rule.id && task.status !== 'completed');
+          const plan = planRecurringGeneration(rule, todayStr, rule.missedPolicy, { ...rule, hasOpenTask });
 
+          plan.dates.forEach((deadline) => {
             console.log(`[checkRecurringTasks] Generating task "${rule.name}" with deadline: ${deadline}`);
-
-            // Generate Task with deadline
-            get().addTask({
-              name: rule.name,
-              description: rule.description,
-              importance: rule.importance,
-              effort: rule.effort,
-              taskType: rule.taskType,
-              linkType: rule.linkedMainQuestId ? 'mainQuest' : rule.linkedSeasonId ? 'season' : 'none',
-              linkedMainQuestId: rule.linkedMainQuestId,
-              linkedSeasonId: rule.linkedSeasonId,
-              seasonId: rule.linkedSeasonId, // Dual mapping for compatibility
-              deadline: deadline,
-            });
-
-            // Mark as generated
-            get().updateRecurringTask(rule.id, { lastGeneratedDate: todayStr });
+            get().addTask(recurringTaskInput(rule, deadline));
+          });
+          if (plan.skipped > 0) {
+            console.log(`[checkRecurringTasks] Skipped ${plan.skipped} missed occurrence(s) of "${rule.name}" (${rule.missedPolicy || 'skip'})`);
           }
+
+          get().updateRecurringTask(rule.id, {
+            lastCheckedDate: todayStr,
+            ...(plan.dates.length > 0 ? { lastGeneratedDate: todayStr } : {}),
+          });
         });
       },
 
@@ -989,8 +984,7 @@ export const useGameStore = create<GameStore>()(
             const unlockDate = new Date(year, month - 1, day);
             unlockDate.setHours(0, 0, 0, 0);
 
-            const today = new Date();
-            today.setHours(0, 0, 0, 0);
+            const today = toDayDate();
 
             console.log('[updateQuest] Unlock date check:', { unlockTimeValue, unlockDate: unlockDate.toISOString(), today: today.toISOString(), isFuture: unlockDate > today });
 
@@ -1048,10 +1042,35 @@ export const useGameStore = create<GameStore>()(
               },
             }));
           }
-          if (quest.rewardXP) {
-            get().addExperience(quest.rewardXP);
-          }
+          get().grantMilestoneXp('quest', quest.rewardXP, { type: 'quest', id: quest.id, name: quest.title });
           get().runOrchestrationCycle('quest_completed', `quest=${quest.title}`);
+          get().evaluateAchievements(['quest']);
+        }
+
+        // Quests waiting on this one (and their tasks) can start once all their blockers are done
+        if (finalUpdates.status === 'completed' && quest && !isQuestDone(quest)) {
+          const { mainQuests, customTasks } = get();
+          getDependents(mainQuests, id).forEach((dependentId) => {
+            const dependent = mainQuests.find((q) => q.id === dependentId);
+            if (!dependent || isQuestDone(dependent)) return;
+            if (getQuestBlockers(dependent, mainQuests).length > 0) return;
+            const unblockedEvent = get().createEvent({
+              type: 'quest.unblocked',
+              entity: { type: 'quest', id: dependent.id, name: dependent.title },
+              details: { unblockedBy: { type: 'quest', id: quest.id, name: quest.title } },
+            });
+            customTasks
+              .filter((t) => t.linkedMainQuestId === dependent.id && !isTaskDone(t))
+              .filter((t) => getTaskBlockers(t, customTasks, mainQuests).length === 0)
+              .forEach((t) => {
+                get().createEvent({
+                  type: 'task.unblocked',
+                  entity: { type: 'task', id: t.id, name: t.name },
+                  details: { unblockedBy: { type: 'quest', id: quest.id, name: quest.title } },
+                  parentEventId: unblockedEvent.id,
+                });
+              });
+          });
         }
 
         if (quest?.linkedChapterId && quest?.seasonId) {
@@ -1121,7 +1140,35 @@ export const useGameStore = create<GameStore>()(
 
       deleteQuest: (id) => {
         set((state) => ({
-          mainQuests: state.mainQuests.filter((q) => q.id !== id),
+          mainQuests: state.mainQuests
+            .filter((q) => q.id !== id)
+            .map((q) => (q.blockedBy?.includes(id) ? { ...q, blockedBy: q.blockedBy.filter((b) => b !== id) } : q)),
+        }));
+      },
+
+      addQuestDependency: (questId, blockerId) => {
+        if (questId === blockerId) return { success: false, reason: 'self' };
+        const quests = get().mainQuests;
+        const quest = quests.find((q) => q.id === questId);
+        if (!quest || !quests.some((q) => q.id === blockerId)) return { success: false, reason: 'not_found' };
+        if (quest.blockedBy?.includes(blockerId)) return { success: true };
+        if (wouldCreateCycle(quests, questId, blockerId)) return { success: false, reason: 'cycle' };
+
+        set((state) => ({
+          mainQuests: state.mainQuests.map((q) =>
+            q.id === questId ? { ...q, blockedBy: [...(q.blockedBy || []), blockerId] } : q
+          ),
+        }));
+        return { success: true };
+      },
+
+      removeQuestDependency: (questId, blockerId) => {
+        set((state) => ({
+          mainQuests: state.mainQuests.map((q) =>
+            q.id === questId && q.blockedBy?.includes(blockerId)
+              ? { ...q, blockedBy: q.blockedBy.filter((b) => b !== blockerId) }
+              : q
+          ),
         }));
       },
 
@@ -1315,9 +1362,7 @@ export const useGameStore = create<GameStore>()(
               },
             }));
           }
-          if (nextSeason.rewardXP) {
-            get().addExperience(nextSeason.rewardXP);
-          }
+          get().grantMilestoneXp('season', nextSeason.rewardXP, { type: 'season', id: nextSeason.id, name: nextSeason.name });
         }
       },
 
@@ -1500,9 +1545,7 @@ export const useGameStore = create<GameStore>()(
               },
             }));
           }
-          if (chapter.rewardXP) {
-            get().addExperience(chapter.rewardXP);
-          }
+          get().grantMilestoneXp('chapter', chapter.rewardXP, { type: 'chapter', id: chapter.id, name: chapter.title });
         }
       },
 
@@ -1699,14 +1742,12 @@ export const useGameStore = create<GameStore>()(
         const habit = get().habits.find((h) => h.id === id);
         if (!habit) return;
 
-        const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+        const today = getDayKey(); // YYYY-MM-DD
         const now = new Date().toISOString();
         const currentEntry = habit.completionHistory[today] || { count: 0, timestamps: [] };
 
         // Calculate new streak
-        const yesterday = new Date();
-        yesterday.setDate(yesterday.getDate() - 1);
-        const yesterdayStr = yesterday.toISOString().split('T')[0];
+        const yesterdayStr = addDaysToKey(today, -1);
         const hadYesterday = habit.completionHistory[yesterdayStr]?.count > 0;
         const hadToday = currentEntry.count > 0;
 
@@ -1746,12 +1787,12 @@ export const useGameStore = create<GameStore>()(
         // Grant rewards if estimated duration exists
         if (habit.estimatedDuration && habit.estimatedDuration > 0) {
           const focusMinutes = habit.estimatedDuration;
-          const energyCost = Math.max(1, Math.ceil(focusMinutes * (10 / 60))); // ~10 energy per hour
-          const xpGain = Math.max(1, Math.ceil(focusMinutes * (40 / 60))); // ~40 xp per hour
-          const goldGain = Math.max(1, Math.ceil(focusMinutes * (18 / 60))); // ~18 gold per hour
+          const { periodCaps, economy } = get().progressionConfig;
+          const { energyCost, ...reward } = computeHabitReward(focusMinutes, economy);
+          const { xpGain, goldGain } = applyPeriodCaps(reward, getPeriodUsage(get().events), periodCaps);
 
-          get().updateEnergy(-energyCost, 'habit_completion');
-          get().addExperience(xpGain);
+          if (energyCost > 0) get().updateEnergy(-energyCost, 'habit_completion');
+          if (xpGain > 0) get().addExperience(xpGain);
 
           const monthStr = getCurrentMonthStr(new Date());
           set((state) => {
@@ -1800,6 +1841,9 @@ export const useGameStore = create<GameStore>()(
               source: 'habit_checkin'
             },
           });
+        } else {
+          // The reward event re-checks achievements; without one, check habit ones here
+          get().evaluateAchievements(['habit']);
         }
       },
 
@@ -1827,6 +1871,9 @@ export const useGameStore = create<GameStore>()(
           events: [...state.events, event],
         }));
 
+        const triggers = getEventTriggers(event);
+        if (triggers.length > 0) get().evaluateAchievements(triggers);
+
         return event;
       },
 
@@ -1906,6 +1953,7 @@ export const useGameStore = create<GameStore>()(
             financialRecords: nextRecords,
           };
         });
+        if (change > 0) get().evaluateAchievements(['gold']);
       },
 
       recalculateMonthlyMoney: (month) => {
@@ -1927,6 +1975,103 @@ export const useGameStore = create<GameStore>()(
         });
       },
 
+      // === Economy Actions ===
+      updateProgressionConfig: (updates) => {
+        set((state) => ({ progressionConfig: { ...state.progressionConfig, ...updates } }));
+      },
+
+      rewardFlashcard: (reward) => {
+        const { periodCaps, economy } = get().progressionConfig;
+        const { xpGain } = applyPeriodCaps(
+          { xpGain: getFlashcardXp(reward, economy), goldGain: 0 },
+          getPeriodUsage(get().events),
+          periodCaps
+        );
+        if (xpGain > 0) get().addExperience(xpGain);
+        get().createEvent(reward === 'session'
+          ? {
+            type: 'flashcard.session_completed',
+            entity: { type: 'flashcard', id: 'session', name: 'Flashcard session' },
+            details: { xpGain },
+          }
+          : {
+            type: 'flashcard.reviewed',
+            entity: { type: 'flashcard', id: 'review', name: 'Flashcard review' },
+            details: { rating: reward, xpGain },
+          });
+        return xpGain;
+      },
+
+      completePomodoro: (taskId, minutes) => {
+        const task = taskId ? get().customTasks.find((t) => t.id === taskId) : undefined;
+        const { periodCaps, economy } = get().progressionConfig;
+        const { xpGain, goldGain } = applyPeriodCaps(computePomodoroReward(economy), getPeriodUsage(get().events), periodCaps);
+        if (xpGain > 0) get().addExperience(xpGain);
+        if (goldGain > 0) {
+          const now = new Date();
+          const monthStr = getCurrentMonthStr(now);
+          set((state) => {
+            const moneyRecord: GameData['financialRecords'][number] = {
+              id: generateId('fin'),
+              type: 'income',
+              amount: goldGain,
+              category: 'pomodoro_completion',
+              source: 'system',
+              relatedEntityType: task ? 'task' : undefined,
+              relatedEntityId: task?.id,
+              description: `Pomodoro: ${task?.name || minutes + ' min'}`,
+              date: now.toISOString(),
+            };
+            const nextFinancialRecords = [...state.financialRecords, moneyRecord];
+            const monthSummary = calculateMonthlyMoneyFromRecords(nextFinancialRecords, monthStr);
+            return {
+              financialRecords: nextFinancialRecords,
+              resources: {
+                ...state.resources,
+                money: {
+                  ...state.resources.money,
+                  balance: state.resources.money.balance + goldGain,
+                  currentMonth: monthStr,
+                  monthlyIncome: monthSummary.income,
+                  monthlySpent: monthSummary.spent,
+                  monthlyNet: monthSummary.income - monthSummary.spent,
+                },
+              },
+            };
+          });
+        }
+        set((state) => {
+          const today = getDayKey();
+          return {
+            pomodoro: {
+              completedToday: state.pomodoro.lastPomodoroDate === today ? state.pomodoro.completedToday + 1 : 1,
+              lastPomodoroDate: today,
+              totalCompleted: (state.pomodoro.totalCompleted || 0) + 1,
+              lastUsedTaskId: task?.id ?? state.pomodoro.lastUsedTaskId,
+            },
+          };
+        });
+        get().createEvent({
+          type: 'pomodoro.completed',
+          entity: task
+            ? { type: 'task', id: task.id, name: task.name }
+            : { type: 'pomodoro', id: 'focus', name: 'Pomodoro' },
+          details: { minutes, xpGain, goldGain },
+        });
+      },
+
+      grantMilestoneXp: (kind, rewardXP, entity) => {
+        const { periodCaps, economy } = get().progressionConfig;
+        const { xpGain } = applyPeriodCaps(
+          { xpGain: getMilestoneXp(kind, rewardXP, economy), goldGain: 0 },
+          getPeriodUsage(get().events),
+          periodCaps
+        );
+        if (xpGain > 0) get().addExperience(xpGain);
+        // The completion event records the XP so later rewards count it against today's cap
+        get().createEvent({ type: `${kind}.completed`, entity, details: { xpGain } });
+      },
+
       // === Experience Actions ===
       addExperience: (xp) => {
         set((state) => {
@@ -1937,8 +2082,7 @@ export const useGameStore = create<GameStore>()(
             level: Math.min(newLevel, 100), // Cap at level 100
           };
         });
-        const unlockedNames = evaluateAutoTitleUnlockNames(get() as unknown as GameData);
-        unlockedNames.forEach((name) => get().unlockTitle(name));
+        get().evaluateAchievements(['level']);
       },
 
       addSkillXP: (category, skill, xp, reason = 'manual') => {
@@ -1977,8 +2121,6 @@ export const useGameStore = create<GameStore>()(
             details: { reason, level: target.level },
           });
         }
-        const unlockedNames = evaluateAutoTitleUnlockNames(get() as unknown as GameData);
-        unlockedNames.forEach((name) => get().unlockTitle(name));
       },
 
       setSkillLevel: (category, skill, level) => {
@@ -2026,7 +2168,14 @@ export const useGameStore = create<GameStore>()(
         }));
       },
 
+      updateEventMemories: (updates) => {
+        set((state) => ({
+          eventMemories: { ...state.eventMemories, ...updates },
+        }));
+      },
+
       runOrchestrationCycle: (trigger, note) => {
+        void createSnapshot('orchestration', get().exportData(), trigger);
         const now = new Date().toISOString();
         const state = get();
         const completedTasks = [...state.customTasks, ...state.archivedTasks]
@@ -2080,6 +2229,15 @@ export const useGameStore = create<GameStore>()(
         }));
       },
 
+      rollbackOrchestrationCycle: (entryId, worldState) => {
+        set((prev) => ({
+          worldState,
+          orchestrationLog: (prev.orchestrationLog || []).map((entry) =>
+            entry.id === entryId ? { ...entry, rolledBack: true } : entry
+          ),
+        }));
+      },
+
       resetPlayerStats: (newLevel = 1, newXP = 0) => {
         const safeLevel = Math.max(1, Math.min(newLevel, 100));
         const safeXP = Math.max(0, newXP);
@@ -2124,6 +2282,39 @@ export const useGameStore = create<GameStore>()(
         }));
       },
 
+      // === Achievement Actions ===
+      evaluateAchievements: (triggers) => {
+        evaluateTitleUnlocks(get(), triggers).forEach((name) => get().unlockTitle(name));
+      },
+
+      addCustomAchievement: (achievement) => {
+        const name = achievement.name.trim();
+        const condition = achievement.condition.trim();
+        if (!name) return { success: false, reason: 'name_required' };
+        const taken = [
+          ...TITLE_DATABASE.achievementTitles,
+          ...TITLE_DATABASE.levelTitles,
+          ...get().customAchievements,
+        ].some((existing) => existing.name === name);
+        if (taken) return { success: false, reason: 'name_taken' };
+        if (!parseCondition(condition).success) return { success: false, reason: 'invalid_condition' };
+
+        const entry: AchievementDefinition = {
+          id: generateId('ach'),
+          name,
+          description: achievement.description.trim(),
+          condition,
+          createdAt: new Date().toISOString(),
+        };
+        set((state) => ({ customAchievements: [...state.customAchievements, entry] }));
+        get().evaluateAchievements();
+        return { success: true };
+      },
+
+      deleteCustomAchievement: (id) => {
+        set((state) => ({ customAchievements: state.customAchievements.filter((entry) => entry.id !== id) }));
+      },
+
       addRewardActionLog: (text) => {
         const content = text.trim();
         if (!content) return;
@@ -2161,15 +2352,104 @@ export const useGameStore = create<GameStore>()(
         });
       },
 
+      updateRewardBudget: (updates) => {
+        set((state) => ({ rewardBudget: { ...state.rewardBudget, ...updates } }));
+      },
+
+      updateCalendarSettings: (updates) => {
+        const next = { ...get().calendarSettings, ...updates };
+        const sanitized = sanitizeCalendarSettings(next);
+        if (sanitized.dayStartHour !== next.dayStartHour) return { success: false, reason: 'invalid_hour' };
+        if (sanitized.timeZone !== next.timeZone) return { success: false, reason: 'invalid_time_zone' };
+        set({ calendarSettings: sanitized });
+        return { success: true };
+      },
+
+      addWishlistItem: (item) => {
+        const name = item.name.trim();
+        if (!name) return { success: false, reason: 'name_required' };
+        const targetGold = Math.floor(item.targetGold);
+        if (!Number.isFinite(targetGold) || targetGold < 1) return { success: false, reason: 'invalid_target' };
+        const entry: WishlistItem = {
+          id: generateId('wish'),
+          name,
+          targetGold,
+          savedGold: 0,
+          weeklyContribution: Math.max(0, Math.floor(item.weeklyContribution) || 0),
+          status: 'saving',
+          createdAt: new Date().toISOString(),
+          lastAccruedOn: getDayKey(),
+        };
+        set((state) => ({ rewardWishlist: [...state.rewardWishlist, entry] }));
+        return { success: true };
+      },
+
+      depositToWishlist: (id, amount) => {
+        const state = get();
+        const item = state.rewardWishlist.find((entry) => entry.id === id);
+        if (!item) return { success: false, reason: 'not_found' };
+        if (item.status !== 'saving') return { success: false, reason: 'not_saving' };
+        const deposit = Math.min(Math.floor(amount), item.targetGold - item.savedGold);
+        if (!Number.isFinite(deposit) || deposit < 1) return { success: false, reason: 'invalid_amount' };
+        if (state.resources.money.balance < deposit) return { success: false, reason: 'insufficient_gold' };
+        set((prev) => transferWishlistGold(prev, item, deposit));
+        return { success: true };
+      },
+
+      // Weekly contributions accrue per day, as far as the balance allows
+      accrueWishlistSavings: () => {
+        const now = new Date();
+        get().rewardWishlist.forEach((item) => {
+          const { amount, accruedOn } = getWishlistAccrual(item, now);
+          if (accruedOn === item.lastAccruedOn) return;
+          const deposit = Math.min(amount, Math.max(0, Math.floor(get().resources.money.balance)));
+          set((prev) => {
+            const next = deposit > 0 ? { ...prev, ...transferWishlistGold(prev, item, deposit, now) } : prev;
+            return {
+              ...next,
+              rewardWishlist: next.rewardWishlist.map((entry) =>
+                entry.id === item.id ? { ...entry, lastAccruedOn: accruedOn } : entry
+              ),
+            };
+          });
+        });
+      },
+
+      redeemWishlistItem: (id) => {
+        const item = get().rewardWishlist.find((entry) => entry.id === id);
+        if (!item) return { success: false, reason: 'not_found' };
+        if (item.status !== 'saving') return { success: false, reason: 'not_saving' };
+        if (item.savedGold < item.targetGold) return { success: false, reason: 'not_funded' };
+        set((state) => ({
+          rewardWishlist: state.rewardWishlist.map((entry) =>
+            entry.id === id ? { ...entry, status: 'redeemed', redeemedAt: new Date().toISOString() } : entry
+          ),
+        }));
+        return { success: true };
+      },
+
+      // Gold saved toward an unredeemed item goes back to the balance
+      deleteWishlistItem: (id) => {
+        const item = get().rewardWishlist.find((entry) => entry.id === id);
+        if (!item) return;
+        if (item.status === 'saving' && item.savedGold > 0) {
+          set((state) => transferWishlistGold(state, item, -item.savedGold));
+        }
+        set((state) => ({ rewardWishlist: state.rewardWishlist.filter((entry) => entry.id !== id) }));
+      },
+
       redeemRewardSticker: (id) => {
         const state = get();
         const target = (state.rewardPool || []).find((item) => item.id === id);
         if (!target) return { success: false, reason: 'not_found' };
         if (target.status !== 'available') return { success: false, reason: 'already_redeemed' };
-        const cost = target.priceGold || 0;
-        if (state.resources.money.balance < cost) return { success: false, reason: 'insufficient_gold' };
-
         const now = new Date();
+        const check = checkRedemption(target, state, now);
+        if (!check.success) {
+          return { success: false, reason: check.reason, availableOn: check.reason === 'cooldown' ? check.availableOn : undefined };
+        }
+        const cost = check.price;
+
         const currentMonth = getCurrentMonthStr(now);
         set((prev) => {
           const nextRecords = [
@@ -2211,8 +2491,54 @@ export const useGameStore = create<GameStore>()(
         return { success: true };
       },
 
-      restoreRewardSticker: (_id) => {
-        return { success: false, reason: 'non_reversible' };
+      restoreRewardSticker: (id) => {
+        const target = (get().rewardPool || []).find((item) => item.id === id);
+        if (!target) return { success: false, reason: 'not_found' };
+        if (target.status !== 'redeemed') return { success: false, reason: 'not_redeemed' };
+        const refund = target.redeemedCostGold || 0;
+
+        const now = new Date();
+        const currentMonth = getCurrentMonthStr(now);
+        set((prev) => {
+          const nextRecords = refund > 0
+            ? [
+              ...prev.financialRecords,
+              {
+                id: generateId('fin'),
+                type: 'income' as const,
+                amount: refund,
+                category: 'reward',
+                source: 'reward_redeem' as const,
+                relatedEntityType: 'reward' as const,
+                relatedEntityId: id,
+                description: `Refund reward: ${target.rawText}`,
+                date: now.toISOString(),
+              },
+            ]
+            : prev.financialRecords;
+          const monthSummary = calculateMonthlyMoneyFromRecords(nextRecords, currentMonth);
+          return {
+            rewardPool: (prev.rewardPool || []).map((item) =>
+              item.id === id
+                ? { ...item, status: 'available', redeemedAt: undefined, redeemedCostGold: undefined }
+                : item
+            ),
+            resources: {
+              ...prev.resources,
+              money: {
+                ...prev.resources.money,
+                balance: prev.resources.money.balance + refund,
+                currentMonth,
+                monthlyIncome: monthSummary.income,
+                monthlySpent: monthSummary.spent,
+                monthlyNet: monthSummary.income - monthSummary.spent,
+              },
+            },
+            financialRecords: nextRecords,
+          };
+        });
+
+        return { success: true };
       },
 
       deleteRewardSticker: (id) => {
@@ -2240,7 +2566,12 @@ export const useGameStore = create<GameStore>()(
               ? (() => {
                 const nextVerb = updates.verb ?? item.verb;
                 const nextQuantity = updates.quantity;
-                const pricing = estimateRewardPricing(nextVerb, nextQuantity, state.rewardPricing || DEFAULT_REWARD_PRICING);
+                const nextDuration = 'durationMinutes' in updates ? updates.durationMinutes : item.durationMinutes;
+                const nextPriceCap = 'priceCap' in updates ? updates.priceCap : item.priceCap;
+                const pricing = estimateRewardPricing(
+                  { verb: nextVerb, quantity: nextQuantity, durationMinutes: nextDuration, priceCap: nextPriceCap },
+                  state.rewardPricing || DEFAULT_REWARD_PRICING
+                );
                 return {
                   ...item,
                   rawText: updates.rawText ?? item.rawText,
@@ -2248,6 +2579,8 @@ export const useGameStore = create<GameStore>()(
                   object: updates.object ?? item.object,
                   quantity: nextQuantity,
                   unit: updates.unit,
+                  durationMinutes: nextDuration,
+                  priceCap: nextPriceCap,
                   priceTier: pricing.priceTier,
                   priceGold: pricing.priceGold,
                 };
@@ -2281,28 +2614,22 @@ export const useGameStore = create<GameStore>()(
 
       // === Daily Reset ===
       checkDailyReset: () => {
-        const today = new Date().toDateString();
+        get().accrueWishlistSavings();
+        const today = getDayKey();
         const state = get();
         const currentMonth = getCurrentMonthStr();
         const monthChanged = state.resources.money.currentMonth !== currentMonth;
-        const todayDate = new Date();
-        todayDate.setHours(0, 0, 0, 0);
-        const lastResetDate = parseLegacyDayString(state.lastReset);
+        const lastResetDay = normalizeDayKey(state.lastReset);
         const nextSnapshots: Record<string, DailyCompletionSnapshot> = {
           ...(state.dailyCompletionSnapshots || {}),
         };
 
-        if (lastResetDate) {
-          const cursor = new Date(lastResetDate);
-          while (cursor < todayDate) {
-            const dayKey = toDateKey(cursor);
+        if (lastResetDay) {
+          for (let dayKey = lastResetDay; dayKey < today; dayKey = addDaysToKey(dayKey, 1)) {
             nextSnapshots[dayKey] = computeDailySnapshotFromState(state, dayKey);
-            cursor.setDate(cursor.getDate() + 1);
           }
         } else {
-          const yesterday = new Date(todayDate);
-          yesterday.setDate(yesterday.getDate() - 1);
-          const dayKey = toDateKey(yesterday);
+          const dayKey = addDaysToKey(today, -1);
           nextSnapshots[dayKey] = computeDailySnapshotFromState(state, dayKey);
         }
 
@@ -2357,8 +2684,7 @@ export const useGameStore = create<GameStore>()(
       // === Check Quest Unlocks ===
       checkQuestUnlocks: () => {
         const state = get();
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
+        const today = toDayDate();
 
         // 1. Check Main Quest Unlocks
         const updatedQuests = state.mainQuests.map(quest => {
@@ -2436,17 +2762,34 @@ export const useGameStore = create<GameStore>()(
 
       // === Data Management ===
       loadFromJSON: (data) => {
-        set((state) => normalizeStoreData(state, data));
+        const migration = runMigrations(data);
+        if (!migration.success) return { success: false, reason: migration.reason };
+
+        void createSnapshot('import', get().exportData());
+        set((state) => normalizeStoreData(state, migration.data));
+        get().recalculateMonthlyMoney(getCurrentMonthStr());
+        get().recalculateAllQuestProgress();
+        get().recalculateAllChapterProgress();
+        return { success: true, appliedMigrations: migration.applied };
+      },
+
+      mergeFromJSON: (data, resolutions) => {
+        const merge = mergeImportedData(get().exportData(), data, resolutions);
+        if (!merge.success) return { success: false, reason: merge.reason };
+
+        void createSnapshot('import', get().exportData(), 'merge');
+        set((state) => normalizeStoreData(state, merge.data));
         get().recalculateMonthlyMoney(getCurrentMonthStr());
         get().recalculateAllQuestProgress();
         get().recalculateAllChapterProgress();
+        return { success: true, plan: merge.plan };
       },
 
       exportData: () => {
         const state = get();
         // Return only data, not actions
         const {
-          addTask, updateTask, deleteTask, completeTask, archiveTask, unarchiveTask,
+          addTask, updateTask, deleteTask, restoreTask, completeTask, archiveTask, unarchiveTask,
           addRecurringTask, updateRecurringTask, deleteRecurringTask, checkRecurringTasks,
           addQuest, updateQuest, deleteQuest, archiveQuest, unarchiveQuest, updateArchivedQuest, convertTaskToQuest,
           addSeason, updateSeason,
@@ -2454,39 +2797,32 @@ export const useGameStore = create<GameStore>()(
           addWeeklyGoal, updateWeeklyGoal, deleteWeeklyGoal, archiveWeeklyGoal,
           addHabit, updateHabit, deleteHabit, archiveHabit, unarchiveHabit, reorderHabits, checkInHabit,
           createEvent, updateEventAnalysis,
-          updateEnergy, updateMoney, recalculateMonthlyMoney, addExperience, addSkillXP, setSkillLevel, setBeliefMode, setProfileBeliefs, updateLoreProfile, runOrchestrationCycle, resetPlayerStats, updateStats, setCurrentTitle, unlockTitle, removeTitle,
+          updateEnergy, updateMoney, recalculateMonthlyMoney, updateProgressionConfig, rewardFlashcard, completePomodoro, addExperience, addSkillXP, setSkillLevel, setBeliefMode, setProfileBeliefs, updateLoreProfile, updateEventMemories, runOrchestrationCycle, rollbackOrchestrationCycle, resetPlayerStats, updateStats, setCurrentTitle, unlockTitle, removeTitle,
+          evaluateAchievements, addCustomAchievement, deleteCustomAchievement,
           redeemRewardSticker, restoreRewardSticker, deleteRewardSticker, updateRewardStickerPosition, updateRewardStickerData, randomizeRewardBoardLayout, checkDailyReset,
-          loadFromJSON, exportData, resetData,
+          updateRewardBudget, addWishlistItem, depositToWishlist, accrueWishlistSavings, redeemWishlistItem, deleteWishlistItem,
+          updateCalendarSettings,
+          loadFromJSON, mergeFromJSON, exportData, resetData,
           ...data
         } = state;
         return data as GameData;
       },
 
       resetData: () => {
+        void createSnapshot('reset', get().exportData());
         set(initialState);
       },
     }),
     {
       name: STORAGE_KEY,
-      storage: createJSONStorage(() => ({
-        getItem: (name) => {
-          const str = localStorage.getItem(name);
-          return str;
-        },
-        setItem: (name, value) => {
-          try {
-            localStorage.setItem(name, value);
-          } catch (e) {
-            console.warn('[Storage] Failed to save, localStorage might be full:', e);
-            // Don't crash the app if storage fails
-          }
-        },
-        removeItem: (name) => localStorage.removeItem(name),
-      })),
+      storage: createCollectionStorage({
+        collections: GAME_DATA_COLLECTIONS as Record<string, 'list' | 'map'>,
+        migrate: migratePersistedGameData,
+      }),
       partialize: (state) => {
         // Only persist data, not actions
         const {
-          addTask, updateTask, deleteTask, completeTask, archiveTask, unarchiveTask,
+          addTask, updateTask, deleteTask, restoreTask, completeTask, archiveTask, unarchiveTask,
           addRecurringTask, updateRecurringTask, deleteRecurringTask, checkRecurringTasks, triggerRecurringTask,
           addQuest, updateQuest, deleteQuest, archiveQuest, unarchiveQuest, updateArchivedQuest, convertTaskToQuest,
           addSeason, updateSeason,
@@ -2494,176 +2830,26 @@ export const useGameStore = create<GameStore>()(
           addWeeklyGoal, updateWeeklyGoal, deleteWeeklyGoal, archiveWeeklyGoal,
           addHabit, updateHabit, deleteHabit, archiveHabit, unarchiveHabit, reorderHabits, checkInHabit,
           createEvent, updateEventAnalysis,
-          updateEnergy, updateMoney, recalculateMonthlyMoney, addExperience, addSkillXP, setSkillLevel, setBeliefMode, setProfileBeliefs, updateLoreProfile, runOrchestrationCycle, resetPlayerStats, updateStats, setCurrentTitle, unlockTitle, removeTitle,
+          updateEnergy, updateMoney, recalculateMonthlyMoney, updateProgressionConfig, rewardFlashcard, completePomodoro, addExperience, addSkillXP, setSkillLevel, setBeliefMode, setProfileBeliefs, updateLoreProfile, updateEventMemories, runOrchestrationCycle, rollbackOrchestrationCycle, resetPlayerStats, updateStats, setCurrentTitle, unlockTitle, removeTitle,
+          evaluateAchievements, addCustomAchievement, deleteCustomAchievement,
           redeemRewardSticker, restoreRewardSticker, deleteRewardSticker, updateRewardStickerPosition, updateRewardStickerData, randomizeRewardBoardLayout, checkDailyReset,
           addRewardActionLog,
-          loadFromJSON, exportData, resetData,
+          updateRewardBudget, addWishlistItem, depositToWishlist, accrueWishlistSavings, redeemWishlistItem, deleteWishlistItem,
+          updateCalendarSettings,
+          loadFromJSON, mergeFromJSON, exportData, resetData,
           ...data
         } = state;
         return data;
       },
-      version: 10, // Increment version for migration
-      migrate: (persistedState: unknown, version: number) => {
-        const state = (persistedState || {}) as Partial<GameData> & { coins?: number };
-        if (state && state.resources) {
-          state.resources.money = state.resources.money || {};
-          if (
-            typeof state.resources.money.balance !== 'number' &&
-            typeof state.coins === 'number'
-          ) {
-            state.resources.money.balance = state.coins;
-          }
-          if (typeof state.resources.money.currentMonth !== 'string') {
-            state.resources.money.currentMonth = getCurrentMonthStr();
-          }
-          if (typeof state.resources.money.monthlyNet !== 'number') {
-            const monthSummary = calculateMonthlyMoneyFromRecords(
-              Array.isArray(state.financialRecords) ? state.financialRecords : [],
-              state.resources.money.currentMonth
-            );
-            state.resources.money.monthlyIncome = monthSummary.income;
-            state.resources.money.monthlySpent = monthSummary.spent;
-            state.resources.money.monthlyNet = monthSummary.income - monthSummary.spent;
-          }
-        }
-        if (state && state.coins !== undefined) {
-          delete state.coins;
-        }
-        if (state && !state.skills) {
-          state.skills = DEFAULT_SKILLS;
-        }
-        if (state && !state.beliefSystem) {
-          state.beliefSystem = DEFAULT_BELIEF_SYSTEM;
-        }
-        if (state && !state.loreProfile) {
-          state.loreProfile = DEFAULT_LORE_PROFILE;
-        }
-        if (state && !state.worldState) {
-          state.worldState = DEFAULT_WORLD_STATE;
-        }
-        if (state && !state.progressionConfig) {
-          state.progressionConfig = DEFAULT_PROGRESSION_CONFIG;
-        }
-        if (state && !state.titleCatalog) {
-          state.titleCatalog = DEFAULT_TITLE_CATALOG;
-        }
-        if (state && !Array.isArray(state.orchestrationLog)) {
-          state.orchestrationLog = [];
-        }
-        if (state && typeof state.dailyCompletionSnapshots !== 'object') {
-          state.dailyCompletionSnapshots = {};
-        }
-        if (state && !Array.isArray(state.rewardActionLogs)) {
-          state.rewardActionLogs = [];
-        }
-        if (state && !Array.isArray(state.rewardPool)) {
-          state.rewardPool = [];
-        }
-        if (state && !state.rewardPricing) {
-          state.rewardPricing = DEFAULT_REWARD_PRICING;
-        } else if (state && state.rewardPricing) {
-          state.rewardPricing = {
-            ...DEFAULT_REWARD_PRICING,
-            ...state.rewardPricing,
-          };
-        }
-        if (state && Array.isArray(state.rewardPool)) {
-          // v2 migration: reshuffle all stickers for a natural board layout.
-          if (version < 2) {
-            const occupied: Array<{ x: number; y: number }> = [];
-            state.rewardPool = state.rewardPool.map((item) => {
-              const pricing = estimateRewardPricing(item.verb || 'other', item.quantity, state.rewardPricing);
-              const placement = createStickerPlacement(occupied);
-              occupied.push({ x: placement.x, y: placement.y });
-              return {
-                ...item,
-                x: placement.x,
-                y: placement.y,
-                rotation: placement.rotation,
-                zIndex: item.zIndex ?? placement.zIndex,
-                priceTier: item.priceTier || pricing.priceTier,
-                priceGold: typeof item.priceGold === 'number' && item.priceGold > 0 ? item.priceGold : pricing.priceGold,
-              };
-            });
-          } else {
-            state.rewardPool = state.rewardPool.map((item) => {
-              const pricing = estimateRewardPricing(item.verb || 'other', item.quantity, state.rewardPricing);
-              if (
-                typeof item.x === 'number' &&
-                typeof item.y === 'number' &&
-                typeof item.rotation === 'number' &&
-                typeof item.zIndex === 'number'
-              ) {
-                return {
-                  ...item,
-                  priceTier: item.priceTier || pricing.priceTier,
-                  priceGold: typeof item.priceGold === 'number' && item.priceGold > 0 ? item.priceGold : pricing.priceGold,
-                };
-              }
-              const placement = createStickerPlacement();
-              return {
-                ...item,
-                x: placement.x,
-                y: placement.y,
-                rotation: placement.rotation,
-                zIndex: placement.zIndex,
-                priceTier: item.priceTier || pricing.priceTier,
-                priceGold: typeof item.priceGold === 'number' && item.priceGold > 0 ? item.priceGold : pricing.priceGold,
-              };
-            });
-          }
-          if (version < 6) {
-            state.rewardPool = state.rewardPool.map((item) => {
-              if (item.verb !== 'eat' && item.verb !== 'drink') return item;
-              const pricing = estimateRewardPricing(item.verb, item.quantity, state.rewardPricing);
-              return {
-                ...item,
-                priceTier: pricing.priceTier,
-                priceGold: pricing.priceGold,
-              };
-            });
-          }
-          if (version < 10) {
-            state.rewardPool = state.rewardPool.map((item) => {
-              const normalizedVerb = normalizeRewardVerb(item);
-              const pricing = estimateRewardPricing(normalizedVerb, item.quantity, state.rewardPricing);
-              return {
-                ...item,
-                verb: normalizedVerb,
-                priceTier: pricing.priceTier,
-                priceGold: pricing.priceGold,
-              };
-            });
-          }
-        }
-        if (version === 0) {
-          // Migration from v0 to v1: Map old effort types to new ones
-          const current = state as GameData;
-
-          const mapEffort = (effort: string): string => {
-            if (effort === 'tiny') return 'light';
-            if (effort === 'moderate') return 'medium';
-            if (effort === 'massive') return 'heavy';
-            if (['light', 'medium', 'heavy'].includes(effort)) return effort;
-            return 'medium'; // Default fallback
-          };
-
-          if (current.customTasks) {
-            current.customTasks = current.customTasks.map(t => ({
-              ...t,
-              effort: mapEffort(t.effort as string) as CustomTask['effort']
-            }));
-          }
-
-          if (current.recurringTasks) {
-            current.recurringTasks = current.recurringTasks.map(t => ({
-              ...t,
-              effort: mapEffort(t.effort as string) as RecurringTask['effort']
-            }));
-          }
-        }
-        return state;
-      },
+      version: 10, // Envelope version only; bump CURRENT_SCHEMA_VERSION for data changes
+      // Schema upgrades run in the storage layer (migratePersistedGameData).
+      migrate: (persistedState: unknown) => persistedState as GameStore,
     }
   )
 );
+
+// Day keys everywhere follow the stored calendar settings, including after rehydration, imports and sync.
+configureCalendar(useGameStore.getState().calendarSettings);
+useGameStore.subscribe((state, prev) => {
+  if (state.calendarSettings !== prev.calendarSettings) configureCalendar(state.calendarSettings);
+});
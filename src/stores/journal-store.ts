@@ -7,6 +7,7 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { WeeklyReview, DailySuccessEntry } from '../types/journal';
 import { useGameStore } from './game-store';
+import { getDayKey } from '../lib/calendar-day';
 
 // ==================== Store State ====================
 
@@ -104,7 +105,7 @@ export const useJournalStore = create<JournalState & JournalActions>()(
             },
 
             getTodayEntry: () => {
-                const today = new Date().toISOString().split('T')[0];
+                const today = getDayKey();
                 return get().dailySuccessJournal.find((e) => e.date.split('T')[0] === today);
             },
 
@@ -20,6 +20,7 @@ import type {
 } from '../types/planner';
 import { DEFAULT_TRIGGERS } from '../config/intervention-triggers';
 import { createPrefixedId } from '../lib/id';
+import { createCollectionStorage } from '../services/storage/collection-storage';
 
 // ==================== 初始状态 ====================
 
@@ -605,6 +606,14 @@ export const usePlannerStore = create<PlannerState & PlannerActions>()(
     }),
     {
       name: 'earth-online-planner',
+      storage: createCollectionStorage({
+        collections: {
+          eventStream: 'list',
+          interventionHistory: 'list',
+          reflections: 'list',
+          summaries: 'list',
+        },
+      }),
       partialize: (state) => {
         // 只持久化数据，不持久化 actions
         const {
@@ -626,8 +635,13 @@ export const usePlannerStore = create<PlannerState & PlannerActions>()(
       merge: (persistedState: unknown, currentState: PlannerState & PlannerActions) => {
         const persisted = persistedState as Partial<PlannerState>;
 
-        // Merge triggers: keep user preferences (enabled/disabled) but add new triggers
-        const persistedTriggers = persisted.triggers || [];
+        // Merge triggers: keep user preferences (enabled/disabled) but add new triggers.
+        // Prompt ids always come from the defaults; the prompt text itself lives in the prompt registry
+        const defaultTriggers = new Map(DEFAULT_TRIGGERS.map((t) => [t.id, t]));
+        const persistedTriggers = (persisted.triggers || []).map((t) => {
+          const { coachPrompt: _legacyPrompt, ...response } = t.response as typeof t.response & { coachPrompt?: string };
+          return { ...t, response: { ...response, coachPromptId: defaultTriggers.get(t.id)?.response.coachPromptId } };
+        });
         const persistedTriggerIds = new Set(persistedTriggers.map(t => t.id));
 
         // Find new triggers that don't exist in persisted state
@@ -4,6 +4,7 @@
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
+import { getDayKey, normalizeDayKey } from '../lib/calendar-day';
 
 // Default pomodoro duration: 25 minutes
 const POMODORO_DURATION_SECONDS = 25 * 60;
@@ -60,7 +61,7 @@ const initialState: PomodoroState = {
   endTime: null,
   completedToday: 0,
   totalCompleted: 0,
-  lastPomodoroDate: new Date().toDateString(),
+  lastPomodoroDate: getDayKey(),
 };
 
 export const usePomodoroStore = create<PomodoroStore>()(
@@ -122,7 +123,7 @@ export const usePomodoroStore = create<PomodoroStore>()(
       },
 
       complete: () => {
-        const today = new Date().toDateString();
+        const today = getDayKey();
         const state = get();
 
         set({
@@ -134,7 +135,7 @@ export const usePomodoroStore = create<PomodoroStore>()(
           // linkedTaskId: null,
           // linkedTaskName: null,
           completedToday:
-            state.lastPomodoroDate === today ? state.completedToday + 1 : 1,
+            normalizeDayKey(state.lastPomodoroDate) === today ? state.completedToday + 1 : 1,
           totalCompleted: state.totalCompleted + 1,
           lastPomodoroDate: today,
         });
@@ -190,10 +191,10 @@ export const usePomodoroStore = create<PomodoroStore>()(
         }
 
         // Check daily reset
-        const today = new Date().toDateString();
+        const today = getDayKey();
         const { lastPomodoroDate } = get();
 
-        if (lastPomodoroDate !== today) {
+        if (normalizeDayKey(lastPomodoroDate) !== today) {
           set({
             completedToday: 0,
             lastPomodoroDate: today,
@@ -0,0 +1,96 @@
+/**
+ * Prompt Store - user overrides of prompt templates and the outputs they produced
+ *
+ * Overrides are saved as new immutable versions; `active` picks the version
+ * each prompt renders with (built-in when unset). Outputs are logged with the
+ * version ids of every prompt behind them so versions can be compared in
+ * Settings (see src/lib/ai/prompt-registry.ts).
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { createCollectionStorage } from '../services/storage/collection-storage';
+import { createLooseId } from '../lib/id';
+import type { PromptId, PromptOutputRecord, PromptOverride } from '../types/ai';
+
+/** Prune once the log grows past this; pruning rewrites the whole list, so it is batched */
+const MAX_PROMPT_OUTPUTS = 600;
+/** Longer outputs are cut; comparisons only need the opening of a reply */
+export const MAX_PROMPT_OUTPUT_CHARS = 2000;
+
+interface PromptState {
+  overrides: PromptOverride[];
+  active: Partial<Record<PromptId, string>>;
+  outputs: PromptOutputRecord[];
+}
+
+interface PromptActions {
+  /** Saves the texts as a new version of the prompt and activates it; returns its version id */
+  saveOverride: (promptId: PromptId, texts: { zh: string; en: string }) => string;
+  /** `null` goes back to the built-in text */
+  activateVersion: (promptId: PromptId, versionId: string | null) => void;
+  recordOutput: (record: Omit<PromptOutputRecord, 'id'>) => void;
+  clearOutputs: () => void;
+}
+
+type PromptStore = PromptState & PromptActions;
+
+export const usePromptStore = create<PromptStore>()(
+  persist(
+    (set, get) => ({
+      overrides: [],
+      active: {},
+      outputs: [],
+
+      saveOverride: (promptId, texts) => {
+        const count = get().overrides.filter((override) => override.promptId === promptId).length;
+        const versionId = `u${count + 1}`;
+        set((state) => ({
+          overrides: [
+            ...state.overrides,
+            { id: createLooseId(8), promptId, versionId, zh: texts.zh, en: texts.en, createdAt: new Date().toISOString() },
+          ],
+          active: { ...state.active, [promptId]: versionId },
+        }));
+        return versionId;
+      },
+
+      activateVersion: (promptId, versionId) => {
+        set((state) => {
+          const active = { ...state.active };
+          if (versionId) {
+            active[promptId] = versionId;
+          } else {
+            delete active[promptId];
+          }
+          return { active };
+        });
+      },
+
+      recordOutput: (record) => {
+        set((state) => {
+          const outputs = [
+            ...state.outputs,
+            { ...record, id: createLooseId(8), output: record.output.slice(0, MAX_PROMPT_OUTPUT_CHARS) },
+          ];
+          return { outputs: outputs.length > MAX_PROMPT_OUTPUTS ? outputs.slice(-Math.floor(MAX_PROMPT_OUTPUTS * 0.8)) : outputs };
+        });
+      },
+
+      clearOutputs: () => {
+        set({ outputs: [] });
+      },
+    }),
+    {
+      name: 'priaxis-prompts',
+      storage: createCollectionStorage({
+        collections: { overrides: 'list', outputs: 'list' },
+      }),
+      partialize: (state) => ({
+        overrides: state.overrides,
+        active: state.active,
+        outputs: state.outputs,
+      }),
+    }
+  )
+);
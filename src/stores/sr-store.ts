@@ -8,6 +8,9 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { obsidianRest } from '../lib/obsidian-rest';
 import { useGameStore } from './game-store';
+import { getDayKey } from '../lib/calendar-day';
+import { addDaysToKey } from '../lib/recurrence';
+import type { FlashcardReward } from '../lib/economy';
 
 interface SRStats {
     todayReviewed: number;
@@ -37,18 +40,10 @@ interface SRStore {
     openReviewQueue: () => Promise<void>;
     openNoteForReview: () => Promise<void>;
 
-    // XP Integration
-    awardXP: (amount: number) => void;
+    // XP Integration (amounts come from the economy config)
+    awardXP: (reward: FlashcardReward) => void;
 }
 
-// XP rewards for reviews
-const XP_REWARDS = {
-    easy: 15,
-    good: 10,
-    hard: 5,
-    sessionComplete: 50, // Bonus for completing a session
-};
-
 export const useSRStore = create<SRStore>()(
     persist(
         (set, get) => ({
@@ -112,7 +107,7 @@ export const useSRStore = create<SRStore>()(
 
                 // Award session completion bonus if reviewed any cards
                 if (sessionCardsReviewed > 0) {
-                    awardXP(XP_REWARDS.sessionComplete);
+                    awardXP('session');
                 }
 
                 set({ isReviewing: false });
@@ -121,7 +116,7 @@ export const useSRStore = create<SRStore>()(
             // Record a card review
             recordReview: async (rating) => {
                 const { stats, awardXP } = get();
-                const today = new Date().toISOString().split('T')[0];
+                const today = getDayKey();
 
                 try {
                     // Execute the review command in Obsidian
@@ -137,9 +132,7 @@ export const useSRStore = create<SRStore>()(
                     let newStreak = stats.currentStreak;
                     if (stats.lastReviewDate !== today) {
                         // Check if this continues the streak (yesterday)
-                        const yesterday = new Date();
-                        yesterday.setDate(yesterday.getDate() - 1);
-                        const yesterdayStr = yesterday.toISOString().split('T')[0];
+                        const yesterdayStr = addDaysToKey(today, -1);
 
                         if (stats.lastReviewDate === yesterdayStr) {
                             newStreak += 1;
@@ -163,7 +156,7 @@ export const useSRStore = create<SRStore>()(
                     }));
 
                     // Award XP
-                    awardXP(XP_REWARDS[rating]);
+                    awardXP(rating);
 
                 } catch (e: unknown) {
                     set({ error: `Review failed: ${e instanceof Error ? e.message : 'Unknown error'}` });
@@ -189,12 +182,9 @@ export const useSRStore = create<SRStore>()(
             },
 
             // Award XP via game store
-            awardXP: (amount) => {
-                const gameStore = useGameStore.getState();
-                if (gameStore.addExperience) {
-                    gameStore.addExperience(amount);
-                    console.log(`[SR] Awarded ${amount} XP`);
-                }
+            awardXP: (reward) => {
+                const amount = useGameStore.getState().rewardFlashcard(reward);
+                console.log(`[SR] Awarded ${amount} XP`);
             },
         }),
         {
@@ -0,0 +1,109 @@
+/**
+ * Sync Store - Device sync state
+ * Holds this device's identity, the outbox of ops not yet acknowledged by the
+ * bridge and the per-key versions used for last-writer-wins replay.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { createCollectionStorage } from '../services/storage/collection-storage';
+import { createLooseId } from '../lib/id';
+import type { SyncOp, SyncVersions } from '../services/sync/op-log';
+
+export type SyncStatus = 'disabled' | 'connecting' | 'online' | 'offline';
+
+interface SyncState {
+  enabled: boolean;
+  deviceId: string;
+  /** Last HLC issued or received by this device */
+  clock: string;
+  /** Highest bridge sequence number applied locally */
+  lastSeq: number;
+  /** Whether the full local state has been pushed to the bridge once */
+  seeded: boolean;
+  outbox: SyncOp[];
+  versions: SyncVersions;
+  lastSyncedAt: string | null;
+  // Runtime only
+  status: SyncStatus;
+}
+
+interface SyncActions {
+  setEnabled: (enabled: boolean) => void;
+  setStatus: (status: SyncStatus) => void;
+  enqueueOps: (ops: SyncOp[], clock: string, versions: SyncVersions) => void;
+  acknowledgeOps: (ids: string[]) => void;
+  recordRemoteOps: (lastSeq: number, clock: string, versions: SyncVersions) => void;
+  advanceLastSeq: (lastSeq: number) => void;
+  markSeeded: () => void;
+}
+
+type SyncStore = SyncState & SyncActions;
+
+export const useSyncStore = create<SyncStore>()(
+  persist(
+    (set) => ({
+      enabled: false,
+      deviceId: createLooseId(),
+      clock: '',
+      lastSeq: 0,
+      seeded: false,
+      outbox: [],
+      versions: {},
+      lastSyncedAt: null,
+      status: 'disabled',
+
+      setEnabled: (enabled) => {
+        set({ enabled, status: enabled ? 'connecting' : 'disabled' });
+      },
+
+      setStatus: (status) => {
+        set({ status });
+      },
+
+      enqueueOps: (ops, clock, versions) => {
+        set((state) => ({
+          outbox: [...state.outbox, ...ops],
+          clock,
+          versions: { ...state.versions, ...versions },
+        }));
+      },
+
+      acknowledgeOps: (ids) => {
+        const acknowledged = new Set(ids);
+        set((state) => ({
+          outbox: state.outbox.filter((op) => !acknowledged.has(op.id)),
+          lastSyncedAt: new Date().toISOString(),
+        }));
+      },
+
+      recordRemoteOps: (lastSeq, clock, versions) => {
+        set({ lastSeq, clock, versions, lastSyncedAt: new Date().toISOString() });
+      },
+
+      advanceLastSeq: (lastSeq) => {
+        set((state) => (lastSeq > state.lastSeq ? { lastSeq } : {}));
+      },
+
+      markSeeded: () => {
+        set({ seeded: true });
+      },
+    }),
+    {
+      name: 'priaxis-sync',
+      storage: createCollectionStorage({
+        collections: { outbox: 'list', versions: 'map' },
+      }),
+      partialize: (state) => ({
+        enabled: state.enabled,
+        deviceId: state.deviceId,
+        clock: state.clock,
+        lastSeq: state.lastSeq,
+        seeded: state.seeded,
+        outbox: state.outbox,
+        versions: state.versions,
+        lastSyncedAt: state.lastSyncedAt,
+      }),
+    }
+  )
+);
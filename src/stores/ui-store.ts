@@ -41,6 +41,9 @@ interface UIState {
 
   // Notifications
   notificationsEnabled: boolean;
+
+  // Calendar subscription feed
+  calendarFeedEnabled: boolean;
 }
 
 interface UIActions {
@@ -78,6 +81,9 @@ interface UIActions {
 
   // Notifications
   setNotificationsEnabled: (enabled: boolean) => void;
+
+  // Calendar subscription feed
+  setCalendarFeedEnabled: (enabled: boolean) => void;
 }
 
 type UIStore = UIState & UIActions;
@@ -139,6 +145,7 @@ const initialState: UIState = {
   openModals: [],
   sidebarCollapsed: false,
   notificationsEnabled: true,
+  calendarFeedEnabled: false,
 };
 
 export const useUIStore = create<UIStore>()(
@@ -227,6 +234,9 @@ export const useUIStore = create<UIStore>()(
 
       // Notifications
       setNotificationsEnabled: (enabled) => set({ notificationsEnabled: enabled }),
+
+      // Calendar subscription feed
+      setCalendarFeedEnabled: (enabled) => set({ calendarFeedEnabled: enabled }),
     }),
     {
       name: 'uiSettings',
@@ -242,6 +252,7 @@ export const useUIStore = create<UIStore>()(
         tabOrder: state.tabOrder,
         sidebarCollapsed: state.sidebarCollapsed,
         notificationsEnabled: state.notificationsEnabled,
+        calendarFeedEnabled: state.calendarFeedEnabled,
         language: state.language,
       }),
     }
@@ -35,3 +35,90 @@ export interface GlobalAIState {
     isOpen: boolean;
     setIsOpen: (isOpen: boolean) => void;
 }
+
+// ==================== Telemetry ====================
+
+/** Product feature an AI call is made for; budgets are set per feature */
+export type AIFeature =
+    | 'friend_chat'
+    | 'coach_chat'
+    | 'intervention'
+    | 'task_breakdown'
+    | 'prioritization'
+    | 'task_analysis'
+    | 'reflection_summary';
+
+/** `over_budget` calls never reached a provider */
+export type AICallOutcome = 'success' | 'error' | 'aborted' | 'over_budget';
+
+export interface AICallRecord {
+    id: string;
+    at: string; // ISO timestamp
+    feature: AIFeature;
+    provider: string;
+    model: string;
+    inputTokens?: number;
+    outputTokens?: number;
+    costUsd?: number; // Unknown when the model has no price entry
+    latencyMs: number;
+    outcome: AICallOutcome;
+    error?: string;
+}
+
+/** Daily limits; unset fields are unlimited */
+export interface AIFeatureBudget {
+    maxCalls?: number;
+    maxTokens?: number;
+    maxCostUsd?: number;
+}
+
+// ==================== Prompt Registry ====================
+
+/** Named prompt template, see src/config/prompt-templates.ts */
+export type PromptId =
+    | 'friend.system'
+    | 'friend.intervention_opening'
+    | 'friend.reply'
+    | 'coach.system'
+    | 'coach.intervention_opening'
+    | 'coach.conversation'
+    | 'coach.task_breakdown'
+    | 'coach.moscow'
+    | 'coach.pruning'
+    | 'intervention.deadline_postponed'
+    | 'intervention.low_daily_completion'
+    | 'intervention.quest_at_risk'
+    | 'intervention.progress_behind'
+    | 'intervention.quest_overdue'
+    | 'intervention.chapter_overdue'
+    | 'intervention.one_two_three'
+    | 'reflection.quest_summary'
+    | 'reflection.quest_completion'
+    | 'reflection.chapter_completion';
+
+export type PromptLanguage = 'zh' | 'en';
+
+/** Version id of every prompt that went into one AI output, e.g. `{ 'coach.system': 'v1' }` */
+export type PromptVersions = Partial<Record<PromptId, string>>;
+
+/**
+ * User-edited version of a prompt. Versions are never edited in place, so
+ * outputs recorded under a version id always match its text.
+ */
+export interface PromptOverride {
+    id: string;
+    promptId: PromptId;
+    versionId: string; // `u1`, `u2`, ... per prompt; built-in versions are `v<n>`
+    zh: string;
+    en: string;
+    createdAt: string;
+}
+
+export interface PromptOutputRecord {
+    id: string;
+    at: string; // ISO timestamp
+    feature: AIFeature;
+    language: PromptLanguage;
+    versions: PromptVersions;
+    output: string;
+}
@@ -15,12 +15,14 @@ export type EventType =
   | 'task.deleted'
   | 'task.progress'
   | 'task.promoted'
+  | 'task.unblocked' // Last unfinished blocker completed
   // Quest events
   | 'quest.created'
   | 'quest.completed'
   | 'quest.updated'
   | 'quest.paused'
   | 'quest.resumed'
+  | 'quest.unblocked'
   // Skill events
   | 'skill.xp'
   | 'skill.levelup'
@@ -36,6 +38,9 @@ export type EventType =
   | 'sleep.recorded'
   // Pomodoro events
   | 'pomodoro.completed'
+  // Flashcard events
+  | 'flashcard.reviewed'
+  | 'flashcard.session_completed'
   // Season events
   | 'season.created'
   | 'season.completed'
@@ -45,7 +50,7 @@ export type EventType =
  * Entity Reference
  */
 export interface EventEntity {
-  type: 'task' | 'quest' | 'season' | 'chapter' | 'skill' | 'state';
+  type: 'task' | 'quest' | 'season' | 'chapter' | 'skill' | 'state' | 'habit' | 'flashcard' | 'pomodoro';
   id: string;
   name: string;
 }
@@ -129,6 +134,7 @@ export interface EventSummary {
   highlights: string[];
   patterns: string[];
   createdAt: string;
+  userEdited?: boolean;
 }
 
 /**
@@ -141,12 +147,33 @@ export interface CoreEvent {
   flaggedAt: string;
 }
 
+/**
+ * Memory Fact (durable knowledge about the user, fed back into AI prompts)
+ */
+export type MemoryFactKind = 'pattern' | 'blocker' | 'preference' | 'strength';
+
+export type MemorySource = 'events' | 'reflection' | 'weekly_review' | 'chat' | 'user';
+
+export interface MemoryFact {
+  id: string;
+  kind: MemoryFactKind;
+  text: string;
+  source: MemorySource;
+  evidenceCount: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  userEdited?: boolean; // Written or edited by the user; condensation leaves it alone
+}
+
 /**
  * Event Memories
  */
 export interface EventMemories {
   summaries: EventSummary[];
   coreEvents: CoreEvent[];
+  facts: MemoryFact[];
+  dismissed: string[]; // Summary ids / fact keys the user deleted, never re-created
+  lastCondensedAt?: string;
 }
 
 /**
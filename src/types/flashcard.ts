@@ -4,6 +4,8 @@
  * Core data structures for the in-app spaced repetition system.
  */
 
+import { getDayKey } from '../lib/calendar-day';
+
 /**
  * A flashcard parsed from Obsidian markdown
  */
@@ -132,6 +134,6 @@ export const DEFAULT_SR_SETTINGS: SRSettings = {
 export const DEFAULT_PROGRESS: Omit<FlashcardProgress, 'cardId'> = {
     ease: 2.5,
     interval: 0,
-    dueDate: new Date().toISOString().split('T')[0],
+    dueDate: getDayKey(),
     repetitions: 0,
 };
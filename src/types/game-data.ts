@@ -13,6 +13,10 @@ import type {
   WeeklyGoal,
   Habit,
   RewardSticker,
+  RewardPriceTier,
+  Effort,
+  Importance,
+  TaskType,
 } from './task';
 import type { GameEvent, EventMemories } from './event';
 
@@ -115,6 +119,59 @@ export interface ProgressionRule {
   attributeWeights: Record<string, number>;
 }
 
+/**
+ * Per-effort inputs of the task completion formulas
+ */
+export interface EffortEconomy {
+  minutes: number; // Expected focus minutes
+  energy: number; // Base energy cost when nothing was logged
+  gold: number; // Base gold reward
+  xpCoef: number;
+}
+
+/**
+ * Reward formulas for every rewarding event (see src/lib/economy.ts)
+ */
+export interface EconomyConfig {
+  task: {
+    minutesPerEnergy: number; // Logged time <-> energy conversion
+    pomodoroMinutes: number;
+    pomodoroEnergy: number; // Base energy per invested pomodoro
+    energyMultiplier: Record<TaskType, number>;
+    minutesMultiplier: Record<TaskType, number>; // Applied to estimated minutes
+    effort: Record<Effort, EffortEconomy>;
+    goldImportanceCoef: Record<Importance, number>;
+    goldTaskTypeCoef: Record<TaskType, number>;
+    baseXp: number;
+    maxXp: number;
+    xpImportanceCoef: Record<Importance, number>;
+    reviewXpBonus: number; // XP multiplier when a review was written
+    primarySkillShare: number; // Share of task XP given to each primary skill
+    secondarySkillShare: number;
+    attributeScale: number; // Attribute gain per unit of rule weight
+  };
+  habit: {
+    energyPerHour: number;
+    xpPerHour: number;
+    goldPerHour: number;
+  };
+  flashcard: {
+    easy: number;
+    good: number;
+    hard: number;
+    sessionBonus: number;
+  };
+  pomodoro: {
+    xp: number;
+    gold: number;
+  };
+  milestone: {
+    questXpMultiplier: number; // Applied to rewardXP
+    chapterXpMultiplier: number;
+    seasonXpMultiplier: number;
+  };
+}
+
 export interface ProgressionConfig {
   taskTypeRules: Record<'creative' | 'tax' | 'maintenance', ProgressionRule>;
   aiAdjustmentBounds: {
@@ -122,10 +179,13 @@ export interface ProgressionConfig {
     max: number;
   };
   periodCaps: {
+    dailyXpCap: number; // Player XP per day from all sources, 0 = no cap
+    dailyGoldCap: number; // Gold per day from all sources, 0 = no cap
     dailySkillXpCap: number;
     weeklySkillXpCap: number;
     dailyAttrCap: number;
   };
+  economy: EconomyConfig;
 }
 
 export interface GeneratedTitleEntry {
@@ -150,6 +210,18 @@ export interface TitleCatalog {
   unlockHistory: TitleUnlockHistoryEntry[];
 }
 
+/**
+ * Achievement title unlocked when its condition holds (syntax: src/lib/achievements.ts)
+ */
+export interface AchievementDefinition {
+  id: string;
+  /** Title name added to `unlockedTitles` */
+  name: string;
+  description: string;
+  condition: string;
+  createdAt?: string;
+}
+
 export interface OrchestrationLogEntry {
   id: string;
   trigger: 'quest_completed' | 'daily_review_saved' | 'weekly_review_saved' | 'manual';
@@ -230,7 +302,7 @@ export interface FinancialRecord {
   amount: number;
   category: string;
   source?: 'manual' | 'reward_redeem' | 'system' | 'ai';
-  relatedEntityType?: 'reward' | 'task';
+  relatedEntityType?: 'reward' | 'task' | 'habit';
   relatedEntityId?: string;
   description?: string;
   date: string;
@@ -275,6 +347,58 @@ export interface RewardPricingConfig {
   other: number;
 }
 
+/**
+ * Redemption limit for rewards whose object or text contains `keyword`
+ */
+export interface RewardCooldownRule {
+  id: string;
+  keyword: string;
+  /** Redemptions allowed per period */
+  limit: number;
+  periodDays: number;
+}
+
+export interface RewardBudgetConfig {
+  /** Gold each price tier may spend per week (Monday start); 0 means no budget */
+  tierWeeklyBudget: Record<RewardPriceTier, number>;
+  cooldowns: RewardCooldownRule[];
+  /** Prices rise with recent redemptions of the same verb */
+  dynamicPricing: {
+    enabled: boolean;
+    windowDays: number;
+    /** Price increase per recent redemption, in percent */
+    stepPercent: number;
+    maxMultiplier: number;
+  };
+}
+
+/**
+ * How moments map to days: the time zone days follow and the hour a new day starts
+ */
+export interface CalendarSettings {
+  /** 0-23; work before this hour counts for the previous day */
+  dayStartHour: number;
+  /** IANA zone pinned by the user; null follows the device */
+  timeZone: string | null;
+}
+
+/**
+ * Savings goal on the reward board; gold moves from the balance into it
+ */
+export interface WishlistItem {
+  id: string;
+  name: string;
+  targetGold: number;
+  savedGold: number;
+  /** Gold set aside automatically per week, accrued daily */
+  weeklyContribution: number;
+  status: 'saving' | 'redeemed';
+  createdAt: string;
+  /** Date key (YYYY-MM-DD) contributions were last accrued for */
+  lastAccruedOn: string;
+  redeemedAt?: string;
+}
+
 export interface DailyCompletionSnapshot {
   date: string; // YYYY-MM-DD
   tasksCompleted: number;
@@ -367,6 +491,9 @@ export interface AIAnalysisEntry {
  * Complete Game Data Structure
  */
 export interface GameData {
+  /** Schema version the data was last migrated to (see services/storage/schema-migrations) */
+  schemaVersion: number;
+
   // Player attributes
   stats: PlayerStats;
   level: number;
@@ -413,6 +540,7 @@ export interface GameData {
   worldState: WorldState;
   progressionConfig: ProgressionConfig;
   titleCatalog: TitleCatalog;
+  customAchievements: AchievementDefinition[];
   orchestrationLog: OrchestrationLogEntry[];
 
   // Pomodoro
@@ -440,6 +568,11 @@ export interface GameData {
   savedRewards: SavedRewards;
   rewardPool: RewardSticker[];
   rewardPricing: RewardPricingConfig;
+  rewardBudget: RewardBudgetConfig;
+  rewardWishlist: WishlistItem[];
+
+  // Day boundary and time zone for date keys
+  calendarSettings: CalendarSettings;
 
   // Season system
   currentSeason: Season | null; // Deprecated, kept for compatibility
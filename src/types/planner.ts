@@ -3,6 +3,8 @@
  * 智能规划系统的核心类型
  */
 
+import type { PromptId } from './ai';
+
 // ==================== Event Types ====================
 
 /**
@@ -92,6 +94,11 @@ export interface AtRiskQuest {
   requiredDailyProgress: number;
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
   suggestedAction: 'accelerate' | 'prune' | 'delegate' | 'extend';
+  // Schedule forecast (absent when the quest has no work estimate)
+  forecastDate?: string;
+  forecastRange?: { optimistic: string; pessimistic: string };
+  completionProbability?: number;
+  onCriticalPath?: boolean;
 }
 
 /**
@@ -163,7 +170,7 @@ export interface InterventionTrigger {
     level: 'popup' | 'friend' | 'coach';
     message: string;
     escalateAfter?: number; // 分钟
-    coachPrompt?: string;
+    coachPromptId?: PromptId; // Coach 开场时的关注点模板
   };
 
   cooldown: number; // 分钟
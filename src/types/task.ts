@@ -24,6 +24,31 @@ export type ProgressMode = 'hybrid' | 'auto' | 'manual';
 export type ProgressType = 'percentage' | 'custom';
 export type RewardVerb = 'eat' | 'drink' | 'buy' | 'watch' | 'play' | 'rest' | 'other';
 export type RewardPriceTier = 'S' | 'A' | 'B' | 'C';
+export type RewardCurrency = 'CNY' | 'USD' | 'EUR' | 'GBP' | 'JPY';
+export type RewardDayPeriod = 'morning' | 'noon' | 'afternoon' | 'evening' | 'night';
+export type RewardScheduleAnchor = 'after_breakfast' | 'after_lunch' | 'after_dinner' | 'after_meal' | 'after_work' | 'before_bed';
+
+/**
+ * Real-money spending limit written in the reward text, e.g. "¥60 以内"
+ */
+export interface RewardPriceCap {
+  amount: number;
+  currency: RewardCurrency;
+}
+
+/**
+ * When the reward may be enjoyed, e.g. "周六晚上" or "after dinner"
+ */
+export interface RewardSchedule {
+  /** 0 = Sunday ... 6 = Saturday */
+  weekdays?: number[];
+  period?: RewardDayPeriod;
+  anchor?: RewardScheduleAnchor;
+  /** HH:mm */
+  from?: string;
+  /** HH:mm */
+  until?: string;
+}
 
 export interface RewardSticker {
   id: string;
@@ -32,6 +57,9 @@ export interface RewardSticker {
   object: string;
   quantity?: number;
   unit?: string;
+  priceCap?: RewardPriceCap;
+  durationMinutes?: number;
+  schedule?: RewardSchedule;
   sourceTaskId?: string;
   sourceTaskName?: string;
   status: 'available' | 'redeemed';
@@ -61,10 +89,12 @@ export interface CustomTask {
 
   // Link relations
   linkType: LinkType;
+  recurringTaskId?: string; // Recurring rule that generated this task
   linkedMainQuestId?: string;
   linkedChapterId?: string;
   linkedSeasonId?: string;
   seasonId?: string;
+  blockedBy?: string[]; // Tasks that must be completed before this one can start
 
   // Four-dimensional attributes
   importance: Importance;
@@ -163,6 +193,7 @@ export interface MainQuest {
   linkedChapterId?: string;
   chapterContribution?: number;
   seasonId?: string;
+  blockedBy?: string[]; // Quests that must be completed before this one can start
 
   // Rewards
   rewardTitle?: string; // Title unlocked upon completion
@@ -253,6 +284,12 @@ export interface Category {
   color: string;
 }
 
+// Recurrence
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'after_completion';
+export type MonthlyRecurrenceMode = 'day_of_month' | 'nth_weekday' | 'last_business_day';
+// skip: only today's occurrence; latest: the most recent missed one; backfill: every missed one
+export type MissedOccurrencePolicy = 'skip' | 'latest' | 'backfill';
+
 /**
  * Recurring Task
  */
@@ -260,15 +297,22 @@ export interface RecurringTask {
   id: string;
   name: string;
   description?: string;
-  frequency: 'daily' | 'weekly' | 'monthly';
+  frequency: RecurrenceFrequency;
+  interval?: number; // Every N days/weeks/months; days after last completion for after_completion (default 1)
   daysOfWeek?: number[]; // 0-6 for weekly tasks
-  dayOfMonth?: number; // 1-31 for monthly tasks
+  monthlyMode?: MonthlyRecurrenceMode; // Default day_of_month
+  dayOfMonth?: number; // 1-31 for monthly tasks, clamped to the last day of shorter months
+  weekOfMonth?: number; // 1-5, or -1 for the last one (nth_weekday)
+  weekdayOfMonth?: number; // 0-6 (nth_weekday)
+  businessDaysOnly?: boolean; // Skip occurrences on Saturday/Sunday
+  missedPolicy?: MissedOccurrencePolicy; // Default skip
   time?: string; // HH:mm format
   enabled: boolean;
 
   // Tracking
-  lastCompleted?: string; // Last time the SOURCE was completed (if applicable)
+  lastCompleted?: string; // Date (YYYY-MM-DD) a generated task was last completed
   lastGeneratedDate?: string; // Date string (YYYY-MM-DD) of last generated CustomTask
+  lastCheckedDate?: string; // Date (YYYY-MM-DD) occurrences were last generated up to
   streak: number;
   createdAt: string;
 
@@ -356,6 +400,7 @@ export interface Habit {
   frequencyType: 'daily' | 'weekly';
   targetPerDay?: number; // 每天目标次数 (frequencyType = daily)
   targetDaysPerWeek?: number; // 每周目标天数 (frequencyType = weekly)
+  estimatedDuration?: number; // 每次打卡分钟数，打卡时计入时间并按经济配置发放奖励
 
   // 追踪
   streak: number; // 当前连续天数